@@ -7,53 +7,96 @@
  * Modification History:
  * 2024-01-12: Documentation added.
  * 2026-01-15: Complete revamp for monthly recurring badge system.
+ * 2026-10-19: Added the Challenge Champions collection.
+ * 2026-10-19: Earned badges and the week so far can be shared as image cards.
+ * 2026-10-19: Added the Streak Keepers collection.
+ * 2026-10-19: Collections without their own section (e.g. Special Feats) are drawn from their badge rules.
+ * 2026-10-19: Added the badge timeline: every unlock with its date, value and trail.
+ * 2026-10-19: Collections show the badges of the badge catalog.
  */
-import { View, Text, StyleSheet, ScrollView, FlatList, Dimensions, TouchableOpacity, Modal } from 'react-native';
+import { View, Text, StyleSheet, ScrollView, FlatList, Dimensions, TouchableOpacity, Modal, Alert } from 'react-native';
 import { useGame } from '../../src/context/GameContext';
 import { useSubscription } from '../../src/context/SubscriptionContext';
+import { useAuth } from '../../src/context/AuthContext';
 import { useLocalSearchParams, useRouter } from 'expo-router';
-import { useEffect } from 'react';
+import { useEffect, useMemo } from 'react';
 import {
     BADGE_COLLECTIONS,
     Badge,
-    MONTHLY_STEP_BADGES,
-    MONTHLY_DISTANCE_BADGES,
-    TRAIL_BADGES,
+    BadgeCollection,
     MONTHLY_MASTER_BADGES,
-    MONTHLY_BADGES_TOTAL,
     MONTHLY_MASTER_REQUIREMENT,
     MONTH_NAMES,
     MONTH_ICONS
 } from '../../src/const/badges';
 import { BadgeService } from '../../src/services/BadgeService';
+import { StreakService } from '../../src/services/StreakService';
+import { BadgeRuleEngine } from '../../src/services/BadgeRuleEngine';
+import { ProgressEngine } from '../../src/services/ProgressEngine';
+import { useTrailCatalog } from '../../src/context/TrailCatalogContext';
+import { useBadgeCatalog } from '../../src/context/BadgeCatalogContext';
 import { LinearGradient } from 'expo-linear-gradient';
-import { useTheme } from '../../src/context/PreferencesContext';
-import { Award, Target, MapPin, Trophy, Lock, History, ChevronLeft, Calendar, Sparkles } from 'lucide-react-native';
+import { useTheme, usePreferences } from '../../src/context/PreferencesContext';
+import { Award, Target, MapPin, Trophy, Lock, History, ChevronLeft, Calendar, Sparkles, Share2, Clock } from 'lucide-react-native';
 import { useState } from 'react';
-import { MonthlyProgress } from '../../src/types';
+import { DailyLog, MonthlyProgress } from '../../src/types';
+import { StorageService } from '../../src/services/StorageService';
+import { ShareCardService, ShareCardContent } from '../../src/services/ShareCardService';
+import { ShareCardModal } from '../../src/components/ShareCardModal';
+import { formatDateKey, toLocalDateKey } from '../../src/utils/date';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const BADGE_CARD_WIDTH = 140;
 
+// Collections with their own section below; any other collection is drawn from its badge rules
+const BUILT_IN_COLLECTIONS = new Set(['steps', 'distance', 'trails', 'monthly', 'challenges', 'streaks']);
+
 export default function AchievementsScreen() {
     const { progress } = useGame();
     const { isPro } = useSubscription();
+    const { user } = useAuth();
     const router = useRouter();
     const theme = useTheme();
+    const { preferences } = usePreferences();
+    const { trails } = useTrailCatalog();
+    const { badges: catalogBadges, getCollectionBadges } = useBadgeCatalog();
     const params = useLocalSearchParams();
     const [viewingHistory, setViewingHistory] = useState(false);
+    const [viewingTimeline, setViewingTimeline] = useState(false);
     const [selectedHistoryMonth, setSelectedHistoryMonth] = useState<MonthlyProgress | null>(null);
+    const [shareCard, setShareCard] = useState<ShareCardContent | null>(null);
+    const [dailyLogs, setDailyLogs] = useState<DailyLog[]>([]);
+
+    // Badge rules such as days in a row read the daily logs
+    useEffect(() => {
+        if (!user) return;
+        StorageService.getDailyLogs(user.id).then(setDailyLogs);
+    }, [user, progress?.lastSyncTime]);
+
+    const badgeContext = useMemo(
+        () => progress ? ProgressEngine.badgeContext(progress, dailyLogs, toLocalDateKey(), trails, catalogBadges) : null,
+        [progress, dailyLogs, trails, catalogBadges]
+    );
 
     useEffect(() => {
         if (params.view === 'history') {
             setViewingHistory(true);
+        } else if (params.view === 'timeline') {
+            setViewingTimeline(true);
         }
     }, [params.view]);
 
     const currentMonthlyProgress = progress?.monthlyProgress;
     const yearlyProgress = progress?.yearlyProgress || [];
     const trailBadges = progress?.trailBadges || [];
+    const challengeBadges = progress?.challengeBadges || [];
+    const streakBadges = progress?.streakBadges || [];
+    const lifetimeBadgeIds = progress ? BadgeService.getLifetimeBadgeIds(progress) : [];
     const pastMonths = progress?.pastMonths || [];
+    const trailCollection = getCollectionBadges('trails');
+    const challengeCollection = getCollectionBadges('challenges');
+    const streakCollection = getCollectionBadges('streaks');
+    const monthlyBadgesTotal = catalogBadges.filter(b => b.period === 'monthly').length;
 
     // Determine which month data to show
     const activeProgress = selectedHistoryMonth || currentMonthlyProgress;
@@ -74,9 +117,28 @@ export default function AchievementsScreen() {
     const monthlyBadgesEarnedThisYear = currentYearProgress?.monthlyBadgesEarned.length || 0;
     const yearlyChampionEarned = currentYearProgress?.yearlyBadgeEarned || false;
 
-    const renderBadge = (badge: Badge, isUnlocked: boolean, progressPercent?: number) => {
+    const handleShareWeek = async () => {
+        if (!user) return;
+        try {
+            const logs = await StorageService.getDailyLogs(user.id);
+            setShareCard(ShareCardService.buildWeekCard(logs, toLocalDateKey(), preferences.distanceUnit));
+        } catch (error) {
+            console.error('Error loading week for share card:', error);
+            Alert.alert('Error', 'Could not load this week\'s activity.');
+        }
+    };
+
+    /**
+     * @param earnedIn - Period the badge was earned in, for badges that can be earned again (e.g. "March 2026")
+     */
+    const renderBadge = (badge: Badge, isUnlocked: boolean, progressPercent?: number, earnedIn?: string) => {
         return (
-            <View style={[styles.badgeCard, { backgroundColor: theme.card }]}>
+            <TouchableOpacity
+                style={[styles.badgeCard, { backgroundColor: theme.card }]}
+                disabled={!isUnlocked}
+                activeOpacity={0.8}
+                onPress={() => setShareCard(ShareCardService.buildBadgeCard(badge, earnedIn))}
+            >
                 <View style={[
                     styles.badgeCircle,
                     isUnlocked ? styles.badgeUnlocked : [styles.badgeLocked, { backgroundColor: theme.backgroundTertiary, borderColor: theme.border }]
@@ -105,7 +167,7 @@ export default function AchievementsScreen() {
                 {isUnlocked && (
                     <Text style={styles.badgeUnlockedText}>✓ Earned</Text>
                 )}
-            </View>
+            </TouchableOpacity>
         );
     };
 
@@ -143,8 +205,8 @@ export default function AchievementsScreen() {
                     data={badges}
                     renderItem={({ item }) => {
                         const isUnlocked = unlockedIds.has(item.id);
-                        const progressPercent = Math.min(100, Math.round((currentValue / item.conditionValue) * 100));
-                        return renderBadge(item, isUnlocked, isUnlocked ? undefined : progressPercent);
+                        const progressPercent = Math.min(100, Math.round((currentValue / item.rule.threshold) * 100));
+                        return renderBadge(item, isUnlocked, isUnlocked ? undefined : progressPercent, `${activeMonthName} ${activeYear}`);
                     }}
                     keyExtractor={(item) => item.id}
                     showsHorizontalScrollIndicator={false}
@@ -174,14 +236,14 @@ export default function AchievementsScreen() {
                     </View>
                     <View style={[styles.collectionProgress, { backgroundColor: '#10B981' }]}>
                         <Text style={styles.progressText}>
-                            {TRAIL_BADGES.filter(b => unlockedIds.has(b.id)).length}/{TRAIL_BADGES.length}
+                            {trailCollection.filter(b => unlockedIds.has(b.id)).length}/{trailCollection.length}
                         </Text>
                     </View>
                 </View>
 
                 <FlatList
                     horizontal
-                    data={TRAIL_BADGES}
+                    data={trailCollection}
                     renderItem={({ item }) => renderBadge(item, unlockedIds.has(item.id))}
                     keyExtractor={(item) => item.id}
                     showsHorizontalScrollIndicator={false}
@@ -193,6 +255,124 @@ export default function AchievementsScreen() {
         );
     };
 
+    const renderChallengeBadges = () => {
+        const unlockedIds = new Set(challengeBadges);
+        const winsCount = (progress?.challengesWon || []).length;
+
+        return (
+            <View style={styles.collectionContainer}>
+                <View style={styles.collectionHeader}>
+                    <View style={styles.collectionTitleRow}>
+                        <Text style={styles.collectionEmoji}>🥊</Text>
+                        <View style={styles.collectionInfo}>
+                            <Text style={[styles.collectionName, { color: theme.text }]}>Challenge Champions</Text>
+                            <Text style={[styles.collectionDesc, { color: theme.textSecondary }]}>
+                                {winsCount} challenges won (Lifetime)
+                            </Text>
+                        </View>
+                    </View>
+                    <View style={[styles.collectionProgress, { backgroundColor: '#EF4444' }]}>
+                        <Text style={styles.progressText}>
+                            {challengeCollection.filter(b => unlockedIds.has(b.id)).length}/{challengeCollection.length}
+                        </Text>
+                    </View>
+                </View>
+
+                <FlatList
+                    horizontal
+                    data={challengeCollection}
+                    renderItem={({ item }) => renderBadge(item, unlockedIds.has(item.id))}
+                    keyExtractor={(item) => item.id}
+                    showsHorizontalScrollIndicator={false}
+                    contentContainerStyle={styles.carouselContent}
+                    snapToInterval={BADGE_CARD_WIDTH + 12}
+                    decelerationRate="fast"
+                />
+            </View>
+        );
+    };
+
+    const renderStreakBadges = () => {
+        const unlockedIds = new Set(streakBadges);
+        const longestStreak = progress ? StreakService.fromProgress(progress).longest : 0;
+
+        return (
+            <View style={styles.collectionContainer}>
+                <View style={styles.collectionHeader}>
+                    <View style={styles.collectionTitleRow}>
+                        <Text style={styles.collectionEmoji}>🔥</Text>
+                        <View style={styles.collectionInfo}>
+                            <Text style={[styles.collectionName, { color: theme.text }]}>Streak Keepers</Text>
+                            <Text style={[styles.collectionDesc, { color: theme.textSecondary }]}>
+                                Longest streak: {longestStreak} {longestStreak === 1 ? 'day' : 'days'}
+                            </Text>
+                        </View>
+                    </View>
+                    <View style={[styles.collectionProgress, { backgroundColor: '#F97316' }]}>
+                        <Text style={styles.progressText}>
+                            {streakCollection.filter(b => unlockedIds.has(b.id)).length}/{streakCollection.length}
+                        </Text>
+                    </View>
+                </View>
+
+                <FlatList
+                    horizontal
+                    data={streakCollection}
+                    renderItem={({ item }) => renderBadge(
+                        item,
+                        unlockedIds.has(item.id),
+                        Math.min((longestStreak / item.rule.threshold) * 100, 100)
+                    )}
+                    keyExtractor={(item) => item.id}
+                    showsHorizontalScrollIndicator={false}
+                    contentContainerStyle={styles.carouselContent}
+                    snapToInterval={BADGE_CARD_WIDTH + 12}
+                    decelerationRate="fast"
+                />
+            </View>
+        );
+    };
+
+    const renderRuleCollection = (collection: BadgeCollection) => {
+        const unlockedIds = new Set([...lifetimeBadgeIds, ...(currentMonthlyProgress?.unlockedBadgeIds || [])]);
+
+        return (
+            <View key={collection.id} style={styles.collectionContainer}>
+                <View style={styles.collectionHeader}>
+                    <View style={styles.collectionTitleRow}>
+                        <Text style={styles.collectionEmoji}>{collection.emoji}</Text>
+                        <View style={styles.collectionInfo}>
+                            <Text style={[styles.collectionName, { color: theme.text }]}>{collection.name}</Text>
+                            <Text style={[styles.collectionDesc, { color: theme.textSecondary }]}>{collection.description}</Text>
+                        </View>
+                    </View>
+                    <View style={[styles.collectionProgress, { backgroundColor: '#0EA5E9' }]}>
+                        <Text style={styles.progressText}>
+                            {collection.badges.filter(b => unlockedIds.has(b.id)).length}/{collection.badges.length}
+                        </Text>
+                    </View>
+                </View>
+
+                <FlatList
+                    horizontal
+                    data={collection.badges}
+                    renderItem={({ item }) => {
+                        const toward = badgeContext ? BadgeRuleEngine.progressToward(item.rule, badgeContext) : null;
+                        const progressPercent = toward && toward.target > 0
+                            ? Math.min(100, Math.round((toward.current / toward.target) * 100))
+                            : undefined;
+                        return renderBadge(item, unlockedIds.has(item.id), progressPercent);
+                    }}
+                    keyExtractor={(item) => item.id}
+                    showsHorizontalScrollIndicator={false}
+                    contentContainerStyle={styles.carouselContent}
+                    snapToInterval={BADGE_CARD_WIDTH + 12}
+                    decelerationRate="fast"
+                />
+            </View>
+        );
+    };
+
     const renderCalendarMasters = () => {
         const earnedMonths = new Set(currentYearProgress?.monthlyBadgesEarned || []);
 
@@ -219,9 +399,9 @@ export default function AchievementsScreen() {
                     horizontal
                     data={MONTHLY_MASTER_BADGES}
                     renderItem={({ item }) => {
-                        // For MONTHLY_MASTER badges, conditionValue is the month number (1-12)
-                        const isUnlocked = earnedMonths.has(item.conditionValue);
-                        return renderBadge(item, isUnlocked);
+                        // Each master badge's rule is limited to its month (1-12)
+                        const isUnlocked = item.rule.month !== undefined && earnedMonths.has(item.rule.month);
+                        return renderBadge(item, isUnlocked, undefined, String(activeYear));
                     }}
                     keyExtractor={(item) => item.id}
                     showsHorizontalScrollIndicator={false}
@@ -293,6 +473,85 @@ export default function AchievementsScreen() {
         );
     };
 
+    const renderTimeline = () => {
+        const timeline = BadgeService.getTimeline(progress || {});
+
+        return (
+            <View style={[styles.container, { backgroundColor: theme.background }]}>
+                <View style={[styles.headerGradient, { backgroundColor: theme.card, paddingTop: 60 }]}>
+                    <View style={styles.headerTop}>
+                        <TouchableOpacity onPress={() => setViewingTimeline(false)} style={styles.backButton}>
+                            <ChevronLeft size={28} color={theme.text} />
+                        </TouchableOpacity>
+                        <Text style={[styles.title, { color: theme.text, fontSize: 24 }]}>Badge Timeline</Text>
+                    </View>
+                    <Text style={[styles.subtitle, { color: theme.textSecondary }]}>
+                        Every badge you have earned, newest first
+                    </Text>
+                </View>
+
+                <ScrollView style={styles.collectionsScroll} contentContainerStyle={{ padding: 20 }}>
+                    {timeline.length === 0 ? (
+                        <View style={styles.emptyState}>
+                            <Text style={{ fontSize: 40, marginBottom: 10 }}>🏅</Text>
+                            <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
+                                No badges yet.
+                            </Text>
+                            <Text style={[styles.emptySubText, { color: theme.textTertiary }]}>
+                                Badges you earn will show up here with the day you earned them.
+                            </Text>
+                        </View>
+                    ) : (
+                        timeline.map(group => (
+                            <View key={`${group.year}-${group.month}`} style={styles.timelineMonth}>
+                                <Text style={[styles.timelineMonthTitle, { color: theme.textSecondary }]}>
+                                    {MONTH_NAMES[group.month - 1]} {group.year}
+                                </Text>
+                                {group.unlocks.map(unlock => {
+                                    const display = BadgeService.describeUnlock(unlock, catalogBadges);
+                                    if (!display) return null;
+                                    const value = BadgeService.formatUnlockValue(unlock, preferences.distanceUnit, catalogBadges);
+                                    const trailName = unlock.trailId ? trails.find(t => t.id === unlock.trailId)?.name : undefined;
+                                    const day = unlock.date || toLocalDateKey(new Date(unlock.unlockedAt));
+                                    const details = [value, trailName].filter(Boolean).join(' · ');
+
+                                    return (
+                                        <View
+                                            key={BadgeService.unlockKey(unlock)}
+                                            style={[styles.historyCard, { backgroundColor: theme.card, borderColor: theme.border }]}
+                                        >
+                                            <View style={[styles.historyCardLeft, styles.timelineCardLeft]}>
+                                                <Text style={styles.historyIcon}>{display.icon}</Text>
+                                                <View style={styles.timelineInfo}>
+                                                    <Text style={[styles.timelineTitle, { color: theme.text }]} numberOfLines={1}>
+                                                        {display.name}
+                                                    </Text>
+                                                    <Text style={[styles.historySubtitle, { color: theme.textSecondary }]} numberOfLines={2}>
+                                                        {details || display.description}
+                                                    </Text>
+                                                </View>
+                                            </View>
+                                            <View style={styles.statTag}>
+                                                <Text style={[styles.statValue, { color: theme.text }]}>{formatDateKey(day)}</Text>
+                                                {unlock.estimated && (
+                                                    <Text style={[styles.statLabel, { color: theme.textTertiary }]}>approx.</Text>
+                                                )}
+                                            </View>
+                                        </View>
+                                    );
+                                })}
+                            </View>
+                        ))
+                    )}
+                </ScrollView>
+            </View>
+        );
+    };
+
+    if (viewingTimeline && isPro) {
+        return renderTimeline();
+    }
+
     if (viewingHistory && !selectedHistoryMonth) {
         return renderHistoryList();
     }
@@ -392,12 +651,26 @@ export default function AchievementsScreen() {
                     </TouchableOpacity>
 
                     {!selectedHistoryMonth && (
-                        <TouchableOpacity
-                            style={styles.historyButton}
-                            onPress={() => setViewingHistory(true)}
-                        >
-                            <History size={24} color="white" />
-                        </TouchableOpacity>
+                        <View style={styles.headerButtons}>
+                            <TouchableOpacity
+                                style={styles.historyButton}
+                                onPress={handleShareWeek}
+                            >
+                                <Share2 size={22} color="white" />
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                                style={styles.historyButton}
+                                onPress={() => setViewingTimeline(true)}
+                            >
+                                <Clock size={22} color="white" />
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                                style={styles.historyButton}
+                                onPress={() => setViewingHistory(true)}
+                            >
+                                <History size={24} color="white" />
+                            </TouchableOpacity>
+                        </View>
                     )}
                 </View>
 
@@ -409,14 +682,14 @@ export default function AchievementsScreen() {
                 ) : (
                     <>
                         <Text style={styles.subtitle}>
-                            {monthlyUnlockedCount}/{MONTHLY_BADGES_TOTAL} badges unlocked
+                            {monthlyUnlockedCount}/{monthlyBadgesTotal} badges unlocked
                         </Text>
                         <View style={styles.progressBarContainer}>
                             <View style={styles.progressBar}>
                                 <View
                                     style={[
                                         styles.progressFill,
-                                        { width: `${(monthlyUnlockedCount / MONTHLY_BADGES_TOTAL) * 100}%` }
+                                        { width: `${(monthlyUnlockedCount / monthlyBadgesTotal) * 100}%` }
                                     ]}
                                 />
                             </View>
@@ -451,12 +724,23 @@ export default function AchievementsScreen() {
 
             {/* Badge Collections */}
             <ScrollView style={styles.collectionsScroll} showsVerticalScrollIndicator={false}>
-                {renderMonthlyCollection('Walking Warriors', '⚔️', MONTHLY_STEP_BADGES, 'steps')}
-                {renderMonthlyCollection('Distance Destroyers', '🗺️', MONTHLY_DISTANCE_BADGES, 'distance')}
+                {renderMonthlyCollection('Walking Warriors', '⚔️', getCollectionBadges('steps'), 'steps')}
+                {renderMonthlyCollection('Distance Destroyers', '🗺️', getCollectionBadges('distance'), 'distance')}
                 {!selectedHistoryMonth && renderTrailBadges()}
+                {!selectedHistoryMonth && renderChallengeBadges()}
+                {!selectedHistoryMonth && renderStreakBadges()}
+                {!selectedHistoryMonth && BADGE_COLLECTIONS
+                    .filter(collection => !BUILT_IN_COLLECTIONS.has(collection.id))
+                    .map(collection => renderRuleCollection({ ...collection, badges: getCollectionBadges(collection.id) }))}
                 {!selectedHistoryMonth && renderCalendarMasters()}
                 <View style={{ height: 40 }} />
             </ScrollView>
+
+            <ShareCardModal
+                visible={!!shareCard}
+                content={shareCard}
+                onClose={() => setShareCard(null)}
+            />
         </View>
     );
 }
@@ -657,6 +941,10 @@ const styles = StyleSheet.create({
         alignItems: 'center',
         marginBottom: 8,
     },
+    headerButtons: {
+        flexDirection: 'row',
+        gap: 8,
+    },
     historyButton: {
         width: 40,
         height: 40,
@@ -720,6 +1008,27 @@ const styles = StyleSheet.create({
     statLabel: {
         fontSize: 10,
     },
+    timelineMonth: {
+        marginBottom: 12,
+    },
+    timelineMonthTitle: {
+        fontSize: 13,
+        fontWeight: '600',
+        letterSpacing: 0.5,
+        marginBottom: 8,
+        marginLeft: 4,
+    },
+    timelineCardLeft: {
+        flex: 1,
+        marginRight: 12,
+    },
+    timelineInfo: {
+        flex: 1,
+    },
+    timelineTitle: {
+        fontSize: 16,
+        fontWeight: 'bold',
+    },
     // Locked state styles
     lockedContent: {
         flex: 1,
@@ -6,25 +6,37 @@
  *
  * Modification History:
  * 2024-01-12: Documentation added.
+ * 2026-10-19: Added pending sync indicator.
+ * 2026-10-19: Home card shows the most recently started of several active trails.
+ * 2026-10-19: Trails come from the trail catalog.
+ * 2026-10-19: Celebrates finished trails with a shareable card.
+ * 2026-10-19: Weekly history comes from the local step history cache.
+ * 2026-10-19: Streak pill opens the streak screen.
  */
 import { View, Text, StyleSheet, ScrollView, Image, TouchableOpacity, Dimensions, Alert } from 'react-native';
 import { useGame } from '../../src/context/GameContext';
 import { useAuth } from '../../src/context/AuthContext';
 import { useSubscription } from '../../src/context/SubscriptionContext';
-import { TRAILS } from '../../src/const/trails';
+import { useTrailCatalog } from '../../src/context/TrailCatalogContext';
 import { isTrailFree } from '../../src/const/subscription';
 import { getDistanceValue, getDistanceUnit } from '../../src/utils/conversion';
 import { LinearGradient } from 'expo-linear-gradient';
-import { MapPin, Footprints, Flame, Award, Mountain, ChevronRight, Target, Lock } from 'lucide-react-native';
+import { MapPin, Footprints, Flame, Award, Mountain, ChevronRight, Target, Lock, CloudOff } from 'lucide-react-native';
 import { useTheme, usePreferences } from '../../src/context/PreferencesContext';
 import { useRouter, useFocusEffect } from 'expo-router';
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import { ProgressBar } from '../../src/components/ProgressBar';
 import { WeeklyActivityChart } from '../../src/components/WeeklyActivityChart';
 import { NextLandmarkCard } from '../../src/components/NextLandmarkCard';
 import { StepService } from '../../src/services/StepService';
+import { StepHistoryService } from '../../src/services/StepHistoryService';
+import { TrailSessionService } from '../../src/services/TrailSessionService';
 import { GoalPromptModal } from '../../src/components/GoalPromptModal';
 import { PaywallModal } from '../../src/components/PaywallModal';
+import { ShareCardModal } from '../../src/components/ShareCardModal';
+import { ShareCardService } from '../../src/services/ShareCardService';
+import { StreakService } from '../../src/services/StreakService';
+import { toLocalDateKey } from '../../src/utils/date';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const PLACEHOLDER_IMG = { uri: 'https://via.placeholder.com/400x300' };
@@ -32,11 +44,12 @@ const PLACEHOLDER_IMG = { uri: 'https://via.placeholder.com/400x300' };
 
 
 export default function HomeScreen() {
-    const { progress, selectTrail, sync } = useGame();
+    const { progress, selectTrail, sync, pendingSyncCount, maxActiveTrails, newlyCompletedTrails, dismissCompletedTrail } = useGame();
     const { user } = useAuth();
     const { isPro } = useSubscription();
     const theme = useTheme();
     const { preferences } = usePreferences();
+    const { trails, getTrail } = useTrailCatalog();
     const router = useRouter();
     const [todaySteps, setTodaySteps] = useState(0);
     const [weeklyHistory, setWeeklyHistory] = useState<{ date: string; steps: number }[]>([]);
@@ -44,6 +57,22 @@ export default function HomeScreen() {
     const [selectedTrailIdForModal, setSelectedTrailIdForModal] = useState<string | null>(null);
     const [dashboardPaywallVisible, setDashboardPaywallVisible] = useState(false);
     const [trailPaywallVisible, setTrailPaywallVisible] = useState(false);
+    const [activeTrailsPaywallVisible, setActiveTrailsPaywallVisible] = useState(false);
+
+    // Trails finished since the app opened are celebrated one at a time
+    const celebratedTrail = newlyCompletedTrails[0];
+    const celebratedTrailInfo = celebratedTrail ? getTrail(celebratedTrail.trailId) : undefined;
+    const celebrationCard = useMemo(
+        () => celebratedTrail && celebratedTrailInfo
+            ? ShareCardService.buildTrailCard(celebratedTrail, celebratedTrailInfo, preferences.distanceUnit)
+            : null,
+        [celebratedTrail, celebratedTrailInfo, preferences.distanceUnit]
+    );
+
+    // A trail can disappear from the catalog (e.g. a deleted custom trail); skip it rather than block the queue
+    useEffect(() => {
+        if (celebratedTrail && !celebratedTrailInfo) dismissCompletedTrail();
+    }, [celebratedTrail, celebratedTrailInfo, dismissCompletedTrail]);
 
     // Refresh step data when the screen gains focus
     useFocusEffect(
@@ -54,59 +83,61 @@ export default function HomeScreen() {
 
                 const steps = await StepService.getTodaySteps();
                 setTodaySteps(steps);
-                const history = await StepService.getDailyHistory(7);
-                setWeeklyHistory(history);
+                if (user) {
+                    const history = await StepHistoryService.getDailyHistory(user.id, 7);
+                    setWeeklyHistory(history);
+                }
             };
             loadStats();
-        }, [sync]) // Add sync to dependencies
+        }, [sync, user]) // Add sync to dependencies
     );
 
     if (progress === null) return null;
 
-    const distanceValue = getDistanceValue(progress.currentDistanceMeters, preferences.distanceUnit);
     const distanceUnit = getDistanceUnit(preferences.distanceUnit);
-    const totalSteps = progress.totalStepsValid || 0;
-    const currentStreak = progress.currentStreak || 0;
+    const streak = StreakService.fromProgress(progress);
+    const currentStreak = StreakService.getDisplayStreak(streak, toLocalDateKey());
     const badgeCount = progress.monthlyProgress?.unlockedBadgeIds?.length || 0;
 
     // Get available trails
-    const availableTrails = TRAILS;
+    const availableTrails = trails;
 
-    const activeTrail = progress.selectedTrailId ? TRAILS.find(t => t.id === progress.selectedTrailId) : null;
-    const progressRatio = activeTrail ? Math.min(progress.currentDistanceMeters / activeTrail.totalDistanceMeters, 1) : 0;
-    const nextLandmark = activeTrail?.landmarks.find(l => l.distanceMeters > progress.currentDistanceMeters);
+    // Feature the most recently started session; the rest are listed on the progress tab
+    const activeSessions = progress.activeTrails || [];
+    const activeSession = activeSessions.length > 0 ? activeSessions[activeSessions.length - 1] : null;
+    const otherActiveCount = Math.max(activeSessions.length - 1, 0);
+    const activeTrail = activeSession ? getTrail(activeSession.trailId) : null;
+    const activeDistance = activeSession?.currentDistanceMeters || 0;
+    const progressRatio = activeTrail ? Math.min(activeDistance / activeTrail.totalDistanceMeters, 1) : 0;
+    const nextLandmark = activeTrail?.landmarks.find(l => l.distanceMeters > activeDistance);
 
     // Handler for quick start from trail card
     const handleQuickStart = (trailId: string) => {
-        // Check if there's an active trail and user is selecting a different one
-        if (progress?.selectedTrailId && progress.selectedTrailId !== trailId) {
-            Alert.alert(
-                '⚠️ Switch Trail?',
-                'Switching trails will reset your progress. You will lose all historical data and only today\'s steps will count towards the new trail.\n\nAre you sure you want to switch?',
-                [
-                    { text: 'Cancel', style: 'cancel' },
-                    {
-                        text: 'Switch Trail',
-                        style: 'destructive',
-                        onPress: () => {
-                            setSelectedTrailIdForModal(trailId);
-                            setModalVisible(true);
-                        }
-                    }
-                ]
-            );
-        } else {
-            setSelectedTrailIdForModal(trailId);
-            setModalVisible(true);
+        if (!TrailSessionService.canStartTrail(progress, isPro)) {
+            if (!isPro) {
+                setActiveTrailsPaywallVisible(true);
+            } else {
+                Alert.alert(
+                    'Trail Limit Reached',
+                    `You are already walking ${maxActiveTrails} trails. Finish or cancel one to start another.`
+                );
+            }
+            return;
         }
+        setSelectedTrailIdForModal(trailId);
+        setModalVisible(true);
     };
 
-    const handleModalStart = (days: string) => {
+    const handleModalStart = async (days: string) => {
         const numDays = parseInt(days || '7', 10);
         if (numDays > 0 && selectedTrailIdForModal) {
-            selectTrail(selectedTrailIdForModal, numDays);
             setModalVisible(false);
-            router.push('/(tabs)/progress');
+            try {
+                await selectTrail(selectedTrailIdForModal, numDays);
+                router.push('/(tabs)/progress');
+            } catch (error: any) {
+                Alert.alert('Trail Limit Reached', error.message);
+            }
         } else {
             setModalVisible(false);
         }
@@ -127,11 +158,29 @@ export default function HomeScreen() {
                 <Text style={[styles.greetingText, { color: theme.text }]}>
                     Welcome, {user?.name?.split(' ')[0]}!
                 </Text>
-                {progress.selectedTrailId && (
+                {activeTrail && (
                     <Text style={[styles.greetingSubtext, { color: theme.textSecondary }]}>
-                        {`Keep walking on ${TRAILS.find(t => t.id === progress.selectedTrailId)?.name}!`}
+                        {otherActiveCount > 0
+                            ? `Keep walking on ${activeTrail.name} and ${otherActiveCount} more!`
+                            : `Keep walking on ${activeTrail.name}!`}
                     </Text>
                 )}
+                <TouchableOpacity style={styles.streakPill} onPress={() => router.push('/streak')}>
+                    <Flame size={14} color="#EA580C" />
+                    <Text style={styles.streakText}>
+                        {currentStreak > 0 ? `${currentStreak}-day streak` : 'Start a streak'}
+                        {streak.freezes > 0 ? `  ❄ ${streak.freezes}` : ''}
+                    </Text>
+                    <ChevronRight size={14} color="#EA580C" />
+                </TouchableOpacity>
+                {pendingSyncCount > 0 && (
+                    <View style={styles.pendingSyncPill}>
+                        <CloudOff size={14} color="#B45309" />
+                        <Text style={styles.pendingSyncText}>
+                            {`${pendingSyncCount} ${pendingSyncCount === 1 ? 'change' : 'changes'} waiting to sync`}
+                        </Text>
+                    </View>
+                )}
             </View>
 
             {/* Active Trail Card */}
@@ -154,7 +203,9 @@ export default function HomeScreen() {
                     <View style={styles.activeTrailContent}>
                         <View style={styles.activeTrailHeader}>
                             <View style={styles.activeTrailBadge}>
-                                <Text style={styles.activeTrailBadgeText}>ACTIVE</Text>
+                                <Text style={styles.activeTrailBadgeText}>
+                                    {otherActiveCount > 0 ? `ACTIVE · +${otherActiveCount} MORE` : 'ACTIVE'}
+                                </Text>
                             </View>
                             <Text style={styles.activeTrailName} numberOfLines={1}>{activeTrail.name}</Text>
                         </View>
@@ -202,7 +253,7 @@ export default function HomeScreen() {
             {activeTrail && nextLandmark && (
                 <NextLandmarkCard
                     landmark={nextLandmark}
-                    currentDistance={progress.currentDistanceMeters}
+                    currentDistance={activeDistance}
                     trailColor={activeTrail.color}
                 />
             )}
@@ -350,7 +401,7 @@ export default function HomeScreen() {
             {/* Start Your Journey Section */}
             <View style={styles.trailsSection}>
                 <Text style={[styles.sectionTitle, { color: theme.text }]}>
-                    {progress.selectedTrailId ? 'Explore More Trails' : 'Start Your Journey'}
+                    {activeSessions.length > 0 ? 'Explore More Trails' : 'Start Your Journey'}
                 </Text>
                 <Text style={[styles.sectionSubtitle, { color: theme.textSecondary }]}>
                     Choose a trail and begin walking
@@ -425,7 +476,7 @@ export default function HomeScreen() {
                                         </View>
                                     </View>
 
-                                    {progress.selectedTrailId !== trail.id && (
+                                    {!TrailSessionService.getSession(progress, trail.id) && (
                                         isLocked ? (
                                             <TouchableOpacity
                                                 style={styles.lockedQuickStartButton}
@@ -507,6 +558,14 @@ export default function HomeScreen() {
             {/* Bottom Padding */}
             <View style={{ height: 40 }} />
 
+            <ShareCardModal
+                visible={!!celebrationCard}
+                content={celebrationCard}
+                image={celebratedTrailInfo?.image || undefined}
+                heading="Trail Complete! 🎉"
+                onClose={dismissCompletedTrail}
+            />
+
             <GoalPromptModal
                 visible={modalVisible}
                 onCancel={handleModalCancel}
@@ -524,6 +583,12 @@ export default function HomeScreen() {
                 onClose={() => setTrailPaywallVisible(false)}
                 feature="trails"
             />
+
+            <PaywallModal
+                visible={activeTrailsPaywallVisible}
+                onClose={() => setActiveTrailsPaywallVisible(false)}
+                feature="activeTrails"
+            />
         </ScrollView>
     );
 }
@@ -545,6 +610,38 @@ const styles = StyleSheet.create({
     greetingSubtext: {
         fontSize: 16,
     },
+    streakPill: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        alignSelf: 'flex-start',
+        gap: 6,
+        marginTop: 12,
+        paddingHorizontal: 10,
+        paddingVertical: 4,
+        borderRadius: 12,
+        backgroundColor: '#FFEDD5',
+    },
+    streakText: {
+        fontSize: 12,
+        fontWeight: '600',
+        color: '#EA580C',
+    },
+    pendingSyncPill: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        alignSelf: 'flex-start',
+        gap: 6,
+        marginTop: 12,
+        paddingHorizontal: 10,
+        paddingVertical: 4,
+        borderRadius: 12,
+        backgroundColor: '#FEF3C7',
+    },
+    pendingSyncText: {
+        fontSize: 12,
+        fontWeight: '600',
+        color: '#B45309',
+    },
     activeTrailCard: {
         marginHorizontal: 24,
         marginBottom: 24,
@@ -6,6 +6,17 @@
  *
  * Modification History:
  * 2024-01-12: Documentation added.
+ * 2026-10-19: Export Data produces real CSV/JSON/GPX files via the share sheet.
+ * 2026-10-19: Import Data restores history from an exported archive.
+ * 2026-10-19: Height-based stride estimate and optional recalculation of past distances.
+ * 2026-10-19: Exports look up trails in the loaded trail catalog.
+ * 2026-10-19: Friends entry point; deleting the account removes friends and shared stats.
+ * 2026-10-19: Deleting the account also leaves group expeditions.
+ * 2026-10-19: Deleting the account also leaves challenges.
+ * 2026-10-19: Workplace wellness entry point; deleting the account also leaves the organization.
+ * 2026-10-19: Deleting the account also removes the user's activity feed and comments.
+ * 2026-10-19: Step Source entry point.
+ * 2026-10-19: Stride length accepts decimals, such as the 76.2cm default.
  */
 import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Dimensions, Image, Linking, Switch, TextInput, Alert, Modal, TouchableWithoutFeedback, Keyboard } from 'react-native';
 import { useRouter } from 'expo-router';
@@ -13,16 +24,29 @@ import { useAuth } from '../../src/context/AuthContext';
 import { usePreferences, useTheme } from '../../src/context/PreferencesContext';
 import { useSubscription } from '../../src/context/SubscriptionContext';
 import { useGame } from '../../src/context/GameContext';
+import { useTrailCatalog } from '../../src/context/TrailCatalogContext';
 import { DebugMenu } from '../../src/components/DebugMenu';
 import { useState } from 'react';
 import * as MailComposer from 'expo-mail-composer';
 import * as Sharing from 'expo-sharing';
 import { logger } from '../../src/services/LogService';
 import { PaywallModal } from '../../src/components/PaywallModal';
+import { ExportDataModal } from '../../src/components/ExportDataModal';
+import { ImportDataModal } from '../../src/components/ImportDataModal';
+import { ExportService, ExportFormat, ExportRangePreset } from '../../src/services/ExportService';
+import { ShareService } from '../../src/services/ShareService';
+import { StorageService } from '../../src/services/StorageService';
+import { FriendService } from '../../src/services/FriendService';
+import { ExpeditionService } from '../../src/services/ExpeditionService';
+import { ChallengeService } from '../../src/services/ChallengeService';
+import { OrganizationService } from '../../src/services/OrganizationService';
+import { FeedService } from '../../src/services/FeedService';
 import { deleteUser } from 'firebase/auth';
 import { doc, deleteDoc } from 'firebase/firestore';
 import { auth, db } from '../../src/config/firebase';
 import { FREE_DEFAULT_DAILY_GOAL } from '../../src/const/subscription';
+import { estimateStrideLengthCm, MIN_STRIDE_LENGTH_CM, MAX_STRIDE_LENGTH_CM } from '../../src/utils/conversion';
+import { STEP_SOURCE_NAMES } from '../../src/services/StepSourceService';
 
 import {
     CircleUser,
@@ -36,8 +60,10 @@ import {
     Moon,
     Bell,
     Footprints,
+    PersonStanding,
     PauseCircle,
     Download,
+    Upload,
     Trash2,
     Info,
     Shield,
@@ -47,7 +73,10 @@ import {
     AlertTriangle,
     Lock,
     Key,
-    Crown
+    Crown,
+    Users,
+    Building2,
+    HeartPulse
 } from 'lucide-react-native';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
@@ -55,15 +84,17 @@ const { width: SCREEN_WIDTH } = Dimensions.get('window');
 export default function ProfileScreen() {
     const router = useRouter();
     const { user, logout } = useAuth();
-    const { progress, debug } = useGame();
+    const { progress, debug, recalculateDistances } = useGame();
     const { isPro } = useSubscription();
+    const { trails } = useTrailCatalog();
     const {
         preferences,
         setDistanceUnit,
         setTheme,
         setDailyGoal,
         setNotificationsEnabled,
-        setStrideLength
+        setStrideLength,
+        setHeight
     } = usePreferences();
     const theme = useTheme();
 
@@ -71,8 +102,12 @@ export default function ProfileScreen() {
     const [isGoalModalVisible, setIsGoalModalVisible] = useState(false);
     const [goalInput, setGoalInput] = useState(preferences.dailyGoal.toString());
     const [strideInput, setStrideInput] = useState(preferences.strideLength.toString());
+    const [heightInput, setHeightInput] = useState(preferences.heightCm?.toString() || '');
     const [paywallVisible, setPaywallVisible] = useState(false);
     const [paywallFeature, setPaywallFeature] = useState<'goal' | 'export' | 'dashboard' | 'notifications' | 'darkmode'>('goal');
+    const [exportModalVisible, setExportModalVisible] = useState(false);
+    const [exporting, setExporting] = useState(false);
+    const [importModalVisible, setImportModalVisible] = useState(false);
 
     // Derived state
     const useKilometers = preferences.distanceUnit === 'km';
@@ -101,14 +136,54 @@ export default function ProfileScreen() {
         setIsGoalModalVisible(true);
     };
 
+    const promptRecalculateDistances = (stride: number) => {
+        Alert.alert(
+            'Update Past Distances?',
+            `New steps will use your ${stride}cm stride. Do you also want to recalculate the distance of your existing history and active trails?`,
+            [
+                { text: 'Keep As Is', style: 'cancel' },
+                {
+                    text: 'Recalculate',
+                    onPress: async () => {
+                        try {
+                            await recalculateDistances(stride);
+                        } catch (error) {
+                            console.error('Error recalculating distances:', error);
+                            Alert.alert('Error', 'Could not recalculate your distances. Please try again.');
+                        }
+                    }
+                }
+            ]
+        );
+    };
+
     const handleStrideSubmit = () => {
-        const stride = parseInt(strideInput, 10);
-        if (isNaN(stride) || stride < 30 || stride > 150) {
-            Alert.alert('Invalid Stride', 'Please enter a stride length between 30cm and 150cm.');
+        const stride = Math.round(parseFloat(strideInput) * 10) / 10;
+        if (isNaN(stride) || stride < MIN_STRIDE_LENGTH_CM || stride > MAX_STRIDE_LENGTH_CM) {
+            Alert.alert('Invalid Stride', `Please enter a stride length between ${MIN_STRIDE_LENGTH_CM}cm and ${MAX_STRIDE_LENGTH_CM}cm.`);
             setStrideInput(preferences.strideLength.toString());
             return;
         }
+        if (stride === preferences.strideLength) return;
         setStrideLength(stride);
+        promptRecalculateDistances(stride);
+    };
+
+    const handleHeightSubmit = () => {
+        if (!heightInput.trim()) return;
+        const height = parseInt(heightInput, 10);
+        if (isNaN(height) || height < 100 || height > 250) {
+            Alert.alert('Invalid Height', 'Please enter a height between 100cm and 250cm.');
+            setHeightInput(preferences.heightCm?.toString() || '');
+            return;
+        }
+        if (height === preferences.heightCm) return;
+        const stride = estimateStrideLengthCm(height);
+        setHeight(height);
+        setStrideInput(stride.toString());
+        if (stride !== preferences.strideLength) {
+            promptRecalculateDistances(stride);
+        }
     };
 
     const handleExportData = () => {
@@ -117,9 +192,30 @@ export default function ProfileScreen() {
             setPaywallVisible(true);
             return;
         }
-        Alert.alert('Export Data', 'Your walking history is being prepared. You will receive an email shortly.', [
-            { text: 'OK' }
-        ]);
+        setExportModalVisible(true);
+    };
+
+    const handleExport = async (format: ExportFormat, preset: ExportRangePreset) => {
+        if (!user || !progress) return;
+        setExporting(true);
+        try {
+            const dailyLogs = await StorageService.getDailyLogs(user.id);
+            const archive = ExportService.buildArchive(
+                progress,
+                dailyLogs,
+                preferences,
+                ExportService.getPresetRange(preset),
+                preferences.distanceUnit
+            );
+            const file = ExportService.buildExportFile(format, archive, trails);
+            setExportModalVisible(false);
+            await ShareService.shareTextFile(file.filename, file.content, file.mimeType, 'Export Stridr Data');
+        } catch (error: any) {
+            console.error('Error exporting data:', error);
+            Alert.alert('Export Failed', error.message || 'Could not export your data. Please try again.');
+        } finally {
+            setExporting(false);
+        }
     };
 
     const handleDeleteAccount = () => {
@@ -142,13 +238,22 @@ export default function ProfileScreen() {
                             // 1. Clear all game progress data (GDPR compliance)
                             await debug?.resetProgress();
 
-                            // 2. Delete user document from Firestore
+                            // 2. Remove friendships, requests and everything shared with friends, and leave groups
+                            if (user) {
+                                await ExpeditionService.leaveAll(user.id);
+                                await ChallengeService.leaveAll(user.id);
+                                await OrganizationService.leaveAll(user.id, user.organizationId);
+                                await FeedService.deleteAll(user.id); // Before friendships go: comments are only writable by friends
+                                await FriendService.deleteSocialData(user);
+                            }
+
+                            // 3. Delete user document from Firestore
                             await deleteDoc(doc(db, 'users', currentUser.uid));
 
-                            // 3. Delete Firebase Auth account
+                            // 4. Delete Firebase Auth account
                             await deleteUser(currentUser);
 
-                            // 4. Navigate to login (user is already signed out after deleteUser)
+                            // 5. Navigate to login (user is already signed out after deleteUser)
                             router.replace('/login');
                         } catch (error: any) {
                             // Firebase requires recent authentication for account deletion
@@ -256,6 +361,42 @@ export default function ProfileScreen() {
                             )}
                         </View>
                     </TouchableOpacity>
+
+                    <TouchableOpacity
+                        style={[styles.dashboardCard, styles.friendsCard, { backgroundColor: theme.card }]}
+                        onPress={() => router.push('/friends')}
+                    >
+                        <View style={styles.dashboardContent}>
+                            <View style={[styles.dashboardIcon, { backgroundColor: '#2563EB' }]}>
+                                <Users size={24} color="white" />
+                            </View>
+                            <View style={styles.dashboardTextContainer}>
+                                <Text style={[styles.dashboardTitle, { color: theme.text }]}>Friends</Text>
+                                <Text style={[styles.dashboardSubtitle, { color: theme.textSecondary }]}>
+                                    Add friends and choose what they can see
+                                </Text>
+                            </View>
+                            <ChevronRight size={24} color={theme.textTertiary} />
+                        </View>
+                    </TouchableOpacity>
+
+                    <TouchableOpacity
+                        style={[styles.dashboardCard, styles.friendsCard, { backgroundColor: theme.card }]}
+                        onPress={() => router.push('/organization')}
+                    >
+                        <View style={styles.dashboardContent}>
+                            <View style={[styles.dashboardIcon, { backgroundColor: '#10B981' }]}>
+                                <Building2 size={24} color="white" />
+                            </View>
+                            <View style={styles.dashboardTextContainer}>
+                                <Text style={[styles.dashboardTitle, { color: theme.text }]}>Workplace Wellness</Text>
+                                <Text style={[styles.dashboardSubtitle, { color: theme.textSecondary }]}>
+                                    {user?.organizationId ? 'Team standings and challenges at work' : 'Join your company\'s wellness program'}
+                                </Text>
+                            </View>
+                            <ChevronRight size={24} color={theme.textTertiary} />
+                        </View>
+                    </TouchableOpacity>
                 </View>
 
                 {/* Settings Main Header */}
@@ -340,7 +481,34 @@ export default function ProfileScreen() {
                                     value={strideInput}
                                     onChangeText={setStrideInput}
                                     onBlur={handleStrideSubmit}
+                                    keyboardType="decimal-pad"
+                                    maxLength={5}
+                                />
+                            </View>
+
+                            <View style={[styles.divider, { backgroundColor: theme.border }]} />
+
+                            {/* Height (estimates stride length) */}
+                            <View style={styles.row}>
+                                <View style={styles.rowLeft}>
+                                    <View style={[styles.iconBox, { backgroundColor: '#A855F7' }]}>
+                                        <PersonStanding size={20} color="white" />
+                                    </View>
+                                    <View>
+                                        <Text style={[styles.rowTitle, { color: theme.text }]}>Height (cm)</Text>
+                                        <Text style={[styles.rowSubtitle, { color: theme.textSecondary }]}>
+                                            Estimates your stride
+                                        </Text>
+                                    </View>
+                                </View>
+                                <TextInput
+                                    style={[styles.smallInput, { color: theme.text, borderColor: theme.border }]}
+                                    value={heightInput}
+                                    onChangeText={setHeightInput}
+                                    onBlur={handleHeightSubmit}
                                     keyboardType="number-pad"
+                                    placeholder="—"
+                                    placeholderTextColor={theme.textTertiary}
                                     maxLength={3}
                                 />
                             </View>
@@ -413,11 +581,23 @@ export default function ProfileScreen() {
                                 <ChevronRight size={20} color={theme.textTertiary} />
                             </TouchableOpacity>
 
-
-
                             <View style={[styles.divider, { backgroundColor: theme.border }]} />
 
-
+                            {/* Step Source */}
+                            <TouchableOpacity style={styles.row} onPress={() => router.push('/step-source')}>
+                                <View style={styles.rowLeft}>
+                                    <View style={[styles.iconBox, { backgroundColor: '#EF4444' }]}>
+                                        <HeartPulse size={20} color="white" />
+                                    </View>
+                                    <View>
+                                        <Text style={[styles.rowTitle, { color: theme.text }]}>Step Source</Text>
+                                        <Text style={[styles.rowSubtitle, { color: theme.textSecondary }]}>
+                                            {preferences.stepSource === 'auto' ? 'Automatic' : STEP_SOURCE_NAMES[preferences.stepSource]}
+                                        </Text>
+                                    </View>
+                                </View>
+                                <ChevronRight size={20} color={theme.textTertiary} />
+                            </TouchableOpacity>
                         </View>
                     </View>
 
@@ -462,6 +642,18 @@ export default function ProfileScreen() {
 
                             <View style={[styles.divider, { backgroundColor: theme.border }]} />
 
+                            <TouchableOpacity style={styles.row} onPress={() => setImportModalVisible(true)}>
+                                <View style={styles.rowLeft}>
+                                    <View style={[styles.iconBox, { backgroundColor: '#6366F1' }]}>
+                                        <Upload size={20} color="white" />
+                                    </View>
+                                    <Text style={[styles.rowTitle, { color: theme.text }]}>Import Data</Text>
+                                </View>
+                                <ChevronRight size={20} color={theme.textTertiary} />
+                            </TouchableOpacity>
+
+                            <View style={[styles.divider, { backgroundColor: theme.border }]} />
+
                             <TouchableOpacity style={styles.row} onPress={handleDeleteAccount}>
                                 <View style={styles.rowLeft}>
                                     <View style={[styles.iconBox, { backgroundColor: '#EF4444' }]}>
@@ -664,6 +856,18 @@ export default function ProfileScreen() {
                 onClose={() => setPaywallVisible(false)}
                 feature={paywallFeature}
             />
+
+            <ExportDataModal
+                visible={exportModalVisible}
+                exporting={exporting}
+                onCancel={() => setExportModalVisible(false)}
+                onExport={handleExport}
+            />
+
+            <ImportDataModal
+                visible={importModalVisible}
+                onClose={() => setImportModalVisible(false)}
+            />
         </>
     );
 }
@@ -713,6 +917,9 @@ const styles = StyleSheet.create({
         paddingHorizontal: 20,
         marginBottom: 24,
     },
+    friendsCard: {
+        marginTop: 12,
+    },
     dashboardCard: {
         padding: 20,
         borderRadius: 16,
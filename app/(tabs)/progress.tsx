@@ -6,17 +6,22 @@
  *
  * Modification History:
  * 2024-01-12: Documentation added.
+ * 2026-10-19: Trail picker for switching between concurrent active trails.
+ * 2026-10-19: History is filtered by the trail's local start day.
+ * 2026-10-19: Trails come from the trail catalog.
+ * 2026-10-19: Weekly history comes from the local step history cache.
  */
 import { View, Text, StyleSheet, Animated, Dimensions, ScrollView, RefreshControl, Image, TouchableOpacity, Alert } from 'react-native';
 import { useGame } from '../../src/context/GameContext';
 import { useAuth } from '../../src/context/AuthContext';
-import { TRAILS } from '../../src/const/trails';
+import { useTrailCatalog } from '../../src/context/TrailCatalogContext';
 import { ProgressBar } from '../../src/components/ProgressBar';
 import { GoalPromptModal } from '../../src/components/GoalPromptModal';
 import { metersToKm } from '../../src/utils/conversion';
+import { toDateKey } from '../../src/utils/date';
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { LinearGradient } from 'expo-linear-gradient';
-import { StepService } from '../../src/services/StepService';
+import { StepHistoryService } from '../../src/services/StepHistoryService';
 import { useTheme, usePreferences } from '../../src/context/PreferencesContext';
 import { useRouter, useFocusEffect } from 'expo-router';
 import { WeeklyActivityChart } from '../../src/components/WeeklyActivityChart';
@@ -41,6 +46,7 @@ export default function ProgressScreen() {
     const { user } = useAuth();
     const theme = useTheme();
     const { preferences } = usePreferences();
+    const { getTrail } = useTrailCatalog();
     const router = useRouter();
     const [refreshing, setRefreshing] = useState(false);
     const [extendModalVisible, setExtendModalVisible] = useState(false);
@@ -52,7 +58,11 @@ export default function ProgressScreen() {
     // Track previous completion for milestone detection
     const prevCompletion = useRef(0);
 
-    const activeTrail = TRAILS.find(t => t.id === progress?.selectedTrailId);
+    // Which of the active trails is shown; defaults to the most recently started
+    const [viewedTrailId, setViewedTrailId] = useState<string | null>(null);
+    const activeSessions = progress?.activeTrails || [];
+    const session = activeSessions.find(s => s.trailId === viewedTrailId) || activeSessions[activeSessions.length - 1];
+    const activeTrail = session ? getTrail(session.trailId) : undefined;
 
     // Sync and refresh history when screen gains focus
     useFocusEffect(
@@ -62,17 +72,18 @@ export default function ProgressScreen() {
                 await loadHistory(); // Reload history
             };
             refreshData();
-        }, [sync, progress?.trailStartDate])
+        }, [sync, session?.startDate])
     );
 
     useEffect(() => {
         loadHistory();
-    }, [progress?.trailStartDate]);
+    }, [session?.startDate]);
 
     const loadHistory = async () => {
-        const data = await StepService.getDailyHistory(7);
-        if (progress?.trailStartDate) {
-            const startDateStr = progress.trailStartDate.split('T')[0];
+        if (!user) return;
+        const data = await StepHistoryService.getDailyHistory(user.id, 7);
+        if (session?.startDate) {
+            const startDateStr = toDateKey(session.startDate);
             const filteredData = data.filter(d => d.date >= startDateStr);
             setHistory(filteredData);
         } else {
@@ -95,11 +106,18 @@ export default function ProgressScreen() {
         setRefreshing(false);
     };
 
+    // Switching trails should not celebrate milestones passed earlier
+    useEffect(() => {
+        prevCompletion.current = session && activeTrail
+            ? session.currentDistanceMeters / activeTrail.totalDistanceMeters
+            : 0;
+    }, [session?.trailId]);
+
     // Milestone celebration detection
     useEffect(() => {
-        if (!activeTrail || !progress) return;
+        if (!activeTrail || !session) return;
 
-        const currentPercent = progress.currentDistanceMeters / activeTrail.totalDistanceMeters;
+        const currentPercent = session.currentDistanceMeters / activeTrail.totalDistanceMeters;
         const milestone = getMilestoneReached(prevCompletion.current, currentPercent);
 
         if (milestone) {
@@ -120,11 +138,11 @@ export default function ProgressScreen() {
         }
 
         prevCompletion.current = currentPercent;
-    }, [progress?.currentDistanceMeters, activeTrail]);
+    }, [session?.currentDistanceMeters, activeTrail]);
 
     if (progress === null) return null;
 
-    if (!activeTrail) {
+    if (!activeTrail || !session) {
         return (
             <View style={[styles.container, { backgroundColor: theme.background }]}>
                 <View style={{ padding: 24, flex: 1, justifyContent: 'center' }}>
@@ -157,8 +175,8 @@ export default function ProgressScreen() {
         );
     }
 
-    const completionPercent = progress.currentDistanceMeters / activeTrail.totalDistanceMeters;
-    const distanceKm = metersToKm(progress.currentDistanceMeters).toFixed(2);
+    const completionPercent = session.currentDistanceMeters / activeTrail.totalDistanceMeters;
+    const distanceKm = metersToKm(session.currentDistanceMeters).toFixed(2);
     const totalKm = metersToKm(activeTrail.totalDistanceMeters).toFixed(0);
 
     return (
@@ -194,6 +212,39 @@ export default function ProgressScreen() {
 
                 {/* Content Section */}
                 <View style={[styles.content, { backgroundColor: theme.background }]}>
+                    {/* Active Trail Picker */}
+                    {activeSessions.length > 1 && (
+                        <ScrollView
+                            horizontal
+                            showsHorizontalScrollIndicator={false}
+                            contentContainerStyle={styles.trailPicker}
+                        >
+                            {activeSessions.map(s => {
+                                const trail = getTrail(s.trailId);
+                                if (!trail) return null;
+                                const isViewed = s.trailId === session.trailId;
+                                return (
+                                    <TouchableOpacity
+                                        key={s.trailId}
+                                        style={[
+                                            styles.trailChip,
+                                            { borderColor: isViewed ? trail.color : theme.border },
+                                            isViewed && { backgroundColor: trail.color }
+                                        ]}
+                                        onPress={() => setViewedTrailId(s.trailId)}
+                                    >
+                                        <Text
+                                            style={[styles.trailChipText, { color: isViewed ? 'white' : theme.text }]}
+                                            numberOfLines={1}
+                                        >
+                                            {trail.name}
+                                        </Text>
+                                    </TouchableOpacity>
+                                );
+                            })}
+                        </ScrollView>
+                    )}
+
                     {/* Progress Section */}
                     <View style={[styles.card, { backgroundColor: theme.backgroundSecondary, borderColor: theme.border }]}>
                         <View style={styles.rowBetween}>
@@ -222,7 +273,7 @@ export default function ProgressScreen() {
                         <View style={styles.dateRow}>
                             <Text style={[styles.dateLabel, { color: theme.textSecondary }]}>Start Date</Text>
                             <Text style={[styles.dateValue, { color: theme.text }]}>
-                                {new Date(progress.trailStartDate!).toLocaleDateString('en-US', {
+                                {new Date(session.startDate).toLocaleDateString('en-US', {
                                     month: 'short',
                                     day: 'numeric',
                                     year: 'numeric'
@@ -234,9 +285,9 @@ export default function ProgressScreen() {
                             <Text style={[styles.dateLabel, { color: theme.textSecondary }]}>End Date</Text>
                             <Text style={[styles.dateValue, { color: theme.text }]}>
                                 {(() => {
-                                    const startDate = new Date(progress.trailStartDate!);
+                                    const startDate = new Date(session.startDate);
                                     const endDate = new Date(startDate);
-                                    endDate.setDate(startDate.getDate() + progress.targetDays);
+                                    endDate.setDate(startDate.getDate() + session.targetDays);
                                     return endDate.toLocaleDateString('en-US', {
                                         month: 'short',
                                         day: 'numeric',
@@ -251,11 +302,11 @@ export default function ProgressScreen() {
                             <Text style={[styles.dateValue, { color: activeTrail.color, fontWeight: '700' }]}>
                                 {(() => {
                                     const daysSinceStart = Math.max(1, Math.floor(
-                                        (new Date().getTime() - new Date(progress.trailStartDate!).getTime()) / (1000 * 60 * 60 * 24)
+                                        (new Date().getTime() - new Date(session.startDate).getTime()) / (1000 * 60 * 60 * 24)
                                     ));
-                                    const avgStepsPerDay = progress.totalStepsValid / daysSinceStart;
-                                    const remainingDistance = activeTrail.totalDistanceMeters - progress.currentDistanceMeters;
-                                    const stepsPerMeter = progress.totalStepsValid / Math.max(1, progress.currentDistanceMeters);
+                                    const avgStepsPerDay = session.totalStepsValid / daysSinceStart;
+                                    const remainingDistance = activeTrail.totalDistanceMeters - session.currentDistanceMeters;
+                                    const stepsPerMeter = session.totalStepsValid / Math.max(1, session.currentDistanceMeters);
                                     const remainingSteps = remainingDistance * stepsPerMeter;
                                     const daysRemaining = Math.max(1, Math.ceil(remainingSteps / Math.max(1, avgStepsPerDay)));
 
@@ -277,16 +328,16 @@ export default function ProgressScreen() {
                             <Text style={[styles.dateLabel, { color: theme.textSecondary }]}>Avg Steps to Complete</Text>
                             <Text style={[styles.dateValue, { color: activeTrail.color, fontWeight: '700' }]}>
                                 {(() => {
-                                    const startDate = new Date(progress.trailStartDate!);
+                                    const startDate = new Date(session.startDate);
                                     const endDate = new Date(startDate);
-                                    endDate.setDate(startDate.getDate() + progress.targetDays);
+                                    endDate.setDate(startDate.getDate() + session.targetDays);
 
                                     const daysRemaining = Math.max(1, Math.ceil(
                                         (endDate.getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24)
                                     ));
 
-                                    const remainingDistance = activeTrail.totalDistanceMeters - progress.currentDistanceMeters;
-                                    const stepsPerMeter = progress.totalStepsValid / Math.max(1, progress.currentDistanceMeters);
+                                    const remainingDistance = activeTrail.totalDistanceMeters - session.currentDistanceMeters;
+                                    const stepsPerMeter = session.totalStepsValid / Math.max(1, session.currentDistanceMeters);
                                     const remainingSteps = remainingDistance * stepsPerMeter;
                                     const avgStepsNeeded = Math.max(0, Math.ceil(remainingSteps / daysRemaining));
 
@@ -312,7 +363,7 @@ export default function ProgressScreen() {
                             <View style={[styles.verticalDivider, { backgroundColor: theme.border }]} />
 
                             <View style={styles.statItem}>
-                                <Text style={[styles.statVal, { color: theme.text }]}>{progress.totalStepsValid?.toLocaleString() || 0}</Text>
+                                <Text style={[styles.statVal, { color: theme.text }]}>{session.totalStepsValid.toLocaleString()}</Text>
                                 <Text style={[styles.statLab, { color: theme.textSecondary }]}>Total Steps</Text>
                             </View>
 
@@ -322,9 +373,9 @@ export default function ProgressScreen() {
                                 <Text style={[styles.statVal, { color: theme.text }]}>
                                     {(() => {
                                         const daysSinceStart = Math.floor(
-                                            (new Date().getTime() - new Date(progress.trailStartDate!).getTime()) / (1000 * 60 * 60 * 24)
+                                            (new Date().getTime() - new Date(session.startDate).getTime()) / (1000 * 60 * 60 * 24)
                                         ) + 1;
-                                        const avgSteps = Math.round(progress.totalStepsValid / Math.max(1, daysSinceStart));
+                                        const avgSteps = Math.round(session.totalStepsValid / Math.max(1, daysSinceStart));
                                         return avgSteps.toLocaleString();
                                     })()}
                                 </Text>
@@ -362,10 +413,10 @@ export default function ProgressScreen() {
                         <Text style={[styles.cardTitle, { color: theme.text }]}>Trail Progress</Text>
                         <View style={styles.landmarksTimeline}>
                             {activeTrail.landmarks.map((landmark, index) => {
-                                const isPassed = progress.currentDistanceMeters >= landmark.distanceMeters;
+                                const isPassed = session.currentDistanceMeters >= landmark.distanceMeters;
                                 const distance = isPassed
                                     ? 0
-                                    : landmark.distanceMeters - progress.currentDistanceMeters;
+                                    : landmark.distanceMeters - session.currentDistanceMeters;
                                 const isLast = index === activeTrail.landmarks.length - 1;
 
                                 return (
@@ -450,7 +501,7 @@ export default function ProgressScreen() {
                 onStart={(days) => {
                     const additionalDays = parseInt(days || '0', 10);
                     if (additionalDays > 0) {
-                        extendTrail(additionalDays);
+                        extendTrail(session.trailId, additionalDays);
                     }
                     setExtendModalVisible(false);
                 }}
@@ -530,6 +581,21 @@ const styles = StyleSheet.create({
         paddingHorizontal: 24,
         paddingTop: 24,
     },
+    trailPicker: {
+        gap: 8,
+        paddingBottom: 16,
+    },
+    trailChip: {
+        paddingHorizontal: 14,
+        paddingVertical: 8,
+        borderRadius: 20,
+        borderWidth: 1,
+        maxWidth: 200,
+    },
+    trailChipText: {
+        fontSize: 14,
+        fontWeight: '600',
+    },
     card: {
         padding: 20,
         borderRadius: 16,
@@ -6,12 +6,15 @@
  *
  * Modification History:
  * 2024-01-12: Documentation added.
+ * 2026-10-19: Starting a trail adds it alongside other active trails, up to the plan limit.
+ * 2026-10-19: Trails come from the trail catalog.
+ * 2026-10-19: My Trails section with the custom trail builder.
  */
 import { View, Text, StyleSheet, ScrollView, Image, TouchableOpacity, Dimensions, Alert } from 'react-native';
 import { useState } from 'react';
 
-import { INDIAN_TRAILS, CLASSIC_MARATHONS, CITY_MARATHONS } from '../../src/const/trails';
 import { useGame } from '../../src/context/GameContext';
+import { useTrailCatalog } from '../../src/context/TrailCatalogContext';
 import { useSubscription } from '../../src/context/SubscriptionContext';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Trail } from '../../src/types';
@@ -19,9 +22,10 @@ import { useRouter } from 'expo-router';
 import { useTheme, usePreferences } from '../../src/context/PreferencesContext';
 import { getDistanceValue, getDistanceUnit } from '../../src/utils/conversion';
 import { GoalPromptModal } from '../../src/components/GoalPromptModal';
-import { PaywallModal } from '../../src/components/PaywallModal';
+import { PaywallModal, LockedFeature } from '../../src/components/PaywallModal';
 import { isTrailFree } from '../../src/const/subscription';
-import { Lock } from 'lucide-react-native';
+import { TrailSessionService } from '../../src/services/TrailSessionService';
+import { Lock, Plus } from 'lucide-react-native';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const CARD_WIDTH = SCREEN_WIDTH * 0.55;
@@ -33,10 +37,12 @@ export default function TrailsScreen() {
     const theme = useTheme();
     const router = useRouter();
     const { preferences } = usePreferences();
-    const { selectTrail } = useGame();
+    const { selectTrail, maxActiveTrails } = useGame();
+    const { trails, getTrailsByCategory } = useTrailCatalog();
     const [modalVisible, setModalVisible] = useState(false);
     const [selectedTrailIdForModal, setSelectedTrailIdForModal] = useState<string | null>(null);
     const [paywallVisible, setPaywallVisible] = useState(false);
+    const [paywallFeature, setPaywallFeature] = useState<LockedFeature>('trails');
 
     const handleTrailPress = (trailId: string) => {
         // Allow viewing trail details even if locked
@@ -44,39 +50,37 @@ export default function TrailsScreen() {
     };
 
     const handleLockedTrailPress = () => {
+        setPaywallFeature('trails');
         setPaywallVisible(true);
     };
 
     const handleStartPress = (trailId: string) => {
-        // Check if there's an active trail and user is selecting a different one
-        if (progress?.selectedTrailId && progress.selectedTrailId !== trailId) {
-            Alert.alert(
-                '⚠️ Switch Trail?',
-                'Switching trails will reset your progress. You will lose all historical data and only today\'s steps will count towards the new trail.\n\nAre you sure you want to switch?',
-                [
-                    { text: 'Cancel', style: 'cancel' },
-                    {
-                        text: 'Switch Trail',
-                        style: 'destructive',
-                        onPress: () => {
-                            setSelectedTrailIdForModal(trailId);
-                            setModalVisible(true);
-                        }
-                    }
-                ]
-            );
-        } else {
-            setSelectedTrailIdForModal(trailId);
-            setModalVisible(true);
+        if (!TrailSessionService.canStartTrail(progress, isPro)) {
+            if (!isPro) {
+                setPaywallFeature('activeTrails');
+                setPaywallVisible(true);
+            } else {
+                Alert.alert(
+                    'Trail Limit Reached',
+                    `You are already walking ${maxActiveTrails} trails. Finish or cancel one to start another.`
+                );
+            }
+            return;
         }
+        setSelectedTrailIdForModal(trailId);
+        setModalVisible(true);
     };
 
-    const handleModalStart = (days: string) => {
+    const handleModalStart = async (days: string) => {
         const numDays = parseInt(days || '7', 10);
         if (numDays > 0 && selectedTrailIdForModal) {
-            selectTrail(selectedTrailIdForModal, numDays);
             setModalVisible(false);
-            router.push('/(tabs)/progress');
+            try {
+                await selectTrail(selectedTrailIdForModal, numDays);
+                router.push('/(tabs)/progress');
+            } catch (error: any) {
+                Alert.alert('Trail Limit Reached', error.message);
+            }
         } else {
             setModalVisible(false);
         }
@@ -88,7 +92,7 @@ export default function TrailsScreen() {
     };
 
     const renderTrailCard = (trail: Trail, index: number, isFirstInSection: boolean) => {
-        const isActive = progress?.selectedTrailId === trail.id;
+        const isActive = !!TrailSessionService.getSession(progress, trail.id);
         const isLocked = !isPro && !isTrailFree(trail.id);
 
 
@@ -98,6 +102,7 @@ export default function TrailsScreen() {
                 style={[
                     styles.card,
                     isFirstInSection && index === 0 && styles.firstCard,
+                    !trail.image && { backgroundColor: trail.color },
                 ]}
                 onPress={() => handleTrailPress(trail.id)}
                 activeOpacity={0.95}
@@ -193,6 +198,34 @@ export default function TrailsScreen() {
                 <Text style={[styles.headerSubtitle, { color: theme.textSecondary }]}>Choose your next adventure</Text>
             </View>
 
+            {/* My Trails Section */}
+            <View style={styles.section}>
+                <Text style={[styles.sectionTitle, { color: theme.text }]}>My Trails</Text>
+                <ScrollView
+                    horizontal
+                    pagingEnabled={false}
+                    showsHorizontalScrollIndicator={false}
+                    decelerationRate="fast"
+                    snapToInterval={CARD_WIDTH + CARD_SPACING}
+                    snapToAlignment="start"
+                    contentContainerStyle={styles.scrollContent}
+                >
+                    <TouchableOpacity
+                        style={[styles.card, styles.firstCard, styles.createCard, { borderColor: theme.border, backgroundColor: theme.card }]}
+                        onPress={() => router.push('/custom-trail')}
+                        activeOpacity={0.9}
+                    >
+                        <View style={styles.createIcon}>
+                            <Plus size={32} color="white" />
+                        </View>
+                        <Text style={[styles.createTitle, { color: theme.text }]}>Create a Trail</Text>
+                        <Text style={[styles.createSubtitle, { color: theme.textSecondary }]}>
+                            Your commute, a trip you dream of, or London to Paris
+                        </Text>
+                    </TouchableOpacity>
+                    {getTrailsByCategory('custom').map((trail, index) => renderTrailCard(trail, index, false))}
+                </ScrollView>
+            </View>
 
 
             {/* Incredible India Section */}
@@ -207,7 +240,7 @@ export default function TrailsScreen() {
                     snapToAlignment="start"
                     contentContainerStyle={styles.scrollContent}
                 >
-                    {INDIAN_TRAILS.map((trail, index) => renderTrailCard(trail, index, true))}
+                    {getTrailsByCategory('india').map((trail, index) => renderTrailCard(trail, index, true))}
                 </ScrollView>
             </View>
 
@@ -223,7 +256,7 @@ export default function TrailsScreen() {
                     snapToAlignment="start"
                     contentContainerStyle={styles.scrollContent}
                 >
-                    {CLASSIC_MARATHONS.map((trail, index) => renderTrailCard(trail, index, true))}
+                    {getTrailsByCategory('classicMarathon').map((trail, index) => renderTrailCard(trail, index, true))}
                 </ScrollView>
             </View>
 
@@ -239,7 +272,7 @@ export default function TrailsScreen() {
                     snapToAlignment="start"
                     contentContainerStyle={styles.scrollContent}
                 >
-                    {CITY_MARATHONS.map((trail, index) => renderTrailCard(trail, index, true))}
+                    {getTrailsByCategory('cityMarathon').map((trail, index) => renderTrailCard(trail, index, true))}
                 </ScrollView>
             </View>
 
@@ -252,7 +285,7 @@ export default function TrailsScreen() {
 
             {/* Footer */}
             <View style={styles.footer}>
-                <Text style={[styles.footerText, { color: theme.textTertiary }]}>Swipe to explore • {INDIAN_TRAILS.length + CLASSIC_MARATHONS.length + CITY_MARATHONS.length} trails total</Text>
+                <Text style={[styles.footerText, { color: theme.textTertiary }]}>Swipe to explore • {trails.length} trails total</Text>
             </View>
 
             <GoalPromptModal
@@ -264,7 +297,7 @@ export default function TrailsScreen() {
             <PaywallModal
                 visible={paywallVisible}
                 onClose={() => setPaywallVisible(false)}
-                feature="trails"
+                feature={paywallFeature}
             />
         </ScrollView>
     );
@@ -445,6 +478,33 @@ const styles = StyleSheet.create({
         fontWeight: 'bold',
         letterSpacing: 0.5,
     },
+    createCard: {
+        borderWidth: 2,
+        borderStyle: 'dashed',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: 24,
+        shadowOpacity: 0,
+        elevation: 0,
+    },
+    createIcon: {
+        width: 64,
+        height: 64,
+        borderRadius: 32,
+        backgroundColor: '#2563EB',
+        alignItems: 'center',
+        justifyContent: 'center',
+        marginBottom: 16,
+    },
+    createTitle: {
+        fontSize: 20,
+        fontWeight: 'bold',
+        marginBottom: 8,
+    },
+    createSubtitle: {
+        fontSize: 14,
+        textAlign: 'center',
+    },
     comingSoonContainer: {
         marginTop: 40,
         marginBottom: 24,
@@ -7,6 +7,16 @@
  * Modification History:
  * 2024-01-12: Documentation added.
  * 2026-01-20: Fixed context provider order and navigation race condition.
+ * 2026-10-19: Added TrailCatalogProvider above GameProvider.
+ * 2026-10-19: Registered the custom trail builder screen.
+ * 2026-10-19: Added FriendsProvider and the friends screen.
+ * 2026-10-19: Added ExpeditionsProvider and the expeditions screen.
+ * 2026-10-19: Added ChallengesProvider and the challenge screens.
+ * 2026-10-19: Added OrganizationProvider and the workplace wellness screens.
+ * 2026-10-19: Added FeedProvider and the activity feed screen.
+ * 2026-10-19: Registered the step source settings screen.
+ * 2026-10-19: Registered the streak screen.
+ * 2026-10-19: Added BadgeCatalogProvider above GameProvider.
  */
 import { Stack, useRouter, useSegments, useRootNavigationState } from 'expo-router';
 import { GameProvider } from '../src/context/GameContext';
@@ -18,6 +28,13 @@ import { useEffect } from 'react';
 import { View, ActivityIndicator } from 'react-native';
 import { PreferencesProvider, usePreferences } from '../src/context/PreferencesContext';
 import { ToastProvider } from '../src/context/ToastContext';
+import { TrailCatalogProvider } from '../src/context/TrailCatalogContext';
+import { BadgeCatalogProvider } from '../src/context/BadgeCatalogContext';
+import { FriendsProvider } from '../src/context/FriendsContext';
+import { ExpeditionsProvider } from '../src/context/ExpeditionsContext';
+import { ChallengesProvider } from '../src/context/ChallengesContext';
+import { OrganizationProvider } from '../src/context/OrganizationContext';
+import { FeedProvider } from '../src/context/FeedContext';
 import { logger } from '../src/services/LogService';
 
 const ProtectedLayout = () => {
@@ -60,18 +77,40 @@ const ProtectedLayout = () => {
 
     return (
         <GameProvider>
-            <ToastProvider>
-                <Stack screenOptions={{ headerShown: false }}>
-                    <Stack.Screen name="(tabs)" />
-                    <Stack.Screen name="login" />
-                    <Stack.Screen name="signup" />
-                    <Stack.Screen name="paywall" options={{ gestureEnabled: false }} />
-                    <Stack.Screen name="trail/[id]" />
-                    <Stack.Screen name="edit-profile" />
-                    <Stack.Screen name="my-dashboard" />
-                </Stack>
-                <StatusBar style={preferences.theme === 'dark' ? 'light' : 'dark'} />
-            </ToastProvider>
+            <FriendsProvider>
+                <ExpeditionsProvider>
+                    <ChallengesProvider>
+                        <OrganizationProvider>
+                            <FeedProvider>
+                                <ToastProvider>
+                                    <Stack screenOptions={{ headerShown: false }}>
+                                        <Stack.Screen name="(tabs)" />
+                                        <Stack.Screen name="login" />
+                                        <Stack.Screen name="signup" />
+                                        <Stack.Screen name="paywall" options={{ gestureEnabled: false }} />
+                                        <Stack.Screen name="trail/[id]" />
+                                        <Stack.Screen name="custom-trail" />
+                                        <Stack.Screen name="edit-profile" />
+                                        <Stack.Screen name="my-dashboard" />
+                                        <Stack.Screen name="friends" />
+                                        <Stack.Screen name="leaderboard" />
+                                        <Stack.Screen name="expeditions" />
+                                        <Stack.Screen name="challenges" />
+                                        <Stack.Screen name="new-challenge" />
+                                        <Stack.Screen name="challenge/[id]" />
+                                        <Stack.Screen name="organization" />
+                                        <Stack.Screen name="organization-admin" />
+                                        <Stack.Screen name="feed" />
+                                        <Stack.Screen name="step-source" />
+                                        <Stack.Screen name="streak" />
+                                    </Stack>
+                                    <StatusBar style={preferences.theme === 'dark' ? 'light' : 'dark'} />
+                                </ToastProvider>
+                            </FeedProvider>
+                        </OrganizationProvider>
+                    </ChallengesProvider>
+                </ExpeditionsProvider>
+            </FriendsProvider>
         </GameProvider>
     );
 };
@@ -82,7 +121,11 @@ export default function RootLayout() {
             <AuthProvider>
                 <SubscriptionProvider>
                     <PreferencesProvider>
-                        <ProtectedLayout />
+                        <TrailCatalogProvider>
+                            <BadgeCatalogProvider>
+                                <ProtectedLayout />
+                            </BadgeCatalogProvider>
+                        </TrailCatalogProvider>
                     </PreferencesProvider>
                 </SubscriptionProvider>
             </AuthProvider>
@@ -0,0 +1,362 @@
+/**
+ * File: app/challenge/[id].tsx
+ * Purpose: Standings, stakes and result of one head-to-head challenge.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert, RefreshControl, Image } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useMemo } from 'react';
+import { ChevronLeft, Trophy, LogOut, Clock } from 'lucide-react-native';
+import { useTheme, usePreferences } from '../../src/context/PreferencesContext';
+import { useChallenges } from '../../src/context/ChallengesContext';
+import { useAuth } from '../../src/context/AuthContext';
+import { ChallengeStandingsService } from '../../src/services/ChallengeStandingsService';
+import { formatDistance } from '../../src/utils/conversion';
+import { formatDateKey, toLocalDateKey } from '../../src/utils/date';
+import { ChallengeStanding } from '../../src/types';
+
+const ACCENT = '#2563EB';
+const MEDAL_COLORS = ['#F59E0B', '#9CA3AF', '#B45309'];
+
+export default function ChallengeDetailScreen() {
+    const { id } = useLocalSearchParams<{ id: string }>();
+    const router = useRouter();
+    const theme = useTheme();
+    const { preferences } = usePreferences();
+    const { user } = useAuth();
+    const { getChallenge, isLoading, refresh, leaveChallenge } = useChallenges();
+
+    const details = getChallenge(id);
+    const standings = useMemo(
+        () => details ? ChallengeStandingsService.getStandings(details.challenge, details.entries, user?.id ?? '') : [],
+        [details, user?.id]
+    );
+
+    const handleRefresh = async () => {
+        try {
+            await refresh();
+        } catch (error: any) {
+            Alert.alert('Could Not Refresh', error.message);
+        }
+    };
+
+    if (!details) {
+        return (
+            <View style={[styles.container, styles.centered, { backgroundColor: theme.background }]}>
+                <Text style={[styles.footnote, { color: theme.textSecondary }]}>Challenge not found</Text>
+                <TouchableOpacity onPress={() => router.back()}>
+                    <Text style={styles.linkText}>Go Back</Text>
+                </TouchableOpacity>
+            </View>
+        );
+    }
+
+    const { challenge } = details;
+    const status = ChallengeStandingsService.getStatus(challenge, standings, toLocalDateKey());
+    const isDistanceRace = challenge.type === 'first_to_distance';
+    const winners = standings.filter(s => challenge.winnerIds?.includes(s.userId));
+
+    const handleLeave = () => {
+        Alert.alert(
+            'Leave Challenge?',
+            'You will be removed from the standings and cannot rejoin.',
+            [
+                { text: 'Stay', style: 'cancel' },
+                {
+                    text: 'Leave',
+                    style: 'destructive',
+                    onPress: async () => {
+                        try {
+                            await leaveChallenge(challenge.id);
+                            router.back();
+                        } catch (error: any) {
+                            Alert.alert('Could Not Leave Challenge', error.message);
+                        }
+                    }
+                }
+            ]
+        );
+    };
+
+    const renderResult = () => {
+        if (challenge.winnerIds) {
+            const names = winners.map(w => w.isCurrentUser ? 'You' : w.name).join(' & ');
+            return (
+                <View style={[styles.banner, { backgroundColor: '#FEF3C7' }]}>
+                    <Trophy size={24} color="#F59E0B" />
+                    <Text style={styles.bannerText}>
+                        {winners.length === 0 ? 'Nobody won this one.' : `${names} won!`}
+                    </Text>
+                </View>
+            );
+        }
+        if (status === 'upcoming' || status === 'settling') {
+            return (
+                <View style={[styles.banner, { backgroundColor: theme.backgroundTertiary }]}>
+                    <Clock size={22} color={theme.textSecondary} />
+                    <Text style={[styles.bannerText, { color: theme.text }]}>
+                        {status === 'upcoming'
+                            ? `Starts ${formatDateKey(challenge.startDate)}`
+                            : `Counting is over. The winner is named ${formatDateKey(ChallengeStandingsService.getResultsDay(challenge))}, once everyone's last steps have synced.`}
+                    </Text>
+                </View>
+            );
+        }
+        return null;
+    };
+
+    const formatValue = (row: ChallengeStanding) => {
+        if (isDistanceRace) return formatDistance(row.distanceMeters, preferences.distanceUnit);
+        return `${row.steps.toLocaleString()} steps`;
+    };
+
+    const renderRow = (row: ChallengeStanding) => {
+        const percent = isDistanceRace && challenge.goalDistanceMeters
+            ? Math.min(Math.floor((row.distanceMeters / challenge.goalDistanceMeters) * 100), 100)
+            : null;
+        return (
+            <View
+                key={row.userId}
+                style={[styles.row, row.isCurrentUser && { backgroundColor: theme.backgroundTertiary, borderColor: ACCENT }]}
+            >
+                <View style={styles.rowMain}>
+                    <View style={styles.rankCell}>
+                        {row.rank <= MEDAL_COLORS.length && row.steps > 0 ? (
+                            <Trophy size={20} color={MEDAL_COLORS[row.rank - 1]} />
+                        ) : (
+                            <Text style={[styles.rankText, { color: theme.textSecondary }]}>{row.rank}</Text>
+                        )}
+                    </View>
+                    <View style={[styles.avatar, { backgroundColor: theme.backgroundTertiary }]}>
+                        {row.profileImage ? (
+                            <Image source={{ uri: row.profileImage }} style={styles.avatarImage} />
+                        ) : (
+                            <Text style={[styles.avatarInitial, { color: theme.text }]}>{row.name.charAt(0).toUpperCase()}</Text>
+                        )}
+                    </View>
+                    <View style={styles.nameCell}>
+                        <Text style={[styles.name, { color: theme.text }]} numberOfLines={1}>
+                            {row.isCurrentUser ? 'You' : row.name}
+                        </Text>
+                        {row.reachedGoalOn && (
+                            <Text style={[styles.footnote, { color: '#10B981' }]}>Reached the goal {formatDateKey(row.reachedGoalOn)}</Text>
+                        )}
+                    </View>
+                    <Text style={[styles.value, { color: theme.text }]}>{formatValue(row)}</Text>
+                </View>
+                {percent !== null && (
+                    <View style={[styles.progressBar, { backgroundColor: theme.border }]}>
+                        <View style={[styles.progressFill, { width: `${percent}%` }]} />
+                    </View>
+                )}
+            </View>
+        );
+    };
+
+    return (
+        <View style={[styles.container, { backgroundColor: theme.background }]}>
+            {/* Header */}
+            <View style={[styles.header, { backgroundColor: theme.card, borderBottomColor: theme.border }]}>
+                <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+                    <ChevronLeft size={24} color={theme.text} />
+                </TouchableOpacity>
+                <Text style={[styles.headerTitle, { color: theme.text }]} numberOfLines={1}>{challenge.name}</Text>
+                <View style={{ width: 24 }} />
+            </View>
+
+            <ScrollView
+                style={styles.content}
+                showsVerticalScrollIndicator={false}
+                refreshControl={<RefreshControl refreshing={isLoading} onRefresh={handleRefresh} />}
+            >
+                {/* Rules */}
+                <View style={[styles.section, { backgroundColor: theme.card }]}>
+                    <Text style={[styles.rules, { color: theme.text }]}>
+                        {ChallengeStandingsService.describe(challenge, preferences.distanceUnit)}
+                    </Text>
+                    {challenge.stake && (
+                        <Text style={[styles.stake, { color: theme.textSecondary }]}>Stakes: {challenge.stake}</Text>
+                    )}
+                    {renderResult()}
+                </View>
+
+                {/* Standings */}
+                <View style={[styles.section, { backgroundColor: theme.card }]}>
+                    <Text style={[styles.sectionTitle, { color: theme.text }]}>Standings</Text>
+                    {standings.map(renderRow)}
+                    {challenge.invitedIds.length > 0 && !challenge.winnerIds && (
+                        <Text style={[styles.footnote, { color: theme.textTertiary }]}>
+                            Waiting for {challenge.invitedIds.length} {challenge.invitedIds.length === 1 ? 'friend' : 'friends'} to accept.
+                        </Text>
+                    )}
+                </View>
+
+                <Text style={[styles.footnote, styles.pageFootnote, { color: theme.textTertiary }]}>
+                    Standings update when each person opens Stridr. Days count in each person's own timezone.
+                </Text>
+
+                {!challenge.winnerIds && (
+                    <TouchableOpacity style={styles.leaveButton} onPress={handleLeave}>
+                        <LogOut size={20} color="#EF4444" />
+                        <Text style={styles.leaveButtonText}>Leave Challenge</Text>
+                    </TouchableOpacity>
+                )}
+
+                <View style={{ height: 40 }} />
+            </ScrollView>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#F9FAFB',
+    },
+    centered: {
+        justifyContent: 'center',
+        alignItems: 'center',
+        gap: 12,
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: 20,
+        paddingTop: 60,
+        paddingBottom: 20,
+        backgroundColor: 'white',
+        borderBottomWidth: 1,
+        borderBottomColor: '#E5E7EB',
+    },
+    backButton: {
+        padding: 4,
+    },
+    headerTitle: {
+        flex: 1,
+        textAlign: 'center',
+        fontSize: 20,
+        fontWeight: 'bold',
+        color: '#111827',
+    },
+    content: {
+        flex: 1,
+    },
+    section: {
+        backgroundColor: 'white',
+        paddingHorizontal: 20,
+        paddingVertical: 20,
+        marginBottom: 16,
+        gap: 12,
+    },
+    sectionTitle: {
+        fontSize: 18,
+        fontWeight: 'bold',
+    },
+    rules: {
+        fontSize: 16,
+        fontWeight: '600',
+    },
+    stake: {
+        fontSize: 14,
+        fontStyle: 'italic',
+    },
+    banner: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        padding: 14,
+        borderRadius: 12,
+    },
+    bannerText: {
+        flex: 1,
+        fontSize: 15,
+        fontWeight: '600',
+        color: '#92400E',
+    },
+    row: {
+        gap: 8,
+        paddingVertical: 10,
+        paddingHorizontal: 10,
+        borderRadius: 12,
+        borderWidth: 1,
+        borderColor: 'transparent',
+    },
+    rowMain: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+    },
+    rankCell: {
+        width: 28,
+        alignItems: 'center',
+    },
+    rankText: {
+        fontSize: 16,
+        fontWeight: 'bold',
+    },
+    avatar: {
+        width: 36,
+        height: 36,
+        borderRadius: 18,
+        alignItems: 'center',
+        justifyContent: 'center',
+        overflow: 'hidden',
+    },
+    avatarImage: {
+        width: '100%',
+        height: '100%',
+    },
+    avatarInitial: {
+        fontSize: 16,
+        fontWeight: 'bold',
+    },
+    nameCell: {
+        flex: 1,
+    },
+    name: {
+        fontSize: 16,
+        fontWeight: '600',
+    },
+    value: {
+        fontSize: 15,
+        fontWeight: '600',
+    },
+    progressBar: {
+        height: 6,
+        borderRadius: 3,
+        overflow: 'hidden',
+    },
+    progressFill: {
+        height: '100%',
+        borderRadius: 3,
+        backgroundColor: ACCENT,
+    },
+    footnote: {
+        fontSize: 13,
+        lineHeight: 18,
+    },
+    pageFootnote: {
+        paddingHorizontal: 20,
+    },
+    linkText: {
+        fontSize: 15,
+        fontWeight: '600',
+        color: ACCENT,
+    },
+    leaveButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 8,
+        marginTop: 24,
+        marginHorizontal: 20,
+        paddingVertical: 14,
+    },
+    leaveButtonText: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#EF4444',
+    },
+});
@@ -0,0 +1,304 @@
+/**
+ * File: app/challenges.tsx
+ * Purpose: Challenges screen: answer challenge invites and see current and finished challenges.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert, RefreshControl } from 'react-native';
+import { useRouter } from 'expo-router';
+import { useState } from 'react';
+import { ChevronLeft, Plus, Swords, Check, X, Trophy } from 'lucide-react-native';
+import { useTheme, usePreferences } from '../src/context/PreferencesContext';
+import { useChallenges } from '../src/context/ChallengesContext';
+import { useFriends } from '../src/context/FriendsContext';
+import { useAuth } from '../src/context/AuthContext';
+import { useToast } from '../src/context/ToastContext';
+import { ChallengeDetails } from '../src/services/ChallengeService';
+import { ChallengeStandingsService } from '../src/services/ChallengeStandingsService';
+import { Challenge } from '../src/types';
+import { formatDateKey, toLocalDateKey } from '../src/utils/date';
+
+const ACCENT = '#2563EB';
+
+export default function ChallengesScreen() {
+    const router = useRouter();
+    const theme = useTheme();
+    const { preferences } = usePreferences();
+    const { user } = useAuth();
+    const { showToast } = useToast();
+    const { friends } = useFriends();
+    const { challenges, invitations, isLoading, refresh, acceptInvite, declineInvite } = useChallenges();
+
+    const [answering, setAnswering] = useState<string | null>(null);
+
+    const today = toLocalDateKey();
+    const current = challenges.filter(c => !c.challenge.winnerIds);
+    const finished = challenges.filter(c => c.challenge.winnerIds);
+
+    const handleRefresh = async () => {
+        try {
+            await refresh();
+        } catch (error: any) {
+            Alert.alert('Could Not Refresh', error.message);
+        }
+    };
+
+    const handleAnswer = async (challenge: Challenge, accept: boolean) => {
+        setAnswering(challenge.id);
+        try {
+            if (accept) {
+                await acceptInvite(challenge);
+                showToast(`Joined ${challenge.name}`, 'success');
+            } else {
+                await declineInvite(challenge);
+            }
+        } catch (error: any) {
+            Alert.alert('Could Not Update Challenge', error.message);
+        } finally {
+            setAnswering(null);
+        }
+    };
+
+    const creatorName = (challenge: Challenge) =>
+        friends.find(f => f.profile.userId === challenge.creatorId)?.profile.name ?? 'A friend';
+
+    const renderInvitation = (challenge: Challenge) => (
+        <View key={challenge.id} style={[styles.card, { backgroundColor: theme.card }]}>
+            <View style={styles.cardHeader}>
+                <View style={styles.cardText}>
+                    <Text style={[styles.cardTitle, { color: theme.text }]}>{challenge.name}</Text>
+                    <Text style={[styles.cardSubtitle, { color: theme.textSecondary }]}>
+                        {creatorName(challenge)} challenged you · {ChallengeStandingsService.describe(challenge, preferences.distanceUnit)}
+                    </Text>
+                    {challenge.stake && (
+                        <Text style={[styles.stake, { color: theme.textSecondary }]}>Stakes: {challenge.stake}</Text>
+                    )}
+                </View>
+            </View>
+            <View style={styles.answerRow}>
+                <TouchableOpacity
+                    style={[styles.answerButton, { backgroundColor: theme.backgroundTertiary }]}
+                    onPress={() => handleAnswer(challenge, false)}
+                    disabled={answering === challenge.id}
+                >
+                    <X size={18} color={theme.textSecondary} />
+                    <Text style={[styles.answerText, { color: theme.textSecondary }]}>Decline</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                    style={[styles.answerButton, { backgroundColor: ACCENT, opacity: answering === challenge.id ? 0.5 : 1 }]}
+                    onPress={() => handleAnswer(challenge, true)}
+                    disabled={answering === challenge.id}
+                >
+                    <Check size={18} color="white" />
+                    <Text style={[styles.answerText, { color: 'white' }]}>Accept</Text>
+                </TouchableOpacity>
+            </View>
+        </View>
+    );
+
+    const renderChallenge = ({ challenge, entries }: ChallengeDetails) => {
+        const standings = ChallengeStandingsService.getStandings(challenge, entries, user?.id ?? '');
+        const status = ChallengeStandingsService.getStatus(challenge, standings, today);
+        const myRow = standings.find(s => s.isCurrentUser);
+        const won = !!user && !!challenge.winnerIds?.includes(user.id);
+
+        let statusText: string;
+        if (challenge.winnerIds) {
+            statusText = challenge.winnerIds.length === 0
+                ? 'Finished with no winner'
+                : won ? (challenge.winnerIds.length > 1 ? 'You shared the win!' : 'You won!') : `You finished #${myRow?.rank ?? '–'}`;
+        } else if (status === 'upcoming') {
+            statusText = `Starts ${formatDateKey(challenge.startDate)}`;
+        } else if (status === 'settling') {
+            statusText = `Winner named ${formatDateKey(ChallengeStandingsService.getResultsDay(challenge))}`;
+        } else {
+            statusText = myRow ? `You are #${myRow.rank} of ${standings.length}` : 'In progress';
+        }
+
+        return (
+            <TouchableOpacity
+                key={challenge.id}
+                style={[styles.card, { backgroundColor: theme.card }]}
+                onPress={() => router.push(`/challenge/${challenge.id}`)}
+                activeOpacity={0.8}
+            >
+                <View style={styles.cardHeader}>
+                    <View style={styles.cardText}>
+                        <Text style={[styles.cardTitle, { color: theme.text }]}>{challenge.name}</Text>
+                        <Text style={[styles.cardSubtitle, { color: theme.textSecondary }]}>
+                            {ChallengeStandingsService.describe(challenge, preferences.distanceUnit)} · {challenge.participantIds.length} people
+                        </Text>
+                    </View>
+                    {won && <Trophy size={22} color="#F59E0B" />}
+                </View>
+                <Text style={[styles.status, { color: won ? '#10B981' : theme.text }]}>{statusText}</Text>
+            </TouchableOpacity>
+        );
+    };
+
+    return (
+        <View style={[styles.container, { backgroundColor: theme.background }]}>
+            {/* Header */}
+            <View style={[styles.header, { backgroundColor: theme.card, borderBottomColor: theme.border }]}>
+                <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+                    <ChevronLeft size={24} color={theme.text} />
+                </TouchableOpacity>
+                <Text style={[styles.headerTitle, { color: theme.text }]}>Challenges</Text>
+                <TouchableOpacity onPress={() => router.push('/new-challenge')} accessibilityLabel="New challenge">
+                    <Plus size={24} color={ACCENT} />
+                </TouchableOpacity>
+            </View>
+
+            <ScrollView
+                style={styles.content}
+                showsVerticalScrollIndicator={false}
+                refreshControl={<RefreshControl refreshing={isLoading} onRefresh={handleRefresh} />}
+            >
+                {/* Invitations */}
+                {invitations.length > 0 && (
+                    <View style={styles.list}>
+                        <Text style={[styles.listTitle, { color: theme.text }]}>Invitations</Text>
+                        {invitations.map(renderInvitation)}
+                    </View>
+                )}
+
+                {/* Current */}
+                <View style={styles.list}>
+                    <Text style={[styles.listTitle, { color: theme.text }]}>Current</Text>
+                    {current.length === 0 ? (
+                        <View style={[styles.card, styles.emptyCard, { backgroundColor: theme.card }]}>
+                            <Swords size={32} color={theme.textTertiary} />
+                            <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
+                                No challenges yet. Challenge your friends to the most steps in a week or a race to a distance.
+                            </Text>
+                            <TouchableOpacity style={styles.newButton} onPress={() => router.push('/new-challenge')}>
+                                <Text style={styles.newButtonText}>New Challenge</Text>
+                            </TouchableOpacity>
+                        </View>
+                    ) : (
+                        current.map(renderChallenge)
+                    )}
+                </View>
+
+                {/* Finished */}
+                {finished.length > 0 && (
+                    <View style={styles.list}>
+                        <Text style={[styles.listTitle, { color: theme.text }]}>Finished</Text>
+                        {finished.map(renderChallenge)}
+                    </View>
+                )}
+
+                <View style={{ height: 40 }} />
+            </ScrollView>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#F9FAFB',
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: 20,
+        paddingTop: 60,
+        paddingBottom: 20,
+        backgroundColor: 'white',
+        borderBottomWidth: 1,
+        borderBottomColor: '#E5E7EB',
+    },
+    backButton: {
+        padding: 4,
+    },
+    headerTitle: {
+        fontSize: 20,
+        fontWeight: 'bold',
+        color: '#111827',
+    },
+    content: {
+        flex: 1,
+    },
+    list: {
+        paddingHorizontal: 20,
+        paddingTop: 20,
+        gap: 12,
+    },
+    listTitle: {
+        fontSize: 18,
+        fontWeight: 'bold',
+    },
+    card: {
+        borderRadius: 16,
+        padding: 16,
+        gap: 10,
+        shadowColor: '#000',
+        shadowOpacity: 0.05,
+        shadowRadius: 8,
+        elevation: 2,
+    },
+    cardHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+    },
+    cardText: {
+        flex: 1,
+    },
+    cardTitle: {
+        fontSize: 16,
+        fontWeight: '600',
+    },
+    cardSubtitle: {
+        fontSize: 13,
+        marginTop: 2,
+    },
+    stake: {
+        fontSize: 13,
+        fontStyle: 'italic',
+        marginTop: 4,
+    },
+    status: {
+        fontSize: 14,
+        fontWeight: '600',
+    },
+    answerRow: {
+        flexDirection: 'row',
+        gap: 8,
+    },
+    answerButton: {
+        flex: 1,
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 6,
+        paddingVertical: 10,
+        borderRadius: 10,
+    },
+    answerText: {
+        fontSize: 15,
+        fontWeight: '600',
+    },
+    emptyCard: {
+        alignItems: 'center',
+        paddingVertical: 32,
+    },
+    emptyText: {
+        fontSize: 14,
+        lineHeight: 20,
+        textAlign: 'center',
+    },
+    newButton: {
+        backgroundColor: ACCENT,
+        paddingHorizontal: 20,
+        paddingVertical: 10,
+        borderRadius: 10,
+    },
+    newButtonText: {
+        color: 'white',
+        fontSize: 15,
+        fontWeight: '600',
+    },
+});
@@ -0,0 +1,462 @@
+/**
+ * File: app/custom-trail.tsx
+ * Purpose: Builder screen for creating and editing the user's own trails.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import { View, Text, StyleSheet, TextInput, TouchableOpacity, ScrollView, Alert, KeyboardAvoidingView, Platform } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useState } from 'react';
+import { ChevronLeft, Plus, Trash2, Check } from 'lucide-react-native';
+import { useTheme, usePreferences } from '../src/context/PreferencesContext';
+import { useTrailCatalog } from '../src/context/TrailCatalogContext';
+import { useGame } from '../src/context/GameContext';
+import { useToast } from '../src/context/ToastContext';
+import { CustomTrailService, CustomTrailDraft, CUSTOM_TRAIL_COLORS } from '../src/services/CustomTrailService';
+import { TrailSessionService } from '../src/services/TrailSessionService';
+import { distanceToMeters, getDistanceUnit, getDistanceValue } from '../src/utils/conversion';
+import { Trail } from '../src/types';
+
+const DIFFICULTIES: Trail['difficulty'][] = ['Easy', 'Moderate', 'Hard', 'Extreme'];
+
+// Text inputs keep what the user typed; numbers are parsed on save
+interface LandmarkInput {
+    key: string;
+    name: string;
+    description: string;
+    distance: string;
+}
+
+const formatDistanceInput = (meters: number, unit: 'km' | 'mi'): string => {
+    return String(Math.round(getDistanceValue(meters, unit) * 100) / 100);
+};
+
+const parseDistanceInput = (value: string, unit: 'km' | 'mi'): number => {
+    const parsed = parseFloat(value.replace(',', '.'));
+    return Number.isFinite(parsed) ? distanceToMeters(parsed, unit) : NaN;
+};
+
+export default function CustomTrailScreen() {
+    const { id } = useLocalSearchParams<{ id?: string }>();
+    const router = useRouter();
+    const theme = useTheme();
+    const { showToast } = useToast();
+    const { preferences } = usePreferences();
+    const { progress } = useGame();
+    const { getCustomTrail, saveCustomTrail, deleteCustomTrail } = useTrailCatalog();
+
+    const unit = preferences.distanceUnit;
+    const unitLabel = getDistanceUnit(unit);
+    const existing = id ? getCustomTrail(id) : undefined;
+    const initial = existing ? CustomTrailService.toDraft(existing) : CustomTrailService.createDraft();
+
+    const [name, setName] = useState(initial.name);
+    const [description, setDescription] = useState(initial.description);
+    const [distance, setDistance] = useState(initial.totalDistanceMeters > 0 ? formatDistanceInput(initial.totalDistanceMeters, unit) : '');
+    const [color, setColor] = useState(initial.color);
+    const [difficulty, setDifficulty] = useState<Trail['difficulty']>(initial.difficulty);
+    const [landmarks, setLandmarks] = useState<LandmarkInput[]>(
+        initial.landmarks.map((l, index) => ({
+            key: `existing-${index}`,
+            name: l.name,
+            description: l.description,
+            distance: formatDistanceInput(l.distanceMeters, unit)
+        }))
+    );
+    const [saving, setSaving] = useState(false);
+
+    const addLandmark = () => {
+        setLandmarks(prev => [...prev, { key: `new-${Date.now()}`, name: '', description: '', distance: '' }]);
+    };
+
+    const updateLandmark = (key: string, changes: Partial<LandmarkInput>) => {
+        setLandmarks(prev => prev.map(l => l.key === key ? { ...l, ...changes } : l));
+    };
+
+    const removeLandmark = (key: string) => {
+        setLandmarks(prev => prev.filter(l => l.key !== key));
+    };
+
+    const buildDraft = (): CustomTrailDraft => ({
+        name,
+        description,
+        totalDistanceMeters: parseDistanceInput(distance, unit),
+        color,
+        difficulty,
+        landmarks: landmarks.map(l => ({
+            name: l.name,
+            description: l.description,
+            distanceMeters: parseDistanceInput(l.distance, unit)
+        }))
+    });
+
+    const handleSave = async () => {
+        setSaving(true);
+        try {
+            const trail = await saveCustomTrail(buildDraft(), existing?.id);
+            showToast(existing ? 'Trail updated' : 'Trail created', 'success');
+            if (existing) {
+                router.back();
+            } else {
+                router.replace(`/trail/${trail.id}`);
+            }
+        } catch (error: any) {
+            Alert.alert('Could Not Save Trail', error.message || 'Please try again.');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDelete = () => {
+        if (!existing) return;
+        if (TrailSessionService.getSession(progress, existing.id)) {
+            Alert.alert('Trail In Progress', 'Cancel this trail from its detail screen before deleting it.');
+            return;
+        }
+
+        Alert.alert(
+            'Delete Trail?',
+            `"${existing.name}" will be removed from your trails. Completed walks stay in your history.`,
+            [
+                { text: 'Keep Trail', style: 'cancel' },
+                {
+                    text: 'Delete',
+                    style: 'destructive',
+                    onPress: async () => {
+                        try {
+                            await deleteCustomTrail(existing.id);
+                            router.dismissTo('/(tabs)/trails');
+                        } catch (error: any) {
+                            Alert.alert('Could Not Delete Trail', error.message || 'Please try again.');
+                        }
+                    }
+                }
+            ]
+        );
+    };
+
+    if (id && !existing) {
+        return (
+            <View style={[styles.container, styles.centered, { backgroundColor: theme.background }]}>
+                <Text style={[styles.label, { color: theme.textSecondary }]}>Trail not found</Text>
+            </View>
+        );
+    }
+
+    return (
+        <KeyboardAvoidingView
+            style={[styles.container, { backgroundColor: theme.background }]}
+            behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        >
+            {/* Header */}
+            <View style={[styles.header, { backgroundColor: theme.card, borderBottomColor: theme.border }]}>
+                <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+                    <ChevronLeft size={24} color={theme.text} />
+                </TouchableOpacity>
+                <Text style={[styles.headerTitle, { color: theme.text }]}>{existing ? 'Edit Trail' : 'Create Trail'}</Text>
+                <View style={{ width: 24 }} />
+            </View>
+
+            <ScrollView style={styles.content} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+                {/* Basics */}
+                <View style={[styles.formSection, { backgroundColor: theme.card }]}>
+                    <View style={styles.inputGroup}>
+                        <Text style={[styles.label, { color: theme.text }]}>Name</Text>
+                        <TextInput
+                            style={[styles.input, { color: theme.text, backgroundColor: theme.backgroundTertiary, borderColor: theme.border }]}
+                            value={name}
+                            onChangeText={setName}
+                            placeholder="e.g. Our commute to the office"
+                            placeholderTextColor={theme.textTertiary}
+                        />
+                    </View>
+
+                    <View style={styles.inputGroup}>
+                        <Text style={[styles.label, { color: theme.text }]}>Description</Text>
+                        <TextInput
+                            style={[styles.input, styles.multilineInput, { color: theme.text, backgroundColor: theme.backgroundTertiary, borderColor: theme.border }]}
+                            value={description}
+                            onChangeText={setDescription}
+                            placeholder="What is this walk about?"
+                            placeholderTextColor={theme.textTertiary}
+                            multiline
+                        />
+                    </View>
+
+                    <View style={styles.inputGroup}>
+                        <Text style={[styles.label, { color: theme.text }]}>Total Distance ({unitLabel})</Text>
+                        <TextInput
+                            style={[styles.input, { color: theme.text, backgroundColor: theme.backgroundTertiary, borderColor: theme.border }]}
+                            value={distance}
+                            onChangeText={setDistance}
+                            placeholder={unit === 'mi' ? 'e.g. 213' : 'e.g. 344'}
+                            placeholderTextColor={theme.textTertiary}
+                            keyboardType="decimal-pad"
+                        />
+                    </View>
+
+                    <View style={styles.inputGroup}>
+                        <Text style={[styles.label, { color: theme.text }]}>Difficulty</Text>
+                        <View style={styles.chipRow}>
+                            {DIFFICULTIES.map(option => {
+                                const selected = option === difficulty;
+                                return (
+                                    <TouchableOpacity
+                                        key={option}
+                                        style={[
+                                            styles.chip,
+                                            { borderColor: selected ? color : theme.border, backgroundColor: selected ? color : theme.backgroundTertiary }
+                                        ]}
+                                        onPress={() => setDifficulty(option)}
+                                    >
+                                        <Text style={[styles.chipText, { color: selected ? 'white' : theme.text }]}>{option}</Text>
+                                    </TouchableOpacity>
+                                );
+                            })}
+                        </View>
+                    </View>
+
+                    <View style={styles.inputGroup}>
+                        <Text style={[styles.label, { color: theme.text }]}>Color</Text>
+                        <View style={styles.chipRow}>
+                            {CUSTOM_TRAIL_COLORS.map(option => (
+                                <TouchableOpacity
+                                    key={option}
+                                    style={[styles.swatch, { backgroundColor: option }]}
+                                    onPress={() => setColor(option)}
+                                    accessibilityLabel={`Color ${option}`}
+                                >
+                                    {option === color && <Check size={18} color="white" />}
+                                </TouchableOpacity>
+                            ))}
+                        </View>
+                    </View>
+                </View>
+
+                {/* Landmarks */}
+                <View style={[styles.formSection, { backgroundColor: theme.card }]}>
+                    <Text style={[styles.sectionTitle, { color: theme.text }]}>Landmarks</Text>
+                    <Text style={[styles.sectionSubtitle, { color: theme.textSecondary }]}>
+                        Stops along the way, unlocked as you walk. They are sorted by distance when saved.
+                    </Text>
+
+                    {landmarks.map((landmark, index) => (
+                        <View key={landmark.key} style={[styles.landmarkCard, { borderColor: theme.border }]}>
+                            <View style={styles.landmarkHeader}>
+                                <Text style={[styles.landmarkTitle, { color: theme.text }]}>Landmark {index + 1}</Text>
+                                <TouchableOpacity onPress={() => removeLandmark(landmark.key)} accessibilityLabel={`Remove landmark ${index + 1}`}>
+                                    <Trash2 size={18} color="#EF4444" />
+                                </TouchableOpacity>
+                            </View>
+                            <TextInput
+                                style={[styles.input, styles.landmarkInput, { color: theme.text, backgroundColor: theme.backgroundTertiary, borderColor: theme.border }]}
+                                value={landmark.name}
+                                onChangeText={text => updateLandmark(landmark.key, { name: text })}
+                                placeholder="Name"
+                                placeholderTextColor={theme.textTertiary}
+                            />
+                            <TextInput
+                                style={[styles.input, styles.landmarkInput, { color: theme.text, backgroundColor: theme.backgroundTertiary, borderColor: theme.border }]}
+                                value={landmark.description}
+                                onChangeText={text => updateLandmark(landmark.key, { description: text })}
+                                placeholder="Description"
+                                placeholderTextColor={theme.textTertiary}
+                            />
+                            <TextInput
+                                style={[styles.input, { color: theme.text, backgroundColor: theme.backgroundTertiary, borderColor: theme.border }]}
+                                value={landmark.distance}
+                                onChangeText={text => updateLandmark(landmark.key, { distance: text })}
+                                placeholder={`Distance from start (${unitLabel})`}
+                                placeholderTextColor={theme.textTertiary}
+                                keyboardType="decimal-pad"
+                            />
+                        </View>
+                    ))}
+
+                    <TouchableOpacity style={[styles.addButton, { borderColor: color }]} onPress={addLandmark}>
+                        <Plus size={18} color={color} />
+                        <Text style={[styles.addButtonText, { color }]}>Add Landmark</Text>
+                    </TouchableOpacity>
+                </View>
+
+                {existing && (
+                    <TouchableOpacity style={styles.deleteButton} onPress={handleDelete}>
+                        <Trash2 size={20} color="#EF4444" />
+                        <Text style={styles.deleteButtonText}>Delete Trail</Text>
+                    </TouchableOpacity>
+                )}
+
+                <View style={{ height: 40 }} />
+            </ScrollView>
+
+            {/* Save Button */}
+            <View style={[styles.footer, { backgroundColor: theme.card, borderTopColor: theme.border }]}>
+                <TouchableOpacity
+                    style={[styles.saveButton, { backgroundColor: color, opacity: saving ? 0.6 : 1 }]}
+                    onPress={handleSave}
+                    disabled={saving}
+                >
+                    <Text style={styles.saveButtonText}>{existing ? 'Save Changes' : 'Create Trail'}</Text>
+                </TouchableOpacity>
+            </View>
+        </KeyboardAvoidingView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#F9FAFB',
+    },
+    centered: {
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: 20,
+        paddingTop: 60,
+        paddingBottom: 20,
+        backgroundColor: 'white',
+        borderBottomWidth: 1,
+        borderBottomColor: '#E5E7EB',
+    },
+    backButton: {
+        padding: 4,
+    },
+    headerTitle: {
+        fontSize: 20,
+        fontWeight: 'bold',
+        color: '#111827',
+    },
+    content: {
+        flex: 1,
+    },
+    formSection: {
+        backgroundColor: 'white',
+        paddingHorizontal: 20,
+        paddingVertical: 24,
+        marginBottom: 16,
+    },
+    sectionTitle: {
+        fontSize: 18,
+        fontWeight: 'bold',
+        marginBottom: 4,
+    },
+    sectionSubtitle: {
+        fontSize: 14,
+        marginBottom: 16,
+    },
+    inputGroup: {
+        marginBottom: 24,
+    },
+    label: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#374151',
+        marginBottom: 8,
+    },
+    input: {
+        fontSize: 16,
+        color: '#111827',
+        backgroundColor: '#F9FAFB',
+        borderRadius: 12,
+        paddingHorizontal: 16,
+        paddingVertical: 12,
+        borderWidth: 1,
+        borderColor: '#E5E7EB',
+    },
+    multilineInput: {
+        minHeight: 80,
+        textAlignVertical: 'top',
+    },
+    chipRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+    },
+    chip: {
+        paddingHorizontal: 14,
+        paddingVertical: 8,
+        borderRadius: 20,
+        borderWidth: 1,
+    },
+    chipText: {
+        fontSize: 14,
+        fontWeight: '600',
+    },
+    swatch: {
+        width: 36,
+        height: 36,
+        borderRadius: 18,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    landmarkCard: {
+        borderWidth: 1,
+        borderRadius: 12,
+        padding: 12,
+        marginBottom: 12,
+    },
+    landmarkHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: 8,
+    },
+    landmarkTitle: {
+        fontSize: 14,
+        fontWeight: '600',
+    },
+    landmarkInput: {
+        marginBottom: 8,
+    },
+    addButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 8,
+        paddingVertical: 12,
+        borderRadius: 12,
+        borderWidth: 1,
+        borderStyle: 'dashed',
+    },
+    addButtonText: {
+        fontSize: 16,
+        fontWeight: '600',
+    },
+    deleteButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 8,
+        marginHorizontal: 20,
+        paddingVertical: 16,
+        backgroundColor: '#FEF2F2',
+        borderRadius: 12,
+    },
+    deleteButtonText: {
+        fontSize: 16,
+        color: '#EF4444',
+        fontWeight: '600',
+    },
+    footer: {
+        padding: 20,
+        backgroundColor: 'white',
+        borderTopWidth: 1,
+        borderTopColor: '#E5E7EB',
+    },
+    saveButton: {
+        backgroundColor: '#2563EB',
+        paddingVertical: 16,
+        borderRadius: 12,
+        alignItems: 'center',
+    },
+    saveButtonText: {
+        color: 'white',
+        fontSize: 16,
+        fontWeight: 'bold',
+    },
+});
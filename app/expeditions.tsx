@@ -0,0 +1,276 @@
+/**
+ * File: app/expeditions.tsx
+ * Purpose: Group expeditions screen: join one with a code and see the expeditions the user belongs to.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import { View, Text, StyleSheet, TextInput, TouchableOpacity, ScrollView, Alert, Share, RefreshControl } from 'react-native';
+import { useRouter } from 'expo-router';
+import { useState } from 'react';
+import { ChevronLeft, LogIn, Share2, Users, CheckCircle2 } from 'lucide-react-native';
+import { useTheme } from '../src/context/PreferencesContext';
+import { useExpeditions } from '../src/context/ExpeditionsContext';
+import { useGame } from '../src/context/GameContext';
+import { useTrailCatalog } from '../src/context/TrailCatalogContext';
+import { useToast } from '../src/context/ToastContext';
+import { FriendSharingService } from '../src/services/FriendSharingService';
+import { ExpeditionDetails } from '../src/services/ExpeditionService';
+import { ExpeditionProgressService } from '../src/services/ExpeditionProgressService';
+
+const ACCENT = '#2563EB';
+
+export default function ExpeditionsScreen() {
+    const router = useRouter();
+    const theme = useTheme();
+    const { showToast } = useToast();
+    const { progress } = useGame();
+    const { getTrail } = useTrailCatalog();
+    const { expeditions, isLoading, refresh, joinExpedition } = useExpeditions();
+
+    const [code, setCode] = useState('');
+    const [joining, setJoining] = useState(false);
+
+    const handleRefresh = async () => {
+        try {
+            await refresh();
+        } catch (error: any) {
+            Alert.alert('Could Not Refresh', error.message);
+        }
+    };
+
+    const handleJoin = async () => {
+        if (!code.trim()) return;
+        setJoining(true);
+        try {
+            const expedition = await joinExpedition(code);
+            setCode('');
+            showToast(`Joined ${expedition.name}`, 'success');
+            router.push(`/trail/${expedition.trailId}`);
+        } catch (error: any) {
+            Alert.alert('Could Not Join Expedition', error.message);
+        } finally {
+            setJoining(false);
+        }
+    };
+
+    const renderExpedition = ({ expedition, contributions }: ExpeditionDetails) => {
+        const trail = getTrail(expedition.trailId);
+        const session = progress?.activeTrails.find(s => s.expedition?.id === expedition.id);
+        const groupDistance = session?.currentDistanceMeters ?? contributions.reduce((acc, c) => acc + c.distanceMeters, 0);
+        const percent = trail ? Math.min(Math.floor((groupDistance / trail.totalDistanceMeters) * 100), 100) : 0;
+        const isComplete = !!expedition.completedDate;
+
+        return (
+            <TouchableOpacity
+                key={expedition.id}
+                style={[styles.card, { backgroundColor: theme.card }]}
+                onPress={() => trail && router.push(`/trail/${trail.id}`)}
+                activeOpacity={0.8}
+                disabled={!trail}
+            >
+                <View style={styles.cardHeader}>
+                    <View style={styles.cardText}>
+                        <Text style={[styles.cardTitle, { color: theme.text }]}>{expedition.name}</Text>
+                        <Text style={[styles.cardSubtitle, { color: theme.textSecondary }]}>
+                            {trail?.name ?? 'Unavailable trail'} · {expedition.memberIds.length} {expedition.memberIds.length === 1 ? 'member' : 'members'}
+                        </Text>
+                    </View>
+                    {isComplete ? (
+                        <CheckCircle2 size={22} color="#10B981" />
+                    ) : (
+                        <TouchableOpacity
+                            onPress={() => Share.share({ message: ExpeditionProgressService.getInviteMessage(expedition, trail?.name ?? expedition.name) })}
+                            accessibilityLabel={`Share invite code for ${expedition.name}`}
+                        >
+                            <Share2 size={20} color={ACCENT} />
+                        </TouchableOpacity>
+                    )}
+                </View>
+
+                <View style={[styles.progressBar, { backgroundColor: theme.border }]}>
+                    <View style={[styles.progressFill, { width: `${percent}%`, backgroundColor: trail?.color ?? ACCENT }]} />
+                </View>
+                <Text style={[styles.cardSubtitle, { color: theme.textSecondary }]}>
+                    {isComplete
+                        ? `Completed ${new Date(expedition.completedDate!).toLocaleDateString()}`
+                        : `${percent}% complete · Code ${FriendSharingService.formatInviteCode(expedition.inviteCode)}`}
+                </Text>
+            </TouchableOpacity>
+        );
+    };
+
+    return (
+        <View style={[styles.container, { backgroundColor: theme.background }]}>
+            {/* Header */}
+            <View style={[styles.header, { backgroundColor: theme.card, borderBottomColor: theme.border }]}>
+                <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+                    <ChevronLeft size={24} color={theme.text} />
+                </TouchableOpacity>
+                <Text style={[styles.headerTitle, { color: theme.text }]}>Expeditions</Text>
+                <View style={{ width: 24 }} />
+            </View>
+
+            <ScrollView
+                style={styles.content}
+                showsVerticalScrollIndicator={false}
+                keyboardShouldPersistTaps="handled"
+                refreshControl={<RefreshControl refreshing={isLoading} onRefresh={handleRefresh} />}
+            >
+                {/* Join */}
+                <View style={[styles.section, { backgroundColor: theme.card }]}>
+                    <Text style={[styles.sectionTitle, { color: theme.text }]}>Join an Expedition</Text>
+                    <Text style={[styles.sectionSubtitle, { color: theme.textSecondary }]}>
+                        Walk a trail as a team. Everyone's steps count toward the same distance and landmarks.
+                    </Text>
+                    <View style={styles.searchRow}>
+                        <TextInput
+                            style={[styles.input, { color: theme.text, backgroundColor: theme.backgroundTertiary, borderColor: theme.border }]}
+                            value={code}
+                            onChangeText={setCode}
+                            placeholder="Expedition code"
+                            placeholderTextColor={theme.textTertiary}
+                            autoCapitalize="characters"
+                            autoCorrect={false}
+                            onSubmitEditing={handleJoin}
+                        />
+                        <TouchableOpacity
+                            style={[styles.joinButton, { opacity: joining || !code.trim() ? 0.5 : 1 }]}
+                            onPress={handleJoin}
+                            disabled={joining || !code.trim()}
+                            accessibilityLabel="Join expedition"
+                        >
+                            <LogIn size={20} color="white" />
+                        </TouchableOpacity>
+                    </View>
+                </View>
+
+                {/* Expeditions */}
+                <View style={styles.list}>
+                    {expeditions.length === 0 ? (
+                        <View style={[styles.card, styles.emptyCard, { backgroundColor: theme.card }]}>
+                            <Users size={32} color={theme.textTertiary} />
+                            <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
+                                No expeditions yet. Open any trail and choose "Start a Group Expedition", or join one with a code.
+                            </Text>
+                        </View>
+                    ) : (
+                        expeditions.map(renderExpedition)
+                    )}
+                </View>
+
+                <View style={{ height: 40 }} />
+            </ScrollView>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#F9FAFB',
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: 20,
+        paddingTop: 60,
+        paddingBottom: 20,
+        backgroundColor: 'white',
+        borderBottomWidth: 1,
+        borderBottomColor: '#E5E7EB',
+    },
+    backButton: {
+        padding: 4,
+    },
+    headerTitle: {
+        fontSize: 20,
+        fontWeight: 'bold',
+        color: '#111827',
+    },
+    content: {
+        flex: 1,
+    },
+    section: {
+        backgroundColor: 'white',
+        paddingHorizontal: 20,
+        paddingVertical: 20,
+        marginBottom: 16,
+    },
+    sectionTitle: {
+        fontSize: 18,
+        fontWeight: 'bold',
+        marginBottom: 12,
+    },
+    sectionSubtitle: {
+        fontSize: 14,
+        marginTop: -6,
+        marginBottom: 12,
+    },
+    searchRow: {
+        flexDirection: 'row',
+        gap: 8,
+    },
+    input: {
+        flex: 1,
+        fontSize: 16,
+        borderRadius: 12,
+        paddingHorizontal: 16,
+        paddingVertical: 12,
+        borderWidth: 1,
+    },
+    joinButton: {
+        width: 48,
+        borderRadius: 12,
+        backgroundColor: ACCENT,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    list: {
+        paddingHorizontal: 20,
+        gap: 12,
+    },
+    card: {
+        borderRadius: 16,
+        padding: 16,
+        gap: 10,
+        shadowColor: '#000',
+        shadowOpacity: 0.05,
+        shadowRadius: 8,
+        elevation: 2,
+    },
+    cardHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+    },
+    cardText: {
+        flex: 1,
+    },
+    cardTitle: {
+        fontSize: 16,
+        fontWeight: '600',
+    },
+    cardSubtitle: {
+        fontSize: 13,
+        marginTop: 2,
+    },
+    progressBar: {
+        height: 8,
+        borderRadius: 4,
+        overflow: 'hidden',
+    },
+    progressFill: {
+        height: '100%',
+        borderRadius: 4,
+    },
+    emptyCard: {
+        alignItems: 'center',
+        paddingVertical: 32,
+    },
+    emptyText: {
+        fontSize: 14,
+        lineHeight: 20,
+        textAlign: 'center',
+    },
+});
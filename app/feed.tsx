@@ -0,0 +1,417 @@
+/**
+ * File: app/feed.tsx
+ * Purpose: Activity feed: the user's and friends' badges, trail milestones, landmarks and finished trails,
+ * with cheers and comments.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, RefreshControl, Image, Alert, TextInput } from 'react-native';
+import { useRouter } from 'expo-router';
+import { useEffect, useState } from 'react';
+import { ChevronLeft, PartyPopper, MessageCircle, Send, Flag, MapPin, Mountain, UserPlus } from 'lucide-react-native';
+import { useTheme } from '../src/context/PreferencesContext';
+import { useAuth } from '../src/context/AuthContext';
+import { useFriends } from '../src/context/FriendsContext';
+import { useFeed } from '../src/context/FeedContext';
+import { FeedEventService, MAX_COMMENT_LENGTH } from '../src/services/FeedEventService';
+import { FeedComment, FeedEvent, PublicProfile } from '../src/types';
+
+const ACCENT = '#2563EB';
+const CHEER_COLOR = '#8B5CF6';
+
+export default function FeedScreen() {
+    const router = useRouter();
+    const theme = useTheme();
+    const { user } = useAuth();
+    const { friends } = useFriends();
+    const { events, isLoading, refresh, toggleCheer, getComments, addComment, deleteComment } = useFeed();
+
+    const [openEventId, setOpenEventId] = useState<string | null>(null);
+    const [comments, setComments] = useState<Record<string, FeedComment[]>>({});
+    const [draft, setDraft] = useState('');
+    const [posting, setPosting] = useState(false);
+
+    const handleRefresh = async () => {
+        try {
+            await refresh();
+        } catch (error: any) {
+            Alert.alert('Could Not Refresh', error.message);
+        }
+    };
+
+    // Load the feed on open, and again once friends have loaded
+    useEffect(() => {
+        handleRefresh();
+    }, [refresh]);
+
+    const handleCheer = async (event: FeedEvent) => {
+        try {
+            await toggleCheer(event);
+        } catch (error: any) {
+            Alert.alert('Could Not Cheer', error.message);
+        }
+    };
+
+    const handleToggleComments = async (event: FeedEvent) => {
+        if (openEventId === event.id) {
+            setOpenEventId(null);
+            return;
+        }
+        setOpenEventId(event.id);
+        setDraft('');
+        try {
+            const loaded = await getComments(event);
+            setComments(prev => ({ ...prev, [event.id]: loaded }));
+        } catch (error: any) {
+            Alert.alert('Could Not Load Comments', error.message);
+        }
+    };
+
+    const handlePostComment = async (event: FeedEvent) => {
+        setPosting(true);
+        try {
+            const comment = await addComment(event, draft);
+            setComments(prev => ({ ...prev, [event.id]: [...(prev[event.id] || []), comment] }));
+            setDraft('');
+        } catch (error: any) {
+            Alert.alert('Could Not Post Comment', error.message);
+        } finally {
+            setPosting(false);
+        }
+    };
+
+    const handleDeleteComment = (event: FeedEvent, comment: FeedComment) => {
+        const canDelete = comment.author.userId === user?.id || event.author.userId === user?.id;
+        if (!canDelete) return;
+        Alert.alert('Delete Comment?', comment.text, [
+            { text: 'Cancel', style: 'cancel' },
+            {
+                text: 'Delete',
+                style: 'destructive',
+                onPress: async () => {
+                    try {
+                        await deleteComment(event, comment);
+                        setComments(prev => ({ ...prev, [event.id]: (prev[event.id] || []).filter(c => c.id !== comment.id) }));
+                    } catch (error: any) {
+                        Alert.alert('Could Not Delete Comment', error.message);
+                    }
+                }
+            }
+        ]);
+    };
+
+    const renderAvatar = (profile: PublicProfile, size: number) => (
+        <View style={[styles.avatar, { width: size, height: size, borderRadius: size / 2, backgroundColor: theme.backgroundTertiary }]}>
+            {profile.profileImage ? (
+                <Image source={{ uri: profile.profileImage }} style={styles.avatarImage} />
+            ) : (
+                <Text style={[styles.avatarInitial, { color: theme.text }]}>{profile.name.charAt(0).toUpperCase()}</Text>
+            )}
+        </View>
+    );
+
+    const renderEventIcon = (event: FeedEvent) => {
+        switch (event.type) {
+            case 'badge':
+                return <Text style={styles.badgeIcon}>{event.badgeIcon}</Text>;
+            case 'milestone':
+                return <Flag size={18} color={ACCENT} />;
+            case 'landmark':
+                return <MapPin size={18} color="#EF4444" />;
+            case 'trail_completed':
+                return <Mountain size={18} color="#10B981" />;
+        }
+    };
+
+    const renderComments = (event: FeedEvent) => {
+        const loaded = comments[event.id];
+        return (
+            <View style={[styles.comments, { borderTopColor: theme.border }]}>
+                {loaded?.map(comment => (
+                    <TouchableOpacity
+                        key={comment.id}
+                        style={styles.comment}
+                        onLongPress={() => handleDeleteComment(event, comment)}
+                        activeOpacity={0.8}
+                    >
+                        {renderAvatar(comment.author, 28)}
+                        <View style={[styles.commentBubble, { backgroundColor: theme.backgroundTertiary }]}>
+                            <Text style={[styles.commentAuthor, { color: theme.text }]}>
+                                {comment.author.userId === user?.id ? 'You' : comment.author.name}
+                            </Text>
+                            <Text style={[styles.commentText, { color: theme.text }]}>{comment.text}</Text>
+                        </View>
+                    </TouchableOpacity>
+                ))}
+                {loaded?.length === 0 && (
+                    <Text style={[styles.footnote, { color: theme.textTertiary }]}>No comments yet. Say something nice!</Text>
+                )}
+                <View style={styles.commentInputRow}>
+                    <TextInput
+                        style={[styles.input, { color: theme.text, backgroundColor: theme.backgroundTertiary, borderColor: theme.border }]}
+                        value={draft}
+                        onChangeText={setDraft}
+                        placeholder="Add a comment"
+                        placeholderTextColor={theme.textTertiary}
+                        maxLength={MAX_COMMENT_LENGTH}
+                        onSubmitEditing={() => handlePostComment(event)}
+                    />
+                    <TouchableOpacity
+                        style={[styles.sendButton, { opacity: posting || !draft.trim() ? 0.5 : 1 }]}
+                        onPress={() => handlePostComment(event)}
+                        disabled={posting || !draft.trim()}
+                        accessibilityLabel="Post comment"
+                    >
+                        <Send size={18} color="white" />
+                    </TouchableOpacity>
+                </View>
+            </View>
+        );
+    };
+
+    const renderEvent = (event: FeedEvent) => {
+        const isMine = event.author.userId === user?.id;
+        const cheered = !!user && event.cheerIds.includes(user.id);
+        const isOpen = openEventId === event.id;
+
+        return (
+            <View key={`${event.author.userId}-${event.id}`} style={[styles.section, { backgroundColor: theme.card }]}>
+                <View style={styles.eventRow}>
+                    {renderAvatar(event.author, 40)}
+                    <View style={styles.eventText}>
+                        <Text style={[styles.eventTitle, { color: theme.text }]}>
+                            <Text style={styles.eventAuthor}>{isMine ? 'You' : event.author.name}</Text>
+                            {' '}{FeedEventService.describeEvent(event)}
+                        </Text>
+                        <Text style={[styles.eventAge, { color: theme.textTertiary }]}>
+                            {FeedEventService.describeAge(event.occurredAt, new Date())}
+                        </Text>
+                    </View>
+                    <View style={styles.eventIcon}>{renderEventIcon(event)}</View>
+                </View>
+
+                <View style={styles.actions}>
+                    <TouchableOpacity
+                        style={[styles.actionButton, cheered && { backgroundColor: CHEER_COLOR }]}
+                        onPress={() => handleCheer(event)}
+                        disabled={isMine}
+                        accessibilityLabel={cheered ? 'Take back cheer' : 'Cheer'}
+                    >
+                        <PartyPopper size={16} color={cheered ? 'white' : CHEER_COLOR} />
+                        <Text style={[styles.actionText, { color: cheered ? 'white' : CHEER_COLOR }]}>
+                            {event.cheerIds.length > 0 ? `${event.cheerIds.length} ` : ''}{event.cheerIds.length === 1 ? 'Cheer' : 'Cheers'}
+                        </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.actionButton} onPress={() => handleToggleComments(event)}>
+                        <MessageCircle size={16} color={theme.textSecondary} />
+                        <Text style={[styles.actionText, { color: theme.textSecondary }]}>
+                            {event.commentCount > 0 ? `${event.commentCount} ` : ''}{event.commentCount === 1 ? 'Comment' : 'Comments'}
+                        </Text>
+                    </TouchableOpacity>
+                </View>
+
+                {isOpen && renderComments(event)}
+            </View>
+        );
+    };
+
+    return (
+        <View style={[styles.container, { backgroundColor: theme.background }]}>
+            {/* Header */}
+            <View style={[styles.header, { backgroundColor: theme.card, borderBottomColor: theme.border }]}>
+                <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+                    <ChevronLeft size={24} color={theme.text} />
+                </TouchableOpacity>
+                <Text style={[styles.headerTitle, { color: theme.text }]}>Activity</Text>
+                <View style={{ width: 24 }} />
+            </View>
+
+            <ScrollView
+                style={styles.content}
+                showsVerticalScrollIndicator={false}
+                keyboardShouldPersistTaps="handled"
+                refreshControl={<RefreshControl refreshing={isLoading} onRefresh={handleRefresh} />}
+            >
+                {events.map(renderEvent)}
+
+                {events.length === 0 && !isLoading && (
+                    <View style={[styles.section, { backgroundColor: theme.card }]}>
+                        <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
+                            Nothing here yet. When you or your friends reach a landmark, finish a trail or earn a badge, it shows up here.
+                        </Text>
+                        {friends.length === 0 && (
+                            <TouchableOpacity style={styles.emptyAction} onPress={() => router.push('/friends')}>
+                                <UserPlus size={18} color={ACCENT} />
+                                <Text style={styles.emptyActionText}>Add friends to follow their progress</Text>
+                            </TouchableOpacity>
+                        )}
+                    </View>
+                )}
+
+                <Text style={[styles.footnote, styles.pageFootnote, { color: theme.textTertiary }]}>
+                    Only your friends see your activity. You can stop sharing it on the Friends screen.
+                </Text>
+
+                <View style={{ height: 40 }} />
+            </ScrollView>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#F9FAFB',
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: 20,
+        paddingTop: 60,
+        paddingBottom: 20,
+        backgroundColor: 'white',
+        borderBottomWidth: 1,
+        borderBottomColor: '#E5E7EB',
+    },
+    backButton: {
+        padding: 4,
+    },
+    headerTitle: {
+        fontSize: 20,
+        fontWeight: 'bold',
+        color: '#111827',
+    },
+    content: {
+        flex: 1,
+    },
+    section: {
+        backgroundColor: 'white',
+        paddingHorizontal: 20,
+        paddingVertical: 16,
+        marginBottom: 12,
+        gap: 12,
+    },
+    eventRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+    },
+    eventText: {
+        flex: 1,
+    },
+    eventTitle: {
+        fontSize: 15,
+        lineHeight: 21,
+    },
+    eventAuthor: {
+        fontWeight: 'bold',
+    },
+    eventAge: {
+        fontSize: 13,
+        marginTop: 2,
+    },
+    eventIcon: {
+        width: 28,
+        alignItems: 'center',
+    },
+    badgeIcon: {
+        fontSize: 22,
+    },
+    avatar: {
+        alignItems: 'center',
+        justifyContent: 'center',
+        overflow: 'hidden',
+    },
+    avatarImage: {
+        width: '100%',
+        height: '100%',
+    },
+    avatarInitial: {
+        fontSize: 16,
+        fontWeight: 'bold',
+    },
+    actions: {
+        flexDirection: 'row',
+        gap: 8,
+    },
+    actionButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 16,
+    },
+    actionText: {
+        fontSize: 14,
+        fontWeight: '600',
+    },
+    comments: {
+        borderTopWidth: 1,
+        paddingTop: 12,
+        gap: 10,
+    },
+    comment: {
+        flexDirection: 'row',
+        alignItems: 'flex-start',
+        gap: 8,
+    },
+    commentBubble: {
+        flex: 1,
+        borderRadius: 12,
+        paddingHorizontal: 12,
+        paddingVertical: 8,
+    },
+    commentAuthor: {
+        fontSize: 13,
+        fontWeight: 'bold',
+        marginBottom: 2,
+    },
+    commentText: {
+        fontSize: 14,
+        lineHeight: 19,
+    },
+    commentInputRow: {
+        flexDirection: 'row',
+        gap: 8,
+    },
+    input: {
+        flex: 1,
+        fontSize: 15,
+        borderRadius: 12,
+        paddingHorizontal: 14,
+        paddingVertical: 10,
+        borderWidth: 1,
+    },
+    sendButton: {
+        width: 44,
+        borderRadius: 12,
+        backgroundColor: ACCENT,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    emptyText: {
+        fontSize: 15,
+        lineHeight: 21,
+    },
+    emptyAction: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 8,
+        paddingVertical: 8,
+    },
+    emptyActionText: {
+        fontSize: 15,
+        fontWeight: '600',
+        color: ACCENT,
+    },
+    footnote: {
+        fontSize: 13,
+        lineHeight: 18,
+    },
+    pageFootnote: {
+        paddingHorizontal: 20,
+    },
+});
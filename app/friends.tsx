@@ -0,0 +1,518 @@
+/**
+ * File: app/friends.tsx
+ * Purpose: Friends screen: add friends by email or invite code, answer requests, see friends and choose what to share.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Added the leaderboard link and sharing option.
+ * 2026-10-19: Added the group expeditions link.
+ * 2026-10-19: Added the challenges link.
+ * 2026-10-19: Added the activity feed link and sharing option.
+ */
+import { View, Text, StyleSheet, TextInput, TouchableOpacity, ScrollView, Alert, Switch, Share, RefreshControl, Image } from 'react-native';
+import { useRouter } from 'expo-router';
+import { useState } from 'react';
+import { ChevronLeft, UserPlus, Share2, Check, X, Footprints, Mountain, Award, UserMinus, Trophy, ChevronRight, Users, Swords, PartyPopper } from 'lucide-react-native';
+import { useTheme, usePreferences } from '../src/context/PreferencesContext';
+import { useFriends } from '../src/context/FriendsContext';
+import { useChallenges } from '../src/context/ChallengesContext';
+import { useToast } from '../src/context/ToastContext';
+import { FriendSharingService } from '../src/services/FriendSharingService';
+import { Friend, FriendRequest, FriendSharingSettings, PublicProfile } from '../src/types';
+
+const ACCENT = '#2563EB';
+
+const SHARING_OPTIONS: { key: keyof FriendSharingSettings; title: string; subtitle: string }[] = [
+    { key: 'todaySteps', title: "Today's Steps", subtitle: 'Your step count for the day' },
+    { key: 'activeTrail', title: 'Active Trails', subtitle: 'Which trails you are walking and how far along you are' },
+    { key: 'badges', title: 'Badges', subtitle: 'How many badges you have earned' },
+    { key: 'leaderboards', title: 'Leaderboards', subtitle: 'Your weekly and monthly steps, distance and trails' },
+    { key: 'activity', title: 'Activity Feed', subtitle: 'Badges, trail milestones, landmarks and finished trails' },
+];
+
+export default function FriendsScreen() {
+    const router = useRouter();
+    const theme = useTheme();
+    const { showToast } = useToast();
+    const { preferences, updateFriendSharing } = usePreferences();
+    const {
+        friends,
+        incomingRequests,
+        outgoingRequests,
+        inviteCode,
+        isLoading,
+        refresh,
+        sendRequest,
+        acceptRequest,
+        declineRequest,
+        removeFriend
+    } = useFriends();
+    const { invitations } = useChallenges();
+
+    const [search, setSearch] = useState('');
+    const [sending, setSending] = useState(false);
+
+    const handleRefresh = async () => {
+        try {
+            await refresh();
+        } catch (error: any) {
+            Alert.alert('Could Not Refresh', error.message);
+        }
+    };
+
+    const handleSend = async () => {
+        if (!search.trim()) return;
+        setSending(true);
+        try {
+            const status = await sendRequest(search);
+            setSearch('');
+            showToast(status === 'accepted' ? 'You are now friends!' : 'Friend request sent', 'success');
+        } catch (error: any) {
+            Alert.alert('Could Not Add Friend', error.message);
+        } finally {
+            setSending(false);
+        }
+    };
+
+    const handleShareCode = async () => {
+        if (!inviteCode) return;
+        await Share.share({
+            message: `Walk with me on Stridr! Add me as a friend with my invite code: ${FriendSharingService.formatInviteCode(inviteCode)}`
+        });
+    };
+
+    const runRequestAction = async (action: () => Promise<void>, failureTitle: string) => {
+        try {
+            await action();
+        } catch (error: any) {
+            Alert.alert(failureTitle, error.message);
+        }
+    };
+
+    const handleRemoveFriend = (friend: Friend) => {
+        Alert.alert(
+            'Remove Friend?',
+            `${friend.profile.name} will no longer see what you share, and you will no longer see theirs.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Remove',
+                    style: 'destructive',
+                    onPress: () => runRequestAction(() => removeFriend(friend.profile.userId), 'Could Not Remove Friend')
+                }
+            ]
+        );
+    };
+
+    const renderAvatar = (profile: PublicProfile) => (
+        <View style={[styles.avatar, { backgroundColor: theme.backgroundTertiary }]}>
+            {profile.profileImage ? (
+                <Image source={{ uri: profile.profileImage }} style={styles.avatarImage} />
+            ) : (
+                <Text style={[styles.avatarInitial, { color: theme.text }]}>{profile.name.charAt(0).toUpperCase()}</Text>
+            )}
+        </View>
+    );
+
+    const renderRequest = (request: FriendRequest, incoming: boolean) => {
+        const other = incoming ? request.from : request.to;
+        return (
+            <View key={request.id} style={styles.row}>
+                {renderAvatar(other)}
+                <View style={styles.rowText}>
+                    <Text style={[styles.rowTitle, { color: theme.text }]}>{other.name}</Text>
+                    <Text style={[styles.rowSubtitle, { color: theme.textSecondary }]}>
+                        {incoming ? 'Wants to be friends' : 'Request sent'}
+                    </Text>
+                </View>
+                {incoming && (
+                    <TouchableOpacity
+                        style={[styles.iconButton, { backgroundColor: '#10B981' }]}
+                        onPress={() => runRequestAction(() => acceptRequest(request), 'Could Not Accept Request')}
+                        accessibilityLabel={`Accept ${other.name}`}
+                    >
+                        <Check size={18} color="white" />
+                    </TouchableOpacity>
+                )}
+                <TouchableOpacity
+                    style={[styles.iconButton, { backgroundColor: theme.backgroundTertiary }]}
+                    onPress={() => runRequestAction(() => declineRequest(request), 'Could Not Update Request')}
+                    accessibilityLabel={incoming ? `Decline ${other.name}` : `Cancel request to ${other.name}`}
+                >
+                    <X size={18} color={theme.textSecondary} />
+                </TouchableOpacity>
+            </View>
+        );
+    };
+
+    const renderFriend = (friend: Friend) => {
+        const todaySteps = FriendSharingService.getTodaySteps(friend.stats);
+        const activeTrails = friend.stats?.activeTrails;
+        const badgeCount = friend.stats?.badgeCount;
+        const sharesNothing = todaySteps === null && !activeTrails && badgeCount === undefined;
+
+        return (
+            <TouchableOpacity
+                key={friend.profile.userId}
+                style={styles.friendRow}
+                onLongPress={() => handleRemoveFriend(friend)}
+                activeOpacity={0.8}
+            >
+                <View style={styles.row}>
+                    {renderAvatar(friend.profile)}
+                    <View style={styles.rowText}>
+                        <Text style={[styles.rowTitle, { color: theme.text }]}>{friend.profile.name}</Text>
+                        {sharesNothing && (
+                            <Text style={[styles.rowSubtitle, { color: theme.textTertiary }]}>Not sharing any stats</Text>
+                        )}
+                    </View>
+                    <TouchableOpacity onPress={() => handleRemoveFriend(friend)} accessibilityLabel={`Remove ${friend.profile.name}`}>
+                        <UserMinus size={18} color={theme.textTertiary} />
+                    </TouchableOpacity>
+                </View>
+
+                {!sharesNothing && (
+                    <View style={styles.friendStats}>
+                        {todaySteps !== null && (
+                            <View style={styles.friendStat}>
+                                <Footprints size={14} color={ACCENT} />
+                                <Text style={[styles.friendStatText, { color: theme.textSecondary }]}>
+                                    {todaySteps.toLocaleString()} steps today
+                                </Text>
+                            </View>
+                        )}
+                        {activeTrails?.map(trail => (
+                            <View key={trail.trailId} style={styles.friendStat}>
+                                <Mountain size={14} color="#10B981" />
+                                <Text style={[styles.friendStatText, { color: theme.textSecondary }]}>
+                                    {trail.trailName} · {trail.percentComplete}%
+                                </Text>
+                            </View>
+                        ))}
+                        {badgeCount !== undefined && (
+                            <View style={styles.friendStat}>
+                                <Award size={14} color="#F59E0B" />
+                                <Text style={[styles.friendStatText, { color: theme.textSecondary }]}>
+                                    {badgeCount} {badgeCount === 1 ? 'badge' : 'badges'}
+                                </Text>
+                            </View>
+                        )}
+                    </View>
+                )}
+            </TouchableOpacity>
+        );
+    };
+
+    return (
+        <View style={[styles.container, { backgroundColor: theme.background }]}>
+            {/* Header */}
+            <View style={[styles.header, { backgroundColor: theme.card, borderBottomColor: theme.border }]}>
+                <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+                    <ChevronLeft size={24} color={theme.text} />
+                </TouchableOpacity>
+                <Text style={[styles.headerTitle, { color: theme.text }]}>Friends</Text>
+                <View style={{ width: 24 }} />
+            </View>
+
+            <ScrollView
+                style={styles.content}
+                showsVerticalScrollIndicator={false}
+                keyboardShouldPersistTaps="handled"
+                refreshControl={<RefreshControl refreshing={isLoading} onRefresh={handleRefresh} />}
+            >
+                {/* Add Friend */}
+                <View style={[styles.section, { backgroundColor: theme.card }]}>
+                    <Text style={[styles.sectionTitle, { color: theme.text }]}>Add a Friend</Text>
+                    <View style={styles.searchRow}>
+                        <TextInput
+                            style={[styles.input, { color: theme.text, backgroundColor: theme.backgroundTertiary, borderColor: theme.border }]}
+                            value={search}
+                            onChangeText={setSearch}
+                            placeholder="Email or invite code"
+                            placeholderTextColor={theme.textTertiary}
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                            keyboardType="email-address"
+                            onSubmitEditing={handleSend}
+                        />
+                        <TouchableOpacity
+                            style={[styles.sendButton, { opacity: sending || !search.trim() ? 0.5 : 1 }]}
+                            onPress={handleSend}
+                            disabled={sending || !search.trim()}
+                            accessibilityLabel="Send friend request"
+                        >
+                            <UserPlus size={20} color="white" />
+                        </TouchableOpacity>
+                    </View>
+
+                    <View style={[styles.inviteCard, { backgroundColor: theme.backgroundTertiary }]}>
+                        <View>
+                            <Text style={[styles.rowSubtitle, { color: theme.textSecondary }]}>Your invite code</Text>
+                            <Text style={[styles.inviteCode, { color: theme.text }]}>
+                                {inviteCode ? FriendSharingService.formatInviteCode(inviteCode) : '····-····'}
+                            </Text>
+                        </View>
+                        <TouchableOpacity onPress={handleShareCode} disabled={!inviteCode} style={styles.shareButton}>
+                            <Share2 size={18} color={ACCENT} />
+                            <Text style={styles.shareButtonText}>Share</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+
+                {/* Activity Feed */}
+                <TouchableOpacity
+                    style={[styles.section, styles.row, { backgroundColor: theme.card }]}
+                    onPress={() => router.push('/feed')}
+                    activeOpacity={0.8}
+                >
+                    <PartyPopper size={22} color="#8B5CF6" />
+                    <View style={styles.rowText}>
+                        <Text style={[styles.rowTitle, { color: theme.text }]}>Activity</Text>
+                        <Text style={[styles.rowSubtitle, { color: theme.textSecondary }]}>Cheer friends' badges, landmarks and finished trails</Text>
+                    </View>
+                    <ChevronRight size={20} color={theme.textTertiary} />
+                </TouchableOpacity>
+
+                {/* Leaderboard */}
+                <TouchableOpacity
+                    style={[styles.section, styles.row, { backgroundColor: theme.card }]}
+                    onPress={() => router.push('/leaderboard')}
+                    activeOpacity={0.8}
+                >
+                    <Trophy size={22} color="#F59E0B" />
+                    <View style={styles.rowText}>
+                        <Text style={[styles.rowTitle, { color: theme.text }]}>Leaderboard</Text>
+                        <Text style={[styles.rowSubtitle, { color: theme.textSecondary }]}>See how you rank this week and month</Text>
+                    </View>
+                    <ChevronRight size={20} color={theme.textTertiary} />
+                </TouchableOpacity>
+
+                {/* Expeditions */}
+                <TouchableOpacity
+                    style={[styles.section, styles.row, { backgroundColor: theme.card }]}
+                    onPress={() => router.push('/expeditions')}
+                    activeOpacity={0.8}
+                >
+                    <Users size={22} color="#10B981" />
+                    <View style={styles.rowText}>
+                        <Text style={[styles.rowTitle, { color: theme.text }]}>Group Expeditions</Text>
+                        <Text style={[styles.rowSubtitle, { color: theme.textSecondary }]}>Walk a trail together with pooled steps</Text>
+                    </View>
+                    <ChevronRight size={20} color={theme.textTertiary} />
+                </TouchableOpacity>
+
+                {/* Challenges */}
+                <TouchableOpacity
+                    style={[styles.section, styles.row, { backgroundColor: theme.card }]}
+                    onPress={() => router.push('/challenges')}
+                    activeOpacity={0.8}
+                >
+                    <Swords size={22} color="#EF4444" />
+                    <View style={styles.rowText}>
+                        <Text style={[styles.rowTitle, { color: theme.text }]}>Challenges</Text>
+                        <Text style={[styles.rowSubtitle, { color: theme.textSecondary }]}>
+                            {invitations.length > 0
+                                ? `${invitations.length} new ${invitations.length === 1 ? 'invite' : 'invites'}`
+                                : 'Go head-to-head on steps or distance'}
+                        </Text>
+                    </View>
+                    <ChevronRight size={20} color={theme.textTertiary} />
+                </TouchableOpacity>
+
+                {/* Requests */}
+                {(incomingRequests.length > 0 || outgoingRequests.length > 0) && (
+                    <View style={[styles.section, { backgroundColor: theme.card }]}>
+                        <Text style={[styles.sectionTitle, { color: theme.text }]}>Requests</Text>
+                        {incomingRequests.map(request => renderRequest(request, true))}
+                        {outgoingRequests.map(request => renderRequest(request, false))}
+                    </View>
+                )}
+
+                {/* Friends List */}
+                <View style={[styles.section, { backgroundColor: theme.card }]}>
+                    <Text style={[styles.sectionTitle, { color: theme.text }]}>
+                        Your Friends{friends.length > 0 ? ` (${friends.length})` : ''}
+                    </Text>
+                    {friends.length === 0 ? (
+                        <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
+                            No friends yet. Share your invite code or search by email to get started.
+                        </Text>
+                    ) : (
+                        friends.map(renderFriend)
+                    )}
+                </View>
+
+                {/* Privacy */}
+                <View style={[styles.section, { backgroundColor: theme.card }]}>
+                    <Text style={[styles.sectionTitle, { color: theme.text }]}>What Friends Can See</Text>
+                    <Text style={[styles.sectionSubtitle, { color: theme.textSecondary }]}>
+                        Only your friends can see these. Your name and photo are visible to anyone who finds you.
+                    </Text>
+                    {SHARING_OPTIONS.map(option => (
+                        <View key={option.key} style={styles.row}>
+                            <View style={styles.rowText}>
+                                <Text style={[styles.rowTitle, { color: theme.text }]}>{option.title}</Text>
+                                <Text style={[styles.rowSubtitle, { color: theme.textSecondary }]}>{option.subtitle}</Text>
+                            </View>
+                            <Switch
+                                value={preferences.friendSharing[option.key]}
+                                onValueChange={value => updateFriendSharing(option.key, value)}
+                                trackColor={{ false: theme.border, true: ACCENT }}
+                            />
+                        </View>
+                    ))}
+                </View>
+
+                <View style={{ height: 40 }} />
+            </ScrollView>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#F9FAFB',
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: 20,
+        paddingTop: 60,
+        paddingBottom: 20,
+        backgroundColor: 'white',
+        borderBottomWidth: 1,
+        borderBottomColor: '#E5E7EB',
+    },
+    backButton: {
+        padding: 4,
+    },
+    headerTitle: {
+        fontSize: 20,
+        fontWeight: 'bold',
+        color: '#111827',
+    },
+    content: {
+        flex: 1,
+    },
+    section: {
+        backgroundColor: 'white',
+        paddingHorizontal: 20,
+        paddingVertical: 20,
+        marginBottom: 16,
+    },
+    sectionTitle: {
+        fontSize: 18,
+        fontWeight: 'bold',
+        marginBottom: 12,
+    },
+    sectionSubtitle: {
+        fontSize: 14,
+        marginTop: -6,
+        marginBottom: 12,
+    },
+    searchRow: {
+        flexDirection: 'row',
+        gap: 8,
+        marginBottom: 16,
+    },
+    input: {
+        flex: 1,
+        fontSize: 16,
+        borderRadius: 12,
+        paddingHorizontal: 16,
+        paddingVertical: 12,
+        borderWidth: 1,
+    },
+    sendButton: {
+        width: 48,
+        borderRadius: 12,
+        backgroundColor: ACCENT,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    inviteCard: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        borderRadius: 12,
+        padding: 16,
+    },
+    inviteCode: {
+        fontSize: 22,
+        fontWeight: 'bold',
+        letterSpacing: 2,
+        marginTop: 4,
+    },
+    shareButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+    },
+    shareButtonText: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: ACCENT,
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        paddingVertical: 10,
+    },
+    rowText: {
+        flex: 1,
+    },
+    rowTitle: {
+        fontSize: 16,
+        fontWeight: '600',
+    },
+    rowSubtitle: {
+        fontSize: 13,
+        marginTop: 2,
+    },
+    avatar: {
+        width: 40,
+        height: 40,
+        borderRadius: 20,
+        alignItems: 'center',
+        justifyContent: 'center',
+        overflow: 'hidden',
+    },
+    avatarImage: {
+        width: '100%',
+        height: '100%',
+    },
+    avatarInitial: {
+        fontSize: 18,
+        fontWeight: 'bold',
+    },
+    iconButton: {
+        width: 36,
+        height: 36,
+        borderRadius: 18,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    friendRow: {
+        paddingBottom: 8,
+    },
+    friendStats: {
+        marginLeft: 52,
+        gap: 4,
+    },
+    friendStat: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+    },
+    friendStatText: {
+        fontSize: 13,
+    },
+    emptyText: {
+        fontSize: 14,
+        lineHeight: 20,
+    },
+});
@@ -0,0 +1,256 @@
+/**
+ * File: app/leaderboard.tsx
+ * Purpose: Weekly and monthly leaderboard of the user and their friends by steps, distance or trails completed.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, RefreshControl, Image, Alert } from 'react-native';
+import { useRouter } from 'expo-router';
+import { useMemo, useState } from 'react';
+import { ChevronLeft, Trophy, UserPlus } from 'lucide-react-native';
+import { useTheme, usePreferences } from '../src/context/PreferencesContext';
+import { useFriends } from '../src/context/FriendsContext';
+import { formatDistance } from '../src/utils/conversion';
+import { LeaderboardMetric, LeaderboardPeriod, LeaderboardRow } from '../src/types';
+
+const ACCENT = '#2563EB';
+const MEDAL_COLORS = ['#F59E0B', '#9CA3AF', '#B45309'];
+
+const PERIODS: { key: LeaderboardPeriod; label: string }[] = [
+    { key: 'week', label: 'This Week' },
+    { key: 'month', label: 'This Month' },
+];
+
+const METRICS: { key: LeaderboardMetric; label: string }[] = [
+    { key: 'steps', label: 'Steps' },
+    { key: 'distance', label: 'Distance' },
+    { key: 'trails', label: 'Trails' },
+];
+
+export default function LeaderboardScreen() {
+    const router = useRouter();
+    const theme = useTheme();
+    const { preferences } = usePreferences();
+    const { friends, isLoading, refresh, getLeaderboard } = useFriends();
+
+    const [period, setPeriod] = useState<LeaderboardPeriod>('week');
+    const [metric, setMetric] = useState<LeaderboardMetric>('steps');
+
+    const rows = useMemo(() => getLeaderboard(period, metric), [getLeaderboard, period, metric]);
+    const hiddenCount = friends.length - (rows.length - 1);
+
+    const handleRefresh = async () => {
+        try {
+            await refresh();
+        } catch (error: any) {
+            Alert.alert('Could Not Refresh', error.message);
+        }
+    };
+
+    const formatValue = (row: LeaderboardRow) => {
+        if (metric === 'distance') return formatDistance(row.value, preferences.distanceUnit);
+        if (metric === 'trails') return `${row.value} ${row.value === 1 ? 'trail' : 'trails'}`;
+        return `${row.value.toLocaleString()} steps`;
+    };
+
+    const renderToggle = <T extends string>(options: { key: T; label: string }[], selected: T, onSelect: (key: T) => void) => (
+        <View style={[styles.toggle, { backgroundColor: theme.backgroundTertiary }]}>
+            {options.map(option => {
+                const active = option.key === selected;
+                return (
+                    <TouchableOpacity
+                        key={option.key}
+                        style={[styles.toggleOption, active && { backgroundColor: theme.card }]}
+                        onPress={() => onSelect(option.key)}
+                    >
+                        <Text style={[styles.toggleText, { color: active ? theme.text : theme.textSecondary }]}>{option.label}</Text>
+                    </TouchableOpacity>
+                );
+            })}
+        </View>
+    );
+
+    const renderRow = (row: LeaderboardRow) => (
+        <View
+            key={row.userId}
+            style={[styles.row, row.isCurrentUser && { backgroundColor: theme.backgroundTertiary, borderColor: ACCENT }]}
+        >
+            <View style={styles.rankCell}>
+                {row.rank <= MEDAL_COLORS.length && row.value > 0 ? (
+                    <Trophy size={20} color={MEDAL_COLORS[row.rank - 1]} />
+                ) : (
+                    <Text style={[styles.rankText, { color: theme.textSecondary }]}>{row.rank}</Text>
+                )}
+            </View>
+            <View style={[styles.avatar, { backgroundColor: theme.backgroundTertiary }]}>
+                {row.profileImage ? (
+                    <Image source={{ uri: row.profileImage }} style={styles.avatarImage} />
+                ) : (
+                    <Text style={[styles.avatarInitial, { color: theme.text }]}>{row.name.charAt(0).toUpperCase()}</Text>
+                )}
+            </View>
+            <Text style={[styles.name, { color: theme.text }]} numberOfLines={1}>
+                {row.isCurrentUser ? 'You' : row.name}
+            </Text>
+            <Text style={[styles.value, { color: theme.text }]}>{formatValue(row)}</Text>
+        </View>
+    );
+
+    return (
+        <View style={[styles.container, { backgroundColor: theme.background }]}>
+            {/* Header */}
+            <View style={[styles.header, { backgroundColor: theme.card, borderBottomColor: theme.border }]}>
+                <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+                    <ChevronLeft size={24} color={theme.text} />
+                </TouchableOpacity>
+                <Text style={[styles.headerTitle, { color: theme.text }]}>Leaderboard</Text>
+                <View style={{ width: 24 }} />
+            </View>
+
+            <ScrollView
+                style={styles.content}
+                showsVerticalScrollIndicator={false}
+                refreshControl={<RefreshControl refreshing={isLoading} onRefresh={handleRefresh} />}
+            >
+                <View style={[styles.section, { backgroundColor: theme.card }]}>
+                    {renderToggle(PERIODS, period, setPeriod)}
+                    {renderToggle(METRICS, metric, setMetric)}
+                </View>
+
+                <View style={[styles.section, { backgroundColor: theme.card }]}>
+                    {rows.map(renderRow)}
+
+                    {friends.length === 0 ? (
+                        <TouchableOpacity style={styles.emptyAction} onPress={() => router.push('/friends')}>
+                            <UserPlus size={18} color={ACCENT} />
+                            <Text style={styles.emptyActionText}>Add friends to start competing</Text>
+                        </TouchableOpacity>
+                    ) : hiddenCount > 0 && (
+                        <Text style={[styles.footnote, { color: theme.textTertiary }]}>
+                            {hiddenCount} {hiddenCount === 1 ? 'friend is' : 'friends are'} not sharing leaderboard totals.
+                        </Text>
+                    )}
+                </View>
+
+                <Text style={[styles.footnote, styles.pageFootnote, { color: theme.textTertiary }]}>
+                    Totals update when each friend opens Stridr. Weeks start on Sunday.
+                </Text>
+
+                <View style={{ height: 40 }} />
+            </ScrollView>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#F9FAFB',
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: 20,
+        paddingTop: 60,
+        paddingBottom: 20,
+        backgroundColor: 'white',
+        borderBottomWidth: 1,
+        borderBottomColor: '#E5E7EB',
+    },
+    backButton: {
+        padding: 4,
+    },
+    headerTitle: {
+        fontSize: 20,
+        fontWeight: 'bold',
+        color: '#111827',
+    },
+    content: {
+        flex: 1,
+    },
+    section: {
+        backgroundColor: 'white',
+        paddingHorizontal: 20,
+        paddingVertical: 20,
+        marginBottom: 16,
+        gap: 12,
+    },
+    toggle: {
+        flexDirection: 'row',
+        borderRadius: 10,
+        padding: 4,
+    },
+    toggleOption: {
+        flex: 1,
+        alignItems: 'center',
+        paddingVertical: 8,
+        borderRadius: 8,
+    },
+    toggleText: {
+        fontSize: 14,
+        fontWeight: '600',
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        paddingVertical: 10,
+        paddingHorizontal: 10,
+        borderRadius: 12,
+        borderWidth: 1,
+        borderColor: 'transparent',
+    },
+    rankCell: {
+        width: 28,
+        alignItems: 'center',
+    },
+    rankText: {
+        fontSize: 16,
+        fontWeight: 'bold',
+    },
+    avatar: {
+        width: 36,
+        height: 36,
+        borderRadius: 18,
+        alignItems: 'center',
+        justifyContent: 'center',
+        overflow: 'hidden',
+    },
+    avatarImage: {
+        width: '100%',
+        height: '100%',
+    },
+    avatarInitial: {
+        fontSize: 16,
+        fontWeight: 'bold',
+    },
+    name: {
+        flex: 1,
+        fontSize: 16,
+        fontWeight: '600',
+    },
+    value: {
+        fontSize: 15,
+        fontWeight: '600',
+    },
+    emptyAction: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 8,
+        paddingVertical: 8,
+    },
+    emptyActionText: {
+        fontSize: 15,
+        fontWeight: '600',
+        color: ACCENT,
+    },
+    footnote: {
+        fontSize: 13,
+        lineHeight: 18,
+    },
+    pageFootnote: {
+        paddingHorizontal: 20,
+    },
+});
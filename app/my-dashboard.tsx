@@ -7,13 +7,29 @@
  * Modification History:
  * 2024-01-12: Created dashboard screen.
  * 2026-01-14: Added weekly/monthly stats, goal rate, personal records, landmarks, next badge progress.
+ * 2026-10-19: Trail stats list every active trail.
+ * 2026-10-19: This Month card shows distance from the user's stride length.
+ * 2026-10-19: Day keys are read and written in the local calendar.
+ * 2026-10-19: Trails come from the trail catalog.
+ * 2026-10-19: Added the Your Rank card for the weekly friend leaderboard.
+ * 2026-10-19: Badge total includes challenge badges.
+ * 2026-10-19: Badge total includes streak badges.
+ * 2026-10-19: Yearly history comes from the local step history cache.
+ * 2026-10-19: Badge total includes every lifetime badge.
+ * 2026-10-19: Achievement highlights show the latest badge unlocks of any kind.
+ * 2026-10-19: Badges come from the badge catalog.
  */
 import { View, Text, StyleSheet, ScrollView, Dimensions, TouchableOpacity } from 'react-native';
 import { useRouter } from 'expo-router';
 import { useAuth } from '../src/context/AuthContext';
 import { useGame } from '../src/context/GameContext';
 import { usePreferences, useTheme } from '../src/context/PreferencesContext';
+import { useTrailCatalog } from '../src/context/TrailCatalogContext';
+import { useBadgeCatalog } from '../src/context/BadgeCatalogContext';
+import { useFriends } from '../src/context/FriendsContext';
+import { LeaderboardService } from '../src/services/LeaderboardService';
 import { getDistanceValue, getDistanceUnit } from '../src/utils/conversion';
+import { parseDateKey, toLocalDateKey } from '../src/utils/date';
 import {
     Award, Target, Footprints, MapPin, ChevronLeft, Trophy, Flag, ChevronRight,
     Calendar, BarChart2, CheckCircle2, TrendingUp, TrendingDown, Minus, Zap,
@@ -21,11 +37,10 @@ import {
 } from 'lucide-react-native';
 import { ImageBackground } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import { BADGES, MONTHLY_BADGES_TOTAL, MONTHLY_MASTER_REQUIREMENT, MONTH_NAMES, MONTH_ICONS } from '../src/const/badges';
-import { TRAILS } from '../src/const/trails';
+import { MONTHLY_MASTER_REQUIREMENT, MONTH_NAMES, MONTH_ICONS } from '../src/const/badges';
 import { CalendarView } from '../src/components/CalendarView';
 import { SimpleLineChart } from '../src/components/SimpleLineChart';
-import { StepService } from '../src/services/StepService';
+import { StepHistoryService } from '../src/services/StepHistoryService';
 import { BadgeService } from '../src/services/BadgeService';
 import { DashboardStatsService, WeeklyStats, GoalAchievementStats, PersonalRecords, NextBadgeProgress, filterHistoryByStartDate } from '../src/services/DashboardStatsService';
 import { useState, useEffect, useMemo } from 'react';
@@ -37,6 +52,10 @@ export default function MyDashboardScreen() {
     const { user } = useAuth();
     const { progress, todaySteps, sync } = useGame();
     const { preferences } = usePreferences();
+    const { trails } = useTrailCatalog();
+    const { badges } = useBadgeCatalog();
+    const monthlyBadgesTotal = badges.filter(b => b.period === 'monthly').length;
+    const { friends, getLeaderboard } = useFriends();
     const theme = useTheme();
 
     const [rawHistory, setRawHistory] = useState<{ date: string; steps: number }[]>([]);
@@ -60,9 +79,9 @@ export default function MyDashboardScreen() {
     // Calculate TOTAL lifetime badges - memoized to avoid recalculation on every render
     const totalBadgesEarned = useMemo(() => {
         const pastMonthsCount = (progress?.pastMonths || []).reduce((acc, pm) => acc + pm.unlockedBadgeIds.length, 0);
-        const trailBadgesCount = (progress?.trailBadges || []).length;
+        const lifetimeBadgesCount = progress ? BadgeService.getLifetimeBadgeIds(progress).length : 0;
         const masterBadgesCount = (progress?.yearlyProgress || []).reduce((acc, yp) => acc + yp.monthlyBadgesEarned.length + (yp.yearlyBadgeEarned ? 1 : 0), 0);
-        return monthlyUnlockedCount + pastMonthsCount + trailBadgesCount + masterBadgesCount;
+        return monthlyUnlockedCount + pastMonthsCount + lifetimeBadgesCount + masterBadgesCount;
     }, [progress, monthlyUnlockedCount]);
 
     const badgesRemaining = Math.max(0, MONTHLY_MASTER_REQUIREMENT - monthlyUnlockedCount);
@@ -72,23 +91,24 @@ export default function MyDashboardScreen() {
 
     // Calculate derived stats
     const landmarksReached = useMemo(() =>
-        DashboardStatsService.getLandmarksReached(progress, TRAILS),
-        [progress]
+        DashboardStatsService.getLandmarksReached(progress, trails),
+        [progress, trails]
     );
 
     const nextBadge = useMemo(() =>
-        DashboardStatsService.getNextBadgeProgress(progress),
-        [progress]
+        DashboardStatsService.getNextBadgeProgress(progress, [], toLocalDateKey(), badges),
+        [progress, badges]
     );
 
     // --- OPTIMIZATION START ---
     // Fetch base history only once (or when user/year changes)
     useEffect(() => {
         const loadStats = async () => {
+            if (!user) return;
             setIsLoading(true);
             try {
                 const currentYear = new Date().getFullYear();
-                const raw = await StepService.getYearlyHistory(currentYear);
+                const raw = await StepHistoryService.getYearlyHistory(user.id, currentYear);
                 const filtered = filterHistoryByStartDate(raw, user?.createdAt);
                 setRawHistory(filtered);
             } catch (error) {
@@ -103,7 +123,7 @@ export default function MyDashboardScreen() {
     // Combine raw history with live todaySteps
     const history = useMemo(() => {
         if (rawHistory.length === 0) return [];
-        const todayStr = new Date().toISOString().split('T')[0];
+        const todayStr = toLocalDateKey();
 
         // Clone the array to avoid mutating state
         const updated = [...rawHistory];
@@ -123,25 +143,37 @@ export default function MyDashboardScreen() {
     // Derive all stats from the live `history` using useMemo
     const weeklyStats = useMemo(() => DashboardStatsService.getWeeklyStats(history), [history]);
     const monthlySteps = useMemo(() => DashboardStatsService.getMonthlySteps(history), [history]);
+    const monthlyDistance = useMemo(
+        () => DashboardStatsService.getMonthlyDistanceMeters(history, preferences.strideLength),
+        [history, preferences.strideLength]
+    );
+    const weeklyLeaderboard = useMemo(() => getLeaderboard('week', 'steps'), [getLeaderboard]);
+    const myRank = LeaderboardService.getCurrentUserRow(weeklyLeaderboard);
     const goalAchievement = useMemo(() => DashboardStatsService.getGoalAchievementRate(history, dailyGoal), [history, dailyGoal]);
     const personalRecords = useMemo(() => DashboardStatsService.getPersonalRecords(history), [history]);
     const chartData = useMemo(() => DashboardStatsService.getChartData(history, 7), [history]);
     // --- OPTIMIZATION END ---
 
-    // Calculate badge statistics (using monthly badges)
-    const unlockedBadgeObjects = (monthlyProgress?.unlockedBadgeIds || [])
-        .map((badgeId: string) => BADGES.find(b => b.id === badgeId))
-        .filter(Boolean);
-    const recentBadges = unlockedBadgeObjects.slice(-5).reverse();
+    // Latest badge unlocks, newest first
+    const recentBadges = useMemo(() =>
+        (progress ? BadgeService.getRecentUnlocks(progress, 5) : []).flatMap(unlock => {
+            const display = BadgeService.describeUnlock(unlock, badges);
+            return display ? [{ key: BadgeService.unlockKey(unlock), ...display }] : [];
+        }),
+        [progress, badges]
+    );
 
     // Calculate trail statistics
-    const activeTrail = progress?.selectedTrailId
-        ? TRAILS.find(t => t.id === progress.selectedTrailId)
-        : null;
-    const currentDistance = progress?.currentDistanceMeters || 0;
-    const trailProgress = activeTrail
-        ? Math.min((currentDistance / activeTrail.totalDistanceMeters) * 100, 100)
-        : 0;
+    const activeTrailStats = (progress?.activeTrails || [])
+        .map(session => {
+            const trail = trails.find(t => t.id === session.trailId);
+            if (!trail) return null;
+            return {
+                trail,
+                percent: Math.min((session.currentDistanceMeters / trail.totalDistanceMeters) * 100, 100)
+            };
+        })
+        .filter((stat): stat is NonNullable<typeof stat> => stat !== null);
 
     // Trend icon helper
     const TrendIcon = ({ trend, size = 16 }: { trend: 'up' | 'down' | 'same'; size?: number }) => {
@@ -213,13 +245,13 @@ export default function MyDashboardScreen() {
                             <View style={styles.monthlyInfo}>
                                 <Text style={[styles.monthlyTitle, { color: theme.text }]}>{monthName} Challenge</Text>
                                 <Text style={[styles.monthlySubtitle, { color: theme.textSecondary }]}>
-                                    {monthlyUnlockedCount}/{MONTHLY_BADGES_TOTAL} badges earned
+                                    {monthlyUnlockedCount}/{monthlyBadgesTotal} badges earned
                                 </Text>
                             </View>
                             <ChevronRight size={20} color={theme.textTertiary} />
                         </View>
                         <View style={[styles.monthlyProgressBar, { backgroundColor: theme.border }]}>
-                            <View style={[styles.monthlyProgressFill, { width: `${(monthlyUnlockedCount / MONTHLY_BADGES_TOTAL) * 100}%` }]} />
+                            <View style={[styles.monthlyProgressFill, { width: `${(monthlyUnlockedCount / monthlyBadgesTotal) * 100}%` }]} />
                         </View>
                         <Text style={[styles.monthlyRemaining, { color: badgesRemaining > 0 ? '#F59E0B' : '#10B981' }]}>
                             {badgesRemaining > 0
@@ -290,11 +322,35 @@ export default function MyDashboardScreen() {
                                 {monthlySteps.toLocaleString()}
                             </Text>
                             <Text style={[styles.cardSubtext, { color: theme.textSecondary }]}>
-                                {new Date().toLocaleDateString('en-US', { month: 'long' })}
+                                {`${getDistanceValue(monthlyDistance, preferences.distanceUnit).toFixed(1)} ${distanceUnit} · ${new Date().toLocaleDateString('en-US', { month: 'long' })}`}
                             </Text>
                         </View>
                     </View>
 
+                    {/* ===== SECTION 2B: YOUR RANK ===== */}
+                    <TouchableOpacity
+                        style={[styles.monthlyBadgeCard, { backgroundColor: theme.card }]}
+                        onPress={() => router.push(friends.length > 0 ? '/leaderboard' : '/friends')}
+                        activeOpacity={0.8}
+                    >
+                        <View style={[styles.monthlyBadgeHeader, { marginBottom: 0 }]}>
+                            <View style={[styles.rankBadge, { backgroundColor: theme.backgroundTertiary }]}>
+                                <Trophy size={20} color="#F59E0B" />
+                            </View>
+                            <View style={styles.monthlyInfo}>
+                                <Text style={[styles.monthlyTitle, { color: theme.text }]}>
+                                    {friends.length > 0 && myRank ? `Your Rank: #${myRank.rank} of ${weeklyLeaderboard.length}` : 'Your Rank'}
+                                </Text>
+                                <Text style={[styles.monthlySubtitle, { color: theme.textSecondary }]}>
+                                    {friends.length > 0
+                                        ? 'Steps among friends this week'
+                                        : 'Add friends to compare your week'}
+                                </Text>
+                            </View>
+                            <ChevronRight size={20} color={theme.textTertiary} />
+                        </View>
+                    </TouchableOpacity>
+
                     {/* ===== SECTION 3: GOAL ACHIEVEMENT RATE ===== */}
                     {goalAchievement && (
                         <View style={[styles.achievementCard, { backgroundColor: theme.card }]}>
@@ -357,7 +413,7 @@ export default function MyDashboardScreen() {
                             <Text style={[styles.recordLabel, { color: theme.textSecondary }]}>Best Day</Text>
                             {personalRecords?.bestDay.date && (
                                 <Text style={[styles.recordDate, { color: theme.textTertiary }]}>
-                                    {new Date(personalRecords.bestDay.date).toLocaleDateString('en-US', { day: 'numeric', month: 'short' })}
+                                    {parseDateKey(personalRecords.bestDay.date).toLocaleDateString('en-US', { day: 'numeric', month: 'short' })}
                                 </Text>
                             )}
                         </View>
@@ -372,7 +428,7 @@ export default function MyDashboardScreen() {
                             {personalRecords?.bestWeek.weekStart && (
                                 <Text style={[styles.recordDate, { color: theme.textTertiary }]}>
                                     {(() => {
-                                        const start = new Date(personalRecords.bestWeek.weekStart);
+                                        const start = parseDateKey(personalRecords.bestWeek.weekStart);
                                         const end = new Date(start);
                                         end.setDate(end.getDate() + 6);
                                         return `${start.toLocaleDateString('en-US', { day: 'numeric', month: 'short' })} - ${end.toLocaleDateString('en-US', { day: 'numeric', month: 'short' })}`;
@@ -444,7 +500,7 @@ export default function MyDashboardScreen() {
                         <View style={styles.achievementsSection}>
                             <View style={styles.sectionHeader}>
                                 <Text style={[styles.sectionTitle, { color: theme.text }]}>Achievement Highlights</Text>
-                                <TouchableOpacity onPress={() => router.push('/(tabs)/achievements')}>
+                                <TouchableOpacity onPress={() => router.push({ pathname: '/(tabs)/achievements', params: { view: 'timeline' } })}>
                                     <Text style={[styles.viewAllText, { color: '#3B82F6' }]}>View All</Text>
                                 </TouchableOpacity>
                             </View>
@@ -454,9 +510,9 @@ export default function MyDashboardScreen() {
                                 showsHorizontalScrollIndicator={false}
                                 contentContainerStyle={styles.badgesCarousel}
                             >
-                                {recentBadges.map((badge: any, index: number) => (
+                                {recentBadges.map((badge, index) => (
                                     <View
-                                        key={badge.id}
+                                        key={badge.key}
                                         style={[
                                             styles.badgeCard,
                                             { backgroundColor: theme.card },
@@ -484,8 +540,8 @@ export default function MyDashboardScreen() {
 
                         <View style={[styles.trailStatsCard, { backgroundColor: theme.card }]}>
                             {/* Active Trail */}
-                            {activeTrail ? (
-                                <View style={styles.trailStatItem}>
+                            {activeTrailStats.length > 0 ? activeTrailStats.map(({ trail: activeTrail, percent: trailProgress }) => (
+                                <View key={activeTrail.id} style={styles.trailStatItem}>
                                     <View style={styles.trailStatLeft}>
                                         <View style={[styles.trailStatIcon, { backgroundColor: 'rgba(59, 130, 246, 0.15)' }]}>
                                             <MapPin size={20} color="#3B82F6" />
@@ -514,7 +570,7 @@ export default function MyDashboardScreen() {
                                         <ChevronRight size={20} color={theme.textTertiary} />
                                     </TouchableOpacity>
                                 </View>
-                            ) : (
+                            )) : (
                                 <View style={styles.trailStatItem}>
                                     <View style={styles.trailStatLeft}>
                                         <View style={[styles.trailStatIcon, { backgroundColor: 'rgba(107, 114, 128, 0.15)' }]}>
@@ -549,7 +605,7 @@ export default function MyDashboardScreen() {
                                 {progress?.completedTrails && progress.completedTrails.length > 0 ? (
                                     <View style={styles.completedList}>
                                         {[...progress.completedTrails].reverse().map((completed, index) => {
-                                            const trailInfo = TRAILS.find(t => t.id === completed.trailId);
+                                            const trailInfo = trails.find(t => t.id === completed.trailId);
                                             if (!trailInfo) return null;
 
                                             const PLACEHOLDER_IMG = { uri: 'https://via.placeholder.com/400x200' };
@@ -770,6 +826,14 @@ const styles = StyleSheet.create({
         fontWeight: '600',
         textAlign: 'center',
     },
+    rankBadge: {
+        width: 40,
+        height: 40,
+        borderRadius: 20,
+        alignItems: 'center',
+        justifyContent: 'center',
+        marginRight: 12,
+    },
     // Section Titles
     sectionTitle: {
         fontSize: 18,
@@ -0,0 +1,386 @@
+/**
+ * File: app/new-challenge.tsx
+ * Purpose: Form for starting a head-to-head challenge with friends.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Organization admins can post a challenge open to the whole organization.
+ */
+import { View, Text, StyleSheet, TextInput, TouchableOpacity, ScrollView, Alert, KeyboardAvoidingView, Platform, Image } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useState } from 'react';
+import { ChevronLeft, Check, UserPlus, Building2 } from 'lucide-react-native';
+import { useTheme, usePreferences } from '../src/context/PreferencesContext';
+import { useFriends } from '../src/context/FriendsContext';
+import { useChallenges } from '../src/context/ChallengesContext';
+import { useOrganization } from '../src/context/OrganizationContext';
+import { useToast } from '../src/context/ToastContext';
+import { ChallengeStandingsService, MAX_CHALLENGE_PARTICIPANTS } from '../src/services/ChallengeStandingsService';
+import { addDays, toLocalDateKey } from '../src/utils/date';
+import { distanceToMeters, getDistanceUnit } from '../src/utils/conversion';
+import { ChallengeType } from '../src/types';
+
+const ACCENT = '#2563EB';
+
+const TYPES: { key: ChallengeType; label: string }[] = [
+    { key: 'most_steps', label: 'Most Steps' },
+    { key: 'first_to_distance', label: 'Race to a Distance' },
+];
+
+const START_OPTIONS = [
+    { offset: 0, label: 'Today' },
+    { offset: 1, label: 'Tomorrow' },
+];
+
+const DAY_OPTIONS = [3, 7, 14, 30];
+const GOAL_OPTIONS = [10, 25, 50, 100]; // In the user's distance unit
+
+export default function NewChallengeScreen() {
+    const router = useRouter();
+    const params = useLocalSearchParams<{ organization?: string }>();
+    const theme = useTheme();
+    const { showToast } = useToast();
+    const { preferences } = usePreferences();
+    const { friends } = useFriends();
+    const { createChallenge } = useChallenges();
+    const { organization, isAdmin } = useOrganization();
+
+    // Admins opening the form from their organization post it to every member instead of inviting friends
+    const forOrganization = params.organization === '1' && !!organization && isAdmin;
+
+    const unit = preferences.distanceUnit;
+    const [type, setType] = useState<ChallengeType>('most_steps');
+    const [startOffset, setStartOffset] = useState(0);
+    const [days, setDays] = useState(7);
+    const [goal, setGoal] = useState(GOAL_OPTIONS[1]);
+    const [name, setName] = useState('');
+    const [stake, setStake] = useState('');
+    const [invitedIds, setInvitedIds] = useState<string[]>([]);
+    const [saving, setSaving] = useState(false);
+
+    const goalDistanceMeters = type === 'first_to_distance' ? distanceToMeters(goal, unit) : undefined;
+    const defaultName = ChallengeStandingsService.getDefaultName(type, days, goalDistanceMeters, unit);
+
+    const toggleFriend = (userId: string) => {
+        setInvitedIds(prev => prev.includes(userId) ? prev.filter(id => id !== userId) : [...prev, userId]);
+    };
+
+    const handleCreate = async () => {
+        setSaving(true);
+        try {
+            const challenge = await createChallenge({
+                type,
+                name: name.trim() || defaultName,
+                startDate: addDays(toLocalDateKey(), startOffset),
+                days,
+                goalDistanceMeters,
+                stake,
+                invitedIds: forOrganization ? [] : invitedIds,
+                ...(forOrganization ? { organization: { id: organization!.id, name: organization!.name } } : {})
+            });
+            showToast(
+                forOrganization
+                    ? `Challenge posted to ${organization!.name}`
+                    : `Challenge sent to ${invitedIds.length} ${invitedIds.length === 1 ? 'friend' : 'friends'}`,
+                'success'
+            );
+            router.replace(`/challenge/${challenge.id}`);
+        } catch (error: any) {
+            Alert.alert('Could Not Create Challenge', error.message || 'Please try again.');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const renderChips = <T extends string | number>(options: { key: T; label: string }[], selected: T, onSelect: (key: T) => void) => (
+        <View style={styles.chipRow}>
+            {options.map(option => {
+                const active = option.key === selected;
+                return (
+                    <TouchableOpacity
+                        key={String(option.key)}
+                        style={[
+                            styles.chip,
+                            { borderColor: active ? ACCENT : theme.border, backgroundColor: active ? ACCENT : theme.backgroundTertiary }
+                        ]}
+                        onPress={() => onSelect(option.key)}
+                    >
+                        <Text style={[styles.chipText, { color: active ? 'white' : theme.text }]}>{option.label}</Text>
+                    </TouchableOpacity>
+                );
+            })}
+        </View>
+    );
+
+    return (
+        <KeyboardAvoidingView
+            style={[styles.container, { backgroundColor: theme.background }]}
+            behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        >
+            {/* Header */}
+            <View style={[styles.header, { backgroundColor: theme.card, borderBottomColor: theme.border }]}>
+                <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+                    <ChevronLeft size={24} color={theme.text} />
+                </TouchableOpacity>
+                <Text style={[styles.headerTitle, { color: theme.text }]}>New Challenge</Text>
+                <View style={{ width: 24 }} />
+            </View>
+
+            <ScrollView style={styles.content} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+                {/* Rules */}
+                <View style={[styles.formSection, { backgroundColor: theme.card }]}>
+                    <View style={styles.inputGroup}>
+                        <Text style={[styles.label, { color: theme.text }]}>Challenge</Text>
+                        {renderChips(TYPES, type, setType)}
+                    </View>
+
+                    {type === 'first_to_distance' && (
+                        <View style={styles.inputGroup}>
+                            <Text style={[styles.label, { color: theme.text }]}>Goal</Text>
+                            {renderChips(GOAL_OPTIONS.map(value => ({ key: value, label: `${value} ${getDistanceUnit(unit)}` })), goal, setGoal)}
+                        </View>
+                    )}
+
+                    <View style={styles.inputGroup}>
+                        <Text style={[styles.label, { color: theme.text }]}>Starts</Text>
+                        {renderChips(START_OPTIONS.map(o => ({ key: o.offset, label: o.label })), startOffset, setStartOffset)}
+                    </View>
+
+                    <View style={styles.inputGroup}>
+                        <Text style={[styles.label, { color: theme.text }]}>{type === 'first_to_distance' ? 'Time Limit' : 'Length'}</Text>
+                        {renderChips(DAY_OPTIONS.map(value => ({ key: value, label: `${value} days` })), days, setDays)}
+                    </View>
+
+                    <View style={styles.inputGroup}>
+                        <Text style={[styles.label, { color: theme.text }]}>Name</Text>
+                        <TextInput
+                            style={[styles.input, { color: theme.text, backgroundColor: theme.backgroundTertiary, borderColor: theme.border }]}
+                            value={name}
+                            onChangeText={setName}
+                            placeholder={defaultName}
+                            placeholderTextColor={theme.textTertiary}
+                            maxLength={60}
+                        />
+                    </View>
+
+                    <View style={[styles.inputGroup, styles.lastInputGroup]}>
+                        <Text style={[styles.label, { color: theme.text }]}>Stakes (optional)</Text>
+                        <TextInput
+                            style={[styles.input, { color: theme.text, backgroundColor: theme.backgroundTertiary, borderColor: theme.border }]}
+                            value={stake}
+                            onChangeText={setStake}
+                            placeholder="e.g. Loser buys coffee"
+                            placeholderTextColor={theme.textTertiary}
+                            maxLength={80}
+                        />
+                    </View>
+                </View>
+
+                {/* Participants */}
+                {forOrganization ? (
+                    <View style={[styles.formSection, { backgroundColor: theme.card }]}>
+                        <View style={styles.friendRow}>
+                            <Building2 size={22} color={ACCENT} />
+                            <Text style={[styles.friendName, { color: theme.text }]}>Open to everyone in {organization!.name}</Text>
+                        </View>
+                        <Text style={[styles.sectionSubtitle, { color: theme.textSecondary }]}>
+                            Members join from Workplace Wellness. Each day counts in each person's own timezone.
+                        </Text>
+                    </View>
+                ) : (
+                    <View style={[styles.formSection, { backgroundColor: theme.card }]}>
+                        <Text style={[styles.sectionTitle, { color: theme.text }]}>Invite Friends</Text>
+                        <Text style={[styles.sectionSubtitle, { color: theme.textSecondary }]}>
+                            Up to {MAX_CHALLENGE_PARTICIPANTS - 1}. Each day counts in each person's own timezone.
+                        </Text>
+
+                        {friends.length === 0 ? (
+                            <TouchableOpacity style={styles.emptyAction} onPress={() => router.push('/friends')}>
+                                <UserPlus size={18} color={ACCENT} />
+                                <Text style={styles.emptyActionText}>Add friends to challenge them</Text>
+                            </TouchableOpacity>
+                        ) : (
+                            friends.map(({ profile }) => {
+                                const selected = invitedIds.includes(profile.userId);
+                                return (
+                                    <TouchableOpacity key={profile.userId} style={styles.friendRow} onPress={() => toggleFriend(profile.userId)}>
+                                        <View style={[styles.avatar, { backgroundColor: theme.backgroundTertiary }]}>
+                                            {profile.profileImage ? (
+                                                <Image source={{ uri: profile.profileImage }} style={styles.avatarImage} />
+                                            ) : (
+                                                <Text style={[styles.avatarInitial, { color: theme.text }]}>{profile.name.charAt(0).toUpperCase()}</Text>
+                                            )}
+                                        </View>
+                                        <Text style={[styles.friendName, { color: theme.text }]} numberOfLines={1}>{profile.name}</Text>
+                                        <View style={[styles.checkbox, { borderColor: selected ? ACCENT : theme.border, backgroundColor: selected ? ACCENT : 'transparent' }]}>
+                                            {selected && <Check size={16} color="white" />}
+                                        </View>
+                                    </TouchableOpacity>
+                                );
+                            })
+                        )}
+                    </View>
+                )}
+
+                <View style={{ height: 40 }} />
+            </ScrollView>
+
+            {/* Create Button */}
+            <View style={[styles.footer, { backgroundColor: theme.card, borderTopColor: theme.border }]}>
+                <TouchableOpacity
+                    style={[styles.saveButton, { opacity: saving || (!forOrganization && invitedIds.length === 0) ? 0.6 : 1 }]}
+                    onPress={handleCreate}
+                    disabled={saving || (!forOrganization && invitedIds.length === 0)}
+                >
+                    <Text style={styles.saveButtonText}>{forOrganization ? 'Post Challenge' : 'Send Challenge'}</Text>
+                </TouchableOpacity>
+            </View>
+        </KeyboardAvoidingView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#F9FAFB',
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: 20,
+        paddingTop: 60,
+        paddingBottom: 20,
+        backgroundColor: 'white',
+        borderBottomWidth: 1,
+        borderBottomColor: '#E5E7EB',
+    },
+    backButton: {
+        padding: 4,
+    },
+    headerTitle: {
+        fontSize: 20,
+        fontWeight: 'bold',
+        color: '#111827',
+    },
+    content: {
+        flex: 1,
+    },
+    formSection: {
+        backgroundColor: 'white',
+        paddingHorizontal: 20,
+        paddingVertical: 24,
+        marginBottom: 16,
+    },
+    sectionTitle: {
+        fontSize: 18,
+        fontWeight: 'bold',
+        marginBottom: 4,
+    },
+    sectionSubtitle: {
+        fontSize: 14,
+        marginBottom: 16,
+    },
+    inputGroup: {
+        marginBottom: 24,
+    },
+    lastInputGroup: {
+        marginBottom: 0,
+    },
+    label: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#374151',
+        marginBottom: 8,
+    },
+    input: {
+        fontSize: 16,
+        color: '#111827',
+        backgroundColor: '#F9FAFB',
+        borderRadius: 12,
+        paddingHorizontal: 16,
+        paddingVertical: 12,
+        borderWidth: 1,
+        borderColor: '#E5E7EB',
+    },
+    chipRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+    },
+    chip: {
+        paddingHorizontal: 14,
+        paddingVertical: 8,
+        borderRadius: 20,
+        borderWidth: 1,
+    },
+    chipText: {
+        fontSize: 14,
+        fontWeight: '600',
+    },
+    friendRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        paddingVertical: 8,
+    },
+    avatar: {
+        width: 36,
+        height: 36,
+        borderRadius: 18,
+        alignItems: 'center',
+        justifyContent: 'center',
+        overflow: 'hidden',
+    },
+    avatarImage: {
+        width: '100%',
+        height: '100%',
+    },
+    avatarInitial: {
+        fontSize: 16,
+        fontWeight: 'bold',
+    },
+    friendName: {
+        flex: 1,
+        fontSize: 16,
+        fontWeight: '600',
+    },
+    checkbox: {
+        width: 24,
+        height: 24,
+        borderRadius: 6,
+        borderWidth: 2,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    emptyAction: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 8,
+        paddingVertical: 8,
+    },
+    emptyActionText: {
+        fontSize: 15,
+        fontWeight: '600',
+        color: ACCENT,
+    },
+    footer: {
+        padding: 20,
+        backgroundColor: 'white',
+        borderTopWidth: 1,
+        borderTopColor: '#E5E7EB',
+    },
+    saveButton: {
+        backgroundColor: ACCENT,
+        paddingVertical: 16,
+        borderRadius: 12,
+        alignItems: 'center',
+    },
+    saveButtonText: {
+        color: 'white',
+        fontSize: 16,
+        fontWeight: 'bold',
+    },
+});
@@ -0,0 +1,451 @@
+/**
+ * File: app/organization-admin.tsx
+ * Purpose: Organization admin tools: join code, teams, member roles and team assignment,
+ * organization challenges and the aggregate report export.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert, RefreshControl, TextInput, Share } from 'react-native';
+import { useRouter } from 'expo-router';
+import { useState } from 'react';
+import { ChevronLeft, Share2, Plus, Trash2, ShieldCheck, UserMinus, Download, Swords } from 'lucide-react-native';
+import { useTheme, usePreferences } from '../src/context/PreferencesContext';
+import { useOrganization } from '../src/context/OrganizationContext';
+import { useAuth } from '../src/context/AuthContext';
+import { useToast } from '../src/context/ToastContext';
+import { FriendSharingService } from '../src/services/FriendSharingService';
+import { MIN_REPORT_GROUP_SIZE } from '../src/services/OrganizationStatsService';
+import { ShareService } from '../src/services/ShareService';
+import { LeaderboardPeriod, OrgMember, OrgTeam } from '../src/types';
+
+const ACCENT = '#2563EB';
+
+const PERIODS: { key: LeaderboardPeriod; label: string }[] = [
+    { key: 'week', label: 'This Week' },
+    { key: 'month', label: 'This Month' },
+];
+
+export default function OrganizationAdminScreen() {
+    const router = useRouter();
+    const theme = useTheme();
+    const { preferences } = usePreferences();
+    const { user } = useAuth();
+    const { showToast } = useToast();
+    const {
+        organization, teams, members, isAdmin, isLoading, refresh,
+        createTeam, deleteTeam, assignTeam, setAdmin, removeMember, buildReport
+    } = useOrganization();
+
+    const [teamName, setTeamName] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [reportPeriod, setReportPeriod] = useState<LeaderboardPeriod>('month');
+    const [exporting, setExporting] = useState(false);
+
+    const handleRefresh = async () => {
+        try {
+            await refresh();
+        } catch (error: any) {
+            Alert.alert('Could Not Refresh', error.message);
+        }
+    };
+
+    if (!organization || !isAdmin) {
+        return (
+            <View style={[styles.container, styles.centered, { backgroundColor: theme.background }]}>
+                <Text style={[styles.footnote, { color: theme.textSecondary }]}>Only organization admins can see this page</Text>
+                <TouchableOpacity onPress={() => router.back()}>
+                    <Text style={styles.linkText}>Go Back</Text>
+                </TouchableOpacity>
+            </View>
+        );
+    }
+
+    const run = async (action: () => Promise<void>, failureTitle: string) => {
+        try {
+            await action();
+        } catch (error: any) {
+            Alert.alert(failureTitle, error.message);
+        }
+    };
+
+    const handleShareCode = async () => {
+        await Share.share({
+            message: `Join ${organization.name} on Stridr! Open Workplace Wellness and enter the code ${FriendSharingService.formatInviteCode(organization.joinCode)}`
+        });
+    };
+
+    const handleAddTeam = async () => {
+        setSaving(true);
+        await run(async () => {
+            await createTeam(teamName);
+            setTeamName('');
+        }, 'Could Not Add Team');
+        setSaving(false);
+    };
+
+    const handleDeleteTeam = (team: OrgTeam) => {
+        Alert.alert(
+            `Delete ${team.name}?`,
+            'Its members stay in the organization without a team.',
+            [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Delete', style: 'destructive', onPress: () => run(() => deleteTeam(team.id), 'Could Not Delete Team') }
+            ]
+        );
+    };
+
+    const handleToggleAdmin = (member: OrgMember) => {
+        const memberIsAdmin = organization.adminIds.includes(member.userId);
+        Alert.alert(
+            memberIsAdmin ? `Remove ${member.name} as admin?` : `Make ${member.name} an admin?`,
+            memberIsAdmin ? undefined : 'Admins can manage teams and members, post challenges and export reports.',
+            [
+                { text: 'Cancel', style: 'cancel' },
+                { text: memberIsAdmin ? 'Remove' : 'Make Admin', onPress: () => run(() => setAdmin(member.userId, !memberIsAdmin), 'Could Not Update Admins') }
+            ]
+        );
+    };
+
+    const handleRemoveMember = (member: OrgMember) => {
+        Alert.alert(
+            `Remove ${member.name}?`,
+            'They can rejoin later with the join code.',
+            [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Remove', style: 'destructive', onPress: () => run(() => removeMember(member.userId), 'Could Not Remove Member') }
+            ]
+        );
+    };
+
+    const handleExport = async () => {
+        setExporting(true);
+        try {
+            const file = buildReport(reportPeriod, preferences.distanceUnit);
+            await ShareService.shareTextFile(file.filename, file.content, file.mimeType, 'Export Organization Report');
+            showToast('Report ready to share', 'success');
+        } catch (error: any) {
+            console.error('Error exporting organization report:', error);
+            Alert.alert('Export Failed', error.message || 'Could not export the report. Please try again.');
+        } finally {
+            setExporting(false);
+        }
+    };
+
+    const renderTeamChips = (member: OrgMember) => (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {[{ id: null, name: 'No team' }, ...teams].map(team => {
+                const active = member.teamId === team.id || (!team.id && !teams.some(t => t.id === member.teamId));
+                return (
+                    <TouchableOpacity
+                        key={team.id ?? 'none'}
+                        style={[
+                            styles.chip,
+                            { borderColor: active ? ACCENT : theme.border, backgroundColor: active ? ACCENT : theme.backgroundTertiary }
+                        ]}
+                        onPress={() => !active && run(() => assignTeam(member.userId, team.id), 'Could Not Change Team')}
+                    >
+                        <Text style={[styles.chipText, { color: active ? 'white' : theme.text }]}>{team.name}</Text>
+                    </TouchableOpacity>
+                );
+            })}
+        </ScrollView>
+    );
+
+    const renderMember = (member: OrgMember) => {
+        const isSelf = member.userId === user?.id;
+        const memberIsAdmin = organization.adminIds.includes(member.userId);
+        return (
+            <View key={member.userId} style={[styles.memberRow, { borderBottomColor: theme.border }]}>
+                <View style={styles.titleRow}>
+                    <View style={styles.flex}>
+                        <Text style={[styles.name, { color: theme.text }]} numberOfLines={1}>
+                            {isSelf ? `${member.name} (you)` : member.name}
+                        </Text>
+                        {memberIsAdmin && <Text style={[styles.footnote, { color: ACCENT }]}>Admin</Text>}
+                    </View>
+                    <TouchableOpacity onPress={() => handleToggleAdmin(member)} accessibilityLabel={memberIsAdmin ? 'Remove admin' : 'Make admin'}>
+                        <ShieldCheck size={20} color={memberIsAdmin ? ACCENT : theme.textTertiary} />
+                    </TouchableOpacity>
+                    {!isSelf && (
+                        <TouchableOpacity onPress={() => handleRemoveMember(member)} accessibilityLabel="Remove member">
+                            <UserMinus size={20} color="#EF4444" />
+                        </TouchableOpacity>
+                    )}
+                </View>
+                {renderTeamChips(member)}
+            </View>
+        );
+    };
+
+    return (
+        <View style={[styles.container, { backgroundColor: theme.background }]}>
+            {/* Header */}
+            <View style={[styles.header, { backgroundColor: theme.card, borderBottomColor: theme.border }]}>
+                <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+                    <ChevronLeft size={24} color={theme.text} />
+                </TouchableOpacity>
+                <Text style={[styles.headerTitle, { color: theme.text }]} numberOfLines={1}>Manage {organization.name}</Text>
+                <View style={{ width: 24 }} />
+            </View>
+
+            <ScrollView
+                style={styles.content}
+                showsVerticalScrollIndicator={false}
+                keyboardShouldPersistTaps="handled"
+                refreshControl={<RefreshControl refreshing={isLoading} onRefresh={handleRefresh} />}
+            >
+                {/* Join code */}
+                <View style={[styles.section, { backgroundColor: theme.card }]}>
+                    <Text style={[styles.sectionTitle, { color: theme.text }]}>Join Code</Text>
+                    <View style={styles.titleRow}>
+                        <Text style={[styles.code, { color: theme.text }]}>{FriendSharingService.formatInviteCode(organization.joinCode)}</Text>
+                        <TouchableOpacity onPress={handleShareCode} style={styles.shareButton}>
+                            <Share2 size={18} color={ACCENT} />
+                            <Text style={styles.linkText}>Share</Text>
+                        </TouchableOpacity>
+                    </View>
+                    <Text style={[styles.footnote, { color: theme.textSecondary }]}>
+                        Anyone with this code can join. New members start without a team.
+                    </Text>
+                </View>
+
+                {/* Teams */}
+                <View style={[styles.section, { backgroundColor: theme.card }]}>
+                    <Text style={[styles.sectionTitle, { color: theme.text }]}>Teams</Text>
+                    <View style={styles.inputRow}>
+                        <TextInput
+                            style={[styles.input, { color: theme.text, backgroundColor: theme.backgroundTertiary, borderColor: theme.border }]}
+                            value={teamName}
+                            onChangeText={setTeamName}
+                            placeholder="New team name"
+                            placeholderTextColor={theme.textTertiary}
+                            maxLength={60}
+                            onSubmitEditing={handleAddTeam}
+                        />
+                        <TouchableOpacity
+                            style={[styles.inputButton, { opacity: saving || !teamName.trim() ? 0.5 : 1 }]}
+                            onPress={handleAddTeam}
+                            disabled={saving || !teamName.trim()}
+                            accessibilityLabel="Add team"
+                        >
+                            <Plus size={20} color="white" />
+                        </TouchableOpacity>
+                    </View>
+                    {teams.map(team => {
+                        const count = members.filter(m => m.teamId === team.id).length;
+                        return (
+                            <View key={team.id} style={styles.titleRow}>
+                                <View style={styles.flex}>
+                                    <Text style={[styles.name, { color: theme.text }]} numberOfLines={1}>{team.name}</Text>
+                                    <Text style={[styles.footnote, { color: theme.textSecondary }]}>
+                                        {count} {count === 1 ? 'member' : 'members'}
+                                    </Text>
+                                </View>
+                                <TouchableOpacity onPress={() => handleDeleteTeam(team)} accessibilityLabel={`Delete ${team.name}`}>
+                                    <Trash2 size={20} color={theme.textTertiary} />
+                                </TouchableOpacity>
+                            </View>
+                        );
+                    })}
+                </View>
+
+                {/* Members */}
+                <View style={[styles.section, { backgroundColor: theme.card }]}>
+                    <Text style={[styles.sectionTitle, { color: theme.text }]}>Members ({members.length})</Text>
+                    {members.map(renderMember)}
+                </View>
+
+                {/* Challenges */}
+                <TouchableOpacity
+                    style={[styles.section, styles.titleRow, { backgroundColor: theme.card }]}
+                    onPress={() => router.push({ pathname: '/new-challenge', params: { organization: '1' } })}
+                    activeOpacity={0.8}
+                >
+                    <Swords size={22} color="#EF4444" />
+                    <View style={styles.flex}>
+                        <Text style={[styles.name, { color: theme.text }]}>Post a Challenge</Text>
+                        <Text style={[styles.footnote, { color: theme.textSecondary }]}>Everyone in the organization can join</Text>
+                    </View>
+                </TouchableOpacity>
+
+                {/* Report */}
+                <View style={[styles.section, { backgroundColor: theme.card }]}>
+                    <Text style={[styles.sectionTitle, { color: theme.text }]}>Wellness Report</Text>
+                    <Text style={[styles.footnote, { color: theme.textSecondary }]}>
+                        A CSV of participation, steps and distance for the organization and each team. It contains no
+                        individual figures: teams with fewer than {MIN_REPORT_GROUP_SIZE} members are combined.
+                    </Text>
+                    <View style={[styles.toggle, { backgroundColor: theme.backgroundTertiary }]}>
+                        {PERIODS.map(option => {
+                            const active = option.key === reportPeriod;
+                            return (
+                                <TouchableOpacity
+                                    key={option.key}
+                                    style={[styles.toggleOption, active && { backgroundColor: theme.card }]}
+                                    onPress={() => setReportPeriod(option.key)}
+                                >
+                                    <Text style={[styles.toggleText, { color: active ? theme.text : theme.textSecondary }]}>{option.label}</Text>
+                                </TouchableOpacity>
+                            );
+                        })}
+                    </View>
+                    <TouchableOpacity
+                        style={[styles.exportButton, { opacity: exporting ? 0.6 : 1 }]}
+                        onPress={handleExport}
+                        disabled={exporting}
+                    >
+                        <Download size={18} color="white" />
+                        <Text style={styles.exportButtonText}>Export Report</Text>
+                    </TouchableOpacity>
+                </View>
+
+                <View style={{ height: 40 }} />
+            </ScrollView>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#F9FAFB',
+    },
+    centered: {
+        justifyContent: 'center',
+        alignItems: 'center',
+        gap: 12,
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: 20,
+        paddingTop: 60,
+        paddingBottom: 20,
+        backgroundColor: 'white',
+        borderBottomWidth: 1,
+        borderBottomColor: '#E5E7EB',
+    },
+    backButton: {
+        padding: 4,
+    },
+    headerTitle: {
+        flex: 1,
+        textAlign: 'center',
+        fontSize: 20,
+        fontWeight: 'bold',
+        color: '#111827',
+    },
+    content: {
+        flex: 1,
+    },
+    section: {
+        backgroundColor: 'white',
+        paddingHorizontal: 20,
+        paddingVertical: 20,
+        marginBottom: 16,
+        gap: 12,
+    },
+    sectionTitle: {
+        fontSize: 18,
+        fontWeight: 'bold',
+    },
+    titleRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 16,
+    },
+    flex: {
+        flex: 1,
+    },
+    code: {
+        flex: 1,
+        fontSize: 24,
+        fontWeight: 'bold',
+        letterSpacing: 2,
+    },
+    shareButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+    },
+    inputRow: {
+        flexDirection: 'row',
+        gap: 8,
+    },
+    input: {
+        flex: 1,
+        fontSize: 16,
+        borderRadius: 12,
+        paddingHorizontal: 16,
+        paddingVertical: 12,
+        borderWidth: 1,
+    },
+    inputButton: {
+        width: 48,
+        borderRadius: 12,
+        backgroundColor: ACCENT,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    memberRow: {
+        gap: 8,
+        paddingBottom: 12,
+        borderBottomWidth: 1,
+    },
+    name: {
+        fontSize: 16,
+        fontWeight: '600',
+    },
+    chipRow: {
+        gap: 8,
+    },
+    chip: {
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 16,
+        borderWidth: 1,
+    },
+    chipText: {
+        fontSize: 13,
+        fontWeight: '600',
+    },
+    toggle: {
+        flexDirection: 'row',
+        borderRadius: 10,
+        padding: 4,
+    },
+    toggleOption: {
+        flex: 1,
+        alignItems: 'center',
+        paddingVertical: 8,
+        borderRadius: 8,
+    },
+    toggleText: {
+        fontSize: 14,
+        fontWeight: '600',
+    },
+    exportButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 8,
+        backgroundColor: ACCENT,
+        paddingVertical: 14,
+        borderRadius: 12,
+    },
+    exportButtonText: {
+        color: 'white',
+        fontSize: 16,
+        fontWeight: '600',
+    },
+    footnote: {
+        fontSize: 13,
+        lineHeight: 18,
+    },
+    linkText: {
+        fontSize: 15,
+        fontWeight: '600',
+        color: ACCENT,
+    },
+});
@@ -0,0 +1,530 @@
+/**
+ * File: app/organization.tsx
+ * Purpose: Workplace wellness screen: join or start an organization, then see team standings,
+ * organization totals and challenges posted by admins.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert, RefreshControl, TextInput } from 'react-native';
+import { useRouter } from 'expo-router';
+import { useMemo, useState } from 'react';
+import { ChevronLeft, Building2, LogIn, Plus, Trophy, Settings, LogOut, Swords } from 'lucide-react-native';
+import { useTheme, usePreferences } from '../src/context/PreferencesContext';
+import { useOrganization } from '../src/context/OrganizationContext';
+import { useChallenges } from '../src/context/ChallengesContext';
+import { useAuth } from '../src/context/AuthContext';
+import { useToast } from '../src/context/ToastContext';
+import { ChallengeStandingsService } from '../src/services/ChallengeStandingsService';
+import { formatDistance } from '../src/utils/conversion';
+import { formatDateKey, toLocalDateKey } from '../src/utils/date';
+import { Challenge, LeaderboardPeriod, TeamRanking, TeamStanding } from '../src/types';
+
+const ACCENT = '#2563EB';
+const MEDAL_COLORS = ['#F59E0B', '#9CA3AF', '#B45309'];
+
+const PERIODS: { key: LeaderboardPeriod; label: string }[] = [
+    { key: 'week', label: 'This Week' },
+    { key: 'month', label: 'This Month' },
+];
+
+const RANKINGS: { key: TeamRanking; label: string }[] = [
+    { key: 'average', label: 'Per Member' },
+    { key: 'total', label: 'Total' },
+];
+
+export default function OrganizationScreen() {
+    const router = useRouter();
+    const theme = useTheme();
+    const { preferences } = usePreferences();
+    const { user } = useAuth();
+    const { showToast } = useToast();
+    const { joinChallenge } = useChallenges();
+    const {
+        organization, challenges, myTeam, isAdmin, isLoading,
+        refresh, createOrganization, joinOrganization, leaveOrganization, getTeamStandings, getOrganizationTotals
+    } = useOrganization();
+
+    const [code, setCode] = useState('');
+    const [name, setName] = useState('');
+    const [busy, setBusy] = useState(false);
+    const [joiningId, setJoiningId] = useState<string | null>(null);
+    const [period, setPeriod] = useState<LeaderboardPeriod>('week');
+    const [ranking, setRanking] = useState<TeamRanking>('average');
+
+    const standings = useMemo(() => getTeamStandings(period, ranking), [getTeamStandings, period, ranking]);
+    const totals = useMemo(() => getOrganizationTotals(period), [getOrganizationTotals, period]);
+    const today = toLocalDateKey();
+    const openChallenges = challenges.filter(c => !c.winnerIds && c.endDate >= today);
+
+    const handleRefresh = async () => {
+        try {
+            await refresh();
+        } catch (error: any) {
+            Alert.alert('Could Not Refresh', error.message);
+        }
+    };
+
+    const handleJoin = async () => {
+        if (!code.trim()) return;
+        setBusy(true);
+        try {
+            const joined = await joinOrganization(code);
+            setCode('');
+            showToast(`Joined ${joined.name}`, 'success');
+        } catch (error: any) {
+            Alert.alert('Could Not Join Organization', error.message);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleCreate = async () => {
+        setBusy(true);
+        try {
+            const created = await createOrganization(name);
+            setName('');
+            showToast(`${created.name} created`, 'success');
+            router.push('/organization-admin');
+        } catch (error: any) {
+            Alert.alert('Could Not Create Organization', error.message);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleLeave = () => {
+        Alert.alert(
+            'Leave Organization?',
+            'Your totals will no longer count toward your team. You can rejoin with the join code.',
+            [
+                { text: 'Stay', style: 'cancel' },
+                {
+                    text: 'Leave',
+                    style: 'destructive',
+                    onPress: async () => {
+                        try {
+                            await leaveOrganization();
+                        } catch (error: any) {
+                            Alert.alert('Could Not Leave Organization', error.message);
+                        }
+                    }
+                }
+            ]
+        );
+    };
+
+    const handleJoinChallenge = async (challenge: Challenge) => {
+        setJoiningId(challenge.id);
+        try {
+            await joinChallenge(challenge);
+            showToast(`Joined ${challenge.name}`, 'success');
+            router.push(`/challenge/${challenge.id}`);
+        } catch (error: any) {
+            Alert.alert('Could Not Join Challenge', error.message);
+        } finally {
+            setJoiningId(null);
+        }
+    };
+
+    const renderToggle = <T extends string>(options: { key: T; label: string }[], selected: T, onSelect: (key: T) => void) => (
+        <View style={[styles.toggle, { backgroundColor: theme.backgroundTertiary }]}>
+            {options.map(option => {
+                const active = option.key === selected;
+                return (
+                    <TouchableOpacity
+                        key={option.key}
+                        style={[styles.toggleOption, active && { backgroundColor: theme.card }]}
+                        onPress={() => onSelect(option.key)}
+                    >
+                        <Text style={[styles.toggleText, { color: active ? theme.text : theme.textSecondary }]}>{option.label}</Text>
+                    </TouchableOpacity>
+                );
+            })}
+        </View>
+    );
+
+    const renderStat = (label: string, value: string) => (
+        <View key={label} style={[styles.stat, { backgroundColor: theme.backgroundTertiary }]}>
+            <Text style={[styles.statValue, { color: theme.text }]}>{value}</Text>
+            <Text style={[styles.statLabel, { color: theme.textSecondary }]}>{label}</Text>
+        </View>
+    );
+
+    const renderStanding = (row: TeamStanding) => {
+        const value = ranking === 'average' ? row.averageSteps : row.steps;
+        return (
+            <View
+                key={row.teamId}
+                style={[styles.row, row.isCurrentTeam && { backgroundColor: theme.backgroundTertiary, borderColor: ACCENT }]}
+            >
+                <View style={styles.rankCell}>
+                    {row.rank <= MEDAL_COLORS.length && value > 0 ? (
+                        <Trophy size={20} color={MEDAL_COLORS[row.rank - 1]} />
+                    ) : (
+                        <Text style={[styles.rankText, { color: theme.textSecondary }]}>{row.rank}</Text>
+                    )}
+                </View>
+                <View style={styles.nameCell}>
+                    <Text style={[styles.name, { color: theme.text }]} numberOfLines={1}>{row.name}</Text>
+                    <Text style={[styles.footnote, { color: theme.textSecondary }]}>
+                        {row.activeMembers} of {row.memberCount} active · {formatDistance(row.distanceMeters, preferences.distanceUnit)}
+                    </Text>
+                </View>
+                <Text style={[styles.value, { color: theme.text }]}>
+                    {value.toLocaleString()}{ranking === 'average' ? ' / person' : ' steps'}
+                </Text>
+            </View>
+        );
+    };
+
+    const renderChallenge = (challenge: Challenge) => {
+        const joined = !!user && challenge.participantIds.includes(user.id);
+        return (
+            <TouchableOpacity
+                key={challenge.id}
+                style={styles.challengeRow}
+                onPress={() => joined ? router.push(`/challenge/${challenge.id}`) : handleJoinChallenge(challenge)}
+                disabled={joiningId === challenge.id}
+                activeOpacity={0.8}
+            >
+                <Swords size={20} color="#EF4444" />
+                <View style={styles.nameCell}>
+                    <Text style={[styles.name, { color: theme.text }]} numberOfLines={1}>{challenge.name}</Text>
+                    <Text style={[styles.footnote, { color: theme.textSecondary }]}>
+                        {ChallengeStandingsService.describe(challenge, preferences.distanceUnit)} · {challenge.participantIds.length} joined
+                    </Text>
+                </View>
+                <Text style={[styles.linkText, { opacity: joiningId === challenge.id ? 0.5 : 1 }]}>
+                    {joined ? 'View' : today < challenge.startDate ? `Join · ${formatDateKey(challenge.startDate)}` : 'Join'}
+                </Text>
+            </TouchableOpacity>
+        );
+    };
+
+    const renderNoOrganization = () => (
+        <>
+            <View style={[styles.section, { backgroundColor: theme.card }]}>
+                <Text style={[styles.sectionTitle, { color: theme.text }]}>Join Your Workplace</Text>
+                <Text style={[styles.sectionSubtitle, { color: theme.textSecondary }]}>
+                    Enter the join code from your wellness program admin. Your weekly and monthly totals only count toward team and organization totals; no one sees yours on their own.
+                </Text>
+                <View style={styles.inputRow}>
+                    <TextInput
+                        style={[styles.input, { color: theme.text, backgroundColor: theme.backgroundTertiary, borderColor: theme.border }]}
+                        value={code}
+                        onChangeText={setCode}
+                        placeholder="Join code"
+                        placeholderTextColor={theme.textTertiary}
+                        autoCapitalize="characters"
+                        autoCorrect={false}
+                        onSubmitEditing={handleJoin}
+                    />
+                    <TouchableOpacity
+                        style={[styles.inputButton, { opacity: busy || !code.trim() ? 0.5 : 1 }]}
+                        onPress={handleJoin}
+                        disabled={busy || !code.trim()}
+                        accessibilityLabel="Join organization"
+                    >
+                        <LogIn size={20} color="white" />
+                    </TouchableOpacity>
+                </View>
+            </View>
+
+            <View style={[styles.section, { backgroundColor: theme.card }]}>
+                <Text style={[styles.sectionTitle, { color: theme.text }]}>Start a Wellness Program</Text>
+                <Text style={[styles.sectionSubtitle, { color: theme.textSecondary }]}>
+                    Create an organization, set up teams and share the join code with your colleagues.
+                </Text>
+                <View style={styles.inputRow}>
+                    <TextInput
+                        style={[styles.input, { color: theme.text, backgroundColor: theme.backgroundTertiary, borderColor: theme.border }]}
+                        value={name}
+                        onChangeText={setName}
+                        placeholder="Organization name"
+                        placeholderTextColor={theme.textTertiary}
+                        maxLength={60}
+                        onSubmitEditing={handleCreate}
+                    />
+                    <TouchableOpacity
+                        style={[styles.inputButton, { opacity: busy || !name.trim() ? 0.5 : 1 }]}
+                        onPress={handleCreate}
+                        disabled={busy || !name.trim()}
+                        accessibilityLabel="Create organization"
+                    >
+                        <Plus size={20} color="white" />
+                    </TouchableOpacity>
+                </View>
+            </View>
+        </>
+    );
+
+    const renderOrganization = () => (
+        <>
+            {/* Membership */}
+            <View style={[styles.section, { backgroundColor: theme.card }]}>
+                <View style={styles.titleRow}>
+                    <Building2 size={24} color={ACCENT} />
+                    <Text style={[styles.orgName, { color: theme.text }]} numberOfLines={1}>{organization!.name}</Text>
+                    {isAdmin && (
+                        <TouchableOpacity onPress={() => router.push('/organization-admin')} accessibilityLabel="Manage organization">
+                            <Settings size={22} color={theme.textSecondary} />
+                        </TouchableOpacity>
+                    )}
+                </View>
+                <Text style={[styles.sectionSubtitle, { color: theme.textSecondary }]}>
+                    {myTeam ? `You are on ${myTeam.name}` : 'You are not on a team yet. An admin will add you to one.'}
+                    {isAdmin ? ' · Admin' : ''}
+                </Text>
+            </View>
+
+            {/* Organization totals */}
+            <View style={[styles.section, { backgroundColor: theme.card }]}>
+                {renderToggle(PERIODS, period, setPeriod)}
+                <View style={styles.statGrid}>
+                    {renderStat('Members', totals.memberCount.toLocaleString())}
+                    {renderStat('Active', totals.activeMembers.toLocaleString())}
+                    {renderStat('Total steps', totals.steps.toLocaleString())}
+                    {renderStat('Per member', totals.averageSteps.toLocaleString())}
+                </View>
+            </View>
+
+            {/* Team standings */}
+            <View style={[styles.section, { backgroundColor: theme.card }]}>
+                <Text style={[styles.sectionTitle, { color: theme.text }]}>Team Standings</Text>
+                {renderToggle(RANKINGS, ranking, setRanking)}
+                {standings.length === 0 ? (
+                    <Text style={[styles.footnote, { color: theme.textSecondary }]}>
+                        {isAdmin ? 'Add teams from the admin screen to start a team leaderboard.' : 'No teams yet.'}
+                    </Text>
+                ) : (
+                    standings.map(renderStanding)
+                )}
+            </View>
+
+            {/* Challenges */}
+            <View style={[styles.section, { backgroundColor: theme.card }]}>
+                <View style={styles.titleRow}>
+                    <Text style={[styles.sectionTitle, styles.flex, { color: theme.text }]}>Challenges</Text>
+                    {isAdmin && (
+                        <TouchableOpacity
+                            onPress={() => router.push({ pathname: '/new-challenge', params: { organization: '1' } })}
+                            accessibilityLabel="New organization challenge"
+                        >
+                            <Plus size={22} color={ACCENT} />
+                        </TouchableOpacity>
+                    )}
+                </View>
+                {openChallenges.length === 0 ? (
+                    <Text style={[styles.footnote, { color: theme.textSecondary }]}>
+                        {isAdmin ? 'Post a challenge that everyone in the organization can join.' : 'No open challenges right now.'}
+                    </Text>
+                ) : (
+                    openChallenges.map(renderChallenge)
+                )}
+            </View>
+
+            <Text style={[styles.footnote, styles.pageFootnote, { color: theme.textTertiary }]}>
+                Totals update when each member opens Stridr. Weeks start on Sunday.
+            </Text>
+
+            <TouchableOpacity style={styles.leaveButton} onPress={handleLeave}>
+                <LogOut size={20} color="#EF4444" />
+                <Text style={styles.leaveButtonText}>Leave Organization</Text>
+            </TouchableOpacity>
+        </>
+    );
+
+    return (
+        <View style={[styles.container, { backgroundColor: theme.background }]}>
+            {/* Header */}
+            <View style={[styles.header, { backgroundColor: theme.card, borderBottomColor: theme.border }]}>
+                <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+                    <ChevronLeft size={24} color={theme.text} />
+                </TouchableOpacity>
+                <Text style={[styles.headerTitle, { color: theme.text }]}>Workplace Wellness</Text>
+                <View style={{ width: 24 }} />
+            </View>
+
+            <ScrollView
+                style={styles.content}
+                showsVerticalScrollIndicator={false}
+                keyboardShouldPersistTaps="handled"
+                refreshControl={<RefreshControl refreshing={isLoading} onRefresh={handleRefresh} />}
+            >
+                {organization ? renderOrganization() : renderNoOrganization()}
+                <View style={{ height: 40 }} />
+            </ScrollView>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#F9FAFB',
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: 20,
+        paddingTop: 60,
+        paddingBottom: 20,
+        backgroundColor: 'white',
+        borderBottomWidth: 1,
+        borderBottomColor: '#E5E7EB',
+    },
+    backButton: {
+        padding: 4,
+    },
+    headerTitle: {
+        fontSize: 20,
+        fontWeight: 'bold',
+        color: '#111827',
+    },
+    content: {
+        flex: 1,
+    },
+    section: {
+        backgroundColor: 'white',
+        paddingHorizontal: 20,
+        paddingVertical: 20,
+        marginBottom: 16,
+        gap: 12,
+    },
+    sectionTitle: {
+        fontSize: 18,
+        fontWeight: 'bold',
+    },
+    sectionSubtitle: {
+        fontSize: 14,
+        lineHeight: 20,
+    },
+    titleRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+    },
+    flex: {
+        flex: 1,
+    },
+    orgName: {
+        flex: 1,
+        fontSize: 20,
+        fontWeight: 'bold',
+    },
+    inputRow: {
+        flexDirection: 'row',
+        gap: 8,
+    },
+    input: {
+        flex: 1,
+        fontSize: 16,
+        borderRadius: 12,
+        paddingHorizontal: 16,
+        paddingVertical: 12,
+        borderWidth: 1,
+    },
+    inputButton: {
+        width: 48,
+        borderRadius: 12,
+        backgroundColor: ACCENT,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    toggle: {
+        flexDirection: 'row',
+        borderRadius: 10,
+        padding: 4,
+    },
+    toggleOption: {
+        flex: 1,
+        alignItems: 'center',
+        paddingVertical: 8,
+        borderRadius: 8,
+    },
+    toggleText: {
+        fontSize: 14,
+        fontWeight: '600',
+    },
+    statGrid: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+    },
+    stat: {
+        flexBasis: '48%',
+        flexGrow: 1,
+        padding: 12,
+        borderRadius: 12,
+    },
+    statValue: {
+        fontSize: 20,
+        fontWeight: 'bold',
+    },
+    statLabel: {
+        fontSize: 13,
+        marginTop: 2,
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        paddingVertical: 10,
+        paddingHorizontal: 10,
+        borderRadius: 12,
+        borderWidth: 1,
+        borderColor: 'transparent',
+    },
+    rankCell: {
+        width: 28,
+        alignItems: 'center',
+    },
+    rankText: {
+        fontSize: 16,
+        fontWeight: 'bold',
+    },
+    nameCell: {
+        flex: 1,
+    },
+    name: {
+        fontSize: 16,
+        fontWeight: '600',
+    },
+    value: {
+        fontSize: 15,
+        fontWeight: '600',
+    },
+    challengeRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        paddingVertical: 6,
+    },
+    footnote: {
+        fontSize: 13,
+        lineHeight: 18,
+    },
+    pageFootnote: {
+        paddingHorizontal: 20,
+    },
+    linkText: {
+        fontSize: 15,
+        fontWeight: '600',
+        color: ACCENT,
+    },
+    leaveButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 8,
+        marginTop: 24,
+        marginHorizontal: 20,
+        paddingVertical: 14,
+    },
+    leaveButtonText: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#EF4444',
+    },
+});
@@ -0,0 +1,247 @@
+/**
+ * File: app/step-source.tsx
+ * Purpose: Settings screen for choosing where step counts are read from.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, ActivityIndicator, Platform } from 'react-native';
+import { useRouter } from 'expo-router';
+import { useEffect, useState } from 'react';
+import { ChevronLeft, Sparkles, Smartphone, HeartPulse, Check } from 'lucide-react-native';
+import { usePreferences, useTheme } from '../src/context/PreferencesContext';
+import { useGame } from '../src/context/GameContext';
+import { StepService } from '../src/services/StepService';
+import { STEP_SOURCE_NAMES } from '../src/services/StepSourceService';
+import { StepSourceId, StepSourcePreference } from '../src/types';
+
+const ACCENT = '#2563EB';
+
+interface SourceOption {
+    value: StepSourcePreference;
+    title: string;
+    description: string;
+    icon: React.ReactNode;
+}
+
+// The health platform this device can have; the other one is never offered
+const HEALTH_SOURCE: StepSourceId = Platform.OS === 'ios' ? 'healthkit' : 'healthconnect';
+
+const OPTIONS: SourceOption[] = [
+    {
+        value: 'auto',
+        title: 'Automatic',
+        description: `Reads ${STEP_SOURCE_NAMES[HEALTH_SOURCE]} and your phone, and keeps whichever counted more`,
+        icon: <Sparkles size={20} color="white" />
+    },
+    {
+        value: HEALTH_SOURCE,
+        title: STEP_SOURCE_NAMES[HEALTH_SOURCE],
+        description: 'Includes steps from your watch and other fitness apps',
+        icon: <HeartPulse size={20} color="white" />
+    },
+    {
+        value: 'pedometer',
+        title: STEP_SOURCE_NAMES.pedometer,
+        description: 'Only steps taken while carrying your phone',
+        icon: <Smartphone size={20} color="white" />
+    }
+];
+
+export default function StepSourceScreen() {
+    const router = useRouter();
+    const theme = useTheme();
+    const { preferences, setStepSource } = usePreferences();
+    const { sync } = useGame();
+    const [availableIds, setAvailableIds] = useState<StepSourceId[] | null>(null);
+    const [switching, setSwitching] = useState<StepSourcePreference | null>(null);
+    const [lastSourceId, setLastSourceId] = useState<StepSourceId | null>(StepService.getLastSourceId());
+
+    useEffect(() => {
+        StepService.getAvailableSourceIds().then(setAvailableIds);
+    }, []);
+
+    const isAvailable = (value: StepSourcePreference) =>
+        value === 'auto' || !availableIds || availableIds.includes(value);
+
+    const handleSelect = async (value: StepSourcePreference) => {
+        if (value === preferences.stepSource || switching) return;
+
+        setSwitching(value);
+        try {
+            setStepSource(value);
+            StepService.setSourcePreference(value);
+
+            const permitted = await StepService.requestPermissions();
+            if (!permitted) {
+                Alert.alert(
+                    'Permission Needed',
+                    `Stridr could not read your steps. Allow step access for Stridr in ${value === 'pedometer' ? 'your device settings' : STEP_SOURCE_NAMES[value === 'auto' ? HEALTH_SOURCE : value]} and try again.`
+                );
+            }
+
+            await sync();
+            setLastSourceId(StepService.getLastSourceId());
+        } catch (error) {
+            console.error('Error switching step source:', error);
+            Alert.alert('Error', 'Could not switch step source. Please try again.');
+        } finally {
+            setSwitching(null);
+        }
+    };
+
+    return (
+        <View style={[styles.container, { backgroundColor: theme.background }]}>
+            {/* Header */}
+            <View style={[styles.header, { backgroundColor: theme.card, borderBottomColor: theme.border }]}>
+                <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+                    <ChevronLeft size={24} color={theme.text} />
+                </TouchableOpacity>
+                <Text style={[styles.headerTitle, { color: theme.text }]}>Step Source</Text>
+                <View style={{ width: 24 }} />
+            </View>
+
+            <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+                <Text style={[styles.intro, { color: theme.textSecondary }]}>
+                    Choose where Stridr reads your steps from. Steps are never counted twice: when several sources saw the same walk, only one of them is used.
+                </Text>
+
+                <View style={styles.section}>
+                    <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>SOURCE</Text>
+                    <View style={[styles.card, { backgroundColor: theme.card }]}>
+                        {OPTIONS.map((option, index) => {
+                            const selected = option.value === preferences.stepSource;
+                            const available = isAvailable(option.value);
+                            return (
+                                <View key={option.value}>
+                                    {index > 0 && <View style={[styles.divider, { backgroundColor: theme.border }]} />}
+                                    <TouchableOpacity
+                                        style={[styles.row, !available && styles.rowDisabled]}
+                                        onPress={() => handleSelect(option.value)}
+                                        disabled={!available || !!switching}
+                                    >
+                                        <View style={styles.rowLeft}>
+                                            <View style={[styles.iconBox, { backgroundColor: selected ? ACCENT : theme.textTertiary }]}>
+                                                {option.icon}
+                                            </View>
+                                            <View style={styles.rowTextContainer}>
+                                                <Text style={[styles.rowTitle, { color: theme.text }]}>{option.title}</Text>
+                                                <Text style={[styles.rowSubtitle, { color: theme.textSecondary }]}>
+                                                    {available ? option.description : 'Not available on this device'}
+                                                </Text>
+                                            </View>
+                                        </View>
+                                        {switching === option.value ? (
+                                            <ActivityIndicator color={ACCENT} />
+                                        ) : selected ? (
+                                            <Check size={22} color={ACCENT} />
+                                        ) : null}
+                                    </TouchableOpacity>
+                                </View>
+                            );
+                        })}
+                    </View>
+                </View>
+
+                {lastSourceId && (
+                    <Text style={[styles.footnote, { color: theme.textTertiary }]}>
+                        Last sync read from {STEP_SOURCE_NAMES[lastSourceId]}.
+                    </Text>
+                )}
+
+                <View style={{ height: 40 }} />
+            </ScrollView>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: 16,
+        paddingTop: 60,
+        paddingBottom: 16,
+        borderBottomWidth: 1,
+    },
+    backButton: {
+        padding: 4,
+    },
+    headerTitle: {
+        fontSize: 18,
+        fontWeight: 'bold',
+    },
+    content: {
+        flex: 1,
+        padding: 20,
+    },
+    intro: {
+        fontSize: 14,
+        lineHeight: 20,
+        marginBottom: 24,
+    },
+    section: {
+        marginBottom: 16,
+    },
+    sectionTitle: {
+        fontSize: 13,
+        fontWeight: '600',
+        letterSpacing: 0.5,
+        marginBottom: 12,
+        marginLeft: 4,
+    },
+    card: {
+        borderRadius: 16,
+        overflow: 'hidden',
+        shadowColor: '#000',
+        shadowOpacity: 0.05,
+        shadowRadius: 8,
+        elevation: 2,
+    },
+    row: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        padding: 16,
+        minHeight: 72,
+    },
+    rowDisabled: {
+        opacity: 0.5,
+    },
+    rowLeft: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 16,
+        flex: 1,
+    },
+    rowTextContainer: {
+        flex: 1,
+        marginRight: 8,
+    },
+    rowTitle: {
+        fontSize: 16,
+        fontWeight: '500',
+    },
+    rowSubtitle: {
+        fontSize: 13,
+        marginTop: 2,
+    },
+    iconBox: {
+        width: 40,
+        height: 40,
+        borderRadius: 20,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    divider: {
+        height: 1,
+        marginHorizontal: 16,
+    },
+    footnote: {
+        fontSize: 13,
+        marginLeft: 4,
+    },
+});
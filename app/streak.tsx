@@ -0,0 +1,279 @@
+/**
+ * File: app/streak.tsx
+ * Purpose: Streak screen: current and longest streak, freeze tokens, the streak calendar and the streak rule setting.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import { useRouter } from 'expo-router';
+import { useEffect, useMemo, useState } from 'react';
+import { ChevronLeft, Flame, Trophy, Footprints, Target, Check } from 'lucide-react-native';
+import { usePreferences, useTheme } from '../src/context/PreferencesContext';
+import { useGame } from '../src/context/GameContext';
+import { useAuth } from '../src/context/AuthContext';
+import { StorageService } from '../src/services/StorageService';
+import { StreakService, FREEZE_EARN_DAYS, MAX_FREEZES } from '../src/services/StreakService';
+import { StreakCalendar } from '../src/components/StreakCalendar';
+import { DailyLog, StreakRule } from '../src/types';
+import { toLocalDateKey } from '../src/utils/date';
+
+const ACCENT = '#F97316';
+const CALENDAR_MONTHS = 12; // How far back the calendar can go
+
+interface RuleOption {
+    value: StreakRule;
+    title: string;
+    icon: React.ReactNode;
+}
+
+export default function StreakScreen() {
+    const router = useRouter();
+    const theme = useTheme();
+    const { user } = useAuth();
+    const { progress } = useGame();
+    const { preferences, setStreakRule } = usePreferences();
+    const [logs, setLogs] = useState<DailyLog[]>([]);
+    const [monthOffset, setMonthOffset] = useState(0); // 0 = this month, 1 = last month, ...
+
+    useEffect(() => {
+        if (!user) return;
+        StorageService.getDailyLogs(user.id).then(setLogs);
+    }, [user, progress?.lastSyncTime]);
+
+    const today = toLocalDateKey();
+    const streak = useMemo(() => progress ? StreakService.fromProgress(progress) : null, [progress]);
+
+    const shownMonth = useMemo(() => {
+        const date = new Date();
+        date.setDate(1);
+        date.setMonth(date.getMonth() - monthOffset);
+        return { year: date.getFullYear(), month: date.getMonth() + 1 };
+    }, [monthOffset]);
+
+    const calendarDays = useMemo(
+        () => streak
+            ? StreakService.buildCalendarMonth(shownMonth.year, shownMonth.month, logs, streak, preferences.streakRule, preferences.dailyGoal, today)
+            : [],
+        [streak, shownMonth, logs, preferences.streakRule, preferences.dailyGoal, today]
+    );
+
+    if (!progress || !streak) return null;
+
+    const currentStreak = StreakService.getDisplayStreak(streak, today);
+    const doneToday = StreakService.hasQualifiedToday(streak, today);
+
+    const ruleOptions: RuleOption[] = [
+        { value: 'activity', title: 'Any activity', icon: <Footprints size={20} color="white" /> },
+        { value: 'goal', title: `Daily goal met (${preferences.dailyGoal.toLocaleString()} steps)`, icon: <Target size={20} color="white" /> }
+    ];
+
+    const todayHint = doneToday
+        ? 'Today counts. See you tomorrow!'
+        : preferences.streakRule === 'goal'
+            ? `Reach ${preferences.dailyGoal.toLocaleString()} steps today to keep your streak going.`
+            : 'Take a walk today to keep your streak going.';
+
+    return (
+        <View style={[styles.container, { backgroundColor: theme.background }]}>
+            {/* Header */}
+            <View style={[styles.header, { backgroundColor: theme.card, borderBottomColor: theme.border }]}>
+                <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+                    <ChevronLeft size={24} color={theme.text} />
+                </TouchableOpacity>
+                <Text style={[styles.headerTitle, { color: theme.text }]}>Streak</Text>
+                <View style={{ width: 24 }} />
+            </View>
+
+            <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+                {/* Current streak */}
+                <View style={[styles.heroCard, { backgroundColor: theme.card }]}>
+                    <Flame size={40} color={currentStreak > 0 ? ACCENT : theme.textTertiary} />
+                    <Text style={[styles.heroValue, { color: theme.text }]}>{currentStreak}</Text>
+                    <Text style={[styles.heroLabel, { color: theme.textSecondary }]}>day streak</Text>
+                    <Text style={[styles.heroHint, { color: theme.textSecondary }]}>{todayHint}</Text>
+                </View>
+
+                {/* Longest streak and freezes */}
+                <View style={styles.statsRow}>
+                    <View style={[styles.statCard, { backgroundColor: theme.card }]}>
+                        <Trophy size={20} color="#EAB308" />
+                        <Text style={[styles.statValue, { color: theme.text }]}>{streak.longest}</Text>
+                        <Text style={[styles.statLabel, { color: theme.textSecondary }]}>Longest streak</Text>
+                    </View>
+                    <View style={[styles.statCard, { backgroundColor: theme.card }]}>
+                        <Text style={styles.freezeIcon}>❄</Text>
+                        <Text style={[styles.statValue, { color: theme.text }]}>{streak.freezes}/{MAX_FREEZES}</Text>
+                        <Text style={[styles.statLabel, { color: theme.textSecondary }]}>
+                            {streak.freezes >= MAX_FREEZES ? 'Freezes (full)' : `Next in ${FREEZE_EARN_DAYS - streak.daysTowardFreeze} days`}
+                        </Text>
+                    </View>
+                </View>
+
+                <Text style={[styles.footnote, { color: theme.textTertiary }]}>
+                    Every {FREEZE_EARN_DAYS} streak days earn a freeze. A freeze is used automatically on a day you miss, so your streak carries on.
+                </Text>
+
+                {/* Calendar */}
+                <View style={styles.section}>
+                    <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>CALENDAR</Text>
+                    <StreakCalendar
+                        year={shownMonth.year}
+                        month={shownMonth.month}
+                        days={calendarDays}
+                        onPrevious={monthOffset < CALENDAR_MONTHS - 1 ? () => setMonthOffset(monthOffset + 1) : undefined}
+                        onNext={monthOffset > 0 ? () => setMonthOffset(monthOffset - 1) : undefined}
+                    />
+                </View>
+
+                {/* Streak rule */}
+                <View style={styles.section}>
+                    <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>WHAT COUNTS AS A STREAK DAY</Text>
+                    <View style={[styles.card, { backgroundColor: theme.card }]}>
+                        {ruleOptions.map((option, index) => {
+                            const selected = option.value === preferences.streakRule;
+                            return (
+                                <View key={option.value}>
+                                    {index > 0 && <View style={[styles.divider, { backgroundColor: theme.border }]} />}
+                                    <TouchableOpacity style={styles.row} onPress={() => setStreakRule(option.value)}>
+                                        <View style={styles.rowLeft}>
+                                            <View style={[styles.iconBox, { backgroundColor: selected ? ACCENT : theme.textTertiary }]}>
+                                                {option.icon}
+                                            </View>
+                                            <Text style={[styles.rowTitle, { color: theme.text }]}>{option.title}</Text>
+                                        </View>
+                                        {selected && <Check size={22} color={ACCENT} />}
+                                    </TouchableOpacity>
+                                </View>
+                            );
+                        })}
+                    </View>
+                    <Text style={[styles.footnote, { color: theme.textTertiary }]}>
+                        A new rule counts from today. The calendar shows past days under the rule you pick.
+                    </Text>
+                </View>
+
+                <View style={{ height: 40 }} />
+            </ScrollView>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: 16,
+        paddingTop: 60,
+        paddingBottom: 16,
+        borderBottomWidth: 1,
+    },
+    backButton: {
+        padding: 4,
+    },
+    headerTitle: {
+        fontSize: 18,
+        fontWeight: 'bold',
+    },
+    content: {
+        flex: 1,
+        padding: 20,
+    },
+    heroCard: {
+        borderRadius: 16,
+        padding: 24,
+        alignItems: 'center',
+        marginBottom: 16,
+    },
+    heroValue: {
+        fontSize: 48,
+        fontWeight: 'bold',
+        marginTop: 8,
+    },
+    heroLabel: {
+        fontSize: 16,
+        fontWeight: '600',
+    },
+    heroHint: {
+        fontSize: 14,
+        marginTop: 12,
+        textAlign: 'center',
+    },
+    statsRow: {
+        flexDirection: 'row',
+        gap: 12,
+        marginBottom: 8,
+    },
+    statCard: {
+        flex: 1,
+        borderRadius: 16,
+        padding: 16,
+        alignItems: 'center',
+        gap: 4,
+    },
+    statValue: {
+        fontSize: 22,
+        fontWeight: 'bold',
+    },
+    statLabel: {
+        fontSize: 12,
+    },
+    freezeIcon: {
+        fontSize: 18,
+    },
+    section: {
+        marginTop: 24,
+    },
+    sectionTitle: {
+        fontSize: 13,
+        fontWeight: '600',
+        letterSpacing: 0.5,
+        marginBottom: 12,
+        marginLeft: 4,
+    },
+    card: {
+        borderRadius: 16,
+        overflow: 'hidden',
+        shadowColor: '#000',
+        shadowOpacity: 0.05,
+        shadowRadius: 8,
+        elevation: 2,
+    },
+    row: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        padding: 16,
+        minHeight: 64,
+    },
+    rowLeft: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 16,
+        flex: 1,
+    },
+    rowTitle: {
+        fontSize: 16,
+        fontWeight: '500',
+        flex: 1,
+    },
+    iconBox: {
+        width: 40,
+        height: 40,
+        borderRadius: 20,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    divider: {
+        height: 1,
+        marginHorizontal: 16,
+    },
+    footnote: {
+        fontSize: 13,
+        marginLeft: 4,
+        marginTop: 8,
+    },
+});
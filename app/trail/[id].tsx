@@ -6,16 +6,30 @@
  *
  * Modification History:
  * 2024-01-12: Documentation added.
+ * 2026-10-19: Trails start alongside other active trails instead of replacing them.
+ * 2026-10-19: Trail map with landmark pins and the user's current position.
+ * 2026-10-19: Trail looked up from the trail catalog.
+ * 2026-10-19: Custom trails can be edited from here.
+ * 2026-10-19: Group expeditions: start one, see each member's contribution, leave.
  */
-import { View, Text, StyleSheet, ScrollView, Image, TouchableOpacity, Dimensions, Alert, Linking, Platform, ImageBackground } from 'react-native';
+import { View, Text, StyleSheet, ScrollView, Image, TouchableOpacity, Dimensions, Alert, Linking, Platform, ImageBackground, Share } from 'react-native';
 import { useLocalSearchParams, useRouter } from 'expo-router';
-import { TRAILS, CITY_MARATHONS, CLASSIC_MARATHONS } from '../../src/const/trails';
 import { useGame } from '../../src/context/GameContext';
+import { useTrailCatalog } from '../../src/context/TrailCatalogContext';
 import { usePreferences, useTheme } from '../../src/context/PreferencesContext';
-import { getDistanceValue, getDistanceUnit } from '../../src/utils/conversion';
+import { getDistanceValue, getDistanceUnit, formatDistance } from '../../src/utils/conversion';
 import { LinearGradient } from 'expo-linear-gradient';
-import { ArrowLeft, MapPin, Clock, Mountain, Award, Navigation } from 'lucide-react-native';
+import { ArrowLeft, MapPin, Clock, Mountain, Award, Navigation, Pencil, Users, Share2 } from 'lucide-react-native';
 import { GoalPromptModal } from '../../src/components/GoalPromptModal';
+import { PaywallModal } from '../../src/components/PaywallModal';
+import { TrailMap } from '../../src/components/TrailMap';
+import { useSubscription } from '../../src/context/SubscriptionContext';
+import { TrailSessionService } from '../../src/services/TrailSessionService';
+import { ExpeditionProgressService, MAX_EXPEDITION_MEMBERS } from '../../src/services/ExpeditionProgressService';
+import { FriendSharingService } from '../../src/services/FriendSharingService';
+import { useExpeditions } from '../../src/context/ExpeditionsContext';
+import { useAuth } from '../../src/context/AuthContext';
+import { Expedition } from '../../src/types';
 import { useState } from 'react';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
@@ -23,12 +37,18 @@ const { width: SCREEN_WIDTH } = Dimensions.get('window');
 export default function TrailDetailScreen() {
     const { id } = useLocalSearchParams<{ id: string }>();
     const router = useRouter();
-    const { selectTrail, cancelTrail, progress } = useGame();
+    const { selectTrail, cancelTrail, progress, maxActiveTrails } = useGame();
+    const { isPro } = useSubscription();
     const { preferences } = usePreferences();
     const theme = useTheme();
     const [modalVisible, setModalVisible] = useState(false);
+    const [paywallVisible, setPaywallVisible] = useState(false);
+    const [expeditionModalVisible, setExpeditionModalVisible] = useState(false);
+    const { getTrail } = useTrailCatalog();
+    const { user } = useAuth();
+    const { getExpedition, createExpedition, leaveExpedition } = useExpeditions();
 
-    const trail = TRAILS.find(t => t.id === id);
+    const trail = getTrail(id);
 
     if (!trail) {
         return (
@@ -38,7 +58,12 @@ export default function TrailDetailScreen() {
         );
     }
 
-    const isActive = progress?.selectedTrailId === trail.id;
+    const session = TrailSessionService.getSession(progress, trail.id);
+    const isActive = !!session;
+    const expeditionDetails = session?.expedition ? getExpedition(session.expedition.id) : undefined;
+    const memberRows = expeditionDetails && user
+        ? ExpeditionProgressService.getMemberRows(expeditionDetails.contributions, user.id, session?.expedition)
+        : [];
 
     // Calculate estimated completion time based on difficulty and terrain
     const getEstimatedTime = () => {
@@ -48,9 +73,9 @@ export default function TrailDetailScreen() {
         // Adjust pace based on difficulty (realistic hiking speeds)
         let paceKmPerHour;
 
-        // Check for Marathon/City trails explicitly using the lists
-        const isCityMarathon = CITY_MARATHONS.some(t => t.id === trail.id);
-        const isClassicMarathon = CLASSIC_MARATHONS.some(t => t.id === trail.id);
+        // Check for Marathon/City trails explicitly using the catalog category
+        const isCityMarathon = trail.category === 'cityMarathon';
+        const isClassicMarathon = trail.category === 'classicMarathon';
         const hasMarathonKeyword = trail.name.toLowerCase().includes('marathon') ||
             trail.name.includes('5K') ||
             trail.name.includes('10K') ||
@@ -97,26 +122,51 @@ export default function TrailDetailScreen() {
 
 
 
+    // Helper: Returns false (after explaining why) when another trail cannot be started
+    const checkTrailLimit = () => {
+        if (TrailSessionService.canStartTrail(progress, isPro)) return true;
+        if (!isPro) {
+            setPaywallVisible(true);
+        } else {
+            Alert.alert(
+                'Trail Limit Reached',
+                `You are already walking ${maxActiveTrails} trails. Finish or cancel one to start another.`
+            );
+        }
+        return false;
+    };
+
     const handleStartTrail = () => {
-        const hasActiveTrail = progress?.selectedTrailId && progress.selectedTrailId !== trail.id;
+        if (!checkTrailLimit()) return;
+        showGoalPrompt();
+    };
+
+    const handleStartExpedition = () => {
+        if (!checkTrailLimit()) return;
+        setExpeditionModalVisible(true);
+    };
+
+    const shareInvite = (expedition: Expedition) => {
+        Share.share({ message: ExpeditionProgressService.getInviteMessage(expedition, trail.name) });
+    };
 
-        if (hasActiveTrail) {
-            // Show warning when switching trails
+    const handleExpeditionModalStart = async (days: string) => {
+        const numDays = parseInt(days || '7', 10);
+        setExpeditionModalVisible(false);
+        if (!(numDays > 0)) return;
+
+        try {
+            const expedition = await createExpedition(trail.id, numDays);
             Alert.alert(
-                '⚠️ Switch Trail?',
-                'Switching trails will reset your progress. You will lose all historical data and only today\'s steps will count towards the new trail.\n\nAre you sure you want to switch?',
+                'Expedition Started',
+                `Invite up to ${MAX_EXPEDITION_MEMBERS - 1} people with code ${FriendSharingService.formatInviteCode(expedition.inviteCode)}. Everyone's steps count toward ${trail.name}.`,
                 [
-                    { text: 'Cancel', style: 'cancel' },
-                    {
-                        text: 'Switch Trail',
-                        style: 'destructive',
-                        onPress: () => showGoalPrompt()
-                    }
+                    { text: 'Later', style: 'cancel' },
+                    { text: 'Share Code', onPress: () => shareInvite(expedition) }
                 ]
             );
-        } else {
-            // No active trail, proceed directly
-            showGoalPrompt();
+        } catch (error: any) {
+            Alert.alert('Could Not Start Expedition', error.message);
         }
     };
 
@@ -124,12 +174,16 @@ export default function TrailDetailScreen() {
         setModalVisible(true);
     };
 
-    const handleModalStart = (days: string) => {
+    const handleModalStart = async (days: string) => {
         const numDays = parseInt(days || '7', 10);
         if (numDays > 0 && trail) {
-            selectTrail(trail.id, numDays);
             setModalVisible(false);
-            router.back();
+            try {
+                await selectTrail(trail.id, numDays);
+                router.back();
+            } catch (error: any) {
+                Alert.alert('Trail Limit Reached', error.message);
+            }
         } else {
             setModalVisible(false);
         }
@@ -140,6 +194,30 @@ export default function TrailDetailScreen() {
     };
 
     const handleCancelTrail = () => {
+        if (session?.expedition) {
+            const expeditionId = session.expedition.id;
+            Alert.alert(
+                'Leave Expedition?',
+                'Your steps so far stay with the group, but new steps will no longer count toward this expedition.',
+                [
+                    { text: 'Stay', style: 'cancel' },
+                    {
+                        text: 'Leave',
+                        style: 'destructive',
+                        onPress: async () => {
+                            try {
+                                await leaveExpedition(expeditionId);
+                                router.back();
+                            } catch (error: any) {
+                                Alert.alert('Could Not Leave Expedition', error.message);
+                            }
+                        }
+                    }
+                ]
+            );
+            return;
+        }
+
         Alert.alert(
             '⚠️ Cancel Trail?',
             'Cancelling this trail will remove your current progress specifically for this trail. \n\nYour lifetime stats and earned badges will NOT be affected.\n\nAre you sure you want to cancel?',
@@ -149,7 +227,7 @@ export default function TrailDetailScreen() {
                     text: 'Yes, Cancel Trail',
                     style: 'destructive',
                     onPress: async () => {
-                        await cancelTrail();
+                        await cancelTrail(trail.id);
                         router.back();
                     }
                 }
@@ -171,11 +249,21 @@ export default function TrailDetailScreen() {
                 <ArrowLeft size={24} color={theme.text} />
             </TouchableOpacity>
 
+            {trail.category === 'custom' && (
+                <TouchableOpacity
+                    style={[styles.backButton, styles.editButton, { backgroundColor: theme.card }]}
+                    onPress={() => router.push({ pathname: '/custom-trail', params: { id: trail.id } })}
+                    accessibilityLabel="Edit trail"
+                >
+                    <Pencil size={20} color={theme.text} />
+                </TouchableOpacity>
+            )}
+
             <ScrollView showsVerticalScrollIndicator={false}>
                 {/* Hero Image Section */}
                 <ImageBackground
                     source={trail.image || { uri: 'https://via.placeholder.com/400x300' }}
-                    style={styles.heroImage}
+                    style={[styles.heroImage, !trail.image && { backgroundColor: trail.color }]}
                     imageStyle={styles.heroImageStyle}
                 >
                     <LinearGradient
@@ -204,6 +292,61 @@ export default function TrailDetailScreen() {
                     )}
                 </View>
 
+                {/* Expedition Members */}
+                {session?.expedition && (
+                    <View style={styles.section}>
+                        <View style={styles.expeditionHeader}>
+                            <Text style={[styles.sectionTitle, styles.expeditionTitle, { color: theme.text }]}>
+                                {expeditionDetails?.expedition.name ?? 'Group Expedition'}
+                            </Text>
+                            {expeditionDetails && (
+                                <TouchableOpacity
+                                    onPress={() => shareInvite(expeditionDetails.expedition)}
+                                    style={styles.shareCodeButton}
+                                    accessibilityLabel="Share expedition code"
+                                >
+                                    <Share2 size={18} color={trail.color} />
+                                    <Text style={[styles.shareCodeText, { color: trail.color }]}>
+                                        {FriendSharingService.formatInviteCode(expeditionDetails.expedition.inviteCode)}
+                                    </Text>
+                                </TouchableOpacity>
+                            )}
+                        </View>
+                        <Text style={[styles.sectionSubtitle, { color: theme.textSecondary }]}>
+                            {formatDistance(session.currentDistanceMeters, preferences.distanceUnit)} of {formatDistance(trail.totalDistanceMeters, preferences.distanceUnit)} walked together
+                        </Text>
+                        {memberRows.length === 0 ? (
+                            <Text style={[styles.landmarkDescription, { color: theme.textSecondary }]}>Loading members...</Text>
+                        ) : memberRows.map(member => (
+                            <View key={member.userId} style={styles.memberRow}>
+                                <View style={[styles.memberIcon, { backgroundColor: trail.color + '20' }]}>
+                                    <Users size={16} color={trail.color} />
+                                </View>
+                                <View style={styles.memberInfo}>
+                                    <Text style={[styles.memberName, { color: theme.text }]}>
+                                        {member.isCurrentUser ? 'You' : member.name}
+                                    </Text>
+                                    <View style={[styles.memberBar, { backgroundColor: theme.border }]}>
+                                        <View style={[styles.memberBarFill, { width: `${member.percent}%`, backgroundColor: trail.color }]} />
+                                    </View>
+                                </View>
+                                <View style={styles.memberStats}>
+                                    <Text style={[styles.memberDistance, { color: theme.text }]}>
+                                        {formatDistance(member.distanceMeters, preferences.distanceUnit)}
+                                    </Text>
+                                    <Text style={[styles.landmarkDistance, { color: theme.textTertiary }]}>{member.percent}%</Text>
+                                </View>
+                            </View>
+                        ))}
+                    </View>
+                )}
+
+                {/* Trail Map */}
+                <View style={styles.section}>
+                    <Text style={[styles.sectionTitle, { color: theme.text }]}>Trail Map</Text>
+                    <TrailMap trail={trail} currentDistanceMeters={session?.currentDistanceMeters ?? null} />
+                </View>
+
                 {/* Statistics Grid */}
                 <View style={styles.statsSection}>
                     <Text style={[styles.sectionTitle, { color: theme.text }]}>Trail Details</Text>
@@ -258,8 +401,8 @@ export default function TrailDetailScreen() {
 
                     <View style={styles.landmarksContainer}>
                         {trail.landmarks.map((landmark, index) => {
-                            const isUnlocked = isActive &&
-                                progress?.currentDistanceMeters >= landmark.distanceMeters;
+                            const isUnlocked = !!session &&
+                                session.currentDistanceMeters >= landmark.distanceMeters;
 
                             return (
                                 <View key={landmark.id} style={styles.landmarkItem}>
@@ -300,8 +443,8 @@ export default function TrailDetailScreen() {
                     </View>
                 </View>
 
-                {/* Bottom Spacing */}
-                <View style={{ height: 100 }} />
+                {/* Bottom Spacing (room for the action buttons) */}
+                <View style={{ height: 160 }} />
             </ScrollView>
 
             {/* Fixed Action Button */}
@@ -321,7 +464,18 @@ export default function TrailDetailScreen() {
                         style={[styles.cancelButton, { borderColor: '#EF4444' }]}
                         onPress={handleCancelTrail}
                     >
-                        <Text style={[styles.cancelButtonText, { color: '#EF4444' }]}>Cancel Trail</Text>
+                        <Text style={[styles.cancelButtonText, { color: '#EF4444' }]}>
+                            {session?.expedition ? 'Leave Expedition' : 'Cancel Trail'}
+                        </Text>
+                    </TouchableOpacity>
+                )}
+
+                {!isActive && trail.category !== 'custom' && (
+                    <TouchableOpacity
+                        style={[styles.cancelButton, { borderColor: trail.color }]}
+                        onPress={handleStartExpedition}
+                    >
+                        <Text style={[styles.cancelButtonText, { color: trail.color }]}>Start a Group Expedition</Text>
                     </TouchableOpacity>
                 )}
             </View>
@@ -331,6 +485,21 @@ export default function TrailDetailScreen() {
                 onCancel={handleModalCancel}
                 onStart={handleModalStart}
             />
+
+            <GoalPromptModal
+                visible={expeditionModalVisible}
+                onCancel={() => setExpeditionModalVisible(false)}
+                onStart={handleExpeditionModalStart}
+                initialDays="14"
+                title="Group Expedition"
+                message="How many days should your group take to finish this trail?"
+            />
+
+            <PaywallModal
+                visible={paywallVisible}
+                onClose={() => setPaywallVisible(false)}
+                feature="activeTrails"
+            />
         </View >
     );
 }
@@ -363,6 +532,10 @@ const styles = StyleSheet.create({
         elevation: 4,
         zIndex: 10,
     },
+    editButton: {
+        left: undefined,
+        right: 20,
+    },
     heroImage: {
         width: '100%',
         height: 300,
@@ -577,4 +750,61 @@ const styles = StyleSheet.create({
         fontSize: 16,
         fontWeight: '600',
     },
+    expeditionHeader: {
+        flexDirection: 'row',
+        alignItems: 'flex-start',
+        justifyContent: 'space-between',
+        gap: 12,
+    },
+    expeditionTitle: {
+        flex: 1,
+    },
+    shareCodeButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        paddingTop: 4,
+    },
+    shareCodeText: {
+        fontSize: 14,
+        fontWeight: 'bold',
+        letterSpacing: 1,
+    },
+    memberRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        marginBottom: 14,
+    },
+    memberIcon: {
+        width: 32,
+        height: 32,
+        borderRadius: 16,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    memberInfo: {
+        flex: 1,
+        gap: 6,
+    },
+    memberName: {
+        fontSize: 15,
+        fontWeight: '600',
+    },
+    memberBar: {
+        height: 6,
+        borderRadius: 3,
+        overflow: 'hidden',
+    },
+    memberBarFill: {
+        height: '100%',
+        borderRadius: 3,
+    },
+    memberStats: {
+        alignItems: 'flex-end',
+    },
+    memberDistance: {
+        fontSize: 14,
+        fontWeight: 'bold',
+    },
 });
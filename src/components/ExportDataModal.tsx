@@ -0,0 +1,261 @@
+/**
+ * File: src/components/ExportDataModal.tsx
+ * Purpose: Modal for choosing the date range and file format of a data export.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, TouchableWithoutFeedback, ActivityIndicator } from 'react-native';
+import { useTheme } from '../context/PreferencesContext';
+import { ExportFormat, ExportRangePreset } from '../services/ExportService';
+
+interface ExportDataModalProps {
+    visible: boolean;
+    exporting: boolean;
+    onCancel: () => void;
+    onExport: (format: ExportFormat, preset: ExportRangePreset) => void;
+}
+
+const ACCENT_COLOR = '#14B8A6';
+
+const RANGE_OPTIONS: { value: ExportRangePreset; label: string }[] = [
+    { value: 'last30', label: '30 days' },
+    { value: 'last90', label: '90 days' },
+    { value: 'thisYear', label: 'This year' },
+    { value: 'all', label: 'All time' },
+];
+
+const FORMAT_OPTIONS: { value: ExportFormat; label: string; description: string }[] = [
+    { value: 'dailyCsv', label: 'Daily Activity (CSV)', description: 'Steps and distance for every day' },
+    { value: 'trailsCsv', label: 'Completed Trails (CSV)', description: 'Dates, steps and pace per trail' },
+    { value: 'badgesCsv', label: 'Badge History (CSV)', description: 'Monthly totals and badges earned' },
+    { value: 'json', label: 'Full Archive (JSON)', description: 'Everything, including preferences' },
+    { value: 'gpx', label: 'Trail Summary (GPX)', description: 'Completed trailheads for map apps' },
+];
+
+export const ExportDataModal: React.FC<ExportDataModalProps> = ({
+    visible,
+    exporting,
+    onCancel,
+    onExport
+}) => {
+    const theme = useTheme();
+    const [preset, setPreset] = useState<ExportRangePreset>('all');
+    const [format, setFormat] = useState<ExportFormat>('dailyCsv');
+
+    // Reset choices when modal becomes visible
+    useEffect(() => {
+        if (visible) {
+            setPreset('all');
+            setFormat('dailyCsv');
+        }
+    }, [visible]);
+
+    return (
+        <Modal
+            animationType="fade"
+            transparent={true}
+            visible={visible}
+            onRequestClose={onCancel}
+        >
+            <View style={styles.centeredView}>
+                <TouchableWithoutFeedback onPress={onCancel}>
+                    <View style={styles.modalOverlay} />
+                </TouchableWithoutFeedback>
+
+                <View style={[styles.modalView, { backgroundColor: theme.card, borderColor: theme.border }]}>
+                    <Text style={[styles.modalTitle, { color: theme.text }]}>Export Data</Text>
+
+                    <Text style={[styles.sectionLabel, { color: theme.textSecondary }]}>Date Range</Text>
+                    <View style={styles.chipRow}>
+                        {RANGE_OPTIONS.map(option => {
+                            const selected = option.value === preset;
+                            return (
+                                <TouchableOpacity
+                                    key={option.value}
+                                    style={[
+                                        styles.chip,
+                                        { borderColor: selected ? ACCENT_COLOR : theme.border },
+                                        selected && { backgroundColor: ACCENT_COLOR }
+                                    ]}
+                                    onPress={() => setPreset(option.value)}
+                                >
+                                    <Text style={[styles.chipText, { color: selected ? 'white' : theme.text }]}>
+                                        {option.label}
+                                    </Text>
+                                </TouchableOpacity>
+                            );
+                        })}
+                    </View>
+
+                    <Text style={[styles.sectionLabel, { color: theme.textSecondary }]}>Format</Text>
+                    {FORMAT_OPTIONS.map(option => {
+                        const selected = option.value === format;
+                        return (
+                            <TouchableOpacity
+                                key={option.value}
+                                style={[
+                                    styles.formatRow,
+                                    { borderColor: selected ? ACCENT_COLOR : theme.border }
+                                ]}
+                                onPress={() => setFormat(option.value)}
+                            >
+                                <View style={[styles.radio, { borderColor: selected ? ACCENT_COLOR : theme.border }]}>
+                                    {selected && <View style={[styles.radioDot, { backgroundColor: ACCENT_COLOR }]} />}
+                                </View>
+                                <View style={{ flex: 1 }}>
+                                    <Text style={[styles.formatLabel, { color: theme.text }]}>{option.label}</Text>
+                                    <Text style={[styles.formatDescription, { color: theme.textSecondary }]}>
+                                        {option.description}
+                                    </Text>
+                                </View>
+                            </TouchableOpacity>
+                        );
+                    })}
+
+                    <View style={styles.buttonContainer}>
+                        <TouchableOpacity
+                            style={[styles.button, styles.buttonCancel, { borderColor: theme.border }]}
+                            onPress={onCancel}
+                        >
+                            <Text style={[styles.buttonCancelText, { color: theme.text }]}>Cancel</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                            style={[styles.button, styles.buttonExport]}
+                            onPress={() => onExport(format, preset)}
+                            disabled={exporting}
+                        >
+                            {exporting ? (
+                                <ActivityIndicator color="white" />
+                            ) : (
+                                <Text style={styles.buttonExportText}>Export</Text>
+                            )}
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            </View>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    centeredView: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    modalOverlay: {
+        position: 'absolute',
+        top: 0,
+        bottom: 0,
+        left: 0,
+        right: 0,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+    },
+    modalView: {
+        width: '90%',
+        borderRadius: 20,
+        padding: 24,
+        shadowColor: '#000',
+        shadowOffset: {
+            width: 0,
+            height: 2,
+        },
+        shadowOpacity: 0.25,
+        shadowRadius: 4,
+        elevation: 5,
+        borderWidth: 1,
+    },
+    modalTitle: {
+        fontSize: 20,
+        fontWeight: 'bold',
+        marginBottom: 16,
+        textAlign: 'center',
+    },
+    sectionLabel: {
+        fontSize: 13,
+        fontWeight: '600',
+        textTransform: 'uppercase',
+        marginBottom: 8,
+        marginTop: 8,
+    },
+    chipRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+        marginBottom: 8,
+    },
+    chip: {
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 16,
+        borderWidth: 1,
+    },
+    chipText: {
+        fontSize: 14,
+        fontWeight: '600',
+    },
+    formatRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        padding: 10,
+        borderRadius: 12,
+        borderWidth: 1,
+        marginBottom: 8,
+    },
+    radio: {
+        width: 20,
+        height: 20,
+        borderRadius: 10,
+        borderWidth: 2,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    radioDot: {
+        width: 10,
+        height: 10,
+        borderRadius: 5,
+    },
+    formatLabel: {
+        fontSize: 15,
+        fontWeight: '600',
+    },
+    formatDescription: {
+        fontSize: 13,
+        marginTop: 2,
+    },
+    buttonContainer: {
+        flexDirection: 'row',
+        width: '100%',
+        justifyContent: 'space-between',
+        marginTop: 16,
+        gap: 12,
+    },
+    button: {
+        borderRadius: 14,
+        paddingVertical: 16,
+        paddingHorizontal: 20,
+        elevation: 2,
+        flex: 1,
+        alignItems: 'center',
+    },
+    buttonCancel: {
+        backgroundColor: 'transparent',
+        borderWidth: 1.5,
+    },
+    buttonExport: {
+        backgroundColor: ACCENT_COLOR,
+    },
+    buttonCancelText: {
+        fontWeight: '600',
+        textAlign: 'center',
+        fontSize: 16,
+    },
+    buttonExportText: {
+        color: '#FFFFFF',
+        fontWeight: 'bold',
+        textAlign: 'center',
+        fontSize: 16,
+    },
+});
@@ -0,0 +1,256 @@
+/**
+ * File: src/components/ImportDataModal.tsx
+ * Purpose: Modal for restoring history from an exported JSON archive, with a preview before merging.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, TouchableWithoutFeedback, ActivityIndicator, Switch, Alert } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system/legacy';
+import { useTheme, usePreferences } from '../context/PreferencesContext';
+import { useGame } from '../context/GameContext';
+import { useAuth } from '../context/AuthContext';
+import { ImportService, ImportPreview } from '../services/ImportService';
+import { StorageService } from '../services/StorageService';
+import { ExportArchive } from '../types';
+
+interface ImportDataModalProps {
+    visible: boolean;
+    onClose: () => void;
+}
+
+const ACCENT_COLOR = '#6366F1';
+
+export const ImportDataModal: React.FC<ImportDataModalProps> = ({ visible, onClose }) => {
+    const theme = useTheme();
+    const { user } = useAuth();
+    const { progress, importArchive } = useGame();
+    const { restorePreferences } = usePreferences();
+    const [archive, setArchive] = useState<ExportArchive | null>(null);
+    const [preview, setPreview] = useState<ImportPreview | null>(null);
+    const [includePreferences, setIncludePreferences] = useState(false);
+    const [busy, setBusy] = useState(false);
+
+    // Start fresh every time the modal opens
+    useEffect(() => {
+        if (visible) {
+            setArchive(null);
+            setPreview(null);
+            setIncludePreferences(false);
+        }
+    }, [visible]);
+
+    const handlePickFile = async () => {
+        if (!user || !progress) return;
+        try {
+            const picked = await DocumentPicker.getDocumentAsync({
+                type: ['application/json', 'text/plain'],
+                copyToCacheDirectory: true
+            });
+            if (picked.canceled || !picked.assets?.length) return;
+
+            setBusy(true);
+            const raw = await FileSystem.readAsStringAsync(picked.assets[0].uri);
+            const parsed = ImportService.parseArchive(raw);
+            const existingLogs = await StorageService.getDailyLogs(user.id);
+            setArchive(parsed);
+            setPreview(ImportService.previewImport(parsed, progress, existingLogs));
+        } catch (error: any) {
+            console.error('Error reading import file:', error);
+            Alert.alert('Import Failed', error.message || 'Could not read this file.');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleConfirm = async () => {
+        if (!archive) return;
+        setBusy(true);
+        try {
+            await importArchive(archive);
+            if (includePreferences && archive.preferences) {
+                await restorePreferences(archive.preferences);
+            }
+            onClose();
+            Alert.alert('Import Complete', 'Your history has been restored.');
+        } catch (error: any) {
+            console.error('Error importing archive:', error);
+            Alert.alert('Import Failed', error.message || 'Could not import your data. Please try again.');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const previewRows: [string, string][] = preview ? [
+        ['New days', preview.newDays.toLocaleString()],
+        ['Days with more steps', preview.updatedDays.toLocaleString()],
+        ['Days already up to date', preview.unchangedDays.toLocaleString()],
+        ['Steps added', preview.addedSteps.toLocaleString()],
+        ['Completed trails', preview.newCompletedTrails.toLocaleString()],
+        ['Badge months', preview.newBadgeMonths.toLocaleString()],
+        ['Trail badges', preview.newTrailBadges.toLocaleString()],
+        ['Other badges', preview.newOtherBadges.toLocaleString()],
+    ] : [];
+
+    return (
+        <Modal
+            animationType="fade"
+            transparent={true}
+            visible={visible}
+            onRequestClose={onClose}
+        >
+            <View style={styles.centeredView}>
+                <TouchableWithoutFeedback onPress={onClose}>
+                    <View style={styles.modalOverlay} />
+                </TouchableWithoutFeedback>
+
+                <View style={[styles.modalView, { backgroundColor: theme.card, borderColor: theme.border }]}>
+                    <Text style={[styles.modalTitle, { color: theme.text }]}>Import Data</Text>
+
+                    {!preview ? (
+                        <Text style={[styles.modalText, { color: theme.textSecondary }]}>
+                            Choose a Full Archive (JSON) exported from Stridr. You will see what changes before anything is saved.
+                        </Text>
+                    ) : (
+                        <>
+                            <Text style={[styles.modalText, { color: theme.textSecondary }]}>
+                                {`Exported ${new Date(archive!.exportedAt).toLocaleDateString()}. Days you already have keep whichever copy has more steps.`}
+                            </Text>
+                            {previewRows.map(([label, value]) => (
+                                <View key={label} style={[styles.previewRow, { borderBottomColor: theme.divider }]}>
+                                    <Text style={[styles.previewLabel, { color: theme.textSecondary }]}>{label}</Text>
+                                    <Text style={[styles.previewValue, { color: theme.text }]}>{value}</Text>
+                                </View>
+                            ))}
+                            {preview.hasPreferences && (
+                                <View style={styles.switchRow}>
+                                    <Text style={[styles.previewLabel, { color: theme.text }]}>Also restore preferences</Text>
+                                    <Switch
+                                        value={includePreferences}
+                                        onValueChange={setIncludePreferences}
+                                        trackColor={{ false: '#767577', true: ACCENT_COLOR }}
+                                    />
+                                </View>
+                            )}
+                        </>
+                    )}
+
+                    <View style={styles.buttonContainer}>
+                        <TouchableOpacity
+                            style={[styles.button, styles.buttonCancel, { borderColor: theme.border }]}
+                            onPress={onClose}
+                        >
+                            <Text style={[styles.buttonCancelText, { color: theme.text }]}>Cancel</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                            style={[styles.button, styles.buttonPrimary]}
+                            onPress={preview ? handleConfirm : handlePickFile}
+                            disabled={busy}
+                        >
+                            {busy ? (
+                                <ActivityIndicator color="white" />
+                            ) : (
+                                <Text style={styles.buttonPrimaryText}>{preview ? 'Import' : 'Choose File'}</Text>
+                            )}
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            </View>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    centeredView: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    modalOverlay: {
+        position: 'absolute',
+        top: 0,
+        bottom: 0,
+        left: 0,
+        right: 0,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+    },
+    modalView: {
+        width: '90%',
+        borderRadius: 20,
+        padding: 24,
+        shadowColor: '#000',
+        shadowOffset: {
+            width: 0,
+            height: 2,
+        },
+        shadowOpacity: 0.25,
+        shadowRadius: 4,
+        elevation: 5,
+        borderWidth: 1,
+    },
+    modalTitle: {
+        fontSize: 20,
+        fontWeight: 'bold',
+        marginBottom: 8,
+        textAlign: 'center',
+    },
+    modalText: {
+        marginBottom: 16,
+        textAlign: 'center',
+        fontSize: 15,
+        lineHeight: 21,
+    },
+    previewRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        paddingVertical: 8,
+        borderBottomWidth: 1,
+    },
+    previewLabel: {
+        fontSize: 15,
+    },
+    previewValue: {
+        fontSize: 15,
+        fontWeight: '700',
+    },
+    switchRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginTop: 12,
+    },
+    buttonContainer: {
+        flexDirection: 'row',
+        width: '100%',
+        justifyContent: 'space-between',
+        marginTop: 20,
+        gap: 12,
+    },
+    button: {
+        borderRadius: 14,
+        paddingVertical: 16,
+        paddingHorizontal: 20,
+        elevation: 2,
+        flex: 1,
+        alignItems: 'center',
+    },
+    buttonCancel: {
+        backgroundColor: 'transparent',
+        borderWidth: 1.5,
+    },
+    buttonPrimary: {
+        backgroundColor: ACCENT_COLOR,
+    },
+    buttonCancelText: {
+        fontWeight: '600',
+        textAlign: 'center',
+        fontSize: 16,
+    },
+    buttonPrimaryText: {
+        color: '#FFFFFF',
+        fontWeight: 'bold',
+        textAlign: 'center',
+        fontSize: 16,
+    },
+});
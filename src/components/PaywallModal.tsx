@@ -20,6 +20,7 @@ import { Lock, Sparkles, X } from 'lucide-react-native';
 
 export type LockedFeature =
     | 'trails'
+    | 'activeTrails'
     | 'badges'
     | 'dashboard'
     | 'notifications'
@@ -41,6 +42,11 @@ const FEATURE_CONTENT: Record<LockedFeature, { icon: string; title: string; mess
         title: 'Unlock All Trails',
         message: 'Upgrade to Premium to access all 24 trails including iconic treks across India and famous city marathons worldwide.',
     },
+    activeTrails: {
+        icon: '🧭',
+        title: 'Walk More Trails at Once',
+        message: 'Free accounts can walk up to 3 trails at the same time. Upgrade to Premium to walk up to 10 trails side by side.',
+    },
     badges: {
         icon: '🏆',
         title: 'Earn & Collect Badges',
@@ -0,0 +1,136 @@
+/**
+ * File: src/components/ShareCard.tsx
+ * Purpose: Branded 4:5 image card for sharing a completed trail, a badge or the week. Drawn at a fixed
+ * size so every capture looks the same regardless of screen size.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import React from 'react';
+import { View, Text, StyleSheet, Image, ImageSourcePropType } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Footprints } from 'lucide-react-native';
+import { ShareCardContent } from '../services/ShareCardService';
+
+export const SHARE_CARD_WIDTH = 320;
+export const SHARE_CARD_HEIGHT = 400;
+
+interface ShareCardProps {
+    content: ShareCardContent;
+    image?: ImageSourcePropType; // Trail photo behind the text
+    onImageLoad?: () => void;
+}
+
+export const ShareCard = React.forwardRef<View, ShareCardProps>(({ content, image, onImageLoad }, ref) => (
+    // collapsable={false} keeps the view in the native hierarchy so Android can capture it
+    <View ref={ref} collapsable={false} style={styles.card}>
+        <LinearGradient colors={content.colors} style={StyleSheet.absoluteFill} />
+        {image && (
+            <>
+                <Image source={image} style={StyleSheet.absoluteFill} resizeMode="cover" onLoad={onImageLoad} onError={onImageLoad} />
+                <LinearGradient
+                    colors={['rgba(0,0,0,0.15)', 'rgba(0,0,0,0.55)', 'rgba(0,0,0,0.9)']}
+                    style={StyleSheet.absoluteFill}
+                />
+            </>
+        )}
+
+        <View style={styles.content}>
+            <View style={styles.brandRow}>
+                <Footprints size={18} color="white" />
+                <Text style={styles.brand}>Stridr</Text>
+            </View>
+
+            <View style={styles.body}>
+                {content.icon && <Text style={styles.icon}>{content.icon}</Text>}
+                <Text style={styles.eyebrow}>{content.eyebrow}</Text>
+                <Text style={styles.title} numberOfLines={2} adjustsFontSizeToFit>{content.title}</Text>
+                <Text style={styles.subtitle} numberOfLines={2}>{content.subtitle}</Text>
+            </View>
+
+            {content.stats.length > 0 && (
+                <View style={styles.stats}>
+                    {content.stats.map(stat => (
+                        <View key={stat.label} style={styles.stat}>
+                            <Text style={styles.statValue} numberOfLines={1} adjustsFontSizeToFit>{stat.value}</Text>
+                            <Text style={styles.statLabel}>{stat.label}</Text>
+                        </View>
+                    ))}
+                </View>
+            )}
+        </View>
+    </View>
+));
+
+ShareCard.displayName = 'ShareCard';
+
+const styles = StyleSheet.create({
+    card: {
+        width: SHARE_CARD_WIDTH,
+        height: SHARE_CARD_HEIGHT,
+        borderRadius: 20,
+        overflow: 'hidden',
+        backgroundColor: '#111827',
+    },
+    content: {
+        flex: 1,
+        padding: 24,
+        justifyContent: 'space-between',
+    },
+    brandRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+    },
+    brand: {
+        color: 'white',
+        fontSize: 16,
+        fontWeight: 'bold',
+        letterSpacing: 1,
+    },
+    body: {
+        alignItems: 'flex-start',
+    },
+    icon: {
+        fontSize: 72,
+        marginBottom: 12,
+    },
+    eyebrow: {
+        color: 'rgba(255,255,255,0.8)',
+        fontSize: 13,
+        fontWeight: 'bold',
+        letterSpacing: 1.5,
+        textTransform: 'uppercase',
+        marginBottom: 6,
+    },
+    title: {
+        color: 'white',
+        fontSize: 30,
+        fontWeight: 'bold',
+        marginBottom: 6,
+    },
+    subtitle: {
+        color: 'rgba(255,255,255,0.9)',
+        fontSize: 15,
+    },
+    stats: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        borderTopWidth: 1,
+        borderTopColor: 'rgba(255,255,255,0.3)',
+        paddingTop: 16,
+        gap: 8,
+    },
+    stat: {
+        flex: 1,
+    },
+    statValue: {
+        color: 'white',
+        fontSize: 18,
+        fontWeight: 'bold',
+    },
+    statLabel: {
+        color: 'rgba(255,255,255,0.75)',
+        fontSize: 12,
+        marginTop: 2,
+    },
+});
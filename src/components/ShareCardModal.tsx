@@ -0,0 +1,181 @@
+/**
+ * File: src/components/ShareCardModal.tsx
+ * Purpose: Previews a share card and captures it to a PNG for the system share sheet.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import React, { useState, useEffect, useRef } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, TouchableWithoutFeedback, ActivityIndicator, Alert, ImageSourcePropType } from 'react-native';
+import { captureRef } from 'react-native-view-shot';
+import { useTheme } from '../context/PreferencesContext';
+import { ShareCard, SHARE_CARD_WIDTH, SHARE_CARD_HEIGHT } from './ShareCard';
+import { ShareCardContent } from '../services/ShareCardService';
+import { ShareService } from '../services/ShareService';
+
+interface ShareCardModalProps {
+    visible: boolean;
+    content: ShareCardContent | null;
+    image?: ImageSourcePropType;
+    heading?: string; // Shown above the card, e.g. when celebrating a finished trail
+    onClose: () => void;
+}
+
+const ACCENT_COLOR = '#2563EB';
+const CAPTURE_SCALE = 3.375; // 320x400 points -> 1080x1350 pixels, the usual 4:5 feed size
+
+export const ShareCardModal: React.FC<ShareCardModalProps> = ({
+    visible,
+    content,
+    image,
+    heading,
+    onClose
+}) => {
+    const theme = useTheme();
+    const cardRef = useRef<View>(null);
+    const [sharing, setSharing] = useState(false);
+    const [imageReady, setImageReady] = useState(!image);
+
+    // Wait for the trail photo again whenever a new card is shown
+    useEffect(() => {
+        if (visible) setImageReady(!image);
+    }, [visible, image]);
+
+    const handleShare = async () => {
+        if (!content || !cardRef.current) return;
+        setSharing(true);
+        try {
+            const uri = await captureRef(cardRef, {
+                format: 'png',
+                quality: 1,
+                result: 'tmpfile',
+                width: SHARE_CARD_WIDTH * CAPTURE_SCALE,
+                height: SHARE_CARD_HEIGHT * CAPTURE_SCALE
+            });
+            await ShareService.shareImageFile(uri, content.filename, 'Share');
+        } catch (error: any) {
+            console.error('Error sharing card:', error);
+            Alert.alert('Share Failed', error?.message || 'Could not create the image. Please try again.');
+        } finally {
+            setSharing(false);
+        }
+    };
+
+    return (
+        <Modal
+            animationType="fade"
+            transparent={true}
+            visible={visible}
+            onRequestClose={onClose}
+        >
+            <View style={styles.centeredView}>
+                <TouchableWithoutFeedback onPress={onClose}>
+                    <View style={styles.modalOverlay} />
+                </TouchableWithoutFeedback>
+
+                {content && (
+                    <View style={[styles.modalView, { backgroundColor: theme.card, borderColor: theme.border }]}>
+                        {heading && <Text style={[styles.heading, { color: theme.text }]}>{heading}</Text>}
+                        <ShareCard
+                            ref={cardRef}
+                            content={content}
+                            image={image}
+                            onImageLoad={() => setImageReady(true)}
+                        />
+
+                        <View style={styles.buttonContainer}>
+                            <TouchableOpacity
+                                style={[styles.button, styles.buttonCancel, { borderColor: theme.border }]}
+                                onPress={onClose}
+                            >
+                                <Text style={[styles.buttonCancelText, { color: theme.text }]}>Close</Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                                style={[styles.button, styles.buttonShare, !imageReady && styles.buttonDisabled]}
+                                onPress={handleShare}
+                                disabled={sharing || !imageReady}
+                            >
+                                {sharing ? (
+                                    <ActivityIndicator color="white" />
+                                ) : (
+                                    <Text style={styles.buttonShareText}>Share</Text>
+                                )}
+                            </TouchableOpacity>
+                        </View>
+                    </View>
+                )}
+            </View>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    centeredView: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    modalOverlay: {
+        position: 'absolute',
+        top: 0,
+        bottom: 0,
+        left: 0,
+        right: 0,
+        backgroundColor: 'rgba(0,0,0,0.6)',
+    },
+    modalView: {
+        borderRadius: 20,
+        padding: 16,
+        alignItems: 'center',
+        shadowColor: '#000',
+        shadowOffset: {
+            width: 0,
+            height: 2,
+        },
+        shadowOpacity: 0.25,
+        shadowRadius: 4,
+        elevation: 5,
+        borderWidth: 1,
+    },
+    heading: {
+        fontSize: 20,
+        fontWeight: 'bold',
+        marginBottom: 16,
+        textAlign: 'center',
+    },
+    buttonContainer: {
+        flexDirection: 'row',
+        width: SHARE_CARD_WIDTH,
+        justifyContent: 'space-between',
+        marginTop: 16,
+        gap: 12,
+    },
+    button: {
+        borderRadius: 14,
+        paddingVertical: 16,
+        paddingHorizontal: 20,
+        elevation: 2,
+        flex: 1,
+        alignItems: 'center',
+    },
+    buttonCancel: {
+        backgroundColor: 'transparent',
+        borderWidth: 1.5,
+    },
+    buttonShare: {
+        backgroundColor: ACCENT_COLOR,
+    },
+    buttonDisabled: {
+        opacity: 0.6,
+    },
+    buttonCancelText: {
+        fontWeight: '600',
+        textAlign: 'center',
+        fontSize: 16,
+    },
+    buttonShareText: {
+        color: '#FFFFFF',
+        fontWeight: 'bold',
+        textAlign: 'center',
+        fontSize: 16,
+    },
+});
@@ -0,0 +1,161 @@
+/**
+ * File: src/components/StreakCalendar.tsx
+ * Purpose: One month of the streak calendar: days that counted toward the streak and days a freeze covered.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { ChevronLeft, ChevronRight } from 'lucide-react-native';
+import { useTheme } from '../context/PreferencesContext';
+import { MONTH_NAMES } from '../const/badges';
+import { StreakCalendarDay } from '../services/StreakService';
+
+interface StreakCalendarProps {
+    year: number;
+    month: number; // 1-12
+    days: StreakCalendarDay[];
+    onPrevious?: () => void; // Omitted when there is no earlier month to show
+    onNext?: () => void; // Omitted when there is no later month to show
+}
+
+const STREAK_COLOR = '#F97316';
+const FREEZE_COLOR = '#38BDF8';
+const WEEK_DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const StreakCalendar: React.FC<StreakCalendarProps> = ({ year, month, days, onPrevious, onNext }) => {
+    const theme = useTheme();
+    const leadingBlanks = new Date(year, month - 1, 1).getDay(); // 0 = Sunday
+
+    return (
+        <View style={[styles.monthCard, { backgroundColor: theme.card }]}>
+            <View style={styles.monthHeader}>
+                <TouchableOpacity onPress={onPrevious} disabled={!onPrevious} style={styles.navButton}>
+                    <ChevronLeft size={20} color={onPrevious ? theme.text : theme.border} />
+                </TouchableOpacity>
+                <Text style={[styles.monthLabel, { color: theme.text }]}>{MONTH_NAMES[month - 1]} {year}</Text>
+                <TouchableOpacity onPress={onNext} disabled={!onNext} style={styles.navButton}>
+                    <ChevronRight size={20} color={onNext ? theme.text : theme.border} />
+                </TouchableOpacity>
+            </View>
+
+            <View style={styles.headerRow}>
+                {WEEK_DAYS.map(day => (
+                    <Text key={day} style={[styles.dayLabel, { color: theme.textSecondary }]}>{day}</Text>
+                ))}
+            </View>
+
+            <View style={styles.grid}>
+                {Array.from({ length: leadingBlanks }, (_, i) => <View key={`empty-${i}`} style={styles.dayCell} />)}
+                {days.map(day => {
+                    const dayOfMonth = Number(day.date.slice(8, 10));
+                    const qualified = day.status === 'qualified';
+                    const frozen = day.status === 'frozen';
+
+                    return (
+                        <View key={day.date} style={styles.dayCell}>
+                            <View style={[
+                                styles.dayCircle,
+                                qualified && { backgroundColor: STREAK_COLOR },
+                                frozen && { backgroundColor: 'rgba(56, 189, 248, 0.2)', borderColor: FREEZE_COLOR, borderWidth: 1 },
+                                day.status === 'today' && { borderColor: STREAK_COLOR, borderWidth: 1, borderStyle: 'dashed' }
+                            ]}>
+                                <Text style={[
+                                    styles.dateText,
+                                    { color: qualified ? 'white' : frozen ? FREEZE_COLOR : day.status === 'future' ? theme.textTertiary : theme.text }
+                                ]}>
+                                    {frozen ? '❄' : dayOfMonth}
+                                </Text>
+                            </View>
+                        </View>
+                    );
+                })}
+            </View>
+
+            <View style={styles.legend}>
+                <View style={styles.legendItem}>
+                    <View style={[styles.legendDot, { backgroundColor: STREAK_COLOR }]} />
+                    <Text style={[styles.legendText, { color: theme.textSecondary }]}>Streak day</Text>
+                </View>
+                <View style={styles.legendItem}>
+                    <View style={[styles.legendDot, { backgroundColor: FREEZE_COLOR }]} />
+                    <Text style={[styles.legendText, { color: theme.textSecondary }]}>Freeze used</Text>
+                </View>
+            </View>
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    monthCard: {
+        borderRadius: 16,
+        padding: 16,
+        width: '100%',
+    },
+    monthHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        marginBottom: 16,
+    },
+    navButton: {
+        padding: 4,
+    },
+    monthLabel: {
+        fontSize: 18,
+        fontWeight: 'bold',
+    },
+    headerRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        marginBottom: 8,
+    },
+    dayLabel: {
+        width: '14.28%',
+        textAlign: 'center',
+        fontSize: 12,
+        fontWeight: '600',
+    },
+    grid: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        justifyContent: 'flex-start',
+    },
+    dayCell: {
+        width: '14.28%', // 100% / 7
+        aspectRatio: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+        marginBottom: 4,
+    },
+    dayCircle: {
+        width: 32,
+        height: 32,
+        borderRadius: 16,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    dateText: {
+        fontSize: 12,
+        fontWeight: '600',
+    },
+    legend: {
+        flexDirection: 'row',
+        justifyContent: 'center',
+        marginTop: 12,
+        gap: 16,
+    },
+    legendItem: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+    },
+    legendDot: {
+        width: 8,
+        height: 8,
+        borderRadius: 4,
+    },
+    legendText: {
+        fontSize: 12,
+    },
+});
@@ -0,0 +1,163 @@
+/**
+ * File: src/components/TrailMap.tsx
+ * Purpose: Trail map with the route, landmark pins and the user's virtual position.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, Dimensions, Platform } from 'react-native';
+import MapView, { Marker, Polyline } from 'react-native-maps';
+import Svg, { Path, Circle } from 'react-native-svg';
+import Constants from 'expo-constants';
+import { Trail } from '../types';
+import { useTheme } from '../context/PreferencesContext';
+import { TrailMapService, Coordinate, MapPoint } from '../services/TrailMapService';
+
+interface TrailMapProps {
+    trail: Trail;
+    currentDistanceMeters?: number | null; // null/undefined when the user is not walking this trail
+    height?: number;
+}
+
+const { width: SCREEN_WIDTH } = Dimensions.get('window');
+const SVG_PADDING = 20;
+const SCHEMATIC_SAMPLES = 64;
+const REMAINING_COLOR = '#9CA3AF';
+
+// Google Maps on Android crashes without an API key, so only use the native map when one is configured
+const HAS_NATIVE_MAPS = Platform.OS === 'ios' || !!Constants.expoConfig?.android?.config?.googleMaps?.apiKey;
+
+const toSvgPath = (points: MapPoint[]): string => {
+    return points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x.toFixed(1)} ${p.y.toFixed(1)}`).join(' ');
+};
+
+const fitRegion = (coordinates: Coordinate[]) => {
+    const lats = coordinates.map(c => c.latitude);
+    const lngs = coordinates.map(c => c.longitude);
+    const minLat = Math.min(...lats);
+    const maxLat = Math.max(...lats);
+    const minLng = Math.min(...lngs);
+    const maxLng = Math.max(...lngs);
+    return {
+        latitude: (minLat + maxLat) / 2,
+        longitude: (minLng + maxLng) / 2,
+        latitudeDelta: Math.max((maxLat - minLat) * 1.4, 0.01),
+        longitudeDelta: Math.max((maxLng - minLng) * 1.4, 0.01)
+    };
+};
+
+export const TrailMap: React.FC<TrailMapProps> = ({ trail, currentDistanceMeters, height = 220 }) => {
+    const theme = useTheme();
+    const width = SCREEN_WIDTH - 40; // Account for section padding
+    const isWalking = currentDistanceMeters !== null && currentDistanceMeters !== undefined;
+    const walkedMeters = Math.min(currentDistanceMeters ?? 0, trail.totalDistanceMeters);
+
+    const path = useMemo(() => TrailMapService.getPath(trail), [trail]);
+    const isGeographic = path.length > 0 && TrailMapService.hasGeographicPath(path);
+
+    if (isGeographic && HAS_NATIVE_MAPS) {
+        const { walked, remaining } = TrailMapService.splitPathAtDistance(path, walkedMeters);
+        const position = TrailMapService.getPositionAtDistance(path, walkedMeters);
+
+        return (
+            <View style={[styles.container, { height, borderColor: theme.border }]}>
+                <MapView style={StyleSheet.absoluteFill} initialRegion={fitRegion(path)}>
+                    <Polyline coordinates={remaining} strokeColor={REMAINING_COLOR} strokeWidth={4} lineDashPattern={[6, 6]} />
+                    {isWalking && <Polyline coordinates={walked} strokeColor={trail.color} strokeWidth={5} />}
+                    {trail.landmarks.map(landmark => (
+                        <Marker
+                            key={landmark.id}
+                            coordinate={TrailMapService.getLandmarkPosition(path, landmark)}
+                            title={landmark.name}
+                            description={landmark.description}
+                            pinColor={isWalking && walkedMeters >= landmark.distanceMeters ? trail.color : REMAINING_COLOR}
+                        />
+                    ))}
+                    {isWalking && (
+                        <Marker coordinate={position} title="You are here" anchor={{ x: 0.5, y: 0.5 }}>
+                            <View style={[styles.positionDot, { backgroundColor: trail.color }]} />
+                        </Marker>
+                    )}
+                </MapView>
+            </View>
+        );
+    }
+
+    // Static SVG fallback: a projection of the real coordinates, or a schematic curve if there are none
+    const svgHeight = height - 24;
+    let pointAt: (distanceMeters: number) => MapPoint;
+    let routePoints: MapPoint[];
+
+    if (isGeographic) {
+        const project = TrailMapService.createProjection(path, width, svgHeight, SVG_PADDING);
+        pointAt = (d) => project(TrailMapService.getPositionAtDistance(path, d));
+        routePoints = path.map(project);
+    } else {
+        const total = trail.totalDistanceMeters || 1;
+        pointAt = (d) => TrailMapService.getSchematicPoint(d / total, width, svgHeight, SVG_PADDING);
+        routePoints = Array.from({ length: SCHEMATIC_SAMPLES + 1 }, (_, i) => pointAt((i / SCHEMATIC_SAMPLES) * total));
+    }
+
+    // Walked part: every route point up to the current position, then the position itself
+    const walkedFraction = trail.totalDistanceMeters > 0 ? walkedMeters / trail.totalDistanceMeters : 0;
+    const walkedCount = isGeographic
+        ? path.filter(p => p.distanceMeters < walkedMeters).length
+        : Math.floor(walkedFraction * SCHEMATIC_SAMPLES) + 1;
+    const position = pointAt(walkedMeters);
+    const walkedPoints = [...routePoints.slice(0, walkedCount), position];
+
+    return (
+        <View style={[styles.container, { height, borderColor: theme.border, backgroundColor: theme.card }]}>
+            <Svg width={width} height={svgHeight}>
+                <Path d={toSvgPath(routePoints)} stroke={REMAINING_COLOR} strokeWidth={3} strokeDasharray="6,6" fill="none" strokeLinecap="round" strokeLinejoin="round" />
+                {isWalking && walkedMeters > 0 && (
+                    <Path d={toSvgPath(walkedPoints)} stroke={trail.color} strokeWidth={4} fill="none" strokeLinecap="round" strokeLinejoin="round" />
+                )}
+                {trail.landmarks.map(landmark => {
+                    const point = pointAt(landmark.distanceMeters);
+                    const reached = isWalking && walkedMeters >= landmark.distanceMeters;
+                    return (
+                        <Circle
+                            key={landmark.id}
+                            cx={point.x}
+                            cy={point.y}
+                            r={5}
+                            fill={reached ? trail.color : theme.card}
+                            stroke={reached ? trail.color : REMAINING_COLOR}
+                            strokeWidth={2}
+                        />
+                    );
+                })}
+                {isWalking && (
+                    <Circle cx={position.x} cy={position.y} r={8} fill={trail.color} stroke="white" strokeWidth={3} />
+                )}
+            </Svg>
+            <Text style={[styles.caption, { color: theme.textTertiary }]}>
+                {isGeographic ? 'Map preview' : 'Route diagram (not to scale)'}
+            </Text>
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        borderRadius: 16,
+        borderWidth: 1,
+        overflow: 'hidden',
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    caption: {
+        fontSize: 11,
+        marginBottom: 6,
+    },
+    positionDot: {
+        width: 18,
+        height: 18,
+        borderRadius: 9,
+        borderWidth: 3,
+        borderColor: 'white',
+    },
+});
+
+export default TrailMap;
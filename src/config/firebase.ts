@@ -3,10 +3,13 @@
  * Purpose: Firebase configuration and initialization
  * Created: 2026-01-14
  * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Connect to the Firestore emulator when EXPO_PUBLIC_FIRESTORE_EMULATOR_HOST is set.
  */
 import { initializeApp } from 'firebase/app';
 import { getAuth, initializeAuth, getReactNativePersistence } from 'firebase/auth';
-import { getFirestore } from 'firebase/firestore';
+import { connectFirestoreEmulator, getFirestore } from 'firebase/firestore';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 const firebaseConfig = {
@@ -29,4 +32,12 @@ export const auth = initializeAuth(app, {
 // Initialize Firestore
 export const db = getFirestore(app);
 
+// Local development against `firebase emulators:start`, e.g. EXPO_PUBLIC_FIRESTORE_EMULATOR_HOST=10.0.2.2:8080
+const emulatorHost = process.env.EXPO_PUBLIC_FIRESTORE_EMULATOR_HOST;
+if (emulatorHost) {
+    const [host, port] = emulatorHost.split(':');
+    connectFirestoreEmulator(db, host, Number(port) || 8080);
+    if (__DEV__) console.log(`[Firebase] Using Firestore emulator at ${host}:${Number(port) || 8080}`);
+}
+
 export default app;
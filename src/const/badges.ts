@@ -1,26 +1,67 @@
 /**
  * File: src/const/badges.ts
- * Purpose: Definitions of all badges - monthly challenges, trail badges, and super badges.
+ * Purpose: Definitions of all badges - monthly challenges, trail badges, and super badges. Each badge is data:
+ * a rule that BadgeRuleEngine evaluates, so new kinds of badge need no new code.
  * Created: 2024-01-12
  * Author: AI Assistant
  *
  * Modification History:
  * 2024-01-12: Added badge collections.
  * 2026-01-15: Complete revamp - monthly recurring badges with step/distance goals.
+ * 2026-10-19: Added challenge badges for winning head-to-head challenges.
+ * 2026-10-19: Added streak badges.
+ * 2026-10-19: Badges are defined by declarative rules (see BadgeRuleEngine); added the Special Feats collection.
+ * 2026-10-19: These badges are the bundled fallback for the remote badge catalog (see BadgeCatalogService).
  */
 
 // ============================================
 // BADGE TYPE DEFINITIONS
 // ============================================
 
+// What a rule measures. Step and distance totals come from UserProgress for the month and lifetime
+// windows and from the daily logs for the others; the day-based metrics always come from the daily logs.
+export type BadgeMetric =
+    | 'steps'
+    | 'distance' // Meters
+    | 'qualifyingDays' // Days in the window that pass the rule's day filter
+    | 'consecutiveDays' // Longest run of consecutive days in the window that pass the day filter
+    | 'trailsCompleted' // Catalog trails completed (custom trails do not count)
+    | 'trailsRemaining' // Catalog trails not yet completed
+    | 'challengesWon'
+    | 'longestStreak'
+    | 'monthlyBadges' // Monthly badges unlocked this month
+    | 'monthlyMasters'; // Months mastered this year
+
+// Period the metric is measured over, ending today. 'week' is the last 7 days.
+export type BadgeWindow = 'day' | 'week' | 'month' | 'year' | 'lifetime';
+
+export type BadgeComparator = '>=' | '>' | '<=' | '<' | '==';
+
+// Which days count for qualifyingDays and consecutiveDays
+export interface DayFilter {
+    minSteps?: number; // Default 1, any activity
+    fromHour?: number; // Only count steps from this local hour (0-23)...
+    beforeHour?: number; // ...and before this one (1-24). Needs hourly steps; days without them never pass.
+}
+
+export interface BadgeRule {
+    metric: BadgeMetric;
+    window: BadgeWindow;
+    comparator: BadgeComparator;
+    threshold: number;
+    day?: DayFilter;
+    month?: number; // Only in this calendar month (1-12)
+    prerequisites?: string[]; // Badges of the same period that must be unlocked first
+}
+
 export interface Badge {
     id: string;
     name: string;
     description: string;
     icon: string;
-    conditionType: 'MONTHLY_STEPS' | 'MONTHLY_DISTANCE' | 'TRAILS_COMPLETED' | 'MONTHLY_MASTER' | 'YEARLY_CHAMPION';
-    conditionValue: number;
-    collection: 'steps' | 'distance' | 'trails' | 'monthly' | 'yearly';
+    period: 'monthly' | 'yearly' | 'lifetime'; // When an unlock resets
+    rule: BadgeRule;
+    collection: string; // Id of its BadgeCollection
 }
 
 export interface BadgeCollection {
@@ -31,44 +72,82 @@ export interface BadgeCollection {
     badges: Badge[];
 }
 
+// Monthly and lifetime badges served from Firestore. Master and champion badges are not part of it.
+export interface BadgeCatalog {
+    version: number; // Newer versions replace older cached catalogs
+    badges: Badge[];
+}
+
 // ============================================
 // MONTHLY STEP BADGES (7 badges - reset monthly)
 // ============================================
 export const MONTHLY_STEP_BADGES: Badge[] = [
-    { id: 'step-5k', name: 'First Steps', description: 'Walk 5,000 steps this month', icon: '👶', conditionType: 'MONTHLY_STEPS', conditionValue: 5000, collection: 'steps' },
-    { id: 'step-10k', name: 'Getting Moving', description: 'Walk 10,000 steps this month', icon: '🚶', conditionType: 'MONTHLY_STEPS', conditionValue: 10000, collection: 'steps' },
-    { id: 'step-25k', name: 'Stride Master', description: 'Walk 25,000 steps this month', icon: '🎯', conditionType: 'MONTHLY_STEPS', conditionValue: 25000, collection: 'steps' },
-    { id: 'step-50k', name: 'Step Champion', description: 'Walk 50,000 steps this month', icon: '⭐', conditionType: 'MONTHLY_STEPS', conditionValue: 50000, collection: 'steps' },
-    { id: 'step-100k', name: 'Century Walker', description: 'Walk 100,000 steps this month', icon: '💯', conditionType: 'MONTHLY_STEPS', conditionValue: 100000, collection: 'steps' },
-    { id: 'step-250k', name: 'Step Legend', description: 'Walk 250,000 steps this month', icon: '🌟', conditionType: 'MONTHLY_STEPS', conditionValue: 250000, collection: 'steps' },
-    { id: 'step-500k', name: 'Step Titan', description: 'Walk 500,000 steps this month', icon: '👑', conditionType: 'MONTHLY_STEPS', conditionValue: 500000, collection: 'steps' },
+    { id: 'step-5k', name: 'First Steps', description: 'Walk 5,000 steps this month', icon: '👶', period: 'monthly', rule: { metric: 'steps', window: 'month', comparator: '>=', threshold: 5000 }, collection: 'steps' },
+    { id: 'step-10k', name: 'Getting Moving', description: 'Walk 10,000 steps this month', icon: '🚶', period: 'monthly', rule: { metric: 'steps', window: 'month', comparator: '>=', threshold: 10000 }, collection: 'steps' },
+    { id: 'step-25k', name: 'Stride Master', description: 'Walk 25,000 steps this month', icon: '🎯', period: 'monthly', rule: { metric: 'steps', window: 'month', comparator: '>=', threshold: 25000 }, collection: 'steps' },
+    { id: 'step-50k', name: 'Step Champion', description: 'Walk 50,000 steps this month', icon: '⭐', period: 'monthly', rule: { metric: 'steps', window: 'month', comparator: '>=', threshold: 50000 }, collection: 'steps' },
+    { id: 'step-100k', name: 'Century Walker', description: 'Walk 100,000 steps this month', icon: '💯', period: 'monthly', rule: { metric: 'steps', window: 'month', comparator: '>=', threshold: 100000 }, collection: 'steps' },
+    { id: 'step-250k', name: 'Step Legend', description: 'Walk 250,000 steps this month', icon: '🌟', period: 'monthly', rule: { metric: 'steps', window: 'month', comparator: '>=', threshold: 250000 }, collection: 'steps' },
+    { id: 'step-500k', name: 'Step Titan', description: 'Walk 500,000 steps this month', icon: '👑', period: 'monthly', rule: { metric: 'steps', window: 'month', comparator: '>=', threshold: 500000 }, collection: 'steps' },
 ];
 
 // ============================================
 // MONTHLY DISTANCE BADGES (8 badges - reset monthly)
 // ============================================
 export const MONTHLY_DISTANCE_BADGES: Badge[] = [
-    { id: 'dist-5k', name: '5K Explorer', description: 'Cover 5 km this month', icon: '📏', conditionType: 'MONTHLY_DISTANCE', conditionValue: 5000, collection: 'distance' },
-    { id: 'dist-10k', name: '10K Traveler', description: 'Cover 10 km this month', icon: '🏃', conditionType: 'MONTHLY_DISTANCE', conditionValue: 10000, collection: 'distance' },
-    { id: 'dist-21k', name: 'Half Marathon', description: 'Cover 21 km this month', icon: '🎖️', conditionType: 'MONTHLY_DISTANCE', conditionValue: 21000, collection: 'distance' },
-    { id: 'dist-42k', name: 'Marathon Master', description: 'Cover 42 km this month', icon: '🏁', conditionType: 'MONTHLY_DISTANCE', conditionValue: 42000, collection: 'distance' },
-    { id: 'dist-50k', name: 'Ultra Runner', description: 'Cover 50 km this month', icon: '🦅', conditionType: 'MONTHLY_DISTANCE', conditionValue: 50000, collection: 'distance' },
-    { id: 'dist-100k', name: 'Century Seeker', description: 'Cover 100 km this month', icon: '🚀', conditionType: 'MONTHLY_DISTANCE', conditionValue: 100000, collection: 'distance' },
-    { id: 'dist-150k', name: 'Distance King', description: 'Cover 150 km this month', icon: '🌍', conditionType: 'MONTHLY_DISTANCE', conditionValue: 150000, collection: 'distance' },
-    { id: 'dist-200k', name: 'Distance Demon', description: 'Cover 200 km this month', icon: '👹', conditionType: 'MONTHLY_DISTANCE', conditionValue: 200000, collection: 'distance' },
+    { id: 'dist-5k', name: '5K Explorer', description: 'Cover 5 km this month', icon: '📏', period: 'monthly', rule: { metric: 'distance', window: 'month', comparator: '>=', threshold: 5000 }, collection: 'distance' },
+    { id: 'dist-10k', name: '10K Traveler', description: 'Cover 10 km this month', icon: '🏃', period: 'monthly', rule: { metric: 'distance', window: 'month', comparator: '>=', threshold: 10000 }, collection: 'distance' },
+    { id: 'dist-21k', name: 'Half Marathon', description: 'Cover 21 km this month', icon: '🎖️', period: 'monthly', rule: { metric: 'distance', window: 'month', comparator: '>=', threshold: 21000 }, collection: 'distance' },
+    { id: 'dist-42k', name: 'Marathon Master', description: 'Cover 42 km this month', icon: '🏁', period: 'monthly', rule: { metric: 'distance', window: 'month', comparator: '>=', threshold: 42000 }, collection: 'distance' },
+    { id: 'dist-50k', name: 'Ultra Runner', description: 'Cover 50 km this month', icon: '🦅', period: 'monthly', rule: { metric: 'distance', window: 'month', comparator: '>=', threshold: 50000 }, collection: 'distance' },
+    { id: 'dist-100k', name: 'Century Seeker', description: 'Cover 100 km this month', icon: '🚀', period: 'monthly', rule: { metric: 'distance', window: 'month', comparator: '>=', threshold: 100000 }, collection: 'distance' },
+    { id: 'dist-150k', name: 'Distance King', description: 'Cover 150 km this month', icon: '🌍', period: 'monthly', rule: { metric: 'distance', window: 'month', comparator: '>=', threshold: 150000 }, collection: 'distance' },
+    { id: 'dist-200k', name: 'Distance Demon', description: 'Cover 200 km this month', icon: '👹', period: 'monthly', rule: { metric: 'distance', window: 'month', comparator: '>=', threshold: 200000 }, collection: 'distance' },
 ];
 
 // ============================================
 // TRAIL COMPLETION BADGES (7 badges - lifetime)
 // ============================================
 export const TRAIL_BADGES: Badge[] = [
-    { id: 'trail-1', name: 'Trail Starter', description: 'Complete your first trail', icon: '🥇', conditionType: 'TRAILS_COMPLETED', conditionValue: 1, collection: 'trails' },
-    { id: 'trail-3', name: 'Path Finder', description: 'Complete 3 trails', icon: '🗺️', conditionType: 'TRAILS_COMPLETED', conditionValue: 3, collection: 'trails' },
-    { id: 'trail-5', name: 'Trail Blazer', description: 'Complete 5 trails', icon: '🔥', conditionType: 'TRAILS_COMPLETED', conditionValue: 5, collection: 'trails' },
-    { id: 'trail-10', name: 'Explorer Elite', description: 'Complete 10 trails', icon: '⛰️', conditionType: 'TRAILS_COMPLETED', conditionValue: 10, collection: 'trails' },
-    { id: 'trail-15', name: 'Trail Master', description: 'Complete 15 trails', icon: '🏔️', conditionType: 'TRAILS_COMPLETED', conditionValue: 15, collection: 'trails' },
-    { id: 'trail-25', name: 'Adventure Legend', description: 'Complete 25 trails', icon: '🌄', conditionType: 'TRAILS_COMPLETED', conditionValue: 25, collection: 'trails' },
-    { id: 'trail-all', name: 'Trail Conqueror', description: 'Complete all trails', icon: '🏆', conditionType: 'TRAILS_COMPLETED', conditionValue: -1, collection: 'trails' }, // -1 means "all"
+    { id: 'trail-1', name: 'Trail Starter', description: 'Complete your first trail', icon: '🥇', period: 'lifetime', rule: { metric: 'trailsCompleted', window: 'lifetime', comparator: '>=', threshold: 1 }, collection: 'trails' },
+    { id: 'trail-3', name: 'Path Finder', description: 'Complete 3 trails', icon: '🗺️', period: 'lifetime', rule: { metric: 'trailsCompleted', window: 'lifetime', comparator: '>=', threshold: 3 }, collection: 'trails' },
+    { id: 'trail-5', name: 'Trail Blazer', description: 'Complete 5 trails', icon: '🔥', period: 'lifetime', rule: { metric: 'trailsCompleted', window: 'lifetime', comparator: '>=', threshold: 5 }, collection: 'trails' },
+    { id: 'trail-10', name: 'Explorer Elite', description: 'Complete 10 trails', icon: '⛰️', period: 'lifetime', rule: { metric: 'trailsCompleted', window: 'lifetime', comparator: '>=', threshold: 10 }, collection: 'trails' },
+    { id: 'trail-15', name: 'Trail Master', description: 'Complete 15 trails', icon: '🏔️', period: 'lifetime', rule: { metric: 'trailsCompleted', window: 'lifetime', comparator: '>=', threshold: 15 }, collection: 'trails' },
+    { id: 'trail-25', name: 'Adventure Legend', description: 'Complete 25 trails', icon: '🌄', period: 'lifetime', rule: { metric: 'trailsCompleted', window: 'lifetime', comparator: '>=', threshold: 25 }, collection: 'trails' },
+    { id: 'trail-all', name: 'Trail Conqueror', description: 'Complete all trails', icon: '🏆', period: 'lifetime', rule: { metric: 'trailsRemaining', window: 'lifetime', comparator: '<=', threshold: 0 }, collection: 'trails' },
+];
+
+// ============================================
+// CHALLENGE BADGES (5 badges - lifetime)
+// ============================================
+export const CHALLENGE_BADGES: Badge[] = [
+    { id: 'challenge-1', name: 'First Victory', description: 'Win your first challenge', icon: '🥊', period: 'lifetime', rule: { metric: 'challengesWon', window: 'lifetime', comparator: '>=', threshold: 1 }, collection: 'challenges' },
+    { id: 'challenge-3', name: 'Hat Trick', description: 'Win 3 challenges', icon: '🎩', period: 'lifetime', rule: { metric: 'challengesWon', window: 'lifetime', comparator: '>=', threshold: 3 }, collection: 'challenges' },
+    { id: 'challenge-5', name: 'Rival Crusher', description: 'Win 5 challenges', icon: '💪', period: 'lifetime', rule: { metric: 'challengesWon', window: 'lifetime', comparator: '>=', threshold: 5 }, collection: 'challenges' },
+    { id: 'challenge-10', name: 'Undisputed', description: 'Win 10 challenges', icon: '🥇', period: 'lifetime', rule: { metric: 'challengesWon', window: 'lifetime', comparator: '>=', threshold: 10 }, collection: 'challenges' },
+    { id: 'challenge-25', name: 'Challenge Legend', description: 'Win 25 challenges', icon: '👑', period: 'lifetime', rule: { metric: 'challengesWon', window: 'lifetime', comparator: '>=', threshold: 25 }, collection: 'challenges' },
+];
+
+// ============================================
+// STREAK BADGES (6 badges - lifetime, by longest streak)
+// ============================================
+export const STREAK_BADGES: Badge[] = [
+    { id: 'streak-3', name: 'Warming Up', description: 'Keep a 3-day streak', icon: '🕯️', period: 'lifetime', rule: { metric: 'longestStreak', window: 'lifetime', comparator: '>=', threshold: 3 }, collection: 'streaks' },
+    { id: 'streak-7', name: 'Week Strong', description: 'Keep a 7-day streak', icon: '🔥', period: 'lifetime', rule: { metric: 'longestStreak', window: 'lifetime', comparator: '>=', threshold: 7 }, collection: 'streaks' },
+    { id: 'streak-14', name: 'Fortnight Force', description: 'Keep a 14-day streak', icon: '⚡', period: 'lifetime', rule: { metric: 'longestStreak', window: 'lifetime', comparator: '>=', threshold: 14 }, collection: 'streaks' },
+    { id: 'streak-30', name: 'Habit Formed', description: 'Keep a 30-day streak', icon: '🌋', period: 'lifetime', rule: { metric: 'longestStreak', window: 'lifetime', comparator: '>=', threshold: 30 }, collection: 'streaks' },
+    { id: 'streak-100', name: 'Unstoppable', description: 'Keep a 100-day streak', icon: '☄️', period: 'lifetime', rule: { metric: 'longestStreak', window: 'lifetime', comparator: '>=', threshold: 100 }, collection: 'streaks' },
+    { id: 'streak-365', name: 'Year of Steps', description: 'Keep a 365-day streak', icon: '🌞', period: 'lifetime', rule: { metric: 'longestStreak', window: 'lifetime', comparator: '>=', threshold: 365 }, collection: 'streaks' },
+];
+
+// ============================================
+// SPECIAL FEAT BADGES (lifetime, from the daily logs)
+// ============================================
+export const FEAT_BADGES: Badge[] = [
+    { id: 'early-bird', name: 'Early Bird', description: 'Walk 1,000 steps before 7am', icon: '🐦', period: 'lifetime', rule: { metric: 'qualifyingDays', window: 'lifetime', comparator: '>=', threshold: 1, day: { minSteps: 1000, beforeHour: 7 } }, collection: 'feats' },
+    { id: 'power-trio', name: 'Power Trio', description: 'Walk 15,000+ steps 3 days in a row', icon: '⚡', period: 'lifetime', rule: { metric: 'consecutiveDays', window: 'lifetime', comparator: '>=', threshold: 3, day: { minSteps: 15000 } }, collection: 'feats' },
+    { id: 'relentless', name: 'Relentless', description: 'Walk 15,000+ steps 7 days in a row', icon: '🦾', period: 'lifetime', rule: { metric: 'consecutiveDays', window: 'lifetime', comparator: '>=', threshold: 7, day: { minSteps: 15000 }, prerequisites: ['power-trio'] }, collection: 'feats' },
 ];
 
 // ============================================
@@ -84,16 +163,23 @@ export const MONTH_ICONS = ['🎆', '💝', '☘️', '🌷', '🌺', '🌻', '
 // ============================================
 // MONTHLY MASTER BADGES (12 badges - calendar year)
 // ============================================
+
+// Required badges to earn Monthly Master
+export const MONTHLY_MASTER_REQUIREMENT = 10;
+
 export const MONTHLY_MASTER_BADGES: Badge[] = MONTH_NAMES.map((month, index) => ({
     id: `master-${index + 1}`,
     name: `${month} Master`,
     description: `Earn Monthly Master in ${month}`,
     icon: MONTH_ICONS[index],
-    conditionType: 'MONTHLY_MASTER',
-    conditionValue: index + 1, // 1 for Jan, 2 for Feb, etc.
+    period: 'yearly',
+    rule: { metric: 'monthlyBadges', window: 'month', comparator: '>=', threshold: MONTHLY_MASTER_REQUIREMENT, month: index + 1 },
     collection: 'monthly'
 }));
 
+// The yearly champion badge ("2026 Champion") is named after its year, so it is a rule without a Badge
+export const YEARLY_CHAMPION_RULE: BadgeRule = { metric: 'monthlyMasters', window: 'year', comparator: '>=', threshold: 12 };
+
 // ============================================
 // COLLECTIONS FOR UI DISPLAY
 // ============================================
@@ -125,6 +211,27 @@ export const BADGE_COLLECTIONS: BadgeCollection[] = [
         description: 'Collect all 12 monthly masters',
         emoji: '📅',
         badges: MONTHLY_MASTER_BADGES
+    },
+    {
+        id: 'challenges',
+        name: 'Challenge Champions',
+        description: 'Lifetime challenge wins',
+        emoji: '🥊',
+        badges: CHALLENGE_BADGES
+    },
+    {
+        id: 'streaks',
+        name: 'Streak Keepers',
+        description: 'Lifetime streak records',
+        emoji: '🔥',
+        badges: STREAK_BADGES
+    },
+    {
+        id: 'feats',
+        name: 'Special Feats',
+        description: 'One-off walking feats',
+        emoji: '✨',
+        badges: FEAT_BADGES
     }
 ];
 
@@ -134,8 +241,11 @@ export const ALL_MONTHLY_BADGES: Badge[] = [...MONTHLY_STEP_BADGES, ...MONTHLY_D
 // Total monthly badges count
 export const MONTHLY_BADGES_TOTAL = ALL_MONTHLY_BADGES.length; // 15
 
-// Required badges to earn Monthly Master
-export const MONTHLY_MASTER_REQUIREMENT = 10;
+// All lifetime badges, checked in this order
+export const LIFETIME_BADGES: Badge[] = [...TRAIL_BADGES, ...CHALLENGE_BADGES, ...STREAK_BADGES, ...FEAT_BADGES];
+
+// Bundled catalog: the offline fallback for BadgeCatalogService. Screens should read badges from useBadgeCatalog().
+export const BADGES: Badge[] = [...ALL_MONTHLY_BADGES, ...LIFETIME_BADGES];
 
-// Export all badges for compatibility
-export const BADGES: Badge[] = [...ALL_MONTHLY_BADGES, ...TRAIL_BADGES];
+// Version of the badges shipped with this build. A remote catalog only replaces them when it is newer.
+export const BUNDLED_BADGE_CATALOG_VERSION = 1;
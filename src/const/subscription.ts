@@ -3,7 +3,11 @@
  * Purpose: Subscription-related constants for the freemium model.
  * Created: 2026-01-17
  * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Custom trails are free for everyone.
  */
+import { CUSTOM_TRAIL_ID_PREFIX } from './trails';
 
 // Trails that are available for free users
 export const FREE_TRAIL_IDS = [
@@ -15,10 +19,18 @@ export const FREE_TRAIL_IDS = [
 // Maximum number of active trails for free users
 export const FREE_MAX_ACTIVE_TRAILS = 3;
 
+// Maximum number of active trails for premium users
+export const PRO_MAX_ACTIVE_TRAILS = 10;
+
 // Default daily goal for free users (in steps)
 export const FREE_DEFAULT_DAILY_GOAL = 10000;
 
-// Helper function to check if a trail is free
+// Helper function to check if a trail is free (user-created trails always are)
 export const isTrailFree = (trailId: string): boolean => {
-    return FREE_TRAIL_IDS.includes(trailId as any);
+    return FREE_TRAIL_IDS.includes(trailId as any) || trailId.startsWith(CUSTOM_TRAIL_ID_PREFIX);
+};
+
+// Helper function to get how many trails can be walked at once
+export const getMaxActiveTrails = (isPro: boolean): number => {
+    return isPro ? PRO_MAX_ACTIVE_TRAILS : FREE_MAX_ACTIVE_TRAILS;
 };
@@ -6,8 +6,11 @@
  *
  * Modification History:
  * 2024-01-12: Documentation added.
+ * 2026-10-19: Bundled trails are tagged with a category and a catalog version.
+ * 2026-10-19: Added the id prefix for user-created trails.
+ * 2026-10-19: Kedarkantha Trek ships with route geometry.
  */
-import { Trail } from '../types';
+import { Trail, TrailCategory } from '../types';
 
 // Classic Adventures (Americas & Asia) - REMOVED
 
@@ -80,13 +83,22 @@ export const INDIAN_TRAILS: Trail[] = [
         color: '#F59E0B',
         difficulty: 'Moderate',
         image: require('../../assets/kedarkantha_trek.png'),
-        startCoordinate: { latitude: 31.02, longitude: 78.17 },
-        endCoordinate: { latitude: 31.02, longitude: 78.17 },
+        startCoordinate: { latitude: 31.0765, longitude: 78.1855 },
+        endCoordinate: { latitude: 31.0765, longitude: 78.1855 },
         region: {
-            latitude: 31.02,
-            longitude: 78.17,
-            latitudeDelta: 0.05,
-            longitudeDelta: 0.05,
+            latitude: 31.05,
+            longitude: 78.205,
+            latitudeDelta: 0.08,
+            longitudeDelta: 0.08,
+        },
+        route: {
+            type: 'LineString',
+            coordinates: [
+                [78.1855, 31.0765], [78.1985, 31.0700], [78.2010, 31.0615], [78.2150, 31.0560],
+                [78.2190, 31.0420], [78.2320, 31.0360], [78.2250, 31.0220], [78.2080, 31.0280],
+                [78.2030, 31.0400], [78.1880, 31.0470], [78.1900, 31.0620], [78.1760, 31.0700],
+                [78.1855, 31.0765],
+            ],
         },
         landmarks: [
             { id: 'kt1', name: 'Sankri', distanceMeters: 0, description: 'Base village' },
@@ -683,6 +695,18 @@ export const CITY_MARATHONS: Trail[] = [
     },
 ];
 
-// Combined for backward compatibility
-export const TRAILS: Trail[] = [...INDIAN_TRAILS, ...CLASSIC_MARATHONS, ...CITY_MARATHONS];
+// Ids of user-created trails start with this so they never collide with catalog trails
+export const CUSTOM_TRAIL_ID_PREFIX = 'custom-';
+
+// Version of the trails shipped with this build. A remote catalog only replaces them when it is newer.
+export const BUNDLED_CATALOG_VERSION = 1;
+
+const withCategory = (trails: Trail[], category: TrailCategory): Trail[] => trails.map(t => ({ ...t, category }));
+
+// Bundled catalog: the offline fallback for TrailCatalogService. Screens should read trails from useTrailCatalog().
+export const TRAILS: Trail[] = [
+    ...withCategory(INDIAN_TRAILS, 'india'),
+    ...withCategory(CLASSIC_MARATHONS, 'classicMarathon'),
+    ...withCategory(CITY_MARATHONS, 'cityMarathon')
+];
 
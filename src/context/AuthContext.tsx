@@ -8,6 +8,7 @@
  * 2024-01-12: Documentation added.
  * 2024-01-13: Removed Google and Facebook OAuth (to be added with development build later).
  * 2026-01-14: Migrated to Firebase Authentication and Firestore.
+ * 2026-10-19: Added the user's workplace wellness organization.
  */
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import {
@@ -30,6 +31,7 @@ interface User {
     email: string;
     profileImage?: string;
     createdAt?: string; // ISO date string of account creation
+    organizationId?: string | null; // Workplace wellness organization; null after leaving one
 }
 
 interface AuthContextType {
@@ -65,7 +67,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
                             firstName: userData.firstName,
                             lastName: userData.lastName,
                             profileImage: userData.profileImage,
-                            createdAt: userData.createdAt
+                            createdAt: userData.createdAt,
+                            organizationId: userData.organizationId ?? null
                         });
                     } else {
                         // User doc doesn't exist, sign out
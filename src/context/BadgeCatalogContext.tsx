@@ -0,0 +1,70 @@
+/**
+ * File: src/context/BadgeCatalogContext.tsx
+ * Purpose: Provides the badge catalog (bundled badges plus any newer remote catalog) to the app.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { AppState } from 'react-native';
+import { Badge } from '../const/badges';
+import { BadgeCatalogService, LoadedBadgeCatalog } from '../services/BadgeCatalogService';
+import { useAuth } from './AuthContext';
+
+interface BadgeCatalogContextType {
+    badges: Badge[]; // Monthly and lifetime badges; master and champion badges are built in
+    catalogVersion: number;
+    getBadge: (badgeId: string) => Badge | undefined;
+    getCollectionBadges: (collectionId: string) => Badge[];
+    refreshCatalog: () => Promise<void>;
+}
+
+const bundled = BadgeCatalogService.getBundledCatalog();
+
+const BadgeCatalogContext = createContext<BadgeCatalogContextType>({
+    badges: bundled.badges,
+    catalogVersion: bundled.version,
+    getBadge: (badgeId) => bundled.badges.find(b => b.id === badgeId),
+    getCollectionBadges: (collectionId) => bundled.badges.filter(b => b.collection === collectionId),
+    refreshCatalog: async () => { },
+});
+
+export const BadgeCatalogProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const { user } = useAuth();
+    const [catalog, setCatalog] = useState<LoadedBadgeCatalog>(bundled);
+
+    // Cached catalog first so the app works offline, then check Firestore once signed in
+    useEffect(() => {
+        BadgeCatalogService.loadCatalog().then(setCatalog);
+    }, []);
+
+    const refreshCatalog = useCallback(async () => {
+        const updated = await BadgeCatalogService.refreshCatalog();
+        if (updated) setCatalog(updated);
+    }, []);
+
+    useEffect(() => {
+        if (!user) return;
+        refreshCatalog();
+
+        const subscription = AppState.addEventListener('change', (state) => {
+            if (state === 'active') refreshCatalog();
+        });
+        return () => subscription.remove();
+    }, [user?.id, refreshCatalog]);
+
+    const value = useMemo<BadgeCatalogContextType>(() => ({
+        badges: catalog.badges,
+        catalogVersion: catalog.version,
+        getBadge: (badgeId) => catalog.badges.find(b => b.id === badgeId),
+        getCollectionBadges: (collectionId) => catalog.badges.filter(b => b.collection === collectionId),
+        refreshCatalog,
+    }), [catalog, refreshCatalog]);
+
+    return (
+        <BadgeCatalogContext.Provider value={value}>
+            {children}
+        </BadgeCatalogContext.Provider>
+    );
+};
+
+export const useBadgeCatalog = () => useContext(BadgeCatalogContext);
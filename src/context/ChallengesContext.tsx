@@ -0,0 +1,183 @@
+/**
+ * File: src/context/ChallengesContext.tsx
+ * Purpose: Head-to-head challenges the user is in or invited to: creating and answering them,
+ * publishing the user's daily steps and declaring winners.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Added joinChallenge for organization challenges.
+ */
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { Challenge } from '../types';
+import { ChallengeDetails, ChallengeService } from '../services/ChallengeService';
+import { ChallengeDraft, ChallengeStandingsService } from '../services/ChallengeStandingsService';
+import { StorageService } from '../services/StorageService';
+import { toLocalDateKey } from '../utils/date';
+import { useAuth } from './AuthContext';
+import { useGame } from './GameContext';
+
+// Friends' steps only arrive when they sync, so there is no point checking more often
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+interface ChallengesContextType {
+    challenges: ChallengeDetails[]; // Challenges the user is in, newest first
+    invitations: Challenge[]; // Invites the user has not answered
+    isLoading: boolean;
+    refresh: () => Promise<void>;
+    getChallenge: (challengeId: string) => ChallengeDetails | undefined;
+    createChallenge: (draft: ChallengeDraft) => Promise<Challenge>; // Throws a user-facing Error
+    acceptInvite: (challenge: Challenge) => Promise<void>;
+    joinChallenge: (challenge: Challenge) => Promise<void>; // Organization challenges, which have no invites
+    declineInvite: (challenge: Challenge) => Promise<void>;
+    leaveChallenge: (challengeId: string) => Promise<void>;
+}
+
+const ChallengesContext = createContext<ChallengesContextType>({} as ChallengesContextType);
+
+export const ChallengesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const { user } = useAuth();
+    const { progress, recordChallengeWins } = useGame();
+
+    const [challenges, setChallenges] = useState<ChallengeDetails[]>([]);
+    const [invitations, setInvitations] = useState<Challenge[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+
+    const progressRef = useRef(progress);
+    const lastRefreshAtRef = useRef(0);
+
+    useEffect(() => {
+        progressRef.current = progress;
+    }, [progress]);
+
+    const refresh = useCallback(async () => {
+        if (!user) return;
+        setIsLoading(true);
+        try {
+            const [{ challenges: list, invitations: invites }, logs] = await Promise.all([
+                ChallengeService.getChallenges(user.id),
+                StorageService.getDailyLogs(user.id)
+            ]);
+            const details = await Promise.all(list.map(async (challenge): Promise<ChallengeDetails> => ({
+                challenge,
+                entries: await ChallengeService.getEntries(challenge.id)
+            })));
+            const today = toLocalDateKey();
+
+            for (const detail of details) {
+                const { challenge } = detail;
+                if (challenge.winnerIds || today < challenge.startDate) continue;
+
+                // Publish the user's days if friends have not seen the latest ones
+                const days = ChallengeStandingsService.getLogsInRange(challenge, logs);
+                const published = detail.entries.find(e => e.userId === user.id);
+                if (ChallengeStandingsService.hasChanged(published?.days, days)) {
+                    await ChallengeService.publishEntry(user, challenge.id, days);
+                    detail.entries = [
+                        ...detail.entries.filter(e => e.userId !== user.id),
+                        { ...(published ?? { userId: user.id, name: user.name }), days, updatedAt: new Date().toISOString() }
+                    ];
+                }
+
+                const standings = ChallengeStandingsService.getStandings(challenge, detail.entries, user.id);
+                if (ChallengeStandingsService.getStatus(challenge, standings, today) === 'final') {
+                    detail.challenge = await ChallengeService.declareWinner(challenge, ChallengeStandingsService.getWinnerIds(standings));
+                }
+            }
+
+            setChallenges(details);
+            setInvitations(invites);
+            lastRefreshAtRef.current = Date.now();
+
+            const newWins = ChallengeStandingsService.getNewWins(
+                details.map(d => d.challenge),
+                user.id,
+                progressRef.current?.challengesWon ?? []
+            );
+            if (newWins.length > 0) {
+                await recordChallengeWins(newWins);
+            }
+        } finally {
+            setIsLoading(false);
+        }
+    }, [user?.id, user?.name, recordChallengeWins]);
+
+    // Start from a clean slate for each signed-in user
+    useEffect(() => {
+        setChallenges([]);
+        setInvitations([]);
+        lastRefreshAtRef.current = 0;
+    }, [user?.id]);
+
+    // Exchange steps with the other participants after syncs, at most every few minutes
+    useEffect(() => {
+        if (!user || !progress) return;
+        const wait = Math.max(lastRefreshAtRef.current + REFRESH_INTERVAL_MS - Date.now(), 0);
+        const timer = setTimeout(() => {
+            refresh().catch(error => {
+                if (__DEV__) console.log('[Challenges] Refresh failed, will retry on next sync:', error);
+            });
+        }, wait);
+        return () => clearTimeout(timer);
+    }, [user?.id, progress?.lastSyncTime]);
+
+    const getChallenge = (challengeId: string) => challenges.find(c => c.challenge.id === challengeId);
+
+    const createChallenge = async (draft: ChallengeDraft) => {
+        if (!user) throw new Error('You must be signed in to start a challenge.');
+        const problem = ChallengeStandingsService.validateDraft(draft, toLocalDateKey());
+        if (problem) throw new Error(problem);
+
+        const challenge = await ChallengeService.createChallenge(user, draft);
+        setChallenges(prev => [{
+            challenge,
+            entries: [{ userId: user.id, name: user.name, days: [], updatedAt: challenge.createdAt }]
+        }, ...prev]);
+        return challenge;
+    };
+
+    const acceptInvite = async (challenge: Challenge) => {
+        if (!user) return;
+        const logs = await StorageService.getDailyLogs(user.id);
+        await ChallengeService.acceptInvite(user, challenge, ChallengeStandingsService.getLogsInRange(challenge, logs));
+        await refresh();
+    };
+
+    const joinChallenge = async (challenge: Challenge) => {
+        if (!user) return;
+        const logs = await StorageService.getDailyLogs(user.id);
+        await ChallengeService.joinChallenge(user, challenge, ChallengeStandingsService.getLogsInRange(challenge, logs));
+        await refresh();
+    };
+
+    const declineInvite = async (challenge: Challenge) => {
+        if (!user) return;
+        await ChallengeService.declineInvite(user.id, challenge.id);
+        setInvitations(prev => prev.filter(c => c.id !== challenge.id));
+    };
+
+    const leaveChallenge = async (challengeId: string) => {
+        if (!user) return;
+        await ChallengeService.leaveChallenge(user.id, challengeId);
+        setChallenges(prev => prev.filter(c => c.challenge.id !== challengeId));
+    };
+
+    return (
+        <ChallengesContext.Provider value={{
+            challenges,
+            invitations,
+            isLoading,
+            refresh,
+            getChallenge,
+            createChallenge,
+            acceptInvite,
+            joinChallenge,
+            declineInvite,
+            leaveChallenge
+        }}>
+            {children}
+        </ChallengesContext.Provider>
+    );
+};
+
+export const useChallenges = () => useContext(ChallengesContext);
@@ -0,0 +1,196 @@
+/**
+ * File: src/context/ExpeditionsContext.tsx
+ * Purpose: Group expeditions the user belongs to: creating and joining them, publishing the user's
+ * steps and pulling in teammates' steps.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { Expedition } from '../types';
+import { ExpeditionDetails, ExpeditionService } from '../services/ExpeditionService';
+import { ExpeditionProgressService } from '../services/ExpeditionProgressService';
+import { TrailSessionService } from '../services/TrailSessionService';
+import { getMaxActiveTrails, isTrailFree } from '../const/subscription';
+import { useAuth } from './AuthContext';
+import { useGame } from './GameContext';
+import { useSubscription } from './SubscriptionContext';
+import { useTrailCatalog } from './TrailCatalogContext';
+
+// Teammates' steps only arrive when they sync, so there is no point checking more often
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+interface ExpeditionsContextType {
+    expeditions: ExpeditionDetails[]; // Newest first
+    isLoading: boolean;
+    refresh: () => Promise<void>;
+    getExpedition: (expeditionId: string) => ExpeditionDetails | undefined;
+    createExpedition: (trailId: string, targetDays: number) => Promise<Expedition>; // Throws a user-facing Error
+    joinExpedition: (code: string) => Promise<Expedition>; // Throws a user-facing Error
+    leaveExpedition: (expeditionId: string) => Promise<void>;
+}
+
+const ExpeditionsContext = createContext<ExpeditionsContextType>({} as ExpeditionsContextType);
+
+export const ExpeditionsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const { user } = useAuth();
+    const { progress, startExpedition, applyExpeditionTotals, cancelTrail } = useGame();
+    const { isPro } = useSubscription();
+    const { getTrail } = useTrailCatalog();
+
+    const [expeditions, setExpeditions] = useState<ExpeditionDetails[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+
+    const progressRef = useRef(progress);
+    const lastRefreshAtRef = useRef(0);
+
+    useEffect(() => {
+        progressRef.current = progress;
+    }, [progress]);
+
+    const refresh = useCallback(async () => {
+        if (!user) return;
+        setIsLoading(true);
+        try {
+            const list = await ExpeditionService.getExpeditions(user.id);
+            const details = await Promise.all(list.map(async (expedition): Promise<ExpeditionDetails> => ({
+                expedition,
+                contributions: await ExpeditionService.getContributions(expedition.id)
+            })));
+
+            for (const detail of details) {
+                const { expedition } = detail;
+                const current = progressRef.current;
+
+                // Publish the user's own steps if teammates have not seen them yet
+                const own = current
+                    ? ExpeditionProgressService.getOwnContribution(expedition.id, current.activeTrails, current.completedTrails)
+                    : undefined;
+                const published = detail.contributions.find(c => c.userId === user.id);
+                if (own && (!published || own.steps > published.steps || (own.steps === published.steps && own.distanceMeters !== published.distanceMeters))) {
+                    await ExpeditionService.publishContribution(user, expedition.id, own);
+                    detail.contributions = [
+                        ...detail.contributions.filter(c => c.userId !== user.id),
+                        { ...(published ?? { userId: user.id, name: user.name }), steps: own.steps, distanceMeters: own.distanceMeters, updatedAt: new Date().toISOString() }
+                    ];
+                }
+
+                await applyExpeditionTotals(expedition.id, ExpeditionProgressService.getTeamTotals(detail.contributions, user.id));
+
+                const trail = getTrail(expedition.trailId);
+                if (trail && !expedition.completedDate && ExpeditionProgressService.isComplete(trail, detail.contributions)) {
+                    const completedDate = new Date().toISOString();
+                    await ExpeditionService.markCompleted(expedition, completedDate);
+                    detail.expedition = { ...expedition, completedDate };
+                }
+            }
+
+            setExpeditions(details);
+            lastRefreshAtRef.current = Date.now();
+        } finally {
+            setIsLoading(false);
+        }
+    }, [user?.id, user?.name, getTrail, applyExpeditionTotals]);
+
+    // Changes whenever a sync credits the user's part of an expedition, or one finishes
+    const ownContributionsKey = useMemo(() => JSON.stringify([
+        ...(progress?.activeTrails ?? []).map(s => s.expedition),
+        ...(progress?.completedTrails ?? []).map(ct => ct.expedition)
+    ].filter(Boolean)), [progress]);
+
+    // Start from a clean slate for each signed-in user
+    useEffect(() => {
+        setExpeditions([]);
+        lastRefreshAtRef.current = 0;
+    }, [user?.id]);
+
+    // Exchange steps with the team after syncs, at most every few minutes
+    useEffect(() => {
+        if (!user || !progress) return;
+        const wait = Math.max(lastRefreshAtRef.current + REFRESH_INTERVAL_MS - Date.now(), 0);
+        const timer = setTimeout(() => {
+            refresh().catch(error => {
+                if (__DEV__) console.log('[Expeditions] Refresh failed, will retry on next sync:', error);
+            });
+        }, wait);
+        return () => clearTimeout(timer);
+    }, [user?.id, ownContributionsKey]);
+
+    const getExpedition = (expeditionId: string) => expeditions.find(e => e.expedition.id === expeditionId);
+
+    /**
+     * Helper: Check everything that would stop the user walking this trail, before touching Firestore
+     */
+    const assertCanWalk = (trailId: string) => {
+        const trail = getTrail(trailId);
+        if (!trail) {
+            throw new Error("This expedition's trail is not available on your device. Update Stridr and try again.");
+        }
+        if (trail.category === 'custom') {
+            throw new Error('Custom trails are private, so they cannot be walked as an expedition.');
+        }
+        if (!isPro && !isTrailFree(trailId)) {
+            throw new Error(`${trail.name} is a Pro trail. Upgrade to Stridr Pro to walk it with a group.`);
+        }
+        if (TrailSessionService.getSession(progress, trailId)) {
+            throw new Error('You are already walking this trail. Finish or cancel it to join the expedition.');
+        }
+        if (!TrailSessionService.canStartTrail(progress, isPro)) {
+            throw new Error(`You can walk up to ${getMaxActiveTrails(isPro)} trails at once. Finish or cancel one to start another.`);
+        }
+        return trail;
+    };
+
+    const createExpedition = async (trailId: string, targetDays: number) => {
+        if (!user) throw new Error('You must be signed in to start an expedition.');
+        const trail = assertCanWalk(trailId);
+
+        const expedition = await ExpeditionService.createExpedition(user, trail, targetDays);
+        await startExpedition(expedition);
+        setExpeditions(prev => [{
+            expedition,
+            contributions: [{ userId: user.id, name: user.name, steps: 0, distanceMeters: 0, updatedAt: expedition.createdAt }]
+        }, ...prev]);
+        return expedition;
+    };
+
+    const joinExpedition = async (code: string) => {
+        if (!user) throw new Error('You must be signed in to join an expedition.');
+        const expedition = await ExpeditionService.findByCode(code);
+        if (!expedition) {
+            throw new Error('No expedition found with that code.');
+        }
+        assertCanWalk(expedition.trailId);
+
+        const seed = await ExpeditionService.joinExpedition(user, expedition);
+        await startExpedition(expedition, seed);
+        await refresh();
+        return expedition;
+    };
+
+    const leaveExpedition = async (expeditionId: string) => {
+        if (!user) return;
+        await ExpeditionService.leaveExpedition(user.id, expeditionId);
+
+        const session = progress?.activeTrails.find(s => s.expedition?.id === expeditionId);
+        if (session) {
+            await cancelTrail(session.trailId);
+        }
+        setExpeditions(prev => prev.filter(e => e.expedition.id !== expeditionId));
+    };
+
+    return (
+        <ExpeditionsContext.Provider value={{
+            expeditions,
+            isLoading,
+            refresh,
+            getExpedition,
+            createExpedition,
+            joinExpedition,
+            leaveExpedition
+        }}>
+            {children}
+        </ExpeditionsContext.Provider>
+    );
+};
+
+export const useExpeditions = () => useContext(ExpeditionsContext);
@@ -0,0 +1,105 @@
+/**
+ * File: src/context/FeedContext.tsx
+ * Purpose: The activity feed of the user's and friends' milestones, with cheers and comments.
+ * Events are posted by GameContext when a sync detects them.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { FeedComment, FeedEvent } from '../types';
+import { FeedService } from '../services/FeedService';
+import { FeedEventService } from '../services/FeedEventService';
+import { useAuth } from './AuthContext';
+import { useFriends } from './FriendsContext';
+
+interface FeedContextType {
+    events: FeedEvent[]; // Newest first
+    isLoading: boolean;
+    refresh: () => Promise<void>;
+    toggleCheer: (event: FeedEvent) => Promise<void>;
+    getComments: (event: FeedEvent) => Promise<FeedComment[]>;
+    addComment: (event: FeedEvent, text: string) => Promise<FeedComment>; // Throws a user-facing Error
+    deleteComment: (event: FeedEvent, comment: FeedComment) => Promise<void>;
+}
+
+const FeedContext = createContext<FeedContextType>({} as FeedContextType);
+
+export const FeedProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const { user } = useAuth();
+    const { friends } = useFriends();
+
+    const [events, setEvents] = useState<FeedEvent[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+
+    const friendIds = friends.map(f => f.profile.userId);
+    const friendKey = friendIds.join(',');
+
+    const refresh = useCallback(async () => {
+        if (!user) return;
+        setIsLoading(true);
+        try {
+            setEvents(await FeedService.getFeed(user.id, friendIds));
+        } finally {
+            setIsLoading(false);
+        }
+    }, [user?.id, friendKey]);
+
+    // Start from a clean slate for each signed-in user
+    useEffect(() => {
+        setEvents([]);
+    }, [user?.id]);
+
+    /**
+     * Helper: Apply a change to one event in the loaded feed
+     */
+    const updateEvent = (eventId: string, change: (event: FeedEvent) => FeedEvent) => {
+        setEvents(prev => prev.map(e => e.id === eventId ? change(e) : e));
+    };
+
+    const toggleCheer = async (event: FeedEvent) => {
+        if (!user) return;
+        const cheering = !event.cheerIds.includes(user.id);
+        await FeedService.setCheer(event, user.id, cheering);
+        updateEvent(event.id, e => ({
+            ...e,
+            cheerIds: cheering ? [...e.cheerIds, user.id] : e.cheerIds.filter(id => id !== user.id)
+        }));
+    };
+
+    const getComments = (event: FeedEvent) => FeedService.getComments(event);
+
+    const addComment = async (event: FeedEvent, text: string) => {
+        if (!user) throw new Error('You must be signed in to comment.');
+        const problem = FeedEventService.validateComment(text);
+        if (problem) throw new Error(problem);
+
+        const comment = await FeedService.addComment(user, event, text);
+        updateEvent(event.id, e => ({ ...e, commentCount: e.commentCount + 1 }));
+        return comment;
+    };
+
+    const deleteComment = async (event: FeedEvent, comment: FeedComment) => {
+        if (!user) return;
+        if (comment.author.userId !== user.id && event.author.userId !== user.id) {
+            throw new Error('You can only delete your own comments and comments on your activity.');
+        }
+        await FeedService.deleteComment(event, comment);
+        updateEvent(event.id, e => ({ ...e, commentCount: Math.max(e.commentCount - 1, 0) }));
+    };
+
+    return (
+        <FeedContext.Provider value={{
+            events,
+            isLoading,
+            refresh,
+            toggleCheer,
+            getComments,
+            addComment,
+            deleteComment
+        }}>
+            {children}
+        </FeedContext.Provider>
+    );
+};
+
+export const useFeed = () => useContext(FeedContext);
@@ -0,0 +1,206 @@
+/**
+ * File: src/context/FriendsContext.tsx
+ * Purpose: Friends list, friend requests and publishing the stats the user shares with friends.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Weekly/monthly totals are published for friend leaderboards.
+ */
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { Friend, FriendRequest, LeaderboardMetric, LeaderboardPeriod, LeaderboardRow, PeriodTotals } from '../types';
+import { FriendService } from '../services/FriendService';
+import { FriendSharingService } from '../services/FriendSharingService';
+import { LeaderboardEntry, LeaderboardService } from '../services/LeaderboardService';
+import { StorageService } from '../services/StorageService';
+import { getDeviceTimeZone, toLocalDateKey } from '../utils/date';
+import { useAuth } from './AuthContext';
+import { useGame } from './GameContext';
+import { usePreferences } from './PreferencesContext';
+import { useTrailCatalog } from './TrailCatalogContext';
+
+// Step counts change on every sync; friends do not need them more often than this
+const PUBLISH_INTERVAL_MS = 5 * 60 * 1000;
+
+interface FriendsContextType {
+    friends: Friend[];
+    incomingRequests: FriendRequest[];
+    outgoingRequests: FriendRequest[];
+    inviteCode: string | null;
+    isLoading: boolean;
+    refresh: () => Promise<void>;
+    sendRequest: (search: string) => Promise<'sent' | 'accepted'>; // Throws a user-facing Error
+    acceptRequest: (request: FriendRequest) => Promise<void>;
+    declineRequest: (request: FriendRequest) => Promise<void>; // Also cancels a sent request
+    removeFriend: (friendId: string) => Promise<void>;
+    periodTotals: Record<LeaderboardPeriod, PeriodTotals> | null; // The user's own totals, from local DailyLogs
+    getLeaderboard: (period: LeaderboardPeriod, metric: LeaderboardMetric) => LeaderboardRow[]; // The user and friends who share totals
+}
+
+const FriendsContext = createContext<FriendsContextType>({} as FriendsContextType);
+
+export const FriendsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const { user } = useAuth();
+    const { progress, todaySteps } = useGame();
+    const { preferences } = usePreferences();
+    const { trails } = useTrailCatalog();
+
+    const [friends, setFriends] = useState<Friend[]>([]);
+    const [incomingRequests, setIncomingRequests] = useState<FriendRequest[]>([]);
+    const [outgoingRequests, setOutgoingRequests] = useState<FriendRequest[]>([]);
+    const [inviteCode, setInviteCode] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [periodTotals, setPeriodTotals] = useState<Record<LeaderboardPeriod, PeriodTotals> | null>(null);
+
+    const lastPublishedAtRef = useRef(0);
+    const lastPublishedSettingsRef = useRef<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        if (!user) return;
+        setIsLoading(true);
+        try {
+            const [friendList, requests] = await Promise.all([
+                FriendService.getFriends(user.id),
+                FriendService.getRequests(user.id)
+            ]);
+            setFriends(friendList);
+            setIncomingRequests(requests.incoming);
+            setOutgoingRequests(requests.outgoing);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [user?.id]);
+
+    // Start from a clean slate for each signed-in user
+    useEffect(() => {
+        setFriends([]);
+        setIncomingRequests([]);
+        setOutgoingRequests([]);
+        setInviteCode(null);
+        setPeriodTotals(null);
+        lastPublishedAtRef.current = 0;
+        lastPublishedSettingsRef.current = null;
+        if (!user) return;
+
+        refresh().catch(error => {
+            if (__DEV__) console.log('Friends fetch failed:', error);
+        });
+    }, [user?.id]);
+
+    // Publish the profile and lookup entries, again whenever the name or photo changes
+    useEffect(() => {
+        if (!user) return;
+        FriendService.ensureProfile(user)
+            .then(setInviteCode)
+            .catch(error => console.error('Error setting up friend profile:', error));
+    }, [user?.id, user?.name, user?.profileImage]);
+
+    // Recompute this week's and month's totals whenever a sync lands new steps
+    useEffect(() => {
+        if (!user || !progress) return;
+        let cancelled = false;
+
+        StorageService.getDailyLogs(user.id)
+            .then(logs => {
+                if (cancelled) return;
+                const today = toLocalDateKey();
+                setPeriodTotals({
+                    week: LeaderboardService.computePeriodTotals('week', logs, progress.completedTrails, today),
+                    month: LeaderboardService.computePeriodTotals('month', logs, progress.completedTrails, today)
+                });
+            })
+            .catch(error => console.error('Error computing leaderboard totals:', error));
+        return () => { cancelled = true; };
+    }, [user?.id, progress, todaySteps]);
+
+    // Keep the shared snapshot current. Sharing changes go out immediately, step updates at most every few minutes.
+    useEffect(() => {
+        if (!user || !progress) return;
+
+        const settingsKey = JSON.stringify(preferences.friendSharing);
+        const settingsChanged = settingsKey !== lastPublishedSettingsRef.current;
+        const wait = settingsChanged ? 0 : Math.max(lastPublishedAtRef.current + PUBLISH_INTERVAL_MS - Date.now(), 0);
+
+        const timer = setTimeout(async () => {
+            const stats = FriendSharingService.buildSharedStats({
+                userId: user.id,
+                progress,
+                todaySteps,
+                trails,
+                settings: preferences.friendSharing,
+                timeZone: getDeviceTimeZone(),
+                periodTotals: periodTotals ?? undefined
+            });
+            try {
+                await FriendService.publishStats(stats);
+                lastPublishedAtRef.current = Date.now();
+                lastPublishedSettingsRef.current = settingsKey;
+            } catch (error) {
+                if (__DEV__) console.log('[Friends] Publishing stats failed, will retry on next change:', error);
+            }
+        }, wait);
+        return () => clearTimeout(timer);
+    }, [user?.id, progress, todaySteps, trails, preferences.friendSharing, periodTotals]);
+
+    const sendRequest = async (search: string) => {
+        if (!user) throw new Error('You must be signed in to add friends.');
+        const { status } = await FriendService.sendRequest(user, search);
+        await refresh();
+        return status;
+    };
+
+    const acceptRequest = async (request: FriendRequest) => {
+        if (!user) return;
+        await FriendService.acceptRequest(user.id, request);
+        await refresh();
+    };
+
+    const declineRequest = async (request: FriendRequest) => {
+        await FriendService.removeRequest(request);
+        setIncomingRequests(prev => prev.filter(r => r.id !== request.id));
+        setOutgoingRequests(prev => prev.filter(r => r.id !== request.id));
+    };
+
+    const removeFriend = async (friendId: string) => {
+        if (!user) return;
+        await FriendService.removeFriend(user.id, friendId);
+        setFriends(prev => prev.filter(f => f.profile.userId !== friendId));
+    };
+
+    const getLeaderboard = useCallback((period: LeaderboardPeriod, metric: LeaderboardMetric): LeaderboardRow[] => {
+        if (!user) return [];
+        const entries: LeaderboardEntry[] = [
+            {
+                profile: { userId: user.id, name: user.name, ...(user.profileImage ? { profileImage: user.profileImage } : {}) },
+                totals: periodTotals?.[period] ?? null
+            },
+            // Friends who hide their totals are left off rather than shown at zero
+            ...friends
+                .filter(friend => friend.stats?.periodTotals)
+                .map(friend => ({ profile: friend.profile, totals: friend.stats!.periodTotals![period] }))
+        ];
+        const periodKey = LeaderboardService.getPeriodKey(period, toLocalDateKey());
+        return LeaderboardService.buildLeaderboard(entries, metric, periodKey, user.id);
+    }, [user?.id, user?.name, user?.profileImage, periodTotals, friends]);
+
+    return (
+        <FriendsContext.Provider value={{
+            friends,
+            incomingRequests,
+            outgoingRequests,
+            inviteCode,
+            isLoading,
+            refresh,
+            sendRequest,
+            acceptRequest,
+            declineRequest,
+            removeFriend,
+            periodTotals,
+            getLeaderboard
+        }}>
+            {children}
+        </FriendsContext.Provider>
+    );
+};
+
+export const useFriends = () => useContext(FriendsContext);
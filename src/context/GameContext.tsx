@@ -9,29 +9,74 @@
  * 2024-01-12: Added notification triggers for badges, goals, milestones.
  * 2026-01-15: Revamped badge system with monthly recurring badges.
  * 2026-01-20: Fixed trail sync to not count steps from before account creation.
+ * 2026-10-19: Exposed pending offline writes and replay them on resume.
+ * 2026-10-19: Multiple concurrent active trails with Free/Pro limits.
+ * 2026-10-19: Import of exported archives.
+ * 2026-10-19: Step-to-distance conversion uses the user's stride length.
+ * 2026-10-19: Sync buckets steps by local calendar day and writes today's DailyLog with its timezone.
+ * 2026-10-19: Trails come from the trail catalog instead of the bundled constant.
+ * 2026-10-19: Custom trails can be walked and completed but do not earn trail badges.
+ * 2026-10-19: Group expeditions are walked as active trails that include teammates' steps.
+ * 2026-10-19: Challenge wins unlock challenge badges.
+ * 2026-10-19: Milestones, landmarks, finished trails and new badges are posted to the activity feed.
+ * 2026-10-19: Exposed trails completed this session for the completion celebration.
+ * 2026-10-19: Applies the step source preference to StepService.
+ * 2026-10-19: Sync pipeline moved to ProgressSyncService and shared with the background sync task.
+ * 2026-10-19: Month rollover comes from the pure ProgressEngine.
+ * 2026-10-19: Debug streak tools set the StreakService state and unlock streak badges.
+ * 2026-10-19: Badge checks go through the badge rules with the stored daily logs.
+ * 2026-10-19: Badge unlocks are recorded with their time and value; existing badges are backfilled on load.
+ * 2026-10-19: The pending sync count only counts the signed-in user's writes.
+ * 2026-10-19: Recalculating distances also checks Monthly Master and Yearly Champion.
+ * 2026-10-19: Loading no longer rolls the month over before the first sync credits the previous month.
+ * 2026-10-19: Badges come from the badge catalog instead of the bundled constant.
  */
 import React, { createContext, useContext, useEffect, useState, useRef, useCallback } from 'react';
 import { AppState } from 'react-native';
-import { UserProgress, CompletedTrail, MonthlyProgress, YearlyProgress } from '../types';
+import { UserProgress, CompletedTrail, ExportArchive, Expedition } from '../types';
 import { StorageService } from '../services/StorageService';
 import { StepService } from '../services/StepService';
 import { NotificationService } from '../services/NotificationService';
 import { stepsToMeters } from '../utils/conversion';
-import { BADGES, ALL_MONTHLY_BADGES, TRAIL_BADGES } from '../const/badges';
-import { TRAILS } from '../const/trails';
 import { useAuth } from './AuthContext';
-import { StatsService } from '../services/StatsService';
 import { BadgeService } from '../services/BadgeService';
+import { SyncQueueService } from '../services/SyncQueueService';
+import { TrailSessionService } from '../services/TrailSessionService';
+import { ImportService } from '../services/ImportService';
+import { getMaxActiveTrails } from '../const/subscription';
+import { useSubscription } from './SubscriptionContext';
+import { usePreferences } from './PreferencesContext';
+import { useTrailCatalog } from './TrailCatalogContext';
+import { useBadgeCatalog } from './BadgeCatalogContext';
+import { StrideService } from '../services/StrideService';
+import { ExpeditionProgressService, TeamTotals } from '../services/ExpeditionProgressService';
+import { FeedEventService } from '../services/FeedEventService';
+import { FeedService } from '../services/FeedService';
+import { ProgressSyncService } from '../services/ProgressSyncService';
+import { ProgressEngine } from '../services/ProgressEngine';
+import { BackgroundSyncService } from '../services/BackgroundSyncService';
+import { StreakService } from '../services/StreakService';
+import { getDeviceTimeZone, toLocalDateKey } from '../utils/date';
 
 interface GameContextType {
     progress: UserProgress | null;
     isLoading: boolean;
     sync: () => Promise<void>;
-    selectTrail: (trailId: string, days: number) => Promise<void>;
-    cancelTrail: () => Promise<void>;
-    extendTrail: (additionalDays: number) => Promise<void>;
+    selectTrail: (trailId: string, days: number) => Promise<void>; // Throws if the active trail limit is reached
+    cancelTrail: (trailId: string) => Promise<void>;
+    extendTrail: (trailId: string, additionalDays: number) => Promise<void>;
+    startExpedition: (expedition: Expedition, seed?: TeamTotals) => Promise<void>; // Throws if the trail is already active or the limit is reached
+    applyExpeditionTotals: (expeditionId: string, team: TeamTotals) => Promise<void>; // Teammates' latest steps; may complete the trail
+    recordChallengeWins: (challengeIds: string[]) => Promise<void>; // Counts each challenge once and unlocks challenge badges
     todaySteps: number;
     completedTrailsCount: number;
+    newlyCompletedTrails: CompletedTrail[]; // Completed this session and not yet celebrated, oldest first
+    dismissCompletedTrail: () => void; // Drop the oldest entry once its celebration is closed
+    maxActiveTrails: number; // Free/Pro limit on concurrent trails
+    pendingSyncCount: number; // Local writes not yet replayed to Firestore
+    flushPendingWrites: () => Promise<void>;
+    importArchive: (archive: ExportArchive) => Promise<void>; // Merge a validated export archive
+    recalculateDistances: (strideLengthCm: number) => Promise<void>; // Recompute stored distances from step counts
     debug?: {
         addSteps: (amount: number) => Promise<void>;
         setStreak: (days: number) => Promise<void>;
@@ -42,24 +87,6 @@ interface GameContextType {
 
 const GameContext = createContext<GameContextType>({} as GameContextType);
 
-/**
- * Helper: Check if we need to reset monthly progress (new month started)
- */
-const checkAndResetMonthlyProgress = (currentProgress: MonthlyProgress | undefined, now: Date): { newCurrent: MonthlyProgress, toArchive: MonthlyProgress | null } => {
-    const currentYear = now.getFullYear();
-    const currentMonth = now.getMonth() + 1; // 1-12
-
-    if (!currentProgress || currentProgress.year !== currentYear || currentProgress.month !== currentMonth) {
-        if (__DEV__) console.log(`[GameContext] New month detected: ${currentMonth}/${currentYear}. Resetting monthly progress.`);
-        return {
-            newCurrent: BadgeService.createNewMonthlyProgress(currentYear, currentMonth),
-            toArchive: currentProgress || null
-        };
-    }
-
-    return { newCurrent: currentProgress, toArchive: null };
-};
-
 /**
  * Helper: Create default UserProgress
  * @param accountCreatedAt - ISO date string of when the user account was created
@@ -69,11 +96,7 @@ const createDefaultProgress = (accountCreatedAt?: string): UserProgress => {
     // Use account creation time as lastSyncTime to avoid counting steps from before signup
     const lastSyncTime = accountCreatedAt || now.toISOString();
     return {
-        selectedTrailId: null,
-        trailStartDate: null,
-        targetDays: 7,
-        totalStepsValid: 0,
-        currentDistanceMeters: 0,
+        activeTrails: [],
         stats: {
             totalStepsLifetime: 0,
             totalDistanceMetersLifetime: 0,
@@ -92,26 +115,89 @@ const createDefaultProgress = (accountCreatedAt?: string): UserProgress => {
 
 export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
     const { user } = useAuth();
+    const { isPro } = useSubscription();
+    const { preferences } = usePreferences();
+    const { trails } = useTrailCatalog();
+    const { badges } = useBadgeCatalog();
     const [progress, setProgress] = useState<UserProgress | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const [todaySteps, setTodaySteps] = useState(0);
+    const [pendingSyncCount, setPendingSyncCount] = useState(0);
+    const [newlyCompletedTrails, setNewlyCompletedTrails] = useState<CompletedTrail[]>([]);
     const progressRef = useRef<UserProgress | null>(null);
-    const previousUnlockedLandmarks = useRef<Set<string>>(new Set());
-    const goalNotifiedToday = useRef<string | null>(null);
+    const strideLengthRef = useRef(preferences.strideLength);
+    const trailsRef = useRef(trails);
+    const badgesRef = useRef(badges);
+    const shareActivityRef = useRef(preferences.friendSharing.activity);
 
     useEffect(() => {
         progressRef.current = progress;
     }, [progress]);
 
+    useEffect(() => {
+        strideLengthRef.current = preferences.strideLength;
+    }, [preferences.strideLength]);
+
+    useEffect(() => {
+        shareActivityRef.current = preferences.friendSharing.activity;
+    }, [preferences.friendSharing.activity]);
+
+    useEffect(() => {
+        StepService.setSourcePreference(preferences.stepSource);
+    }, [preferences.stepSource]);
+
+    useEffect(() => {
+        trailsRef.current = trails;
+    }, [trails]);
+
+    useEffect(() => {
+        badgesRef.current = badges;
+    }, [badges]);
+
     useEffect(() => {
         if (user) {
             loadData(user.id, user.createdAt);
         } else {
             setProgress(null);
+            setNewlyCompletedTrails([]);
             setIsLoading(false);
         }
     }, [user]);
 
+    // Keep syncing in the background for whoever is signed in
+    useEffect(() => {
+        if (user) {
+            BackgroundSyncService.register(user.id);
+        } else {
+            BackgroundSyncService.unregister();
+        }
+    }, [user?.id]);
+
+    // Track writes waiting in the offline queue
+    useEffect(() => {
+        if (!user) {
+            setPendingSyncCount(0);
+            return;
+        }
+
+        StorageService.getPendingWriteCount(user.id).then(setPendingSyncCount);
+        const unsubscribe = SyncQueueService.subscribe(user.id, setPendingSyncCount);
+        return unsubscribe;
+    }, [user]);
+
+    const flushPendingWrites = useCallback(async () => {
+        if (!user) return;
+        try {
+            const refreshed = await StorageService.flushPendingWrites(user.id);
+            if (refreshed) {
+                // Server copy had changes from another device; adopt the merged result
+                setProgress(refreshed);
+            }
+        } catch (error) {
+            console.error('Flush Error', error);
+        }
+    }, [user]);
+
     const loadData = async (userId: string, accountCreatedAt?: string) => {
         setIsLoading(true);
         let p = await StorageService.getProgress(userId);
@@ -123,59 +209,9 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
             await StorageService.saveProgress(userId, p);
         }
 
-        // Migration: Ensure stats object exists
-        if (!p.stats) {
-            if (__DEV__) console.log('Migrating: Adding stats object to UserProgress');
-            p.stats = {
-                totalStepsLifetime: p.totalStepsValid + (p.completedTrails?.reduce((acc: number, t: any) => acc + (t.totalSteps || 0), 0) || 0),
-                totalDistanceMetersLifetime: p.currentDistanceMeters,
-                completedTrailsCount: p.completedTrails?.length || 0
-            };
-        }
-
-        // Migration: Initialize monthly progress if missing
-        if (!p.monthlyProgress) {
-            if (__DEV__) console.log('Migrating: Adding monthlyProgress to UserProgress');
-            p.monthlyProgress = BadgeService.createNewMonthlyProgress(now.getFullYear(), now.getMonth() + 1);
-        }
-
-        // Migration: Initialize yearly progress if missing
-        if (!p.yearlyProgress) {
-            p.yearlyProgress = [];
-        }
-
-        // Migration: Initialize trail badges if missing
-        if (!p.trailBadges) {
-            p.trailBadges = [];
-        }
-
-        // Migration: Ensure completedTrails is array
-        if (!p.completedTrails) {
-            p.completedTrails = [];
-        } else if (p.completedTrails.length > 0 && typeof p.completedTrails[0] === 'string') {
-            if (__DEV__) console.log('Migrating completedTrails from strings to objects');
-            p.completedTrails = (p.completedTrails as any[]).map((id: string) => ({
-                trailId: id,
-                completedDate: new Date().toISOString(),
-                startDate: new Date().toISOString(),
-                totalSteps: 0,
-                totalDays: 1,
-                avgStepsPerDay: 0,
-                maxStepsInOneDay: 0
-            }));
-        }
-
-        // Migration: Initialize pastMonths if missing
-        if (!p.pastMonths) {
-            p.pastMonths = [];
-        }
-
-        // Check if month has changed and reset monthly progress
-        const { newCurrent, toArchive } = checkAndResetMonthlyProgress(p.monthlyProgress, now);
-        p.monthlyProgress = newCurrent;
-        if (toArchive) {
-            p.pastMonths = [...(p.pastMonths || []), toArchive];
-        }
+        // Bring older saves up to date and to the current month. Steps since lastSyncTime that were
+        // taken last month are added to its archived entry by the next sync.
+        p = ProgressEngine.migrateStoredProgress(p, now, getDeviceTimeZone());
 
         setProgress(p);
 
@@ -213,6 +249,7 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
         const subscription = AppState.addEventListener('change', (nextAppState) => {
             if (nextAppState === 'active') {
                 if (__DEV__) console.log('[GameContext] App resumed - triggering sync');
+                flushPendingWrites();
                 sync();
             }
         });
@@ -222,285 +259,233 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
         };
     }, [user]);
 
-    // Helper to check and handle trail completion
-    const checkAndCompleteTrail = useCallback(async (currentProgress: UserProgress): Promise<UserProgress> => {
-        if (!currentProgress.selectedTrailId || !user) return currentProgress;
-
-        const currentTrail = TRAILS.find(t => t.id === currentProgress.selectedTrailId);
-        if (!currentTrail) return currentProgress;
-
-        if (currentProgress.currentDistanceMeters >= currentTrail.totalDistanceMeters) {
-            const logs = await StorageService.getDailyLogs(user.id);
-            const completedTrail = StatsService.checkTrailCompletion(currentProgress, currentTrail, new Date(), logs);
-
-            if (completedTrail) {
-                const newCompletedTrails = [...(currentProgress.completedTrails || []), completedTrail];
-                const newCompletedCount = newCompletedTrails.length;
-
-                // Check for new trail badges
-                const newTrailBadges = BadgeService.checkTrailBadges(
-                    newCompletedCount,
-                    TRAILS.length,
-                    currentProgress.trailBadges || []
-                );
-
-                return {
-                    ...currentProgress,
-                    completedTrails: newCompletedTrails,
-                    trailBadges: [...(currentProgress.trailBadges || []), ...newTrailBadges],
-                    stats: {
-                        ...currentProgress.stats,
-                        completedTrailsCount: newCompletedCount
-                    },
-                    selectedTrailId: null,
-                    currentDistanceMeters: 0,
-                    totalStepsValid: 0,
-                    trailStartDate: null,
-                    targetDays: 0
-                };
-            }
+    // Helper to check and handle completion of every active trail
+    const checkAndCompleteTrails = useCallback(async (currentProgress: UserProgress): Promise<UserProgress> => {
+        if (!user || currentProgress.activeTrails.length === 0) return currentProgress;
+
+        const { progress: updated, completed } = await ProgressSyncService.completeFinishedTrails(user.id, currentProgress, trailsRef.current, badgesRef.current);
+        if (completed.length > 0) {
+            setNewlyCompletedTrails(prev => [...prev, ...completed]);
         }
-        return currentProgress;
+        return updated;
+    }, [user]);
+
+    const dismissCompletedTrail = useCallback(() => {
+        setNewlyCompletedTrails(prev => prev.slice(1));
+    }, []);
+
+    // Helper to post what changed between two snapshots to the activity feed, if the user shares it.
+    // Runs in the background: the feed is online-only, and events missed while offline are not retried.
+    const postActivity = useCallback((before: UserProgress, after: UserProgress) => {
+        if (!user || !shareActivityRef.current) return;
+        const drafts = FeedEventService.detectEvents(before, after, trailsRef.current, new Date().toISOString(), badgesRef.current);
+        if (drafts.length === 0) return;
+
+        FeedService.publishEvents(user, drafts).catch(error => {
+            if (__DEV__) console.log('[GameContext] Posting activity failed:', error);
+        });
     }, [user]);
 
+    // Adopt every saved sync, including background task runs while the app is alive
+    useEffect(() => {
+        if (!user) return;
+
+        const unsubscribe = ProgressSyncService.subscribe(result => {
+            if (result.userId !== user.id) return;
+            progressRef.current = result.progress;
+            setProgress(result.progress);
+            if (result.completedTrails.length > 0) {
+                setNewlyCompletedTrails(prev => [...prev, ...result.completedTrails]);
+            }
+            if (result.todaySteps !== null) setTodaySteps(result.todaySteps);
+            postActivity(result.previous, result.progress);
+        });
+        return unsubscribe;
+    }, [user, postActivity]);
+
     const sync = useCallback(async () => {
         const currentProgress = progressRef.current;
         if (!currentProgress || !user) return;
 
-        try {
-            const lastSync = new Date(currentProgress.lastSyncTime);
-            const now = new Date();
-
-            if (now <= lastSync) return;
+        await ProgressSyncService.syncProgress({
+            userId: user.id,
+            progress: currentProgress,
+            trails: trailsRef.current,
+            badges: badgesRef.current,
+            strideLengthCm: strideLengthRef.current,
+            interactive: true
+        });
+    }, [user]);
 
-            const permitted = await StepService.requestPermissions();
-            if (!permitted) {
-                if (__DEV__) console.log('Step permission denied during sync');
-                return;
-            }
+    const selectTrail = async (trailId: string, days: number) => {
+        if (!user || !progress) return;
+        if (TrailSessionService.getSession(progress, trailId)) return; // Already walking this trail
 
-            const newSteps = await StepService.getStepsBetween(lastSync, now);
+        if (!TrailSessionService.canStartTrail(progress, isPro)) {
+            throw new Error(`You can walk up to ${getMaxActiveTrails(isPro)} trails at once. Finish or cancel one to start another.`);
+        }
 
-            if (newSteps > 0) {
-                const addedDistance = stepsToMeters(newSteps);
+        const startOfToday = new Date();
+        startOfToday.setHours(0, 0, 0, 0);
 
-                // Streak Logic
-                const newStreak = StatsService.calculateStreak(currentProgress.currentStreak || 0, currentProgress.lastLogDate, now);
-                const nowString = now.toISOString().split('T')[0];
+        // Use the later of start of today or account creation time
+        // This ensures we don't count steps from before the account was created
+        const accountCreatedAt = user.createdAt ? new Date(user.createdAt) : startOfToday;
+        const syncStartTime = accountCreatedAt > startOfToday ? accountCreatedAt : startOfToday;
 
-                // Get user preferences
-                const prefs = await StorageService.getPreferences(user.id);
-                const notificationsEnabled = prefs?.notificationsEnabled ?? false;
-                const notifSettings = prefs?.notificationSettings;
+        // Today's steps that were already synced count toward the new trail.
+        // Steps after lastSyncTime will be credited by the next sync.
+        const lastSync = new Date(progress.lastSyncTime);
+        const seedSteps = lastSync > syncStartTime
+            ? await StepService.getStepsBetween(syncStartTime, lastSync)
+            : 0;
 
-                // Check if month changed and reset monthly progress
-                const { newCurrent: resetMonthly, toArchive } = checkAndResetMonthlyProgress(currentProgress.monthlyProgress, now);
-                let monthlyProgress = resetMonthly;
+        const session = TrailSessionService.createSession(trailId, days, startOfToday, seedSteps, stepsToMeters(seedSteps, preferences.strideLength));
+        const newProgress: UserProgress = {
+            ...progress,
+            activeTrails: [...progress.activeTrails, session]
+        };
+        setProgress(newProgress);
+        await StorageService.saveProgress(user.id, newProgress);
+    };
 
-                // Handle archiving if month changed during sync
-                let pastMonths = currentProgress.pastMonths || [];
-                if (toArchive) {
-                    pastMonths = [...pastMonths, toArchive];
-                }
+    const cancelTrail = async (trailId: string) => {
+        if (!user || !progress) return;
 
-                // Update monthly progress
-                monthlyProgress = {
-                    ...monthlyProgress,
-                    stepsThisMonth: monthlyProgress.stepsThisMonth + newSteps,
-                    distanceMetersThisMonth: monthlyProgress.distanceMetersThisMonth + addedDistance
-                };
-
-                // Check for new monthly badges
-                const newMonthlyBadges = BadgeService.checkAllMonthlyBadges(monthlyProgress);
-                if (newMonthlyBadges.length > 0) {
-                    monthlyProgress.unlockedBadgeIds = [...monthlyProgress.unlockedBadgeIds, ...newMonthlyBadges];
-
-                    // Badge unlock notifications
-                    if (notificationsEnabled && notifSettings?.badgeUnlock) {
-                        for (const badgeId of newMonthlyBadges) {
-                            const badge = BADGES.find(b => b.id === badgeId);
-                            if (badge) {
-                                await NotificationService.sendBadgeUnlock(badge.name, badge.icon);
-                            }
-                        }
-                    }
-                }
+        const newProgress: UserProgress = {
+            ...progress,
+            activeTrails: TrailSessionService.removeSession(progress.activeTrails, trailId),
+            // Preserve stats and other history
+        };
 
-                // Check if monthly master earned
-                let yearlyProgress = [...(currentProgress.yearlyProgress || [])];
-                if (!monthlyProgress.monthlyBadgeEarned && BadgeService.checkMonthlyMaster(monthlyProgress)) {
-                    monthlyProgress.monthlyBadgeEarned = true;
+        setProgress(newProgress);
+        await StorageService.saveProgress(user.id, newProgress);
+    };
 
-                    // Update yearly progress
-                    let yearProgress = yearlyProgress.find(yp => yp.year === monthlyProgress.year);
-                    if (!yearProgress) {
-                        yearProgress = { year: monthlyProgress.year, monthlyBadgesEarned: [], yearlyBadgeEarned: false };
-                        yearlyProgress.push(yearProgress);
-                    }
-                    if (!yearProgress.monthlyBadgesEarned.includes(monthlyProgress.month)) {
-                        yearProgress.monthlyBadgesEarned.push(monthlyProgress.month);
-                    }
+    const extendTrail = async (trailId: string, additionalDays: number) => {
+        if (!user || !progress) return;
 
-                    // Check yearly champion
-                    if (!yearProgress.yearlyBadgeEarned && BadgeService.checkYearlyChampion(yearProgress)) {
-                        yearProgress.yearlyBadgeEarned = true;
-                        if (notificationsEnabled && notifSettings?.badgeUnlock) {
-                            await NotificationService.sendBadgeUnlock(
-                                BadgeService.getYearlyChampionName(yearProgress.year),
-                                '🏆'
-                            );
-                        }
-                    }
+        const newProgress: UserProgress = {
+            ...progress,
+            activeTrails: TrailSessionService.extendSession(progress.activeTrails, trailId, additionalDays),
+        };
+        setProgress(newProgress);
+        await StorageService.saveProgress(user.id, newProgress);
+    };
 
-                    // Notify monthly master
-                    if (notificationsEnabled && notifSettings?.badgeUnlock) {
-                        await NotificationService.sendBadgeUnlock(
-                            BadgeService.getMonthlyMasterName(monthlyProgress.year, monthlyProgress.month),
-                            BadgeService.getMonthlyMasterIcon(monthlyProgress.month)
-                        );
-                    }
-                }
+    const startExpedition = async (expedition: Expedition, seed?: TeamTotals) => {
+        if (!user || !progress) return;
+        if (TrailSessionService.getSession(progress, expedition.trailId)) {
+            throw new Error('You are already walking this trail. Finish or cancel it to join the expedition.');
+        }
+        if (!TrailSessionService.canStartTrail(progress, isPro)) {
+            throw new Error(`You can walk up to ${getMaxActiveTrails(isPro)} trails at once. Finish or cancel one to start another.`);
+        }
 
-                // Build updated progress
-                let newProgress: UserProgress = {
-                    ...currentProgress,
-                    stats: {
-                        ...currentProgress.stats,
-                        totalStepsLifetime: (currentProgress.stats?.totalStepsLifetime || 0) + newSteps,
-                        totalDistanceMetersLifetime: (currentProgress.stats?.totalDistanceMetersLifetime || 0) + addedDistance,
-                        completedTrailsCount: currentProgress.completedTrails?.length || 0
-                    },
-                    totalStepsValid: currentProgress.selectedTrailId ? currentProgress.totalStepsValid + newSteps : currentProgress.totalStepsValid,
-                    currentDistanceMeters: currentProgress.selectedTrailId ? currentProgress.currentDistanceMeters + addedDistance : currentProgress.currentDistanceMeters,
-                    lastSyncTime: now.toISOString(),
-                    currentStreak: newStreak,
-                    lastLogDate: nowString,
-                    completedTrails: currentProgress.completedTrails || [],
-                    monthlyProgress,
-                    pastMonths,
-                    yearlyProgress
-                };
-
-                // Trail milestone notifications
-                const currentTrail = newProgress.selectedTrailId
-                    ? TRAILS.find(t => t.id === newProgress.selectedTrailId)
-                    : null;
-                const prevPercent = currentTrail
-                    ? Math.floor((currentProgress.currentDistanceMeters / currentTrail.totalDistanceMeters) * 100)
-                    : 0;
-
-                // Check for Trail Completion
-                const wasCompleted = newProgress.selectedTrailId !== null;
-                if (currentTrail) {
-                    newProgress = await checkAndCompleteTrail(newProgress);
-                }
-                const isNowCompleted = newProgress.selectedTrailId === null && wasCompleted;
+        const newProgress: UserProgress = {
+            ...progress,
+            activeTrails: [...progress.activeTrails, ExpeditionProgressService.createSession(expedition, seed)]
+        };
+        setProgress(newProgress);
+        await StorageService.saveProgress(user.id, newProgress);
+    };
 
-                if (isNowCompleted) {
-                    newProgress.stats.completedTrailsCount = newProgress.completedTrails.length;
-                }
+    const applyExpeditionTotals = async (expeditionId: string, team: TeamTotals) => {
+        const currentProgress = progressRef.current;
+        if (!user || !currentProgress) return;
 
-                // Trail milestone notifications
-                if (notificationsEnabled && notifSettings?.milestone && currentTrail && !isNowCompleted) {
-                    const newPercent = Math.floor((newProgress.currentDistanceMeters / currentTrail.totalDistanceMeters) * 100);
-                    const milestones = [25, 50, 75];
-                    for (const milestone of milestones) {
-                        if (prevPercent < milestone && newPercent >= milestone) {
-                            await NotificationService.sendMilestone(milestone, currentTrail.name);
-                            break;
-                        }
-                    }
-                }
+        const activeTrails = ExpeditionProgressService.applyTeamTotals(currentProgress.activeTrails, expeditionId, team);
+        if (activeTrails === currentProgress.activeTrails) return;
 
-                // Trail completion notification
-                if (isNowCompleted && notificationsEnabled && notifSettings?.milestone && currentTrail) {
-                    await NotificationService.sendMilestone(100, currentTrail.name);
-                }
+        // Teammates' steps reach landmarks and the finish the same way the user's own do
+        let newProgress = await checkAndCompleteTrails({ ...currentProgress, activeTrails });
+        newProgress = {
+            ...newProgress,
+            stats: { ...newProgress.stats, completedTrailsCount: newProgress.completedTrails.length }
+        };
+        progressRef.current = newProgress; // Several expeditions can be applied back to back
+        setProgress(newProgress);
+        await StorageService.saveProgress(user.id, newProgress);
+        postActivity(currentProgress, newProgress);
+    };
 
-                // Landmark notifications
-                if (notificationsEnabled && notifSettings?.landmarkReached && currentTrail) {
-                    const newlyReachedLandmarks = currentTrail.landmarks.filter(
-                        lm => lm.distanceMeters <= newProgress.currentDistanceMeters &&
-                            !previousUnlockedLandmarks.current.has(lm.id)
-                    );
-                    for (const lm of newlyReachedLandmarks) {
-                        await NotificationService.sendLandmarkReached(lm.name);
-                        previousUnlockedLandmarks.current.add(lm.id);
-                    }
-                }
+    /**
+     * Helper: Context for checking badge rules outside a sync, with the stored daily logs
+     */
+    const loadBadgeContext = async (userId: string, currentProgress: UserProgress) =>
+        ProgressEngine.badgeContext(currentProgress, await StorageService.getDailyLogs(userId), toLocalDateKey(), trailsRef.current, badgesRef.current);
 
-                setProgress(newProgress);
-                await StorageService.saveProgress(user.id, newProgress);
+    const recordChallengeWins = async (challengeIds: string[]) => {
+        const currentProgress = progressRef.current;
+        if (!user || !currentProgress) return;
 
-                const today = await StepService.getTodaySteps();
-                setTodaySteps(today);
+        const known = new Set(currentProgress.challengesWon || []);
+        const newWins = challengeIds.filter(id => !known.has(id));
+        if (newWins.length === 0) return;
 
-                // Goal achievement notification
-                const dailyGoal = prefs?.dailyGoal ?? 10000;
-                if (notificationsEnabled && notifSettings?.goalAchievement) {
-                    if (today >= dailyGoal && goalNotifiedToday.current !== nowString) {
-                        await NotificationService.sendGoalAchievement(dailyGoal);
-                        goalNotifiedToday.current = nowString;
+        const withWins: UserProgress = {
+            ...currentProgress,
+            challengesWon: [...(currentProgress.challengesWon || []), ...newWins]
+        };
+        const context = await loadBadgeContext(user.id, withWins);
+        const newBadges = BadgeService.checkLifetimeBadges(context);
+        const unlockedAt = new Date().toISOString();
+        const newProgress = BadgeService.addUnlocks(
+            BadgeService.addLifetimeBadges(withWins, newBadges, badgesRef.current),
+            newBadges.map(badgeId => BadgeService.createUnlock(badgeId, context, unlockedAt))
+        );
+        progressRef.current = newProgress;
+        setProgress(newProgress);
+        await StorageService.saveProgress(user.id, newProgress);
+        postActivity(currentProgress, newProgress);
+
+        if (newBadges.length > 0) {
+            const prefs = await StorageService.getPreferences(user.id);
+            if (prefs?.notificationsEnabled && prefs?.notificationSettings?.badgeUnlock) {
+                for (const badgeId of newBadges) {
+                    const badge = badgesRef.current.find(b => b.id === badgeId);
+                    if (badge) {
+                        await NotificationService.sendBadgeUnlock(badge.name, badge.icon);
                     }
                 }
-            } else {
-                // Even if no steps, check if month changed
-                const { newCurrent, toArchive } = checkAndResetMonthlyProgress(currentProgress.monthlyProgress, now);
-                let pastMonths = currentProgress.pastMonths || [];
-                if (toArchive) {
-                    pastMonths = [...pastMonths, toArchive];
-                }
-
-                const newProgress = { ...currentProgress, lastSyncTime: now.toISOString(), monthlyProgress: newCurrent, pastMonths };
-                setProgress(newProgress);
-                await StorageService.saveProgress(user.id, newProgress);
             }
-        } catch (error) {
-            console.error('Sync Error', error);
         }
-    }, [user, checkAndCompleteTrail]);
+    };
 
-    const selectTrail = async (trailId: string, days: number) => {
-        if (!user) return;
-        const startOfToday = new Date();
-        startOfToday.setHours(0, 0, 0, 0);
+    const importArchive = async (archive: ExportArchive) => {
+        if (!user || !progress) return;
 
-        // Use the later of start of today or account creation time
-        // This ensures we don't count steps from before the account was created
-        const accountCreatedAt = user.createdAt ? new Date(user.createdAt) : startOfToday;
-        const syncStartTime = accountCreatedAt > startOfToday ? accountCreatedAt : startOfToday;
+        const existingLogs = await StorageService.getDailyLogs(user.id);
+        const result = ImportService.applyImport(archive, progress, existingLogs);
 
-        const newProgress: UserProgress = {
-            selectedTrailId: trailId,
-            targetDays: days,
-            trailStartDate: startOfToday.toISOString(),
-            totalStepsValid: 0,
-            currentDistanceMeters: 0,
-            stats: progress?.stats || {
-                totalStepsLifetime: 0,
-                totalDistanceMetersLifetime: 0,
-                completedTrailsCount: 0
-            },
-            lastSyncTime: syncStartTime.toISOString(),
-            monthlyProgress: progress?.monthlyProgress || BadgeService.createNewMonthlyProgress(startOfToday.getFullYear(), startOfToday.getMonth() + 1),
-            pastMonths: progress?.pastMonths || [],
-            yearlyProgress: progress?.yearlyProgress || [],
-            trailBadges: progress?.trailBadges || [],
-            completedTrails: progress?.completedTrails || [],
-            currentStreak: progress?.currentStreak || 0,
-            lastLogDate: progress?.lastLogDate || null
-        };
+        if (result.dailyLogs.length > 0) {
+            await StorageService.saveDailyLogs(user.id, result.dailyLogs);
+        }
+        // Imported badges have no unlock records, so estimate them like the migration does
+        const newProgress = BadgeService.backfillUnlocks(result.progress, badgesRef.current);
         setProgress(newProgress);
         await StorageService.saveProgress(user.id, newProgress);
     };
 
-    const extendTrail = async (additionalDays: number) => {
+    const recalculateDistances = async (strideLengthCm: number) => {
         if (!user || !progress) return;
 
-        const newProgress: UserProgress = {
-            ...progress,
-            targetDays: progress.targetDays + additionalDays,
-        };
+        const logs = await StorageService.getDailyLogs(user.id);
+        const changedLogs = StrideService.recalculateDailyLogs(logs, strideLengthCm);
+        if (changedLogs.length > 0) {
+            await StorageService.saveDailyLogs(user.id, changedLogs);
+        }
+
+        let newProgress = StrideService.recalculateProgress(progress, strideLengthCm);
+
+        // A longer stride can push this month past distance badges, and with them Monthly Master, or finish a trail
+        const changedByDate = new Map(changedLogs.map(log => [log.date, log]));
+        const newLogs = logs.map(log => changedByDate.get(log.date) || log);
+        const context = ProgressEngine.badgeContext(newProgress, newLogs, toLocalDateKey(), trailsRef.current, badgesRef.current);
+        const { monthlyProgress, yearlyProgress, unlocks } = ProgressEngine.awardMonthlyBadges(context, new Date());
+        newProgress = BadgeService.addUnlocks({ ...newProgress, monthlyProgress, yearlyProgress }, unlocks);
+        newProgress = await checkAndCompleteTrails(newProgress);
+
         setProgress(newProgress);
         await StorageService.saveProgress(user.id, newProgress);
     };
@@ -515,30 +500,24 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
             isLoading,
             sync,
             selectTrail,
-            cancelTrail: async () => {
-                if (!user || !progress) return;
-
-                const now = new Date();
-                const newProgress: UserProgress = {
-                    ...progress,
-                    selectedTrailId: null,
-                    trailStartDate: null,
-                    targetDays: 0,
-                    totalStepsValid: 0,
-                    currentDistanceMeters: 0,
-                    // Preserve stats and other history
-                };
-
-                setProgress(newProgress);
-                await StorageService.saveProgress(user.id, newProgress);
-            },
+            cancelTrail,
             extendTrail,
+            startExpedition,
+            applyExpeditionTotals,
+            recordChallengeWins,
             todaySteps,
             completedTrailsCount: progress?.completedTrails?.length || 0,
+            newlyCompletedTrails,
+            dismissCompletedTrail,
+            maxActiveTrails: getMaxActiveTrails(isPro),
+            pendingSyncCount,
+            flushPendingWrites,
+            importArchive,
+            recalculateDistances,
             debug: {
                 addSteps: async (amount: number) => {
                     if (!progress || !user) return;
-                    const addedDistance = stepsToMeters(amount);
+                    const addedDistance = stepsToMeters(amount, preferences.strideLength);
 
                     // Update monthly progress
                     let monthlyProgress = { ...progress.monthlyProgress };
@@ -546,31 +525,46 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
                     monthlyProgress.distanceMetersThisMonth += addedDistance;
 
                     // Check monthly badges
-                    const newMonthlyBadges = BadgeService.checkAllMonthlyBadges(monthlyProgress);
+                    const context = await loadBadgeContext(user.id, { ...progress, monthlyProgress });
+                    const newMonthlyBadges = BadgeService.checkMonthlyBadges(context);
                     if (newMonthlyBadges.length > 0) {
                         monthlyProgress.unlockedBadgeIds = [...monthlyProgress.unlockedBadgeIds, ...newMonthlyBadges];
                     }
 
                     // Check monthly master
-                    if (!monthlyProgress.monthlyBadgeEarned && BadgeService.checkMonthlyMaster(monthlyProgress)) {
+                    const unlockedIds = [...newMonthlyBadges];
+                    if (BadgeService.checkMonthlyMaster(context)) {
                         monthlyProgress.monthlyBadgeEarned = true;
+                        unlockedIds.push(`master-${monthlyProgress.month}`);
                     }
 
-                    let newProgress: UserProgress = {
+                    const unlockedAt = new Date().toISOString();
+                    let newProgress: UserProgress = BadgeService.addUnlocks({
                         ...progress,
-                        totalStepsValid: progress.totalStepsValid + amount,
-                        currentDistanceMeters: progress.currentDistanceMeters + addedDistance,
+                        activeTrails: TrailSessionService.addSteps(progress.activeTrails, amount, addedDistance),
                         monthlyProgress
-                    };
+                    }, unlockedIds.map(badgeId => BadgeService.createUnlock(badgeId, context, unlockedAt)));
 
-                    newProgress = await checkAndCompleteTrail(newProgress);
+                    newProgress = await checkAndCompleteTrails(newProgress);
 
                     setProgress(newProgress);
                     await StorageService.saveProgress(user.id, newProgress);
                 },
                 setStreak: async (days: number) => {
                     if (!progress || !user) return;
-                    const newProgress = { ...progress, currentStreak: days };
+                    const streak = StreakService.fromProgress(progress);
+                    const today = toLocalDateKey();
+                    const newProgress: UserProgress = {
+                        ...progress,
+                        currentStreak: days,
+                        streak: {
+                            ...streak,
+                            current: days,
+                            longest: Math.max(streak.longest, days),
+                            lastQualifiedDate: days > 0 ? today : streak.lastQualifiedDate,
+                            coveredThrough: days > 0 ? today : streak.coveredThrough
+                        }
+                    };
                     setProgress(newProgress);
                     await StorageService.saveProgress(user.id, newProgress);
                 },
@@ -578,11 +572,7 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
                     if (!user) return;
                     const now = new Date();
                     await StorageService.saveProgress(user.id, {
-                        selectedTrailId: null,
-                        trailStartDate: null,
-                        targetDays: 0,
-                        totalStepsValid: 0,
-                        currentDistanceMeters: 0,
+                        activeTrails: [],
                         stats: {
                             totalStepsLifetime: 0,
                             totalDistanceMetersLifetime: 0,
@@ -596,22 +586,32 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
                         completedTrails: [],
                         currentStreak: 0,
                         lastLogDate: null
-                    });
+                    }, { replace: true });
                     loadData(user.id);
                 },
                 unlockAllBadges: async () => {
                     if (!progress || !user) return;
-                    const allMonthlyIds = ALL_MONTHLY_BADGES.map(b => b.id);
-                    const allTrailIds = TRAIL_BADGES.map(b => b.id);
-                    const newProgress = {
+                    const allMonthlyIds = badgesRef.current.filter(b => b.period === 'monthly').map(b => b.id);
+                    const lifetimeIds = badgesRef.current.filter(b => b.period === 'lifetime').map(b => b.id);
+                    const unlocked = BadgeService.addLifetimeBadges({
                         ...progress,
                         monthlyProgress: {
                             ...progress.monthlyProgress,
                             unlockedBadgeIds: allMonthlyIds,
                             monthlyBadgeEarned: true
                         },
-                        trailBadges: allTrailIds
-                    };
+                        trailBadges: [],
+                        challengeBadges: [],
+                        streakBadges: [],
+                        lifetimeBadges: []
+                    }, lifetimeIds, badgesRef.current);
+                    const context = await loadBadgeContext(user.id, unlocked);
+                    const unlockedAt = new Date().toISOString();
+                    const newProgress = BadgeService.addUnlocks(
+                        unlocked,
+                        [...allMonthlyIds, `master-${unlocked.monthlyProgress.month}`, ...lifetimeIds]
+                            .map(badgeId => BadgeService.createUnlock(badgeId, context, unlockedAt))
+                    );
                     setProgress(newProgress);
                     await StorageService.saveProgress(user.id, newProgress);
                 }
@@ -0,0 +1,267 @@
+/**
+ * File: src/context/OrganizationContext.tsx
+ * Purpose: The user's workplace wellness organization: joining or creating one, publishing the user's
+ * weekly and monthly totals, team standings and the admin tools.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Reports take their period and filename date from the same local day.
+ * 2026-10-19: Totals are published to aggregates; team and organization figures are read from them.
+ */
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { Challenge, LeaderboardPeriod, Organization, OrgMember, OrgTeam, TeamRanking, TeamStanding } from '../types';
+import { OrganizationDetails, OrganizationService } from '../services/OrganizationService';
+import { GroupTotals, MemberContribution, ORG_AGGREGATE_GROUP, OrganizationStatsService } from '../services/OrganizationStatsService';
+import { ChallengeService } from '../services/ChallengeService';
+import { LeaderboardService } from '../services/LeaderboardService';
+import { StorageService } from '../services/StorageService';
+import { ExportFile } from '../services/ExportService';
+import { toLocalDateKey } from '../utils/date';
+import { useAuth } from './AuthContext';
+import { useGame } from './GameContext';
+
+// Colleagues' totals only change when they sync, so there is no point checking more often
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+interface OrganizationContextType {
+    organization: Organization | null; // null: the user is not in an organization
+    teams: OrgTeam[];
+    members: OrgMember[];
+    challenges: Challenge[]; // Challenges posted by admins, newest first
+    myTeam: OrgTeam | null;
+    isAdmin: boolean;
+    isLoading: boolean;
+    refresh: () => Promise<void>;
+    createOrganization: (name: string) => Promise<Organization>; // Throws a user-facing Error
+    joinOrganization: (code: string) => Promise<Organization>; // Throws a user-facing Error
+    leaveOrganization: () => Promise<void>; // Throws a user-facing Error
+    getTeamStandings: (period: LeaderboardPeriod, ranking: TeamRanking) => TeamStanding[];
+    getOrganizationTotals: (period: LeaderboardPeriod) => GroupTotals;
+    // Admin only
+    createTeam: (name: string) => Promise<void>;
+    deleteTeam: (teamId: string) => Promise<void>;
+    assignTeam: (userId: string, teamId: string | null) => Promise<void>;
+    setAdmin: (userId: string, isAdmin: boolean) => Promise<void>;
+    removeMember: (userId: string) => Promise<void>;
+    buildReport: (period: LeaderboardPeriod, unit: 'km' | 'mi') => ExportFile;
+}
+
+const OrganizationContext = createContext<OrganizationContextType>({} as OrganizationContextType);
+
+export const OrganizationProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const { user, updateProfile } = useAuth();
+    const { progress } = useGame();
+
+    const [details, setDetails] = useState<OrganizationDetails | null>(null);
+    const [challenges, setChallenges] = useState<Challenge[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+
+    const progressRef = useRef(progress);
+    const lastRefreshAtRef = useRef(0);
+
+    useEffect(() => {
+        progressRef.current = progress;
+    }, [progress]);
+
+    const organizationId = user?.organizationId ?? null;
+
+    const refresh = useCallback(async () => {
+        if (!user || !organizationId) return;
+        setIsLoading(true);
+        try {
+            const [fetched, logs] = await Promise.all([
+                OrganizationService.getDetails(organizationId, user.id),
+                StorageService.getDailyLogs(user.id)
+            ]);
+            let loaded = fetched;
+            if (!loaded) {
+                // The organization was deleted or an admin removed the user
+                await updateProfile({ organizationId: null });
+                setDetails(null);
+                setChallenges([]);
+                return;
+            }
+
+            // Publish this week's and month's totals if the aggregates do not have them yet, or
+            // move them to the team an admin has since put the user on
+            const today = toLocalDateKey();
+            const completedTrails = progressRef.current?.completedTrails ?? [];
+            const me = loaded.members.find(m => m.userId === user.id);
+            const contribution: MemberContribution = {
+                teamId: me?.teamId ?? null,
+                periodTotals: {
+                    week: LeaderboardService.computePeriodTotals('week', logs, completedTrails, today),
+                    month: LeaderboardService.computePeriodTotals('month', logs, completedTrails, today)
+                }
+            };
+            const published = loaded.myTotals && { teamId: loaded.myTotals.teamId, periodTotals: loaded.myTotals.periodTotals };
+            if (me && JSON.stringify(published) !== JSON.stringify(contribution)) {
+                await OrganizationService.publishTotals(user, organizationId, contribution);
+                loaded = await OrganizationService.getDetails(organizationId, user.id) ?? loaded;
+            }
+
+            setDetails(loaded);
+            setChallenges(await ChallengeService.getOrganizationChallenges(organizationId));
+            lastRefreshAtRef.current = Date.now();
+        } finally {
+            setIsLoading(false);
+        }
+    }, [user?.id, user?.name, organizationId, updateProfile]);
+
+    // Start from a clean slate for each signed-in user and organization
+    useEffect(() => {
+        setDetails(null);
+        setChallenges([]);
+        lastRefreshAtRef.current = 0;
+    }, [user?.id, organizationId]);
+
+    // Publish the user's totals after syncs, at most every few minutes
+    useEffect(() => {
+        if (!user || !organizationId || !progress) return;
+        const wait = Math.max(lastRefreshAtRef.current + REFRESH_INTERVAL_MS - Date.now(), 0);
+        const timer = setTimeout(() => {
+            refresh().catch(error => {
+                if (__DEV__) console.log('[Organization] Refresh failed, will retry on next sync:', error);
+            });
+        }, wait);
+        return () => clearTimeout(timer);
+    }, [user?.id, organizationId, progress?.lastSyncTime]);
+
+    const organization = details?.organization ?? null;
+    const teams = details?.teams ?? [];
+    const members = details?.members ?? [];
+    const aggregates = details?.aggregates ?? [];
+    const myTeamId = members.find(m => m.userId === user?.id)?.teamId ?? null;
+    const myTeam = teams.find(t => t.id === myTeamId) ?? null;
+    const isAdmin = !!user && !!organization?.adminIds.includes(user.id);
+
+    /**
+     * Helper: The organization, for actions only an admin may take
+     */
+    const requireAdmin = (): Organization => {
+        if (!organization || !isAdmin) {
+            throw new Error('Only organization admins can do this.');
+        }
+        return organization;
+    };
+
+    const createOrganization = async (name: string) => {
+        if (!user) throw new Error('You must be signed in to create an organization.');
+        if (organizationId) throw new Error('Leave your current organization first.');
+        const problem = OrganizationStatsService.validateName(name, 'organization');
+        if (problem) throw new Error(problem);
+
+        const created = await OrganizationService.createOrganization(user, name);
+        await updateProfile({ organizationId: created.id });
+        return created;
+    };
+
+    const joinOrganization = async (code: string) => {
+        if (!user) throw new Error('You must be signed in to join an organization.');
+        if (organizationId) throw new Error('Leave your current organization first.');
+        const foundId = await OrganizationService.findByCode(code);
+        if (!foundId) {
+            throw new Error('No organization found with that code.');
+        }
+
+        await OrganizationService.joinOrganization(user, foundId, code);
+        const joined = await OrganizationService.getOrganization(foundId);
+        if (!joined) {
+            throw new Error('No organization found with that code.');
+        }
+        await updateProfile({ organizationId: joined.id });
+        return joined;
+    };
+
+    const leaveOrganization = async () => {
+        if (!user || !organization) return;
+        await OrganizationService.leaveOrganization(user.id, organization);
+        await updateProfile({ organizationId: null });
+    };
+
+    const getTeamStandings = useCallback((period: LeaderboardPeriod, ranking: TeamRanking): TeamStanding[] => {
+        const periodKey = LeaderboardService.getPeriodKey(period, toLocalDateKey());
+        return OrganizationStatsService.getTeamStandings(teams, members, aggregates, period, periodKey, ranking, myTeamId);
+    }, [teams, members, aggregates, myTeamId]);
+
+    const getOrganizationTotals = useCallback((period: LeaderboardPeriod): GroupTotals => {
+        const periodKey = LeaderboardService.getPeriodKey(period, toLocalDateKey());
+        return OrganizationStatsService.getGroupTotals(aggregates, ORG_AGGREGATE_GROUP, members.length, period, periodKey);
+    }, [aggregates, members]);
+
+    const createTeam = async (name: string) => {
+        const org = requireAdmin();
+        const problem = OrganizationStatsService.validateName(name, 'team', teams.map(t => t.name));
+        if (problem) throw new Error(problem);
+
+        await OrganizationService.createTeam(org.id, name, teams.length);
+        await refresh();
+    };
+
+    const deleteTeam = async (teamId: string) => {
+        const org = requireAdmin();
+        await OrganizationService.deleteTeam(org.id, teamId, members);
+        await refresh();
+    };
+
+    const assignTeam = async (userId: string, teamId: string | null) => {
+        const org = requireAdmin();
+        await OrganizationService.assignTeam(org.id, userId, teamId);
+        setDetails(prev => prev && {
+            ...prev,
+            members: prev.members.map(m => m.userId === userId ? { ...m, teamId } : m)
+        });
+    };
+
+    const setAdmin = async (userId: string, makeAdmin: boolean) => {
+        const org = requireAdmin();
+        await OrganizationService.setAdmin(org, userId, makeAdmin);
+        await refresh();
+    };
+
+    const removeMember = async (userId: string) => {
+        const org = requireAdmin();
+        if (userId === user?.id) {
+            throw new Error('Use Leave Organization to remove yourself.');
+        }
+        await OrganizationService.removeMember(org.id, userId);
+        await refresh();
+    };
+
+    const buildReport = (period: LeaderboardPeriod, unit: 'km' | 'mi'): ExportFile => {
+        const org = requireAdmin();
+        const today = toLocalDateKey();
+        const periodKey = LeaderboardService.getPeriodKey(period, today);
+        const report = OrganizationStatsService.buildReport(org, teams, members, aggregates, period, periodKey, today);
+        return OrganizationStatsService.toReportFile(report, unit);
+    };
+
+    return (
+        <OrganizationContext.Provider value={{
+            organization,
+            teams,
+            members,
+            challenges,
+            myTeam,
+            isAdmin,
+            isLoading,
+            refresh,
+            createOrganization,
+            joinOrganization,
+            leaveOrganization,
+            getTeamStandings,
+            getOrganizationTotals,
+            createTeam,
+            deleteTeam,
+            assignTeam,
+            setAdmin,
+            removeMember,
+            buildReport
+        }}>
+            {children}
+        </OrganizationContext.Provider>
+    );
+};
+
+export const useOrganization = () => useContext(OrganizationContext);
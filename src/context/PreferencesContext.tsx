@@ -7,10 +7,20 @@
  * Modification History:
  * 2024-01-12: Documentation added.
  * 2024-01-12: Added granular notification settings.
+ * 2026-10-19: Added restorePreferences for data import.
+ * 2026-10-19: Added height for stride length estimation.
+ * 2026-10-19: Added friend sharing (privacy) settings.
+ * 2026-10-19: Added the leaderboards sharing setting.
+ * 2026-10-19: Added the activity feed sharing setting.
+ * 2026-10-19: Added the step source setting.
+ * 2026-10-19: Added the streak rule setting.
+ * 2026-10-19: The default stride length is the 76.2cm average distances were always based on.
  */
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { StorageService } from '../services/StorageService';
 import { useAuth } from './AuthContext';
+import { DEFAULT_STRIDE_LENGTH_CM, estimateStrideLengthCm } from '../utils/conversion';
+import { FriendSharingSettings, StepSourcePreference, StreakRule } from '../types';
 
 export type DistanceUnit = 'km' | 'mi';
 export type Theme = 'light' | 'dark';
@@ -36,6 +46,15 @@ export const defaultNotificationSettings: NotificationSettings = {
     landmarkReached: true,
 };
 
+// Everything is shared by default; friends only ever see what is switched on
+export const defaultFriendSharingSettings: FriendSharingSettings = {
+    todaySteps: true,
+    activeTrail: true,
+    badges: true,
+    leaderboards: true,
+    activity: true,
+};
+
 interface Preferences {
     distanceUnit: DistanceUnit;
     theme: Theme;
@@ -43,6 +62,10 @@ interface Preferences {
     notificationsEnabled: boolean;
     notificationSettings: NotificationSettings;
     strideLength: number; // in cm
+    heightCm: number | null; // Used to estimate strideLength
+    friendSharing: FriendSharingSettings;
+    stepSource: StepSourcePreference; // Where steps are read from; see StepService
+    streakRule: StreakRule; // Which days keep the streak going; see StreakService
 }
 
 interface PreferencesContextType {
@@ -54,6 +77,11 @@ interface PreferencesContextType {
     setNotificationSettings: (settings: NotificationSettings) => void;
     updateNotificationSetting: <K extends keyof NotificationSettings>(key: K, value: NotificationSettings[K]) => void;
     setStrideLength: (length: number) => void;
+    setHeight: (heightCm: number) => void; // Also sets strideLength to the height-based estimate
+    updateFriendSharing: <K extends keyof FriendSharingSettings>(key: K, value: boolean) => void;
+    setStepSource: (source: StepSourcePreference) => void;
+    setStreakRule: (rule: StreakRule) => void;
+    restorePreferences: (stored: Record<string, any>) => Promise<void>;
 }
 
 const defaultPreferences: Preferences = {
@@ -62,7 +90,11 @@ const defaultPreferences: Preferences = {
     dailyGoal: 10000,
     notificationsEnabled: true,
     notificationSettings: defaultNotificationSettings,
-    strideLength: 75,
+    strideLength: DEFAULT_STRIDE_LENGTH_CM,
+    heightCm: null,
+    friendSharing: defaultFriendSharingSettings,
+    stepSource: 'auto',
+    streakRule: 'activity',
 };
 
 const PreferencesContext = createContext<PreferencesContextType>({
@@ -74,6 +106,11 @@ const PreferencesContext = createContext<PreferencesContextType>({
     setNotificationSettings: () => { },
     updateNotificationSetting: () => { },
     setStrideLength: () => { },
+    setHeight: () => { },
+    updateFriendSharing: () => { },
+    setStepSource: () => { },
+    setStreakRule: () => { },
+    restorePreferences: async () => { },
 });
 
 export const PreferencesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
@@ -93,7 +130,11 @@ export const PreferencesProvider: React.FC<{ children: React.ReactNode }> = ({ c
         const stored = await StorageService.getPreferences(user.id);
         if (stored) {
             // Merge with defaults to handle backward compatibility and new fields
-            setPreferences({ ...defaultPreferences, ...stored });
+            setPreferences({
+                ...defaultPreferences,
+                ...stored,
+                friendSharing: { ...defaultFriendSharingSettings, ...stored.friendSharing }
+            });
         }
     };
 
@@ -109,6 +150,33 @@ export const PreferencesProvider: React.FC<{ children: React.ReactNode }> = ({ c
     const setDailyGoal = (goal: number) => updatePreference('dailyGoal', goal);
     const setNotificationsEnabled = (enabled: boolean) => updatePreference('notificationsEnabled', enabled);
     const setStrideLength = (length: number) => updatePreference('strideLength', length);
+    const setStepSource = (source: StepSourcePreference) => updatePreference('stepSource', source);
+    const setStreakRule = (rule: StreakRule) => updatePreference('streakRule', rule);
+
+    const setHeight = async (heightCm: number) => {
+        if (!user) return;
+        const newPrefs = { ...preferences, heightCm, strideLength: estimateStrideLengthCm(heightCm) };
+        setPreferences(newPrefs);
+        await StorageService.savePreferences(user.id, newPrefs);
+    };
+
+    /**
+     * Replace preferences with a restored copy. Unknown keys are dropped and missing ones keep their defaults.
+     */
+    const restorePreferences = async (stored: Record<string, any>) => {
+        if (!user) return;
+        const known = Object.fromEntries(
+            Object.entries(stored).filter(([key]) => key in defaultPreferences)
+        ) as Partial<Preferences>;
+        const newPrefs: Preferences = {
+            ...defaultPreferences,
+            ...known,
+            notificationSettings: { ...defaultNotificationSettings, ...known.notificationSettings },
+            friendSharing: { ...defaultFriendSharingSettings, ...known.friendSharing }
+        };
+        setPreferences(newPrefs);
+        await StorageService.savePreferences(user.id, newPrefs);
+    };
 
     const setNotificationSettings = (settings: NotificationSettings) => updatePreference('notificationSettings', settings);
 
@@ -117,6 +185,10 @@ export const PreferencesProvider: React.FC<{ children: React.ReactNode }> = ({ c
         updatePreference('notificationSettings', newSettings);
     };
 
+    const updateFriendSharing = <K extends keyof FriendSharingSettings>(key: K, value: boolean) => {
+        updatePreference('friendSharing', { ...preferences.friendSharing, [key]: value });
+    };
+
     return (
         <PreferencesContext.Provider value={{
             preferences,
@@ -126,7 +198,12 @@ export const PreferencesProvider: React.FC<{ children: React.ReactNode }> = ({ c
             setNotificationsEnabled,
             setNotificationSettings,
             updateNotificationSetting,
-            setStrideLength
+            setStrideLength,
+            setHeight,
+            updateFriendSharing,
+            setStepSource,
+            setStreakRule,
+            restorePreferences
         }}>
             {children}
         </PreferencesContext.Provider>
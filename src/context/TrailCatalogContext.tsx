@@ -0,0 +1,117 @@
+/**
+ * File: src/context/TrailCatalogContext.tsx
+ * Purpose: Provides the trail catalog (bundled trails plus any newer remote catalog) to the app.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Includes the signed-in user's custom trails.
+ */
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { AppState } from 'react-native';
+import { CustomTrail, Trail, TrailCategory } from '../types';
+import { TrailCatalogService, LoadedCatalog } from '../services/TrailCatalogService';
+import { CustomTrailService, CustomTrailDraft } from '../services/CustomTrailService';
+import { StorageService } from '../services/StorageService';
+import { useAuth } from './AuthContext';
+
+interface TrailCatalogContextType {
+    trails: Trail[]; // Catalog trails followed by the user's custom trails
+    catalogVersion: number;
+    customTrails: CustomTrail[];
+    getTrail: (trailId: string) => Trail | undefined;
+    getTrailsByCategory: (category: TrailCategory) => Trail[];
+    getCustomTrail: (trailId: string) => CustomTrail | undefined;
+    saveCustomTrail: (draft: CustomTrailDraft, trailId?: string) => Promise<Trail>; // Throws if the draft is invalid
+    deleteCustomTrail: (trailId: string) => Promise<void>;
+    refreshCatalog: () => Promise<void>;
+}
+
+const bundled = TrailCatalogService.getBundledCatalog();
+
+const TrailCatalogContext = createContext<TrailCatalogContextType>({
+    trails: bundled.trails,
+    catalogVersion: bundled.version,
+    customTrails: [],
+    getTrail: (trailId) => bundled.trails.find(t => t.id === trailId),
+    getTrailsByCategory: (category) => bundled.trails.filter(t => t.category === category),
+    getCustomTrail: () => undefined,
+    saveCustomTrail: async () => { throw new Error('You must be signed in to save a trail.'); },
+    deleteCustomTrail: async () => { },
+    refreshCatalog: async () => { },
+});
+
+export const TrailCatalogProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const { user } = useAuth();
+    const [catalog, setCatalog] = useState<LoadedCatalog>(bundled);
+    const [customTrails, setCustomTrails] = useState<CustomTrail[]>([]);
+
+    // Cached catalog first so the app works offline, then check Firestore once signed in
+    useEffect(() => {
+        TrailCatalogService.loadCatalog().then(setCatalog);
+    }, []);
+
+    const refreshCatalog = useCallback(async () => {
+        const updated = await TrailCatalogService.refreshCatalog();
+        if (updated) setCatalog(updated);
+    }, []);
+
+    useEffect(() => {
+        if (!user) return;
+        refreshCatalog();
+
+        const subscription = AppState.addEventListener('change', (state) => {
+            if (state === 'active') refreshCatalog();
+        });
+        return () => subscription.remove();
+    }, [user?.id, refreshCatalog]);
+
+    useEffect(() => {
+        if (!user) {
+            setCustomTrails([]);
+            return;
+        }
+        StorageService.getCustomTrails(user.id).then(setCustomTrails);
+    }, [user?.id]);
+
+    const saveCustomTrail = useCallback(async (draft: CustomTrailDraft, trailId?: string): Promise<Trail> => {
+        if (!user) throw new Error('You must be signed in to save a trail.');
+
+        const existing = trailId ? customTrails.find(t => t.id === trailId) : undefined;
+        const saved = CustomTrailService.buildCustomTrail(draft, user.id, existing);
+        await StorageService.saveCustomTrail(user.id, saved);
+        setCustomTrails(prev => existing
+            ? prev.map(t => t.id === saved.id ? saved : t)
+            : [...prev, saved]);
+        return CustomTrailService.toTrail(saved);
+    }, [user?.id, customTrails]);
+
+    const deleteCustomTrail = useCallback(async (trailId: string) => {
+        if (!user) return;
+        await StorageService.deleteCustomTrail(user.id, trailId);
+        setCustomTrails(prev => prev.filter(t => t.id !== trailId));
+    }, [user?.id]);
+
+    const value = useMemo<TrailCatalogContextType>(() => {
+        const trails = [...catalog.trails, ...customTrails.map(CustomTrailService.toTrail)];
+        return {
+            trails,
+            catalogVersion: catalog.version,
+            customTrails,
+            getTrail: (trailId) => trails.find(t => t.id === trailId),
+            getTrailsByCategory: (category) => trails.filter(t => t.category === category),
+            getCustomTrail: (trailId) => customTrails.find(t => t.id === trailId),
+            saveCustomTrail,
+            deleteCustomTrail,
+            refreshCatalog,
+        };
+    }, [catalog, customTrails, saveCustomTrail, deleteCustomTrail, refreshCatalog]);
+
+    return (
+        <TrailCatalogContext.Provider value={value}>
+            {children}
+        </TrailCatalogContext.Provider>
+    );
+};
+
+export const useTrailCatalog = () => useContext(TrailCatalogContext);
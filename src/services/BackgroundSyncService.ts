@@ -0,0 +1,93 @@
+/**
+ * File: src/services/BackgroundSyncService.ts
+ * Purpose: Background fetch task that runs the step sync pipeline without the app open, so progress,
+ * daily logs and badge/landmark/goal notifications keep up even if the user never opens the app.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import * as BackgroundFetch from 'expo-background-fetch';
+import * as TaskManager from 'expo-task-manager';
+import { StorageService } from './StorageService';
+import { StepService } from './StepService';
+import { ProgressSyncService } from './ProgressSyncService';
+import { TrailCatalogService } from './TrailCatalogService';
+import { BadgeCatalogService } from './BadgeCatalogService';
+import { CustomTrailService } from './CustomTrailService';
+import { DEFAULT_STRIDE_LENGTH_CM } from '../utils/conversion';
+
+// Background task name
+const BACKGROUND_SYNC_TASK = 'BACKGROUND_SYNC_TASK';
+
+export const BackgroundSyncService = {
+    /**
+     * Register the background sync for the signed-in user
+     */
+    async register(userId: string): Promise<void> {
+        await StorageService.setCurrentUserId(userId);
+        try {
+            await BackgroundFetch.registerTaskAsync(BACKGROUND_SYNC_TASK, {
+                minimumInterval: 60 * 15, // The OS decides the actual schedule; this is the most often it may run
+                stopOnTerminate: false,
+                startOnBoot: true,
+            });
+            if (__DEV__) console.log('Background sync task registered');
+        } catch (error) {
+            console.error('Failed to register background sync:', error);
+        }
+    },
+
+    /**
+     * Stop background syncs, e.g. after sign-out
+     */
+    async unregister(): Promise<void> {
+        await StorageService.setCurrentUserId(null);
+        try {
+            if (!(await TaskManager.isTaskRegisteredAsync(BACKGROUND_SYNC_TASK))) return;
+            await BackgroundFetch.unregisterTaskAsync(BACKGROUND_SYNC_TASK);
+            if (__DEV__) console.log('Background sync task unregistered');
+        } catch (error) {
+            console.error('Failed to unregister background sync:', error);
+        }
+    },
+
+    /**
+     * Load the signed-in user's data from storage and sync it. Returns whether new steps were credited.
+     */
+    async syncInBackground(): Promise<boolean> {
+        const userId = await StorageService.getCurrentUserId();
+        if (!userId) return false;
+
+        const [progress, prefs, catalog, badgeCatalog, customTrails] = await Promise.all([
+            StorageService.getProgress(userId),
+            StorageService.getPreferences(userId),
+            TrailCatalogService.loadCatalog(),
+            BadgeCatalogService.loadCatalog(),
+            StorageService.getCustomTrails(userId)
+        ]);
+        if (!progress) return false;
+
+        if (prefs?.stepSource) StepService.setSourcePreference(prefs.stepSource);
+
+        const result = await ProgressSyncService.syncProgress({
+            userId,
+            progress,
+            trails: [...catalog.trails, ...customTrails.map(CustomTrailService.toTrail)],
+            badges: badgeCatalog.badges,
+            strideLengthCm: prefs?.strideLength ?? DEFAULT_STRIDE_LENGTH_CM,
+            interactive: false
+        });
+        if (__DEV__) console.log(`[BackgroundSyncService] Credited ${result?.newSteps ?? 0} steps`);
+        return (result?.newSteps ?? 0) > 0;
+    },
+};
+
+// Define the background task
+TaskManager.defineTask(BACKGROUND_SYNC_TASK, async () => {
+    try {
+        const credited = await BackgroundSyncService.syncInBackground();
+        return credited ? BackgroundFetch.BackgroundFetchResult.NewData : BackgroundFetch.BackgroundFetchResult.NoData;
+    } catch (error) {
+        console.error('Background sync failed:', error);
+        return BackgroundFetch.BackgroundFetchResult.Failed;
+    }
+});
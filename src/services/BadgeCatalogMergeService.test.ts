@@ -0,0 +1,119 @@
+/**
+ * File: src/services/BadgeCatalogMergeService.test.ts
+ * Purpose: Unit tests for BadgeCatalogMergeService.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import { BadgeCatalogMergeService } from './BadgeCatalogMergeService';
+import { Badge, BadgeCatalog } from '../const/badges';
+
+const bundledBadge: Badge = {
+    id: 'step-5k',
+    name: 'First Steps',
+    description: 'Walk 5,000 steps this month',
+    icon: '👶',
+    period: 'monthly',
+    rule: { metric: 'steps', window: 'month', comparator: '>=', threshold: 5000 },
+    collection: 'steps'
+};
+
+const remoteBadge: Badge = {
+    id: 'night-owl',
+    name: 'Night Owl',
+    description: 'Walk 1,000 steps after 10pm',
+    icon: '🦉',
+    period: 'lifetime',
+    rule: { metric: 'qualifyingDays', window: 'lifetime', comparator: '>=', threshold: 1, day: { minSteps: 1000, fromHour: 22 } },
+    collection: 'feats'
+};
+
+const catalog = (version: number, badges: Badge[] = [remoteBadge]): BadgeCatalog => ({ version, badges });
+
+describe('BadgeCatalogMergeService', () => {
+    describe('parseCatalog', () => {
+        it('should accept a well-formed catalog', () => {
+            expect(BadgeCatalogMergeService.parseCatalog(catalog(2))).toEqual(catalog(2));
+        });
+
+        it('should reject catalogs without a version or badge list', () => {
+            expect(BadgeCatalogMergeService.parseCatalog(null)).toBeNull();
+            expect(BadgeCatalogMergeService.parseCatalog({ badges: [] })).toBeNull();
+            expect(BadgeCatalogMergeService.parseCatalog({ version: 1.5, badges: [] })).toBeNull();
+            expect(BadgeCatalogMergeService.parseCatalog({ version: 2, badges: {} })).toBeNull();
+        });
+
+        it('should drop badges whose rule breaks the schema and keep the rest', () => {
+            const rule = remoteBadge.rule;
+            const parsed = BadgeCatalogMergeService.parseCatalog({
+                version: 2,
+                badges: [
+                    remoteBadge,
+                    { ...remoteBadge, id: 'no-rule', rule: undefined },
+                    { ...remoteBadge, id: 'bad-metric', rule: { ...rule, metric: 'calories' } },
+                    { ...remoteBadge, id: 'bad-window', rule: { ...rule, window: 'decade' } },
+                    { ...remoteBadge, id: 'bad-comparator', rule: { ...rule, comparator: '!=' } },
+                    { ...remoteBadge, id: 'text-threshold', rule: { ...rule, threshold: '5' } },
+                    { ...remoteBadge, id: 'bad-hour', rule: { ...rule, day: { fromHour: 24 } } },
+                    { ...remoteBadge, id: 'empty-hours', rule: { ...rule, day: { fromHour: 7, beforeHour: 7 } } },
+                    { ...remoteBadge, id: 'bad-month', rule: { ...rule, month: 13 } },
+                    { ...remoteBadge, id: 'bad-prerequisites', rule: { ...rule, prerequisites: 'night-owl' } }
+                ]
+            });
+            expect(parsed?.badges.map(b => b.id)).toEqual(['night-owl']);
+        });
+
+        it('should drop badges the app cannot file or that take built-in ids', () => {
+            const parsed = BadgeCatalogMergeService.parseCatalog({
+                version: 2,
+                badges: [
+                    { ...remoteBadge, id: 'yearly', period: 'yearly' },
+                    { ...remoteBadge, id: 'monthly-feat', period: 'monthly' }, // Monthly badges are steps or distance
+                    { ...remoteBadge, id: 'unknown-collection', collection: 'secret' },
+                    { ...remoteBadge, id: 'master-3' },
+                    { ...remoteBadge, id: 'champion-2026' }
+                ]
+            });
+            expect(parsed?.badges).toEqual([]);
+        });
+    });
+
+    describe('pickNewest', () => {
+        it('should pick the highest version above the bundled one', () => {
+            const cached = catalog(3);
+            const remote = catalog(4);
+            expect(BadgeCatalogMergeService.pickNewest(1, cached, remote)).toBe(remote);
+            expect(BadgeCatalogMergeService.pickNewest(1, remote, cached)).toBe(remote);
+        });
+
+        it('should ignore catalogs that are not newer than the bundled badges', () => {
+            expect(BadgeCatalogMergeService.pickNewest(5, catalog(3), catalog(5))).toBeNull();
+            expect(BadgeCatalogMergeService.pickNewest(1, null)).toBeNull();
+        });
+    });
+
+    describe('mergeCatalog', () => {
+        it('should return the bundled badges when there is no catalog', () => {
+            expect(BadgeCatalogMergeService.mergeCatalog([bundledBadge], null)).toEqual([bundledBadge]);
+        });
+
+        it('should append new badges', () => {
+            const merged = BadgeCatalogMergeService.mergeCatalog([bundledBadge], catalog(2));
+            expect(merged.map(b => b.id)).toEqual(['step-5k', 'night-owl']);
+        });
+
+        it('should override bundled badges by id', () => {
+            const update: Badge = { ...bundledBadge, name: 'Renamed', rule: { ...bundledBadge.rule, threshold: 6000 } };
+            const merged = BadgeCatalogMergeService.mergeCatalog([bundledBadge], catalog(2, [update]));
+            expect(merged).toEqual([update]);
+        });
+
+        it('should not move a bundled badge to another period', () => {
+            const moved: Badge = { ...remoteBadge, id: 'step-5k' };
+            expect(BadgeCatalogMergeService.mergeCatalog([bundledBadge], catalog(2, [moved]))).toEqual([bundledBadge]);
+        });
+
+        it('should keep bundled badges missing from the catalog', () => {
+            expect(BadgeCatalogMergeService.mergeCatalog([bundledBadge], catalog(2, []))).toEqual([bundledBadge]);
+        });
+    });
+});
@@ -0,0 +1,109 @@
+/**
+ * File: src/services/BadgeCatalogMergeService.ts
+ * Purpose: Validates remote badge catalogs against the badge rule schema and merges them with the badges
+ * bundled in the app.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import { Badge, BadgeCatalog, BadgeComparator, BadgeMetric, BadgeRule, BadgeWindow, DayFilter } from '../const/badges';
+
+const METRICS: BadgeMetric[] = [
+    'steps', 'distance', 'qualifyingDays', 'consecutiveDays', 'trailsCompleted', 'trailsRemaining',
+    'challengesWon', 'longestStreak', 'monthlyBadges', 'monthlyMasters'
+];
+const WINDOWS: BadgeWindow[] = ['day', 'week', 'month', 'year', 'lifetime'];
+const COMPARATORS: BadgeComparator[] = ['>=', '>', '<=', '<', '=='];
+
+// Collections each period may use. Yearly master and champion badges are built into the app.
+const COLLECTIONS: Partial<Record<Badge['period'], string[]>> = {
+    monthly: ['steps', 'distance'],
+    lifetime: ['trails', 'challenges', 'streaks', 'feats']
+};
+
+// Ids of the built-in master and champion badges
+const RESERVED_ID = /^(master|champion)-/;
+
+const isObject = (value: unknown): value is Record<string, any> => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isIntegerIn = (value: unknown, min: number, max: number): boolean =>
+    value === undefined || (Number.isInteger(value) && (value as number) >= min && (value as number) <= max);
+
+const isDayFilter = (value: unknown): value is DayFilter => {
+    if (!isObject(value)) return false;
+    return (value.minSteps === undefined || (typeof value.minSteps === 'number' && value.minSteps >= 0))
+        && isIntegerIn(value.fromHour, 0, 23)
+        && isIntegerIn(value.beforeHour, 1, 24)
+        && (value.fromHour ?? 0) < (value.beforeHour ?? 24);
+};
+
+const isRule = (value: unknown): value is BadgeRule => {
+    return isObject(value)
+        && METRICS.includes(value.metric)
+        && WINDOWS.includes(value.window)
+        && COMPARATORS.includes(value.comparator)
+        && typeof value.threshold === 'number' && Number.isFinite(value.threshold)
+        && (value.day === undefined || isDayFilter(value.day))
+        && (value.month === undefined || isIntegerIn(value.month, 1, 12))
+        && (value.prerequisites === undefined
+            || (Array.isArray(value.prerequisites) && value.prerequisites.every((id: unknown) => typeof id === 'string')));
+};
+
+const isRemoteBadge = (value: unknown): value is Badge => {
+    return isObject(value) && typeof value.id === 'string' && value.id.length > 0 && !RESERVED_ID.test(value.id)
+        && typeof value.name === 'string' && typeof value.description === 'string'
+        && typeof value.icon === 'string'
+        && !!COLLECTIONS[value.period as Badge['period']]?.includes(value.collection)
+        && isRule(value.rule);
+};
+
+export const BadgeCatalogMergeService = {
+    /**
+     * Validate a catalog read from Firestore or the local cache.
+     * Returns null if the catalog itself is malformed; badges that break the rule schema are dropped.
+     */
+    parseCatalog(data: unknown): BadgeCatalog | null {
+        if (!isObject(data) || !Number.isInteger(data.version) || !Array.isArray(data.badges)) {
+            return null;
+        }
+
+        const badges = (data.badges as unknown[]).filter(isRemoteBadge);
+        return { version: data.version, badges };
+    },
+
+    /**
+     * Pick the catalog to use: the newest of the cached and remote copies, and only if it is
+     * newer than the badges bundled with this build.
+     */
+    pickNewest(bundledVersion: number, ...catalogs: (BadgeCatalog | null)[]): BadgeCatalog | null {
+        let newest: BadgeCatalog | null = null;
+        for (const catalog of catalogs) {
+            if (catalog && catalog.version > bundledVersion && (!newest || catalog.version > newest.version)) {
+                newest = catalog;
+            }
+        }
+        return newest;
+    },
+
+    /**
+     * Combine bundled badges with a remote catalog. Remote badges replace bundled ones with the same id
+     * and period, and new ones are appended. Bundled badges are never removed, so earned badges keep
+     * their names and a badge cannot move between monthly and lifetime progress.
+     */
+    mergeCatalog(bundled: Badge[], catalog: BadgeCatalog | null): Badge[] {
+        if (!catalog) return bundled;
+
+        const remoteById = new Map(catalog.badges.map(b => [b.id, b]));
+        const merged = bundled.map(badge => {
+            const remote = remoteById.get(badge.id);
+            return remote && remote.period === badge.period ? remote : badge;
+        });
+        for (const remote of catalog.badges) {
+            if (!bundled.some(b => b.id === remote.id)) {
+                merged.push(remote);
+            }
+        }
+        return merged;
+    }
+};
@@ -0,0 +1,87 @@
+/**
+ * File: src/services/BadgeCatalogService.ts
+ * Purpose: Loads badge definitions from Firestore, caches them locally and falls back to the bundled badges.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { Badge, BadgeCatalog, BADGES, BUNDLED_BADGE_CATALOG_VERSION } from '../const/badges';
+import { BadgeCatalogMergeService } from './BadgeCatalogMergeService';
+import { withTimeout } from '../utils/async';
+
+const CATALOG_CACHE_KEY = 'stridr_badge_catalog';
+const REMOTE_READ_TIMEOUT_MS = 8000;
+
+export interface LoadedBadgeCatalog {
+    version: number; // BUNDLED_BADGE_CATALOG_VERSION when only bundled badges are in use
+    badges: Badge[];
+}
+
+const toLoaded = (catalog: BadgeCatalog | null): LoadedBadgeCatalog => ({
+    version: catalog?.version ?? BUNDLED_BADGE_CATALOG_VERSION,
+    badges: BadgeCatalogMergeService.mergeCatalog(BADGES, catalog)
+});
+
+export const BadgeCatalogService = {
+    /**
+     * Badges available without any I/O: the set bundled with this build
+     */
+    getBundledCatalog(): LoadedBadgeCatalog {
+        return toLoaded(null);
+    },
+
+    /**
+     * Read the locally cached catalog, if it is newer than the bundled one
+     */
+    async getCachedCatalog(): Promise<BadgeCatalog | null> {
+        try {
+            const raw = await AsyncStorage.getItem(CATALOG_CACHE_KEY);
+            const cached = raw ? BadgeCatalogMergeService.parseCatalog(JSON.parse(raw)) : null;
+            return BadgeCatalogMergeService.pickNewest(BUNDLED_BADGE_CATALOG_VERSION, cached);
+        } catch (error) {
+            console.error('Error reading cached badge catalog:', error);
+            return null;
+        }
+    },
+
+    /**
+     * Bundled badges merged with the cached catalog. Never touches the network.
+     */
+    async loadCatalog(): Promise<LoadedBadgeCatalog> {
+        return toLoaded(await this.getCachedCatalog());
+    },
+
+    /**
+     * Fetch the catalog from Firestore and cache it if it is newer than what we have.
+     * Returns the updated catalog, or null if nothing changed or the device is offline.
+     */
+    async refreshCatalog(): Promise<LoadedBadgeCatalog | null> {
+        try {
+            const cached = await this.getCachedCatalog();
+            const docSnap = await withTimeout(getDoc(doc(db, 'config', 'badgeCatalog')), REMOTE_READ_TIMEOUT_MS, 'Fetch badge catalog');
+            if (!docSnap.exists()) return null;
+
+            const data = docSnap.data();
+            const remote = BadgeCatalogMergeService.parseCatalog(data);
+            if (!remote) {
+                console.error('Error refreshing badge catalog:', new Error('Remote catalog is malformed'));
+                return null;
+            }
+            if (__DEV__ && remote.badges.length < data.badges.length) {
+                console.log(`[BadgeCatalog] Skipped ${data.badges.length - remote.badges.length} invalid badge(s)`);
+            }
+
+            const newest = BadgeCatalogMergeService.pickNewest(BUNDLED_BADGE_CATALOG_VERSION, cached, remote);
+            if (newest !== remote) return null; // Not newer than the cached or bundled badges
+
+            await AsyncStorage.setItem(CATALOG_CACHE_KEY, JSON.stringify(remote));
+            if (__DEV__) console.log(`[BadgeCatalog] Updated to version ${remote.version}`);
+            return toLoaded(remote);
+        } catch (error) {
+            if (__DEV__) console.log('Badge catalog fetch failed, using local copy:', error);
+            return null;
+        }
+    }
+};
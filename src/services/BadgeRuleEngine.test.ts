@@ -0,0 +1,242 @@
+/**
+ * File: src/services/BadgeRuleEngine.test.ts
+ * Purpose: Unit tests for BadgeRuleEngine.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Added monthly and trail badge cases from the BadgeService tests.
+ * 2026-10-19: Contexts carry the bundled badge catalog.
+ */
+import { BadgeContext, BadgeRuleEngine } from './BadgeRuleEngine';
+import { BADGES, Badge, BadgeRule, FEAT_BADGES, MONTHLY_DISTANCE_BADGES, MONTHLY_STEP_BADGES, TRAIL_BADGES } from '../const/badges';
+import { CompletedTrail, DailyLog, UserProgress } from '../types';
+import { addDays } from '../utils/date';
+
+const hours = (entries: Record<number, number>) => Array.from({ length: 24 }, (_, hour) => entries[hour] || 0);
+
+const log = (date: string, steps: number, hourlySteps?: number[]): DailyLog => ({
+    date,
+    steps,
+    distanceMeters: steps * 0.75,
+    ...(hourlySteps ? { hourlySteps } : {})
+});
+
+// `count` days of `steps` each, ending on `lastDate`
+const run = (count: number, lastDate: string, steps: number): DailyLog[] =>
+    Array.from({ length: count }, (_, i) => log(addDays(lastDate, i - count + 1), steps));
+
+const context = (dailyLogs: DailyLog[] = [], progress: Partial<UserProgress> = {}): BadgeContext => ({
+    progress: {
+        activeTrails: [],
+        stats: { totalStepsLifetime: 900000, totalDistanceMetersLifetime: 675000, completedTrailsCount: 0 },
+        lastSyncTime: '2026-03-15T12:00:00.000Z',
+        monthlyProgress: {
+            year: 2026,
+            month: 3,
+            stepsThisMonth: 40000,
+            distanceMetersThisMonth: 30000,
+            unlockedBadgeIds: ['step-5k'],
+            monthlyBadgeEarned: false
+        },
+        yearlyProgress: [],
+        trailBadges: [],
+        completedTrails: [],
+        currentStreak: 0,
+        lastLogDate: null,
+        ...progress
+    },
+    dailyLogs,
+    today: '2026-03-15',
+    catalogTrailCount: 10,
+    badges: BADGES
+});
+
+const completedTrails = (count: number): CompletedTrail[] => Array.from({ length: count }, (_, i) => ({
+    trailId: `trail-${i}`,
+    completedDate: '2026-03-01T12:00:00.000Z',
+    startDate: '2026-02-20T12:00:00.000Z',
+    totalSteps: 10000,
+    totalDays: 9,
+    avgStepsPerDay: 1111,
+    maxStepsInOneDay: 3000
+}));
+
+// Progress with this month's totals and badges
+const month = (stepsThisMonth: number, distanceMetersThisMonth: number, unlockedBadgeIds: string[] = []) => context([], {
+    monthlyProgress: { year: 2026, month: 3, stepsThisMonth, distanceMetersThisMonth, unlockedBadgeIds, monthlyBadgeEarned: false }
+});
+
+// Progress with `count` of a 50 trail catalog completed
+const trails = (count: number): BadgeContext => ({ ...context([], { completedTrails: completedTrails(count) }), catalogTrailCount: 50 });
+
+const rule = (overrides: Partial<BadgeRule>): BadgeRule => ({ metric: 'steps', window: 'day', comparator: '>=', threshold: 1, ...overrides });
+
+describe('BadgeRuleEngine', () => {
+    describe('metricValue', () => {
+        const logs = [log('2026-02-28', 9000), log('2026-03-09', 4000), log('2026-03-14', 2000), log('2026-03-15', 1000)];
+
+        it('should read month and lifetime totals from progress', () => {
+            expect(BadgeRuleEngine.metricValue(rule({ window: 'month' }), context(logs))).toBe(40000);
+            expect(BadgeRuleEngine.metricValue(rule({ window: 'lifetime' }), context(logs))).toBe(900000);
+            expect(BadgeRuleEngine.metricValue(rule({ metric: 'distance', window: 'month' }), context(logs))).toBe(30000);
+        });
+
+        it('should add up the daily logs for the other windows', () => {
+            expect(BadgeRuleEngine.metricValue(rule({ window: 'day' }), context(logs))).toBe(1000);
+            expect(BadgeRuleEngine.metricValue(rule({ window: 'week' }), context(logs))).toBe(7000);
+            expect(BadgeRuleEngine.metricValue(rule({ window: 'year' }), context(logs))).toBe(16000);
+            expect(BadgeRuleEngine.metricValue(rule({ metric: 'distance', window: 'day' }), context(logs))).toBe(750);
+        });
+
+        it('should not count logs after today', () => {
+            expect(BadgeRuleEngine.metricValue(rule({ window: 'week' }), context([...logs, log('2026-03-16', 5000)]))).toBe(7000);
+        });
+
+        it('should count days that pass the day filter', () => {
+            const value = BadgeRuleEngine.metricValue(rule({ metric: 'qualifyingDays', window: 'lifetime', day: { minSteps: 2000 } }), context(logs));
+            expect(value).toBe(3);
+        });
+
+        it('should find the longest run of passing days', () => {
+            const logs = [...run(3, '2026-03-05', 16000), log('2026-03-06', 500), ...run(4, '2026-03-10', 16000)];
+            const value = BadgeRuleEngine.metricValue(rule({ metric: 'consecutiveDays', window: 'lifetime', day: { minSteps: 15000 } }), context(logs));
+            expect(value).toBe(4);
+        });
+
+        it('should only count steps in the filtered hours', () => {
+            const early = rule({ metric: 'qualifyingDays', window: 'lifetime', day: { minSteps: 1000, beforeHour: 7 } });
+            expect(BadgeRuleEngine.metricValue(early, context([log('2026-03-15', 5000, hours({ 6: 900, 7: 4100 }))]))).toBe(0);
+            expect(BadgeRuleEngine.metricValue(early, context([log('2026-03-15', 5000, hours({ 5: 400, 6: 700 }))]))).toBe(1);
+        });
+
+        it('should not pass an hour filter on days without hourly steps', () => {
+            const early = rule({ metric: 'qualifyingDays', window: 'lifetime', day: { beforeHour: 7 } });
+            expect(BadgeRuleEngine.metricValue(early, context([log('2026-03-15', 5000)]))).toBe(0);
+        });
+
+        it('should count catalog trails only', () => {
+            const completedTrails = ['trail-a', 'custom-b'].map(trailId => ({
+                trailId,
+                completedDate: '2026-03-01T12:00:00.000Z',
+                startDate: '2026-02-20T12:00:00.000Z',
+                totalSteps: 1,
+                totalDays: 1,
+                avgStepsPerDay: 1,
+                maxStepsInOneDay: 1
+            }));
+            expect(BadgeRuleEngine.metricValue(rule({ metric: 'trailsCompleted', window: 'lifetime' }), context([], { completedTrails }))).toBe(1);
+            expect(BadgeRuleEngine.metricValue(rule({ metric: 'trailsRemaining', window: 'lifetime' }), context([], { completedTrails }))).toBe(9);
+        });
+
+        it('should not measure trails remaining without a catalog', () => {
+            const ctx = { ...context(), catalogTrailCount: 0 };
+            expect(BadgeRuleEngine.metricValue(rule({ metric: 'trailsRemaining', window: 'lifetime' }), ctx)).toBeNull();
+        });
+
+        it('should read streak, challenge and master counts from progress', () => {
+            const ctx = context([], {
+                challengesWon: ['c1', 'c2'],
+                currentStreak: 6,
+                lastLogDate: '2026-03-14',
+                yearlyProgress: [{ year: 2026, monthlyBadgesEarned: [1, 2], yearlyBadgeEarned: false }]
+            });
+            expect(BadgeRuleEngine.metricValue(rule({ metric: 'challengesWon', window: 'lifetime' }), ctx)).toBe(2);
+            expect(BadgeRuleEngine.metricValue(rule({ metric: 'longestStreak', window: 'lifetime' }), ctx)).toBe(6);
+            expect(BadgeRuleEngine.metricValue(rule({ metric: 'monthlyBadges', window: 'month' }), ctx)).toBe(1);
+            expect(BadgeRuleEngine.metricValue(rule({ metric: 'monthlyMasters', window: 'year' }), ctx)).toBe(2);
+        });
+    });
+
+    describe('isMet', () => {
+        it('should apply each comparator', () => {
+            const met = (comparator: BadgeRule['comparator'], threshold: number) =>
+                BadgeRuleEngine.isMet(rule({ window: 'month', comparator, threshold }), context(), new Set());
+            expect([met('>=', 40000), met('>', 40000), met('<=', 40000), met('<', 40000), met('==', 40000)])
+                .toEqual([true, false, true, false, true]);
+        });
+
+        it('should only hold in the rule\'s month', () => {
+            expect(BadgeRuleEngine.isMet(rule({ window: 'month', month: 3 }), context(), new Set())).toBe(true);
+            expect(BadgeRuleEngine.isMet(rule({ window: 'month', month: 4 }), context(), new Set())).toBe(false);
+        });
+
+        it('should wait for prerequisites', () => {
+            const withPrerequisite = rule({ window: 'month', prerequisites: ['step-5k'] });
+            expect(BadgeRuleEngine.isMet(withPrerequisite, context(), new Set())).toBe(false);
+            expect(BadgeRuleEngine.isMet(withPrerequisite, context(), new Set(['step-5k']))).toBe(true);
+        });
+    });
+
+    describe('evaluate', () => {
+        it('should unlock a feat and the one that needs it in the same pass', () => {
+            const logs = run(7, '2026-03-15', 15000);
+            expect(BadgeRuleEngine.evaluate(FEAT_BADGES, context(logs), [])).toEqual(['power-trio', 'relentless']);
+        });
+
+        it('should skip badges already unlocked', () => {
+            const logs = run(3, '2026-03-15', 15000);
+            expect(BadgeRuleEngine.evaluate(FEAT_BADGES, context(logs), [])).toEqual(['power-trio']);
+            expect(BadgeRuleEngine.evaluate(FEAT_BADGES, context(logs), ['power-trio'])).toEqual([]);
+        });
+
+        it('should unlock an early walk', () => {
+            const logs = [log('2026-03-15', 3000, hours({ 6: 1200, 12: 1800 }))];
+            expect(BadgeRuleEngine.evaluate(FEAT_BADGES, context(logs), [])).toEqual(['early-bird']);
+        });
+
+        it('should evaluate a badge defined only by data', () => {
+            const bigWeek: Badge = {
+                id: 'big-week',
+                name: 'Big Week',
+                description: 'Walk 50,000 steps in 7 days',
+                icon: '📆',
+                period: 'lifetime',
+                rule: { metric: 'steps', window: 'week', comparator: '>=', threshold: 50000 },
+                collection: 'feats'
+            };
+            expect(BadgeRuleEngine.evaluate([bigWeek], context(run(5, '2026-03-15', 10000)), [])).toEqual(['big-week']);
+            expect(BadgeRuleEngine.evaluate([bigWeek], context(run(4, '2026-03-15', 10000)), [])).toEqual([]);
+        });
+    });
+
+    describe('monthly badges', () => {
+        it('should unlock the half marathon badge at 21km', () => {
+            expect(BadgeRuleEngine.evaluate(MONTHLY_DISTANCE_BADGES, month(0, 21000), [])).toContain('dist-21k');
+            expect(BadgeRuleEngine.evaluate(MONTHLY_DISTANCE_BADGES, month(0, 20999), [])).not.toContain('dist-21k');
+        });
+
+        it('should not return already unlocked badges', () => {
+            const result = BadgeRuleEngine.evaluate(MONTHLY_STEP_BADGES, month(50000, 0), ['step-5k', 'step-10k']);
+            expect(result).toEqual(['step-25k', 'step-50k']);
+        });
+    });
+
+    describe('trail badges', () => {
+        it('should unlock first trail badge', () => {
+            expect(BadgeRuleEngine.evaluate(TRAIL_BADGES, trails(1), [])).toEqual(['trail-1']);
+        });
+
+        it('should unlock multiple trail badges at once', () => {
+            expect(BadgeRuleEngine.evaluate(TRAIL_BADGES, trails(5), [])).toEqual(['trail-1', 'trail-3', 'trail-5']);
+        });
+
+        it('should not unlock all-trails badge if not all completed', () => {
+            expect(BadgeRuleEngine.evaluate(TRAIL_BADGES, trails(49), [])).not.toContain('trail-all');
+        });
+
+        it('should unlock all-trails badge when all completed', () => {
+            expect(BadgeRuleEngine.evaluate(TRAIL_BADGES, trails(50), [])).toContain('trail-all');
+        });
+    });
+
+    describe('progressToward', () => {
+        it('should report the current value and target', () => {
+            expect(BadgeRuleEngine.progressToward(rule({ window: 'month', threshold: 50000 }), context())).toEqual({ current: 40000, target: 50000 });
+        });
+
+        it('should not report progress for "at most" rules', () => {
+            expect(BadgeRuleEngine.progressToward(rule({ metric: 'trailsRemaining', window: 'lifetime', comparator: '<=', threshold: 0 }), context())).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,171 @@
+/**
+ * File: src/services/BadgeRuleEngine.ts
+ * Purpose: Pure evaluator for the declarative badge rules in src/const/badges.ts. A rule measures a metric
+ * over a window of UserProgress and DailyLog history and compares it with a threshold.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Added readsHours so syncs only read hourly steps when a rule needs them.
+ * 2026-10-19: The context carries the badge catalog in use.
+ */
+import { Badge, BadgeComparator, BadgeRule, BadgeWindow, DayFilter } from '../const/badges';
+import { DailyLog, UserProgress } from '../types';
+import { CustomTrailService } from './CustomTrailService';
+import { StreakService } from './StreakService';
+import { DateKey, addDays, daysBetween } from '../utils/date';
+
+export interface BadgeContext {
+    progress: UserProgress; // monthlyProgress is the month being checked
+    dailyLogs: DailyLog[]; // Including any steps being credited
+    today: DateKey; // Day-based windows end on this day
+    catalogTrailCount: number; // Trails in the catalog, not counting custom ones; 0 when unknown
+    badges: Badge[]; // Monthly and lifetime badges of the catalog in use (see BadgeCatalogService)
+}
+
+const compare = (value: number, comparator: BadgeComparator, threshold: number): boolean => {
+    switch (comparator) {
+        case '>=': return value >= threshold;
+        case '>': return value > threshold;
+        case '<=': return value <= threshold;
+        case '<': return value < threshold;
+        case '==': return value === threshold;
+    }
+};
+
+/**
+ * Helper: First day of a window ending today, or null for lifetime
+ */
+const windowStart = (window: BadgeWindow, today: DateKey): DateKey | null => {
+    switch (window) {
+        case 'day': return today;
+        case 'week': return addDays(today, -6);
+        case 'month': return `${today.slice(0, 7)}-01`;
+        case 'year': return `${today.slice(0, 4)}-01-01`;
+        case 'lifetime': return null;
+    }
+};
+
+const logsIn = (window: BadgeWindow, context: BadgeContext): DailyLog[] => {
+    const start = windowStart(window, context.today);
+    return context.dailyLogs.filter(log => (!start || log.date >= start) && log.date <= context.today);
+};
+
+const hasHourLimit = (filter: DayFilter = {}): boolean =>
+    filter.fromHour !== undefined || filter.beforeHour !== undefined;
+
+/**
+ * Helper: Whether a day passes the filter. Hour limits need hourly steps, so days logged without them fail.
+ */
+const passes = (log: DailyLog, filter: DayFilter = {}): boolean => {
+    let steps = log.steps;
+    if (hasHourLimit(filter)) {
+        if (!log.hourlySteps) return false;
+        steps = log.hourlySteps
+            .slice(filter.fromHour ?? 0, filter.beforeHour ?? 24)
+            .reduce((sum, hour) => sum + hour, 0);
+    }
+    return steps >= (filter.minSteps ?? 1);
+};
+
+/**
+ * Helper: Longest run of consecutive calendar days
+ */
+const longestRun = (dates: DateKey[]): number => {
+    const sorted = [...new Set(dates)].sort();
+    let longest = 0;
+    let run = 0;
+    sorted.forEach((date, i) => {
+        run = i > 0 && daysBetween(sorted[i - 1], date) === 1 ? run + 1 : 1;
+        longest = Math.max(longest, run);
+    });
+    return longest;
+};
+
+const catalogTrailsCompleted = (progress: UserProgress): number =>
+    (progress.completedTrails || []).filter(ct => !CustomTrailService.isCustomTrailId(ct.trailId)).length;
+
+export const BadgeRuleEngine = {
+    /**
+     * Current value of a rule's metric, or null when it cannot be measured (e.g. the trail catalog is unknown).
+     * monthlyBadges and monthlyMasters always count the month and year of monthlyProgress.
+     */
+    metricValue(rule: BadgeRule, context: BadgeContext): number | null {
+        const { progress } = context;
+
+        switch (rule.metric) {
+            case 'steps':
+                if (rule.window === 'month') return progress.monthlyProgress.stepsThisMonth;
+                if (rule.window === 'lifetime') return progress.stats?.totalStepsLifetime || 0;
+                return logsIn(rule.window, context).reduce((sum, log) => sum + log.steps, 0);
+            case 'distance':
+                if (rule.window === 'month') return progress.monthlyProgress.distanceMetersThisMonth;
+                if (rule.window === 'lifetime') return progress.stats?.totalDistanceMetersLifetime || 0;
+                return logsIn(rule.window, context).reduce((sum, log) => sum + log.distanceMeters, 0);
+            case 'qualifyingDays':
+                return logsIn(rule.window, context).filter(log => passes(log, rule.day)).length;
+            case 'consecutiveDays':
+                return longestRun(logsIn(rule.window, context).filter(log => passes(log, rule.day)).map(log => log.date));
+            case 'trailsCompleted':
+                return catalogTrailsCompleted(progress);
+            case 'trailsRemaining':
+                return context.catalogTrailCount > 0
+                    ? Math.max(0, context.catalogTrailCount - catalogTrailsCompleted(progress))
+                    : null;
+            case 'challengesWon':
+                return (progress.challengesWon || []).length;
+            case 'longestStreak':
+                return StreakService.fromProgress(progress).longest;
+            case 'monthlyBadges':
+                return progress.monthlyProgress.unlockedBadgeIds.length;
+            case 'monthlyMasters':
+                return (progress.yearlyProgress || [])
+                    .find(yp => yp.year === progress.monthlyProgress.year)?.monthlyBadgesEarned.length || 0;
+        }
+    },
+
+    /**
+     * Whether a rule holds, given the badges unlocked so far
+     */
+    isMet(rule: BadgeRule, context: BadgeContext, unlocked: Set<string>): boolean {
+        if (rule.month !== undefined && rule.month !== context.progress.monthlyProgress.month) return false;
+        if (rule.prerequisites?.some(id => !unlocked.has(id))) return false;
+
+        const value = this.metricValue(rule, context);
+        return value !== null && compare(value, rule.comparator, rule.threshold);
+    },
+
+    /**
+     * Whether a rule counts steps by hour of day, so it needs DailyLog.hourlySteps
+     */
+    readsHours(rule: BadgeRule): boolean {
+        return hasHourLimit(rule.day);
+    },
+
+    /**
+     * Ids of the badges newly unlocked, in definition order. A badge can unlock in the same pass as a
+     * prerequisite listed before it.
+     */
+    evaluate(badges: Badge[], context: BadgeContext, alreadyUnlocked: string[]): string[] {
+        const unlocked = new Set(alreadyUnlocked);
+        const newBadges: string[] = [];
+
+        for (const badge of badges) {
+            if (unlocked.has(badge.id) || !this.isMet(badge.rule, context, unlocked)) continue;
+            unlocked.add(badge.id);
+            newBadges.push(badge.id);
+        }
+
+        return newBadges;
+    },
+
+    /**
+     * How far along a "reach at least" rule is, for progress bars. Null for other comparators or
+     * metrics that cannot be measured.
+     */
+    progressToward(rule: BadgeRule, context: BadgeContext): { current: number; target: number } | null {
+        if (rule.comparator !== '>=' && rule.comparator !== '>') return null;
+        const current = this.metricValue(rule, context);
+        return current === null ? null : { current, target: rule.threshold };
+    }
+};
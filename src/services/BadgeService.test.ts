@@ -7,177 +7,348 @@
  * Modification History:
  * 2024-01-12: Initial tests created.
  * 2026-01-15: Rewritten for monthly badge system.
+ * 2026-10-19: Added challenge badge tests.
+ * 2026-10-19: Added streak badge tests.
+ * 2026-10-19: Badge checks take a BadgeContext and go through the badge rules.
+ * 2026-10-19: Added badge unlock record tests.
+ * 2026-10-19: Added needsHourlySteps tests.
+ * 2026-10-19: Added tests for badges from a remote catalog.
  */
 import { BadgeService } from './BadgeService';
-import { MonthlyProgress, YearlyProgress } from '../types';
-import { MONTHLY_STEP_BADGES, MONTHLY_DISTANCE_BADGES, TRAIL_BADGES, MONTHLY_MASTER_REQUIREMENT } from '../const/badges';
+import { BadgeContext } from './BadgeRuleEngine';
+import { BadgeUnlock, CompletedTrail, MonthlyProgress, UserProgress, YearlyProgress } from '../types';
+import { BADGES, Badge, MONTHLY_MASTER_REQUIREMENT } from '../const/badges';
+
+const monthly = (overrides: Partial<MonthlyProgress> = {}): MonthlyProgress => ({
+    year: 2026,
+    month: 1,
+    stepsThisMonth: 0,
+    distanceMetersThisMonth: 0,
+    unlockedBadgeIds: [],
+    monthlyBadgeEarned: false,
+    ...overrides
+});
+
+const completedTrails = (count: number): CompletedTrail[] => Array.from({ length: count }, (_, i) => ({
+    trailId: `trail-${i}`,
+    completedDate: '2026-01-10T12:00:00.000Z',
+    startDate: '2026-01-01T12:00:00.000Z',
+    totalSteps: 10000,
+    totalDays: 9,
+    avgStepsPerDay: 1111,
+    maxStepsInOneDay: 3000
+}));
+
+// Badges a remote catalog adds
+const firstWin: Badge = { id: 'first-win', name: 'First Win', description: 'Win a challenge', icon: '🥇', period: 'lifetime', rule: { metric: 'challengesWon', window: 'lifetime', comparator: '>=', threshold: 1 }, collection: 'challenges' };
+const nightOwl: Badge = { id: 'night-owl', name: 'Night Owl', description: 'Walk 1,000 steps after 10pm', icon: '🦉', period: 'lifetime', rule: { metric: 'qualifyingDays', window: 'lifetime', comparator: '>=', threshold: 1, day: { minSteps: 1000, fromHour: 22 } }, collection: 'feats' };
+
+const context = (progress: Partial<UserProgress> = {}): BadgeContext => ({
+    progress: {
+        activeTrails: [],
+        stats: { totalStepsLifetime: 0, totalDistanceMetersLifetime: 0, completedTrailsCount: 0 },
+        lastSyncTime: '2026-01-15T12:00:00.000Z',
+        monthlyProgress: monthly(),
+        yearlyProgress: [],
+        trailBadges: [],
+        completedTrails: [],
+        currentStreak: 0,
+        lastLogDate: null,
+        ...progress
+    },
+    dailyLogs: [],
+    today: '2026-01-15',
+    catalogTrailCount: 50,
+    badges: BADGES
+});
+
+const monthContext = (overrides: Partial<MonthlyProgress>) => context({ monthlyProgress: monthly(overrides) });
 
 describe('BadgeService', () => {
-    describe('checkMonthlyStepBadges', () => {
+    describe('checkMonthlyBadges', () => {
         it('should return empty array if no badges unlocked', () => {
-            const result = BadgeService.checkMonthlyStepBadges(1000, []);
-            expect(result).toEqual([]);
+            expect(BadgeService.checkMonthlyBadges(monthContext({ stepsThisMonth: 1000 }))).toEqual([]);
         });
 
         it('should unlock step-5k badge when reaching 5000 steps', () => {
-            const result = BadgeService.checkMonthlyStepBadges(5000, []);
-            expect(result).toContain('step-5k');
+            expect(BadgeService.checkMonthlyBadges(monthContext({ stepsThisMonth: 5000 }))).toContain('step-5k');
         });
 
         it('should unlock multiple step badges at once', () => {
-            const result = BadgeService.checkMonthlyStepBadges(25000, []);
+            const result = BadgeService.checkMonthlyBadges(monthContext({ stepsThisMonth: 25000 }));
             expect(result).toContain('step-5k');
             expect(result).toContain('step-10k');
             expect(result).toContain('step-25k');
         });
 
         it('should not return already unlocked badges', () => {
-            const result = BadgeService.checkMonthlyStepBadges(50000, ['step-5k', 'step-10k']);
+            const result = BadgeService.checkMonthlyBadges(monthContext({ stepsThisMonth: 50000, unlockedBadgeIds: ['step-5k', 'step-10k'] }));
             expect(result).not.toContain('step-5k');
             expect(result).not.toContain('step-10k');
             expect(result).toContain('step-25k');
             expect(result).toContain('step-50k');
         });
+
+        it('should unlock distance badges by meters this month', () => {
+            expect(BadgeService.checkMonthlyBadges(monthContext({ distanceMetersThisMonth: 2000 }))).toEqual([]);
+            expect(BadgeService.checkMonthlyBadges(monthContext({ distanceMetersThisMonth: 5000 }))).toContain('dist-5k');
+            expect(BadgeService.checkMonthlyBadges(monthContext({ distanceMetersThisMonth: 21000 }))).toContain('dist-21k');
+        });
+
+        it('should check both step and distance badges', () => {
+            const result = BadgeService.checkMonthlyBadges(monthContext({ stepsThisMonth: 10000, distanceMetersThisMonth: 10000 }));
+            expect(result).toEqual(['step-5k', 'step-10k', 'dist-5k', 'dist-10k']);
+        });
     });
 
-    describe('checkMonthlyDistanceBadges', () => {
-        it('should return empty array if distance not met', () => {
-            const result = BadgeService.checkMonthlyDistanceBadges(2000, []);
-            expect(result).toEqual([]);
+    describe('checkMonthlyMaster', () => {
+        it('should return false if not enough badges', () => {
+            expect(BadgeService.checkMonthlyMaster(monthContext({ unlockedBadgeIds: ['step-5k', 'step-10k'] }))).toBe(false);
         });
 
-        it('should unlock dist-5k badge when reaching 5000 meters', () => {
-            const result = BadgeService.checkMonthlyDistanceBadges(5000, []);
-            expect(result).toContain('dist-5k');
+        it('should return true when 10 or more badges earned', () => {
+            const unlockedBadgeIds = ['step-5k', 'step-10k', 'step-25k', 'step-50k', 'step-100k',
+                'dist-5k', 'dist-10k', 'dist-21k', 'dist-42k', 'dist-50k'];
+            expect(BadgeService.checkMonthlyMaster(monthContext({ unlockedBadgeIds }))).toBe(true);
         });
 
-        it('should unlock half marathon badge at 21km', () => {
-            const result = BadgeService.checkMonthlyDistanceBadges(21000, []);
-            expect(result).toContain('dist-21k');
+        it('should return false if already earned', () => {
+            expect(BadgeService.checkMonthlyMaster(monthContext({ unlockedBadgeIds: Array(15).fill('badge'), monthlyBadgeEarned: true }))).toBe(false);
         });
     });
 
-    describe('checkAllMonthlyBadges', () => {
-        it('should check both step and distance badges', () => {
-            const monthlyProgress: MonthlyProgress = {
-                year: 2026,
-                month: 1,
-                stepsThisMonth: 10000,
-                distanceMetersThisMonth: 10000,
-                unlockedBadgeIds: [],
-                monthlyBadgeEarned: false
-            };
+    describe('checkLifetimeBadges', () => {
+        it('should unlock first trail badge', () => {
+            expect(BadgeService.checkLifetimeBadges(context({ completedTrails: completedTrails(1) }))).toContain('trail-1');
+        });
 
-            const result = BadgeService.checkAllMonthlyBadges(monthlyProgress);
-            expect(result).toContain('step-5k');
-            expect(result).toContain('step-10k');
-            expect(result).toContain('dist-5k');
-            expect(result).toContain('dist-10k');
+        it('should unlock multiple trail badges at once', () => {
+            const result = BadgeService.checkLifetimeBadges(context({ completedTrails: completedTrails(5) }));
+            expect(result).toEqual(['trail-1', 'trail-3', 'trail-5']);
+        });
+
+        it('should not count custom trails', () => {
+            const custom = completedTrails(1).map(ct => ({ ...ct, trailId: 'custom-abc' }));
+            expect(BadgeService.checkLifetimeBadges(context({ completedTrails: custom }))).toEqual([]);
+        });
+
+        it('should not unlock all-trails badge if not all completed', () => {
+            expect(BadgeService.checkLifetimeBadges(context({ completedTrails: completedTrails(49) }))).not.toContain('trail-all');
+        });
+
+        it('should unlock all-trails badge when all completed', () => {
+            expect(BadgeService.checkLifetimeBadges(context({ completedTrails: completedTrails(50) }))).toContain('trail-all');
+        });
+
+        it('should unlock nothing before the first challenge win', () => {
+            expect(BadgeService.checkLifetimeBadges(context({ challengesWon: [] }))).toEqual([]);
+        });
+
+        it('should unlock every challenge badge reached by the win count', () => {
+            const challengesWon = ['c1', 'c2', 'c3', 'c4', 'c5'];
+            expect(BadgeService.checkLifetimeBadges(context({ challengesWon }))).toEqual(['challenge-1', 'challenge-3', 'challenge-5']);
+        });
+
+        it('should not return already unlocked badges', () => {
+            const result = BadgeService.checkLifetimeBadges(context({ challengesWon: ['c1', 'c2', 'c3'], challengeBadges: ['challenge-1'] }));
+            expect(result).toEqual(['challenge-3']);
+        });
+
+        it('should unlock every streak badge reached by the longest streak', () => {
+            const result = BadgeService.checkLifetimeBadges(context({ currentStreak: 14, lastLogDate: '2026-01-14', streakBadges: ['streak-3'] }));
+            expect(result).toEqual(['streak-7', 'streak-14']);
         });
     });
 
-    describe('checkMonthlyMaster', () => {
-        it('should return false if not enough badges', () => {
-            const monthlyProgress: MonthlyProgress = {
-                year: 2026,
-                month: 1,
-                stepsThisMonth: 0,
-                distanceMetersThisMonth: 0,
-                unlockedBadgeIds: ['step-5k', 'step-10k'],
-                monthlyBadgeEarned: false
-            };
+    describe('getLifetimeBadgeIds and addLifetimeBadges', () => {
+        it('should keep each badge in the list of its collection', () => {
+            const progress = BadgeService.addLifetimeBadges(context().progress, ['trail-1', 'challenge-1', 'streak-3', 'early-bird']);
+            expect(progress).toMatchObject({
+                trailBadges: ['trail-1'],
+                challengeBadges: ['challenge-1'],
+                streakBadges: ['streak-3'],
+                lifetimeBadges: ['early-bird']
+            });
+            expect(BadgeService.getLifetimeBadgeIds(progress)).toEqual(['trail-1', 'challenge-1', 'streak-3', 'early-bird']);
+        });
 
-            expect(BadgeService.checkMonthlyMaster(monthlyProgress)).toBe(false);
+        it('should return the same progress when nothing was unlocked', () => {
+            const progress = context().progress;
+            expect(BadgeService.addLifetimeBadges(progress, [])).toBe(progress);
         });
+    });
 
-        it('should return true when 10 or more badges earned', () => {
-            const monthlyProgress: MonthlyProgress = {
-                year: 2026,
-                month: 1,
-                stepsThisMonth: 0,
-                distanceMetersThisMonth: 0,
-                unlockedBadgeIds: ['step-5k', 'step-10k', 'step-25k', 'step-50k', 'step-100k',
-                    'dist-5k', 'dist-10k', 'dist-21k', 'dist-42k', 'dist-50k'],
-                monthlyBadgeEarned: false
-            };
+    describe('needsHourlySteps', () => {
+        it('should read hours until every hour-based badge is unlocked', () => {
+            expect(BadgeService.needsHourlySteps(context().progress, BADGES)).toBe(true);
+            expect(BadgeService.needsHourlySteps(context({ lifetimeBadges: ['early-bird'] }).progress, BADGES)).toBe(false);
+        });
 
-            expect(BadgeService.checkMonthlyMaster(monthlyProgress)).toBe(true);
+        it('should read hours for an hour-based badge from the catalog', () => {
+            expect(BadgeService.needsHourlySteps(context({ lifetimeBadges: ['early-bird'] }).progress, [...BADGES, nightOwl])).toBe(true);
         });
+    });
 
-        it('should return false if already earned', () => {
-            const monthlyProgress: MonthlyProgress = {
-                year: 2026,
-                month: 1,
-                stepsThisMonth: 0,
-                distanceMetersThisMonth: 0,
-                unlockedBadgeIds: Array(15).fill('badge'),
-                monthlyBadgeEarned: true
-            };
+    describe('with a remote catalog', () => {
+        it('should check and file badges the catalog adds', () => {
+            const ctx = { ...context({ challengesWon: ['c1'] }), badges: [...BADGES, firstWin] };
+            expect(BadgeService.checkLifetimeBadges(ctx)).toContain('first-win');
+            expect(BadgeService.checkLifetimeBadges({ ...ctx, badges: BADGES })).not.toContain('first-win');
+            expect(BadgeService.addLifetimeBadges(ctx.progress, ['first-win'], ctx.badges).challengeBadges).toEqual(['first-win']);
+            expect(BadgeService.describeUnlock({ badgeId: 'first-win', unlockedAt: '2026-01-15T12:00:00.000Z', date: '2026-01-15' }, ctx.badges)?.name).toBe('First Win');
+        });
+    });
+
+    describe('createUnlock', () => {
+        it('should record a monthly badge with its month and value', () => {
+            const unlock = BadgeService.createUnlock('step-5k', monthContext({ stepsThisMonth: 5200 }), '2026-01-15T12:00:00.000Z');
+            expect(unlock).toEqual({ badgeId: 'step-5k', unlockedAt: '2026-01-15T12:00:00.000Z', date: '2026-01-15', value: 5200, year: 2026, month: 1 });
+        });
 
-            expect(BadgeService.checkMonthlyMaster(monthlyProgress)).toBe(false);
+        it('should record a lifetime badge with the trail that unlocked it', () => {
+            const unlock = BadgeService.createUnlock('trail-1', context({ completedTrails: completedTrails(1) }), '2026-01-15T12:00:00.000Z', 'trail-0');
+            expect(unlock).toEqual({ badgeId: 'trail-1', unlockedAt: '2026-01-15T12:00:00.000Z', date: '2026-01-15', value: 1, trailId: 'trail-0' });
+        });
+
+        it('should record the champion\'s year', () => {
+            const yearlyProgress = [{ year: 2026, monthlyBadgesEarned: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12], yearlyBadgeEarned: true }];
+            expect(BadgeService.createUnlock('champion-2026', context({ yearlyProgress }), '2026-01-15T12:00:00.000Z'))
+                .toMatchObject({ value: 12, year: 2026 });
         });
     });
 
-    describe('checkTrailBadges', () => {
-        it('should unlock first trail badge', () => {
-            const result = BadgeService.checkTrailBadges(1, 50, []);
-            expect(result).toContain('trail-1');
+    describe('addUnlocks', () => {
+        const unlock = (badgeId: string, month?: number): BadgeUnlock => ({
+            badgeId,
+            unlockedAt: '2026-01-15T12:00:00.000Z',
+            ...(month ? { year: 2026, month } : {})
         });
 
-        it('should unlock multiple trail badges at once', () => {
-            const result = BadgeService.checkTrailBadges(5, 50, []);
-            expect(result).toContain('trail-1');
-            expect(result).toContain('trail-3');
-            expect(result).toContain('trail-5');
+        it('should keep one record per unlock, letting monthly badges unlock every month', () => {
+            const progress = BadgeService.addUnlocks(context({ badgeUnlocks: [unlock('step-5k', 1)] }).progress, [
+                unlock('step-5k', 1),
+                unlock('step-5k', 2),
+                unlock('trail-1'),
+                unlock('trail-1')
+            ]);
+            expect(progress.badgeUnlocks).toEqual([unlock('step-5k', 1), unlock('step-5k', 2), unlock('trail-1')]);
         });
 
-        it('should not unlock all-trails badge if not all completed', () => {
-            const result = BadgeService.checkTrailBadges(49, 50, []);
-            expect(result).not.toContain('trail-all');
+        it('should return the same progress when nothing is new', () => {
+            const progress = context({ badgeUnlocks: [unlock('trail-1')] }).progress;
+            expect(BadgeService.addUnlocks(progress, [unlock('trail-1')])).toBe(progress);
         });
+    });
 
-        it('should unlock all-trails badge when all completed', () => {
-            const result = BadgeService.checkTrailBadges(50, 50, []);
-            expect(result).toContain('trail-all');
+    describe('backfillUnlocks', () => {
+        const endOfMonth = (year: number, month: number) => new Date(year, month, 0, 23, 59, 59, 999).toISOString();
+        const legacy = context({
+            lastSyncTime: '2026-01-20T12:00:00.000Z',
+            pastMonths: [monthly({ year: 2025, month: 11, unlockedBadgeIds: ['step-5k'] })],
+            monthlyProgress: monthly({ unlockedBadgeIds: ['step-5k'] }),
+            yearlyProgress: [{ year: 2025, monthlyBadgesEarned: [11], yearlyBadgeEarned: false }],
+            completedTrails: [
+                ...completedTrails(1),
+                { ...completedTrails(1)[0], trailId: 'custom-x', completedDate: '2025-12-01T12:00:00.000Z' },
+                { ...completedTrails(1)[0], trailId: 'trail-9', completedDate: '2025-12-05T12:00:00.000Z' }
+            ],
+            trailBadges: ['trail-1'],
+            streakBadges: ['streak-3']
+        }).progress;
+
+        it('should estimate when each badge was unlocked', () => {
+            const unlocks = BadgeService.backfillUnlocks(legacy).badgeUnlocks || [];
+            const find = (badgeId: string, month?: number) => unlocks.find(u => u.badgeId === badgeId && u.month === month);
+
+            expect(unlocks).toHaveLength(5);
+            expect(unlocks.every(u => u.estimated)).toBe(true);
+            expect(find('step-5k', 11)).toMatchObject({ year: 2025, unlockedAt: endOfMonth(2025, 11) });
+            expect(find('master-11', 11)).toMatchObject({ year: 2025, unlockedAt: endOfMonth(2025, 11) });
+            expect(find('step-5k', 1)).toMatchObject({ year: 2026, unlockedAt: '2026-01-20T12:00:00.000Z' }); // The month is not over
+            expect(find('trail-1')).toMatchObject({ trailId: 'trail-9', unlockedAt: '2025-12-05T12:00:00.000Z' }); // First catalog trail
+            expect(find('streak-3')).toMatchObject({ unlockedAt: '2026-01-20T12:00:00.000Z' });
+        });
+
+        it('should keep the records oldest first', () => {
+            const times = (BadgeService.backfillUnlocks(legacy).badgeUnlocks || []).map(u => new Date(u.unlockedAt).getTime());
+            expect(times).toEqual([...times].sort((a, b) => a - b));
+        });
+
+        it('should only add what is missing', () => {
+            const recorded: BadgeUnlock = { badgeId: 'streak-3', unlockedAt: '2026-01-02T08:00:00.000Z', value: 3 };
+            const backfilled = BadgeService.backfillUnlocks({ ...legacy, badgeUnlocks: [recorded] });
+
+            expect(backfilled.badgeUnlocks?.filter(u => u.badgeId === 'streak-3')).toEqual([recorded]);
+            expect(BadgeService.backfillUnlocks(backfilled)).toBe(backfilled);
+        });
+    });
+
+    describe('getTimeline', () => {
+        it('should group unlocks by the month they count for, newest first', () => {
+            const timeline = BadgeService.getTimeline({
+                badgeUnlocks: [
+                    { badgeId: 'step-5k', unlockedAt: '2026-01-03T12:00:00.000Z', date: '2026-01-03' },
+                    { badgeId: 'trail-1', unlockedAt: '2026-02-01T12:00:00.000Z', date: '2026-01-31' },
+                    { badgeId: 'step-10k', unlockedAt: '2026-02-10T12:00:00.000Z', date: '2026-02-10' }
+                ]
+            });
+            expect(timeline.map(m => [m.year, m.month, m.unlocks.map(u => u.badgeId)])).toEqual([
+                [2026, 2, ['step-10k']],
+                [2026, 1, ['trail-1', 'step-5k']]
+            ]);
+        });
+    });
+
+    describe('formatUnlockValue and describeUnlock', () => {
+        const unlock = (badgeId: string, value?: number): BadgeUnlock => ({
+            badgeId,
+            unlockedAt: '2026-01-15T12:00:00.000Z',
+            year: 2026,
+            month: 4,
+            ...(value !== undefined ? { value } : {})
+        });
+
+        it('should describe the value in the words of the badge rule', () => {
+            expect(BadgeService.formatUnlockValue(unlock('step-5k', 5200))).toBe(`${(5200).toLocaleString()} steps`);
+            expect(BadgeService.formatUnlockValue(unlock('dist-5k', 5200), 'km')).toBe('5.2 km');
+            expect(BadgeService.formatUnlockValue(unlock('trail-1', 1))).toBe('1 trail completed');
+            expect(BadgeService.formatUnlockValue(unlock('power-trio', 3))).toBe('3 days in a row');
+            expect(BadgeService.formatUnlockValue(unlock('trail-all', 0))).toBeNull();
+            expect(BadgeService.formatUnlockValue(unlock('step-5k'))).toBeNull();
+        });
+
+        it('should name master and champion badges after their month and year', () => {
+            expect(BadgeService.describeUnlock(unlock('master-4'))?.name).toBe(BadgeService.getMonthlyMasterName(2026, 4));
+            expect(BadgeService.describeUnlock(unlock('champion-2026'))?.name).toBe(BadgeService.getYearlyChampionName(2026));
+            expect(BadgeService.describeUnlock(unlock('step-5k'))?.name).toBe('First Steps');
+            expect(BadgeService.describeUnlock(unlock('retired-badge'))).toBeNull();
         });
     });
 
     describe('checkYearlyChampion', () => {
-        it('should return false if not all months earned', () => {
-            const yearlyProgress: YearlyProgress = {
-                year: 2026,
-                monthlyBadgesEarned: [1, 2, 3, 4, 5],
-                yearlyBadgeEarned: false
-            };
+        const yearContext = (yearlyProgress: YearlyProgress) => context({ monthlyProgress: monthly({ year: 2026 }), yearlyProgress: [yearlyProgress] });
 
-            expect(BadgeService.checkYearlyChampion(yearlyProgress)).toBe(false);
+        it('should return false if not all months earned', () => {
+            expect(BadgeService.checkYearlyChampion(yearContext({ year: 2026, monthlyBadgesEarned: [1, 2, 3, 4, 5], yearlyBadgeEarned: false }))).toBe(false);
         });
 
         it('should return true when all 12 months completed', () => {
-            const yearlyProgress: YearlyProgress = {
-                year: 2026,
-                monthlyBadgesEarned: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12],
-                yearlyBadgeEarned: false
-            };
+            const yearlyProgress = { year: 2026, monthlyBadgesEarned: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12], yearlyBadgeEarned: false };
+            expect(BadgeService.checkYearlyChampion(yearContext(yearlyProgress))).toBe(true);
+        });
 
-            expect(BadgeService.checkYearlyChampion(yearlyProgress)).toBe(true);
+        it('should return false if already earned', () => {
+            const yearlyProgress = { year: 2026, monthlyBadgesEarned: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12], yearlyBadgeEarned: true };
+            expect(BadgeService.checkYearlyChampion(yearContext(yearlyProgress))).toBe(false);
         });
     });
 
     describe('getNextBadges', () => {
         it('should return top 3 closest badges', () => {
-            const monthlyProgress: MonthlyProgress = {
-                year: 2026,
-                month: 1,
-                stepsThisMonth: 4000,
-                distanceMetersThisMonth: 4000,
-                unlockedBadgeIds: [],
-                monthlyBadgeEarned: false
-            };
-
-            const result = BadgeService.getNextBadges(monthlyProgress);
+            const result = BadgeService.getNextBadges(monthContext({ stepsThisMonth: 4000, distanceMetersThisMonth: 4000 }));
             expect(result.length).toBeLessThanOrEqual(3);
             expect(result[0].percentComplete).toBeGreaterThanOrEqual(result[1]?.percentComplete || 0);
+            expect(result[0]).toMatchObject({ current: 4000, target: 5000, remaining: 1000, percentComplete: 80 });
         });
     });
 
@@ -7,18 +7,40 @@
  * Modification History:
  * 2024-01-12: Created for gamification features.
  * 2026-01-15: Complete revamp for monthly recurring badges.
+ * 2026-10-19: Added challenge badges.
+ * 2026-10-19: Added streak badges.
+ * 2026-10-19: Badge checks evaluate the declarative badge rules through BadgeRuleEngine.
+ * 2026-10-19: Badge unlock records: creating, adding, backfilling and describing them.
+ * 2026-10-19: Added needsHourlySteps.
+ * 2026-10-19: Badges come from the badge catalog in use instead of the bundled list.
  */
 import {
-    MONTHLY_STEP_BADGES,
-    MONTHLY_DISTANCE_BADGES,
-    TRAIL_BADGES,
-    ALL_MONTHLY_BADGES,
+    BADGES,
+    MONTHLY_MASTER_BADGES,
     MONTHLY_MASTER_REQUIREMENT,
+    YEARLY_CHAMPION_RULE,
     MONTH_NAMES,
     MONTH_ICONS,
     Badge
 } from '../const/badges';
-import { MonthlyProgress, YearlyProgress } from '../types';
+import { BadgeUnlock, MonthlyProgress, UserProgress, YearlyProgress } from '../types';
+import { BadgeContext, BadgeRuleEngine } from './BadgeRuleEngine';
+import { CustomTrailService } from './CustomTrailService';
+import { formatDistance } from '../utils/conversion';
+import { toLocalDateKey } from '../utils/date';
+
+export interface BadgeDisplay {
+    name: string;
+    icon: string;
+    description: string;
+}
+
+// Unlocks of one calendar month, for the timeline
+export interface UnlockTimelineMonth {
+    year: number;
+    month: number; // 1-12
+    unlocks: BadgeUnlock[]; // Newest first
+}
 
 export interface NextBadgeInfo {
     badge: Badge;
@@ -28,119 +50,280 @@ export interface NextBadgeInfo {
     percentComplete: number;
 }
 
+const monthlyOf = (badges: Badge[]) => badges.filter(badge => badge.period === 'monthly');
+const lifetimeOf = (badges: Badge[]) => badges.filter(badge => badge.period === 'lifetime');
+
+// Lifetime badges of these collections keep their own lists on UserProgress; the rest go to lifetimeBadges
+const LIFETIME_LISTS: Record<string, 'trailBadges' | 'challengeBadges' | 'streakBadges'> = {
+    trails: 'trailBadges',
+    challenges: 'challengeBadges',
+    streaks: 'streakBadges'
+};
+
+const CHAMPION_PREFIX = 'champion-';
+
+/**
+ * Helper: Last moment of a local month (1-12)
+ */
+const endOfMonth = (year: number, month: number): Date => new Date(year, month, 0, 23, 59, 59, 999);
+
+/**
+ * Helper: An estimated unlock time. The badge was unlocked by the last sync, so estimates never go past it.
+ */
+const estimatedUnlock = (badgeId: string, at: Date, lastSyncTime: string, extra: Partial<BadgeUnlock> = {}): BadgeUnlock => {
+    const lastSync = new Date(lastSyncTime);
+    const unlockedAt = isNaN(lastSync.getTime()) || at <= lastSync ? at : lastSync;
+    return { badgeId, unlockedAt: unlockedAt.toISOString(), date: toLocalDateKey(unlockedAt), ...extra, estimated: true };
+};
+
+const listOf = (badgeId: string, badges: Badge[]): 'trailBadges' | 'challengeBadges' | 'streakBadges' | 'lifetimeBadges' => {
+    const badge = lifetimeOf(badges).find(b => b.id === badgeId);
+    return (badge && LIFETIME_LISTS[badge.collection]) || 'lifetimeBadges';
+};
+
 export const BadgeService = {
     /**
-     * Check for newly unlocked monthly step badges
+     * Check for newly unlocked monthly badges in the month of context.progress.monthlyProgress
      */
-    checkMonthlyStepBadges(stepsThisMonth: number, alreadyUnlocked: string[]): string[] {
-        const newBadges: string[] = [];
-        const unlockedSet = new Set(alreadyUnlocked);
+    checkMonthlyBadges(context: BadgeContext): string[] {
+        return BadgeRuleEngine.evaluate(monthlyOf(context.badges), context, context.progress.monthlyProgress.unlockedBadgeIds);
+    },
 
-        for (const badge of MONTHLY_STEP_BADGES) {
-            if (!unlockedSet.has(badge.id) && stepsThisMonth >= badge.conditionValue) {
-                newBadges.push(badge.id);
-            }
-        }
+    /**
+     * Check for newly unlocked lifetime badges (trails, challenges, streaks and feats)
+     */
+    checkLifetimeBadges(context: BadgeContext): string[] {
+        return BadgeRuleEngine.evaluate(lifetimeOf(context.badges), context, this.getLifetimeBadgeIds(context.progress));
+    },
+
+    /**
+     * Whether a sync has to read steps hour by hour: some badge that counts steps by hour of day can still
+     * unlock. Monthly and yearly badges unlock again each period, so theirs always can.
+     */
+    needsHourlySteps(progress: UserProgress, badges: Badge[]): boolean {
+        const unlocked = new Set(this.getLifetimeBadgeIds(progress));
+        return badges.some(badge => BadgeRuleEngine.readsHours(badge.rule)
+            && (badge.period !== 'lifetime' || !unlocked.has(badge.id)));
+    },
 
-        return newBadges;
+    /**
+     * Every lifetime badge the user has unlocked
+     */
+    getLifetimeBadgeIds(progress: Pick<UserProgress, 'trailBadges' | 'challengeBadges' | 'streakBadges' | 'lifetimeBadges'>): string[] {
+        return [
+            ...(progress.trailBadges || []),
+            ...(progress.challengeBadges || []),
+            ...(progress.streakBadges || []),
+            ...(progress.lifetimeBadges || [])
+        ];
     },
 
     /**
-     * Check for newly unlocked monthly distance badges
+     * Record newly unlocked lifetime badges in the list their collection is kept in
      */
-    checkMonthlyDistanceBadges(distanceMetersThisMonth: number, alreadyUnlocked: string[]): string[] {
-        const newBadges: string[] = [];
-        const unlockedSet = new Set(alreadyUnlocked);
+    addLifetimeBadges(progress: UserProgress, badgeIds: string[], badges: Badge[] = BADGES): UserProgress {
+        if (badgeIds.length === 0) return progress;
 
-        for (const badge of MONTHLY_DISTANCE_BADGES) {
-            if (!unlockedSet.has(badge.id) && distanceMetersThisMonth >= badge.conditionValue) {
-                newBadges.push(badge.id);
-            }
+        const updated = { ...progress };
+        for (const badgeId of badgeIds) {
+            const list = listOf(badgeId, badges);
+            updated[list] = [...(updated[list] || []), badgeId];
         }
+        return updated;
+    },
 
-        return newBadges;
+    /**
+     * Identifies an unlock: monthly and master badges by their year and month, the rest by badge id
+     */
+    unlockKey(unlock: BadgeUnlock): string {
+        return [unlock.badgeId, unlock.year ?? '', unlock.month ?? ''].join('|');
     },
 
     /**
-     * Check all monthly badges (steps + distance) at once
+     * Record of a badge unlocked as of context.today, with the value its rule measured
      */
-    checkAllMonthlyBadges(monthlyProgress: MonthlyProgress): string[] {
-        const stepBadges = this.checkMonthlyStepBadges(
-            monthlyProgress.stepsThisMonth,
-            monthlyProgress.unlockedBadgeIds
-        );
-        const distanceBadges = this.checkMonthlyDistanceBadges(
-            monthlyProgress.distanceMetersThisMonth,
-            monthlyProgress.unlockedBadgeIds
-        );
+    createUnlock(badgeId: string, context: BadgeContext, unlockedAt: string, trailId?: string): BadgeUnlock {
+        const { year, month } = context.progress.monthlyProgress;
+        const champion = badgeId.startsWith(CHAMPION_PREFIX);
+        const badge = [...context.badges, ...MONTHLY_MASTER_BADGES].find(b => b.id === badgeId);
+        const rule = champion ? YEARLY_CHAMPION_RULE : badge?.rule;
+        const value = rule ? BadgeRuleEngine.metricValue(rule, context) : null;
 
-        return [...stepBadges, ...distanceBadges];
+        return {
+            badgeId,
+            unlockedAt,
+            date: context.today,
+            ...(value !== null ? { value } : {}),
+            ...(badge && badge.period !== 'lifetime' ? { year, month } : {}),
+            ...(champion ? { year: Number(badgeId.slice(CHAMPION_PREFIX.length)) } : {}),
+            ...(trailId ? { trailId } : {})
+        };
     },
 
     /**
-     * Check if user has earned the Monthly Master badge (10/15 badges)
+     * Append unlock records, skipping any already recorded
      */
-    checkMonthlyMaster(monthlyProgress: MonthlyProgress): boolean {
-        if (monthlyProgress.monthlyBadgeEarned) return false; // Already earned
-        return monthlyProgress.unlockedBadgeIds.length >= MONTHLY_MASTER_REQUIREMENT;
+    addUnlocks(progress: UserProgress, unlocks: BadgeUnlock[]): UserProgress {
+        const recorded = new Set((progress.badgeUnlocks || []).map(unlock => this.unlockKey(unlock)));
+        const added = unlocks.filter(unlock => {
+            const key = this.unlockKey(unlock);
+            if (recorded.has(key)) return false;
+            recorded.add(key);
+            return true;
+        });
+        return added.length > 0 ? { ...progress, badgeUnlocks: [...(progress.badgeUnlocks || []), ...added] } : progress;
     },
 
     /**
-     * Check for newly unlocked trail badges (lifetime)
+     * Migration: estimated records for badges unlocked before unlocks were recorded. Monthly and master
+     * badges date from the end of their month, champions from the end of their year, trail count badges
+     * from the trail completion that reached the count, and the rest from the last sync.
      */
-    checkTrailBadges(completedTrailsCount: number, totalTrailsCount: number, alreadyUnlocked: string[]): string[] {
-        const newBadges: string[] = [];
-        const unlockedSet = new Set(alreadyUnlocked);
+    backfillUnlocks(progress: UserProgress, badges: Badge[] = BADGES): UserProgress {
+        const { lastSyncTime } = progress;
+        const unlocks: BadgeUnlock[] = [];
 
-        for (const badge of TRAIL_BADGES) {
-            if (unlockedSet.has(badge.id)) continue;
+        const months = [...(progress.pastMonths || []), ...(progress.monthlyProgress ? [progress.monthlyProgress] : [])];
+        for (const mp of months) {
+            for (const badgeId of mp.unlockedBadgeIds) {
+                unlocks.push(estimatedUnlock(badgeId, endOfMonth(mp.year, mp.month), lastSyncTime, { year: mp.year, month: mp.month }));
+            }
+        }
 
-            if (badge.conditionValue === -1) {
-                // "All trails" badge
-                if (completedTrailsCount >= totalTrailsCount && totalTrailsCount > 0) {
-                    newBadges.push(badge.id);
-                }
-            } else if (completedTrailsCount >= badge.conditionValue) {
-                newBadges.push(badge.id);
+        for (const yp of progress.yearlyProgress || []) {
+            for (const month of yp.monthlyBadgesEarned) {
+                unlocks.push(estimatedUnlock(`master-${month}`, endOfMonth(yp.year, month), lastSyncTime, { year: yp.year, month }));
+            }
+            if (yp.yearlyBadgeEarned) {
+                unlocks.push(estimatedUnlock(`${CHAMPION_PREFIX}${yp.year}`, endOfMonth(yp.year, 12), lastSyncTime, { year: yp.year }));
             }
         }
 
-        return newBadges;
+        const catalogCompletions = (progress.completedTrails || [])
+            .filter(ct => !CustomTrailService.isCustomTrailId(ct.trailId))
+            .sort((a, b) => a.completedDate.localeCompare(b.completedDate));
+        for (const badgeId of this.getLifetimeBadgeIds(progress)) {
+            const badge = lifetimeOf(badges).find(b => b.id === badgeId);
+            const completion = badge?.rule.metric === 'trailsCompleted'
+                ? catalogCompletions[badge.rule.threshold - 1]
+                : badge?.rule.metric === 'trailsRemaining' ? catalogCompletions[catalogCompletions.length - 1] : undefined;
+            unlocks.push(completion
+                ? estimatedUnlock(badgeId, new Date(completion.completedDate), lastSyncTime, { trailId: completion.trailId })
+                : estimatedUnlock(badgeId, new Date(lastSyncTime), lastSyncTime));
+        }
+
+        const updated = this.addUnlocks(progress, unlocks);
+        if (updated === progress) return progress;
+        return { ...updated, badgeUnlocks: this.sortUnlocks(updated.badgeUnlocks || []) };
     },
 
     /**
-     * Check if user has earned the Yearly Champion badge
+     * Unlocks oldest first
      */
-    checkYearlyChampion(yearlyProgress: YearlyProgress): boolean {
-        if (yearlyProgress.yearlyBadgeEarned) return false; // Already earned
-        return yearlyProgress.monthlyBadgesEarned.length >= 12;
+    sortUnlocks(unlocks: BadgeUnlock[]): BadgeUnlock[] {
+        return [...unlocks].sort((a, b) => new Date(a.unlockedAt).getTime() - new Date(b.unlockedAt).getTime());
     },
 
     /**
-     * Get the next closest badges to completion (top 3)
+     * The most recent unlocks, newest first
      */
-    getNextBadges(monthlyProgress: MonthlyProgress): NextBadgeInfo[] {
-        const unlockedSet = new Set(monthlyProgress.unlockedBadgeIds);
-        const nextBadges: NextBadgeInfo[] = [];
+    getRecentUnlocks(progress: Pick<UserProgress, 'badgeUnlocks'>, count: number): BadgeUnlock[] {
+        return this.sortUnlocks(progress.badgeUnlocks || []).reverse().slice(0, count);
+    },
 
-        // Check step badges
-        for (const badge of MONTHLY_STEP_BADGES) {
-            if (unlockedSet.has(badge.id)) continue;
+    /**
+     * Every unlock grouped by the local month it counts for, newest first
+     */
+    getTimeline(progress: Pick<UserProgress, 'badgeUnlocks'>): UnlockTimelineMonth[] {
+        const months: UnlockTimelineMonth[] = [];
+        for (const unlock of this.sortUnlocks(progress.badgeUnlocks || []).reverse()) {
+            const date = unlock.date || toLocalDateKey(new Date(unlock.unlockedAt));
+            const year = Number(date.slice(0, 4));
+            const month = Number(date.slice(5, 7));
+            const last = months[months.length - 1];
+            if (last && last.year === year && last.month === month) {
+                last.unlocks.push(unlock);
+            } else {
+                months.push({ year, month, unlocks: [unlock] });
+            }
+        }
+        return months;
+    },
 
-            const current = monthlyProgress.stepsThisMonth;
-            const target = badge.conditionValue;
-            const remaining = Math.max(0, target - current);
-            const percentComplete = Math.min(100, Math.round((current / target) * 100));
+    /**
+     * The metric value an unlock recorded, in words (e.g. "52,340 steps"). Null when none was recorded.
+     */
+    formatUnlockValue(unlock: BadgeUnlock, distanceUnit: 'km' | 'mi' = 'km', badges: Badge[] = BADGES): string | null {
+        if (unlock.value === undefined) return null;
+        const rule = unlock.badgeId.startsWith(CHAMPION_PREFIX)
+            ? YEARLY_CHAMPION_RULE
+            : [...badges, ...MONTHLY_MASTER_BADGES].find(b => b.id === unlock.badgeId)?.rule;
+        const value = unlock.value;
+        const plural = (word: string) => `${value.toLocaleString()} ${word}${value === 1 ? '' : 's'}`;
 
-            nextBadges.push({ badge, current, target, remaining, percentComplete });
+        switch (rule?.metric) {
+            case 'steps': return plural('step');
+            case 'distance': return formatDistance(value, distanceUnit);
+            case 'qualifyingDays': return plural('day');
+            case 'consecutiveDays': return `${plural('day')} in a row`;
+            case 'trailsCompleted': return `${plural('trail')} completed`;
+            case 'challengesWon': return `${plural('challenge')} won`;
+            case 'longestStreak': return `${value}-day streak`;
+            case 'monthlyBadges': return `${plural('badge')} that month`;
+            case 'monthlyMasters': return `${plural('month')} mastered`;
+            default: return null; // e.g. trails remaining, which is 0 when unlocked
+        }
+    },
+
+    /**
+     * Name, icon and description of an unlocked badge, including the dated master and champion badges.
+     * Null for badges no longer defined.
+     */
+    describeUnlock(unlock: BadgeUnlock, badges: Badge[] = BADGES): BadgeDisplay | null {
+        if (unlock.badgeId.startsWith(CHAMPION_PREFIX) && unlock.year) {
+            return { name: this.getYearlyChampionName(unlock.year), icon: '🏆', description: `Earned Monthly Master in every month of ${unlock.year}` };
         }
+        const master = MONTHLY_MASTER_BADGES.find(b => b.id === unlock.badgeId);
+        if (master && unlock.year && unlock.month) {
+            return { name: this.getMonthlyMasterName(unlock.year, unlock.month), icon: master.icon, description: master.description };
+        }
+        const badge = badges.find(b => b.id === unlock.badgeId);
+        return badge ? { name: badge.name, icon: badge.icon, description: badge.description } : null;
+    },
+
+    /**
+     * Check if user has earned the Monthly Master badge (10/15 badges)
+     */
+    checkMonthlyMaster(context: BadgeContext): boolean {
+        const { monthlyProgress } = context.progress;
+        if (monthlyProgress.monthlyBadgeEarned) return false; // Already earned
+        const badge = MONTHLY_MASTER_BADGES[monthlyProgress.month - 1];
+        return !!badge && BadgeRuleEngine.isMet(badge.rule, context, new Set());
+    },
+
+    /**
+     * Check if user has earned the Yearly Champion badge for the year of monthlyProgress
+     */
+    checkYearlyChampion(context: BadgeContext): boolean {
+        const { progress } = context;
+        const yearProgress = this.getOrCreateYearlyProgress(progress.yearlyProgress || [], progress.monthlyProgress.year);
+        if (yearProgress.yearlyBadgeEarned) return false; // Already earned
+        return BadgeRuleEngine.isMet(YEARLY_CHAMPION_RULE, context, new Set());
+    },
+
+    /**
+     * Get the next closest monthly badges to completion (top 3)
+     */
+    getNextBadges(context: BadgeContext): NextBadgeInfo[] {
+        const unlockedSet = new Set(context.progress.monthlyProgress.unlockedBadgeIds);
+        const nextBadges: NextBadgeInfo[] = [];
 
-        // Check distance badges
-        for (const badge of MONTHLY_DISTANCE_BADGES) {
+        for (const badge of monthlyOf(context.badges)) {
             if (unlockedSet.has(badge.id)) continue;
+            const progress = BadgeRuleEngine.progressToward(badge.rule, context);
+            if (!progress || progress.target <= 0) continue;
 
-            const current = monthlyProgress.distanceMetersThisMonth;
-            const target = badge.conditionValue;
+            const { current, target } = progress;
             const remaining = Math.max(0, target - current);
             const percentComplete = Math.min(100, Math.round((current / target) * 100));
 
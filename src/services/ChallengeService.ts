@@ -0,0 +1,169 @@
+/**
+ * File: src/services/ChallengeService.ts
+ * Purpose: Firestore access for head-to-head challenges: creating them, answering invites and participant entries.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Organization challenges that any member of the organization can join.
+ */
+import { arrayRemove, arrayUnion, collection, deleteDoc, doc, getDocs, query, setDoc, updateDoc, where, writeBatch } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { Challenge, ChallengeEntry, DailyLog } from '../types';
+import { ProfileSource, toPublicProfile } from './FriendService';
+import { ChallengeDraft, ChallengeStandingsService } from './ChallengeStandingsService';
+import { withRemote } from '../utils/async';
+
+export interface ChallengeDetails {
+    challenge: Challenge;
+    entries: ChallengeEntry[];
+}
+
+const entryRef = (challengeId: string, userId: string) => doc(db, 'challenges', challengeId, 'entries', userId);
+
+const toEntry = (user: ProfileSource, days: DailyLog[]): ChallengeEntry => ({
+    ...toPublicProfile(user),
+    days,
+    updatedAt: new Date().toISOString()
+});
+
+const newestFirst = (a: Challenge, b: Challenge) => b.createdAt.localeCompare(a.createdAt);
+
+export const ChallengeService = {
+    /**
+     * Create a challenge with the creator as its only participant and the chosen friends invited.
+     * Organization challenges invite nobody; members join from the organization screen.
+     */
+    async createChallenge(creator: ProfileSource, draft: ChallengeDraft): Promise<Challenge> {
+        const challengeRef = doc(collection(db, 'challenges'));
+        const stake = draft.stake?.trim();
+        const challenge: Challenge = {
+            id: challengeRef.id,
+            type: draft.type,
+            name: draft.name.trim(),
+            creatorId: creator.id,
+            participantIds: [creator.id],
+            invitedIds: draft.organization ? [] : draft.invitedIds,
+            startDate: draft.startDate,
+            endDate: ChallengeStandingsService.getEndDate(draft.startDate, draft.days),
+            ...(draft.type === 'first_to_distance' ? { goalDistanceMeters: draft.goalDistanceMeters } : {}),
+            ...(stake ? { stake } : {}),
+            ...(draft.organization ? { organizationId: draft.organization.id, organizationName: draft.organization.name } : {}),
+            createdAt: new Date().toISOString()
+        };
+
+        // Security rules read the challenge to check participation, so it has to exist before the entry
+        await withRemote(setDoc(challengeRef, challenge), 'Create challenge');
+        await withRemote(setDoc(entryRef(challenge.id, creator.id), toEntry(creator, [])), 'Create challenge');
+        if (__DEV__) console.log(`[ChallengeService] Created challenge ${challenge.id} with ${challenge.invitedIds.length} invites`);
+        return challenge;
+    },
+
+    /**
+     * Challenges the user is in, and challenges they have been invited to but not answered. Newest first.
+     */
+    async getChallenges(userId: string): Promise<{ challenges: Challenge[]; invitations: Challenge[] }> {
+        const challengesRef = collection(db, 'challenges');
+        const [joinedSnap, invitedSnap] = await Promise.all([
+            withRemote(getDocs(query(challengesRef, where('participantIds', 'array-contains', userId))), 'Fetch challenges'),
+            withRemote(getDocs(query(challengesRef, where('invitedIds', 'array-contains', userId))), 'Fetch challenge invites')
+        ]);
+        return {
+            challenges: joinedSnap.docs.map(d => d.data() as Challenge).sort(newestFirst),
+            invitations: invitedSnap.docs.map(d => d.data() as Challenge).sort(newestFirst)
+        };
+    },
+
+    /**
+     * Every participant's entry, including people who have since left
+     */
+    async getEntries(challengeId: string): Promise<ChallengeEntry[]> {
+        const snap = await withRemote(getDocs(collection(db, 'challenges', challengeId, 'entries')), 'Fetch challenge entries');
+        return snap.docs.map(d => d.data() as ChallengeEntry);
+    },
+
+    /**
+     * Accept an invite. The user's logs for the challenge dates are published straight away.
+     */
+    async acceptInvite(user: ProfileSource, challenge: Challenge, days: DailyLog[]): Promise<void> {
+        if (challenge.winnerIds) {
+            throw new Error('This challenge has already finished.');
+        }
+        await withRemote(updateDoc(doc(db, 'challenges', challenge.id), {
+            participantIds: arrayUnion(user.id),
+            invitedIds: arrayRemove(user.id)
+        }), 'Accept challenge');
+        await withRemote(setDoc(entryRef(challenge.id, user.id), toEntry(user, days)), 'Accept challenge');
+    },
+
+    /**
+     * Join an organization challenge. Like accepting an invite, the user's logs are published straight away.
+     */
+    async joinChallenge(user: ProfileSource, challenge: Challenge, days: DailyLog[]): Promise<void> {
+        if (challenge.winnerIds) {
+            throw new Error('This challenge has already finished.');
+        }
+        await withRemote(updateDoc(doc(db, 'challenges', challenge.id), { participantIds: arrayUnion(user.id) }), 'Join challenge');
+        await withRemote(setDoc(entryRef(challenge.id, user.id), toEntry(user, days)), 'Join challenge');
+    },
+
+    /**
+     * Every challenge posted to an organization, newest first
+     */
+    async getOrganizationChallenges(organizationId: string): Promise<Challenge[]> {
+        const snap = await withRemote(
+            getDocs(query(collection(db, 'challenges'), where('organizationId', '==', organizationId))),
+            'Fetch organization challenges'
+        );
+        return snap.docs.map(d => d.data() as Challenge).sort(newestFirst);
+    },
+
+    /**
+     * Turn down an invite
+     */
+    async declineInvite(userId: string, challengeId: string): Promise<void> {
+        await withRemote(updateDoc(doc(db, 'challenges', challengeId), { invitedIds: arrayRemove(userId) }), 'Decline challenge');
+    },
+
+    /**
+     * Drop out of a challenge. The user's entry is deleted so they no longer appear in the standings.
+     */
+    async leaveChallenge(userId: string, challengeId: string): Promise<void> {
+        // The entry goes first: deleting it needs the user to still be a participant
+        await withRemote(deleteDoc(entryRef(challengeId, userId)), 'Leave challenge');
+        await withRemote(updateDoc(doc(db, 'challenges', challengeId), { participantIds: arrayRemove(userId) }), 'Leave challenge');
+    },
+
+    /**
+     * Replace the user's entry with their latest logs for the challenge dates
+     */
+    async publishEntry(user: ProfileSource, challengeId: string, days: DailyLog[]): Promise<void> {
+        await withRemote(setDoc(entryRef(challengeId, user.id), toEntry(user, days)), 'Publish challenge entry');
+    },
+
+    /**
+     * Record the final result. Any participant may do this; the first one wins.
+     */
+    async declareWinner(challenge: Challenge, winnerIds: string[]): Promise<Challenge> {
+        if (challenge.winnerIds) return challenge;
+        const result = { winnerIds, finishedDate: new Date().toISOString() };
+        await withRemote(updateDoc(doc(db, 'challenges', challenge.id), result), 'Finish challenge');
+        return { ...challenge, ...result };
+    },
+
+    /**
+     * Leave every challenge and turn down every invite (used when deleting the account)
+     */
+    async leaveAll(userId: string): Promise<void> {
+        const { challenges, invitations } = await this.getChallenges(userId);
+        const batch = writeBatch(db);
+        challenges.forEach(c => {
+            batch.delete(entryRef(c.id, userId));
+            batch.update(doc(db, 'challenges', c.id), { participantIds: arrayRemove(userId) });
+        });
+        invitations.forEach(c => {
+            batch.update(doc(db, 'challenges', c.id), { invitedIds: arrayRemove(userId) });
+        });
+        await withRemote(batch.commit(), 'Leave challenges');
+    }
+};
@@ -0,0 +1,210 @@
+/**
+ * File: src/services/ChallengeStandingsService.test.ts
+ * Purpose: Unit tests for ChallengeStandingsService.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import { ChallengeDraft, ChallengeStandingsService } from './ChallengeStandingsService';
+import { Challenge, ChallengeEntry, DailyLog } from '../types';
+import { addDays } from '../utils/date';
+
+const stepsChallenge: Challenge = {
+    id: 'ch-1',
+    type: 'most_steps',
+    name: 'Most Steps in 7 Days',
+    creatorId: 'sam',
+    participantIds: ['sam', 'alex', 'casey'],
+    invitedIds: [],
+    startDate: '2026-03-01',
+    endDate: '2026-03-07',
+    createdAt: '2026-02-28T18:00:00.000Z'
+};
+
+const raceChallenge: Challenge = {
+    ...stepsChallenge,
+    id: 'ch-2',
+    type: 'first_to_distance',
+    name: 'First to 10 km',
+    goalDistanceMeters: 10000
+};
+
+const log = (date: string, steps: number, distanceMeters = Math.round(steps * 0.762)): DailyLog => ({ date, steps, distanceMeters });
+
+const entry = (userId: string, name: string, days: DailyLog[]): ChallengeEntry => ({
+    userId,
+    name,
+    days,
+    updatedAt: '2026-03-05T10:00:00.000Z'
+});
+
+describe('ChallengeStandingsService', () => {
+    describe('validateDraft', () => {
+        const draft: ChallengeDraft = {
+            type: 'most_steps',
+            name: 'Most Steps in 7 Days',
+            startDate: '2026-03-01',
+            days: 7,
+            invitedIds: ['alex']
+        };
+
+        it('should accept a valid challenge', () => {
+            expect(ChallengeStandingsService.validateDraft(draft, '2026-03-01')).toBeNull();
+        });
+
+        it('should need at least one friend and no more than the limit', () => {
+            expect(ChallengeStandingsService.validateDraft({ ...draft, invitedIds: [] }, '2026-03-01')).toMatch(/at least one friend/);
+            const tooMany = Array.from({ length: 10 }, (_, i) => `friend-${i}`);
+            expect(ChallengeStandingsService.validateDraft({ ...draft, invitedIds: tooMany }, '2026-03-01')).toMatch(/up to 10/);
+        });
+
+        it('should not need invites for an organization challenge', () => {
+            const organization = { id: 'org-1', name: 'Acme' };
+            expect(ChallengeStandingsService.validateDraft({ ...draft, invitedIds: [], organization }, '2026-03-01')).toBeNull();
+        });
+
+        it('should reject a start date in the past', () => {
+            expect(ChallengeStandingsService.validateDraft(draft, '2026-03-02')).toMatch(/past/);
+        });
+
+        it('should need a distance goal for a race', () => {
+            expect(ChallengeStandingsService.validateDraft({ ...draft, type: 'first_to_distance' }, '2026-03-01')).toMatch(/distance goal/);
+            expect(ChallengeStandingsService.validateDraft({ ...draft, type: 'first_to_distance', goalDistanceMeters: 50000 }, '2026-03-01')).toBeNull();
+        });
+    });
+
+    describe('dates and names', () => {
+        it('should count the start date as the first day', () => {
+            expect(ChallengeStandingsService.getEndDate('2026-02-26', 7)).toBe('2026-03-04');
+        });
+
+        it('should suggest a name from the rules', () => {
+            expect(ChallengeStandingsService.getDefaultName('most_steps', 7)).toBe('Most Steps in 7 Days');
+            expect(ChallengeStandingsService.getDefaultName('first_to_distance', 7, 50000)).toBe('First to 50 km');
+        });
+    });
+
+    describe('getLogsInRange', () => {
+        it('should keep only the challenge days, sorted, without timezones', () => {
+            const logs = [
+                { ...log('2026-03-02', 8000), timeZone: 'Asia/Kolkata' },
+                log('2026-02-28', 5000),
+                log('2026-03-01', 6000),
+                log('2026-03-08', 9000)
+            ];
+            expect(ChallengeStandingsService.getLogsInRange(stepsChallenge, logs)).toEqual([
+                log('2026-03-01', 6000),
+                log('2026-03-02', 8000)
+            ]);
+        });
+
+        it('should detect when published days are out of date', () => {
+            const days = [log('2026-03-01', 6000)];
+            expect(ChallengeStandingsService.hasChanged(undefined, days)).toBe(true);
+            expect(ChallengeStandingsService.hasChanged(days, [log('2026-03-01', 6000)])).toBe(false);
+            expect(ChallengeStandingsService.hasChanged(days, [log('2026-03-01', 6500)])).toBe(true);
+        });
+    });
+
+    describe('getStandings', () => {
+        it('should rank most steps and mark the current user', () => {
+            const standings = ChallengeStandingsService.getStandings(stepsChallenge, [
+                entry('sam', 'Sam', [log('2026-03-01', 6000), log('2026-03-02', 4000)]),
+                entry('alex', 'Alex', [log('2026-03-01', 12000)]),
+                entry('casey', 'Casey', [log('2026-02-28', 30000)])
+            ], 'sam');
+
+            expect(standings.map(s => [s.name, s.rank, s.steps, s.isCurrentUser])).toEqual([
+                ['Alex', 1, 12000, false],
+                ['Sam', 2, 10000, true],
+                ['Casey', 3, 0, false]
+            ]);
+        });
+
+        it('should share a rank on an exact tie', () => {
+            const standings = ChallengeStandingsService.getStandings(stepsChallenge, [
+                entry('sam', 'Sam', [log('2026-03-01', 5000)]),
+                entry('alex', 'Alex', [log('2026-03-01', 5000)]),
+                entry('casey', 'Casey', [log('2026-03-01', 1000)])
+            ], 'sam');
+            expect(standings.map(s => [s.name, s.rank])).toEqual([['Alex', 1], ['Sam', 1], ['Casey', 3]]);
+        });
+
+        it('should leave out people who left the challenge', () => {
+            const standings = ChallengeStandingsService.getStandings(stepsChallenge, [
+                entry('sam', 'Sam', [log('2026-03-01', 5000)]),
+                entry('dana', 'Dana', [log('2026-03-01', 50000)])
+            ], 'sam');
+            expect(standings.map(s => s.userId)).toEqual(['sam']);
+        });
+
+        it('should rank a race by the day the goal was reached, not total distance', () => {
+            const standings = ChallengeStandingsService.getStandings(raceChallenge, [
+                entry('sam', 'Sam', [log('2026-03-01', 0, 6000), log('2026-03-03', 0, 6000)]),
+                entry('alex', 'Alex', [log('2026-03-01', 0, 4000), log('2026-03-02', 0, 6000), log('2026-03-03', 0, 20000)]),
+                entry('casey', 'Casey', [log('2026-03-01', 0, 9000)])
+            ], 'sam');
+
+            expect(standings.map(s => [s.name, s.rank, s.reachedGoalOn])).toEqual([
+                ['Alex', 1, '2026-03-02'],
+                ['Sam', 2, '2026-03-03'],
+                ['Casey', 3, undefined]
+            ]);
+        });
+    });
+
+    describe('getStatus', () => {
+        it('should move from upcoming to active to settling to final', () => {
+            const standings = ChallengeStandingsService.getStandings(stepsChallenge, [], 'sam');
+            expect(ChallengeStandingsService.getStatus(stepsChallenge, standings, '2026-02-28')).toBe('upcoming');
+            expect(ChallengeStandingsService.getStatus(stepsChallenge, standings, '2026-03-07')).toBe('active');
+            expect(ChallengeStandingsService.getStatus(stepsChallenge, standings, '2026-03-08')).toBe('settling');
+            expect(ChallengeStandingsService.getStatus(stepsChallenge, standings, '2026-03-09')).toBe('final');
+        });
+
+        it('should stop counting a race once someone reaches the goal, but name the winner after the end date', () => {
+            const standings = ChallengeStandingsService.getStandings(raceChallenge, [
+                entry('sam', 'Sam', [log('2026-03-02', 14000, 10500)])
+            ], 'sam');
+            const resultsDay = ChallengeStandingsService.getResultsDay(raceChallenge);
+            expect(ChallengeStandingsService.getStatus(raceChallenge, standings, '2026-03-03')).toBe('settling');
+            expect(ChallengeStandingsService.getStatus(raceChallenge, standings, addDays(resultsDay, -1))).toBe('settling');
+            expect(ChallengeStandingsService.getStatus(raceChallenge, standings, resultsDay)).toBe('final');
+        });
+
+        it('should be final once a winner is recorded', () => {
+            expect(ChallengeStandingsService.getStatus({ ...stepsChallenge, winnerIds: ['sam'] }, [], '2026-03-02')).toBe('final');
+        });
+    });
+
+    describe('winners', () => {
+        it('should name everyone tied for first', () => {
+            const standings = ChallengeStandingsService.getStandings(stepsChallenge, [
+                entry('sam', 'Sam', [log('2026-03-01', 5000)]),
+                entry('alex', 'Alex', [log('2026-03-01', 5000)]),
+                entry('casey', 'Casey', [log('2026-03-01', 1000)])
+            ], 'sam');
+            expect(ChallengeStandingsService.getWinnerIds(standings).sort()).toEqual(['alex', 'sam']);
+        });
+
+        it('should give no winner when nobody walked or nobody else accepted', () => {
+            const idle = ChallengeStandingsService.getStandings(stepsChallenge, [
+                entry('sam', 'Sam', []),
+                entry('alex', 'Alex', [])
+            ], 'sam');
+            expect(ChallengeStandingsService.getWinnerIds(idle)).toEqual([]);
+
+            const alone = ChallengeStandingsService.getStandings(stepsChallenge, [entry('sam', 'Sam', [log('2026-03-01', 5000)])], 'sam');
+            expect(ChallengeStandingsService.getWinnerIds(alone)).toEqual([]);
+        });
+
+        it('should only report wins not yet counted', () => {
+            const challenges = [
+                { ...stepsChallenge, id: 'won-before', winnerIds: ['sam'] },
+                { ...stepsChallenge, id: 'won-now', winnerIds: ['sam', 'alex'] },
+                { ...stepsChallenge, id: 'lost', winnerIds: ['alex'] },
+                { ...stepsChallenge, id: 'running' }
+            ];
+            expect(ChallengeStandingsService.getNewWins(challenges, 'sam', ['won-before'])).toEqual(['won-now']);
+        });
+    });
+});
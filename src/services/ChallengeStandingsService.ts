@@ -0,0 +1,216 @@
+/**
+ * File: src/services/ChallengeStandingsService.ts
+ * Purpose: Pure helpers for head-to-head challenges: validating new challenges, standings from
+ * participants' DailyLogs, challenge status and winners.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Each participant publishes their own DailyLogs for the challenge dates, so every device computes
+ * the same standings without any server-side functions.
+ *
+ * Modification History:
+ * 2026-10-19: Drafts can be open to a whole organization instead of invited friends.
+ * 2026-10-19: Results wait for the end date and grace period even when a race is won early, as the
+ * security rules require.
+ */
+import { Challenge, ChallengeEntry, ChallengeStanding, ChallengeType, DailyLog } from '../types';
+import { addDays, DateKey, formatDateKey } from '../utils/date';
+import { formatDistance } from '../utils/conversion';
+
+export const MAX_CHALLENGE_PARTICIPANTS = 10;
+export const MAX_CHALLENGE_DAYS = 31;
+export const MAX_GOAL_DISTANCE_METERS = 1000 * 1000;
+
+// Steps taken on the last day only reach friends when that participant next opens Stridr
+export const RESULTS_GRACE_DAYS = 1;
+
+// upcoming: before the start date. active: days are still being counted.
+// settling: counting is over, waiting for late syncs and the end date. final: the winner can be declared.
+export type ChallengeStatus = 'upcoming' | 'active' | 'settling' | 'final';
+
+export interface ChallengeDraft {
+    type: ChallengeType;
+    name: string;
+    startDate: DateKey;
+    days: number;
+    goalDistanceMeters?: number;
+    stake?: string;
+    invitedIds: string[]; // Ignored for organization challenges
+    organization?: { id: string; name: string }; // Open to every member of this organization
+}
+
+export const ChallengeStandingsService = {
+    /**
+     * Problem with a new challenge as a user-facing message, or null if it can be created
+     */
+    validateDraft(draft: ChallengeDraft, today: DateKey): string | null {
+        if (!draft.name.trim()) return 'Give the challenge a name.';
+        if (!draft.organization) {
+            if (draft.invitedIds.length === 0) return 'Invite at least one friend.';
+            if (draft.invitedIds.length + 1 > MAX_CHALLENGE_PARTICIPANTS) {
+                return `Challenges can have up to ${MAX_CHALLENGE_PARTICIPANTS} people, including you.`;
+            }
+        }
+        if (draft.startDate < today) return 'A challenge cannot start in the past.';
+        if (!Number.isInteger(draft.days) || draft.days < 1 || draft.days > MAX_CHALLENGE_DAYS) {
+            return `Challenges last between 1 and ${MAX_CHALLENGE_DAYS} days.`;
+        }
+        if (draft.type === 'first_to_distance') {
+            const goal = draft.goalDistanceMeters ?? 0;
+            if (!(goal > 0) || goal > MAX_GOAL_DISTANCE_METERS) {
+                return `Pick a distance goal up to ${MAX_GOAL_DISTANCE_METERS / 1000} km.`;
+            }
+        }
+        return null;
+    },
+
+    /**
+     * Last day counted for a challenge that starts on `startDate` and lasts `days` days
+     */
+    getEndDate(startDate: DateKey, days: number): DateKey {
+        return addDays(startDate, days - 1);
+    },
+
+    /**
+     * Suggested name, e.g. "Most Steps in 7 Days" or "First to 50 km"
+     */
+    getDefaultName(type: ChallengeType, days: number, goalDistanceMeters?: number, unit: 'km' | 'mi' = 'km'): string {
+        if (type === 'first_to_distance') {
+            return `First to ${formatDistance(goalDistanceMeters ?? 0, unit, 0)}`;
+        }
+        return `Most Steps in ${days} ${days === 1 ? 'Day' : 'Days'}`;
+    },
+
+    /**
+     * One-line description of what wins, e.g. "Most steps, Mar 1 – Mar 7" or "First to 50 km by Mar 7"
+     */
+    describe(challenge: Challenge, unit: 'km' | 'mi' = 'km'): string {
+        const end = formatDateKey(challenge.endDate);
+        if (challenge.type === 'first_to_distance') {
+            return `First to ${formatDistance(challenge.goalDistanceMeters ?? 0, unit, 0)} by ${end}`;
+        }
+        return `Most steps, ${formatDateKey(challenge.startDate)} – ${end}`;
+    },
+
+    /**
+     * The user's DailyLogs that count toward a challenge, without device-specific fields
+     */
+    getLogsInRange(challenge: Pick<Challenge, 'startDate' | 'endDate'>, logs: DailyLog[]): DailyLog[] {
+        return logs
+            .filter(log => log.date >= challenge.startDate && log.date <= challenge.endDate)
+            .map(({ date, steps, distanceMeters }) => ({ date, steps, distanceMeters }))
+            .sort((a, b) => a.date.localeCompare(b.date));
+    },
+
+    /**
+     * Whether newly computed logs differ from what the user last published
+     */
+    hasChanged(published: DailyLog[] | undefined, logs: DailyLog[]): boolean {
+        if (!published || published.length !== logs.length) return true;
+        return logs.some((log, i) =>
+            log.date !== published[i].date
+            || log.steps !== published[i].steps
+            || log.distanceMeters !== published[i].distanceMeters);
+    },
+
+    /**
+     * Participants ranked on the challenge. Entries from people who left are ignored.
+     * most_steps ranks by steps, then distance. first_to_distance ranks by the day the goal was
+     * reached, then distance. Participants equal on both share a rank and are listed by name.
+     */
+    getStandings(challenge: Challenge, entries: ChallengeEntry[], currentUserId: string): ChallengeStanding[] {
+        const participants = new Set(challenge.participantIds);
+        const goal = challenge.goalDistanceMeters ?? 0;
+
+        const rows: ChallengeStanding[] = entries
+            .filter(entry => participants.has(entry.userId))
+            .map(entry => {
+                const days = this.getLogsInRange(challenge, entry.days);
+                let steps = 0;
+                let distanceMeters = 0;
+                let reachedGoalOn: DateKey | undefined;
+                for (const day of days) {
+                    steps += day.steps;
+                    distanceMeters += day.distanceMeters;
+                    if (challenge.type === 'first_to_distance' && !reachedGoalOn && goal > 0 && distanceMeters >= goal) {
+                        reachedGoalOn = day.date;
+                    }
+                }
+                return {
+                    userId: entry.userId,
+                    name: entry.name,
+                    ...(entry.profileImage ? { profileImage: entry.profileImage } : {}),
+                    rank: 0,
+                    steps,
+                    distanceMeters,
+                    ...(reachedGoalOn ? { reachedGoalOn } : {}),
+                    isCurrentUser: entry.userId === currentUserId
+                };
+            });
+
+        const compare = (a: ChallengeStanding, b: ChallengeStanding): number => {
+            if (challenge.type === 'first_to_distance') {
+                // Anyone who reached the goal beats anyone who did not; earlier beats later
+                const aDay = a.reachedGoalOn ?? '9999-12-31';
+                const bDay = b.reachedGoalOn ?? '9999-12-31';
+                if (aDay !== bDay) return aDay.localeCompare(bDay);
+                return b.distanceMeters - a.distanceMeters;
+            }
+            return (b.steps - a.steps) || (b.distanceMeters - a.distanceMeters);
+        };
+        rows.sort((a, b) => compare(a, b) || a.name.localeCompare(b.name));
+
+        rows.forEach((row, index) => {
+            const previous = rows[index - 1];
+            row.rank = previous && compare(previous, row) === 0 ? previous.rank : index + 1;
+        });
+        return rows;
+    },
+
+    /**
+     * Where the challenge is on `today`. A distance race stops counting on the day someone reaches
+     * the goal. Results stay open until RESULTS_GRACE_DAYS after the end date, even for a race won
+     * early, since the security rules cannot check a finish and only accept results after then.
+     */
+    getStatus(challenge: Challenge, standings: ChallengeStanding[], today: DateKey): ChallengeStatus {
+        if (challenge.winnerIds) return 'final';
+        if (today < challenge.startDate) return 'upcoming';
+
+        let lastDay = challenge.endDate;
+        const firstFinish = standings.find(s => s.reachedGoalOn)?.reachedGoalOn;
+        if (firstFinish && firstFinish < lastDay) lastDay = firstFinish;
+
+        if (today <= lastDay) return 'active';
+        if (today < this.getResultsDay(challenge)) return 'settling';
+        return 'final';
+    },
+
+    /**
+     * First day the winner can be recorded
+     */
+    getResultsDay(challenge: Challenge): DateKey {
+        return addDays(challenge.endDate, RESULTS_GRACE_DAYS + 1);
+    },
+
+    /**
+     * Winners from final standings: everyone ranked first, as long as they walked at all.
+     * A distance race nobody finished goes to whoever got furthest. Nobody wins a challenge
+     * that no one else accepted.
+     */
+    getWinnerIds(standings: ChallengeStanding[]): string[] {
+        if (standings.length < 2) return [];
+        return standings
+            .filter(s => s.rank === 1 && s.steps > 0)
+            .map(s => s.userId);
+    },
+
+    /**
+     * Challenges the user won that are not yet counted in `alreadyWon`
+     */
+    getNewWins(challenges: Challenge[], userId: string, alreadyWon: string[]): string[] {
+        const known = new Set(alreadyWon);
+        return challenges
+            .filter(c => c.winnerIds?.includes(userId) && !known.has(c.id))
+            .map(c => c.id);
+    }
+};
@@ -0,0 +1,112 @@
+/**
+ * File: src/services/CustomTrailService.test.ts
+ * Purpose: Unit tests for CustomTrailService.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import { CustomTrailService, CustomTrailDraft } from './CustomTrailService';
+import { RouteGeometryService } from './RouteGeometryService';
+import { isTrailFree } from '../const/subscription';
+
+const now = new Date('2026-03-10T12:00:00.000Z');
+
+const draft: CustomTrailDraft = {
+    name: '  London to Paris ',
+    description: 'Via the Channel',
+    totalDistanceMeters: 460000,
+    color: '#10B981',
+    difficulty: 'Hard',
+    landmarks: [
+        { name: 'Paris', description: 'Finish ', distanceMeters: 460000 },
+        { name: 'London', description: 'Start', distanceMeters: 0 },
+        { name: 'Dover', description: 'White cliffs', distanceMeters: 125000 }
+    ]
+};
+
+describe('CustomTrailService', () => {
+    describe('createId', () => {
+        it('should produce custom ids that do not repeat', () => {
+            const a = CustomTrailService.createId(now, () => 0.1);
+            const b = CustomTrailService.createId(now, () => 0.2);
+            expect(CustomTrailService.isCustomTrailId(a)).toBe(true);
+            expect(a).not.toBe(b);
+        });
+
+        it('should not treat catalog ids as custom', () => {
+            expect(CustomTrailService.isCustomTrailId('5k-challenge')).toBe(false);
+        });
+    });
+
+    describe('validateDraft', () => {
+        it('should accept a complete draft', () => {
+            expect(CustomTrailService.validateDraft(draft)).toEqual([]);
+        });
+
+        it('should require a name and a positive distance', () => {
+            const problems = CustomTrailService.validateDraft({ ...CustomTrailService.createDraft(), name: '   ' });
+            expect(problems).toEqual(['Give your trail a name.', 'Enter a total distance greater than zero.']);
+        });
+
+        it('should reject distances that could not be parsed', () => {
+            expect(CustomTrailService.validateDraft({ ...draft, totalDistanceMeters: NaN })).toHaveLength(1);
+        });
+
+        it('should flag landmarks without a name or beyond the end', () => {
+            const problems = CustomTrailService.validateDraft({
+                ...draft,
+                landmarks: [
+                    { name: '', description: '', distanceMeters: 1000 },
+                    { name: 'Brussels', description: '', distanceMeters: 500000 },
+                    { name: 'Nowhere', description: '', distanceMeters: -1 }
+                ]
+            });
+            expect(problems).toEqual([
+                'Landmark 1 needs a name.',
+                'Brussels is beyond the end of the trail.',
+                'Nowhere needs a distance of zero or more.'
+            ]);
+        });
+    });
+
+    describe('buildCustomTrail', () => {
+        it('should trim text and sort landmarks by distance', () => {
+            const trail = CustomTrailService.buildCustomTrail(draft, 'user-1', undefined, now);
+            expect(trail.name).toBe('London to Paris');
+            expect(trail.ownerId).toBe('user-1');
+            expect(trail.landmarks.map(l => l.name)).toEqual(['London', 'Dover', 'Paris']);
+            expect(trail.landmarks[2].description).toBe('Finish');
+            expect(new Set(trail.landmarks.map(l => l.id)).size).toBe(3);
+            expect(trail.createdAt).toBe(now.toISOString());
+        });
+
+        it('should keep the id and creation time when editing', () => {
+            const original = CustomTrailService.buildCustomTrail(draft, 'user-1', undefined, now);
+            const later = new Date('2026-03-11T08:00:00.000Z');
+            const edited = CustomTrailService.buildCustomTrail({ ...draft, name: 'London to Brussels' }, 'user-1', original, later);
+            expect(edited.id).toBe(original.id);
+            expect(edited.createdAt).toBe(original.createdAt);
+            expect(edited.updatedAt).toBe(later.toISOString());
+            expect(edited.name).toBe('London to Brussels');
+        });
+
+        it('should throw the first problem for an invalid draft', () => {
+            expect(() => CustomTrailService.buildCustomTrail({ ...draft, name: '' }, 'user-1')).toThrow('Give your trail a name.');
+        });
+
+        it('should round-trip through toDraft', () => {
+            const trail = CustomTrailService.buildCustomTrail(draft, 'user-1', undefined, now);
+            const rebuilt = CustomTrailService.buildCustomTrail(CustomTrailService.toDraft(trail), 'user-1', trail, now);
+            expect(rebuilt).toEqual(trail);
+        });
+    });
+
+    describe('toTrail', () => {
+        it('should produce a valid, free Trail in the custom category', () => {
+            const trail = CustomTrailService.toTrail(CustomTrailService.buildCustomTrail(draft, 'user-1', undefined, now));
+            expect(trail.category).toBe('custom');
+            expect(trail.image).toBeNull();
+            expect(RouteGeometryService.validateTrail(trail)).toEqual([]);
+            expect(isTrailFree(trail.id)).toBe(true);
+        });
+    });
+});
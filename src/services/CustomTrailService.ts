@@ -0,0 +1,165 @@
+/**
+ * File: src/services/CustomTrailService.ts
+ * Purpose: Validates trails built by the user and converts them to the Trail shape used everywhere else.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import { CustomTrail, Landmark, Trail } from '../types';
+import { CUSTOM_TRAIL_ID_PREFIX } from '../const/trails';
+
+export const MAX_CUSTOM_TRAIL_DISTANCE_METERS = 10000 * 1000; // 10,000 km
+export const MAX_CUSTOM_TRAIL_LANDMARKS = 50;
+export const MAX_CUSTOM_TRAIL_NAME_LENGTH = 60;
+
+// Palette offered by the builder; the first color is the default
+export const CUSTOM_TRAIL_COLORS = ['#2563EB', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899', '#0EA5E9', '#84CC16'];
+
+export interface CustomTrailLandmarkDraft {
+    name: string;
+    description: string;
+    distanceMeters: number;
+}
+
+// What the builder screen edits before the trail is saved
+export interface CustomTrailDraft {
+    name: string;
+    description: string;
+    totalDistanceMeters: number;
+    color: string;
+    difficulty: Trail['difficulty'];
+    landmarks: CustomTrailLandmarkDraft[];
+}
+
+export const CustomTrailService = {
+    /**
+     * Whether a trail id belongs to a user-created trail
+     */
+    isCustomTrailId(trailId: string): boolean {
+        return trailId.startsWith(CUSTOM_TRAIL_ID_PREFIX);
+    },
+
+    /**
+     * Unique id for a new custom trail
+     */
+    createId(now: Date = new Date(), random: () => number = Math.random): string {
+        return `${CUSTOM_TRAIL_ID_PREFIX}${now.getTime().toString(36)}-${Math.floor(random() * 36 ** 4).toString(36).padStart(4, '0')}`;
+    },
+
+    /**
+     * Empty draft for the builder
+     */
+    createDraft(): CustomTrailDraft {
+        return {
+            name: '',
+            description: '',
+            totalDistanceMeters: 0,
+            color: CUSTOM_TRAIL_COLORS[0],
+            difficulty: 'Easy',
+            landmarks: []
+        };
+    },
+
+    /**
+     * Draft for editing an existing custom trail
+     */
+    toDraft(trail: CustomTrail): CustomTrailDraft {
+        return {
+            name: trail.name,
+            description: trail.description,
+            totalDistanceMeters: trail.totalDistanceMeters,
+            color: trail.color,
+            difficulty: trail.difficulty,
+            landmarks: trail.landmarks.map(({ name, description, distanceMeters }) => ({ name, description, distanceMeters }))
+        };
+    },
+
+    /**
+     * User-facing problems with a draft. Empty when it can be saved.
+     */
+    validateDraft(draft: CustomTrailDraft): string[] {
+        const problems: string[] = [];
+        const name = draft.name.trim();
+
+        if (!name) {
+            problems.push('Give your trail a name.');
+        } else if (name.length > MAX_CUSTOM_TRAIL_NAME_LENGTH) {
+            problems.push(`Trail names can be up to ${MAX_CUSTOM_TRAIL_NAME_LENGTH} characters.`);
+        }
+
+        const total = draft.totalDistanceMeters;
+        if (!Number.isFinite(total) || total <= 0) {
+            problems.push('Enter a total distance greater than zero.');
+        } else if (total > MAX_CUSTOM_TRAIL_DISTANCE_METERS) {
+            problems.push('Trails can be at most 10,000 km long.');
+        }
+
+        if (draft.landmarks.length > MAX_CUSTOM_TRAIL_LANDMARKS) {
+            problems.push(`Trails can have up to ${MAX_CUSTOM_TRAIL_LANDMARKS} landmarks.`);
+        }
+        draft.landmarks.forEach((landmark, index) => {
+            const label = landmark.name.trim() || `Landmark ${index + 1}`;
+            if (!landmark.name.trim()) {
+                problems.push(`Landmark ${index + 1} needs a name.`);
+            }
+            if (!Number.isFinite(landmark.distanceMeters) || landmark.distanceMeters < 0) {
+                problems.push(`${label} needs a distance of zero or more.`);
+            } else if (Number.isFinite(total) && total > 0 && landmark.distanceMeters > total) {
+                problems.push(`${label} is beyond the end of the trail.`);
+            }
+        });
+
+        return problems;
+    },
+
+    /**
+     * Turn a valid draft into a stored CustomTrail. Landmarks are sorted by distance.
+     * Throws with the first problem if the draft is invalid.
+     * @param existing - The trail being edited; keeps its id and creation time
+     */
+    buildCustomTrail(draft: CustomTrailDraft, ownerId: string, existing?: CustomTrail, now: Date = new Date()): CustomTrail {
+        const problems = this.validateDraft(draft);
+        if (problems.length > 0) {
+            throw new Error(problems[0]);
+        }
+
+        const id = existing?.id ?? this.createId(now);
+        const landmarks: Landmark[] = [...draft.landmarks]
+            .sort((a, b) => a.distanceMeters - b.distanceMeters)
+            .map((landmark, index) => ({
+                id: `${id}-${index + 1}`,
+                name: landmark.name.trim(),
+                description: landmark.description.trim(),
+                distanceMeters: landmark.distanceMeters
+            }));
+
+        return {
+            id,
+            ownerId,
+            name: draft.name.trim(),
+            description: draft.description.trim(),
+            totalDistanceMeters: draft.totalDistanceMeters,
+            color: draft.color,
+            difficulty: draft.difficulty,
+            landmarks,
+            createdAt: existing?.createdAt ?? now.toISOString(),
+            updatedAt: now.toISOString()
+        };
+    },
+
+    /**
+     * Present a custom trail as a regular Trail so it can be selected, tracked and completed
+     */
+    toTrail(trail: CustomTrail): Trail {
+        return {
+            id: trail.id,
+            name: trail.name,
+            description: trail.description,
+            totalDistanceMeters: trail.totalDistanceMeters,
+            image: null,
+            color: trail.color,
+            difficulty: trail.difficulty,
+            category: 'custom',
+            landmarks: trail.landmarks
+        };
+    }
+};
@@ -6,10 +6,18 @@
  *
  * Modification History:
  * 2026-01-14: Initial creation with weekly, monthly, goal, records, landmarks, and badge stats.
+ * 2026-10-19: Landmarks counted across all active trails.
+ * 2026-10-19: Added stride-aware monthly distance.
+ * 2026-10-19: Date ranges use local calendar days instead of UTC.
+ * 2026-10-19: Next badge progress comes from the badge rules.
+ * 2026-10-19: Next badge progress takes the badge catalog in use.
  */
 
-import { UserProgress, Trail, Landmark } from '../types';
+import { UserProgress, Trail, Landmark, DailyLog } from '../types';
 import { Badge, BADGES } from '../const/badges';
+import { BadgeService } from './BadgeService';
+import { stepsToMeters } from '../utils/conversion';
+import { DateKey, addDays, parseDateKey, toDateKey, toLocalDateKey } from '../utils/date';
 
 export interface WeeklyStats {
     thisWeek: number;
@@ -52,7 +60,7 @@ export function filterHistoryByStartDate(
 ): DailyHistoryEntry[] {
     if (!startDate) return history;
 
-    const startDateStr = startDate.split('T')[0]; // Convert ISO to YYYY-MM-DD
+    const startDateStr = toDateKey(startDate); // Convert ISO to local YYYY-MM-DD
     return history.filter(entry => entry.date >= startDateStr);
 }
 
@@ -76,9 +84,9 @@ export const DashboardStatsService = {
         const lastWeekEnd = new Date(thisWeekStart);
         lastWeekEnd.setDate(lastWeekEnd.getDate() - 1);
 
-        const thisWeekStartStr = thisWeekStart.toISOString().split('T')[0];
-        const lastWeekStartStr = lastWeekStart.toISOString().split('T')[0];
-        const lastWeekEndStr = lastWeekEnd.toISOString().split('T')[0];
+        const thisWeekStartStr = toLocalDateKey(thisWeekStart);
+        const lastWeekStartStr = toLocalDateKey(lastWeekStart);
+        const lastWeekEndStr = toLocalDateKey(lastWeekEnd);
 
         let thisWeek = 0;
         let lastWeek = 0;
@@ -106,13 +114,20 @@ export const DashboardStatsService = {
     getMonthlySteps(history: DailyHistoryEntry[]): number {
         const today = new Date();
         const monthStart = new Date(today.getFullYear(), today.getMonth(), 1);
-        const monthStartStr = monthStart.toISOString().split('T')[0];
+        const monthStartStr = toLocalDateKey(monthStart);
 
         return history
             .filter(entry => entry.date >= monthStartStr)
             .reduce((sum, entry) => sum + entry.steps, 0);
     },
 
+    /**
+     * Get distance walked this month (meters) using the user's stride length
+     */
+    getMonthlyDistanceMeters(history: DailyHistoryEntry[], strideLengthCm: number): number {
+        return stepsToMeters(this.getMonthlySteps(history), strideLengthCm);
+    },
+
     /**
      * Calculate goal achievement rate for the last 14 days
      */
@@ -121,8 +136,8 @@ export const DashboardStatsService = {
         const fourteenDaysAgo = new Date(today);
         fourteenDaysAgo.setDate(today.getDate() - 13); // 14 days including today
 
-        const startStr = fourteenDaysAgo.toISOString().split('T')[0];
-        const todayStr = today.toISOString().split('T')[0];
+        const startStr = toLocalDateKey(fourteenDaysAgo);
+        const todayStr = toLocalDateKey(today);
 
         const recentEntries = history.filter(
             entry => entry.date >= startStr && entry.date <= todayStr
@@ -150,11 +165,8 @@ export const DashboardStatsService = {
         // Best Week - group by week and find maximum
         const weeklyTotals: Map<string, number> = new Map();
         for (const entry of history) {
-            const date = new Date(entry.date);
-            const dayOfWeek = date.getDay();
-            const weekStart = new Date(date);
-            weekStart.setDate(date.getDate() - dayOfWeek);
-            const weekKey = weekStart.toISOString().split('T')[0];
+            const dayOfWeek = parseDateKey(entry.date).getDay();
+            const weekKey = addDays(entry.date, -dayOfWeek);
 
             weeklyTotals.set(weekKey, (weeklyTotals.get(weekKey) || 0) + entry.steps);
         }
@@ -184,18 +196,18 @@ export const DashboardStatsService = {
     },
 
     /**
-     * Count total landmarks reached across active and completed trails
+     * Count total landmarks reached across all active and completed trails
      */
     getLandmarksReached(progress: UserProgress | null, trails: Trail[]): number {
         if (!progress) return 0;
 
         let count = 0;
 
-        // Count landmarks from active trail
-        if (progress.selectedTrailId) {
-            const activeTrail = trails.find(t => t.id === progress.selectedTrailId);
+        // Count landmarks from each active trail
+        for (const session of progress.activeTrails || []) {
+            const activeTrail = trails.find(t => t.id === session.trailId);
             if (activeTrail) {
-                const currentDistance = progress.currentDistanceMeters || 0;
+                const currentDistance = session.currentDistanceMeters || 0;
                 count += activeTrail.landmarks.filter(
                     (lm: Landmark) => lm.distanceMeters <= currentDistance
                 ).length;
@@ -214,50 +226,14 @@ export const DashboardStatsService = {
     },
 
     /**
-     * Find the next closest badge the user can unlock and their progress toward it
-     * Updated for monthly badge system
+     * Find the next closest monthly badge the user can unlock and their progress toward it.
+     * Badges whose rules read the daily logs need them passed in.
      */
-    getNextBadgeProgress(progress: UserProgress | null): NextBadgeProgress | null {
+    getNextBadgeProgress(progress: UserProgress | null, dailyLogs: DailyLog[] = [], today: DateKey = toLocalDateKey(), badges: Badge[] = BADGES): NextBadgeProgress | null {
         if (!progress || !progress.monthlyProgress) return null;
 
-        const monthlyProgress = progress.monthlyProgress;
-        const unlockedBadges = new Set(monthlyProgress.unlockedBadgeIds || []);
-        const stepsThisMonth = monthlyProgress.stepsThisMonth || 0;
-        const distanceThisMonth = monthlyProgress.distanceMetersThisMonth || 0;
-
-        // Filter to only monthly step and distance badges
-        const progressBadges = BADGES.filter(b =>
-            !unlockedBadges.has(b.id) &&
-            (b.conditionType === 'MONTHLY_STEPS' || b.conditionType === 'MONTHLY_DISTANCE')
-        );
-
-        if (progressBadges.length === 0) return null;
-
-        // Calculate progress for each and find the closest to completion
-        let closest: NextBadgeProgress | null = null;
-
-        for (const badge of progressBadges) {
-            let current = 0;
-            let target = badge.conditionValue;
-
-            switch (badge.conditionType) {
-                case 'MONTHLY_STEPS':
-                    current = stepsThisMonth;
-                    break;
-                case 'MONTHLY_DISTANCE':
-                    current = distanceThisMonth;
-                    break;
-            }
-
-            const percent = Math.min(Math.round((current / target) * 100), 100);
-
-            // Find badge closest to completion (highest percentage < 100)
-            if (!closest || percent > closest.percent) {
-                closest = { badge, current, target, percent };
-            }
-        }
-
-        return closest;
+        const [next] = BadgeService.getNextBadges({ progress, dailyLogs, today, catalogTrailCount: 0, badges });
+        return next ? { badge: next.badge, current: next.current, target: next.target, percent: next.percentComplete } : null;
     },
 
 
@@ -274,7 +250,7 @@ export const DashboardStatsService = {
         for (let i = days - 1; i >= 0; i--) {
             const date = new Date(today);
             date.setDate(date.getDate() - i);
-            const dateStr = date.toISOString().split('T')[0];
+            const dateStr = toLocalDateKey(date);
             const dayLabel = date.toLocaleDateString('en-US', { weekday: 'short' });
 
             result.push({
@@ -0,0 +1,156 @@
+/**
+ * File: src/services/ExpeditionProgressService.test.ts
+ * Purpose: Unit tests for ExpeditionProgressService and expedition sessions.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import { ExpeditionProgressService } from './ExpeditionProgressService';
+import { TrailSessionService } from './TrailSessionService';
+import { StatsService } from './StatsService';
+import { Expedition, ExpeditionContribution, Trail, UserProgress } from '../types';
+
+const trail: Trail = {
+    id: 'test-trail',
+    name: 'Test Trail',
+    description: '',
+    totalDistanceMeters: 10000,
+    color: '#000',
+    difficulty: 'Easy',
+    image: 0,
+    landmarks: []
+};
+
+const expedition: Expedition = {
+    id: 'exp-1',
+    name: "Sam's Test Trail Expedition",
+    trailId: 'test-trail',
+    ownerId: 'sam',
+    memberIds: ['sam', 'alex', 'casey'],
+    inviteCode: 'K7QH2MXD',
+    targetDays: 14,
+    startDate: '2026-03-01T08:00:00.000Z',
+    createdAt: '2026-03-01T08:00:00.000Z'
+};
+
+const contribution = (userId: string, name: string, distanceMeters: number): ExpeditionContribution => ({
+    userId,
+    name,
+    steps: Math.round(distanceMeters / 0.762),
+    distanceMeters,
+    updatedAt: '2026-03-05T10:00:00.000Z'
+});
+
+const contributions = [
+    contribution('sam', 'Sam', 1000),
+    contribution('alex', 'Alex', 3000),
+    contribution('casey', 'Casey', 1000)
+];
+
+describe('ExpeditionProgressService', () => {
+    describe('sessions', () => {
+        it("should start a session on the group's trail, start date and goal", () => {
+            const session = ExpeditionProgressService.createSession(expedition);
+            expect(session).toEqual({
+                trailId: 'test-trail',
+                startDate: expedition.startDate,
+                targetDays: 14,
+                totalStepsValid: 0,
+                currentDistanceMeters: 0,
+                expedition: { id: 'exp-1', steps: 0, distanceMeters: 0 }
+            });
+        });
+
+        it('should restore an earlier contribution when rejoining', () => {
+            const session = ExpeditionProgressService.createSession(expedition, { steps: 500, distanceMeters: 381 });
+            expect(session.currentDistanceMeters).toBe(381);
+            expect(session.expedition).toEqual({ id: 'exp-1', steps: 500, distanceMeters: 381 });
+        });
+
+        it("should credit synced steps to both the trail and the user's own part", () => {
+            const [session] = TrailSessionService.addSteps([{
+                ...ExpeditionProgressService.createSession(expedition),
+                totalStepsValid: 5000,
+                currentDistanceMeters: 4000,
+                expedition: { id: 'exp-1', steps: 1000, distanceMeters: 800 }
+            }], 100, 80);
+
+            expect(session.currentDistanceMeters).toBe(4080);
+            expect(session.expedition).toEqual({ id: 'exp-1', steps: 1100, distanceMeters: 880 });
+        });
+    });
+
+    describe('team totals', () => {
+        it("should leave out the user's own contribution", () => {
+            const team = ExpeditionProgressService.getTeamTotals(contributions, 'sam');
+            expect(team.distanceMeters).toBe(4000);
+        });
+
+        it("should add the team's totals to the user's own", () => {
+            const sessions = [{
+                ...ExpeditionProgressService.createSession(expedition),
+                expedition: { id: 'exp-1', steps: 1500, distanceMeters: 1143 }
+            }];
+            const [session] = ExpeditionProgressService.applyTeamTotals(sessions, 'exp-1', { steps: 5000, distanceMeters: 4000 });
+
+            expect(session.totalStepsValid).toBe(6500);
+            expect(session.currentDistanceMeters).toBe(5143);
+        });
+
+        it('should return the same sessions when nothing changed', () => {
+            const sessions = [ExpeditionProgressService.createSession(expedition)];
+            expect(ExpeditionProgressService.applyTeamTotals(sessions, 'exp-1', { steps: 0, distanceMeters: 0 })).toBe(sessions);
+            expect(ExpeditionProgressService.applyTeamTotals(sessions, 'other', { steps: 10, distanceMeters: 8 })).toBe(sessions);
+        });
+
+        it("should know when the group's distance covers the trail", () => {
+            expect(ExpeditionProgressService.isComplete(trail, contributions)).toBe(false);
+            expect(ExpeditionProgressService.isComplete(trail, [...contributions, contribution('dana', 'Dana', 5000)])).toBe(true);
+        });
+    });
+
+    describe('completion', () => {
+        it('should complete through the same check as a solo trail and record the own contribution', () => {
+            const own = { id: 'exp-1', steps: 2000, distanceMeters: 1524 };
+            const progress = {
+                activeTrails: [{
+                    ...ExpeditionProgressService.createSession(expedition),
+                    totalStepsValid: 13200,
+                    currentDistanceMeters: 10058,
+                    expedition: own
+                }],
+                completedTrails: []
+            } as unknown as UserProgress;
+
+            const completed = StatsService.checkTrailCompletion(progress, trail, new Date('2026-03-06T08:00:00.000Z'), []);
+            expect(completed).toMatchObject({ trailId: 'test-trail', totalSteps: 13200, totalDays: 5, expedition: own });
+            expect(ExpeditionProgressService.getOwnContribution('exp-1', [], [completed!])).toEqual(own);
+        });
+    });
+
+    describe('getMemberRows', () => {
+        it('should list members furthest first with their share of the distance', () => {
+            const rows = ExpeditionProgressService.getMemberRows(contributions, 'sam');
+            expect(rows.map(r => [r.name, r.percent, r.isCurrentUser])).toEqual([
+                ['Alex', 60, false],
+                ['Casey', 20, false],
+                ['Sam', 20, true]
+            ]);
+        });
+
+        it("should use the user's local totals when they are ahead of what was published", () => {
+            const rows = ExpeditionProgressService.getMemberRows(contributions, 'sam', { id: 'exp-1', steps: 5249, distanceMeters: 4000 });
+            expect(rows[0]).toMatchObject({ userId: 'sam', distanceMeters: 4000, percent: 50 });
+        });
+    });
+
+    describe('text', () => {
+        it("should name the expedition after its creator's first name", () => {
+            expect(ExpeditionProgressService.getDefaultName('Sam Rivera', 'Chadar Trek')).toBe("Sam's Chadar Trek Expedition");
+            expect(ExpeditionProgressService.getDefaultName('  ', 'Chadar Trek')).toBe('Chadar Trek Expedition');
+        });
+
+        it('should include the formatted code in the invite message', () => {
+            expect(ExpeditionProgressService.getInviteMessage(expedition, 'Test Trail')).toContain('K7QH-2MXD');
+        });
+    });
+});
@@ -0,0 +1,126 @@
+/**
+ * File: src/services/ExpeditionProgressService.ts
+ * Purpose: Pure helpers for group expeditions: expedition sessions, team totals and per-member contributions.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * An expedition is walked as a normal ActiveTrail whose totals include teammates' steps, so landmarks
+ * and completion go through the same checks as a solo trail.
+ */
+import { ActiveTrail, CompletedTrail, Expedition, ExpeditionContribution, ExpeditionLink, Trail } from '../types';
+import { FriendSharingService } from './FriendSharingService';
+
+export const MAX_EXPEDITION_MEMBERS = 10;
+
+export interface TeamTotals {
+    steps: number;
+    distanceMeters: number;
+}
+
+export interface ExpeditionMemberRow {
+    userId: string;
+    name: string;
+    profileImage?: string;
+    steps: number;
+    distanceMeters: number;
+    percent: number; // Share of the group's distance, 0-100
+    isCurrentUser: boolean;
+}
+
+export const ExpeditionProgressService = {
+    /**
+     * Session for a member who joins an expedition. The start date and goal are the group's;
+     * `seed` restores the member's earlier contribution if they are rejoining.
+     */
+    createSession(expedition: Expedition, seed: TeamTotals = { steps: 0, distanceMeters: 0 }): ActiveTrail {
+        return {
+            trailId: expedition.trailId,
+            startDate: expedition.startDate,
+            targetDays: expedition.targetDays,
+            totalStepsValid: seed.steps,
+            currentDistanceMeters: seed.distanceMeters,
+            expedition: { id: expedition.id, ...seed }
+        };
+    },
+
+    /**
+     * Sum of every contribution except the current user's, whose local numbers are fresher
+     */
+    getTeamTotals(contributions: ExpeditionContribution[], userId: string): TeamTotals {
+        return contributions
+            .filter(c => c.userId !== userId)
+            .reduce((acc, c) => ({ steps: acc.steps + c.steps, distanceMeters: acc.distanceMeters + c.distanceMeters }), { steps: 0, distanceMeters: 0 });
+    },
+
+    /**
+     * Set an expedition session's totals to the user's own part plus the team's.
+     * Returns the same array when nothing changed so callers can skip saving.
+     */
+    applyTeamTotals(sessions: ActiveTrail[], expeditionId: string, team: TeamTotals): ActiveTrail[] {
+        let changed = false;
+        const updated = sessions.map(session => {
+            if (session.expedition?.id !== expeditionId) return session;
+            const totalStepsValid = session.expedition.steps + team.steps;
+            const currentDistanceMeters = session.expedition.distanceMeters + team.distanceMeters;
+            if (totalStepsValid === session.totalStepsValid && currentDistanceMeters === session.currentDistanceMeters) return session;
+            changed = true;
+            return { ...session, totalStepsValid, currentDistanceMeters };
+        });
+        return changed ? updated : sessions;
+    },
+
+    /**
+     * Whether the group's combined distance covers the trail
+     */
+    isComplete(trail: Trail, contributions: ExpeditionContribution[]): boolean {
+        const total = contributions.reduce((acc, c) => acc + c.distanceMeters, 0);
+        return total >= trail.totalDistanceMeters;
+    },
+
+    /**
+     * Per-member contribution, furthest first. The current user's row uses their local totals.
+     */
+    getMemberRows(contributions: ExpeditionContribution[], userId: string, own?: ExpeditionLink): ExpeditionMemberRow[] {
+        const members = contributions.map(c => c.userId === userId && own
+            ? { ...c, steps: Math.max(c.steps, own.steps), distanceMeters: Math.max(c.distanceMeters, own.distanceMeters) }
+            : c);
+        const totalDistance = members.reduce((acc, c) => acc + c.distanceMeters, 0);
+
+        return members
+            .map(c => ({
+                userId: c.userId,
+                name: c.name,
+                ...(c.profileImage ? { profileImage: c.profileImage } : {}),
+                steps: c.steps,
+                distanceMeters: c.distanceMeters,
+                percent: totalDistance > 0 ? Math.round((c.distanceMeters / totalDistance) * 100) : 0,
+                isCurrentUser: c.userId === userId
+            }))
+            .sort((a, b) => b.distanceMeters - a.distanceMeters || a.name.localeCompare(b.name));
+    },
+
+    /**
+     * The user's own contribution as stored locally: from the active session, or from the
+     * completed trail once the group has finished
+     */
+    getOwnContribution(expeditionId: string, activeTrails: ActiveTrail[], completedTrails: CompletedTrail[]): ExpeditionLink | undefined {
+        return activeTrails.find(s => s.expedition?.id === expeditionId)?.expedition
+            ?? completedTrails.find(ct => ct.expedition?.id === expeditionId)?.expedition;
+    },
+
+    /**
+     * Text for the share sheet when inviting people to an expedition
+     */
+    getInviteMessage(expedition: Expedition, trailName: string): string {
+        const code = FriendSharingService.formatInviteCode(expedition.inviteCode);
+        return `Join my ${trailName} expedition on Stridr! Our steps all count toward the same trail. Code: ${code}`;
+    },
+
+    /**
+     * Name shown to members, e.g. "Sam's Chadar Trek Expedition"
+     */
+    getDefaultName(ownerName: string, trailName: string): string {
+        const firstName = ownerName.trim().split(/\s+/)[0];
+        return firstName ? `${firstName}'s ${trailName} Expedition` : `${trailName} Expedition`;
+    }
+};
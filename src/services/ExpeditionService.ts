@@ -0,0 +1,162 @@
+/**
+ * File: src/services/ExpeditionService.ts
+ * Purpose: Firestore access for group expeditions: creating, joining and leaving, and member contributions.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import { arrayRemove, arrayUnion, collection, deleteField, doc, getDoc, getDocs, query, setDoc, updateDoc, where, writeBatch } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { Expedition, ExpeditionContribution, Trail } from '../types';
+import { ProfileSource, toPublicProfile } from './FriendService';
+import { FriendSharingService } from './FriendSharingService';
+import { MAX_EXPEDITION_MEMBERS, ExpeditionProgressService, TeamTotals } from './ExpeditionProgressService';
+import { withRemote } from '../utils/async';
+
+const INVITE_CODE_ATTEMPTS = 5;
+
+export interface ExpeditionDetails {
+    expedition: Expedition;
+    contributions: ExpeditionContribution[];
+}
+
+const contributionRef = (expeditionId: string, userId: string) => doc(db, 'expeditions', expeditionId, 'contributions', userId);
+
+const toContribution = (user: ProfileSource, totals: TeamTotals): ExpeditionContribution => ({
+    ...toPublicProfile(user),
+    ...totals,
+    updatedAt: new Date().toISOString()
+});
+
+export const ExpeditionService = {
+    /**
+     * Start an expedition on a trail with the creator as its only member
+     */
+    async createExpedition(owner: ProfileSource, trail: Trail, targetDays: number): Promise<Expedition> {
+        const expeditionRef = doc(collection(db, 'expeditions'));
+
+        for (let attempt = 0; attempt < INVITE_CODE_ATTEMPTS; attempt++) {
+            const code = FriendSharingService.generateInviteCode();
+            const codeRef = doc(db, 'expeditionInvites', code);
+            const taken = await withRemote(getDoc(codeRef), 'Check expedition code');
+            if (taken.exists()) continue;
+
+            const now = new Date().toISOString();
+            const expedition: Expedition = {
+                id: expeditionRef.id,
+                name: ExpeditionProgressService.getDefaultName(owner.name, trail.name),
+                trailId: trail.id,
+                ownerId: owner.id,
+                memberIds: [owner.id],
+                inviteCode: code,
+                targetDays,
+                startDate: now,
+                createdAt: now
+            };
+
+            // Security rules read the expedition to check membership, so it has to exist before the rest
+            await withRemote(setDoc(expeditionRef, expedition), 'Create expedition');
+            const batch = writeBatch(db);
+            batch.set(codeRef, { expeditionId: expedition.id });
+            batch.set(contributionRef(expedition.id, owner.id), toContribution(owner, { steps: 0, distanceMeters: 0 }));
+            await withRemote(batch.commit(), 'Create expedition');
+            if (__DEV__) console.log(`[ExpeditionService] Created expedition ${expedition.id} on ${trail.id}`);
+            return expedition;
+        }
+        throw new Error('Could not create an expedition code. Please try again.');
+    },
+
+    /**
+     * Look up an expedition by its invite code
+     */
+    async findByCode(code: string): Promise<Expedition | null> {
+        if (!FriendSharingService.isInviteCode(code)) {
+            throw new Error('Expedition codes are 8 characters, like K7QH-2MXD.');
+        }
+        const codeSnap = await withRemote(getDoc(doc(db, 'expeditionInvites', FriendSharingService.normalizeInviteCode(code))), 'Find expedition');
+        if (!codeSnap.exists()) return null;
+
+        const snap = await withRemote(getDoc(doc(db, 'expeditions', codeSnap.data().expeditionId)), 'Fetch expedition');
+        return snap.exists() ? snap.data() as Expedition : null;
+    },
+
+    /**
+     * Add the user to an expedition. Returns what they had already contributed if they are rejoining.
+     */
+    async joinExpedition(user: ProfileSource, expedition: Expedition): Promise<TeamTotals> {
+        if (expedition.completedDate) {
+            throw new Error('This expedition has already reached the end of the trail.');
+        }
+        if (expedition.memberIds.includes(user.id)) {
+            throw new Error('You are already on this expedition.');
+        }
+        if (expedition.memberIds.length >= MAX_EXPEDITION_MEMBERS) {
+            throw new Error(`Expeditions can have up to ${MAX_EXPEDITION_MEMBERS} members.`);
+        }
+
+        await withRemote(updateDoc(doc(db, 'expeditions', expedition.id), { memberIds: arrayUnion(user.id) }), 'Join expedition');
+
+        const existingSnap = await withRemote(getDoc(contributionRef(expedition.id, user.id)), 'Fetch contribution');
+        const previous: TeamTotals = existingSnap.exists()
+            ? { steps: existingSnap.data().steps, distanceMeters: existingSnap.data().distanceMeters }
+            : { steps: 0, distanceMeters: 0 };
+        await withRemote(setDoc(contributionRef(expedition.id, user.id), toContribution(user, previous)), 'Join expedition');
+        return previous;
+    },
+
+    /**
+     * Remove the user from an expedition. Their steps so far stay in the group's total.
+     */
+    async leaveExpedition(userId: string, expeditionId: string): Promise<void> {
+        await withRemote(updateDoc(doc(db, 'expeditions', expeditionId), { memberIds: arrayRemove(userId) }), 'Leave expedition');
+    },
+
+    /**
+     * Every expedition the user is a member of, newest first
+     */
+    async getExpeditions(userId: string): Promise<Expedition[]> {
+        const snap = await withRemote(
+            getDocs(query(collection(db, 'expeditions'), where('memberIds', 'array-contains', userId))),
+            'Fetch expeditions'
+        );
+        return snap.docs
+            .map(d => d.data() as Expedition)
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+
+    /**
+     * Contributions of everyone who has walked with the expedition, including members who left
+     */
+    async getContributions(expeditionId: string): Promise<ExpeditionContribution[]> {
+        const snap = await withRemote(getDocs(collection(db, 'expeditions', expeditionId, 'contributions')), 'Fetch contributions');
+        return snap.docs.map(d => d.data() as ExpeditionContribution);
+    },
+
+    /**
+     * Replace the user's contribution with their latest totals
+     */
+    async publishContribution(user: ProfileSource, expeditionId: string, totals: TeamTotals): Promise<void> {
+        await withRemote(setDoc(contributionRef(expeditionId, user.id), toContribution(user, totals)), 'Publish contribution');
+    },
+
+    /**
+     * Record when the group reached the end of the trail. Any member may do this; the first one wins.
+     */
+    async markCompleted(expedition: Expedition, completedDate: string): Promise<void> {
+        if (expedition.completedDate) return;
+        await withRemote(updateDoc(doc(db, 'expeditions', expedition.id), { completedDate }), 'Complete expedition');
+    },
+
+    /**
+     * Leave every expedition (used when deleting the account). Steps stay so the other
+     * members' progress does not drop, but the name and photo are removed.
+     */
+    async leaveAll(userId: string): Promise<void> {
+        const expeditions = await this.getExpeditions(userId);
+        const batch = writeBatch(db);
+        expeditions.forEach(e => {
+            batch.set(contributionRef(e.id, userId), { name: 'Former member', profileImage: deleteField() }, { merge: true });
+            batch.update(doc(db, 'expeditions', e.id), { memberIds: arrayRemove(userId) });
+        });
+        await withRemote(batch.commit(), 'Leave expeditions');
+    }
+};
@@ -0,0 +1,167 @@
+/**
+ * File: src/services/ExportService.test.ts
+ * Purpose: Unit tests for ExportService.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import { ExportService } from './ExportService';
+import { DailyLog, UserProgress } from '../types';
+import { TRAILS } from '../const/trails';
+
+const trail = TRAILS[0];
+
+// Helper: ISO timestamp for local noon, so day keys are the same in every timezone
+const localNoon = (year: number, month: number, day: number): string => new Date(year, month - 1, day, 12).toISOString();
+
+const progress: UserProgress = {
+    activeTrails: [],
+    stats: {
+        totalStepsLifetime: 60000,
+        totalDistanceMetersLifetime: 45720,
+        completedTrailsCount: 2
+    },
+    lastSyncTime: '2026-03-20T10:00:00.000Z',
+    monthlyProgress: {
+        year: 2026,
+        month: 3,
+        stepsThisMonth: 20000,
+        distanceMetersThisMonth: 15240,
+        unlockedBadgeIds: ['step-5k', 'step-10k'],
+        monthlyBadgeEarned: false
+    },
+    pastMonths: [
+        { year: 2025, month: 11, stepsThisMonth: 10000, distanceMetersThisMonth: 7620, unlockedBadgeIds: ['step-5k'], monthlyBadgeEarned: false },
+        { year: 2026, month: 2, stepsThisMonth: 30000, distanceMetersThisMonth: 22860, unlockedBadgeIds: ['step-5k'], monthlyBadgeEarned: false }
+    ],
+    yearlyProgress: [],
+    trailBadges: ['trail-1'],
+    completedTrails: [
+        {
+            trailId: trail.id,
+            startDate: localNoon(2025, 11, 1),
+            completedDate: localNoon(2025, 11, 20),
+            totalSteps: 70000,
+            totalDays: 20,
+            avgStepsPerDay: 3500,
+            maxStepsInOneDay: 9000
+        },
+        {
+            trailId: trail.id,
+            startDate: localNoon(2026, 3, 1),
+            completedDate: localNoon(2026, 3, 15),
+            totalSteps: 70000,
+            totalDays: 15,
+            avgStepsPerDay: 4666.67,
+            maxStepsInOneDay: 12000
+        }
+    ],
+    currentStreak: 0,
+    lastLogDate: null
+};
+
+const logs: DailyLog[] = [
+    { date: '2026-03-20', steps: 8000, distanceMeters: 6096 },
+    { date: '2026-01-05', steps: 4000, distanceMeters: 3048 },
+    { date: '2026-03-01', steps: 1000, distanceMeters: 1609.344 }
+];
+
+describe('ExportService', () => {
+    describe('getPresetRange', () => {
+        const now = new Date(2026, 2, 20, 12);
+
+        it('should cover the last 30 days including today', () => {
+            expect(ExportService.getPresetRange('last30', now)).toEqual({ startDate: '2026-02-19', endDate: '2026-03-20' });
+        });
+
+        it('should start this year on January 1st', () => {
+            expect(ExportService.getPresetRange('thisYear', now)).toEqual({ startDate: '2026-01-01', endDate: '2026-03-20' });
+        });
+
+        it('should be unbounded for all time', () => {
+            expect(ExportService.getPresetRange('all', now)).toEqual({ startDate: null, endDate: null });
+        });
+    });
+
+    describe('buildArchive', () => {
+        it('should limit logs, completed trails and badge months to the range', () => {
+            const archive = ExportService.buildArchive(
+                progress,
+                logs,
+                { distanceUnit: 'km' },
+                { startDate: '2026-01-01', endDate: '2026-03-31' },
+                'km',
+                new Date(2026, 2, 20, 12)
+            );
+
+            expect(archive.format).toBe('stridr-export');
+            expect(archive.dailyLogs.map(l => l.date)).toEqual(['2026-01-05', '2026-03-01', '2026-03-20']);
+            expect(archive.completedTrails).toHaveLength(1);
+            expect(archive.completedTrails[0].completedDate).toBe(localNoon(2026, 3, 15));
+            expect(archive.badgeHistory.months.map(m => m.month)).toEqual([2, 3]);
+            expect(archive.preferences).toEqual({ distanceUnit: 'km' });
+        });
+
+        it('should keep badge unlocks in the range and every lifetime badge', () => {
+            const withBadges: UserProgress = {
+                ...progress,
+                streakBadges: ['streak-7'],
+                badgeUnlocks: [
+                    { badgeId: 'trail-1', unlockedAt: localNoon(2025, 11, 20), date: '2025-11-20' },
+                    { badgeId: 'streak-7', unlockedAt: localNoon(2026, 3, 7), date: '2026-03-07' }
+                ]
+            };
+            const archive = ExportService.buildArchive(withBadges, logs, null, { startDate: '2026-01-01', endDate: '2026-03-31' }, 'km');
+
+            expect(archive.version).toBe(2);
+            expect(archive.badgeHistory.badgeUnlocks.map(u => u.badgeId)).toEqual(['streak-7']);
+            expect(archive.badgeHistory.trailBadges).toEqual(['trail-1']);
+            expect(archive.badgeHistory.streakBadges).toEqual(['streak-7']);
+            expect(archive.streak).toBeNull();
+        });
+
+        it('should include everything for an unbounded range', () => {
+            const archive = ExportService.buildArchive(progress, logs, null, { startDate: null, endDate: null }, 'km');
+            expect(archive.dailyLogs).toHaveLength(3);
+            expect(archive.completedTrails).toHaveLength(2);
+            expect(archive.badgeHistory.months).toHaveLength(3);
+        });
+    });
+
+    describe('CSV output', () => {
+        it('should label and convert distance in the chosen unit', () => {
+            const csv = ExportService.toDailyLogsCsv([logs[2]], 'mi');
+            expect(csv.split('\n')).toEqual(['date,steps,distance_mi', '2026-03-01,1000,1.00']);
+        });
+
+        it('should write one row per completed trail with the trail name', () => {
+            const csv = ExportService.toCompletedTrailsCsv([progress.completedTrails[1]], 'km');
+            const [header, row] = csv.split('\n');
+            expect(header.split(',')).toContain('distance_km');
+            expect(row).toContain(trail.name);
+            expect(row).toContain('2026-03-15');
+            expect(row).toContain('4667');
+        });
+
+        it('should quote cells that contain commas', () => {
+            const csv = ExportService.toBadgeHistoryCsv([{ ...progress.monthlyProgress, unlockedBadgeIds: ['a,b'] }], 'km');
+            expect(csv.split('\n')[1]).toBe('2026-03,20000,15.24,1,"a,b",false');
+        });
+    });
+
+    describe('buildExportFile', () => {
+        it('should render a GPX waypoint for each completed trail with a trailhead', () => {
+            const archive = ExportService.buildArchive(progress, logs, null, { startDate: null, endDate: null }, 'km');
+            const file = ExportService.buildExportFile('gpx', archive);
+
+            expect(file.mimeType).toBe('application/gpx+xml');
+            expect(file.filename.endsWith('.gpx')).toBe(true);
+            expect(file.content.match(/<wpt /g)).toHaveLength(2);
+        });
+
+        it('should produce a JSON archive that parses back to the same data', () => {
+            const archive = ExportService.buildArchive(progress, logs, null, { startDate: null, endDate: null }, 'km');
+            const file = ExportService.buildExportFile('json', archive);
+            expect(JSON.parse(file.content)).toEqual(archive);
+        });
+    });
+});
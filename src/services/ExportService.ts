@@ -0,0 +1,252 @@
+/**
+ * File: src/services/ExportService.ts
+ * Purpose: Builds CSV, JSON and GPX exports of the user's walking history.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Trail lookups accept the loaded trail catalog.
+ * 2026-10-19: Exported csvRow for organization reports.
+ * 2026-10-19: Format version 2 adds challenge, streak and lifetime badges, badge unlocks, challenge wins and the streak.
+ */
+import { CompletedTrail, DailyLog, ExportArchive, MonthlyProgress, Trail, UserProgress } from '../types';
+import { TRAILS } from '../const/trails';
+import { getDistanceValue, getDistanceUnit } from '../utils/conversion';
+import { toDateKey, toLocalDateKey } from '../utils/date';
+
+export const EXPORT_FORMAT_VERSION = 2;
+
+export type ExportFormat = 'dailyCsv' | 'trailsCsv' | 'badgesCsv' | 'json' | 'gpx';
+export type ExportRangePreset = 'last30' | 'last90' | 'thisYear' | 'all';
+export type ExportRange = ExportArchive['range'];
+
+export interface ExportFile {
+    filename: string;
+    mimeType: string;
+    content: string;
+}
+
+/**
+ * Helper: Quote a CSV cell when it contains a delimiter, quote or newline
+ */
+const csvCell = (value: string | number | boolean): string => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const csvRow = (cells: (string | number | boolean)[]): string => cells.map(csvCell).join(',');
+
+const xmlEscape = (text: string): string => {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+};
+
+const monthKey = (mp: MonthlyProgress): string => `${mp.year}-${String(mp.month).padStart(2, '0')}`;
+
+export const ExportService = {
+    /**
+     * Resolve a preset from the export picker into a date range
+     */
+    getPresetRange(preset: ExportRangePreset, now: Date = new Date()): ExportRange {
+        const endDate = toLocalDateKey(now);
+        switch (preset) {
+            case 'last30':
+            case 'last90': {
+                const start = new Date(now);
+                start.setDate(start.getDate() - (preset === 'last30' ? 29 : 89));
+                return { startDate: toLocalDateKey(start), endDate };
+            }
+            case 'thisYear':
+                return { startDate: `${now.getFullYear()}-01-01`, endDate };
+            case 'all':
+                return { startDate: null, endDate: null };
+        }
+    },
+
+    /**
+     * Check whether a YYYY-MM-DD date or ISO timestamp falls inside a range (inclusive)
+     */
+    isInRange(date: string, range: ExportRange): boolean {
+        const day = toDateKey(date);
+        if (range.startDate && day < range.startDate) return false;
+        if (range.endDate && day > range.endDate) return false;
+        return true;
+    },
+
+    /**
+     * Assemble everything that can be exported into one archive, limited to the date range.
+     * Badge months are kept when any part of the month overlaps the range. Badge ids, challenge
+     * wins and the streak are lifetime records and always included.
+     */
+    buildArchive(
+        progress: UserProgress,
+        dailyLogs: DailyLog[],
+        preferences: Record<string, any> | null,
+        range: ExportRange,
+        distanceUnit: 'km' | 'mi',
+        now: Date = new Date()
+    ): ExportArchive {
+        const startMonth = range.startDate?.slice(0, 7);
+        const endMonth = range.endDate?.slice(0, 7);
+        const months = [...(progress.pastMonths || []), ...(progress.monthlyProgress ? [progress.monthlyProgress] : [])]
+            .filter(mp => (!startMonth || monthKey(mp) >= startMonth) && (!endMonth || monthKey(mp) <= endMonth))
+            .sort((a, b) => monthKey(a).localeCompare(monthKey(b)));
+
+        return {
+            format: 'stridr-export',
+            version: EXPORT_FORMAT_VERSION,
+            exportedAt: now.toISOString(),
+            range,
+            distanceUnit,
+            stats: progress.stats,
+            dailyLogs: dailyLogs
+                .filter(log => this.isInRange(log.date, range))
+                .sort((a, b) => a.date.localeCompare(b.date)),
+            completedTrails: (progress.completedTrails || [])
+                .filter(ct => this.isInRange(ct.completedDate, range))
+                .sort((a, b) => a.completedDate.localeCompare(b.completedDate)),
+            badgeHistory: {
+                months,
+                yearlyProgress: progress.yearlyProgress || [],
+                trailBadges: progress.trailBadges || [],
+                challengeBadges: progress.challengeBadges || [],
+                streakBadges: progress.streakBadges || [],
+                lifetimeBadges: progress.lifetimeBadges || [],
+                badgeUnlocks: (progress.badgeUnlocks || []).filter(unlock => this.isInRange(unlock.date ?? unlock.unlockedAt, range))
+            },
+            challengesWon: progress.challengesWon || [],
+            streak: progress.streak ?? null,
+            preferences
+        };
+    },
+
+    /**
+     * One row per day: date, steps and distance in the user's unit
+     */
+    toDailyLogsCsv(logs: DailyLog[], unit: 'km' | 'mi'): string {
+        const rows = [csvRow(['date', 'steps', `distance_${getDistanceUnit(unit)}`])];
+        for (const log of logs) {
+            rows.push(csvRow([log.date, log.steps, getDistanceValue(log.distanceMeters, unit).toFixed(2)]));
+        }
+        return rows.join('\n');
+    },
+
+    /**
+     * One row per completed trail with its summary stats
+     */
+    toCompletedTrailsCsv(completedTrails: CompletedTrail[], unit: 'km' | 'mi', trails: Trail[] = TRAILS): string {
+        const rows = [csvRow([
+            'trail_id', 'trail_name', 'start_date', 'completed_date', 'total_days',
+            'total_steps', 'avg_steps_per_day', 'max_steps_in_one_day', `distance_${getDistanceUnit(unit)}`
+        ])];
+        for (const ct of completedTrails) {
+            const trail = trails.find(t => t.id === ct.trailId);
+            rows.push(csvRow([
+                ct.trailId,
+                trail?.name || ct.trailId,
+                toDateKey(ct.startDate),
+                toDateKey(ct.completedDate),
+                ct.totalDays,
+                ct.totalSteps,
+                Math.round(ct.avgStepsPerDay),
+                ct.maxStepsInOneDay,
+                trail ? getDistanceValue(trail.totalDistanceMeters, unit).toFixed(2) : ''
+            ]));
+        }
+        return rows.join('\n');
+    },
+
+    /**
+     * One row per month of badge history
+     */
+    toBadgeHistoryCsv(months: MonthlyProgress[], unit: 'km' | 'mi'): string {
+        const rows = [csvRow([
+            'month', 'steps', `distance_${getDistanceUnit(unit)}`, 'badges_unlocked', 'badge_ids', 'monthly_badge_earned'
+        ])];
+        for (const mp of months) {
+            rows.push(csvRow([
+                monthKey(mp),
+                mp.stepsThisMonth,
+                getDistanceValue(mp.distanceMetersThisMonth, unit).toFixed(2),
+                mp.unlockedBadgeIds.length,
+                mp.unlockedBadgeIds.join(' '),
+                mp.monthlyBadgeEarned
+            ]));
+        }
+        return rows.join('\n');
+    },
+
+    /**
+     * GPX-style summary: a waypoint at the trailhead of every completed trail.
+     * Trails have no recorded route, so this is a map of places walked rather than a track.
+     */
+    toGpxSummary(completedTrails: CompletedTrail[], exportedAt: string, trails: Trail[] = TRAILS): string {
+        const waypoints = completedTrails
+            .map(ct => {
+                const trail = trails.find(t => t.id === ct.trailId);
+                const coordinate = trail?.startCoordinate;
+                if (!trail || !coordinate) return null;
+                return [
+                    `  <wpt lat="${coordinate.latitude}" lon="${coordinate.longitude}">`,
+                    `    <time>${xmlEscape(ct.completedDate)}</time>`,
+                    `    <name>${xmlEscape(trail.name)}</name>`,
+                    `    <desc>${xmlEscape(`${ct.totalSteps} steps over ${ct.totalDays} days`)}</desc>`,
+                    `  </wpt>`
+                ].join('\n');
+            })
+            .filter((wpt): wpt is string => wpt !== null);
+
+        return [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<gpx version="1.1" creator="Stridr" xmlns="http://www.topografix.com/GPX/1/1">',
+            '  <metadata>',
+            '    <name>Stridr completed trails</name>',
+            `    <time>${xmlEscape(exportedAt)}</time>`,
+            '  </metadata>',
+            ...waypoints,
+            '</gpx>'
+        ].join('\n');
+    },
+
+    /**
+     * Render an archive in the requested format, ready to be written to disk
+     */
+    buildExportFile(format: ExportFormat, archive: ExportArchive, trails: Trail[] = TRAILS): ExportFile {
+        const stamp = toDateKey(archive.exportedAt);
+        switch (format) {
+            case 'dailyCsv':
+                return {
+                    filename: `stridr-daily-activity-${stamp}.csv`,
+                    mimeType: 'text/csv',
+                    content: this.toDailyLogsCsv(archive.dailyLogs, archive.distanceUnit)
+                };
+            case 'trailsCsv':
+                return {
+                    filename: `stridr-completed-trails-${stamp}.csv`,
+                    mimeType: 'text/csv',
+                    content: this.toCompletedTrailsCsv(archive.completedTrails, archive.distanceUnit, trails)
+                };
+            case 'badgesCsv':
+                return {
+                    filename: `stridr-badge-history-${stamp}.csv`,
+                    mimeType: 'text/csv',
+                    content: this.toBadgeHistoryCsv(archive.badgeHistory.months, archive.distanceUnit)
+                };
+            case 'json':
+                return {
+                    filename: `stridr-export-${stamp}.json`,
+                    mimeType: 'application/json',
+                    content: JSON.stringify(archive, null, 2)
+                };
+            case 'gpx':
+                return {
+                    filename: `stridr-trails-${stamp}.gpx`,
+                    mimeType: 'application/gpx+xml',
+                    content: this.toGpxSummary(archive.completedTrails, archive.exportedAt, trails)
+                };
+        }
+    }
+};
@@ -0,0 +1,195 @@
+/**
+ * File: src/services/FeedEventService.test.ts
+ * Purpose: Unit tests for FeedEventService.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Covers streak badges.
+ */
+import { FeedEventService, MAX_COMMENT_LENGTH } from './FeedEventService';
+import { BadgeService } from './BadgeService';
+import { ActiveTrail, FeedEvent, Trail, UserProgress } from '../types';
+
+const NOW = '2026-03-10T18:00:00.000Z';
+
+const trail: Trail = {
+    id: 'test-trail',
+    name: 'Test Trail',
+    description: '',
+    totalDistanceMeters: 10000,
+    color: '#000',
+    difficulty: 'Easy',
+    image: 0,
+    landmarks: [
+        { id: 'lm-1', name: 'Bridge', distanceMeters: 3000, description: '' },
+        { id: 'lm-2', name: 'Summit', distanceMeters: 6000, description: '' },
+        { id: 'lm-3', name: 'Finish', distanceMeters: 10000, description: '' }
+    ]
+};
+
+const session = (currentDistanceMeters: number): ActiveTrail => ({
+    trailId: 'test-trail',
+    startDate: '2026-03-01T00:00:00.000Z',
+    targetDays: 14,
+    totalStepsValid: Math.round(currentDistanceMeters / 0.75),
+    currentDistanceMeters
+});
+
+const progress = (overrides: Partial<UserProgress> = {}): UserProgress => ({
+    activeTrails: [],
+    stats: { totalStepsLifetime: 0, totalDistanceMetersLifetime: 0, completedTrailsCount: 0 },
+    lastSyncTime: '2026-03-10T12:00:00.000Z',
+    monthlyProgress: BadgeService.createNewMonthlyProgress(2026, 3),
+    yearlyProgress: [],
+    trailBadges: [],
+    completedTrails: [],
+    currentStreak: 0,
+    lastLogDate: null,
+    ...overrides
+});
+
+const event = (id: string, occurredAt: string): FeedEvent => ({
+    id,
+    type: 'trail_completed',
+    trailId: 'test-trail',
+    trailName: 'Test Trail',
+    occurredAt,
+    author: { userId: 'sam', name: 'Sam' },
+    cheerIds: [],
+    commentCount: 0
+});
+
+describe('FeedEventService', () => {
+    describe('detectEvents', () => {
+        it('should post the furthest milestone passed and every landmark reached', () => {
+            const drafts = FeedEventService.detectEvents(
+                progress({ activeTrails: [session(2000)] }),
+                progress({ activeTrails: [session(6500)] }),
+                [trail],
+                NOW
+            );
+            expect(drafts.map(d => d.id)).toEqual([
+                'milestone-test-trail-2026-03-01-50',
+                'landmark-test-trail-2026-03-01-lm-1',
+                'landmark-test-trail-2026-03-01-lm-2'
+            ]);
+            expect(drafts[1]).toEqual({
+                id: 'landmark-test-trail-2026-03-01-lm-1',
+                type: 'landmark',
+                trailId: 'test-trail',
+                trailName: 'Test Trail',
+                landmarkName: 'Bridge',
+                occurredAt: NOW
+            });
+        });
+
+        it('should post nothing when a trail did not move or was just started', () => {
+            expect(FeedEventService.detectEvents(
+                progress({ activeTrails: [session(3000)] }),
+                progress({ activeTrails: [session(3000)] }),
+                [trail],
+                NOW
+            )).toEqual([]);
+            expect(FeedEventService.detectEvents(progress(), progress({ activeTrails: [session(5000)] }), [trail], NOW)).toEqual([]);
+        });
+
+        it('should post a finished trail instead of its milestones and earned trail badges', () => {
+            const drafts = FeedEventService.detectEvents(
+                progress({ activeTrails: [session(8000)] }),
+                progress({
+                    completedTrails: [{
+                        trailId: 'test-trail',
+                        startDate: '2026-03-01T00:00:00.000Z',
+                        completedDate: '2026-03-10T17:59:00.000Z',
+                        totalSteps: 13333,
+                        totalDays: 10,
+                        avgStepsPerDay: 1333,
+                        maxStepsInOneDay: 4000
+                    }],
+                    trailBadges: ['trail-1']
+                }),
+                [trail],
+                NOW
+            );
+            expect(drafts.map(d => [d.id, d.type])).toEqual([
+                ['trail-test-trail-2026-03-10', 'trail_completed'],
+                ['badge-trail-1', 'badge']
+            ]);
+            expect(drafts[1].badgeName).toBe('Trail Starter');
+        });
+
+        it('should post monthly badges and Monthly Master once per month', () => {
+            const before = progress({ monthlyProgress: { ...BadgeService.createNewMonthlyProgress(2026, 3), unlockedBadgeIds: ['step-5k'] } });
+            const after = progress({
+                monthlyProgress: {
+                    ...BadgeService.createNewMonthlyProgress(2026, 3),
+                    unlockedBadgeIds: ['step-5k', 'step-10k'],
+                    monthlyBadgeEarned: true
+                }
+            });
+            const drafts = FeedEventService.detectEvents(before, after, [trail], NOW);
+            expect(drafts.map(d => [d.id, d.badgeName])).toEqual([
+                ['badge-2026-03-step-10k', 'Getting Moving'],
+                ['badge-2026-03-master', BadgeService.getMonthlyMasterName(2026, 3)]
+            ]);
+            expect(FeedEventService.detectEvents(after, after, [trail], NOW)).toEqual([]);
+        });
+
+        it('should treat badges in a new month as new', () => {
+            const before = progress({ monthlyProgress: { ...BadgeService.createNewMonthlyProgress(2026, 2), unlockedBadgeIds: ['step-5k'] } });
+            const after = progress({ monthlyProgress: { ...BadgeService.createNewMonthlyProgress(2026, 3), unlockedBadgeIds: ['step-5k'] } });
+            expect(FeedEventService.detectEvents(before, after, [trail], NOW).map(d => d.id)).toEqual(['badge-2026-03-step-5k']);
+        });
+
+        it('should post a newly earned Yearly Champion, challenge and streak badge', () => {
+            const drafts = FeedEventService.detectEvents(
+                progress(),
+                progress({
+                    yearlyProgress: [{ year: 2026, monthlyBadgesEarned: [1, 2, 3], yearlyBadgeEarned: true }],
+                    challengeBadges: ['challenge-1'],
+                    streakBadges: ['streak-7']
+                }),
+                [trail],
+                NOW
+            );
+            expect(drafts.map(d => d.id)).toEqual(['badge-2026-champion', 'badge-challenge-1', 'badge-streak-7']);
+        });
+    });
+
+    describe('mergeFeeds', () => {
+        it('should put the newest events first and cap the length', () => {
+            const merged = FeedEventService.mergeFeeds([
+                [event('a', '2026-03-09T10:00:00.000Z'), event('b', '2026-03-07T10:00:00.000Z')],
+                [event('c', '2026-03-08T10:00:00.000Z')]
+            ], 2);
+            expect(merged.map(e => e.id)).toEqual(['a', 'c']);
+        });
+    });
+
+    describe('describeEvent', () => {
+        it('should describe each kind of event', () => {
+            expect(FeedEventService.describeEvent({ id: 'x', type: 'milestone', trailName: 'Test Trail', percent: 75, occurredAt: NOW }))
+                .toBe('made it 75% of the way along Test Trail');
+            expect(FeedEventService.describeEvent(event('x', NOW))).toBe('finished Test Trail');
+        });
+    });
+
+    describe('describeAge', () => {
+        it('should shorten recent ages', () => {
+            const now = new Date(NOW);
+            expect(FeedEventService.describeAge('2026-03-10T17:59:30.000Z', now)).toBe('just now');
+            expect(FeedEventService.describeAge('2026-03-10T17:15:00.000Z', now)).toBe('45m');
+            expect(FeedEventService.describeAge('2026-03-10T09:00:00.000Z', now)).toBe('9h');
+            expect(FeedEventService.describeAge('2026-03-07T18:00:00.000Z', now)).toBe('3d');
+        });
+    });
+
+    describe('validateComment', () => {
+        it('should need some text within the length limit', () => {
+            expect(FeedEventService.validateComment('   ')).toMatch(/Write something/);
+            expect(FeedEventService.validateComment('x'.repeat(MAX_COMMENT_LENGTH + 1))).toMatch(/280/);
+            expect(FeedEventService.validateComment(' Go Sam! ')).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,195 @@
+/**
+ * File: src/services/FeedEventService.ts
+ * Purpose: Pure helpers for the activity feed: finding what a sync achieved by comparing the user's
+ * progress before and after it, merging friends' feeds and describing events for display.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Streak badges are posted like trail and challenge badges.
+ * 2026-10-19: Posts every lifetime badge, including rule-defined ones.
+ * 2026-10-19: Badge names come from the badge catalog in use.
+ */
+import { ActiveTrail, FeedEvent, FeedEventDraft, MonthlyProgress, Trail, UserProgress } from '../types';
+import { Badge, BADGES } from '../const/badges';
+import { BadgeService } from './BadgeService';
+
+export const MAX_COMMENT_LENGTH = 280;
+export const FEED_EVENTS_PER_USER = 20; // Newest events fetched from each friend
+export const MAX_FEED_EVENTS = 50;
+
+const MILESTONE_PERCENTS = [75, 50, 25] as const; // Highest first: one post per sync, for the furthest milestone
+
+const dateKey = (iso: string) => iso.slice(0, 10);
+const monthKey = (monthly: MonthlyProgress) => `${monthly.year}-${String(monthly.month).padStart(2, '0')}`;
+
+const badgeDraft = (id: string, badgeId: string, badgeName: string, badgeIcon: string, occurredAt: string): FeedEventDraft => ({
+    id,
+    type: 'badge',
+    badgeId,
+    badgeName,
+    badgeIcon,
+    occurredAt
+});
+
+/**
+ * Helper: Milestone and landmark posts for one trail session that moved forward but did not finish
+ */
+const detectSessionEvents = (previous: ActiveTrail, session: ActiveTrail, trail: Trail, occurredAt: string): FeedEventDraft[] => {
+    const from = previous.currentDistanceMeters;
+    const to = session.currentDistanceMeters;
+    if (to <= from) return [];
+
+    // The same trail can be walked again later, so ids include the day the session started
+    const sessionKey = `${trail.id}-${dateKey(session.startDate)}`;
+    const drafts: FeedEventDraft[] = [];
+
+    const prevPercent = (from / trail.totalDistanceMeters) * 100;
+    const newPercent = (to / trail.totalDistanceMeters) * 100;
+    const milestone = MILESTONE_PERCENTS.find(p => prevPercent < p && newPercent >= p);
+    if (milestone) {
+        drafts.push({
+            id: `milestone-${sessionKey}-${milestone}`,
+            type: 'milestone',
+            trailId: trail.id,
+            trailName: trail.name,
+            percent: milestone,
+            occurredAt
+        });
+    }
+
+    // The finish line is posted as the completed trail instead
+    trail.landmarks
+        .filter(lm => lm.distanceMeters > from && lm.distanceMeters <= to && lm.distanceMeters < trail.totalDistanceMeters)
+        .forEach(lm => drafts.push({
+            id: `landmark-${sessionKey}-${lm.id}`,
+            type: 'landmark',
+            trailId: trail.id,
+            trailName: trail.name,
+            landmarkName: lm.name,
+            occurredAt
+        }));
+    return drafts;
+};
+
+export const FeedEventService = {
+    /**
+     * Everything worth posting that happened between two snapshots of the user's progress:
+     * trail milestones and landmarks, finished trails, and newly earned badges.
+     */
+    detectEvents(before: UserProgress, after: UserProgress, trails: Trail[], occurredAt: string, badges: Badge[] = BADGES): FeedEventDraft[] {
+        const drafts: FeedEventDraft[] = [];
+
+        for (const session of after.activeTrails) {
+            const trail = trails.find(t => t.id === session.trailId);
+            const previous = before.activeTrails.find(s => s.trailId === session.trailId && s.startDate === session.startDate);
+            if (!trail || !previous) continue; // Started after the first snapshot
+            drafts.push(...detectSessionEvents(previous, session, trail, occurredAt));
+        }
+
+        const finishedBefore = new Set((before.completedTrails || []).map(ct => `${ct.trailId}|${ct.completedDate}`));
+        for (const completed of after.completedTrails || []) {
+            if (finishedBefore.has(`${completed.trailId}|${completed.completedDate}`)) continue;
+            const trail = trails.find(t => t.id === completed.trailId);
+            if (!trail) continue;
+            drafts.push({
+                id: `trail-${trail.id}-${dateKey(completed.completedDate)}`,
+                type: 'trail_completed',
+                trailId: trail.id,
+                trailName: trail.name,
+                occurredAt
+            });
+        }
+
+        // Monthly badges start over each month, so their ids include the month
+        const monthly = after.monthlyProgress;
+        const sameMonth = monthKey(before.monthlyProgress) === monthKey(monthly);
+        const hadMonthly = new Set(sameMonth ? before.monthlyProgress.unlockedBadgeIds : []);
+        for (const badgeId of monthly.unlockedBadgeIds) {
+            const badge = badges.find(b => b.id === badgeId);
+            if (badge && !hadMonthly.has(badgeId)) {
+                drafts.push(badgeDraft(`badge-${monthKey(monthly)}-${badgeId}`, badgeId, badge.name, badge.icon, occurredAt));
+            }
+        }
+        if (monthly.monthlyBadgeEarned && !(sameMonth && before.monthlyProgress.monthlyBadgeEarned)) {
+            drafts.push(badgeDraft(
+                `badge-${monthKey(monthly)}-master`,
+                `master-${monthly.month}`,
+                BadgeService.getMonthlyMasterName(monthly.year, monthly.month),
+                BadgeService.getMonthlyMasterIcon(monthly.month),
+                occurredAt
+            ));
+        }
+
+        const championBefore = new Set((before.yearlyProgress || []).filter(yp => yp.yearlyBadgeEarned).map(yp => yp.year));
+        for (const yearProgress of after.yearlyProgress || []) {
+            if (!yearProgress.yearlyBadgeEarned || championBefore.has(yearProgress.year)) continue;
+            drafts.push(badgeDraft(
+                `badge-${yearProgress.year}-champion`,
+                `champion-${yearProgress.year}`,
+                BadgeService.getYearlyChampionName(yearProgress.year),
+                '🏆',
+                occurredAt
+            ));
+        }
+
+        // Lifetime badges (trails, challenges, streaks, feats) are earned once for good
+        const lifetimeBefore = new Set(BadgeService.getLifetimeBadgeIds(before));
+        for (const badgeId of BadgeService.getLifetimeBadgeIds(after)) {
+            const badge = badges.find(b => b.id === badgeId);
+            if (badge && !lifetimeBefore.has(badgeId)) {
+                drafts.push(badgeDraft(`badge-${badgeId}`, badgeId, badge.name, badge.icon, occurredAt));
+            }
+        }
+
+        return drafts;
+    },
+
+    /**
+     * Combine the user's and friends' newest events into one feed, newest first
+     */
+    mergeFeeds(feeds: FeedEvent[][], limit: number = MAX_FEED_EVENTS): FeedEvent[] {
+        return feeds
+            .flat()
+            .sort((a, b) => b.occurredAt.localeCompare(a.occurredAt) || a.id.localeCompare(b.id))
+            .slice(0, limit);
+    },
+
+    /**
+     * What happened, to follow the author's name, e.g. "reached Namche Bazaar on Everest Base Camp"
+     */
+    describeEvent(event: FeedEventDraft): string {
+        switch (event.type) {
+            case 'badge':
+                return `earned the ${event.badgeName} badge`;
+            case 'milestone':
+                return `made it ${event.percent}% of the way along ${event.trailName}`;
+            case 'landmark':
+                return `reached ${event.landmarkName} on ${event.trailName}`;
+            case 'trail_completed':
+                return `finished ${event.trailName}`;
+        }
+    },
+
+    /**
+     * Short age for feed rows: "just now", "5m", "3h", "2d", then the date
+     */
+    describeAge(occurredAt: string, now: Date): string {
+        const minutes = Math.floor((now.getTime() - new Date(occurredAt).getTime()) / 60000);
+        if (minutes < 1) return 'just now';
+        if (minutes < 60) return `${minutes}m`;
+        if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h`;
+        if (minutes < 7 * 24 * 60) return `${Math.floor(minutes / (24 * 60))}d`;
+        return new Date(occurredAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+    },
+
+    /**
+     * Check a comment before posting. Returns a user-facing problem, or null if it is fine.
+     */
+    validateComment(text: string): string | null {
+        const trimmed = text.trim();
+        if (!trimmed) return 'Write something first.';
+        if (trimmed.length > MAX_COMMENT_LENGTH) return `Comments can be up to ${MAX_COMMENT_LENGTH} characters.`;
+        return null;
+    }
+};
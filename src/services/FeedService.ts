@@ -0,0 +1,137 @@
+/**
+ * File: src/services/FeedService.ts
+ * Purpose: Firestore access for the activity feed: each user's posted events, and friends' cheers and comments on them.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import {
+    arrayRemove,
+    arrayUnion,
+    collection,
+    collectionGroup,
+    doc,
+    getDoc,
+    getDocs,
+    increment,
+    limit,
+    orderBy,
+    query,
+    setDoc,
+    updateDoc,
+    where,
+    writeBatch
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { FeedComment, FeedEvent, FeedEventDraft } from '../types';
+import { ProfileSource, toPublicProfile } from './FriendService';
+import { FEED_EVENTS_PER_USER, FeedEventService } from './FeedEventService';
+import { withRemote } from '../utils/async';
+
+const eventsRef = (userId: string) => collection(db, 'activityFeeds', userId, 'events');
+const eventRef = (userId: string, eventId: string) => doc(db, 'activityFeeds', userId, 'events', eventId);
+const commentsRef = (event: FeedEvent) => collection(db, 'activityFeeds', event.author.userId, 'events', event.id, 'comments');
+
+export const FeedService = {
+    /**
+     * Post events to the user's feed. Events already posted are left alone, keeping their cheers and comments.
+     */
+    async publishEvents(author: ProfileSource, drafts: FeedEventDraft[]): Promise<void> {
+        const profile = toPublicProfile(author);
+        for (const draft of drafts) {
+            const ref = eventRef(author.id, draft.id);
+            const existing = await withRemote(getDoc(ref), 'Check activity');
+            if (existing.exists()) continue;
+
+            const event: FeedEvent = { ...draft, author: profile, cheerIds: [], commentCount: 0 };
+            await withRemote(setDoc(ref, event), 'Post activity');
+        }
+        if (__DEV__) console.log(`[FeedService] Posted ${drafts.length} activity events for ${author.id}`);
+    },
+
+    /**
+     * The newest events from the user and their friends, newest first
+     */
+    async getFeed(userId: string, friendIds: string[]): Promise<FeedEvent[]> {
+        const feeds = await Promise.all([userId, ...friendIds].map(async id => {
+            const snap = await withRemote(
+                getDocs(query(eventsRef(id), orderBy('occurredAt', 'desc'), limit(FEED_EVENTS_PER_USER))),
+                'Fetch activity'
+            );
+            return snap.docs.map(d => d.data() as FeedEvent);
+        }));
+        return FeedEventService.mergeFeeds(feeds);
+    },
+
+    /**
+     * Cheer an event, or take the cheer back
+     */
+    async setCheer(event: FeedEvent, userId: string, cheering: boolean): Promise<void> {
+        await withRemote(updateDoc(eventRef(event.author.userId, event.id), {
+            cheerIds: cheering ? arrayUnion(userId) : arrayRemove(userId)
+        }), 'Cheer');
+    },
+
+    /**
+     * Comments on an event, oldest first
+     */
+    async getComments(event: FeedEvent): Promise<FeedComment[]> {
+        const snap = await withRemote(getDocs(query(commentsRef(event), orderBy('createdAt', 'asc'))), 'Fetch comments');
+        return snap.docs.map(d => d.data() as FeedComment);
+    },
+
+    /**
+     * Add a comment and count it on the event together
+     */
+    async addComment(author: ProfileSource, event: FeedEvent, text: string): Promise<FeedComment> {
+        const ref = doc(commentsRef(event));
+        const comment: FeedComment = {
+            id: ref.id,
+            author: toPublicProfile(author),
+            text: text.trim(),
+            createdAt: new Date().toISOString()
+        };
+        const batch = writeBatch(db);
+        batch.set(ref, comment);
+        batch.update(eventRef(event.author.userId, event.id), { commentCount: increment(1) });
+        await withRemote(batch.commit(), 'Post comment');
+        return comment;
+    },
+
+    /**
+     * Delete a comment. Its author and the event's author can both do this.
+     */
+    async deleteComment(event: FeedEvent, comment: FeedComment): Promise<void> {
+        const batch = writeBatch(db);
+        batch.delete(doc(commentsRef(event), comment.id));
+        batch.update(eventRef(event.author.userId, event.id), { commentCount: increment(-1) });
+        await withRemote(batch.commit(), 'Delete comment');
+    },
+
+    /**
+     * Remove the user's feed and every comment they left on friends' events (used when deleting the account).
+     * Has to run while the friendships still exist, since comments are only writable by friends.
+     */
+    async deleteAll(userId: string): Promise<void> {
+        const [eventsSnap, commentsSnap] = await Promise.all([
+            withRemote(getDocs(eventsRef(userId)), 'Fetch activity'),
+            withRemote(getDocs(query(collectionGroup(db, 'comments'), where('author.userId', '==', userId))), 'Fetch comments')
+        ]);
+
+        // One batch per event keeps each well under Firestore's write limit
+        for (const eventDoc of eventsSnap.docs) {
+            const eventComments = await withRemote(getDocs(collection(eventDoc.ref, 'comments')), 'Fetch comments');
+            const batch = writeBatch(db);
+            eventComments.docs.forEach(d => batch.delete(d.ref));
+            batch.delete(eventDoc.ref);
+            await withRemote(batch.commit(), 'Delete activity');
+        }
+
+        const onFriendsEvents = commentsSnap.docs.filter(d => d.ref.parent.parent?.parent.parent?.id !== userId);
+        for (const commentDoc of onFriendsEvents) {
+            const batch = writeBatch(db);
+            batch.delete(commentDoc.ref);
+            batch.update(commentDoc.ref.parent.parent!, { commentCount: increment(-1) });
+            await withRemote(batch.commit(), 'Delete comments');
+        }
+    }
+};
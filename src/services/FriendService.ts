@@ -0,0 +1,235 @@
+/**
+ * File: src/services/FriendService.ts
+ * Purpose: Firestore access for friends: profiles, lookups, friend requests and shared stats.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Network helper moved to utils/async for the other social services.
+ */
+import { collection, deleteDoc, doc, getDoc, getDocs, query, setDoc, updateDoc, where, writeBatch } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { Friend, FriendRequest, Friendship, PublicProfile, SharedFriendStats } from '../types';
+import { FriendSharingService } from './FriendSharingService';
+import { withRemote } from '../utils/async';
+
+const INVITE_CODE_ATTEMPTS = 5;
+
+export interface ProfileSource {
+    id: string;
+    name: string;
+    email: string;
+    profileImage?: string;
+}
+
+export interface FriendRequests {
+    incoming: FriendRequest[];
+    outgoing: FriendRequest[];
+}
+
+export const toPublicProfile = (source: ProfileSource): PublicProfile => ({
+    userId: source.id,
+    name: source.name,
+    // Photos picked on this device are local file URIs that friends could not load
+    ...(source.profileImage?.startsWith('https://') ? { profileImage: source.profileImage } : {})
+});
+
+export const FriendService = {
+    /**
+     * Publish the user's public profile and lookup entries, creating an invite code on first use.
+     * Returns the user's invite code.
+     */
+    async ensureProfile(user: ProfileSource): Promise<string> {
+        const email = FriendSharingService.normalizeEmail(user.email);
+        await withRemote(setDoc(doc(db, 'publicProfiles', user.id), toPublicProfile(user)), 'Save public profile');
+        await withRemote(setDoc(doc(db, 'emailIndex', email), { userId: user.id }), 'Save email index');
+
+        const userSnap = await withRemote(getDoc(doc(db, 'users', user.id)), 'Fetch user');
+        const existing = userSnap.exists() ? userSnap.data().inviteCode as string | undefined : undefined;
+        if (existing) return existing;
+
+        for (let attempt = 0; attempt < INVITE_CODE_ATTEMPTS; attempt++) {
+            const code = FriendSharingService.generateInviteCode();
+            const codeRef = doc(db, 'inviteCodes', code);
+            const taken = await withRemote(getDoc(codeRef), 'Check invite code');
+            if (taken.exists()) continue;
+
+            await withRemote(setDoc(codeRef, { userId: user.id }), 'Save invite code');
+            await withRemote(updateDoc(doc(db, 'users', user.id), { inviteCode: code }), 'Save invite code');
+            if (__DEV__) console.log(`[FriendService] Created invite code for ${user.id}`);
+            return code;
+        }
+        throw new Error('Could not create an invite code. Please try again.');
+    },
+
+    /**
+     * Look up another user by exact email address or invite code
+     */
+    async findUser(search: string): Promise<PublicProfile | null> {
+        let userId: string | undefined;
+        if (FriendSharingService.isEmail(search)) {
+            const snap = await withRemote(getDoc(doc(db, 'emailIndex', FriendSharingService.normalizeEmail(search))), 'Find user by email');
+            userId = snap.exists() ? snap.data().userId : undefined;
+        } else if (FriendSharingService.isInviteCode(search)) {
+            const snap = await withRemote(getDoc(doc(db, 'inviteCodes', FriendSharingService.normalizeInviteCode(search))), 'Find user by invite code');
+            userId = snap.exists() ? snap.data().userId : undefined;
+        } else {
+            throw new Error('Enter an email address or an 8-character invite code.');
+        }
+
+        if (!userId) return null;
+        const profileSnap = await withRemote(getDoc(doc(db, 'publicProfiles', userId)), 'Fetch profile');
+        return profileSnap.exists() ? profileSnap.data() as PublicProfile : null;
+    },
+
+    /**
+     * Send a friend request. If the other user already asked us, accept theirs instead.
+     */
+    async sendRequest(from: ProfileSource, search: string): Promise<{ status: 'sent' | 'accepted'; profile: PublicProfile }> {
+        const target = await this.findUser(search);
+        if (!target) {
+            throw new Error('No Stridr user found with that email or invite code.');
+        }
+        if (target.userId === from.id) {
+            throw new Error("That's you! Share your invite code with a friend instead.");
+        }
+
+        const friendshipSnap = await withRemote(
+            getDoc(doc(db, 'friendships', FriendSharingService.getFriendshipId(from.id, target.userId))),
+            'Check friendship'
+        );
+        if (friendshipSnap.exists()) {
+            throw new Error(`You are already friends with ${target.name}.`);
+        }
+
+        const reverseSnap = await withRemote(
+            getDoc(doc(db, 'friendRequests', FriendSharingService.getRequestId(target.userId, from.id))),
+            'Check friend requests'
+        );
+        if (reverseSnap.exists()) {
+            await this.acceptRequest(from.id, reverseSnap.data() as FriendRequest);
+            return { status: 'accepted', profile: target };
+        }
+
+        const requestId = FriendSharingService.getRequestId(from.id, target.userId);
+        const existingSnap = await withRemote(getDoc(doc(db, 'friendRequests', requestId)), 'Check friend requests');
+        if (existingSnap.exists()) {
+            throw new Error(`You already sent ${target.name} a request.`);
+        }
+
+        const request: FriendRequest = {
+            id: requestId,
+            from: toPublicProfile(from),
+            to: target,
+            createdAt: new Date().toISOString()
+        };
+        await withRemote(setDoc(doc(db, 'friendRequests', requestId), request), 'Send friend request');
+        return { status: 'sent', profile: target };
+    },
+
+    /**
+     * Pending requests sent to and by the user, newest first
+     */
+    async getRequests(userId: string): Promise<FriendRequests> {
+        const requests = collection(db, 'friendRequests');
+        const [incomingSnap, outgoingSnap] = await Promise.all([
+            withRemote(getDocs(query(requests, where('to.userId', '==', userId))), 'Fetch friend requests'),
+            withRemote(getDocs(query(requests, where('from.userId', '==', userId))), 'Fetch friend requests')
+        ]);
+        const newestFirst = (a: FriendRequest, b: FriendRequest) => b.createdAt.localeCompare(a.createdAt);
+        return {
+            incoming: incomingSnap.docs.map(d => d.data() as FriendRequest).sort(newestFirst),
+            outgoing: outgoingSnap.docs.map(d => d.data() as FriendRequest).sort(newestFirst)
+        };
+    },
+
+    /**
+     * Accept a request sent to the user: create the friendship and remove the request together
+     */
+    async acceptRequest(userId: string, request: FriendRequest): Promise<void> {
+        if (request.to.userId !== userId) {
+            throw new Error('Only the person a request was sent to can accept it.');
+        }
+
+        const friendship: Friendship = {
+            id: FriendSharingService.getFriendshipId(request.from.userId, userId),
+            members: [request.from.userId, userId],
+            since: new Date().toISOString()
+        };
+        const batch = writeBatch(db);
+        batch.set(doc(db, 'friendships', friendship.id), friendship);
+        batch.delete(doc(db, 'friendRequests', request.id));
+        await withRemote(batch.commit(), 'Accept friend request');
+    },
+
+    /**
+     * Decline a received request or cancel a sent one
+     */
+    async removeRequest(request: FriendRequest): Promise<void> {
+        await withRemote(deleteDoc(doc(db, 'friendRequests', request.id)), 'Remove friend request');
+    },
+
+    /**
+     * The user's friends with whatever stats each of them shares, sorted by name
+     */
+    async getFriends(userId: string): Promise<Friend[]> {
+        const snap = await withRemote(
+            getDocs(query(collection(db, 'friendships'), where('members', 'array-contains', userId))),
+            'Fetch friends'
+        );
+        const friendships = snap.docs.map(d => d.data() as Friendship);
+
+        const friends = await Promise.all(friendships.map(async (friendship): Promise<Friend | null> => {
+            const friendId = friendship.members.find(id => id !== userId);
+            if (!friendId) return null;
+
+            const [profileSnap, statsSnap] = await Promise.all([
+                withRemote(getDoc(doc(db, 'publicProfiles', friendId)), 'Fetch friend profile'),
+                withRemote(getDoc(doc(db, 'friendStats', friendId)), 'Fetch friend stats')
+            ]);
+            if (!profileSnap.exists()) return null; // Account deleted
+            return {
+                profile: profileSnap.data() as PublicProfile,
+                since: friendship.since,
+                stats: statsSnap.exists() ? statsSnap.data() as SharedFriendStats : null
+            };
+        }));
+
+        return friends
+            .filter((f): f is Friend => f !== null)
+            .sort((a, b) => a.profile.name.localeCompare(b.profile.name));
+    },
+
+    async removeFriend(userId: string, friendId: string): Promise<void> {
+        await withRemote(deleteDoc(doc(db, 'friendships', FriendSharingService.getFriendshipId(userId, friendId))), 'Remove friend');
+    },
+
+    /**
+     * Replace the stats snapshot friends can read. Fields left out of `stats` are removed.
+     */
+    async publishStats(stats: SharedFriendStats): Promise<void> {
+        await withRemote(setDoc(doc(db, 'friendStats', stats.userId), stats), 'Publish friend stats');
+    },
+
+    /**
+     * Remove everything other users can see about this user (used when deleting the account)
+     */
+    async deleteSocialData(user: ProfileSource): Promise<void> {
+        const userSnap = await withRemote(getDoc(doc(db, 'users', user.id)), 'Fetch user');
+        const inviteCode = userSnap.exists() ? userSnap.data().inviteCode as string | undefined : undefined;
+
+        const [friendshipsSnap, { incoming, outgoing }] = await Promise.all([
+            withRemote(getDocs(query(collection(db, 'friendships'), where('members', 'array-contains', user.id))), 'Fetch friends'),
+            this.getRequests(user.id)
+        ]);
+
+        const batch = writeBatch(db);
+        friendshipsSnap.docs.forEach(d => batch.delete(d.ref));
+        [...incoming, ...outgoing].forEach(r => batch.delete(doc(db, 'friendRequests', r.id)));
+        batch.delete(doc(db, 'publicProfiles', user.id));
+        batch.delete(doc(db, 'friendStats', user.id));
+        batch.delete(doc(db, 'emailIndex', FriendSharingService.normalizeEmail(user.email)));
+        if (inviteCode) batch.delete(doc(db, 'inviteCodes', inviteCode));
+        await withRemote(batch.commit(), 'Delete social data');
+    }
+};
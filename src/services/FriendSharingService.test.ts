@@ -0,0 +1,154 @@
+/**
+ * File: src/services/FriendSharingService.test.ts
+ * Purpose: Unit tests for FriendSharingService.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Sharing settings include the activity feed.
+ * 2026-10-19: Recent badges come from the badge unlock history.
+ */
+import { FriendSharingService, INVITE_CODE_LENGTH } from './FriendSharingService';
+import { FriendSharingSettings, PeriodTotals, Trail, UserProgress } from '../types';
+
+const trail: Trail = {
+    id: 'test-trail',
+    name: 'Test Trail',
+    description: '',
+    totalDistanceMeters: 10000,
+    color: '#000',
+    difficulty: 'Easy',
+    image: 0,
+    landmarks: []
+};
+
+const progress: UserProgress = {
+    activeTrails: [
+        { trailId: 'test-trail', startDate: '2026-03-01T00:00:00.000Z', targetDays: 7, totalStepsValid: 3300, currentDistanceMeters: 2519 },
+        { trailId: 'deleted-trail', startDate: '2026-03-01T00:00:00.000Z', targetDays: 7, totalStepsValid: 100, currentDistanceMeters: 76 }
+    ],
+    stats: { totalStepsLifetime: 50000, totalDistanceMetersLifetime: 38100, completedTrailsCount: 1 },
+    lastSyncTime: '2026-03-05T10:00:00.000Z',
+    monthlyProgress: {
+        year: 2026,
+        month: 3,
+        stepsThisMonth: 12000,
+        distanceMetersThisMonth: 9144,
+        unlockedBadgeIds: ['steps-1', 'steps-2', 'steps-3', 'steps-4', 'steps-5', 'steps-6'],
+        monthlyBadgeEarned: false
+    },
+    pastMonths: [
+        { year: 2026, month: 2, stepsThisMonth: 8000, distanceMetersThisMonth: 6096, unlockedBadgeIds: ['steps-1'], monthlyBadgeEarned: false }
+    ],
+    yearlyProgress: [{ year: 2026, monthlyBadgesEarned: [1], yearlyBadgeEarned: false }],
+    trailBadges: ['trail-1'],
+    completedTrails: [],
+    currentStreak: 0,
+    lastLogDate: null
+};
+
+const shareAll: FriendSharingSettings = { todaySteps: true, activeTrail: true, badges: true, leaderboards: true, activity: true };
+const shareNothing: FriendSharingSettings = { todaySteps: false, activeTrail: false, badges: false, leaderboards: false, activity: false };
+const week: PeriodTotals = { periodKey: '2026-03-01', steps: 20000, distanceMeters: 15240, trailsCompleted: 0 };
+const month: PeriodTotals = { periodKey: '2026-03', steps: 30000, distanceMeters: 22860, trailsCompleted: 1 };
+const now = new Date('2026-03-05T20:00:00.000Z');
+
+describe('FriendSharingService', () => {
+    describe('invite codes', () => {
+        it('should generate codes that pass validation', () => {
+            let seed = 0;
+            const code = FriendSharingService.generateInviteCode(() => (seed = (seed + 0.37) % 1));
+            expect(code).toHaveLength(INVITE_CODE_LENGTH);
+            expect(FriendSharingService.isInviteCode(code)).toBe(true);
+        });
+
+        it('should accept formatted and lower-case input', () => {
+            expect(FriendSharingService.normalizeInviteCode(' k7qh-2mxd ')).toBe('K7QH2MXD');
+            expect(FriendSharingService.isInviteCode('k7qh-2mxd')).toBe(true);
+            expect(FriendSharingService.formatInviteCode('K7QH2MXD')).toBe('K7QH-2MXD');
+        });
+
+        it('should reject ambiguous characters and wrong lengths', () => {
+            expect(FriendSharingService.isInviteCode('K7QH2MX0')).toBe(false);
+            expect(FriendSharingService.isInviteCode('K7QH2M')).toBe(false);
+        });
+    });
+
+    describe('emails', () => {
+        it('should recognise and normalise email addresses', () => {
+            expect(FriendSharingService.isEmail(' Sam@Example.com ')).toBe(true);
+            expect(FriendSharingService.isEmail('K7QH-2MXD')).toBe(false);
+            expect(FriendSharingService.normalizeEmail(' Sam@Example.com ')).toBe('sam@example.com');
+        });
+    });
+
+    describe('ids', () => {
+        it('should give both users the same friendship id', () => {
+            expect(FriendSharingService.getFriendshipId('b', 'a')).toBe('a_b');
+            expect(FriendSharingService.getFriendshipId('a', 'b')).toBe('a_b');
+        });
+
+        it('should keep the direction of a request', () => {
+            expect(FriendSharingService.getRequestId('b', 'a')).toBe('b_a');
+        });
+    });
+
+    describe('buildSharedStats', () => {
+        const build = (settings: FriendSharingSettings) => FriendSharingService.buildSharedStats({
+            userId: 'user-1',
+            progress,
+            todaySteps: 4321,
+            trails: [trail],
+            settings,
+            timeZone: 'Asia/Kolkata',
+            periodTotals: { week, month },
+            now
+        });
+
+        it('should include everything that is shared', () => {
+            const stats = build(shareAll);
+            expect(stats.todayDate).toBe('2026-03-06'); // 01:30 the next day in India
+            expect(stats.todaySteps).toBe(4321);
+            expect(stats.activeTrails).toEqual([{ trailId: 'test-trail', trailName: 'Test Trail', percentComplete: 25 }]);
+            expect(stats.badgeCount).toBe(6 + 1 + 1 + 1);
+            expect(stats.recentBadgeIds).toEqual(['steps-2', 'steps-3', 'steps-4', 'steps-5', 'steps-6']);
+            expect(stats.periodTotals).toEqual({ week, month });
+        });
+
+        it('should share the latest unlocks as recent badges, oldest first', () => {
+            const badgeUnlocks = ['trail-1', 'steps-6', 'master-1'].map((badgeId, i) => ({ badgeId, unlockedAt: `2026-03-0${i + 1}T12:00:00.000Z` }));
+            const stats = FriendSharingService.buildSharedStats({
+                userId: 'user-1',
+                progress: { ...progress, badgeUnlocks: [badgeUnlocks[2], badgeUnlocks[0], badgeUnlocks[1]] },
+                todaySteps: 0,
+                trails: [trail],
+                settings: shareAll,
+                timeZone: 'Asia/Kolkata',
+                now
+            });
+            expect(stats.recentBadgeIds).toEqual(['trail-1', 'steps-6', 'master-1']);
+        });
+
+        it('should leave out fields that are not shared', () => {
+            const stats = build(shareNothing);
+            expect(stats).toEqual({ userId: 'user-1', updatedAt: now.toISOString(), timeZone: 'Asia/Kolkata' });
+        });
+    });
+
+    describe('getTodaySteps', () => {
+        const stats = { userId: 'user-1', updatedAt: now.toISOString(), timeZone: 'Asia/Kolkata', todayDate: '2026-03-06', todaySteps: 4321 };
+
+        it("should show steps while it is still the same day for the friend", () => {
+            expect(FriendSharingService.getTodaySteps(stats, new Date('2026-03-06T12:00:00.000Z'))).toBe(4321);
+        });
+
+        it('should show zero once the friend has moved to a new day without syncing', () => {
+            expect(FriendSharingService.getTodaySteps(stats, new Date('2026-03-06T19:00:00.000Z'))).toBe(0);
+        });
+
+        it('should be null when steps are not shared', () => {
+            expect(FriendSharingService.getTodaySteps({ ...stats, todaySteps: undefined, todayDate: undefined }, now)).toBeNull();
+            expect(FriendSharingService.getTodaySteps(null, now)).toBeNull();
+        });
+    });
+});
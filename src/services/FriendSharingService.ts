@@ -0,0 +1,141 @@
+/**
+ * File: src/services/FriendSharingService.ts
+ * Purpose: Invite codes, friendship ids and the stats snapshot shared with friends.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Shared stats carry weekly/monthly leaderboard totals.
+ * 2026-10-19: Badge count includes challenge badges.
+ * 2026-10-19: Badge count includes streak badges.
+ * 2026-10-19: Badge count includes every lifetime badge.
+ * 2026-10-19: Recent badges come from the badge unlock history.
+ */
+import { FriendSharingSettings, LeaderboardPeriod, PeriodTotals, SharedFriendStats, Trail, UserProgress } from '../types';
+import { BadgeService } from './BadgeService';
+import { toLocalDateKey } from '../utils/date';
+
+// No 0/O or 1/I/L, so codes survive being read aloud or typed from a screenshot
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+export const INVITE_CODE_LENGTH = 8;
+
+const RECENT_BADGE_COUNT = 5;
+
+export interface SharedStatsInput {
+    userId: string;
+    progress: UserProgress;
+    todaySteps: number;
+    trails: Trail[];
+    settings: FriendSharingSettings;
+    timeZone: string;
+    periodTotals?: Record<LeaderboardPeriod, PeriodTotals>; // From LeaderboardService.computePeriodTotals
+    now?: Date;
+}
+
+export const FriendSharingService = {
+    /**
+     * Random invite code, e.g. "K7QH-2MXD" once formatted
+     */
+    generateInviteCode(random: () => number = Math.random): string {
+        let code = '';
+        for (let i = 0; i < INVITE_CODE_LENGTH; i++) {
+            code += INVITE_CODE_ALPHABET[Math.floor(random() * INVITE_CODE_ALPHABET.length)];
+        }
+        return code;
+    },
+
+    /**
+     * Canonical form of a typed invite code: upper case without spaces or dashes
+     */
+    normalizeInviteCode(input: string): string {
+        return input.toUpperCase().replace(/[\s-]/g, '');
+    },
+
+    isInviteCode(input: string): boolean {
+        const code = this.normalizeInviteCode(input);
+        return code.length === INVITE_CODE_LENGTH && [...code].every(c => INVITE_CODE_ALPHABET.includes(c));
+    },
+
+    /**
+     * Invite code split in two for display
+     */
+    formatInviteCode(code: string): string {
+        const half = INVITE_CODE_LENGTH / 2;
+        return `${code.slice(0, half)}-${code.slice(half)}`;
+    },
+
+    normalizeEmail(input: string): string {
+        return input.trim().toLowerCase();
+    },
+
+    isEmail(input: string): boolean {
+        return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(input.trim());
+    },
+
+    /**
+     * Document id for a friendship: the same for both users regardless of who asked
+     */
+    getFriendshipId(userId: string, otherUserId: string): string {
+        return [userId, otherUserId].sort().join('_');
+    },
+
+    getRequestId(fromUserId: string, toUserId: string): string {
+        return `${fromUserId}_${toUserId}`;
+    },
+
+    /**
+     * Build the snapshot friends can read, leaving out everything the user chose not to share
+     */
+    buildSharedStats({ userId, progress, todaySteps, trails, settings, timeZone, periodTotals, now = new Date() }: SharedStatsInput): SharedFriendStats {
+        const stats: SharedFriendStats = {
+            userId,
+            updatedAt: now.toISOString(),
+            timeZone
+        };
+
+        if (settings.todaySteps) {
+            stats.todayDate = toLocalDateKey(now, timeZone);
+            stats.todaySteps = todaySteps;
+        }
+
+        if (settings.activeTrail) {
+            stats.activeTrails = progress.activeTrails.flatMap(session => {
+                const trail = trails.find(t => t.id === session.trailId);
+                if (!trail) return [];
+                return [{
+                    trailId: trail.id,
+                    trailName: trail.name,
+                    percentComplete: Math.min(Math.floor((session.currentDistanceMeters / trail.totalDistanceMeters) * 100), 100)
+                }];
+            });
+        }
+
+        if (settings.badges) {
+            // Same total as the dashboard: monthly, lifetime and master badges
+            const monthlyCount = [...(progress.pastMonths || []), progress.monthlyProgress]
+                .reduce((acc, mp) => acc + mp.unlockedBadgeIds.length, 0);
+            const masterCount = (progress.yearlyProgress || [])
+                .reduce((acc, yp) => acc + yp.monthlyBadgesEarned.length + (yp.yearlyBadgeEarned ? 1 : 0), 0);
+            stats.badgeCount = monthlyCount + BadgeService.getLifetimeBadgeIds(progress).length + masterCount;
+            // Oldest first; progress saved before unlocks were recorded falls back to this month's badges
+            const recentUnlocks = BadgeService.getRecentUnlocks(progress, RECENT_BADGE_COUNT);
+            stats.recentBadgeIds = recentUnlocks.length > 0
+                ? recentUnlocks.map(unlock => unlock.badgeId).reverse()
+                : progress.monthlyProgress.unlockedBadgeIds.slice(-RECENT_BADGE_COUNT);
+        }
+
+        if (settings.leaderboards && periodTotals) {
+            stats.periodTotals = periodTotals;
+        }
+
+        return stats;
+    },
+
+    /**
+     * A friend's steps for their current day: 0 if they have not synced yet today, null if not shared
+     */
+    getTodaySteps(stats: SharedFriendStats | null, now: Date = new Date()): number | null {
+        if (!stats || stats.todaySteps === undefined || !stats.todayDate) return null;
+        return stats.todayDate === toLocalDateKey(now, stats.timeZone) ? stats.todaySteps : 0;
+    }
+};
@@ -0,0 +1,61 @@
+/**
+ * File: src/services/HealthConnectStepSource.ts
+ * Purpose: Step source backed by Android Health Connect, which keeps more history than the phone's
+ * pedometer and includes steps synced from watches.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Asks for background read access too; added hasPermissions.
+ */
+import { Platform } from 'react-native';
+import { aggregateRecord, getGrantedPermissions, getSdkStatus, initialize, requestPermission, SdkAvailabilityStatus } from 'react-native-health-connect';
+import { StepSource } from './StepSourceService';
+
+const STEPS_READ = { accessType: 'read', recordType: 'Steps' } as const;
+// Lets the background sync task read steps while the app is not open (Android 14+)
+const BACKGROUND_READ = { accessType: 'read', recordType: 'BackgroundAccessPermission' } as const;
+
+let initialized = false;
+let prompted = false; // The permission sheet is shown at most once per launch, not on every sync
+
+const canReadSteps = (permissions: { accessType: string; recordType: string }[]) =>
+    permissions.some(p => p.recordType === STEPS_READ.recordType && p.accessType === STEPS_READ.accessType);
+
+const ensureInitialized = async (): Promise<boolean> => {
+    if (!initialized) initialized = await initialize();
+    return initialized;
+};
+
+export const HealthConnectStepSource: StepSource = {
+    id: 'healthconnect',
+
+    async isAvailable(): Promise<boolean> {
+        if (Platform.OS !== 'android') return false;
+        const status = await getSdkStatus();
+        return status === SdkAvailabilityStatus.SDK_AVAILABLE && await ensureInitialized();
+    },
+
+    async requestPermissions(): Promise<boolean> {
+        if (!(await ensureInitialized())) return false;
+        if (canReadSteps(await getGrantedPermissions())) return true;
+        if (prompted) return false;
+        prompted = true;
+        return canReadSteps(await requestPermission([STEPS_READ, BACKGROUND_READ]));
+    },
+
+    async hasPermissions(): Promise<boolean> {
+        if (!(await ensureInitialized())) return false;
+        return canReadSteps(await getGrantedPermissions());
+    },
+
+    async getStepsBetween(start: Date, end: Date): Promise<number> {
+        if (!(await ensureInitialized())) throw new Error('Health Connect is not initialized');
+        // The aggregate de-duplicates records that several apps wrote for the same steps
+        const result = await aggregateRecord({
+            recordType: 'Steps',
+            timeRangeFilter: { operator: 'between', startTime: start.toISOString(), endTime: end.toISOString() }
+        });
+        return result.COUNT_TOTAL;
+    }
+};
@@ -0,0 +1,60 @@
+/**
+ * File: src/services/HealthKitStepSource.ts
+ * Purpose: Step source backed by Apple Health (react-native-health), which includes steps from an Apple Watch.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Added hasPermissions.
+ */
+import { Platform } from 'react-native';
+import AppleHealthKit, { HealthKitPermissions, HealthValue } from 'react-native-health';
+import { StepSource } from './StepSourceService';
+
+const PERMISSIONS: HealthKitPermissions = {
+    permissions: {
+        read: [AppleHealthKit.Constants.Permissions.StepCount],
+        write: []
+    }
+};
+
+export const HealthKitStepSource: StepSource = {
+    id: 'healthkit',
+
+    async isAvailable(): Promise<boolean> {
+        if (Platform.OS !== 'ios') return false;
+        return new Promise(resolve => {
+            AppleHealthKit.isAvailable((error, available) => resolve(!error && available));
+        });
+    },
+
+    /**
+     * HealthKit never says whether read access was granted; a denied read simply returns no samples
+     */
+    async requestPermissions(): Promise<boolean> {
+        return new Promise(resolve => {
+            AppleHealthKit.initHealthKit(PERMISSIONS, error => resolve(!error));
+        });
+    },
+
+    /**
+     * Initializing only shows the sheet while access is undecided, which cannot happen in the
+     * background: the app asks on first launch
+     */
+    async hasPermissions(): Promise<boolean> {
+        return this.requestPermissions();
+    },
+
+    async getStepsBetween(start: Date, end: Date): Promise<number> {
+        // One bucket anchored at start that spans the whole window. HealthKit's statistics query
+        // merges the phone and watch, so overlapping samples are only counted once.
+        const period = Math.max(1, Math.ceil((end.getTime() - start.getTime()) / 60000));
+        const samples = await new Promise<HealthValue[]>((resolve, reject) => {
+            AppleHealthKit.getDailyStepCountSamples(
+                { startDate: start.toISOString(), endDate: end.toISOString(), period },
+                (error, results) => (error ? reject(new Error(String(error))) : resolve(results))
+            );
+        });
+        return Math.round(samples.reduce((sum, sample) => sum + sample.value, 0));
+    }
+};
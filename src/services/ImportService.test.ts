@@ -0,0 +1,219 @@
+/**
+ * File: src/services/ImportService.test.ts
+ * Purpose: Unit tests for ImportService.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import { ImportService } from './ImportService';
+import { ExportService } from './ExportService';
+import { DailyLog, UserProgress } from '../types';
+
+const progress: UserProgress = {
+    activeTrails: [],
+    stats: {
+        totalStepsLifetime: 10000,
+        totalDistanceMetersLifetime: 7620,
+        completedTrailsCount: 0
+    },
+    lastSyncTime: '2026-03-20T10:00:00.000Z',
+    monthlyProgress: {
+        year: 2026,
+        month: 3,
+        stepsThisMonth: 10000,
+        distanceMetersThisMonth: 7620,
+        unlockedBadgeIds: ['step-5k'],
+        monthlyBadgeEarned: false
+    },
+    pastMonths: [],
+    yearlyProgress: [],
+    trailBadges: [],
+    completedTrails: [],
+    currentStreak: 0,
+    lastLogDate: null
+};
+
+const existingLogs: DailyLog[] = [
+    { date: '2026-03-19', steps: 6000, distanceMeters: 4572 },
+    { date: '2026-03-20', steps: 4000, distanceMeters: 3048 }
+];
+
+const sourceProgress: UserProgress = {
+    ...progress,
+    stats: { totalStepsLifetime: 50000, totalDistanceMetersLifetime: 38100, completedTrailsCount: 1 },
+    monthlyProgress: { ...progress.monthlyProgress, stepsThisMonth: 12000, unlockedBadgeIds: ['step-5k', 'step-10k'] },
+    pastMonths: [
+        { year: 2026, month: 2, stepsThisMonth: 30000, distanceMetersThisMonth: 22860, unlockedBadgeIds: ['step-5k'], monthlyBadgeEarned: false }
+    ],
+    trailBadges: ['trail-1'],
+    challengesWon: ['ch-1'],
+    challengeBadges: ['challenge-1'],
+    streakBadges: ['streak-7'],
+    lifetimeBadges: ['early-bird'],
+    badgeUnlocks: [
+        { badgeId: 'streak-7', unlockedAt: '2026-03-07T18:00:00.000Z', date: '2026-03-07', value: 7 },
+        { badgeId: 'challenge-1', unlockedAt: '2026-03-10T08:00:00.000Z', date: '2026-03-10', value: 1 }
+    ],
+    streak: {
+        current: 9,
+        longest: 12,
+        lastQualifiedDate: '2026-03-20',
+        coveredThrough: '2026-03-20',
+        dayDate: '2026-03-20',
+        daySteps: 7000,
+        freezes: 1,
+        daysTowardFreeze: 2,
+        frozenDates: ['2026-03-11']
+    },
+    currentStreak: 9,
+    completedTrails: [{
+        trailId: 'roopkund-trek',
+        startDate: '2026-02-01T00:00:00.000Z',
+        completedDate: '2026-02-20T00:00:00.000Z',
+        totalSteps: 70000,
+        totalDays: 20,
+        avgStepsPerDay: 3500,
+        maxStepsInOneDay: 9000
+    }]
+};
+
+const sourceLogs: DailyLog[] = [
+    { date: '2026-03-18', steps: 5000, distanceMeters: 3810 },
+    { date: '2026-03-19', steps: 6000, distanceMeters: 4572 },
+    { date: '2026-03-20', steps: 7000, distanceMeters: 5334 }
+];
+
+const buildArchive = () => ExportService.buildArchive(
+    sourceProgress,
+    sourceLogs,
+    { distanceUnit: 'mi' },
+    { startDate: null, endDate: null },
+    'km',
+    new Date('2026-03-21T00:00:00.000Z')
+);
+
+describe('ImportService', () => {
+    describe('parseArchive', () => {
+        it('should round-trip an exported archive', () => {
+            const archive = buildArchive();
+            expect(ImportService.parseArchive(JSON.stringify(archive))).toEqual(archive);
+        });
+
+        it('should reject files that are not Stridr exports', () => {
+            expect(() => ImportService.parseArchive('not json')).toThrow('not a valid Stridr export');
+            expect(() => ImportService.parseArchive('{"format":"other"}')).toThrow('not a valid Stridr export');
+        });
+
+        it('should read a version 1 archive without the newer badge fields', () => {
+            const { challengesWon, streak, ...v1 } = buildArchive();
+            const { challengeBadges, streakBadges, lifetimeBadges, badgeUnlocks, ...v1Badges } = v1.badgeHistory;
+            const parsed = ImportService.parseArchive(JSON.stringify({ ...v1, version: 1, badgeHistory: v1Badges }));
+
+            expect(parsed.badgeHistory.badgeUnlocks).toEqual([]);
+            expect(parsed.challengesWon).toEqual([]);
+            expect(parsed.streak).toBeNull();
+        });
+
+        it('should reject a version 2 archive with invalid badge unlocks or streak', () => {
+            const archive = buildArchive();
+            const badUnlock = { ...archive, badgeHistory: { ...archive.badgeHistory, badgeUnlocks: [{ badgeId: 'streak-7' }] } };
+            expect(() => ImportService.parseArchive(JSON.stringify(badUnlock))).toThrow('Entry 1 of the badge unlocks is not valid.');
+
+            const badStreak = { ...archive, streak: { ...archive.streak, current: -1 } };
+            expect(() => ImportService.parseArchive(JSON.stringify(badStreak))).toThrow('streak is not valid');
+        });
+
+        it('should reject archives from a newer format version', () => {
+            const archive = { ...buildArchive(), version: 99 };
+            expect(() => ImportService.parseArchive(JSON.stringify(archive))).toThrow('newer version');
+        });
+
+        it('should name the first invalid entry', () => {
+            const archive = buildArchive();
+            const broken = { ...archive, dailyLogs: [archive.dailyLogs[0], { date: '18/03/2026', steps: 10 }] };
+            expect(() => ImportService.parseArchive(JSON.stringify(broken))).toThrow('Entry 2 of the daily logs is not valid.');
+        });
+    });
+
+    describe('previewImport', () => {
+        it('should count new, updated and unchanged days', () => {
+            const preview = ImportService.previewImport(buildArchive(), progress, existingLogs);
+            expect(preview).toEqual({
+                newDays: 1,
+                updatedDays: 1,
+                unchangedDays: 1,
+                addedSteps: 5000 + 3000,
+                newCompletedTrails: 1,
+                newBadgeMonths: 1,
+                newTrailBadges: 1,
+                newOtherBadges: 3,
+                hasPreferences: true
+            });
+        });
+    });
+
+    describe('applyImport', () => {
+        it('should only write logs that add steps', () => {
+            const result = ImportService.applyImport(buildArchive(), progress, existingLogs);
+            expect(result.dailyLogs.map(l => l.date)).toEqual(['2026-03-18', '2026-03-20']);
+        });
+
+        it('should merge badges, months and completed trails', () => {
+            const { progress: merged } = ImportService.applyImport(buildArchive(), progress, existingLogs);
+            expect(merged.monthlyProgress.stepsThisMonth).toBe(12000);
+            expect(merged.monthlyProgress.unlockedBadgeIds).toEqual(['step-5k', 'step-10k']);
+            expect(merged.pastMonths!.map(m => m.month)).toEqual([2]);
+            expect(merged.trailBadges).toEqual(['trail-1']);
+            expect(merged.completedTrails).toHaveLength(1);
+            expect(merged.stats.completedTrailsCount).toBe(1);
+        });
+
+        it('should restore badges, unlocks, challenge wins and the streak on a fresh install', () => {
+            const parsed = ImportService.parseArchive(JSON.stringify(buildArchive()));
+            const { progress: restored } = ImportService.applyImport(parsed, progress, existingLogs);
+
+            expect(restored.challengeBadges).toEqual(['challenge-1']);
+            expect(restored.streakBadges).toEqual(['streak-7']);
+            expect(restored.lifetimeBadges).toEqual(['early-bird']);
+            expect(restored.badgeUnlocks).toEqual(sourceProgress.badgeUnlocks);
+            expect(restored.challengesWon).toEqual(['ch-1']);
+            expect(restored.streak).toEqual(sourceProgress.streak);
+            expect(restored.currentStreak).toBe(9);
+        });
+
+        it('should keep what the device already has when merging badges and the streak', () => {
+            const local: UserProgress = {
+                ...progress,
+                lifetimeBadges: ['night-owl'],
+                badgeUnlocks: [{ badgeId: 'night-owl', unlockedAt: '2026-03-21T23:00:00.000Z', date: '2026-03-21' }],
+                streak: { ...sourceProgress.streak!, current: 10, longest: 10, coveredThrough: '2026-03-21', frozenDates: [] }
+            };
+            const { progress: merged } = ImportService.applyImport(buildArchive(), local, existingLogs);
+
+            expect(merged.lifetimeBadges).toEqual(['night-owl', 'early-bird']);
+            expect(merged.badgeUnlocks!.map(u => u.badgeId)).toEqual(['streak-7', 'challenge-1', 'night-owl']);
+            expect(merged.streak).toMatchObject({ current: 10, longest: 12, frozenDates: ['2026-03-11'] });
+        });
+
+        it('should not drop lifetime totals below the archive', () => {
+            const { progress: merged } = ImportService.applyImport(buildArchive(), progress, existingLogs);
+            expect(merged.stats.totalStepsLifetime).toBe(50000);
+        });
+
+        it('should add only the missing steps to lifetime totals', () => {
+            const archive = { ...buildArchive(), stats: { ...sourceProgress.stats, totalStepsLifetime: 0 } };
+            const { progress: merged } = ImportService.applyImport(archive, progress, existingLogs);
+            expect(merged.stats.totalStepsLifetime).toBe(10000 + 5000 + 3000);
+        });
+
+        it('should change nothing when the same archive is imported twice', () => {
+            const archive = { ...buildArchive(), stats: { ...sourceProgress.stats, totalStepsLifetime: 0 } };
+            const first = ImportService.applyImport(archive, progress, existingLogs);
+            const logsAfterFirst = [...existingLogs.filter(l => !first.dailyLogs.some(n => n.date === l.date)), ...first.dailyLogs];
+            const second = ImportService.applyImport(archive, first.progress, logsAfterFirst);
+
+            expect(second.dailyLogs).toHaveLength(0);
+            expect(second.progress.stats).toEqual(first.progress.stats);
+            expect(second.progress.completedTrails).toHaveLength(1);
+        });
+    });
+});
@@ -0,0 +1,289 @@
+/**
+ * File: src/services/ImportService.ts
+ * Purpose: Validates exported JSON archives and merges them back into the user's data.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Reads format version 2: challenge, streak and lifetime badges, badge unlocks, challenge wins and the streak.
+ */
+import { BadgeUnlock, CompletedTrail, DailyLog, ExportArchive, MonthlyProgress, StreakState, UserProgress, YearlyProgress } from '../types';
+import { EXPORT_FORMAT_VERSION } from './ExportService';
+import { ProgressMergeService } from './ProgressMergeService';
+import { isDateKey } from '../utils/date';
+
+export interface ImportPreview {
+    newDays: number; // Dates missing locally
+    updatedDays: number; // Dates where the archive has more steps than the local log
+    unchangedDays: number;
+    addedSteps: number; // Steps gained across new and updated days
+    newCompletedTrails: number;
+    newBadgeMonths: number;
+    newTrailBadges: number;
+    newOtherBadges: number; // Challenge, streak and other lifetime badges
+    hasPreferences: boolean;
+}
+
+export interface ImportResult {
+    progress: UserProgress;
+    dailyLogs: DailyLog[]; // Only the logs that need to be written
+}
+
+const isObject = (value: unknown): value is Record<string, any> => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isCount = (value: unknown): value is number => {
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+};
+
+const isIsoDate = (value: unknown): value is string => {
+    return typeof value === 'string' && !isNaN(new Date(value).getTime());
+};
+
+const isStringArray = (value: unknown): value is string[] => {
+    return Array.isArray(value) && value.every(v => typeof v === 'string');
+};
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isOptionalDateKey = (value: unknown): value is string | null => value === null || isDateKey(value);
+
+const isDailyLog = (value: unknown): value is DailyLog => {
+    return isObject(value) && isDateKey(value.date)
+        && isCount(value.steps) && isCount(value.distanceMeters)
+        && (value.timeZone === undefined || typeof value.timeZone === 'string');
+};
+
+const isCompletedTrail = (value: unknown): value is CompletedTrail => {
+    return isObject(value) && typeof value.trailId === 'string'
+        && isIsoDate(value.startDate) && isIsoDate(value.completedDate)
+        && isCount(value.totalSteps) && isCount(value.totalDays)
+        && isCount(value.avgStepsPerDay) && isCount(value.maxStepsInOneDay);
+};
+
+const isMonthlyProgress = (value: unknown): value is MonthlyProgress => {
+    return isObject(value) && Number.isInteger(value.year) && Number.isInteger(value.month)
+        && value.month >= 1 && value.month <= 12
+        && isCount(value.stepsThisMonth) && isCount(value.distanceMetersThisMonth)
+        && isStringArray(value.unlockedBadgeIds) && typeof value.monthlyBadgeEarned === 'boolean';
+};
+
+const isYearlyProgress = (value: unknown): value is YearlyProgress => {
+    return isObject(value) && Number.isInteger(value.year)
+        && Array.isArray(value.monthlyBadgesEarned) && value.monthlyBadgesEarned.every((m: unknown) => Number.isInteger(m))
+        && typeof value.yearlyBadgeEarned === 'boolean';
+};
+
+const isBadgeUnlock = (value: unknown): value is BadgeUnlock => {
+    return isObject(value) && isString(value.badgeId) && isIsoDate(value.unlockedAt)
+        && (value.date === undefined || isDateKey(value.date))
+        && (value.value === undefined || isCount(value.value))
+        && (value.year === undefined || Number.isInteger(value.year))
+        && (value.month === undefined || (Number.isInteger(value.month) && value.month >= 1 && value.month <= 12))
+        && (value.trailId === undefined || isString(value.trailId))
+        && (value.estimated === undefined || typeof value.estimated === 'boolean');
+};
+
+const isStreakState = (value: unknown): value is StreakState => {
+    return isObject(value) && isCount(value.current) && isCount(value.longest)
+        && isOptionalDateKey(value.lastQualifiedDate) && isOptionalDateKey(value.coveredThrough) && isOptionalDateKey(value.dayDate)
+        && isCount(value.daySteps) && isCount(value.freezes) && isCount(value.daysTowardFreeze)
+        && Array.isArray(value.frozenDates) && value.frozenDates.every(isDateKey);
+};
+
+/**
+ * Helper: Throw a readable error naming the first invalid entry of a section
+ */
+const assertEach = <T>(items: unknown, check: (value: unknown) => value is T, section: string): T[] => {
+    if (!Array.isArray(items)) {
+        throw new Error(`The archive is missing its ${section}.`);
+    }
+    const badIndex = items.findIndex(item => !check(item));
+    if (badIndex !== -1) {
+        throw new Error(`Entry ${badIndex + 1} of the ${section} is not valid.`);
+    }
+    return items;
+};
+
+/**
+ * Helper: Like assertEach for a section added in a later format version; older archives have none
+ */
+const assertEachSince = <T>(version: number, since: number, items: unknown, check: (value: unknown) => value is T, section: string): T[] => {
+    return version < since && items === undefined ? [] : assertEach(items, check, section);
+};
+
+const union = (a: string[] = [], b: string[] = []): string[] => Array.from(new Set([...a, ...b]));
+
+const monthIndex = (mp: MonthlyProgress): number => mp.year * 12 + mp.month;
+
+export const ImportService = {
+    /**
+     * Parse and validate the contents of an exported JSON file.
+     * Throws an Error with a user-facing message when the file cannot be imported.
+     */
+    parseArchive(raw: string): ExportArchive {
+        let data: unknown;
+        try {
+            data = JSON.parse(raw);
+        } catch {
+            throw new Error('This file is not a valid Stridr export.');
+        }
+
+        if (!isObject(data) || data.format !== 'stridr-export') {
+            throw new Error('This file is not a valid Stridr export.');
+        }
+        if (!Number.isInteger(data.version) || data.version > EXPORT_FORMAT_VERSION) {
+            throw new Error('This export was made by a newer version of Stridr. Please update the app and try again.');
+        }
+        if (!isObject(data.stats) || !isCount(data.stats.totalStepsLifetime)
+            || !isCount(data.stats.totalDistanceMetersLifetime) || !isCount(data.stats.completedTrailsCount)) {
+            throw new Error('The archive is missing its lifetime stats.');
+        }
+        if (!isObject(data.badgeHistory)) {
+            throw new Error('The archive is missing its badge history.');
+        }
+        if (data.streak !== undefined && data.streak !== null && !isStreakState(data.streak)) {
+            throw new Error('The archive\'s streak is not valid.');
+        }
+        const version: number = data.version;
+
+        return {
+            format: 'stridr-export',
+            version: data.version,
+            exportedAt: isIsoDate(data.exportedAt) ? data.exportedAt : new Date(0).toISOString(),
+            range: isObject(data.range)
+                ? { startDate: data.range.startDate ?? null, endDate: data.range.endDate ?? null }
+                : { startDate: null, endDate: null },
+            distanceUnit: data.distanceUnit === 'mi' ? 'mi' : 'km',
+            stats: {
+                totalStepsLifetime: data.stats.totalStepsLifetime,
+                totalDistanceMetersLifetime: data.stats.totalDistanceMetersLifetime,
+                completedTrailsCount: data.stats.completedTrailsCount
+            },
+            dailyLogs: assertEach(data.dailyLogs, isDailyLog, 'daily logs'),
+            completedTrails: assertEach(data.completedTrails, isCompletedTrail, 'completed trails'),
+            badgeHistory: {
+                months: assertEach(data.badgeHistory.months, isMonthlyProgress, 'badge months'),
+                yearlyProgress: assertEach(data.badgeHistory.yearlyProgress, isYearlyProgress, 'yearly badges'),
+                trailBadges: assertEach(data.badgeHistory.trailBadges, isString, 'trail badges'),
+                challengeBadges: assertEachSince(version, 2, data.badgeHistory.challengeBadges, isString, 'challenge badges'),
+                streakBadges: assertEachSince(version, 2, data.badgeHistory.streakBadges, isString, 'streak badges'),
+                lifetimeBadges: assertEachSince(version, 2, data.badgeHistory.lifetimeBadges, isString, 'lifetime badges'),
+                badgeUnlocks: assertEachSince(version, 2, data.badgeHistory.badgeUnlocks, isBadgeUnlock, 'badge unlocks')
+            },
+            challengesWon: assertEachSince(version, 2, data.challengesWon, isString, 'challenge wins'),
+            streak: isStreakState(data.streak) ? data.streak : null,
+            preferences: isObject(data.preferences) ? data.preferences : null
+        };
+    },
+
+    /**
+     * Describe what importing the archive would change, without changing anything
+     */
+    previewImport(archive: ExportArchive, progress: UserProgress, existingLogs: DailyLog[]): ImportPreview {
+        const existingByDate = new Map(existingLogs.map(log => [log.date, log]));
+        let newDays = 0;
+        let updatedDays = 0;
+        let unchangedDays = 0;
+        let addedSteps = 0;
+
+        for (const log of archive.dailyLogs) {
+            const existing = existingByDate.get(log.date);
+            if (!existing) {
+                newDays++;
+                addedSteps += log.steps;
+            } else if (log.steps > existing.steps) {
+                updatedDays++;
+                addedSteps += log.steps - existing.steps;
+            } else {
+                unchangedDays++;
+            }
+        }
+
+        const knownTrails = new Set((progress.completedTrails || []).map(ct => `${ct.trailId}|${ct.completedDate}`));
+        const knownMonths = new Set([...(progress.pastMonths || []), progress.monthlyProgress].filter(Boolean).map(monthIndex));
+        const knownTrailBadges = new Set(progress.trailBadges || []);
+        const knownOtherBadges = new Set([...(progress.challengeBadges || []), ...(progress.streakBadges || []), ...(progress.lifetimeBadges || [])]);
+        const { challengeBadges, streakBadges, lifetimeBadges } = archive.badgeHistory;
+
+        return {
+            newDays,
+            updatedDays,
+            unchangedDays,
+            addedSteps,
+            newCompletedTrails: archive.completedTrails.filter(ct => !knownTrails.has(`${ct.trailId}|${ct.completedDate}`)).length,
+            newBadgeMonths: archive.badgeHistory.months.filter(mp => !knownMonths.has(monthIndex(mp))
+                && (!progress.monthlyProgress || monthIndex(mp) < monthIndex(progress.monthlyProgress))).length,
+            newTrailBadges: archive.badgeHistory.trailBadges.filter(id => !knownTrailBadges.has(id)).length,
+            newOtherBadges: new Set([...challengeBadges, ...streakBadges, ...lifetimeBadges].filter(id => !knownOtherBadges.has(id))).size,
+            hasPreferences: archive.preferences !== null
+        };
+    },
+
+    /**
+     * Merge an archive into the user's progress and daily logs.
+     *
+     * A day already logged keeps whichever copy has more steps, so re-importing the same
+     * archive changes nothing. Lifetime totals grow only by the steps the archive adds on
+     * missing or incomplete days, and never drop below the archive's own totals.
+     */
+    applyImport(archive: ExportArchive, progress: UserProgress, existingLogs: DailyLog[]): ImportResult {
+        const existingByDate = new Map(existingLogs.map(log => [log.date, log]));
+        const dailyLogs: DailyLog[] = [];
+        let addedSteps = 0;
+        let addedDistance = 0;
+
+        for (const log of archive.dailyLogs) {
+            const existing = existingByDate.get(log.date);
+            if (!existing || log.steps > existing.steps) {
+                addedSteps += log.steps - (existing?.steps || 0);
+                addedDistance += Math.max(0, log.distanceMeters - (existing?.distanceMeters || 0));
+                dailyLogs.push(log);
+            }
+        }
+
+        // Archived months merge into the current month when they match, otherwise into history
+        let monthlyProgress = progress.monthlyProgress;
+        const pastArchive: MonthlyProgress[] = [];
+        for (const mp of archive.badgeHistory.months) {
+            if (monthlyProgress && monthIndex(mp) === monthIndex(monthlyProgress)) {
+                monthlyProgress = ProgressMergeService.mergeMonthlyProgress(monthlyProgress, mp);
+            } else if (!monthlyProgress || monthIndex(mp) < monthIndex(monthlyProgress)) {
+                pastArchive.push(mp);
+            }
+        }
+
+        const completedTrails = ProgressMergeService.mergeCompletedTrails(progress.completedTrails, archive.completedTrails);
+        const streak = ProgressMergeService.mergeStreak(progress.streak, archive.streak ?? undefined);
+
+        return {
+            progress: {
+                ...progress,
+                stats: {
+                    totalStepsLifetime: Math.max(
+                        (progress.stats?.totalStepsLifetime || 0) + addedSteps,
+                        archive.stats.totalStepsLifetime
+                    ),
+                    totalDistanceMetersLifetime: Math.max(
+                        (progress.stats?.totalDistanceMetersLifetime || 0) + addedDistance,
+                        archive.stats.totalDistanceMetersLifetime
+                    ),
+                    completedTrailsCount: completedTrails.length
+                },
+                monthlyProgress,
+                pastMonths: ProgressMergeService.mergePastMonths(progress.pastMonths, pastArchive),
+                yearlyProgress: ProgressMergeService.mergeYearlyProgress(progress.yearlyProgress, archive.badgeHistory.yearlyProgress),
+                trailBadges: union(progress.trailBadges, archive.badgeHistory.trailBadges),
+                challengeBadges: union(progress.challengeBadges, archive.badgeHistory.challengeBadges),
+                streakBadges: union(progress.streakBadges, archive.badgeHistory.streakBadges),
+                lifetimeBadges: union(progress.lifetimeBadges, archive.badgeHistory.lifetimeBadges),
+                badgeUnlocks: ProgressMergeService.mergeBadgeUnlocks(progress.badgeUnlocks, archive.badgeHistory.badgeUnlocks),
+                challengesWon: union(progress.challengesWon, archive.challengesWon),
+                completedTrails,
+                ...(streak ? { streak, currentStreak: streak.current } : {})
+            },
+            dailyLogs
+        };
+    }
+};
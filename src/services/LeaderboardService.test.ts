@@ -0,0 +1,107 @@
+/**
+ * File: src/services/LeaderboardService.test.ts
+ * Purpose: Unit tests for LeaderboardService.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import { LeaderboardEntry, LeaderboardService } from './LeaderboardService';
+import { CompletedTrail, DailyLog, PeriodTotals } from '../types';
+
+const completed = (completedDate: string): CompletedTrail => ({
+    trailId: 'test-trail',
+    completedDate,
+    startDate: '2026-02-01',
+    totalSteps: 10000,
+    totalDays: 5,
+    avgStepsPerDay: 2000,
+    maxStepsInOneDay: 4000
+});
+
+const totals = (steps: number, distanceMeters: number, trailsCompleted: number, periodKey = '2026-03-01'): PeriodTotals =>
+    ({ periodKey, steps, distanceMeters, trailsCompleted });
+
+const entry = (userId: string, name: string, periodTotals: PeriodTotals | null): LeaderboardEntry =>
+    ({ profile: { userId, name }, totals: periodTotals });
+
+describe('LeaderboardService', () => {
+    describe('periods', () => {
+        it('should start weeks on Sunday', () => {
+            expect(LeaderboardService.getPeriodKey('week', '2026-03-04')).toBe('2026-03-01'); // Wednesday
+            expect(LeaderboardService.getPeriodKey('week', '2026-03-01')).toBe('2026-03-01');
+            expect(LeaderboardService.getPeriodKey('week', '2026-03-07')).toBe('2026-03-01');
+        });
+
+        it('should key months by year and month', () => {
+            expect(LeaderboardService.getPeriodKey('month', '2026-03-31')).toBe('2026-03');
+        });
+
+        it('should find the first and last day of a period', () => {
+            expect(LeaderboardService.getPeriodRange('week', '2026-03-04')).toEqual({ start: '2026-03-01', end: '2026-03-07' });
+            expect(LeaderboardService.getPeriodRange('month', '2026-02-10')).toEqual({ start: '2026-02-01', end: '2026-02-28' });
+            expect(LeaderboardService.getPeriodRange('month', '2026-12-31')).toEqual({ start: '2026-12-01', end: '2026-12-31' });
+        });
+    });
+
+    describe('computePeriodTotals', () => {
+        const logs: DailyLog[] = [
+            { date: '2026-02-28', steps: 9000, distanceMeters: 6858 }, // Saturday of the previous week
+            { date: '2026-03-01', steps: 5000, distanceMeters: 3810 },
+            { date: '2026-03-04', steps: 7000, distanceMeters: 5334 },
+            { date: '2026-03-08', steps: 1000, distanceMeters: 762 } // Next week
+        ];
+        const trails = [completed('2026-03-03'), completed('2026-02-27')];
+
+        it('should only count days inside the week', () => {
+            expect(LeaderboardService.computePeriodTotals('week', logs, trails, '2026-03-04'))
+                .toEqual(totals(12000, 9144, 1));
+        });
+
+        it('should only count days inside the month', () => {
+            expect(LeaderboardService.computePeriodTotals('month', logs, trails, '2026-03-04'))
+                .toEqual(totals(13000, 9906, 1, '2026-03'));
+        });
+    });
+
+    describe('buildLeaderboard', () => {
+        it('should rank by the chosen metric', () => {
+            const rows = LeaderboardService.buildLeaderboard([
+                entry('a', 'Alex', totals(5000, 4000, 0)),
+                entry('b', 'Blair', totals(9000, 6000, 0)),
+                entry('c', 'Casey', totals(7000, 8000, 1))
+            ], 'distance', '2026-03-01', 'a');
+
+            expect(rows.map(r => [r.userId, r.rank, r.value])).toEqual([['c', 1, 8000], ['b', 2, 6000], ['a', 3, 4000]]);
+            expect(LeaderboardService.getCurrentUserRow(rows)).toMatchObject({ userId: 'a', rank: 3 });
+        });
+
+        it('should break ties with the other metrics', () => {
+            const rows = LeaderboardService.buildLeaderboard([
+                entry('a', 'Alex', totals(5000, 4000, 1)),
+                entry('b', 'Blair', totals(9000, 6000, 1))
+            ], 'trails', '2026-03-01', 'a');
+
+            expect(rows.map(r => [r.userId, r.rank])).toEqual([['b', 1], ['a', 2]]);
+        });
+
+        it('should share a rank on an exact tie and list tied users by name', () => {
+            const rows = LeaderboardService.buildLeaderboard([
+                entry('c', 'Casey', totals(1000, 800, 0)),
+                entry('b', 'Blair', totals(5000, 4000, 0)),
+                entry('a', 'Alex', totals(5000, 4000, 0))
+            ], 'steps', '2026-03-01', 'a');
+
+            expect(rows.map(r => [r.name, r.rank])).toEqual([['Alex', 1], ['Blair', 1], ['Casey', 3]]);
+        });
+
+        it('should count totals from another period or not shared as zero', () => {
+            const rows = LeaderboardService.buildLeaderboard([
+                entry('a', 'Alex', totals(100, 80, 0)),
+                entry('b', 'Blair', totals(9000, 6000, 0, '2026-02-22')),
+                entry('c', 'Casey', null)
+            ], 'steps', '2026-03-01', 'a');
+
+            expect(rows.map(r => [r.userId, r.rank, r.value])).toEqual([['a', 1, 100], ['b', 2, 0], ['c', 2, 0]]);
+            expect(rows[1].totals).toEqual(totals(0, 0, 0));
+        });
+    });
+});
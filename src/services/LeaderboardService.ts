@@ -0,0 +1,124 @@
+/**
+ * File: src/services/LeaderboardService.ts
+ * Purpose: Aggregates DailyLogs into weekly/monthly totals and ranks users on them.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Everything here is pure: each user aggregates their own logs on device and publishes the totals,
+ * so leaderboards work against the Firestore emulator without any server-side functions.
+ */
+import { CompletedTrail, DailyLog, LeaderboardMetric, LeaderboardPeriod, LeaderboardRow, PeriodTotals, PublicProfile } from '../types';
+import { addDays, DateKey, parseDateKey, toDateKey } from '../utils/date';
+
+export interface LeaderboardEntry {
+    profile: PublicProfile;
+    totals: PeriodTotals | null; // null: nothing shared for this period
+}
+
+const METRIC_VALUE: Record<LeaderboardMetric, (totals: PeriodTotals) => number> = {
+    steps: totals => totals.steps,
+    distance: totals => totals.distanceMeters,
+    trails: totals => totals.trailsCompleted,
+};
+
+// Ties on the ranked metric are broken by the others, in this order
+const TIE_BREAKERS: Record<LeaderboardMetric, LeaderboardMetric[]> = {
+    steps: ['distance', 'trails'],
+    distance: ['steps', 'trails'],
+    trails: ['steps', 'distance'],
+};
+
+export const LeaderboardService = {
+    /**
+     * Key of the week (its Sunday) or month containing a local day
+     */
+    getPeriodKey(period: LeaderboardPeriod, day: DateKey): string {
+        if (period === 'month') return day.slice(0, 7);
+        return addDays(day, -parseDateKey(day).getDay());
+    },
+
+    /**
+     * First and last local day of the period containing `day`
+     */
+    getPeriodRange(period: LeaderboardPeriod, day: DateKey): { start: DateKey; end: DateKey } {
+        if (period === 'week') {
+            const start = this.getPeriodKey('week', day);
+            return { start, end: addDays(start, 6) };
+        }
+        const start = `${day.slice(0, 7)}-01`;
+        const nextMonth = parseDateKey(start);
+        nextMonth.setMonth(nextMonth.getMonth() + 1);
+        return { start, end: addDays(toDateKey(nextMonth), -1) };
+    },
+
+    /**
+     * Sum the user's DailyLogs and trail completions for the period containing `today`
+     */
+    computePeriodTotals(period: LeaderboardPeriod, logs: DailyLog[], completedTrails: CompletedTrail[], today: DateKey): PeriodTotals {
+        const { start, end } = this.getPeriodRange(period, today);
+        const inPeriod = (day: DateKey) => day >= start && day <= end;
+
+        const totals: PeriodTotals = {
+            periodKey: this.getPeriodKey(period, today),
+            steps: 0,
+            distanceMeters: 0,
+            trailsCompleted: 0
+        };
+        for (const log of logs) {
+            if (!inPeriod(log.date)) continue;
+            totals.steps += log.steps;
+            totals.distanceMeters += log.distanceMeters;
+        }
+        totals.trailsCompleted = completedTrails.filter(ct => inPeriod(toDateKey(ct.completedDate))).length;
+        return totals;
+    },
+
+    /**
+     * Rank users on a metric. Totals from another period (a friend who has not synced this week)
+     * count as zero. Users tied on the metric and every tie-breaker share a rank and are listed by name.
+     */
+    buildLeaderboard(
+        entries: LeaderboardEntry[],
+        metric: LeaderboardMetric,
+        periodKey: string,
+        currentUserId: string
+    ): LeaderboardRow[] {
+        const order = [metric, ...TIE_BREAKERS[metric]];
+        const rows = entries.map(({ profile, totals }) => {
+            const current: PeriodTotals = totals && totals.periodKey === periodKey
+                ? totals
+                : { periodKey, steps: 0, distanceMeters: 0, trailsCompleted: 0 };
+            return {
+                userId: profile.userId,
+                name: profile.name,
+                ...(profile.profileImage ? { profileImage: profile.profileImage } : {}),
+                rank: 0,
+                value: METRIC_VALUE[metric](current),
+                totals: current,
+                isCurrentUser: profile.userId === currentUserId
+            };
+        });
+
+        const compare = (a: LeaderboardRow, b: LeaderboardRow): number => {
+            for (const m of order) {
+                const diff = METRIC_VALUE[m](b.totals) - METRIC_VALUE[m](a.totals);
+                if (diff !== 0) return diff;
+            }
+            return 0;
+        };
+        rows.sort((a, b) => compare(a, b) || a.name.localeCompare(b.name));
+
+        rows.forEach((row, index) => {
+            const previous = rows[index - 1];
+            row.rank = previous && compare(previous, row) === 0 ? previous.rank : index + 1;
+        });
+        return rows;
+    },
+
+    /**
+     * The current user's row, if they are on the board
+     */
+    getCurrentUserRow(rows: LeaderboardRow[]): LeaderboardRow | undefined {
+        return rows.find(row => row.isCurrentUser);
+    }
+};
@@ -6,6 +6,8 @@
  *
  * Modification History:
  * 2024-01-12: Initial creation with all notification types.
+ * 2026-10-19: Inactivity is measured in local calendar days.
+ * 2026-10-19: Inactivity check reads the signed-in user's preferences.
  */
 import * as Notifications from 'expo-notifications';
 import * as Device from 'expo-device';
@@ -14,6 +16,7 @@ import * as TaskManager from 'expo-task-manager';
 import { Platform } from 'react-native';
 import { StorageService } from './StorageService';
 import { ReminderTime } from '../context/PreferencesContext';
+import { daysBetween, toLocalDateKey } from '../utils/date';
 
 // Background task name
 const INACTIVITY_CHECK_TASK = 'INACTIVITY_CHECK_TASK';
@@ -221,7 +224,7 @@ export const NotificationService = {
             if (!userId) return;
 
             const progress = await StorageService.getProgress(userId);
-            const prefs = await StorageService.getPreferences();
+            const prefs = await StorageService.getPreferences(userId);
 
             if (!progress || !prefs) return;
             if (!prefs.notificationsEnabled || !prefs.notificationSettings?.inactivityNudge) return;
@@ -229,10 +232,7 @@ export const NotificationService = {
             const lastLogDate = progress.lastLogDate;
             if (!lastLogDate) return;
 
-            const today = new Date();
-            const lastLog = new Date(lastLogDate);
-            const diffTime = Math.abs(today.getTime() - lastLog.getTime());
-            const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
+            const diffDays = daysBetween(lastLogDate, toLocalDateKey());
 
             if (diffDays >= 3) {
                 await this.sendInactivityNudge(diffDays);
@@ -0,0 +1,343 @@
+/**
+ * File: src/services/OrganizationService.ts
+ * Purpose: Firestore access for workplace wellness organizations: creating and joining them by code,
+ * admin-managed teams and roles, and members' published totals.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Totals go to an owner-only document and are added to team and organization aggregates;
+ * joining writes the join code the security rules check.
+ */
+import {
+    arrayRemove, arrayUnion, collection, deleteDoc, deleteField, doc, getDoc, getDocs, increment, query,
+    runTransaction, setDoc, Transaction, updateDoc, where, writeBatch
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { Organization, OrgAggregate, OrgMember, OrgMemberTotals, OrgTeam } from '../types';
+import { ProfileSource, toPublicProfile } from './FriendService';
+import { FriendSharingService } from './FriendSharingService';
+import { MAX_ORG_MEMBERS, MAX_ORG_TEAMS, MemberContribution, OrganizationStatsService } from './OrganizationStatsService';
+import { withRemote } from '../utils/async';
+import { toLocalDateKey } from '../utils/date';
+
+const JOIN_CODE_ATTEMPTS = 5;
+
+export interface OrganizationDetails {
+    organization: Organization;
+    teams: OrgTeam[]; // By name
+    members: OrgMember[]; // By name
+    aggregates: OrgAggregate[]; // Current week and month, for the organization and each team
+    myTotals: OrgMemberTotals | null; // What the user has added to the aggregates, null if nothing yet
+}
+
+const organizationRef = (organizationId: string) => doc(db, 'organizations', organizationId);
+const memberRef = (organizationId: string, userId: string) => doc(db, 'organizations', organizationId, 'members', userId);
+const memberTotalsRef = (organizationId: string, userId: string) =>
+    doc(db, 'organizations', organizationId, 'members', userId, 'private', 'totals');
+const teamRef = (organizationId: string, teamId: string) => doc(db, 'organizations', organizationId, 'teams', teamId);
+const aggregateRef = (organizationId: string, aggregate: OrgAggregate) => doc(
+    db, 'organizations', organizationId, 'aggregates',
+    OrganizationStatsService.getAggregateId(aggregate.groupId, aggregate.period, aggregate.periodKey)
+);
+
+const toNewMember = (user: ProfileSource, joinCode: string, now: string): OrgMember => ({
+    ...toPublicProfile(user),
+    teamId: null,
+    joinCode,
+    joinedAt: now,
+    updatedAt: now
+});
+
+/**
+ * Helper: Apply aggregate changes inside a transaction. Increments keep concurrent publishes from
+ * overwriting each other.
+ */
+const applyAggregateChanges = (transaction: Transaction, organizationId: string, changes: OrgAggregate[]) => {
+    for (const change of changes) {
+        transaction.set(aggregateRef(organizationId, change), {
+            groupId: change.groupId,
+            period: change.period,
+            periodKey: change.periodKey,
+            steps: increment(change.steps),
+            distanceMeters: increment(change.distanceMeters),
+            activeMembers: increment(change.activeMembers)
+        }, { merge: true });
+    }
+};
+
+const byName = <T extends { name: string }>(a: T, b: T) => a.name.localeCompare(b.name);
+
+export const OrganizationService = {
+    /**
+     * Create an organization with the creator as its only member and admin
+     */
+    async createOrganization(creator: ProfileSource, name: string): Promise<Organization> {
+        const orgRef = doc(collection(db, 'organizations'));
+
+        for (let attempt = 0; attempt < JOIN_CODE_ATTEMPTS; attempt++) {
+            const code = FriendSharingService.generateInviteCode();
+            const codeRef = doc(db, 'organizationInvites', code);
+            const taken = await withRemote(getDoc(codeRef), 'Check organization code');
+            if (taken.exists()) continue;
+
+            const now = new Date().toISOString();
+            const organization: Organization = {
+                id: orgRef.id,
+                name: name.trim(),
+                createdBy: creator.id,
+                adminIds: [creator.id],
+                memberIds: [creator.id],
+                joinCode: code,
+                createdAt: now
+            };
+
+            // Security rules read the organization to check roles, so it has to exist before the rest
+            await withRemote(setDoc(orgRef, organization), 'Create organization');
+            const batch = writeBatch(db);
+            batch.set(codeRef, { organizationId: organization.id });
+            batch.set(memberRef(organization.id, creator.id), toNewMember(creator, code, now));
+            await withRemote(batch.commit(), 'Create organization');
+            if (__DEV__) console.log(`[OrganizationService] Created organization ${organization.id}`);
+            return organization;
+        }
+        throw new Error('Could not create an organization code. Please try again.');
+    },
+
+    /**
+     * The id of the organization a join code belongs to. Only members can read the organization
+     * itself, so this is all there is to see before joining.
+     */
+    async findByCode(code: string): Promise<string | null> {
+        if (!FriendSharingService.isInviteCode(code)) {
+            throw new Error('Organization codes are 8 characters, like K7QH-2MXD.');
+        }
+        const codeSnap = await withRemote(getDoc(doc(db, 'organizationInvites', FriendSharingService.normalizeInviteCode(code))), 'Find organization');
+        return codeSnap.exists() ? codeSnap.data().organizationId : null;
+    },
+
+    /**
+     * The organization document, or null if it has been deleted or the user is not a member
+     */
+    async getOrganization(organizationId: string): Promise<Organization | null> {
+        // Only members can read it, which for a deleted organization or a removed member means a rejection
+        const read = getDoc(organizationRef(organizationId)).catch(error => {
+            if (error?.code === 'permission-denied') return null;
+            throw error;
+        });
+        const snap = await withRemote(read, 'Fetch organization');
+        return snap?.exists() ? snap.data() as Organization : null;
+    },
+
+    /**
+     * The organization with its teams, members and aggregates. Null if it no longer exists or the user was removed.
+     */
+    async getDetails(organizationId: string, userId: string): Promise<OrganizationDetails | null> {
+        const organization = await this.getOrganization(organizationId);
+        if (!organization || !organization.memberIds.includes(userId)) return null;
+
+        const periodKeys = Object.values(OrganizationStatsService.getPeriodKeys(toLocalDateKey()));
+        const [teamsSnap, membersSnap, aggregatesSnap, myTotalsSnap] = await Promise.all([
+            withRemote(getDocs(collection(db, 'organizations', organizationId, 'teams')), 'Fetch teams'),
+            withRemote(getDocs(collection(db, 'organizations', organizationId, 'members')), 'Fetch members'),
+            withRemote(getDocs(query(
+                collection(db, 'organizations', organizationId, 'aggregates'),
+                where('periodKey', 'in', periodKeys)
+            )), 'Fetch organization totals'),
+            withRemote(getDoc(memberTotalsRef(organizationId, userId)), 'Fetch your organization totals')
+        ]);
+        return {
+            organization,
+            teams: teamsSnap.docs.map(d => d.data() as OrgTeam).sort(byName),
+            members: membersSnap.docs.map(d => d.data() as OrgMember).sort(byName),
+            aggregates: aggregatesSnap.docs.map(d => d.data() as OrgAggregate),
+            myTotals: myTotalsSnap.exists() ? myTotalsSnap.data() as OrgMemberTotals : null
+        };
+    },
+
+    /**
+     * Add the user to an organization with its join code. They start without a team until an admin
+     * assigns one. The security rules check the code and the member limit.
+     */
+    async joinOrganization(user: ProfileSource, organizationId: string, code: string): Promise<void> {
+        const batch = writeBatch(db);
+        batch.update(organizationRef(organizationId), { memberIds: arrayUnion(user.id) });
+        batch.set(memberRef(organizationId, user.id), toNewMember(user, FriendSharingService.normalizeInviteCode(code), new Date().toISOString()));
+        const committed = batch.commit().then(() => true, error => {
+            if (error?.code === 'permission-denied') return false;
+            throw error;
+        });
+        if (!await withRemote(committed, 'Join organization')) {
+            throw new Error(`Could not join. The organization may be full (up to ${MAX_ORG_MEMBERS} members) or the code may have changed.`);
+        }
+    },
+
+    /**
+     * Remove the user from an organization. The last admin has to hand over first, unless they
+     * are the last member, in which case the organization is deleted.
+     */
+    async leaveOrganization(userId: string, organization: Organization): Promise<void> {
+        const others = organization.memberIds.filter(id => id !== userId);
+        if (others.length === 0) {
+            await this.deleteOrganization(organization);
+            return;
+        }
+        if (organization.adminIds.length === 1 && organization.adminIds[0] === userId) {
+            throw new Error('Make someone else an admin before you leave.');
+        }
+
+        // Totals and the member document go first: removing them needs the user to still be a member
+        await this.withdrawTotals(organization.id, userId);
+        await withRemote(deleteDoc(memberRef(organization.id, userId)), 'Leave organization');
+        await withRemote(updateDoc(organizationRef(organization.id), {
+            memberIds: arrayRemove(userId),
+            adminIds: arrayRemove(userId)
+        }), 'Leave organization');
+    },
+
+    /**
+     * Delete an empty organization with its teams, aggregates and join code
+     */
+    async deleteOrganization(organization: Organization): Promise<void> {
+        const [teamsSnap, membersSnap, aggregatesSnap] = await Promise.all([
+            withRemote(getDocs(collection(db, 'organizations', organization.id, 'teams')), 'Fetch teams'),
+            withRemote(getDocs(collection(db, 'organizations', organization.id, 'members')), 'Fetch members'),
+            withRemote(getDocs(collection(db, 'organizations', organization.id, 'aggregates')), 'Fetch organization totals')
+        ]);
+        const batch = writeBatch(db);
+        teamsSnap.docs.forEach(d => batch.delete(d.ref));
+        // Only the last member is left, and their totals are the only ones they can delete
+        membersSnap.docs.forEach(d => batch.delete(d.ref));
+        membersSnap.docs.forEach(d => batch.delete(memberTotalsRef(organization.id, d.id)));
+        aggregatesSnap.docs.forEach(d => batch.delete(d.ref));
+        batch.delete(doc(db, 'organizationInvites', organization.joinCode));
+        await withRemote(batch.commit(), 'Delete organization');
+        await withRemote(deleteDoc(organizationRef(organization.id)), 'Delete organization');
+    },
+
+    /**
+     * Replace what the user adds to the aggregates, and refresh their name on the roster. The totals
+     * document and the aggregate changes are written together, so they cannot drift apart.
+     */
+    async publishTotals(user: ProfileSource, organizationId: string, contribution: MemberContribution): Promise<void> {
+        const profile = toPublicProfile(user);
+        const now = new Date().toISOString();
+        const periodKeys = OrganizationStatsService.getPeriodKeys(toLocalDateKey());
+
+        await withRemote(runTransaction(db, async transaction => {
+            const snap = await transaction.get(memberTotalsRef(organizationId, user.id));
+            const previous = snap.exists() ? snap.data() as OrgMemberTotals : null;
+
+            applyAggregateChanges(transaction, organizationId, OrganizationStatsService.getAggregateChanges(previous, contribution, periodKeys));
+            const totals: OrgMemberTotals = {
+                teamId: contribution.teamId,
+                periodTotals: contribution.periodTotals,
+                version: (previous?.version ?? 0) + 1,
+                updatedAt: now
+            };
+            transaction.set(memberTotalsRef(organizationId, user.id), totals);
+            transaction.update(memberRef(organizationId, user.id), {
+                name: profile.name,
+                ...(profile.profileImage ? { profileImage: profile.profileImage } : {}),
+                periodTotals: deleteField(), // Left on the roster by earlier versions
+                updatedAt: now
+            });
+        }), 'Publish organization totals');
+    },
+
+    /**
+     * Take the user's totals out of this week's and month's aggregates and delete them, before leaving.
+     * Earlier periods keep what they added.
+     */
+    async withdrawTotals(organizationId: string, userId: string): Promise<void> {
+        const periodKeys = OrganizationStatsService.getPeriodKeys(toLocalDateKey());
+        await withRemote(runTransaction(db, async transaction => {
+            const snap = await transaction.get(memberTotalsRef(organizationId, userId));
+            if (!snap.exists()) return;
+
+            applyAggregateChanges(transaction, organizationId, OrganizationStatsService.getAggregateChanges(snap.data() as OrgMemberTotals, null, periodKeys));
+            transaction.delete(memberTotalsRef(organizationId, userId));
+        }), 'Withdraw organization totals');
+    },
+
+    /**
+     * Admin: add a team
+     */
+    async createTeam(organizationId: string, name: string, existingCount: number): Promise<OrgTeam> {
+        if (existingCount >= MAX_ORG_TEAMS) {
+            throw new Error(`Organizations can have up to ${MAX_ORG_TEAMS} teams.`);
+        }
+        const ref = doc(collection(db, 'organizations', organizationId, 'teams'));
+        const team: OrgTeam = { id: ref.id, name: name.trim(), createdAt: new Date().toISOString() };
+        await withRemote(setDoc(ref, team), 'Create team');
+        return team;
+    },
+
+    /**
+     * Admin: delete a team. Its members stay in the organization without a team.
+     */
+    async deleteTeam(organizationId: string, teamId: string, members: OrgMember[]): Promise<void> {
+        const batch = writeBatch(db);
+        members
+            .filter(m => m.teamId === teamId)
+            .forEach(m => batch.update(memberRef(organizationId, m.userId), { teamId: null }));
+        batch.delete(teamRef(organizationId, teamId));
+        await withRemote(batch.commit(), 'Delete team');
+    },
+
+    /**
+     * Admin: move a member to a team, or take them off every team
+     */
+    async assignTeam(organizationId: string, userId: string, teamId: string | null): Promise<void> {
+        await withRemote(updateDoc(memberRef(organizationId, userId), { teamId }), 'Assign team');
+    },
+
+    /**
+     * Admin: grant or remove admin rights. There is always at least one admin.
+     */
+    async setAdmin(organization: Organization, userId: string, isAdmin: boolean): Promise<void> {
+        if (!isAdmin && organization.adminIds.length === 1 && organization.adminIds[0] === userId) {
+            throw new Error('An organization needs at least one admin.');
+        }
+        await withRemote(updateDoc(organizationRef(organization.id), {
+            adminIds: isAdmin ? arrayUnion(userId) : arrayRemove(userId)
+        }), 'Update admins');
+    },
+
+    /**
+     * Admin: remove someone from the organization. What they added to this period's aggregates stays
+     * until the period ends, since only they can read their totals.
+     */
+    async removeMember(organizationId: string, userId: string): Promise<void> {
+        const batch = writeBatch(db);
+        batch.delete(memberRef(organizationId, userId));
+        batch.update(organizationRef(organizationId), { memberIds: arrayRemove(userId), adminIds: arrayRemove(userId) });
+        await withRemote(batch.commit(), 'Remove member');
+    },
+
+    /**
+     * Leave the user's organization (used when deleting the account). A sole admin hands
+     * admin rights to the longest-standing member instead of blocking the deletion.
+     */
+    async leaveAll(userId: string, organizationId: string | null | undefined): Promise<void> {
+        if (!organizationId) return;
+        const details = await this.getDetails(organizationId, userId);
+        if (!details) return;
+
+        const { organization, members } = details;
+        if (organization.memberIds.length === 1) {
+            await this.deleteOrganization(organization);
+            return;
+        }
+        if (organization.adminIds.length === 1 && organization.adminIds[0] === userId) {
+            const successor = members
+                .filter(m => m.userId !== userId && organization.memberIds.includes(m.userId))
+                .sort((a, b) => a.joinedAt.localeCompare(b.joinedAt))[0];
+            if (successor) {
+                await withRemote(updateDoc(organizationRef(organization.id), { adminIds: arrayUnion(successor.userId) }), 'Update admins');
+            }
+        }
+        await this.withdrawTotals(organization.id, userId);
+        await this.removeMember(organization.id, userId);
+    }
+};
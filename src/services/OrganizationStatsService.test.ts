@@ -0,0 +1,206 @@
+/**
+ * File: src/services/OrganizationStatsService.test.ts
+ * Purpose: Unit tests for OrganizationStatsService.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import { MemberContribution, OrganizationStatsService } from './OrganizationStatsService';
+import { Organization, OrgAggregate, OrgMember, OrgTeam } from '../types';
+
+const WEEK = '2026-03-01';
+const PERIOD_KEYS = { week: WEEK, month: '2026-03' };
+
+const organization: Organization = {
+    id: 'org-1',
+    name: 'Acme, Inc.',
+    createdBy: 'sam',
+    adminIds: ['sam'],
+    memberIds: [],
+    joinCode: 'K7QH2MXD',
+    createdAt: '2026-02-01T09:00:00.000Z'
+};
+
+const team = (id: string, name: string): OrgTeam => ({ id, name, createdAt: '2026-02-01T09:00:00.000Z' });
+
+const contribution = (teamId: string | null, steps: number, periodKey = WEEK): MemberContribution => ({
+    teamId,
+    periodTotals: {
+        week: { periodKey, steps, distanceMeters: steps * 0.75, trailsCompleted: 0 },
+        month: { periodKey: '2026-03', steps, distanceMeters: steps * 0.75, trailsCompleted: 0 }
+    }
+});
+
+interface TestMember {
+    member: OrgMember;
+    contribution: MemberContribution;
+}
+
+const member = (userId: string, teamId: string | null, steps: number, periodKey = WEEK): TestMember => ({
+    member: {
+        userId,
+        name: userId,
+        teamId,
+        joinCode: 'K7QH2MXD',
+        joinedAt: '2026-02-01T09:00:00.000Z',
+        updatedAt: '2026-03-04T09:00:00.000Z'
+    },
+    contribution: contribution(teamId, steps, periodKey)
+});
+
+/**
+ * Aggregates after each member has published once, the way publishTotals adds them up
+ */
+const aggregatesOf = (members: TestMember[]): OrgAggregate[] => {
+    const sums = new Map<string, OrgAggregate>();
+    for (const { contribution } of members) {
+        for (const change of OrganizationStatsService.getAggregateChanges(null, contribution, PERIOD_KEYS)) {
+            const id = OrganizationStatsService.getAggregateId(change.groupId, change.period, change.periodKey);
+            const sum = sums.get(id);
+            sums.set(id, sum ? {
+                ...sum,
+                steps: sum.steps + change.steps,
+                distanceMeters: sum.distanceMeters + change.distanceMeters,
+                activeMembers: sum.activeMembers + change.activeMembers
+            } : change);
+        }
+    }
+    return [...sums.values()];
+};
+
+const standingsOf = (members: TestMember[], ranking: 'total' | 'average', currentTeamId: string | null) =>
+    OrganizationStatsService.getTeamStandings(teams, members.map(m => m.member), aggregatesOf(members), 'week', WEEK, ranking, currentTeamId);
+
+const reportOf = (reportTeams: OrgTeam[], members: TestMember[]) =>
+    OrganizationStatsService.buildReport(organization, reportTeams, members.map(m => m.member), aggregatesOf(members), 'week', WEEK, '2026-03-05');
+
+const teams = [team('sales', 'Sales'), team('eng', 'Engineering'), team('ops', 'Ops')];
+
+describe('OrganizationStatsService', () => {
+    describe('validateName', () => {
+        it('should need a name within the length limit', () => {
+            expect(OrganizationStatsService.validateName('  ', 'organization')).toMatch(/name/);
+            expect(OrganizationStatsService.validateName('x'.repeat(61), 'team')).toMatch(/60/);
+            expect(OrganizationStatsService.validateName('Acme', 'organization')).toBeNull();
+        });
+
+        it('should reject a team name already in use, ignoring case', () => {
+            expect(OrganizationStatsService.validateName(' sales ', 'team', ['Sales'])).toMatch(/already a team/);
+        });
+    });
+
+    describe('getGroupTotals', () => {
+        it('should add up this period and count active members', () => {
+            const members = [member('a', null, 6000), member('b', null, 0), member('c', null, 9000, '2026-02-22')];
+            const totals = OrganizationStatsService.getGroupTotals(aggregatesOf(members), 'all', 3, 'week', WEEK);
+            expect(totals).toEqual({ memberCount: 3, activeMembers: 1, steps: 6000, distanceMeters: 4500, averageSteps: 2000 });
+        });
+
+        it('should handle a group without an aggregate', () => {
+            expect(OrganizationStatsService.getGroupTotals([], 'all', 0, 'week', WEEK).averageSteps).toBe(0);
+        });
+    });
+
+    describe('getAggregateChanges', () => {
+        const stepsBy = (changes: OrgAggregate[]) => changes
+            .filter(c => c.period === 'week')
+            .map(c => [c.groupId, c.steps, c.activeMembers]);
+
+        it('should add only the difference when a member publishes again', () => {
+            const changes = OrganizationStatsService.getAggregateChanges(contribution('sales', 4000), contribution('sales', 6500), PERIOD_KEYS);
+            expect(stepsBy(changes)).toEqual([['all', 2500, 0], ['sales', 2500, 0]]);
+        });
+
+        it('should move a member\'s totals when an admin changes their team', () => {
+            const changes = OrganizationStatsService.getAggregateChanges(contribution('sales', 4000), contribution('eng', 4000), PERIOD_KEYS);
+            expect(stepsBy(changes)).toEqual([['sales', -4000, -1], ['eng', 4000, 1]]);
+        });
+
+        it('should leave last week alone when a new week starts', () => {
+            const changes = OrganizationStatsService.getAggregateChanges(
+                contribution('sales', 40000, '2026-02-22'),
+                contribution('sales', 1000),
+                PERIOD_KEYS
+            );
+            expect(stepsBy(changes)).toEqual([['all', 1000, 1], ['sales', 1000, 1]]);
+        });
+
+        it('should take everything out of the current periods when a member leaves', () => {
+            const changes = OrganizationStatsService.getAggregateChanges(contribution(null, 3000), null, PERIOD_KEYS);
+            expect(changes.map(c => [c.groupId, c.period, c.steps, c.activeMembers])).toEqual([
+                ['all', 'week', -3000, -1],
+                ['all', 'month', -3000, -1]
+            ]);
+        });
+    });
+
+    describe('getTeamStandings', () => {
+        const members = [
+            member('a', 'sales', 20000),
+            member('b', 'sales', 20000),
+            member('c', 'sales', 20000),
+            member('d', 'eng', 35000),
+            member('e', null, 90000)
+        ];
+
+        it('should rank by total steps and leave out unassigned members', () => {
+            const standings = standingsOf(members, 'total', 'eng');
+            expect(standings.map(s => [s.name, s.rank, s.steps, s.isCurrentTeam])).toEqual([
+                ['Sales', 1, 60000, false],
+                ['Engineering', 2, 35000, true],
+                ['Ops', 3, 0, false]
+            ]);
+        });
+
+        it('should rank by steps per member so small teams can win', () => {
+            const standings = standingsOf(members, 'average', null);
+            expect(standings.map(s => [s.name, s.rank, s.averageSteps])).toEqual([
+                ['Engineering', 1, 35000],
+                ['Sales', 2, 20000],
+                ['Ops', 3, 0]
+            ]);
+        });
+
+        it('should share a rank on a tie', () => {
+            const standings = standingsOf([member('a', 'sales', 5000), member('b', 'eng', 5000)], 'total', null);
+            expect(standings.map(s => [s.name, s.rank])).toEqual([['Engineering', 1], ['Sales', 1], ['Ops', 3]]);
+        });
+    });
+
+    describe('reports', () => {
+        const members = [
+            member('a', 'sales', 10000),
+            member('b', 'sales', 0),
+            member('c', 'sales', 20000),
+            member('d', 'eng', 35000),
+            member('e', null, 4000)
+        ];
+
+        it('should pool small teams and withhold groups that are still too small', () => {
+            const report = reportOf(teams, members);
+
+            expect(report.totals).toEqual({ memberCount: 5, activeMembers: 4, steps: 69000, distanceMeters: 51750, averageSteps: 13800 });
+            expect(report.groups.map(g => [g.name, g.memberCount, g.totals?.steps ?? null])).toEqual([
+                ['Sales', 3, 30000],
+                ['Other members', 2, null]
+            ]);
+        });
+
+        it('should count members of a deleted team as unassigned', () => {
+            const report = reportOf([], [member('a', 'gone', 1000), member('b', 'gone', 2000), member('c', null, 3000)]);
+            expect(report.groups).toEqual([{ name: 'Other members', memberCount: 3, totals: report.totals }]);
+        });
+
+        it('should export aggregate rows only', () => {
+            const report = reportOf(teams, members);
+            const file = OrganizationStatsService.toReportFile(report, 'km');
+
+            expect(file.filename).toBe('stridr-acme-inc-week-2026-03-01-2026-03-05.csv');
+            expect(file.content.split('\n')).toEqual([
+                'group,members,active_members,participation_pct,total_steps,avg_steps_per_member,total_distance_km',
+                '"Acme, Inc. (all members)",5,4,80,69000,13800,51.75',
+                'Sales,3,2,67,30000,10000,22.50',
+                'Other members,<3,,,,,'
+            ]);
+        });
+    });
+});
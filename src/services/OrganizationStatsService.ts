@@ -0,0 +1,267 @@
+/**
+ * File: src/services/OrganizationStatsService.ts
+ * Purpose: Pure helpers for workplace wellness organizations: name checks, team totals and
+ * leaderboards, and the aggregate report admins can export.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Members add their weekly and monthly totals to aggregate documents for their team and the whole
+ * organization. Everything shown or exported here comes from those aggregates; no one reads anyone
+ * else's totals.
+ *
+ * Modification History:
+ * 2026-10-19: Reports carry the local day they were built on, so the filename and period agree.
+ * 2026-10-19: Totals come from per-group aggregates instead of summing every member's published totals.
+ */
+import { LeaderboardPeriod, Organization, OrgAggregate, OrgMember, OrgMemberTotals, OrgTeam, TeamRanking, TeamStanding } from '../types';
+import { ExportFile, csvRow } from './ExportService';
+import { LeaderboardService } from './LeaderboardService';
+import { getDistanceUnit, getDistanceValue } from '../utils/conversion';
+import { DateKey } from '../utils/date';
+
+export const MAX_ORG_MEMBERS = 500;
+export const MAX_ORG_TEAMS = 50;
+export const MAX_ORG_NAME_LENGTH = 60;
+
+// Groups smaller than this are merged in reports so no one's totals can be singled out
+export const MIN_REPORT_GROUP_SIZE = 3;
+
+// Aggregate group for the whole organization; teams use their id
+export const ORG_AGGREGATE_GROUP = 'all';
+
+const PERIODS: LeaderboardPeriod[] = ['week', 'month'];
+
+// The part of a member's totals that decides what they add to the aggregates
+export type MemberContribution = Pick<OrgMemberTotals, 'teamId' | 'periodTotals'>;
+
+export interface GroupTotals {
+    memberCount: number;
+    activeMembers: number; // Members with steps this period
+    steps: number;
+    distanceMeters: number;
+    averageSteps: number; // Per member, rounded
+}
+
+export interface OrganizationReport {
+    organizationName: string;
+    period: LeaderboardPeriod;
+    periodKey: string;
+    generatedOn: DateKey; // Local day the report was built, from the same clock as periodKey
+    totals: GroupTotals;
+    groups: { name: string; memberCount: number; totals: GroupTotals | null }[]; // null: too few people to report
+}
+
+const SMALL_GROUPS_NAME = 'Other members';
+
+/**
+ * Helper: Totals with the average worked out from the member count. Aggregates that drifted below
+ * zero (a member removed mid-period) count as zero.
+ */
+const toGroupTotals = (memberCount: number, steps: number, distanceMeters: number, activeMembers: number): GroupTotals => ({
+    memberCount,
+    activeMembers: Math.min(Math.max(activeMembers, 0), memberCount),
+    steps: Math.max(steps, 0),
+    distanceMeters: Math.max(distanceMeters, 0),
+    averageSteps: memberCount > 0 ? Math.round(Math.max(steps, 0) / memberCount) : 0
+});
+
+const RANKING_VALUE: Record<TeamRanking, (standing: TeamStanding) => number> = {
+    total: standing => standing.steps,
+    average: standing => standing.averageSteps,
+};
+
+export const OrganizationStatsService = {
+    /**
+     * Problem with an organization or team name as a user-facing message, or null if it is fine
+     * @param takenNames - Names already used by other teams, compared without case
+     */
+    validateName(name: string, kind: 'organization' | 'team', takenNames: string[] = []): string | null {
+        const trimmed = name.trim();
+        if (!trimmed) return `Give the ${kind} a name.`;
+        if (trimmed.length > MAX_ORG_NAME_LENGTH) {
+            return `Names can be up to ${MAX_ORG_NAME_LENGTH} characters.`;
+        }
+        if (takenNames.some(taken => taken.trim().toLowerCase() === trimmed.toLowerCase())) {
+            return `There is already a ${kind} called ${trimmed}.`;
+        }
+        return null;
+    },
+
+    /**
+     * Current week and month keys, which decide the aggregates a member adds to
+     */
+    getPeriodKeys(today: DateKey): Record<LeaderboardPeriod, string> {
+        return {
+            week: LeaderboardService.getPeriodKey('week', today),
+            month: LeaderboardService.getPeriodKey('month', today)
+        };
+    },
+
+    /**
+     * Document id of a group's aggregate for one period
+     */
+    getAggregateId(groupId: string, period: LeaderboardPeriod, periodKey: string): string {
+        return `${groupId}_${period}_${periodKey}`;
+    },
+
+    /**
+     * How the aggregates change when a member's contribution goes from previous to next (null: none).
+     * Only the current periods move: what a member added to an earlier week or month stays there.
+     * A member whose team changed is taken out of the old team's aggregate and added to the new one.
+     */
+    getAggregateChanges(
+        previous: MemberContribution | null,
+        next: MemberContribution | null,
+        periodKeys: Record<LeaderboardPeriod, string>
+    ): OrgAggregate[] {
+        const changes = new Map<string, OrgAggregate>();
+        const add = (contribution: MemberContribution | null, sign: 1 | -1) => {
+            if (!contribution) return;
+            for (const period of PERIODS) {
+                const totals = contribution.periodTotals[period];
+                if (!totals || totals.periodKey !== periodKeys[period]) continue;
+
+                const groups = contribution.teamId ? [ORG_AGGREGATE_GROUP, contribution.teamId] : [ORG_AGGREGATE_GROUP];
+                for (const groupId of groups) {
+                    const id = this.getAggregateId(groupId, period, totals.periodKey);
+                    const change = changes.get(id) ?? { groupId, period, periodKey: totals.periodKey, steps: 0, distanceMeters: 0, activeMembers: 0 };
+                    change.steps += sign * totals.steps;
+                    change.distanceMeters += sign * totals.distanceMeters;
+                    change.activeMembers += sign * (totals.steps > 0 ? 1 : 0);
+                    changes.set(id, change);
+                }
+            }
+        };
+        add(previous, -1);
+        add(next, 1);
+        return [...changes.values()].filter(c => c.steps !== 0 || c.distanceMeters !== 0 || c.activeMembers !== 0);
+    },
+
+    /**
+     * A group's totals for the period. Its member count comes from the roster, since aggregates
+     * only count members who have published.
+     */
+    getGroupTotals(aggregates: OrgAggregate[], groupId: string, memberCount: number, period: LeaderboardPeriod, periodKey: string): GroupTotals {
+        const aggregate = aggregates.find(a => a.groupId === groupId && a.period === period && a.periodKey === periodKey);
+        return aggregate
+            ? toGroupTotals(memberCount, aggregate.steps, aggregate.distanceMeters, aggregate.activeMembers)
+            : toGroupTotals(memberCount, 0, 0, 0);
+    },
+
+    /**
+     * Rank teams on total steps or steps per member. Members without a team are left out.
+     * Teams tied on the ranked value share a rank and are listed by name.
+     */
+    getTeamStandings(
+        teams: OrgTeam[],
+        members: OrgMember[],
+        aggregates: OrgAggregate[],
+        period: LeaderboardPeriod,
+        periodKey: string,
+        ranking: TeamRanking,
+        currentTeamId: string | null
+    ): TeamStanding[] {
+        const value = RANKING_VALUE[ranking];
+        const rows: TeamStanding[] = teams.map(team => ({
+            teamId: team.id,
+            name: team.name,
+            rank: 0,
+            ...this.getGroupTotals(aggregates, team.id, members.filter(m => m.teamId === team.id).length, period, periodKey),
+            isCurrentTeam: team.id === currentTeamId
+        }));
+
+        rows.sort((a, b) => value(b) - value(a) || a.name.localeCompare(b.name));
+        rows.forEach((row, index) => {
+            const previous = rows[index - 1];
+            row.rank = previous && value(previous) === value(row) ? previous.rank : index + 1;
+        });
+        return rows;
+    },
+
+    /**
+     * Aggregate report for admins: the whole organization, then one group per team. Teams below
+     * MIN_REPORT_GROUP_SIZE and members without a team are pooled into one group, worked out as the
+     * organization minus the reported teams, whose figures are withheld if it is still too small.
+     */
+    buildReport(
+        organization: Organization,
+        teams: OrgTeam[],
+        members: OrgMember[],
+        aggregates: OrgAggregate[],
+        period: LeaderboardPeriod,
+        periodKey: string,
+        generatedOn: DateKey
+    ): OrganizationReport {
+        const totals = this.getGroupTotals(aggregates, ORG_AGGREGATE_GROUP, members.length, period, periodKey);
+        const groups: OrganizationReport['groups'] = [];
+        const pooled = { memberCount: totals.memberCount, steps: totals.steps, distanceMeters: totals.distanceMeters, activeMembers: totals.activeMembers };
+
+        const byName = [...teams].sort((a, b) => a.name.localeCompare(b.name));
+        for (const team of byName) {
+            const memberCount = members.filter(m => m.teamId === team.id).length;
+            if (memberCount < MIN_REPORT_GROUP_SIZE) continue;
+
+            const teamTotals = this.getGroupTotals(aggregates, team.id, memberCount, period, periodKey);
+            groups.push({ name: team.name, memberCount, totals: teamTotals });
+            pooled.memberCount -= teamTotals.memberCount;
+            pooled.steps -= teamTotals.steps;
+            pooled.distanceMeters -= teamTotals.distanceMeters;
+            pooled.activeMembers -= teamTotals.activeMembers;
+        }
+
+        // Small teams, members without a team and members of a deleted team
+        if (pooled.memberCount > 0) {
+            groups.push({
+                name: SMALL_GROUPS_NAME,
+                memberCount: pooled.memberCount,
+                totals: pooled.memberCount >= MIN_REPORT_GROUP_SIZE
+                    ? toGroupTotals(pooled.memberCount, pooled.steps, pooled.distanceMeters, pooled.activeMembers)
+                    : null
+            });
+        }
+
+        return {
+            organizationName: organization.name,
+            period,
+            periodKey,
+            generatedOn,
+            totals,
+            groups
+        };
+    },
+
+    /**
+     * Render a report as CSV: one row for the organization, then one per group
+     */
+    toReportFile(report: OrganizationReport, unit: 'km' | 'mi'): ExportFile {
+        const rows = [csvRow([
+            'group', 'members', 'active_members', 'participation_pct',
+            'total_steps', 'avg_steps_per_member', `total_distance_${getDistanceUnit(unit)}`
+        ])];
+        const addRow = (name: string, memberCount: number, totals: GroupTotals | null) => {
+            if (!totals) {
+                rows.push(csvRow([name, `<${MIN_REPORT_GROUP_SIZE}`, '', '', '', '', '']));
+                return;
+            }
+            rows.push(csvRow([
+                name,
+                memberCount,
+                totals.activeMembers,
+                memberCount > 0 ? Math.round((totals.activeMembers / memberCount) * 100) : 0,
+                totals.steps,
+                totals.averageSteps,
+                getDistanceValue(totals.distanceMeters, unit).toFixed(2)
+            ]));
+        };
+
+        addRow(`${report.organizationName} (all members)`, report.totals.memberCount, report.totals);
+        report.groups.forEach(group => addRow(group.name, group.memberCount, group.totals));
+
+        const slug = report.organizationName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'organization';
+        return {
+            filename: `stridr-${slug}-${report.period}-${report.periodKey}-${report.generatedOn}.csv`,
+            mimeType: 'text/csv',
+            content: rows.join('\n')
+        };
+    }
+};
@@ -0,0 +1,34 @@
+/**
+ * File: src/services/PedometerStepSource.ts
+ * Purpose: Step source backed by the phone's motion sensor (expo-sensors Pedometer).
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Added hasPermissions.
+ */
+import { Pedometer } from 'expo-sensors';
+import { StepSource } from './StepSourceService';
+
+export const PedometerStepSource: StepSource = {
+    id: 'pedometer',
+
+    async isAvailable(): Promise<boolean> {
+        return await Pedometer.isAvailableAsync();
+    },
+
+    async requestPermissions(): Promise<boolean> {
+        const { status } = await Pedometer.requestPermissionsAsync();
+        return status === 'granted';
+    },
+
+    async hasPermissions(): Promise<boolean> {
+        const { status } = await Pedometer.getPermissionsAsync();
+        return status === 'granted';
+    },
+
+    async getStepsBetween(start: Date, end: Date): Promise<number> {
+        const result = await Pedometer.getStepCountAsync(start, end);
+        return result.steps;
+    }
+};
@@ -0,0 +1,533 @@
+/**
+ * File: src/services/ProgressEngine.test.ts
+ * Purpose: Unit tests for ProgressEngine.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Added streak rule, freeze and streak badge tests.
+ * 2026-10-19: Added hourly steps and rule badge tests.
+ * 2026-10-19: Added badge unlock record tests.
+ * 2026-10-19: Added awardMonthlyBadges tests.
+ * 2026-10-19: Added archived month, sync timezone and load-then-sync tests.
+ * 2026-10-19: Fixtures no longer rely on the machine's timezone.
+ * 2026-10-19: Added month rollover tests for loading and syncs without readable steps.
+ * 2026-10-19: awardMonthlyBadges returns new progress; added badges from a remote catalog.
+ */
+import { ApplyStepsInput, ProgressEngine, ProgressEvent } from './ProgressEngine';
+import { BadgeService } from './BadgeService';
+import { StreakService } from './StreakService';
+import { ActiveTrail, MonthlyProgress, Trail, UserProgress } from '../types';
+import { BADGES, Badge } from '../const/badges';
+
+// The engine is given timeZone 'UTC' (see apply), so it dates everything by UTC whatever the machine's zone
+const NOW = new Date('2026-03-15T12:00:00.000Z');
+const STRIDE_CM = 100; // One meter per step keeps the distances readable
+
+const trail: Trail = {
+    id: 'test-trail',
+    name: 'Test Trail',
+    description: '',
+    totalDistanceMeters: 10000,
+    color: '#000',
+    difficulty: 'Easy',
+    image: 0,
+    landmarks: [
+        { id: 'lm-1', name: 'Bridge', distanceMeters: 3000, description: '' },
+        { id: 'lm-2', name: 'Summit', distanceMeters: 6000, description: '' },
+        { id: 'lm-3', name: 'Finish', distanceMeters: 10000, description: '' }
+    ]
+};
+
+const otherTrail: Trail = { ...trail, id: 'other-trail', name: 'Other Trail' };
+const customTrail: Trail = { ...trail, id: 'custom-abc', name: 'Park Loop', category: 'custom', landmarks: [] };
+
+const session = (currentDistanceMeters: number, trailId = 'test-trail'): ActiveTrail => ({
+    trailId,
+    startDate: '2026-03-01T12:00:00.000Z',
+    targetDays: 14,
+    totalStepsValid: currentDistanceMeters,
+    currentDistanceMeters
+});
+
+const monthly = (overrides: Partial<MonthlyProgress> = {}): MonthlyProgress => ({
+    ...BadgeService.createNewMonthlyProgress(2026, 3),
+    ...overrides
+});
+
+const progress = (overrides: Partial<UserProgress> = {}): UserProgress => ({
+    activeTrails: [],
+    stats: { totalStepsLifetime: 0, totalDistanceMetersLifetime: 0, completedTrailsCount: 0 },
+    lastSyncTime: '2026-03-15T08:00:00.000Z',
+    monthlyProgress: monthly(),
+    pastMonths: [],
+    yearlyProgress: [],
+    trailBadges: [],
+    completedTrails: [],
+    currentStreak: 3,
+    lastLogDate: '2026-03-14',
+    streakBadges: ['streak-3'],
+    ...overrides
+});
+
+const today = (steps: number) => [{ date: '2026-03-15', steps }];
+
+const apply = (overrides: Partial<ApplyStepsInput> = {}) => ProgressEngine.applySteps({
+    progress: progress(),
+    days: today(1000),
+    now: NOW,
+    trails: [trail, otherTrail, customTrail],
+    badges: BADGES,
+    prefs: { strideLengthCm: STRIDE_CM, dailyGoal: 10000, streakRule: 'activity' },
+    timeZone: 'UTC',
+    dailyLogs: [],
+    todaySteps: null,
+    goalAchievedOn: null,
+    ...overrides
+});
+
+const ofType = <T extends ProgressEvent['type']>(events: ProgressEvent[], type: T) =>
+    events.filter((e): e is Extract<ProgressEvent, { type: T }> => e.type === type);
+
+describe('ProgressEngine', () => {
+    describe('applySteps', () => {
+        it('should credit steps and distance to lifetime stats, the month and every active trail', () => {
+            const before = progress({ activeTrails: [session(1000), session(500, 'custom-abc')] });
+            const { progress: after, dailyLogEntries } = apply({ progress: before, days: today(1500) });
+
+            expect(after.stats.totalStepsLifetime).toBe(1500);
+            expect(after.stats.totalDistanceMetersLifetime).toBe(1500);
+            expect(after.monthlyProgress.stepsThisMonth).toBe(1500);
+            expect(after.monthlyProgress.distanceMetersThisMonth).toBe(1500);
+            expect(after.activeTrails.map(s => s.currentDistanceMeters)).toEqual([2500, 2000]);
+            expect(after.lastSyncTime).toBe(NOW.toISOString());
+            expect(dailyLogEntries).toEqual([{ date: '2026-03-15', steps: 1500, distanceMeters: 1500, timeZone: 'UTC' }]);
+        });
+
+        it('should not change the input progress', () => {
+            const before = progress({ activeTrails: [session(1000)], yearlyProgress: [{ year: 2026, monthlyBadgesEarned: [1, 2], yearlyBadgeEarned: false }] });
+            const snapshot = JSON.parse(JSON.stringify(before));
+            apply({ progress: before, days: today(20000) });
+            expect(before).toEqual(snapshot);
+        });
+
+        it('should continue the streak on the next day and keep it on the same day', () => {
+            expect(apply().progress).toMatchObject({ currentStreak: 4, lastLogDate: '2026-03-15' });
+            expect(apply({ progress: progress({ lastLogDate: '2026-03-15' }) }).progress.currentStreak).toBe(3);
+            expect(apply({ progress: progress({ lastLogDate: '2026-03-10' }) }).progress.currentStreak).toBe(1);
+        });
+
+        it('should only count days the goal was met under the goal rule', () => {
+            const goalPrefs = { strideLengthCm: STRIDE_CM, dailyGoal: 10000, streakRule: 'goal' as const };
+            const short = apply({ prefs: goalPrefs, days: today(4000) });
+            expect(short.progress.currentStreak).toBe(3);
+            expect(short.progress.streak?.lastQualifiedDate).toBe('2026-03-14');
+
+            // A later sync the same day reaches the goal
+            const met = apply({ progress: short.progress, prefs: goalPrefs, days: today(6000) });
+            expect(met.progress.currentStreak).toBe(4);
+            expect(met.progress.streak?.lastQualifiedDate).toBe('2026-03-15');
+        });
+
+        it('should spend a freeze on a missed day and record it', () => {
+            const streak = { ...StreakService.fromProgress(progress({ lastLogDate: '2026-03-13' })), freezes: 1 };
+            const { progress: after } = apply({ progress: progress({ lastLogDate: '2026-03-13', streak }) });
+
+            expect(after.currentStreak).toBe(4);
+            expect(after.streak).toMatchObject({ freezes: 0, frozenDates: ['2026-03-14'] });
+        });
+
+        it('should end the streak on a sync without steps once a day was missed', () => {
+            const { progress: after } = apply({
+                progress: progress({ lastLogDate: '2026-03-13' }),
+                days: today(0)
+            });
+            expect(after.currentStreak).toBe(0);
+            expect(after.streak?.longest).toBe(3);
+        });
+
+        it('should unlock streak badges by the longest streak', () => {
+            const { progress: after, events } = apply({ progress: progress({ currentStreak: 6 }) });
+
+            expect(after.streakBadges).toEqual(['streak-3', 'streak-7']);
+            expect(ofType(events, 'BadgeUnlocked').map(e => e.badgeId)).toEqual(['streak-7']);
+
+            const again = apply({ progress: after, days: [{ date: '2026-03-16', steps: 100 }], now: new Date('2026-03-16T12:00:00.000Z') });
+            expect(again.progress.streakBadges).toEqual(['streak-3', 'streak-7']);
+            expect(ofType(again.events, 'BadgeUnlocked')).toEqual([]);
+        });
+
+        it('should log hourly steps and unlock rule badges that read them', () => {
+            const hourlySteps = Array.from({ length: 24 }, (_, hour) => hour === 6 ? 1500 : 0);
+            const { progress: after, events, dailyLogEntries } = apply({ days: [{ date: '2026-03-15', steps: 1500, hourlySteps }] });
+
+            expect(dailyLogEntries[0].hourlySteps).toEqual(hourlySteps);
+            expect(after.lifetimeBadges).toEqual(['early-bird']);
+            expect(ofType(events, 'BadgeUnlocked').map(e => e.badgeId)).toEqual(['early-bird']);
+        });
+
+        it('should count earlier logged days toward days-in-a-row badges', () => {
+            const dailyLogs = ['2026-03-13', '2026-03-14'].map(date => ({ date, steps: 15000, distanceMeters: 15000 }));
+            const { progress: after } = apply({ dailyLogs, days: today(15000) });
+            expect(after.lifetimeBadges).toEqual(['power-trio']);
+        });
+
+        it('should never move the last logged day back after travelling west', () => {
+            const { progress: after } = apply({ progress: progress({ lastLogDate: '2026-03-16' }) });
+            expect(after.lastLogDate).toBe('2026-03-16');
+        });
+
+        it('should only roll the month over and move lastSyncTime when there are no new steps', () => {
+            const february = monthly({ year: 2026, month: 2, stepsThisMonth: 42000 });
+            const before = progress({ monthlyProgress: february, activeTrails: [session(1000)] });
+            const { progress: after, events, dailyLogEntries } = apply({ progress: before, days: today(0) });
+
+            expect(after.monthlyProgress).toMatchObject({ year: 2026, month: 3, stepsThisMonth: 0 });
+            expect(after.pastMonths).toEqual([february]);
+            expect(after.activeTrails).toEqual(before.activeTrails);
+            expect(after.currentStreak).toBe(3);
+            expect(after.lastSyncTime).toBe(NOW.toISOString());
+            expect(events).toEqual([]);
+            expect(dailyLogEntries).toEqual([]);
+        });
+
+        it('should archive last month and credit the steps to the new one', () => {
+            const february = monthly({ year: 2026, month: 2, stepsThisMonth: 42000 });
+            const { progress: after } = apply({ progress: progress({ monthlyProgress: february }), days: today(6000) });
+            expect(after.pastMonths).toEqual([february]);
+            expect(after.monthlyProgress).toMatchObject({ year: 2026, month: 3, stepsThisMonth: 6000 });
+        });
+    });
+
+    describe('multi-day syncs', () => {
+        it('should log each day separately and skip days without steps', () => {
+            const { dailyLogEntries, progress: after } = apply({
+                days: [{ date: '2026-03-13', steps: 2000 }, { date: '2026-03-14', steps: 0 }, { date: '2026-03-15', steps: 500 }]
+            });
+            expect(dailyLogEntries).toEqual([
+                { date: '2026-03-13', steps: 2000, distanceMeters: 2000, timeZone: 'UTC' },
+                { date: '2026-03-15', steps: 500, distanceMeters: 500, timeZone: 'UTC' }
+            ]);
+            expect(after.stats.totalStepsLifetime).toBe(2500);
+        });
+
+        it('should archive the previous month with the steps taken in it', () => {
+            const february = monthly({ year: 2026, month: 2, stepsThisMonth: 40000, distanceMetersThisMonth: 40000, unlockedBadgeIds: ['step-5k', 'step-10k', 'step-25k'] });
+            const { progress: after, events } = apply({
+                progress: progress({ monthlyProgress: february, lastLogDate: '2026-02-26' }),
+                days: [{ date: '2026-02-27', steps: 3000 }, { date: '2026-02-28', steps: 12000 }, { date: '2026-03-01', steps: 2000 }],
+                now: new Date('2026-03-01T12:00:00.000Z')
+            });
+
+            expect(after.pastMonths).toHaveLength(1);
+            expect(after.pastMonths![0]).toMatchObject({ year: 2026, month: 2, stepsThisMonth: 55000 });
+            expect(after.pastMonths![0].unlockedBadgeIds).toContain('step-50k');
+            expect(after.monthlyProgress).toMatchObject({ year: 2026, month: 3, stepsThisMonth: 2000 });
+            expect(after.monthlyProgress.unlockedBadgeIds).toEqual([]);
+            expect(ofType(events, 'BadgeUnlocked').map(e => e.badgeId)).toContain('step-50k');
+        });
+
+        it('should add a day of an already archived month to that month', () => {
+            const february = monthly({ year: 2026, month: 2, stepsThisMonth: 40000, distanceMetersThisMonth: 40000, unlockedBadgeIds: ['step-5k', 'step-10k', 'step-25k'] });
+            const { progress: after, events } = apply({
+                progress: progress({ monthlyProgress: monthly(), pastMonths: [february], lastLogDate: '2026-02-27' }),
+                days: [{ date: '2026-02-28', steps: 20000 }, { date: '2026-03-01', steps: 200 }],
+                now: new Date('2026-03-01T12:00:00.000Z')
+            });
+
+            expect(after.pastMonths).toHaveLength(1);
+            expect(after.pastMonths![0]).toMatchObject({ year: 2026, month: 2, stepsThisMonth: 60000 });
+            expect(after.pastMonths![0].unlockedBadgeIds).toContain('step-50k');
+            expect(after.monthlyProgress).toMatchObject({ year: 2026, month: 3, stepsThisMonth: 200, unlockedBadgeIds: [] });
+            expect(after.badgeUnlocks?.find(u => u.badgeId === 'step-50k')).toMatchObject({ date: '2026-02-28', year: 2026, month: 2 });
+            expect(ofType(events, 'BadgeUnlocked').map(e => e.badgeId)).not.toContain('step-5k');
+        });
+
+        it('should add an archived month that is missing from pastMonths', () => {
+            const { progress: after } = apply({
+                progress: progress({ monthlyProgress: monthly({ stepsThisMonth: 500 }), pastMonths: [monthly({ year: 2026, month: 1 })] }),
+                days: [{ date: '2026-02-28', steps: 1000 }]
+            });
+            expect(after.pastMonths!.map(mp => [mp.month, mp.stepsThisMonth])).toEqual([[1, 0], [2, 1000]]);
+            expect(after.monthlyProgress.stepsThisMonth).toBe(500);
+        });
+
+        it('should roll the month over in the sync\'s timezone', () => {
+            const before = progress({ lastSyncTime: '2026-03-31T12:00:00.000Z' });
+            const now = new Date('2026-03-31T20:00:00.000Z');
+
+            expect(apply({ progress: before, days: [], now, timeZone: 'Asia/Kolkata' }).progress.monthlyProgress.month).toBe(4);
+            expect(apply({ progress: before, days: [], now, timeZone: 'America/New_York' }).progress.monthlyProgress.month).toBe(3);
+        });
+
+        it('should count the streak from the days the steps were taken', () => {
+            const consecutive = apply({
+                progress: progress({ currentStreak: 3, lastLogDate: '2026-03-12' }),
+                days: [{ date: '2026-03-13', steps: 100 }, { date: '2026-03-14', steps: 100 }, { date: '2026-03-15', steps: 100 }]
+            });
+            expect(consecutive.progress).toMatchObject({ currentStreak: 6, lastLogDate: '2026-03-15' });
+
+            const gap = apply({
+                progress: progress({ currentStreak: 3, lastLogDate: '2026-03-12' }),
+                days: [{ date: '2026-03-13', steps: 100 }, { date: '2026-03-14', steps: 0 }, { date: '2026-03-15', steps: 100 }]
+            });
+            expect(gap.progress).toMatchObject({ currentStreak: 1, lastLogDate: '2026-03-15' });
+        });
+
+        it('should only credit a trail with days from its start onward', () => {
+            const startedYesterday = { ...session(0, 'other-trail'), startDate: '2026-03-14T00:00:00.000Z' };
+            const { progress: after } = apply({
+                progress: progress({ activeTrails: [session(1000), startedYesterday] }),
+                days: [{ date: '2026-03-13', steps: 1000 }, { date: '2026-03-14', steps: 2000 }, { date: '2026-03-15', steps: 3000 }]
+            });
+            expect(after.activeTrails.map(s => s.currentDistanceMeters)).toEqual([7000, 5000]);
+        });
+    });
+
+    describe('badge events', () => {
+        it('should unlock monthly badges once their threshold is passed', () => {
+            const { progress: after, events } = apply({ days: today(6000) });
+            expect(after.monthlyProgress.unlockedBadgeIds).toEqual(['step-5k', 'dist-5k']);
+            expect(ofType(events, 'BadgeUnlocked').map(e => e.badgeId)).toEqual(['step-5k', 'dist-5k']);
+            expect(ofType(events, 'BadgeUnlocked')[0]).toMatchObject({ name: 'First Steps', icon: '👶' });
+        });
+
+        it('should not unlock a badge again', () => {
+            const before = progress({ monthlyProgress: monthly({ stepsThisMonth: 6000, distanceMetersThisMonth: 6000, unlockedBadgeIds: ['step-5k', 'dist-5k'] }) });
+            expect(ofType(apply({ progress: before }).events, 'BadgeUnlocked')).toEqual([]);
+        });
+
+        it('should award the monthly master and record it for the year', () => {
+            // Nine badges so far; reaching 10k steps and meters adds two more
+            const nine = ['step-5k', 'dist-5k', 'a', 'b', 'c', 'd', 'e', 'f', 'g'];
+            const before = progress({ monthlyProgress: monthly({ stepsThisMonth: 9000, distanceMetersThisMonth: 9000, unlockedBadgeIds: nine }) });
+            const { progress: after, events } = apply({ progress: before, days: today(1000) });
+
+            expect(after.monthlyProgress.monthlyBadgeEarned).toBe(true);
+            expect(after.yearlyProgress).toEqual([{ year: 2026, monthlyBadgesEarned: [3], yearlyBadgeEarned: false }]);
+            expect(ofType(events, 'BadgeUnlocked').map(e => e.badgeId)).toEqual(['step-10k', 'dist-10k', 'master-3']);
+            expect(ofType(events, 'BadgeUnlocked')[2].name).toBe(BadgeService.getMonthlyMasterName(2026, 3));
+        });
+
+        it('should crown the yearly champion with the twelfth monthly master', () => {
+            const nine = ['step-5k', 'dist-5k', 'a', 'b', 'c', 'd', 'e', 'f', 'g'];
+            const eleven = [1, 2, 4, 5, 6, 7, 8, 9, 10, 11, 12];
+            const before = progress({
+                monthlyProgress: monthly({ stepsThisMonth: 9000, distanceMetersThisMonth: 9000, unlockedBadgeIds: nine }),
+                yearlyProgress: [{ year: 2026, monthlyBadgesEarned: eleven, yearlyBadgeEarned: false }]
+            });
+            const { progress: after, events } = apply({ progress: before, days: today(1000) });
+
+            expect(after.yearlyProgress[0].yearlyBadgeEarned).toBe(true);
+            expect(ofType(events, 'BadgeUnlocked').map(e => e.badgeId)).toContain('champion-2026');
+        });
+    });
+
+    describe('badge unlock records', () => {
+        it('should record each unlock with its day, month and value', () => {
+            const { progress: after } = apply({ days: [{ date: '2026-03-14', steps: 6000 }, { date: '2026-03-15', steps: 5000 }] });
+            expect(after.badgeUnlocks).toEqual([
+                { badgeId: 'step-5k', unlockedAt: NOW.toISOString(), date: '2026-03-14', value: 6000, year: 2026, month: 3 },
+                { badgeId: 'dist-5k', unlockedAt: NOW.toISOString(), date: '2026-03-14', value: 6000, year: 2026, month: 3 },
+                { badgeId: 'step-10k', unlockedAt: NOW.toISOString(), date: '2026-03-15', value: 11000, year: 2026, month: 3 },
+                { badgeId: 'dist-10k', unlockedAt: NOW.toISOString(), date: '2026-03-15', value: 11000, year: 2026, month: 3 }
+            ]);
+        });
+
+        it('should record the monthly master and yearly champion', () => {
+            const nine = ['step-5k', 'dist-5k', 'a', 'b', 'c', 'd', 'e', 'f', 'g'];
+            const before = progress({
+                monthlyProgress: monthly({ stepsThisMonth: 9000, distanceMetersThisMonth: 9000, unlockedBadgeIds: nine }),
+                yearlyProgress: [{ year: 2026, monthlyBadgesEarned: [1, 2, 4, 5, 6, 7, 8, 9, 10, 11, 12], yearlyBadgeEarned: false }]
+            });
+            const unlocks = apply({ progress: before }).progress.badgeUnlocks || [];
+
+            expect(unlocks.find(u => u.badgeId === 'master-3')).toMatchObject({ value: 11, year: 2026, month: 3 });
+            expect(unlocks.find(u => u.badgeId === 'champion-2026')).toEqual(
+                { badgeId: 'champion-2026', unlockedAt: NOW.toISOString(), date: '2026-03-15', value: 12, year: 2026 }
+            );
+        });
+
+        it('should record the trail that unlocked a trail badge', () => {
+            const { progress: after } = apply({ progress: progress({ activeTrails: [session(9000)] }), days: today(1500) });
+            expect(after.badgeUnlocks).toEqual([
+                { badgeId: 'trail-1', unlockedAt: NOW.toISOString(), date: '2026-03-15', value: 1, trailId: 'test-trail' }
+            ]);
+        });
+
+        it('should keep the unlocks recorded before', () => {
+            const earlier = { badgeId: 'streak-3', unlockedAt: '2026-03-13T12:00:00.000Z' };
+            const { progress: after } = apply({ progress: progress({ badgeUnlocks: [earlier] }), days: today(6000) });
+            expect(after.badgeUnlocks?.map(u => u.badgeId)).toEqual(['streak-3', 'step-5k', 'dist-5k']);
+        });
+    });
+
+    describe('trail events', () => {
+        it('should report only the furthest milestone passed in one sync', () => {
+            const { events } = apply({ progress: progress({ activeTrails: [session(2000)] }), days: today(6000) });
+            expect(ofType(events, 'MilestoneReached')).toEqual([
+                { type: 'MilestoneReached', trailId: 'test-trail', trailName: 'Test Trail', percent: 75 }
+            ]);
+        });
+
+        it('should report every landmark passed since the last sync', () => {
+            const { events } = apply({ progress: progress({ activeTrails: [session(3000)] }), days: today(4000) });
+            expect(ofType(events, 'LandmarkReached').map(e => e.landmarkId)).toEqual(['lm-2']);
+        });
+
+        it('should complete a trail that reached its end instead of reporting a milestone', () => {
+            const before = progress({ activeTrails: [session(9000)] });
+            const { progress: after, events } = apply({ progress: before, days: today(1500) });
+
+            expect(after.activeTrails).toEqual([]);
+            expect(after.completedTrails.map(ct => ct.trailId)).toEqual(['test-trail']);
+            expect(after.stats.completedTrailsCount).toBe(1);
+            expect(after.trailBadges).toEqual(['trail-1']);
+            expect(ofType(events, 'MilestoneReached')).toEqual([]);
+            expect(ofType(events, 'LandmarkReached').map(e => e.landmarkId)).toEqual(['lm-3']);
+            expect(ofType(events, 'TrailCompleted')).toEqual([
+                expect.objectContaining({ trailId: 'test-trail', trailName: 'Test Trail', completedTrail: after.completedTrails[0] })
+            ]);
+            expect(ofType(events, 'BadgeUnlocked').map(e => e.badgeId)).toEqual(['trail-1']);
+        });
+
+        it('should not count custom trails toward trail badges', () => {
+            const before = progress({ activeTrails: [session(9500, 'custom-abc')] });
+            const { progress: after, events } = apply({ progress: before, days: today(1000) });
+
+            expect(ofType(events, 'TrailCompleted').map(e => e.trailId)).toEqual(['custom-abc']);
+            expect(after.trailBadges).toEqual([]);
+        });
+
+        it('should skip sessions whose trail is unknown', () => {
+            const before = progress({ activeTrails: [session(9500, 'removed-trail')] });
+            const { progress: after, events } = apply({ progress: before, days: today(1000) });
+            expect(after.activeTrails[0].currentDistanceMeters).toBe(10500);
+            expect(events.filter(e => e.type !== 'BadgeUnlocked')).toEqual([]);
+        });
+    });
+
+    describe('goal events', () => {
+        it('should report the daily goal once per day', () => {
+            expect(ofType(apply({ todaySteps: 10500 }).events, 'GoalAchieved')).toEqual([
+                { type: 'GoalAchieved', date: '2026-03-15', goal: 10000, steps: 10500 }
+            ]);
+            expect(ofType(apply({ todaySteps: 10500, goalAchievedOn: '2026-03-15' }).events, 'GoalAchieved')).toEqual([]);
+            expect(ofType(apply({ todaySteps: 10500, goalAchievedOn: '2026-03-14' }).events, 'GoalAchieved')).toHaveLength(1);
+        });
+
+        it('should not report the goal below it or without today\'s count', () => {
+            expect(ofType(apply({ todaySteps: 9999 }).events, 'GoalAchieved')).toEqual([]);
+            expect(ofType(apply({ todaySteps: null }).events, 'GoalAchieved')).toEqual([]);
+        });
+    });
+
+    describe('loading then syncing across a month boundary', () => {
+        it('should credit the steps before the month ended to that month', () => {
+            const october = { ...BadgeService.createNewMonthlyProgress(2026, 10), stepsThisMonth: 40000, distanceMetersThisMonth: 40000 };
+            october.unlockedBadgeIds = ['step-5k', 'dist-5k', 'step-10k', 'dist-10k', 'step-25k', 'dist-25k'];
+            const stored = progress({ monthlyProgress: october, lastSyncTime: '2026-10-31T08:00:00.000Z', lastLogDate: '2026-10-30' });
+            const now = new Date('2026-11-01T12:00:00.000Z');
+
+            // Loading moves on to November; the sync then adds October's last day to the archived month
+            const loaded = ProgressEngine.migrateStoredProgress(stored, now, 'UTC');
+            expect(loaded.monthlyProgress).toMatchObject({ year: 2026, month: 11, stepsThisMonth: 0 });
+            expect(loaded.pastMonths).toEqual([october]);
+
+            const { progress: after } = apply({
+                progress: loaded,
+                days: [{ date: '2026-10-31', steps: 20000 }, { date: '2026-11-01', steps: 200 }],
+                now
+            });
+            expect(after.pastMonths).toHaveLength(1);
+            expect(after.pastMonths![0]).toMatchObject({ year: 2026, month: 10, stepsThisMonth: 60000 });
+            expect(after.pastMonths![0].unlockedBadgeIds).toEqual(expect.arrayContaining(['step-50k', 'dist-50k']));
+            expect(after.monthlyProgress).toMatchObject({ year: 2026, month: 11, stepsThisMonth: 200, unlockedBadgeIds: [] });
+        });
+
+        it('should roll over to the current month with no steps when none can be read', () => {
+            const march = monthly({ stepsThisMonth: 120000, distanceMetersThisMonth: 120000, unlockedBadgeIds: ['step-5k'] });
+            const stored = progress({ monthlyProgress: march, lastSyncTime: '2026-03-28T08:00:00.000Z' });
+            const may = new Date('2026-05-02T12:00:00.000Z');
+
+            const rolled = ProgressEngine.rollToCurrentMonth(stored, may, 'UTC');
+            expect(rolled.monthlyProgress).toMatchObject({ year: 2026, month: 5, stepsThisMonth: 0, unlockedBadgeIds: [] });
+            expect(rolled.pastMonths).toEqual([march]);
+            expect(rolled.lastSyncTime).toBe(stored.lastSyncTime);
+            expect(rolled.stats).toBe(stored.stats);
+
+            // Steps that become readable later still land in the months they were taken in
+            const { progress: after } = apply({
+                progress: rolled,
+                days: [{ date: '2026-03-29', steps: 1000 }, { date: '2026-04-10', steps: 2000 }, { date: '2026-05-02', steps: 300 }],
+                now: may
+            });
+            expect(after.pastMonths!.map(mp => [mp.month, mp.stepsThisMonth])).toEqual([[3, 121000], [4, 2000]]);
+            expect(after.monthlyProgress.stepsThisMonth).toBe(300);
+        });
+
+        it('should leave progress that is already in the current month as it is', () => {
+            const stored = progress();
+            expect(ProgressEngine.rollToCurrentMonth(stored, NOW, 'UTC')).toBe(stored);
+        });
+
+        it('should start a month in the given timezone for progress saved without one', () => {
+            const { monthlyProgress: _, ...legacy } = progress();
+            const loaded = ProgressEngine.migrateStoredProgress(legacy as UserProgress, new Date('2026-03-31T20:00:00.000Z'), 'Asia/Kolkata');
+            expect(loaded.monthlyProgress).toMatchObject({ year: 2026, month: 4, stepsThisMonth: 0 });
+        });
+    });
+
+    describe('awardMonthlyBadges', () => {
+        it('should award Monthly Master when recalculated distances complete the set', () => {
+            // A longer stride pushed this month past 10 km: with dist-10k that makes ten badges
+            const nine = ['step-5k', 'step-10k', 'dist-5k', 'a', 'b', 'c', 'd', 'e', 'f'];
+            const current = progress({ monthlyProgress: monthly({ stepsThisMonth: 12000, distanceMetersThisMonth: 10500, unlockedBadgeIds: nine }) });
+            const context = ProgressEngine.badgeContext(current, [], '2026-03-15', [trail], BADGES);
+            const { monthlyProgress, yearlyProgress, events, unlocks } = ProgressEngine.awardMonthlyBadges(context, NOW);
+
+            expect(ofType(events, 'BadgeUnlocked').map(e => e.badgeId)).toEqual(['dist-10k', 'master-3']);
+            expect(unlocks.map(u => u.badgeId)).toEqual(['dist-10k', 'master-3']);
+            expect(unlocks[1].value).toBe(10); // Measured with dist-10k recorded
+            expect(monthlyProgress).toMatchObject({ unlockedBadgeIds: [...nine, 'dist-10k'], monthlyBadgeEarned: true });
+            expect(yearlyProgress).toEqual([{ year: 2026, monthlyBadgesEarned: [3], yearlyBadgeEarned: false }]);
+        });
+
+        it('should leave the context unchanged', () => {
+            const current = progress({ monthlyProgress: monthly({ stepsThisMonth: 12000, unlockedBadgeIds: ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i'] }) });
+            const before = JSON.parse(JSON.stringify(current));
+            ProgressEngine.awardMonthlyBadges(ProgressEngine.badgeContext(current, [], '2026-03-15', [trail], BADGES), NOW);
+            expect(current).toEqual(before);
+        });
+
+        it('should award monthly badges the catalog adds', () => {
+            const stepUp: Badge = { id: 'step-12k', name: 'Step Up', description: 'Walk 12,000 steps this month', icon: '🪜', period: 'monthly', rule: { metric: 'steps', window: 'month', comparator: '>=', threshold: 12000 }, collection: 'steps' };
+            const context = ProgressEngine.badgeContext(progress({ monthlyProgress: monthly({ stepsThisMonth: 12000, unlockedBadgeIds: ['step-5k', 'step-10k'] }) }), [], '2026-03-15', [trail], [...BADGES, stepUp]);
+            const { events } = ProgressEngine.awardMonthlyBadges(context, NOW);
+            expect(ofType(events, 'BadgeUnlocked')).toEqual([{ type: 'BadgeUnlocked', badgeId: 'step-12k', name: 'Step Up', icon: '🪜' }]);
+        });
+    });
+
+    describe('completeTrails', () => {
+        it('should use the daily logs for the finished trail stats', () => {
+            const logs = [
+                { date: '2026-03-02', steps: 4000, distanceMeters: 4000 },
+                { date: '2026-03-05', steps: 7000, distanceMeters: 7000 },
+                { date: '2026-02-20', steps: 20000, distanceMeters: 20000 } // Before the trail started
+            ];
+            const { progress: after, events } = ProgressEngine.completeTrails(progress({ activeTrails: [session(11000)] }), [trail], BADGES, NOW, logs, 'UTC');
+            expect(after.completedTrails[0].maxStepsInOneDay).toBe(7000);
+            expect(ofType(events, 'TrailCompleted')).toHaveLength(1);
+        });
+
+        it('should date the unlock in the given timezone', () => {
+            const { progress: after } = ProgressEngine.completeTrails(progress({ activeTrails: [session(11000)] }), [trail], BADGES, NOW, [], 'Pacific/Kiritimati');
+            expect(after.badgeUnlocks?.[0]).toMatchObject({ badgeId: 'trail-1', date: '2026-03-16' });
+        });
+
+        it('should leave unfinished trails alone', () => {
+            const before = progress({ activeTrails: [session(9999)] });
+            expect(ProgressEngine.completeTrails(before, [trail], BADGES, NOW, [], 'UTC')).toEqual({ progress: before, events: [] });
+        });
+    });
+});
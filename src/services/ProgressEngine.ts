@@ -0,0 +1,503 @@
+/**
+ * File: src/services/ProgressEngine.ts
+ * Purpose: Pure progress reducer for a sync: credits new steps to progress and returns the next UserProgress
+ * with typed events for what happened (badges, milestones, landmarks, finished trails, daily goal).
+ * ProgressSyncService reads the steps and carries out the side effects.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Credits a sync day by day, so steps land on the right day, month and streak.
+ * 2026-10-19: Streaks follow StreakService: the streak rule, freezes, the longest streak and streak badges.
+ * 2026-10-19: Badges are checked through the declarative badge rules; daily log entries carry hourly steps.
+ * 2026-10-19: Every badge unlock is recorded in badgeUnlocks with its day and metric value.
+ * 2026-10-19: awardMonthlyBadges checks a month's badges and its master outside a sync too.
+ * 2026-10-19: Months and trail completion days follow the sync's timezone; days of an archived month are
+ * added to that month. Loaded progress is migrated here instead of being rolled to the device's month.
+ * 2026-10-19: Loading and syncs that cannot read steps still roll over to the current month, with no steps.
+ * 2026-10-19: Badges come from the catalog passed in; awarding monthly badges returns new progress objects.
+ */
+import { BadgeUnlock, CompletedTrail, DailyLog, MonthlyProgress, StreakRule, Trail, UserProgress, YearlyProgress } from '../types';
+import { Badge } from '../const/badges';
+import { BadgeService } from './BadgeService';
+import { BadgeContext } from './BadgeRuleEngine';
+import { StatsService } from './StatsService';
+import { StreakService } from './StreakService';
+import { TrailSessionService } from './TrailSessionService';
+import { stepsToMeters } from '../utils/conversion';
+import { DateKey, toLocalDateKey } from '../utils/date';
+
+export const TRAIL_MILESTONES = [25, 50, 75]; // Percent; finishing is reported as TrailCompleted
+
+export type ProgressEvent =
+    | { type: 'BadgeUnlocked'; badgeId: string; name: string; icon: string }
+    | { type: 'MilestoneReached'; trailId: string; trailName: string; percent: number }
+    | { type: 'LandmarkReached'; trailId: string; landmarkId: string; landmarkName: string }
+    | { type: 'TrailCompleted'; trailId: string; trailName: string; completedTrail: CompletedTrail }
+    | { type: 'GoalAchieved'; date: DateKey; goal: number; steps: number };
+
+export interface DaySteps {
+    date: DateKey; // Local calendar day
+    steps: number;
+    hourlySteps?: number[]; // Per local hour, when the source could be read hour by hour
+}
+
+export interface EnginePreferences {
+    strideLengthCm: number;
+    dailyGoal: number;
+    streakRule: StreakRule;
+}
+
+export interface ApplyStepsInput {
+    progress: UserProgress;
+    days: DaySteps[]; // Steps since progress.lastSyncTime per local day, oldest first
+    now: Date; // End of the synced window
+    trails: Trail[]; // Catalog and custom trails, to look up active sessions
+    badges: Badge[]; // The badge catalog in use
+    prefs: EnginePreferences;
+    timeZone: string; // The user's timezone right now; recorded on the daily logs and decides which day is today
+    dailyLogs: DailyLog[]; // Days logged before this sync, for badge rules and finished trail stats
+    todaySteps: number | null; // Steps so far today including these, or null to skip the goal check
+    goalAchievedOn: DateKey | null; // Last day a GoalAchieved event was raised
+}
+
+export interface EngineResult {
+    progress: UserProgress;
+    events: ProgressEvent[];
+    dailyLogEntries: DailyLog[]; // Steps to add to the daily log, one entry per local day
+}
+
+// Monthly badges awarded to one month, with its master and champion badges
+export interface MonthAward {
+    monthlyProgress: MonthlyProgress; // The context's month with the awards recorded
+    yearlyProgress: YearlyProgress[];
+    events: ProgressEvent[];
+    unlocks: BadgeUnlock[];
+}
+
+interface MonthState {
+    monthlyProgress: MonthlyProgress;
+    pastMonths: MonthlyProgress[];
+}
+
+const badgeEvent = (badgeId: string, badges: Badge[]): ProgressEvent | null => {
+    const badge = badges.find(b => b.id === badgeId);
+    return badge ? { type: 'BadgeUnlocked', badgeId, name: badge.name, icon: badge.icon } : null;
+};
+
+const badgeEvents = (badgeIds: string[], badges: Badge[]): ProgressEvent[] =>
+    badgeIds.flatMap(badgeId => {
+        const event = badgeEvent(badgeId, badges);
+        return event ? [event] : [];
+    });
+
+/**
+ * Helper: Unlock records for the badges in a list of events, as of the context's day
+ */
+const unlocksOf = (events: ProgressEvent[], context: BadgeContext, at: Date): BadgeUnlock[] =>
+    events.flatMap(event => event.type === 'BadgeUnlocked'
+        ? [BadgeService.createUnlock(event.badgeId, context, at.toISOString())]
+        : []);
+
+// Custom trails are user-defined, so only catalog trails count toward trail badges
+const catalogTrailCount = (trails: Trail[]) => trails.filter(t => t.category !== 'custom').length;
+
+const percentOf = (distanceMeters: number, trail: Trail) =>
+    Math.floor((distanceMeters / trail.totalDistanceMeters) * 100);
+
+/**
+ * Helper: Year and month (1-12) of a day key
+ */
+const monthOf = (date: DateKey): { year: number; month: number } =>
+    ({ year: Number(date.slice(0, 4)), month: Number(date.slice(5, 7)) });
+
+/**
+ * Helper: Move to a later month, archiving the current one with its real totals. Never moves back.
+ */
+const rollToMonth = (state: MonthState, year: number, month: number): MonthState => {
+    const current = state.monthlyProgress;
+    if (current && (current.year > year || (current.year === year && current.month >= month))) return state;
+    return {
+        monthlyProgress: BadgeService.createNewMonthlyProgress(year, month),
+        pastMonths: current ? [...state.pastMonths, current] : state.pastMonths
+    };
+};
+
+/**
+ * Helper: Add a day's steps to its month. That is the current month, unless the day belongs to an earlier
+ * month that was already archived; its entry in pastMonths is then updated, or added if it is missing.
+ * Returns the new month state and the credited month.
+ */
+const creditMonth = (state: MonthState, date: DateKey, steps: number, distanceMeters: number): { months: MonthState; monthlyProgress: MonthlyProgress } => {
+    const { year, month } = monthOf(date);
+    const isMonth = (mp: MonthlyProgress) => mp.year === year && mp.month === month;
+    const add = (mp: MonthlyProgress): MonthlyProgress => ({
+        ...mp,
+        stepsThisMonth: mp.stepsThisMonth + steps,
+        distanceMetersThisMonth: mp.distanceMetersThisMonth + distanceMeters
+    });
+
+    if (isMonth(state.monthlyProgress)) {
+        const monthlyProgress = add(state.monthlyProgress);
+        return { months: { ...state, monthlyProgress }, monthlyProgress };
+    }
+
+    const archived = state.pastMonths.find(isMonth);
+    const monthlyProgress = add(archived ?? BadgeService.createNewMonthlyProgress(year, month));
+    const pastMonths = archived
+        ? state.pastMonths.map(mp => mp === archived ? monthlyProgress : mp)
+        : [...state.pastMonths, monthlyProgress].sort((a, b) => a.year - b.year || a.month - b.month);
+    return { months: { ...state, pastMonths }, monthlyProgress };
+};
+
+/**
+ * Helper: Replace a month's entry, current or archived, with an updated copy
+ */
+const replaceMonth = (state: MonthState, updated: MonthlyProgress): MonthState => {
+    const isMonth = (mp: MonthlyProgress) => mp.year === updated.year && mp.month === updated.month;
+    return isMonth(state.monthlyProgress)
+        ? { ...state, monthlyProgress: updated }
+        : { ...state, pastMonths: state.pastMonths.map(mp => isMonth(mp) ? updated : mp) };
+};
+
+/**
+ * Helper: Replace a year's entry with an updated copy, or add it
+ */
+const replaceYear = (yearlyProgress: YearlyProgress[], updated: YearlyProgress): YearlyProgress[] =>
+    yearlyProgress.some(yp => yp.year === updated.year)
+        ? yearlyProgress.map(yp => yp.year === updated.year ? updated : yp)
+        : [...yearlyProgress, updated];
+
+/**
+ * Helper: Logs with this sync's entries added, for badge rules and the stats of trails it finishes
+ */
+const withEntries = (logs: DailyLog[], entries: DailyLog[]): DailyLog[] => {
+    const byDate = new Map(logs.map(log => [log.date, log]));
+    for (const entry of entries) {
+        byDate.set(entry.date, StatsService.addToDailyLog(byDate.get(entry.date), entry));
+    }
+    return [...byDate.values()];
+};
+
+export const ProgressEngine = {
+    /**
+     * Bring progress saved by an older version up to the current shape and the current month. Steps since
+     * lastSyncTime that were taken in the previous month are added to its archived entry by the next sync.
+     */
+    migrateStoredProgress(stored: UserProgress, now: Date, timeZone: string): UserProgress {
+        let p: UserProgress = { ...stored };
+
+        // Ensure stats object exists
+        if (!p.stats) {
+            p.stats = {
+                totalStepsLifetime: (p.totalStepsValid || 0) + (p.completedTrails?.reduce((acc: number, t: any) => acc + (t.totalSteps || 0), 0) || 0),
+                totalDistanceMetersLifetime: p.currentDistanceMeters || 0,
+                completedTrailsCount: p.completedTrails?.length || 0
+            };
+        }
+
+        // Move the single selected trail into activeTrails
+        if (!p.activeTrails) {
+            p = TrailSessionService.migrateLegacyProgress(p);
+        }
+
+        // Initialize monthly progress if missing
+        if (!p.monthlyProgress) {
+            const { year, month } = monthOf(toLocalDateKey(now, timeZone));
+            p.monthlyProgress = BadgeService.createNewMonthlyProgress(year, month);
+        }
+
+        // Initialize yearly progress and trail badges if missing
+        if (!p.yearlyProgress) {
+            p.yearlyProgress = [];
+        }
+        if (!p.trailBadges) {
+            p.trailBadges = [];
+        }
+
+        // Ensure completedTrails is an array of objects
+        if (!p.completedTrails) {
+            p.completedTrails = [];
+        } else if (p.completedTrails.length > 0 && typeof p.completedTrails[0] === 'string') {
+            p.completedTrails = (p.completedTrails as any[]).map((id: string) => ({
+                trailId: id,
+                completedDate: now.toISOString(),
+                startDate: now.toISOString(),
+                totalSteps: 0,
+                totalDays: 1,
+                avgStepsPerDay: 0,
+                maxStepsInOneDay: 0
+            }));
+        }
+
+        // Initialize pastMonths if missing
+        if (!p.pastMonths) {
+            p.pastMonths = [];
+        }
+
+        // Record unlocks for badges earned before unlocks were recorded
+        return this.rollToCurrentMonth(BadgeService.backfillUnlocks(p), now, timeZone);
+    },
+
+    /**
+     * Move to the month of `now` in the timezone with no steps yet, archiving the current month. For when no
+     * steps can be credited (loading, no step access, nothing readable), so the month does not wait for them.
+     * Returns the same object if the month is already current.
+     */
+    rollToCurrentMonth(progress: UserProgress, now: Date, timeZone: string): UserProgress {
+        const { year, month } = monthOf(toLocalDateKey(now, timeZone));
+        const months = { monthlyProgress: progress.monthlyProgress, pastMonths: progress.pastMonths || [] };
+        const rolled = rollToMonth(months, year, month);
+        if (rolled === months) return progress;
+        return { ...progress, monthlyProgress: rolled.monthlyProgress, pastMonths: rolled.pastMonths };
+    },
+
+    /**
+     * Move every active trail that reached its end into completedTrails and award the lifetime badges
+     * that unlocks. Days are counted in the given timezone.
+     */
+    completeTrails(progress: UserProgress, trails: Trail[], badges: Badge[], now: Date, dailyLogs: DailyLog[], timeZone: string): { progress: UserProgress; events: ProgressEvent[] } {
+        let updated = progress;
+        const events: ProgressEvent[] = [];
+
+        for (const session of progress.activeTrails) {
+            const trail = trails.find(t => t.id === session.trailId);
+            if (!trail) continue;
+            const completedTrail = StatsService.checkTrailCompletion(updated, trail, now, dailyLogs, timeZone);
+            if (!completedTrail) continue;
+            events.push({ type: 'TrailCompleted', trailId: trail.id, trailName: trail.name, completedTrail });
+
+            const newCompletedTrails = [...(updated.completedTrails || []), completedTrail];
+            updated = {
+                ...updated,
+                completedTrails: newCompletedTrails,
+                stats: {
+                    ...updated.stats,
+                    completedTrailsCount: newCompletedTrails.length
+                },
+                activeTrails: TrailSessionService.removeSession(updated.activeTrails, session.trailId)
+            };
+
+            const context = this.badgeContext(updated, dailyLogs, toLocalDateKey(now, timeZone), trails, badges);
+            const newBadges = BadgeService.checkLifetimeBadges(context);
+            events.push(...badgeEvents(newBadges, badges));
+            updated = BadgeService.addUnlocks(
+                BadgeService.addLifetimeBadges(updated, newBadges, badges),
+                newBadges.map(badgeId => BadgeService.createUnlock(badgeId, context, now.toISOString(), trail.id))
+            );
+        }
+
+        return { progress: updated, events };
+    },
+
+    /**
+     * Credit a sync's steps to the day, month and streak they were taken on.
+     * Days without steps only move the month along; lastSyncTime always moves to now.
+     * A day of a month that was already archived is added to that month's entry in pastMonths.
+     */
+    applySteps(input: ApplyStepsInput): EngineResult {
+        const { progress: current, now, trails, badges, prefs, timeZone } = input;
+        const events: ProgressEvent[] = [];
+        const dailyLogEntries: DailyLog[] = [];
+        const unlocks: BadgeUnlock[] = [];
+
+        let months: MonthState = { monthlyProgress: current.monthlyProgress, pastMonths: current.pastMonths || [] };
+        let yearlyProgress = current.yearlyProgress || [];
+        let activeTrails = current.activeTrails;
+        let streak = StreakService.fromProgress(current);
+        let lastLogDate = current.lastLogDate;
+        let totalSteps = 0;
+        let totalDistance = 0;
+
+        for (const { date, steps, hourlySteps } of input.days) {
+            if (steps <= 0) continue;
+            const distanceMeters = stepsToMeters(steps, prefs.strideLengthCm);
+            totalSteps += steps;
+            totalDistance += distanceMeters;
+            dailyLogEntries.push({ date, steps, distanceMeters, timeZone, ...(hourlySteps ? { hourlySteps } : {}) });
+
+            // Month of that day; the finished month is archived with its real totals
+            const { year, month } = monthOf(date);
+            const credit = creditMonth(rollToMonth(months, year, month), date, steps, distanceMeters);
+            months = credit.months;
+            const { monthlyProgress } = credit;
+
+            // Streak over local calendar days. Travelling west can make a day earlier than the last
+            // logged one; the last logged day never moves back.
+            streak = StreakService.recordDay(streak, date, steps, prefs.streakRule, prefs.dailyGoal);
+            if (!lastLogDate || date > lastLogDate) lastLogDate = date;
+
+            // Badges of that day's month as of that day
+            const monthContext = this.badgeContext(
+                { ...current, monthlyProgress, yearlyProgress, streak },
+                withEntries(input.dailyLogs, dailyLogEntries),
+                date,
+                trails,
+                badges
+            );
+            const awarded = this.awardMonthlyBadges(monthContext, now);
+            months = replaceMonth(months, awarded.monthlyProgress);
+            yearlyProgress = awarded.yearlyProgress;
+            events.push(...awarded.events);
+            unlocks.push(...awarded.unlocks);
+
+            // Only trails that had started by that day walk it
+            activeTrails = TrailSessionService.addStepsOnDay(activeTrails, date, steps, distanceMeters, timeZone);
+        }
+
+        const today = toLocalDateKey(now, timeZone);
+        const thisMonth = monthOf(today);
+        months = rollToMonth(months, thisMonth.year, thisMonth.month);
+
+        // Days missed before today use up freezes, or end the streak
+        streak = StreakService.applyFreezes(streak, today);
+
+        if (totalSteps === 0) {
+            return {
+                progress: {
+                    ...current,
+                    lastSyncTime: now.toISOString(),
+                    monthlyProgress: months.monthlyProgress,
+                    pastMonths: months.pastMonths,
+                    streak,
+                    currentStreak: streak.current
+                },
+                events,
+                dailyLogEntries
+            };
+        }
+
+        // Report the furthest milestone and every landmark each trail passed
+        for (const session of activeTrails) {
+            const trail = trails.find(t => t.id === session.trailId);
+            if (!trail) continue;
+
+            const previousDistance = current.activeTrails.find(s => s.trailId === session.trailId)?.currentDistanceMeters || 0;
+            const finished = session.currentDistanceMeters >= trail.totalDistanceMeters;
+            if (!finished) {
+                const prevPercent = percentOf(previousDistance, trail);
+                const newPercent = percentOf(session.currentDistanceMeters, trail);
+                const passed = TRAIL_MILESTONES.filter(m => prevPercent < m && newPercent >= m);
+                if (passed.length > 0) {
+                    events.push({ type: 'MilestoneReached', trailId: trail.id, trailName: trail.name, percent: passed[passed.length - 1] });
+                }
+            }
+
+            for (const lm of trail.landmarks) {
+                if (lm.distanceMeters > previousDistance && lm.distanceMeters <= session.currentDistanceMeters) {
+                    events.push({ type: 'LandmarkReached', trailId: trail.id, landmarkId: lm.id, landmarkName: lm.name });
+                }
+            }
+        }
+
+        const credited: UserProgress = BadgeService.addUnlocks({
+            ...current,
+            stats: {
+                ...current.stats,
+                totalStepsLifetime: (current.stats?.totalStepsLifetime || 0) + totalSteps,
+                totalDistanceMetersLifetime: (current.stats?.totalDistanceMetersLifetime || 0) + totalDistance,
+                completedTrailsCount: current.completedTrails?.length || 0
+            },
+            activeTrails,
+            lastSyncTime: now.toISOString(),
+            streak,
+            currentStreak: streak.current,
+            lastLogDate,
+            completedTrails: current.completedTrails || [],
+            monthlyProgress: months.monthlyProgress,
+            pastMonths: months.pastMonths,
+            yearlyProgress
+        }, unlocks);
+
+        const logs = withEntries(input.dailyLogs, dailyLogEntries);
+        const completion = this.completeTrails(credited, trails, badges, now, logs, timeZone);
+        events.push(...completion.events);
+
+        // Lifetime badges for everything credited, such as streaks and walking feats
+        const context = this.badgeContext(completion.progress, logs, today, trails, badges);
+        const newBadges = BadgeService.checkLifetimeBadges(context);
+        events.push(...badgeEvents(newBadges, badges));
+        const updated = BadgeService.addUnlocks(
+            BadgeService.addLifetimeBadges(completion.progress, newBadges, badges),
+            newBadges.map(badgeId => BadgeService.createUnlock(badgeId, context, now.toISOString()))
+        );
+
+        // Daily goal, raised once per day
+        if (input.todaySteps !== null && input.todaySteps >= prefs.dailyGoal && input.goalAchievedOn !== today) {
+            events.push({ type: 'GoalAchieved', date: today, goal: prefs.dailyGoal, steps: input.todaySteps });
+        }
+
+        return { progress: updated, events, dailyLogEntries };
+    },
+
+    /**
+     * Context for checking badge rules as of a day
+     */
+    badgeContext(progress: UserProgress, dailyLogs: DailyLog[], today: DateKey, trails: Trail[], badges: Badge[]): BadgeContext {
+        return { progress, dailyLogs, today, catalogTrailCount: catalogTrailCount(trails), badges };
+    },
+
+    /**
+     * Award the monthly badges of the context's month, then its master and champion badges. Returns that
+     * month and the yearly progress with the awards recorded; the context is left unchanged.
+     */
+    awardMonthlyBadges(context: BadgeContext, at: Date): MonthAward {
+        const { monthlyProgress } = context.progress;
+        const newBadges = BadgeService.checkMonthlyBadges(context);
+        const withBadges: BadgeContext = newBadges.length === 0 ? context : {
+            ...context,
+            progress: {
+                ...context.progress,
+                monthlyProgress: { ...monthlyProgress, unlockedBadgeIds: [...monthlyProgress.unlockedBadgeIds, ...newBadges] }
+            }
+        };
+
+        const master = this.awardMasterBadges(withBadges);
+        const events = [...badgeEvents(newBadges, context.badges), ...master.events];
+        // Unlock values are measured with the awards recorded, e.g. the month's badge count
+        const awarded: BadgeContext = {
+            ...withBadges,
+            progress: { ...withBadges.progress, monthlyProgress: master.monthlyProgress, yearlyProgress: master.yearlyProgress }
+        };
+        return { ...master, events, unlocks: unlocksOf(events, awarded, at) };
+    },
+
+    /**
+     * Award the monthly master, and the yearly champion once every month of the year is mastered.
+     * Returns the context's month and yearly progress with them recorded.
+     */
+    awardMasterBadges(context: BadgeContext): Omit<MonthAward, 'unlocks'> {
+        const { monthlyProgress } = context.progress;
+        const yearlyProgress = context.progress.yearlyProgress || [];
+        if (!BadgeService.checkMonthlyMaster(context)) return { monthlyProgress, yearlyProgress, events: [] };
+
+        const mastered: MonthlyProgress = { ...monthlyProgress, monthlyBadgeEarned: true };
+        const events: ProgressEvent[] = [{
+            type: 'BadgeUnlocked',
+            badgeId: `master-${mastered.month}`,
+            name: BadgeService.getMonthlyMasterName(mastered.year, mastered.month),
+            icon: BadgeService.getMonthlyMasterIcon(mastered.month)
+        }];
+
+        const yearProgress = BadgeService.getOrCreateYearlyProgress(yearlyProgress, mastered.year);
+        let year: YearlyProgress = yearProgress.monthlyBadgesEarned.includes(mastered.month)
+            ? yearProgress
+            : { ...yearProgress, monthlyBadgesEarned: [...yearProgress.monthlyBadgesEarned, mastered.month] };
+
+        const championContext: BadgeContext = {
+            ...context,
+            progress: { ...context.progress, monthlyProgress: mastered, yearlyProgress: replaceYear(yearlyProgress, year) }
+        };
+        if (BadgeService.checkYearlyChampion(championContext)) {
+            year = { ...year, yearlyBadgeEarned: true };
+            events.push({
+                type: 'BadgeUnlocked',
+                badgeId: `champion-${year.year}`,
+                name: BadgeService.getYearlyChampionName(year.year),
+                icon: '🏆'
+            });
+        }
+
+        return { monthlyProgress: mastered, yearlyProgress: replaceYear(yearlyProgress, year), events };
+    }
+};
@@ -0,0 +1,243 @@
+/**
+ * File: src/services/ProgressMergeService.test.ts
+ * Purpose: Unit tests for ProgressMergeService.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Added streak merge tests.
+ * 2026-10-19: Added badge unlock merge tests.
+ */
+import { ProgressMergeService } from './ProgressMergeService';
+import { ActiveTrail, StreakState, UserProgress } from '../types';
+
+const baseSession: ActiveTrail = {
+    trailId: 'test-trail',
+    startDate: '2026-03-01T00:00:00.000Z',
+    targetDays: 7,
+    totalStepsValid: 1000,
+    currentDistanceMeters: 760
+};
+
+const baseProgress: UserProgress = {
+    activeTrails: [baseSession],
+    stats: {
+        totalStepsLifetime: 5000,
+        totalDistanceMetersLifetime: 3800,
+        completedTrailsCount: 0
+    },
+    lastSyncTime: '2026-03-05T10:00:00.000Z',
+    updatedAt: '2026-03-05T10:00:00.000Z',
+    monthlyProgress: {
+        year: 2026,
+        month: 3,
+        stepsThisMonth: 5000,
+        distanceMetersThisMonth: 3800,
+        unlockedBadgeIds: ['step-5k'],
+        monthlyBadgeEarned: false
+    },
+    pastMonths: [],
+    yearlyProgress: [],
+    trailBadges: [],
+    completedTrails: [],
+    currentStreak: 3,
+    lastLogDate: '2026-03-05'
+};
+
+describe('ProgressMergeService', () => {
+    describe('mergeProgress', () => {
+        it('should return the other copy when one side is missing', () => {
+            expect(ProgressMergeService.mergeProgress(null, baseProgress)).toBe(baseProgress);
+            expect(ProgressMergeService.mergeProgress(baseProgress, null)).toBe(baseProgress);
+            expect(ProgressMergeService.mergeProgress(null, null)).toBeNull();
+        });
+
+        it('should keep the highest distance when both copies walk the same trail session', () => {
+            const local = {
+                ...baseProgress,
+                activeTrails: [{ ...baseSession, currentDistanceMeters: 2000, totalStepsValid: 2600 }],
+                updatedAt: '2026-03-05T09:00:00.000Z'
+            };
+            const remote = {
+                ...baseProgress,
+                activeTrails: [{ ...baseSession, currentDistanceMeters: 1500, totalStepsValid: 2000 }],
+                updatedAt: '2026-03-05T11:00:00.000Z'
+            };
+
+            const merged = ProgressMergeService.mergeProgress(local, remote)!;
+            expect(merged.activeTrails[0].currentDistanceMeters).toBe(2000);
+            expect(merged.activeTrails[0].totalStepsValid).toBe(2600);
+        });
+
+        it('should take the active trails from the most recent write when sessions differ', () => {
+            const local = {
+                ...baseProgress,
+                activeTrails: [{ ...baseSession, trailId: 'trail-a', currentDistanceMeters: 9000 }],
+                updatedAt: '2026-03-05T09:00:00.000Z'
+            };
+            const remote = {
+                ...baseProgress,
+                activeTrails: [{ ...baseSession, trailId: 'trail-b', currentDistanceMeters: 100 }],
+                updatedAt: '2026-03-05T11:00:00.000Z'
+            };
+
+            const merged = ProgressMergeService.mergeProgress(local, remote)!;
+            expect(merged.activeTrails.map(s => s.trailId)).toEqual(['trail-b']);
+            expect(merged.activeTrails[0].currentDistanceMeters).toBe(100);
+        });
+
+        it('should migrate a legacy single-trail copy before merging', () => {
+            const { activeTrails, ...rest } = baseProgress;
+            const legacy = {
+                ...rest,
+                selectedTrailId: 'test-trail',
+                trailStartDate: baseSession.startDate,
+                targetDays: 7,
+                totalStepsValid: 3000,
+                currentDistanceMeters: 2286
+            } as UserProgress;
+
+            const merged = ProgressMergeService.mergeProgress(baseProgress, legacy)!;
+            expect(merged.activeTrails).toHaveLength(1);
+            expect(merged.activeTrails[0].currentDistanceMeters).toBe(2286);
+            expect(merged.selectedTrailId).toBeUndefined();
+        });
+
+        it('should keep lifetime stats and the latest sync time from either side', () => {
+            const local = {
+                ...baseProgress,
+                stats: { ...baseProgress.stats, totalStepsLifetime: 9000 },
+                lastSyncTime: '2026-03-05T12:00:00.000Z'
+            };
+            const remote = {
+                ...baseProgress,
+                stats: { ...baseProgress.stats, totalDistanceMetersLifetime: 8000 },
+                updatedAt: '2026-03-05T13:00:00.000Z'
+            };
+
+            const merged = ProgressMergeService.mergeProgress(local, remote)!;
+            expect(merged.stats.totalStepsLifetime).toBe(9000);
+            expect(merged.stats.totalDistanceMetersLifetime).toBe(8000);
+            expect(merged.lastSyncTime).toBe('2026-03-05T12:00:00.000Z');
+        });
+
+        it('should union badges and completed trails', () => {
+            const completed = {
+                trailId: 'trail-a',
+                completedDate: '2026-03-02T00:00:00.000Z',
+                startDate: '2026-03-01T00:00:00.000Z',
+                totalSteps: 1000,
+                totalDays: 1,
+                avgStepsPerDay: 1000,
+                maxStepsInOneDay: 1000
+            };
+            const local = {
+                ...baseProgress,
+                trailBadges: ['trail-1'],
+                completedTrails: [completed],
+                monthlyProgress: { ...baseProgress.monthlyProgress, unlockedBadgeIds: ['step-5k', 'dist-5k'] }
+            };
+            const remote = {
+                ...baseProgress,
+                trailBadges: ['trail-3'],
+                completedTrails: [completed],
+                updatedAt: '2026-03-06T00:00:00.000Z'
+            };
+
+            const merged = ProgressMergeService.mergeProgress(local, remote)!;
+            expect(merged.trailBadges.sort()).toEqual(['trail-1', 'trail-3']);
+            expect(merged.completedTrails).toHaveLength(1);
+            expect(merged.stats.completedTrailsCount).toBe(1);
+            expect(merged.monthlyProgress.unlockedBadgeIds).toEqual(expect.arrayContaining(['step-5k', 'dist-5k']));
+        });
+
+        it('should archive the earlier month when the copies are in different months', () => {
+            const local = {
+                ...baseProgress,
+                monthlyProgress: { ...baseProgress.monthlyProgress, month: 4, stepsThisMonth: 100 },
+                updatedAt: '2026-03-01T00:00:00.000Z'
+            };
+            const remote = { ...baseProgress, updatedAt: '2026-03-06T00:00:00.000Z' };
+
+            const merged = ProgressMergeService.mergeProgress(local, remote)!;
+            expect(merged.monthlyProgress.month).toBe(4);
+            expect(merged.pastMonths).toHaveLength(1);
+            expect(merged.pastMonths![0].month).toBe(3);
+            expect(merged.pastMonths![0].stepsThisMonth).toBe(5000);
+        });
+
+        it('should take the streak from the copy that logged most recently', () => {
+            const local = { ...baseProgress, currentStreak: 8, lastLogDate: '2026-03-06' };
+            const remote = { ...baseProgress, currentStreak: 2, lastLogDate: '2026-03-04', updatedAt: '2026-03-07T00:00:00.000Z' };
+
+            const merged = ProgressMergeService.mergeProgress(local, remote)!;
+            expect(merged.currentStreak).toBe(8);
+            expect(merged.lastLogDate).toBe('2026-03-06');
+        });
+
+        it('should take the streak state that covers the later day and keep the best of both', () => {
+            const streak: StreakState = {
+                current: 3, longest: 3, lastQualifiedDate: '2026-03-05', coveredThrough: '2026-03-05',
+                dayDate: '2026-03-05', daySteps: 4000, freezes: 1, daysTowardFreeze: 3, frozenDates: []
+            };
+            const local = { ...baseProgress, streak: { ...streak, longest: 12, frozenDates: ['2026-02-10'] }, streakBadges: ['streak-7'] };
+            const remote = {
+                ...baseProgress,
+                streak: { ...streak, current: 4, longest: 4, lastQualifiedDate: '2026-03-06', coveredThrough: '2026-03-06', freezes: 0 },
+                streakBadges: ['streak-3']
+            };
+
+            const merged = ProgressMergeService.mergeProgress(local, remote)!;
+            expect(merged.streak).toMatchObject({ current: 4, longest: 12, coveredThrough: '2026-03-06', freezes: 0, frozenDates: ['2026-02-10'] });
+            expect(merged.currentStreak).toBe(4);
+            expect(merged.streakBadges).toEqual(['streak-7', 'streak-3']);
+        });
+
+        it('should not add a streak state when neither copy has one', () => {
+            const merged = ProgressMergeService.mergeProgress(baseProgress, { ...baseProgress })!;
+            expect('streak' in merged).toBe(false);
+        });
+    });
+
+    describe('mergeYearlyProgress', () => {
+        it('should merge earned months for the same year', () => {
+            const result = ProgressMergeService.mergeYearlyProgress(
+                [{ year: 2026, monthlyBadgesEarned: [1, 2], yearlyBadgeEarned: false }],
+                [{ year: 2026, monthlyBadgesEarned: [2, 3], yearlyBadgeEarned: false }]
+            );
+            expect(result).toEqual([{ year: 2026, monthlyBadgesEarned: [1, 2, 3], yearlyBadgeEarned: false }]);
+        });
+    });
+
+    describe('mergeBadgeUnlocks', () => {
+        it('should keep one record per unlock, preferring recorded over estimated and then the earlier one', () => {
+            const result = ProgressMergeService.mergeBadgeUnlocks(
+                [
+                    { badgeId: 'trail-1', unlockedAt: '2026-03-04T10:00:00.000Z', estimated: true },
+                    { badgeId: 'step-5k', unlockedAt: '2026-03-02T10:00:00.000Z', year: 2026, month: 3 }
+                ],
+                [
+                    { badgeId: 'trail-1', unlockedAt: '2026-03-05T10:00:00.000Z', value: 1 },
+                    { badgeId: 'step-5k', unlockedAt: '2026-03-01T10:00:00.000Z', year: 2026, month: 3 },
+                    { badgeId: 'step-5k', unlockedAt: '2026-02-01T10:00:00.000Z', year: 2026, month: 2 }
+                ]
+            );
+            expect(result).toEqual([
+                { badgeId: 'step-5k', unlockedAt: '2026-02-01T10:00:00.000Z', year: 2026, month: 2 },
+                { badgeId: 'step-5k', unlockedAt: '2026-03-01T10:00:00.000Z', year: 2026, month: 3 },
+                { badgeId: 'trail-1', unlockedAt: '2026-03-05T10:00:00.000Z', value: 1 }
+            ]);
+        });
+    });
+
+    describe('mergeDailyLogs', () => {
+        it('should keep the fuller log for each date, newest first', () => {
+            const result = ProgressMergeService.mergeDailyLogs(
+                [{ date: '2026-03-01', steps: 500, distanceMeters: 380 }, { date: '2026-03-02', steps: 9000, distanceMeters: 6858 }],
+                [{ date: '2026-03-01', steps: 4000, distanceMeters: 3048 }]
+            );
+            expect(result.map(l => l.date)).toEqual(['2026-03-02', '2026-03-01']);
+            expect(result[1].steps).toBe(4000);
+        });
+    });
+});
@@ -0,0 +1,231 @@
+/**
+ * File: src/services/ProgressMergeService.ts
+ * Purpose: Conflict resolution between the local and Firestore copies of user data.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Expedition sessions also keep the larger of the user's own contributions.
+ * 2026-10-19: Challenge wins and badges are merged like trail badges.
+ * 2026-10-19: Merges the streak state and streak badges.
+ * 2026-10-19: Merges rule-defined lifetime badges.
+ * 2026-10-19: Merges badge unlock records.
+ */
+import { ActiveTrail, BadgeUnlock, CompletedTrail, DailyLog, MonthlyProgress, StreakState, UserProgress, YearlyProgress } from '../types';
+import { TrailSessionService } from './TrailSessionService';
+import { BadgeService } from './BadgeService';
+
+/**
+ * Helper: Timestamp used to decide which copy of UserProgress was written last
+ */
+const writtenAt = (progress: UserProgress): number => {
+    return new Date(progress.updatedAt || progress.lastSyncTime).getTime() || 0;
+};
+
+const laterIso = (a: string, b: string): string => {
+    return new Date(a).getTime() >= new Date(b).getTime() ? a : b;
+};
+
+const union = (a: string[] = [], b: string[] = []): string[] => {
+    return Array.from(new Set([...a, ...b]));
+};
+
+const monthIndex = (mp: MonthlyProgress): number => mp.year * 12 + mp.month;
+
+export const ProgressMergeService = {
+    /**
+     * Merge two snapshots of the same month, keeping the highest totals and every unlocked badge
+     */
+    mergeMonthlyProgress(a: MonthlyProgress, b: MonthlyProgress): MonthlyProgress {
+        return {
+            ...a,
+            stepsThisMonth: Math.max(a.stepsThisMonth, b.stepsThisMonth),
+            distanceMetersThisMonth: Math.max(a.distanceMetersThisMonth, b.distanceMetersThisMonth),
+            unlockedBadgeIds: union(a.unlockedBadgeIds, b.unlockedBadgeIds),
+            monthlyBadgeEarned: a.monthlyBadgeEarned || b.monthlyBadgeEarned
+        };
+    },
+
+    /**
+     * Union of archived months, merging entries for the same year/month
+     */
+    mergePastMonths(a: MonthlyProgress[] = [], b: MonthlyProgress[] = []): MonthlyProgress[] {
+        const byMonth = new Map<number, MonthlyProgress>();
+        for (const mp of [...a, ...b]) {
+            const existing = byMonth.get(monthIndex(mp));
+            byMonth.set(monthIndex(mp), existing ? this.mergeMonthlyProgress(existing, mp) : mp);
+        }
+        return Array.from(byMonth.values()).sort((x, y) => monthIndex(x) - monthIndex(y));
+    },
+
+    /**
+     * Union of yearly progress, merging the earned monthly badges for the same year
+     */
+    mergeYearlyProgress(a: YearlyProgress[] = [], b: YearlyProgress[] = []): YearlyProgress[] {
+        const byYear = new Map<number, YearlyProgress>();
+        for (const yp of [...a, ...b]) {
+            const existing = byYear.get(yp.year);
+            byYear.set(yp.year, existing ? {
+                year: yp.year,
+                monthlyBadgesEarned: Array.from(new Set([...existing.monthlyBadgesEarned, ...yp.monthlyBadgesEarned])).sort((x, y) => x - y),
+                yearlyBadgeEarned: existing.yearlyBadgeEarned || yp.yearlyBadgeEarned
+            } : { ...yp, monthlyBadgesEarned: [...yp.monthlyBadgesEarned] });
+        }
+        return Array.from(byYear.values()).sort((x, y) => x.year - y.year);
+    },
+
+    /**
+     * Union of completed trails, de-duplicated by trail and completion date
+     */
+    mergeCompletedTrails(a: CompletedTrail[] = [], b: CompletedTrail[] = []): CompletedTrail[] {
+        const seen = new Map<string, CompletedTrail>();
+        for (const ct of [...a, ...b]) {
+            const key = `${ct.trailId}|${ct.completedDate}`;
+            if (!seen.has(key)) seen.set(key, ct);
+        }
+        return Array.from(seen.values());
+    },
+
+    /**
+     * Union of badge unlocks, one per unlock. A recorded unlock beats an estimated one, otherwise the earlier one is kept.
+     */
+    mergeBadgeUnlocks(a: BadgeUnlock[] = [], b: BadgeUnlock[] = []): BadgeUnlock[] {
+        const byKey = new Map<string, BadgeUnlock>();
+        for (const unlock of [...a, ...b]) {
+            const key = BadgeService.unlockKey(unlock);
+            const existing = byKey.get(key);
+            const better = !existing
+                || (!!existing.estimated && !unlock.estimated)
+                || (!!existing.estimated === !!unlock.estimated && new Date(unlock.unlockedAt).getTime() < new Date(existing.unlockedAt).getTime());
+            if (better) byKey.set(key, unlock);
+        }
+        return BadgeService.sortUnlocks(Array.from(byKey.values()));
+    },
+
+    /**
+     * Active trails come from the newer copy; sessions present in both keep the furthest distance
+     */
+    mergeActiveTrails(newer: ActiveTrail[] = [], older: ActiveTrail[] = []): ActiveTrail[] {
+        return newer.map(session => {
+            const other = older.find(o => o.trailId === session.trailId && o.startDate === session.startDate);
+            if (!other) return session;
+            return {
+                ...session,
+                totalStepsValid: Math.max(session.totalStepsValid, other.totalStepsValid),
+                currentDistanceMeters: Math.max(session.currentDistanceMeters, other.currentDistanceMeters),
+                ...(session.expedition && other.expedition ? {
+                    expedition: {
+                        ...session.expedition,
+                        steps: Math.max(session.expedition.steps, other.expedition.steps),
+                        distanceMeters: Math.max(session.expedition.distanceMeters, other.expedition.distanceMeters)
+                    }
+                } : {})
+            };
+        });
+    },
+
+    /**
+     * The streak from the copy that covers the later day (the longer run on a tie), keeping the longest
+     * streak and every frozen day from both
+     */
+    mergeStreak(a: StreakState | undefined, b: StreakState | undefined): StreakState | undefined {
+        if (!a || !b) return a || b;
+        const aCovered = a.coveredThrough || '';
+        const bCovered = b.coveredThrough || '';
+        const ahead = aCovered !== bCovered ? (aCovered > bCovered ? a : b) : (a.current >= b.current ? a : b);
+        return {
+            ...ahead,
+            longest: Math.max(a.longest, b.longest),
+            frozenDates: union(a.frozenDates, b.frozenDates).sort()
+        };
+    },
+
+    /**
+     * Resolve a conflict between the local and remote UserProgress.
+     *
+     * Monotonic data (lifetime stats, badges, completed trails, archived months) is
+     * merged so nothing earned on either side is lost. Choices that cannot be merged
+     * (which trails are active, favorites) come from whichever copy was written last.
+     */
+    mergeProgress(local: UserProgress | null, remote: UserProgress | null): UserProgress | null {
+        if (!local) return remote;
+        if (!remote) return local;
+
+        local = TrailSessionService.migrateLegacyProgress(local);
+        remote = TrailSessionService.migrateLegacyProgress(remote);
+
+        const localIsNewer = writtenAt(local) >= writtenAt(remote);
+        const newer = localIsNewer ? local : remote;
+        const older = localIsNewer ? remote : local;
+
+        // Monthly progress: same month merges, otherwise the later month is current and the other is archived
+        let monthlyProgress = newer.monthlyProgress;
+        let pastMonths = this.mergePastMonths(newer.pastMonths, older.pastMonths);
+        if (newer.monthlyProgress && older.monthlyProgress) {
+            const diff = monthIndex(newer.monthlyProgress) - monthIndex(older.monthlyProgress);
+            if (diff === 0) {
+                monthlyProgress = this.mergeMonthlyProgress(newer.monthlyProgress, older.monthlyProgress);
+            } else {
+                const [current, archived] = diff > 0
+                    ? [newer.monthlyProgress, older.monthlyProgress]
+                    : [older.monthlyProgress, newer.monthlyProgress];
+                monthlyProgress = current;
+                pastMonths = this.mergePastMonths(pastMonths, [archived]);
+            }
+        }
+        pastMonths = pastMonths.filter(pm => monthIndex(pm) !== monthIndex(monthlyProgress));
+
+        const completedTrails = this.mergeCompletedTrails(newer.completedTrails, older.completedTrails);
+
+        // Streak: the copy that logged most recently knows the current streak
+        let currentStreak = newer.currentStreak;
+        let lastLogDate = newer.lastLogDate;
+        if (older.lastLogDate && (!lastLogDate || older.lastLogDate > lastLogDate)) {
+            currentStreak = older.currentStreak;
+            lastLogDate = older.lastLogDate;
+        } else if (older.lastLogDate === lastLogDate) {
+            currentStreak = Math.max(newer.currentStreak || 0, older.currentStreak || 0);
+        }
+        const streak = this.mergeStreak(newer.streak, older.streak);
+
+        return {
+            ...newer,
+            activeTrails: this.mergeActiveTrails(newer.activeTrails, older.activeTrails),
+            stats: {
+                totalStepsLifetime: Math.max(newer.stats?.totalStepsLifetime || 0, older.stats?.totalStepsLifetime || 0),
+                totalDistanceMetersLifetime: Math.max(newer.stats?.totalDistanceMetersLifetime || 0, older.stats?.totalDistanceMetersLifetime || 0),
+                completedTrailsCount: completedTrails.length
+            },
+            // The later sync time wins so pedometer windows are never counted twice
+            lastSyncTime: laterIso(newer.lastSyncTime, older.lastSyncTime),
+            monthlyProgress,
+            pastMonths,
+            yearlyProgress: this.mergeYearlyProgress(newer.yearlyProgress, older.yearlyProgress),
+            trailBadges: union(newer.trailBadges, older.trailBadges),
+            challengesWon: union(newer.challengesWon, older.challengesWon),
+            challengeBadges: union(newer.challengeBadges, older.challengeBadges),
+            streakBadges: union(newer.streakBadges, older.streakBadges),
+            lifetimeBadges: union(newer.lifetimeBadges, older.lifetimeBadges),
+            badgeUnlocks: this.mergeBadgeUnlocks(newer.badgeUnlocks, older.badgeUnlocks),
+            completedTrails,
+            currentStreak,
+            lastLogDate,
+            ...(streak ? { streak, currentStreak: streak.current } : {})
+        };
+    },
+
+    /**
+     * Merge two lists of daily logs. Logs are cumulative per day, so the entry
+     * with more steps is the more complete one.
+     */
+    mergeDailyLogs(a: DailyLog[], b: DailyLog[]): DailyLog[] {
+        const byDate = new Map<string, DailyLog>();
+        for (const log of [...a, ...b]) {
+            const existing = byDate.get(log.date);
+            if (!existing || log.steps > existing.steps) {
+                byDate.set(log.date, log);
+            }
+        }
+        return Array.from(byDate.values()).sort((x, y) => y.date.localeCompare(x.date));
+    }
+};
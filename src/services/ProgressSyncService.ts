@@ -0,0 +1,271 @@
+/**
+ * File: src/services/ProgressSyncService.ts
+ * Purpose: The step sync pipeline: reads the steps taken since the last sync, lets ProgressEngine credit them,
+ * then saves the result and sends notifications for its events. Runs without React so the background sync
+ * task and GameContext share it; GameContext adopts every result through subscribe.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Progress rules moved to the pure ProgressEngine; this only does I/O and side effects.
+ * 2026-10-19: Reads the window one local day at a time so each day's steps are credited to that day.
+ * 2026-10-19: Passes the streak rule preference to the engine.
+ * 2026-10-19: Reads each active day hour by hour for hour-based badge rules; always passes the daily logs.
+ * 2026-10-19: Finished trails are completed in the device's timezone.
+ * 2026-10-19: Hours are only read while a badge that counts steps by hour can still unlock.
+ * 2026-10-19: A sync that cannot read any steps still rolls over to the current month.
+ * 2026-10-19: Takes the badge catalog in use; only the latest days with steps are read hour by hour.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CompletedTrail, StreakRule, Trail, UserProgress } from '../types';
+import { StorageService } from './StorageService';
+import { StepService } from './StepService';
+import { NotificationService } from './NotificationService';
+import { DaySteps, ProgressEngine, ProgressEvent } from './ProgressEngine';
+import { BadgeService } from './BadgeService';
+import { Badge } from '../const/badges';
+import { getDeviceTimeZone, splitByLocalDay, splitByLocalHour } from '../utils/date';
+
+export interface SyncInput {
+    userId: string;
+    progress: UserProgress; // The latest progress; steps after its lastSyncTime are credited
+    trails: Trail[]; // Catalog and custom trails, to look up active sessions
+    badges: Badge[]; // The badge catalog in use
+    strideLengthCm: number;
+    interactive: boolean; // May prompt for step access. False for the background task, which has no UI.
+}
+
+export interface SyncResult {
+    userId: string;
+    previous: UserProgress;
+    progress: UserProgress; // Already saved
+    newSteps: number;
+    events: ProgressEvent[];
+    completedTrails: CompletedTrail[]; // Finished by this sync, oldest first
+    todaySteps: number | null; // Re-read when new steps were credited, otherwise null
+}
+
+type SyncListener = (result: SyncResult) => void;
+
+const DEFAULT_DAILY_GOAL = 10000;
+const DEFAULT_STREAK_RULE: StreakRule = 'activity';
+
+// Each day read hour by hour costs 24 more reads, so a sync after a long gap only reads the latest days that way
+const MAX_HOURLY_DAYS = 2;
+
+const listeners = new Set<SyncListener>();
+let syncing = false; // One sync at a time, so the same steps are never credited twice
+
+// Local day the goal was last reached, persisted so background runs do not announce it again
+const goalNotifiedKey = (userId: string) => `stridr_goal_notified_${userId}`;
+
+const notifyListeners = (result: SyncResult) => {
+    listeners.forEach(listener => listener(result));
+};
+
+const completedTrailsOf = (events: ProgressEvent[]): CompletedTrail[] =>
+    events.flatMap(event => event.type === 'TrailCompleted' ? [event.completedTrail] : []);
+
+/**
+ * Helper: Steps per local hour of a day's window, or undefined if any hour could not be read. In auto
+ * mode each hour keeps its highest source, so the hours need not add up to the day's reading.
+ */
+const readHours = async (start: Date, end: Date): Promise<number[] | undefined> => {
+    const hours: number[] = new Array(24).fill(0);
+    for (const window of splitByLocalHour(start, end)) {
+        const reading = await StepService.getReadingBetween(window.start, window.end);
+        if (!reading.sourceId) return undefined;
+        hours[window.hour] += reading.steps;
+    }
+    return hours;
+};
+
+/**
+ * Helper: Steps per local day from start to end, with hourly steps for the last MAX_HOURLY_DAYS days with
+ * steps if withHours. Stops at the first day no source could read, so that day and the ones after it are
+ * credited by a later sync. Null if not even the first day could be read.
+ */
+const readDays = async (start: Date, end: Date, withHours: boolean): Promise<{ days: DaySteps[]; until: Date } | null> => {
+    const days: DaySteps[] = [];
+    const windows: { start: Date; end: Date }[] = [];
+
+    for (const window of splitByLocalDay(start, end)) {
+        const reading = await StepService.getReadingBetween(window.start, window.end);
+        if (!reading.sourceId) break;
+        days.push({ date: window.date, steps: reading.steps });
+        windows.push(window);
+    }
+    if (days.length === 0) return null;
+
+    // Only days with steps are worth the extra reads, and only while an hour-based badge can unlock
+    if (withHours) {
+        const active = days.flatMap((day, i) => day.steps > 0 ? [i] : []).slice(-MAX_HOURLY_DAYS);
+        for (const i of active) {
+            const hourlySteps = await readHours(windows[i].start, windows[i].end);
+            if (hourlySteps) days[i] = { ...days[i], hourlySteps };
+        }
+    }
+    return { days, until: windows[windows.length - 1].end };
+};
+
+/**
+ * Helper: Send the notifications the user turned on for a sync's events
+ */
+const sendNotifications = async (events: ProgressEvent[], prefs: any) => {
+    const settings = prefs?.notificationSettings;
+    if (!prefs?.notificationsEnabled || !settings) return;
+
+    for (const event of events) {
+        switch (event.type) {
+            case 'BadgeUnlocked':
+                if (settings.badgeUnlock) await NotificationService.sendBadgeUnlock(event.name, event.icon);
+                break;
+            case 'MilestoneReached':
+                if (settings.milestone) await NotificationService.sendMilestone(event.percent, event.trailName);
+                break;
+            case 'TrailCompleted':
+                if (settings.milestone) await NotificationService.sendMilestone(100, event.trailName);
+                break;
+            case 'LandmarkReached':
+                if (settings.landmarkReached) await NotificationService.sendLandmarkReached(event.landmarkName);
+                break;
+            case 'GoalAchieved':
+                if (settings.goalAchievement) await NotificationService.sendGoalAchievement(event.goal);
+                break;
+        }
+    }
+};
+
+export const ProgressSyncService = {
+    /**
+     * Move every active trail that reached its end into completedTrails and award trail badges
+     */
+    async completeFinishedTrails(userId: string, currentProgress: UserProgress, trails: Trail[], badges: Badge[]): Promise<{ progress: UserProgress; completed: CompletedTrail[] }> {
+        if (currentProgress.activeTrails.length === 0) return { progress: currentProgress, completed: [] };
+
+        const logs = await StorageService.getDailyLogs(userId);
+        const { progress, events } = ProgressEngine.completeTrails(currentProgress, trails, badges, new Date(), logs, getDeviceTimeZone());
+        return { progress, completed: completedTrailsOf(events) };
+    },
+
+    /**
+     * Credit the steps taken since progress.lastSyncTime to the local days they were taken on, save the
+     * result and notify listeners. Without step access or a readable source, only the month is rolled over
+     * and lastSyncTime stays put so those steps are credited next time. Returns null when nothing was saved.
+     */
+    async syncProgress(input: SyncInput): Promise<SyncResult | null> {
+        if (syncing) return null;
+        syncing = true;
+
+        try {
+            return await runSync(input);
+        } catch (error) {
+            console.error('Sync Error', error);
+            return null;
+        } finally {
+            syncing = false;
+        }
+    },
+
+    /**
+     * Listen for every saved sync, whether GameContext or the background task started it
+     */
+    subscribe(listener: SyncListener): () => void {
+        listeners.add(listener);
+        return () => {
+            listeners.delete(listener);
+        };
+    }
+};
+
+/**
+ * Helper: Save progress rolled over to the current month when no steps could be credited. Null if the
+ * month is already current.
+ */
+const rollMonthOnly = async (userId: string, currentProgress: UserProgress, now: Date): Promise<SyncResult | null> => {
+    const progress = ProgressEngine.rollToCurrentMonth(currentProgress, now, getDeviceTimeZone());
+    if (progress === currentProgress) return null;
+
+    await StorageService.saveProgress(userId, progress);
+    const result: SyncResult = {
+        userId,
+        previous: currentProgress,
+        progress,
+        newSteps: 0,
+        events: [],
+        completedTrails: [],
+        todaySteps: null
+    };
+    notifyListeners(result);
+    return result;
+};
+
+const runSync = async ({ userId, progress: currentProgress, trails, badges, strideLengthCm, interactive }: SyncInput): Promise<SyncResult | null> => {
+    const lastSync = new Date(currentProgress.lastSyncTime);
+    const now = new Date();
+
+    if (now <= lastSync) return null;
+
+    const permitted = interactive ? await StepService.requestPermissions() : await StepService.checkPermissions();
+    if (!permitted) {
+        if (__DEV__) console.log('Step permission denied during sync');
+        return rollMonthOnly(userId, currentProgress, now);
+    }
+
+    const reading = await readDays(lastSync, now, BadgeService.needsHourlySteps(currentProgress, badges));
+    if (!reading) return rollMonthOnly(userId, currentProgress, now);
+    const newSteps = reading.days.reduce((sum, day) => sum + day.steps, 0);
+
+    const hasSteps = newSteps > 0;
+    const [prefs, dailyLogs, todaySteps, goalAchievedOn] = hasSteps
+        ? await Promise.all([
+            StorageService.getPreferences(userId),
+            StorageService.getDailyLogs(userId), // Badge rules and finished trail stats read the history
+            StepService.getTodaySteps(),
+            AsyncStorage.getItem(goalNotifiedKey(userId)).catch(() => null)
+        ])
+        : [null, [], null, null];
+
+    const { progress, events, dailyLogEntries } = ProgressEngine.applySteps({
+        progress: currentProgress,
+        days: reading.days,
+        now: reading.until,
+        trails,
+        badges,
+        prefs: {
+            strideLengthCm,
+            dailyGoal: prefs?.dailyGoal ?? DEFAULT_DAILY_GOAL,
+            streakRule: prefs?.streakRule ?? DEFAULT_STREAK_RULE
+        },
+        timeZone: getDeviceTimeZone(),
+        dailyLogs,
+        todaySteps,
+        goalAchievedOn
+    });
+
+    await StorageService.saveProgress(userId, progress);
+    for (const entry of dailyLogEntries) {
+        await StorageService.addStepsToDailyLog(userId, entry);
+    }
+
+    const goal = events.find(event => event.type === 'GoalAchieved');
+    if (goal?.type === 'GoalAchieved') {
+        await AsyncStorage.setItem(goalNotifiedKey(userId), goal.date).catch(error => {
+            console.error('Error saving goal notification date:', error);
+        });
+    }
+
+    const result: SyncResult = {
+        userId,
+        previous: currentProgress,
+        progress,
+        newSteps,
+        events,
+        completedTrails: completedTrailsOf(events),
+        todaySteps
+    };
+    notifyListeners(result);
+
+    await sendNotifications(events, prefs);
+    return result;
+};
@@ -0,0 +1,166 @@
+/**
+ * File: src/services/RouteGeometryService.test.ts
+ * Purpose: Unit tests for RouteGeometryService, including a check of the bundled TRAILS data.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import { RouteGeometryService } from './RouteGeometryService';
+import { TrailMapService } from './TrailMapService';
+import { TRAILS } from '../const/trails';
+import { Trail } from '../types';
+
+// Example from Google's encoded polyline documentation
+const GOOGLE_EXAMPLE = '_p~iF~ps|U_ulLnnqC_mqNvxq`@';
+const GOOGLE_EXAMPLE_POINTS = [
+    { latitude: 38.5, longitude: -120.2 },
+    { latitude: 40.7, longitude: -120.95 },
+    { latitude: 43.252, longitude: -126.453 }
+];
+
+// Roughly 1.11km per 0.01 degree of latitude: a straight walk due north, then due east
+const lShapedTrail: Trail = {
+    id: 'l-trail',
+    name: 'L Trail',
+    description: '',
+    totalDistanceMeters: 2000,
+    color: '#000',
+    difficulty: 'Easy',
+    image: 0,
+    startCoordinate: { latitude: 0, longitude: 0 },
+    endCoordinate: { latitude: 0.009, longitude: 0.009 },
+    route: { type: 'LineString', coordinates: [[0, 0], [0, 0.009], [0.009, 0.009]] },
+    landmarks: [
+        { id: 'a', name: 'Start', distanceMeters: 0, description: '' },
+        { id: 'b', name: 'Corner', distanceMeters: 1000, description: '' },
+        { id: 'c', name: 'Finish', distanceMeters: 2000, description: '' }
+    ]
+};
+
+describe('RouteGeometryService', () => {
+    describe('encoded polylines', () => {
+        it('should decode the documented example', () => {
+            const points = RouteGeometryService.decodePolyline(GOOGLE_EXAMPLE);
+            expect(points).toHaveLength(3);
+            points.forEach((p, i) => {
+                expect(p.latitude).toBeCloseTo(GOOGLE_EXAMPLE_POINTS[i].latitude, 5);
+                expect(p.longitude).toBeCloseTo(GOOGLE_EXAMPLE_POINTS[i].longitude, 5);
+            });
+        });
+
+        it('should round-trip through encode and decode', () => {
+            expect(RouteGeometryService.encodePolyline(GOOGLE_EXAMPLE_POINTS)).toBe(GOOGLE_EXAMPLE);
+        });
+
+        it('should reject truncated strings', () => {
+            expect(() => RouteGeometryService.decodePolyline('_p~iF~ps|')).toThrow();
+        });
+    });
+
+    describe('getCoordinates', () => {
+        it('should read GeoJSON positions as [longitude, latitude]', () => {
+            const coordinates = RouteGeometryService.getCoordinates({ type: 'LineString', coordinates: [[77.2, 28.6]] });
+            expect(coordinates).toEqual([{ latitude: 28.6, longitude: 77.2 }]);
+        });
+    });
+
+    describe('buildTrailRoute', () => {
+        it('should scale route distances to the trail distance', () => {
+            const route = RouteGeometryService.buildTrailRoute(lShapedTrail)!;
+            expect(route[0].distanceMeters).toBe(0);
+            expect(route[1].distanceMeters).toBeCloseTo(1000);
+            expect(route[2].distanceMeters).toBeCloseTo(2000);
+        });
+
+        it('should be null when the trail has no route', () => {
+            expect(RouteGeometryService.buildTrailRoute({ ...lShapedTrail, route: undefined })).toBeNull();
+        });
+    });
+
+    describe('getPositionAtDistance', () => {
+        const route = RouteGeometryService.buildTrailRoute(lShapedTrail)!;
+
+        it('should interpolate the position and report the heading of the segment', () => {
+            const north = RouteGeometryService.getPositionAtDistance(route, 500);
+            expect(north.latitude).toBeCloseTo(0.0045);
+            expect(north.longitude).toBeCloseTo(0);
+            expect(north.bearing).toBeCloseTo(0);
+
+            const east = RouteGeometryService.getPositionAtDistance(route, 1500);
+            expect(east.latitude).toBeCloseTo(0.009);
+            expect(east.longitude).toBeCloseTo(0.0045);
+            expect(east.bearing).toBeCloseTo(90, 0);
+        });
+
+        it('should clamp distances beyond the ends', () => {
+            expect(RouteGeometryService.getPositionAtDistance(route, 99999).distanceMeters).toBeCloseTo(2000);
+            expect(RouteGeometryService.getPositionAtDistance(route, -5).distanceMeters).toBe(0);
+        });
+    });
+
+    describe('snapLandmarks', () => {
+        it('should place each landmark at its distance along the route', () => {
+            const route = RouteGeometryService.buildTrailRoute(lShapedTrail)!;
+            const snapped = RouteGeometryService.snapLandmarks(route, lShapedTrail.landmarks);
+            expect(snapped[1].position.latitude).toBeCloseTo(0.009);
+            expect(snapped[1].position.longitude).toBeCloseTo(0);
+            expect(snapped[2].position.longitude).toBeCloseTo(0.009);
+        });
+    });
+
+    describe('validateTrail', () => {
+        it('should accept a consistent trail', () => {
+            expect(RouteGeometryService.validateTrail(lShapedTrail)).toEqual([]);
+        });
+
+        it('should flag routes that do not match the trail', () => {
+            const problems = RouteGeometryService.validateTrail({
+                ...lShapedTrail,
+                totalDistanceMeters: 10000,
+                startCoordinate: { latitude: 1, longitude: 1 }
+            });
+            expect(problems).toContain('Route does not begin at the trail start');
+            expect(problems.some(p => p.startsWith('Route is'))).toBe(true);
+        });
+
+        it('should flag undecodable routes and misplaced landmarks', () => {
+            const problems = RouteGeometryService.validateTrail({
+                ...lShapedTrail,
+                route: { type: 'EncodedPolyline', polyline: '_p~iF~ps|' },
+                landmarks: [{ id: 'x', name: 'Too far', distanceMeters: 3000, description: '' }]
+            });
+            expect(problems).toHaveLength(2);
+        });
+    });
+
+    describe('bundled TRAILS', () => {
+        it('should ship at least one trail whose path follows its route geometry', () => {
+            const routed = TRAILS.filter(t => t.route);
+            expect(routed.length).toBeGreaterThan(0);
+
+            for (const trail of routed) {
+                const path = TrailMapService.getPath(trail);
+                expect(path).toEqual(RouteGeometryService.buildTrailRoute(trail));
+                expect(path.length).toBe(RouteGeometryService.getCoordinates(trail.route!).length);
+                expect(path[path.length - 1].distanceMeters).toBeCloseTo(trail.totalDistanceMeters, 6);
+            }
+        });
+
+        it.each(TRAILS.map(t => [t.id, t] as const))('%s should have valid route and landmark data', (_id, trail) => {
+            expect(RouteGeometryService.validateTrail(trail)).toEqual([]);
+        });
+
+        it.each(TRAILS.map(t => [t.id, t] as const))('%s should snap every landmark onto its path', (_id, trail) => {
+            const path = TrailMapService.getPath(trail);
+            expect(path.length).toBeGreaterThanOrEqual(2);
+
+            const snapped = RouteGeometryService.snapLandmarks(path, trail.landmarks);
+            for (const { landmark, position } of snapped) {
+                expect(position.distanceMeters).toBe(landmark.distanceMeters); // Not clamped
+                expect(Number.isFinite(position.latitude)).toBe(true);
+                expect(Number.isFinite(position.longitude)).toBe(true);
+                expect(position.bearing).toBeGreaterThanOrEqual(0);
+                expect(position.bearing).toBeLessThan(360);
+            }
+        });
+    });
+});
@@ -0,0 +1,259 @@
+/**
+ * File: src/services/RouteGeometryService.ts
+ * Purpose: Decodes trail route geometry and maps distances along a trail to positions and bearings.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import { Landmark, Trail, TrailRoute } from '../types';
+
+export interface Coordinate {
+    latitude: number;
+    longitude: number;
+}
+
+export interface RoutePoint extends Coordinate {
+    distanceMeters: number; // Distance along the trail at this point
+}
+
+export interface RoutePosition extends RoutePoint {
+    bearing: number; // Degrees clockwise from north (0-360) in the direction of travel
+}
+
+export interface SnappedLandmark {
+    landmark: Landmark;
+    position: RoutePosition;
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+const POLYLINE_PRECISION = 5;
+
+// Tolerances used when validating route data against a trail definition
+const MAX_START_OFFSET_METERS = 2000;
+const MAX_LENGTH_DEVIATION = 0.25;
+
+const toRadians = (degrees: number): number => degrees * Math.PI / 180;
+const toDegrees = (radians: number): number => radians * 180 / Math.PI;
+const lerp = (a: number, b: number, t: number): number => a + (b - a) * t;
+
+export const RouteGeometryService = {
+    /**
+     * Decode a Google encoded polyline into coordinates. Throws if the string is malformed.
+     */
+    decodePolyline(encoded: string, precision: number = POLYLINE_PRECISION): Coordinate[] {
+        const factor = Math.pow(10, precision);
+        const coordinates: Coordinate[] = [];
+        let index = 0;
+        let lat = 0;
+        let lng = 0;
+
+        const readValue = (): number => {
+            let result = 0;
+            let shift = 0;
+            let byte: number;
+            do {
+                if (index >= encoded.length) {
+                    throw new Error('Encoded polyline ends in the middle of a value');
+                }
+                byte = encoded.charCodeAt(index++) - 63;
+                if (byte < 0 || byte > 63) {
+                    throw new Error(`Invalid character in encoded polyline at position ${index}`);
+                }
+                result |= (byte & 0x1f) << shift;
+                shift += 5;
+            } while (byte >= 0x20);
+            return (result & 1) ? ~(result >> 1) : (result >> 1);
+        };
+
+        while (index < encoded.length) {
+            lat += readValue();
+            lng += readValue();
+            coordinates.push({ latitude: lat / factor, longitude: lng / factor });
+        }
+        return coordinates;
+    },
+
+    /**
+     * Encode coordinates as a Google encoded polyline
+     */
+    encodePolyline(coordinates: Coordinate[], precision: number = POLYLINE_PRECISION): string {
+        const factor = Math.pow(10, precision);
+        const encodeValue = (value: number): string => {
+            let v = value < 0 ? ~(value << 1) : (value << 1);
+            let output = '';
+            while (v >= 0x20) {
+                output += String.fromCharCode((0x20 | (v & 0x1f)) + 63);
+                v >>= 5;
+            }
+            return output + String.fromCharCode(v + 63);
+        };
+
+        let prevLat = 0;
+        let prevLng = 0;
+        let output = '';
+        for (const c of coordinates) {
+            const lat = Math.round(c.latitude * factor);
+            const lng = Math.round(c.longitude * factor);
+            output += encodeValue(lat - prevLat) + encodeValue(lng - prevLng);
+            prevLat = lat;
+            prevLng = lng;
+        }
+        return output;
+    },
+
+    /**
+     * Coordinates of a route in travel order, whichever format it is stored in
+     */
+    getCoordinates(route: TrailRoute): Coordinate[] {
+        if (route.type === 'EncodedPolyline') {
+            return this.decodePolyline(route.polyline);
+        }
+        // GeoJSON positions are [longitude, latitude]
+        return route.coordinates.map(([longitude, latitude]) => ({ latitude, longitude }));
+    },
+
+    /**
+     * Great-circle distance between two coordinates in meters
+     */
+    distanceMeters(a: Coordinate, b: Coordinate): number {
+        const dLat = toRadians(b.latitude - a.latitude);
+        const dLng = toRadians(b.longitude - a.longitude);
+        const h = Math.sin(dLat / 2) ** 2
+            + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+        return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+    },
+
+    /**
+     * Initial compass bearing from one coordinate to another (0 = north, 90 = east)
+     */
+    bearing(from: Coordinate, to: Coordinate): number {
+        const lat1 = toRadians(from.latitude);
+        const lat2 = toRadians(to.latitude);
+        const dLng = toRadians(to.longitude - from.longitude);
+        const y = Math.sin(dLng) * Math.cos(lat2);
+        const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+        return (toDegrees(Math.atan2(y, x)) + 360) % 360;
+    },
+
+    /**
+     * Total length of a path in meters
+     */
+    getLengthMeters(coordinates: Coordinate[]): number {
+        let length = 0;
+        for (let i = 1; i < coordinates.length; i++) {
+            length += this.distanceMeters(coordinates[i - 1], coordinates[i]);
+        }
+        return length;
+    },
+
+    /**
+     * Attach the cumulative distance to every coordinate. When `totalDistanceMeters` is given the
+     * distances are scaled to it, so a trail's virtual distance always spans its whole route even
+     * if the drawn geometry is simplified and slightly shorter or longer.
+     */
+    indexRoute(coordinates: Coordinate[], totalDistanceMeters?: number): RoutePoint[] {
+        const length = this.getLengthMeters(coordinates);
+        const scale = totalDistanceMeters !== undefined && length > 0 ? totalDistanceMeters / length : 1;
+
+        let travelled = 0;
+        return coordinates.map((c, i) => {
+            if (i > 0) travelled += this.distanceMeters(coordinates[i - 1], c);
+            return { latitude: c.latitude, longitude: c.longitude, distanceMeters: travelled * scale };
+        });
+    },
+
+    /**
+     * The trail's route indexed by distance along the trail, or null if the trail has no route geometry
+     */
+    buildTrailRoute(trail: Trail): RoutePoint[] | null {
+        if (!trail.route) return null;
+        const coordinates = this.getCoordinates(trail.route);
+        if (coordinates.length < 2) return null;
+        return this.indexRoute(coordinates, trail.totalDistanceMeters);
+    },
+
+    /**
+     * Position and heading at a distance along an indexed route.
+     * Distances outside the route are clamped to its start or end.
+     */
+    getPositionAtDistance(route: RoutePoint[], distanceMeters: number): RoutePosition {
+        if (route.length === 0) {
+            throw new Error('Cannot locate a position on an empty route');
+        }
+        if (route.length === 1) {
+            return { ...route[0], bearing: 0 };
+        }
+
+        const last = route[route.length - 1];
+        const d = Math.min(Math.max(distanceMeters, route[0].distanceMeters), last.distanceMeters);
+
+        // First segment whose end is at or beyond the distance
+        let i = 1;
+        while (i < route.length - 1 && route[i].distanceMeters < d) i++;
+
+        const prev = route[i - 1];
+        const next = route[i];
+        const span = next.distanceMeters - prev.distanceMeters;
+        const t = span > 0 ? (d - prev.distanceMeters) / span : 1;
+
+        return {
+            latitude: lerp(prev.latitude, next.latitude, t),
+            longitude: lerp(prev.longitude, next.longitude, t),
+            distanceMeters: d,
+            bearing: this.bearing(prev, next)
+        };
+    },
+
+    /**
+     * Place each landmark on the route at its distance along the trail
+     */
+    snapLandmarks(route: RoutePoint[], landmarks: Landmark[]): SnappedLandmark[] {
+        return landmarks.map(landmark => ({
+            landmark,
+            position: this.getPositionAtDistance(route, landmark.distanceMeters)
+        }));
+    },
+
+    /**
+     * Check a trail's route and landmarks for data problems. Returns a readable message per problem.
+     */
+    validateTrail(trail: Trail): string[] {
+        const problems: string[] = [];
+
+        let previous = 0;
+        for (const landmark of trail.landmarks) {
+            if (landmark.distanceMeters < 0 || landmark.distanceMeters > trail.totalDistanceMeters) {
+                problems.push(`Landmark ${landmark.id} is outside the trail (${landmark.distanceMeters}m)`);
+            }
+            if (landmark.distanceMeters < previous) {
+                problems.push(`Landmark ${landmark.id} comes before the previous landmark`);
+            }
+            previous = landmark.distanceMeters;
+        }
+
+        if (!trail.route) return problems;
+
+        let coordinates: Coordinate[];
+        try {
+            coordinates = this.getCoordinates(trail.route);
+        } catch (error: any) {
+            problems.push(`Route cannot be decoded: ${error.message}`);
+            return problems;
+        }
+
+        if (coordinates.length < 2) {
+            problems.push('Route needs at least two points');
+            return problems;
+        }
+
+        if (trail.startCoordinate && this.distanceMeters(coordinates[0], trail.startCoordinate) > MAX_START_OFFSET_METERS) {
+            problems.push('Route does not begin at the trail start');
+        }
+
+        const length = this.getLengthMeters(coordinates);
+        if (Math.abs(length - trail.totalDistanceMeters) > trail.totalDistanceMeters * MAX_LENGTH_DEVIATION) {
+            problems.push(`Route is ${Math.round(length)}m long but the trail is ${trail.totalDistanceMeters}m`);
+        }
+
+        return problems;
+    }
+};
@@ -0,0 +1,95 @@
+/**
+ * File: src/services/ShareCardService.test.ts
+ * Purpose: Unit tests for ShareCardService.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import { ShareCardService } from './ShareCardService';
+import { MONTHLY_STEP_BADGES, TRAIL_BADGES } from '../const/badges';
+import { CompletedTrail, DailyLog, Trail } from '../types';
+
+const trail: Trail = {
+    id: 'test-trail',
+    name: 'Test Trail',
+    description: '',
+    totalDistanceMeters: 42195,
+    color: '#000',
+    difficulty: 'Easy',
+    image: 0,
+    landmarks: []
+};
+
+const completed: CompletedTrail = {
+    trailId: 'test-trail',
+    startDate: '2026-03-01T08:00:00.000Z',
+    completedDate: '2026-03-12T17:30:00.000Z',
+    totalSteps: 55400,
+    totalDays: 12,
+    avgStepsPerDay: 4617,
+    maxStepsInOneDay: 9800
+};
+
+const log = (date: string, steps: number): DailyLog => ({ date, steps, distanceMeters: steps * 0.75 });
+
+describe('ShareCardService', () => {
+    describe('buildTrailCard', () => {
+        it('should show the trail totals', () => {
+            const card = ShareCardService.buildTrailCard(completed, trail, 'km');
+
+            expect(card.eyebrow).toBe('Trail complete');
+            expect(card.title).toBe('Test Trail');
+            expect(card.subtitle).toBe('42.2 km in 12 days');
+            expect(card.stats.map(s => s.label)).toEqual(['Steps', 'Days', 'Avg/Day', 'Best Day']);
+            expect(card.stats[1].value).toBe('12');
+            expect(card.filename).toBe('stridr-trail-test-trail-2026-03-12.png');
+        });
+
+        it('should call a group finish an expedition', () => {
+            const card = ShareCardService.buildTrailCard(
+                { ...completed, totalDays: 1, expedition: { id: 'exp-1', steps: 20000, distanceMeters: 15000 } },
+                trail,
+                'mi'
+            );
+            expect(card.eyebrow).toBe('Expedition complete');
+            expect(card.subtitle).toBe('26.2 mi in 1 day');
+        });
+    });
+
+    describe('buildBadgeCard', () => {
+        it('should name the month for monthly badges', () => {
+            const card = ShareCardService.buildBadgeCard(MONTHLY_STEP_BADGES[1], 'March 2026');
+
+            expect(card.title).toBe('Getting Moving');
+            expect(card.subtitle).toBe('Walk 10,000 steps in March 2026');
+            expect(card.icon).toBe(MONTHLY_STEP_BADGES[1].icon);
+            expect(card.filename).toBe('stridr-badge-step-10k-march-2026.png');
+        });
+
+        it('should keep lifetime badge descriptions as they are', () => {
+            const card = ShareCardService.buildBadgeCard(TRAIL_BADGES[0]);
+            expect(card.subtitle).toBe('Complete your first trail');
+            expect(card.filename).toBe('stridr-badge-trail-1.png');
+        });
+    });
+
+    describe('buildWeekCard', () => {
+        it('should total this week up to today', () => {
+            const logs = [
+                log('2026-02-28', 20000), // Previous week
+                log('2026-03-01', 4000),
+                log('2026-03-02', 0),
+                log('2026-03-03', 12000),
+                log('2026-03-04', 8000)
+            ];
+            const card = ShareCardService.buildWeekCard(logs, '2026-03-04', 'km');
+
+            expect(card.title).toBe(`${(24000).toLocaleString()} steps`);
+            expect(card.stats).toEqual([
+                { label: 'Distance', value: '18.0 km' },
+                { label: 'Active Days', value: '3/7' },
+                { label: 'Best Day', value: (12000).toLocaleString() }
+            ]);
+            expect(card.filename).toBe('stridr-week-2026-03-01.png');
+        });
+    });
+});
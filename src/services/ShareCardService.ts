@@ -0,0 +1,98 @@
+/**
+ * File: src/services/ShareCardService.ts
+ * Purpose: Pure content for shareable image cards: a completed trail, a newly unlocked badge, or the week so far.
+ * The card is drawn by ShareCard and captured to a PNG by ShareCardModal.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import { CompletedTrail, DailyLog, Trail } from '../types';
+import { Badge } from '../const/badges';
+import { LeaderboardService } from './LeaderboardService';
+import { formatDistance } from '../utils/conversion';
+import { DateKey, formatDateKey } from '../utils/date';
+
+export type ShareCardKind = 'trail' | 'badge' | 'week';
+
+export interface ShareCardStat {
+    label: string;
+    value: string;
+}
+
+export interface ShareCardContent {
+    kind: ShareCardKind;
+    eyebrow: string; // Small caps line above the title
+    title: string;
+    subtitle: string;
+    icon?: string; // Badge emoji
+    stats: ShareCardStat[];
+    colors: [string, string]; // Background gradient
+    filename: string;
+}
+
+const slugify = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+export const ShareCardService = {
+    /**
+     * A finished trail with its totals: steps, days, average per day and best day
+     */
+    buildTrailCard(completed: CompletedTrail, trail: Trail, unit: 'km' | 'mi'): ShareCardContent {
+        const days = completed.totalDays === 1 ? '1 day' : `${completed.totalDays} days`;
+        return {
+            kind: 'trail',
+            eyebrow: completed.expedition ? 'Expedition complete' : 'Trail complete',
+            title: trail.name,
+            subtitle: `${formatDistance(trail.totalDistanceMeters, unit)} in ${days}`,
+            stats: [
+                { label: 'Steps', value: completed.totalSteps.toLocaleString() },
+                { label: 'Days', value: String(completed.totalDays) },
+                { label: 'Avg/Day', value: completed.avgStepsPerDay.toLocaleString() },
+                { label: 'Best Day', value: completed.maxStepsInOneDay.toLocaleString() }
+            ],
+            colors: ['#065F46', '#10B981'],
+            filename: `stridr-trail-${slugify(trail.name)}-${completed.completedDate.slice(0, 10)}.png`
+        };
+    },
+
+    /**
+     * A badge the user has earned
+     * @param earnedIn - When it was earned, for badges that come back each month (e.g. "March 2026")
+     */
+    buildBadgeCard(badge: Pick<Badge, 'id' | 'name' | 'description' | 'icon'>, earnedIn?: string): ShareCardContent {
+        return {
+            kind: 'badge',
+            eyebrow: 'Badge unlocked',
+            title: badge.name,
+            subtitle: earnedIn ? badge.description.replace('this month', `in ${earnedIn}`) : badge.description,
+            icon: badge.icon,
+            stats: [],
+            colors: ['#B45309', '#F59E0B'],
+            filename: `stridr-badge-${slugify(badge.id)}${earnedIn ? `-${slugify(earnedIn)}` : ''}.png`
+        };
+    },
+
+    /**
+     * This week so far (weeks start on Sunday, like the dashboard)
+     */
+    buildWeekCard(logs: DailyLog[], today: DateKey, unit: 'km' | 'mi'): ShareCardContent {
+        const { start, end } = LeaderboardService.getPeriodRange('week', today);
+        const days = logs.filter(log => log.date >= start && log.date <= end && log.date <= today);
+        const steps = days.reduce((sum, log) => sum + log.steps, 0);
+        const distance = days.reduce((sum, log) => sum + log.distanceMeters, 0);
+        const activeDays = days.filter(log => log.steps > 0).length;
+        const bestDay = days.reduce((best, log) => Math.max(best, log.steps), 0);
+
+        return {
+            kind: 'week',
+            eyebrow: 'My week',
+            title: `${steps.toLocaleString()} steps`,
+            subtitle: `${formatDateKey(start)} – ${formatDateKey(end)}`,
+            stats: [
+                { label: 'Distance', value: formatDistance(distance, unit) },
+                { label: 'Active Days', value: `${activeDays}/7` },
+                { label: 'Best Day', value: bestDay.toLocaleString() }
+            ],
+            colors: ['#1E3A8A', '#2563EB'],
+            filename: `stridr-week-${start}.png`
+        };
+    }
+};
@@ -0,0 +1,42 @@
+/**
+ * File: src/services/ShareService.ts
+ * Purpose: Writes generated files to the cache directory and hands them to the system share sheet.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Added shareImageFile for captured share cards.
+ */
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Sharing from 'expo-sharing';
+
+export const ShareService = {
+    /**
+     * Write text content to a file and open the share sheet for it
+     */
+    async shareTextFile(filename: string, content: string, mimeType: string, dialogTitle: string): Promise<void> {
+        if (!(await Sharing.isAvailableAsync())) {
+            throw new Error('Sharing is not available on this device.');
+        }
+
+        // Cache files are cleaned up by the OS; the receiving app may still be reading it after shareAsync resolves
+        const uri = FileSystem.cacheDirectory + filename;
+        await FileSystem.writeAsStringAsync(uri, content);
+        await Sharing.shareAsync(uri, { mimeType, dialogTitle });
+    },
+
+    /**
+     * Copy a captured PNG to a readable filename in the cache directory and open the share sheet for it
+     */
+    async shareImageFile(sourceUri: string, filename: string, dialogTitle: string): Promise<void> {
+        if (!(await Sharing.isAvailableAsync())) {
+            throw new Error('Sharing is not available on this device.');
+        }
+
+        // Captures land in a temporary file with a random name, which is what the receiving app would show
+        const uri = FileSystem.cacheDirectory + filename;
+        await FileSystem.deleteAsync(uri, { idempotent: true });
+        await FileSystem.copyAsync({ from: sourceUri, to: uri });
+        await Sharing.shareAsync(uri, { mimeType: 'image/png', UTI: 'public.png', dialogTitle });
+    }
+};
@@ -6,36 +6,14 @@
  *
  * Modification History:
  * 2024-01-12: Initial tests created.
+ * 2026-10-19: Trail progress moved into activeTrails sessions.
+ * 2026-10-19: Streak tests use local dates and cover timezone changes.
+ * 2026-10-19: Streak tests moved to StreakService.test.ts.
  */
 import { StatsService } from './StatsService';
-import { DailyLog, Trail, UserProgress } from '../types';
+import { ActiveTrail, DailyLog, Trail, UserProgress } from '../types';
 
 describe('StatsService', () => {
-    describe('calculateStreak', () => {
-        it('should return 1 if no last log date', () => {
-            const streak = StatsService.calculateStreak(0, null, new Date('2024-01-01'));
-            expect(streak).toBe(1);
-        });
-
-        it('should increment streak if last log was yesterday', () => {
-            const today = new Date('2024-01-02');
-            const streak = StatsService.calculateStreak(5, '2024-01-01', today);
-            expect(streak).toBe(6);
-        });
-
-        it('should reset streak to 1 if last log was before yesterday', () => {
-            const today = new Date('2024-01-05');
-            const streak = StatsService.calculateStreak(5, '2024-01-01', today);
-            expect(streak).toBe(1);
-        });
-
-        it('should maintain streak if already logged today', () => {
-            const today = new Date('2024-01-01');
-            const streak = StatsService.calculateStreak(5, '2024-01-01', today);
-            expect(streak).toBe(5);
-        });
-    });
-
     describe('checkTrailCompletion', () => {
         const mockTrail: Trail = {
             id: 'test-trail',
@@ -52,12 +30,16 @@ describe('StatsService', () => {
             landmarks: []
         };
 
-        const mockProgress: UserProgress = {
-            selectedTrailId: 'test-trail',
+        const mockSession: ActiveTrail = {
+            trailId: 'test-trail',
             targetDays: 5,
-            trailStartDate: '2024-01-01T00:00:00.000Z',
+            startDate: '2024-01-01T00:00:00.000Z',
             totalStepsValid: 2000,
-            currentDistanceMeters: 1500, // Completed (> 1000)
+            currentDistanceMeters: 1500 // Completed (> 1000)
+        };
+
+        const mockProgress: UserProgress = {
+            activeTrails: [mockSession],
             lastSyncTime: '2024-01-05T00:00:00.000Z',
             stats: {
                 totalStepsLifetime: 2000,
@@ -88,7 +70,13 @@ describe('StatsService', () => {
         ];
 
         it('should return null if distance not met', () => {
-            const p = { ...mockProgress, currentDistanceMeters: 500 };
+            const p = { ...mockProgress, activeTrails: [{ ...mockSession, currentDistanceMeters: 500 }] };
+            const result = StatsService.checkTrailCompletion(p, mockTrail, new Date('2024-01-05'), mockLogs);
+            expect(result).toBeNull();
+        });
+
+        it('should return null if trail is not active', () => {
+            const p = { ...mockProgress, activeTrails: [] };
             const result = StatsService.checkTrailCompletion(p, mockTrail, new Date('2024-01-05'), mockLogs);
             expect(result).toBeNull();
         });
@@ -129,4 +117,29 @@ describe('StatsService', () => {
             expect(result?.maxStepsInOneDay).toBe(1000);
         });
     });
+
+    describe('addToDailyLog', () => {
+        const hours = (entries: Record<number, number>) => Array.from({ length: 24 }, (_, hour) => entries[hour] || 0);
+
+        it('should start a new log with the entry', () => {
+            const entry: DailyLog = { date: '2024-01-01', steps: 500, distanceMeters: 375 };
+            expect(StatsService.addToDailyLog(undefined, entry)).toBe(entry);
+        });
+
+        it('should add up steps, distance and hourly steps', () => {
+            const log = StatsService.addToDailyLog(
+                { date: '2024-01-01', steps: 500, distanceMeters: 375, timeZone: 'UTC', hourlySteps: hours({ 6: 500 }) },
+                { date: '2024-01-01', steps: 800, distanceMeters: 600, timeZone: 'Asia/Kolkata', hourlySteps: hours({ 6: 300, 9: 500 }) }
+            );
+            expect(log).toEqual({ date: '2024-01-01', steps: 1300, distanceMeters: 975, timeZone: 'UTC', hourlySteps: hours({ 6: 800, 9: 500 }) });
+        });
+
+        it('should keep the hours that were read when the other log has none', () => {
+            const log = StatsService.addToDailyLog(
+                { date: '2024-01-01', steps: 500, distanceMeters: 375 },
+                { date: '2024-01-01', steps: 800, distanceMeters: 600, hourlySteps: hours({ 9: 800 }) }
+            );
+            expect(log.hourlySteps).toEqual(hours({ 9: 800 }));
+        });
+    });
 });
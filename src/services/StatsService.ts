@@ -1,52 +1,35 @@
 /**
  * File: src/services/StatsService.ts
- * Purpose: Business logic for trail stats, completion, and streak calculation.
+ * Purpose: Business logic for trail stats and completion.
  * Created: 2024-01-12
  * Author: AI Assistant
  *
  * Modification History:
  * 2024-01-12: Created with streak and completion logic.
+ * 2026-10-19: Trail completion reads the trail's own ActiveTrail session.
+ * 2026-10-19: Streaks and trail logs use local calendar days instead of UTC.
+ * 2026-10-19: Expedition completions record the user's own contribution.
+ * 2026-10-19: Streak calculation, including streaks for past days, moved to StreakService.
+ * 2026-10-19: Added addToDailyLog, which also adds up hourly steps.
+ * 2026-10-19: Trail completion can count days in a given timezone.
  */
 import { CompletedTrail, DailyLog, Trail, UserProgress } from '../types';
+import { toLocalDateKey } from '../utils/date';
 
 export const StatsService = {
     /**
-     * Calculates the new streak based on the last log date and the current date (now).
-     */
-    calculateStreak(currentStreak: number, lastLogDate: string | null | undefined, now: Date): number {
-        const nowString = now.toISOString().split('T')[0];
-
-        // If already logged today, streak doesn't change
-        if (lastLogDate === nowString) {
-            return currentStreak;
-        }
-
-        if (!lastLogDate) {
-            return 1;
-        }
-
-        const yesterday = new Date(now);
-        yesterday.setDate(yesterday.getDate() - 1);
-        const yesterdayString = yesterday.toISOString().split('T')[0];
-
-        if (lastLogDate === yesterdayString) {
-            return currentStreak + 1;
-        } else {
-            return 1;
-        }
-    },
-
-    /**
-     * Checks if a trail is completed and generates the completion stats.
-     * Returns null if not completed.
+     * Checks if an active trail is completed and generates the completion stats.
+     * Returns null if the trail is not active or not completed. Days are local to timeZone, or to the device.
      */
     checkTrailCompletion(
         progress: UserProgress,
         trail: Trail,
         now: Date,
-        dailyLogs: DailyLog[]
+        dailyLogs: DailyLog[],
+        timeZone?: string
     ): CompletedTrail | null {
-        if (progress.currentDistanceMeters < trail.totalDistanceMeters) {
+        const session = progress.activeTrails?.find(s => s.trailId === trail.id);
+        if (!session || session.currentDistanceMeters < trail.totalDistanceMeters) {
             return null;
         }
 
@@ -54,16 +37,15 @@ export const StatsService = {
         const alreadyCompleted = progress.completedTrails?.some(ct => ct.trailId === trail.id);
         if (alreadyCompleted) return null;
 
-        const startDate = new Date(progress.trailStartDate || progress.lastSyncTime);
+        const startDate = new Date(session.startDate);
         const endDate = now;
 
         // Filter logs for this trail's duration
-        const trailLogs = dailyLogs.filter(l => {
-            const logDate = new Date(l.date);
-            return logDate >= startDate && logDate <= endDate;
-        });
+        const startKey = toLocalDateKey(startDate, timeZone);
+        const endKey = toLocalDateKey(endDate, timeZone);
+        const trailLogs = dailyLogs.filter(l => l.date >= startKey && l.date <= endKey);
 
-        const totalSteps = progress.totalStepsValid;
+        const totalSteps = session.totalStepsValid;
         // Duration in days (min 1)
         const durationMs = endDate.getTime() - startDate.getTime();
         const totalDays = Math.max(1, Math.ceil(durationMs / (1000 * 60 * 60 * 24)));
@@ -86,7 +68,28 @@ export const StatsService = {
             totalSteps: totalSteps,
             totalDays: totalDays,
             avgStepsPerDay: avgSteps,
-            maxStepsInOneDay: maxSteps
+            maxStepsInOneDay: maxSteps,
+            ...(session.expedition ? { expedition: session.expedition } : {})
+        };
+    },
+
+    /**
+     * Add a day's new steps to its log. Hourly steps are added hour by hour; a day logged before hours
+     * were read keeps only the new hours, so its hourly steps are a lower bound.
+     */
+    addToDailyLog(existing: DailyLog | undefined, entry: DailyLog): DailyLog {
+        if (!existing) return entry;
+
+        const hourlySteps = existing.hourlySteps && entry.hourlySteps
+            ? existing.hourlySteps.map((steps, hour) => steps + (entry.hourlySteps![hour] || 0))
+            : existing.hourlySteps || entry.hourlySteps;
+
+        return {
+            date: entry.date,
+            steps: existing.steps + entry.steps,
+            distanceMeters: existing.distanceMeters + entry.distanceMeters,
+            timeZone: existing.timeZone ?? entry.timeZone,
+            ...(hourlySteps ? { hourlySteps } : {})
         };
     }
 };
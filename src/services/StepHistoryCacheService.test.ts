@@ -0,0 +1,96 @@
+/**
+ * File: src/services/StepHistoryCacheService.test.ts
+ * Purpose: Unit tests for StepHistoryCacheService.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Added late-arriving steps tests.
+ */
+import { MAX_CACHED_DAYS, STEP_HISTORY_CACHE_VERSION, StepHistoryCacheService } from './StepHistoryCacheService';
+import { addDays } from '../utils/date';
+
+const TODAY = '2026-03-10';
+
+describe('StepHistoryCacheService', () => {
+    describe('parse', () => {
+        it('should start over for another source, another version or bad data', () => {
+            const stored = { version: STEP_HISTORY_CACHE_VERSION, source: 'pedometer', days: { '2026-03-09': { steps: 4000, complete: true } } };
+
+            expect(StepHistoryCacheService.parse(stored, 'pedometer').days).toEqual(stored.days);
+            expect(StepHistoryCacheService.parse(stored, 'healthkit').days).toEqual({});
+            expect(StepHistoryCacheService.parse({ ...stored, version: 0 }, 'pedometer').days).toEqual({});
+            expect(StepHistoryCacheService.parse(null, 'pedometer').days).toEqual({});
+            expect(StepHistoryCacheService.parse({ ...stored, days: { 'yesterday': { steps: 1, complete: true } } }, 'pedometer').days).toEqual({});
+        });
+    });
+
+    describe('listDays', () => {
+        it('should list every day inclusive, across a month end', () => {
+            expect(StepHistoryCacheService.listDays('2026-02-27', '2026-03-02')).toEqual([
+                '2026-02-27', '2026-02-28', '2026-03-01', '2026-03-02'
+            ]);
+            expect(StepHistoryCacheService.listDays('2026-03-02', '2026-03-01')).toEqual([]);
+        });
+    });
+
+    describe('getDaysToFetch', () => {
+        it('should only query missing or unfinished days and always today', () => {
+            const cache = StepHistoryCacheService.applyFetched(
+                StepHistoryCacheService.createEmpty('auto'),
+                [{ date: '2026-03-06', steps: 5000 }, { date: '2026-03-07', steps: 6000 }],
+                '2026-03-08' // The 7th was only a day old when it was queried
+            );
+            const days = StepHistoryCacheService.listDays('2026-03-06', TODAY);
+
+            expect(StepHistoryCacheService.getDaysToFetch(cache, days, TODAY)).toEqual(['2026-03-07', '2026-03-08', '2026-03-09', '2026-03-10']);
+        });
+
+        it('should query nothing but yesterday and today once the past is cached', () => {
+            const days = StepHistoryCacheService.listDays('2026-03-07', TODAY);
+            const cache = StepHistoryCacheService.applyFetched(
+                StepHistoryCacheService.createEmpty('auto'),
+                days.map(date => ({ date, steps: 1000 })),
+                TODAY
+            );
+            expect(StepHistoryCacheService.getDaysToFetch(cache, days, TODAY)).toEqual(['2026-03-09', TODAY]);
+        });
+
+        it('should pick up steps that arrive for yesterday a day late', () => {
+            const empty = StepHistoryCacheService.createEmpty('auto');
+            // Queried on the 10th, before the watch had synced the evening of the 9th
+            const early = StepHistoryCacheService.applyFetched(empty, [{ date: '2026-03-09', steps: 3000 }], TODAY);
+            expect(StepHistoryCacheService.getDaysToFetch(early, ['2026-03-09'], '2026-03-11')).toEqual(['2026-03-09']);
+
+            const late = StepHistoryCacheService.applyFetched(early, [{ date: '2026-03-09', steps: 7500 }], '2026-03-11');
+            expect(late.days['2026-03-09']).toEqual({ steps: 7500, complete: true });
+            expect(StepHistoryCacheService.getDaysToFetch(late, ['2026-03-09'], '2026-03-12')).toEqual([]);
+        });
+    });
+
+    describe('getHistory', () => {
+        it('should return days in order with unread days as 0', () => {
+            const cache = StepHistoryCacheService.applyFetched(
+                StepHistoryCacheService.createEmpty('auto'),
+                [{ date: TODAY, steps: 2500 }],
+                TODAY
+            );
+            expect(StepHistoryCacheService.getHistory(cache, ['2026-03-09', TODAY])).toEqual([
+                { date: '2026-03-09', steps: 0 },
+                { date: TODAY, steps: 2500 }
+            ]);
+        });
+    });
+
+    describe('prune', () => {
+        it('should drop days older than the cache keeps', () => {
+            const oldest = addDays(TODAY, -(MAX_CACHED_DAYS - 1));
+            const cache = StepHistoryCacheService.applyFetched(
+                StepHistoryCacheService.createEmpty('auto'),
+                [{ date: addDays(oldest, -1), steps: 1 }, { date: oldest, steps: 2 }],
+                TODAY
+            );
+            expect(Object.keys(StepHistoryCacheService.prune(cache, TODAY).days)).toEqual([oldest]);
+        });
+    });
+});
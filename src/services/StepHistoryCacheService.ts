@@ -0,0 +1,101 @@
+/**
+ * File: src/services/StepHistoryCacheService.ts
+ * Purpose: Pure logic for the local step history cache: which days still need querying, merging fresh
+ * counts in, and reading history back out. StepHistoryService does the storage and step queries.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Yesterday stays open for late-arriving steps; version 2 drops caches that closed it too early.
+ */
+import { StepSourcePreference } from '../types';
+import { DateKey, addDays, daysBetween, isDateKey } from '../utils/date';
+
+export const STEP_HISTORY_CACHE_VERSION = 2;
+export const MAX_CACHED_DAYS = 400; // A full year for the dashboard plus some slack
+
+// Watches and health apps can deliver a day's steps the day after, so a day is only final once this many days have passed
+export const LATE_STEPS_DAYS = 1;
+
+export interface CachedStepDay {
+    steps: number;
+    complete: boolean; // Queried more than LATE_STEPS_DAYS after the day, so the count can no longer change
+}
+
+export interface StepHistoryCache {
+    version: number;
+    source: StepSourcePreference; // Counts from another source may differ, so a source change starts over
+    days: Record<DateKey, CachedStepDay>;
+}
+
+export interface StepHistoryDay {
+    date: DateKey;
+    steps: number;
+}
+
+export const StepHistoryCacheService = {
+    createEmpty(source: StepSourcePreference): StepHistoryCache {
+        return { version: STEP_HISTORY_CACHE_VERSION, source, days: {} };
+    },
+
+    /**
+     * A stored cache, or an empty one if it is missing, malformed, from an older version or from another source
+     */
+    parse(raw: unknown, source: StepSourcePreference): StepHistoryCache {
+        const cache = raw as StepHistoryCache | null;
+        if (!cache || cache.version !== STEP_HISTORY_CACHE_VERSION || cache.source !== source || typeof cache.days !== 'object' || !cache.days) {
+            return this.createEmpty(source);
+        }
+
+        const days: Record<DateKey, CachedStepDay> = {};
+        for (const [date, day] of Object.entries(cache.days)) {
+            if (isDateKey(date) && typeof day?.steps === 'number' && typeof day.complete === 'boolean') {
+                days[date] = { steps: day.steps, complete: day.complete };
+            }
+        }
+        return { version: STEP_HISTORY_CACHE_VERSION, source, days };
+    },
+
+    /**
+     * Every day from start to end, inclusive
+     */
+    listDays(start: DateKey, end: DateKey): DateKey[] {
+        const count = daysBetween(start, end) + 1;
+        return Array.from({ length: Math.max(0, count) }, (_, i) => addDays(start, i));
+    },
+
+    /**
+     * Days that have to be queried: anything not cached, cached before it was final, or today
+     */
+    getDaysToFetch(cache: StepHistoryCache, days: DateKey[], today: DateKey): DateKey[] {
+        return days.filter(date => date >= today || !cache.days[date]?.complete);
+    },
+
+    /**
+     * Cache with freshly queried counts. Days older than LATE_STEPS_DAYS are final; today and yesterday
+     * are queried again next time.
+     */
+    applyFetched(cache: StepHistoryCache, fetched: StepHistoryDay[], today: DateKey): StepHistoryCache {
+        const days = { ...cache.days };
+        for (const { date, steps } of fetched) {
+            days[date] = { steps, complete: daysBetween(date, today) > LATE_STEPS_DAYS };
+        }
+        return { ...cache, days };
+    },
+
+    /**
+     * Cache without days older than MAX_CACHED_DAYS before today
+     */
+    prune(cache: StepHistoryCache, today: DateKey): StepHistoryCache {
+        const oldest = addDays(today, -(MAX_CACHED_DAYS - 1));
+        const days = Object.fromEntries(Object.entries(cache.days).filter(([date]) => date >= oldest));
+        return { ...cache, days };
+    },
+
+    /**
+     * History for the given days in order; days that could not be read count as 0
+     */
+    getHistory(cache: StepHistoryCache, days: DateKey[]): StepHistoryDay[] {
+        return days.map(date => ({ date, steps: cache.days[date]?.steps ?? 0 }));
+    }
+};
@@ -0,0 +1,65 @@
+/**
+ * File: src/services/StepHistoryService.ts
+ * Purpose: Daily step history backed by a local cache, so screens only query the step source for days
+ * it has not seen finished yet (and always for today) instead of every day on every mount.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { StepService } from './StepService';
+import { StepHistoryCache, StepHistoryCacheService, StepHistoryDay } from './StepHistoryCacheService';
+import { DateKey, addDays, toLocalDateKey } from '../utils/date';
+
+const cacheKey = (userId: string) => `stridr_step_history_${userId}`;
+
+const readCache = async (userId: string): Promise<StepHistoryCache> => {
+    const source = StepService.getSourcePreference();
+    try {
+        const raw = await AsyncStorage.getItem(cacheKey(userId));
+        return StepHistoryCacheService.parse(raw ? JSON.parse(raw) : null, source);
+    } catch (error) {
+        console.error('Error reading step history cache:', error);
+        return StepHistoryCacheService.createEmpty(source);
+    }
+};
+
+export const StepHistoryService = {
+    /**
+     * Steps per local day from start to end (inclusive, capped at today), oldest first
+     */
+    async getHistory(userId: string, start: DateKey, end: DateKey): Promise<StepHistoryDay[]> {
+        const today = toLocalDateKey();
+        const days = StepHistoryCacheService.listDays(start, end < today ? end : today);
+
+        let cache = await readCache(userId);
+        const toFetch = StepHistoryCacheService.getDaysToFetch(cache, days, today);
+
+        if (toFetch.length > 0) {
+            const fetched = await StepService.getStepsForDays(toFetch);
+            cache = StepHistoryCacheService.prune(StepHistoryCacheService.applyFetched(cache, fetched, today), today);
+            try {
+                await AsyncStorage.setItem(cacheKey(userId), JSON.stringify(cache));
+            } catch (error) {
+                console.error('Error saving step history cache:', error);
+            }
+            if (__DEV__) console.log(`[StepHistoryService] Queried ${toFetch.length} of ${days.length} days`);
+        }
+
+        return StepHistoryCacheService.getHistory(cache, days);
+    },
+
+    /**
+     * The last `days` days, ending today
+     */
+    async getDailyHistory(userId: string, days: number): Promise<StepHistoryDay[]> {
+        const today = toLocalDateKey();
+        return this.getHistory(userId, addDays(today, -(days - 1)), today);
+    },
+
+    /**
+     * Every day of a year, up to today for the current year
+     */
+    async getYearlyHistory(userId: string, year: number): Promise<StepHistoryDay[]> {
+        return this.getHistory(userId, `${year}-01-01`, `${year}-12-31`);
+    }
+};
@@ -6,30 +6,118 @@
  *
  * Modification History:
  * 2024-01-12: Documentation added.
+ * 2026-10-19: History entries are keyed by local calendar day instead of UTC.
+ * 2026-10-19: Reads through pluggable step sources (pedometer, Apple Health, Health Connect) chosen by preference.
+ * 2026-10-19: Day-by-day history moved to StepHistoryService, which caches it; this only queries the given days.
+ * 2026-10-19: Added checkPermissions and getReadingBetween for background syncs.
  */
-import { Pedometer } from 'expo-sensors';
+import { DateKey, parseDateKey } from '../utils/date';
+import { StepSourceId, StepSourcePreference } from '../types';
+import { StepReading, StepSource, StepSourceService } from './StepSourceService';
+import { PedometerStepSource } from './PedometerStepSource';
+import { HealthKitStepSource } from './HealthKitStepSource';
+import { HealthConnectStepSource } from './HealthConnectStepSource';
+
+const ALL_SOURCES: StepSource[] = [HealthKitStepSource, HealthConnectStepSource, PedometerStepSource];
+
+let preference: StepSourcePreference = 'auto';
+let activeSources: StepSource[] | null = null; // Available (and, once asked, permitted) sources in read order
+let lastSourceId: StepSourceId | null = null;
+
+const HISTORY_BATCH_SIZE = 30; // Day queries in flight at once, to avoid overwhelming the bridge
+
+const getCandidateSources = () =>
+    StepSourceService.filterAvailable(StepSourceService.orderSources(ALL_SOURCES, preference));
+
+const readWindow = async (start: Date, end: Date): Promise<StepReading> => {
+    if (!activeSources) activeSources = await getCandidateSources();
+
+    const reading = await StepSourceService.readSteps(activeSources, preference, start, end);
+    if (reading.sourceId) lastSourceId = reading.sourceId;
+    else if (__DEV__) console.warn('[StepService] No step source could be read');
+    return reading;
+};
 
 export const StepService = {
+    /**
+     * Choose where steps are read from. Takes effect on the next query; call requestPermissions to prompt for it.
+     */
+    setSourcePreference(value: StepSourcePreference) {
+        if (value === preference) return;
+        preference = value;
+        activeSources = null;
+        lastSourceId = null;
+    },
+
+    getSourcePreference(): StepSourcePreference {
+        return preference;
+    },
+
+    /**
+     * The source the last successful query was answered by, or null before the first one
+     */
+    getLastSourceId(): StepSourceId | null {
+        return lastSourceId;
+    },
+
+    /**
+     * Every source this device supports, for the step source settings
+     */
+    async getAvailableSourceIds(): Promise<StepSourceId[]> {
+        const available = await StepSourceService.filterAvailable(StepSourceService.orderSources(ALL_SOURCES, 'auto'));
+        return available.map(source => source.id);
+    },
+
     async isAvailable(): Promise<boolean> {
-        return await Pedometer.isAvailableAsync();
+        return (await getCandidateSources()).length > 0;
     },
 
+    /**
+     * Ask for access to each source in use, one prompt at a time. Sources that refuse are not read.
+     */
     async requestPermissions(): Promise<boolean> {
-        const { status } = await Pedometer.requestPermissionsAsync();
-        return status === 'granted';
+        const permitted: StepSource[] = [];
+        for (const source of await getCandidateSources()) {
+            try {
+                if (await source.requestPermissions()) permitted.push(source);
+            } catch (error) {
+                if (__DEV__) console.warn(`[StepService] ${source.id} permission request failed`, error);
+            }
+        }
+        activeSources = permitted;
+        return permitted.length > 0;
     },
 
-    async getStepsBetween(start: Date, end: Date): Promise<number> {
-        try {
-            if (__DEV__) {
-                // console.log('[StepService] getStepsBetween:', start.toISOString(), '->', end.toISOString());
+    /**
+     * Use the sources that already have access, without prompting. For syncs with no UI to prompt from.
+     */
+    async checkPermissions(): Promise<boolean> {
+        const permitted: StepSource[] = [];
+        for (const source of await getCandidateSources()) {
+            try {
+                if (await source.hasPermissions()) permitted.push(source);
+            } catch (error) {
+                if (__DEV__) console.warn(`[StepService] ${source.id} permission check failed`, error);
             }
+        }
+        activeSources = permitted;
+        return permitted.length > 0;
+    },
+
+    async getStepsBetween(start: Date, end: Date): Promise<number> {
+        return (await this.getReadingBetween(start, end)).steps;
+    },
 
-            const result = await Pedometer.getStepCountAsync(start, end);
-            return result.steps;
+    /**
+     * Steps for a window along with the source that answered. sourceId is null when nothing could be read
+     * (e.g. health data is locked while the phone is), which callers must not treat as zero steps.
+     */
+    async getReadingBetween(start: Date, end: Date): Promise<StepReading> {
+        try {
+            return await readWindow(start, end);
         } catch (error) {
-            if (__DEV__) console.warn('Pedometer query failed', error);
-            return 0;
+            if (__DEV__) console.warn('Step query failed', error);
+            return { steps: 0, sourceId: null };
         }
     },
 
@@ -42,80 +130,31 @@ export const StepService = {
         return steps;
     },
 
-    async getDailyHistory(days: number): Promise<{ date: string; steps: number }[]> {
-        const history = [];
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-
-        for (let i = days - 1; i >= 0; i--) {
-            const date = new Date(today);
-            date.setDate(date.getDate() - i);
-
-            const start = new Date(date);
-            start.setHours(0, 0, 0, 0);
-            const end = new Date(date);
-            end.setHours(23, 59, 59, 999);
-
-            try {
-                const steps = await this.getStepsBetween(start, end);
-                history.push({
-                    date: start.toISOString().split('T')[0],
-                    steps
-                });
-            } catch (e) {
-                console.warn(`Failed to get steps for ${date}`, e);
-                history.push({ date: start.toISOString().split('T')[0], steps: 0 });
-            }
-        }
-        return history;
-    },
-
-    async getYearlyHistory(year: number): Promise<{ date: string; steps: number }[]> {
-        const startOfYear = new Date(year, 0, 1);
-        const today = new Date();
-
-        // Only fetch up to today if the year is the current year
-        const effectiveEnd = year === today.getFullYear() ? today : new Date(year, 11, 31);
-
-        // Build array of all days we need to query
-        const days: Date[] = [];
-        const current = new Date(startOfYear);
-        current.setHours(0, 0, 0, 0);
-
-        while (current <= effectiveEnd) {
-            days.push(new Date(current));
-            current.setDate(current.getDate() + 1);
-        }
-
-        // Process in batches of 30 to avoid overwhelming the bridge
-        const BATCH_SIZE = 30;
-        const history: { date: string; steps: number }[] = [];
-
-        for (let i = 0; i < days.length; i += BATCH_SIZE) {
-            const batch = days.slice(i, i + BATCH_SIZE);
-
-            const batchResults = await Promise.all(
-                batch.map(async (day) => {
-                    const start = new Date(day);
-                    start.setHours(0, 0, 0, 0);
-                    const end = new Date(day);
+    /**
+     * Steps on each of the given local days. Days no source could be read are left out,
+     * so a failed query is never mistaken for a day without steps.
+     */
+    async getStepsForDays(days: DateKey[]): Promise<{ date: DateKey; steps: number }[]> {
+        const results: { date: DateKey; steps: number }[] = [];
+
+        for (let i = 0; i < days.length; i += HISTORY_BATCH_SIZE) {
+            const batch = await Promise.all(
+                days.slice(i, i + HISTORY_BATCH_SIZE).map(async (date) => {
+                    const start = parseDateKey(date);
+                    const end = parseDateKey(date);
                     end.setHours(23, 59, 59, 999);
 
                     try {
-                        const steps = await this.getStepsBetween(start, end);
-                        return {
-                            date: start.toISOString().split('T')[0],
-                            steps
-                        };
+                        const reading = await readWindow(start, end);
+                        return reading.sourceId ? { date, steps: reading.steps } : null;
                     } catch (e) {
-                        return { date: start.toISOString().split('T')[0], steps: 0 };
+                        if (__DEV__) console.warn(`Failed to get steps for ${date}`, e);
+                        return null;
                     }
                 })
             );
-
-            history.push(...batchResults);
+            results.push(...batch.filter((day): day is { date: DateKey; steps: number } => day !== null));
         }
-
-        return history;
+        return results;
     }
 };
@@ -0,0 +1,79 @@
+/**
+ * File: src/services/StepSourceService.test.ts
+ * Purpose: Unit tests for StepSourceService, using mock step sources.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import { StepSourceService, createMockStepSource } from './StepSourceService';
+
+const START = new Date('2026-03-10T08:00:00.000Z');
+const END = new Date('2026-03-10T12:00:00.000Z');
+
+// The phone saw the morning walk; the health platform also has the watch's steps from the same walk
+const pedometer = createMockStepSource('pedometer', [
+    { time: '2026-03-10T09:00:00.000Z', steps: 3000 },
+    { time: '2026-03-10T13:00:00.000Z', steps: 500 } // After the window
+]);
+const healthKit = createMockStepSource('healthkit', [
+    { time: '2026-03-10T09:00:00.000Z', steps: 3000 },
+    { time: '2026-03-10T10:30:00.000Z', steps: 1200 }
+]);
+
+describe('StepSourceService', () => {
+    describe('orderSources', () => {
+        it('should use every source by priority when automatic', () => {
+            const ordered = StepSourceService.orderSources([pedometer, healthKit], 'auto');
+            expect(ordered.map(s => s.id)).toEqual(['healthkit', 'pedometer']);
+        });
+
+        it('should put a chosen source first with only the pedometer behind it', () => {
+            const healthConnect = createMockStepSource('healthconnect', []);
+            expect(StepSourceService.orderSources([pedometer, healthKit, healthConnect], 'healthconnect').map(s => s.id))
+                .toEqual(['healthconnect', 'pedometer']);
+            expect(StepSourceService.orderSources([pedometer, healthKit], 'pedometer').map(s => s.id))
+                .toEqual(['pedometer']);
+        });
+    });
+
+    describe('filterAvailable', () => {
+        it('should drop sources that are unavailable or whose check fails', async () => {
+            const missing = createMockStepSource('healthconnect', [], { available: false });
+            const broken = { ...healthKit, isAvailable: () => Promise.reject(new Error('no native module')) };
+            const available = await StepSourceService.filterAvailable([broken, missing, pedometer]);
+            expect(available.map(s => s.id)).toEqual(['pedometer']);
+        });
+    });
+
+    describe('readSteps', () => {
+        it('should keep the highest reading instead of adding overlapping sources', async () => {
+            const reading = await StepSourceService.readSteps([healthKit, pedometer], 'auto', START, END);
+            expect(reading).toEqual({ steps: 4200, sourceId: 'healthkit' });
+        });
+
+        it('should let the phone win when the health platform returns nothing', async () => {
+            const denied = createMockStepSource('healthkit', []);
+            const reading = await StepSourceService.readSteps([denied, pedometer], 'auto', START, END);
+            expect(reading).toEqual({ steps: 3000, sourceId: 'pedometer' });
+        });
+
+        it('should give ties to the higher priority source', async () => {
+            const sameAsPhone = createMockStepSource('healthkit', [{ time: '2026-03-10T09:00:00.000Z', steps: 3000 }]);
+            const reading = await StepSourceService.readSteps([sameAsPhone, pedometer], 'auto', START, END);
+            expect(reading.sourceId).toBe('healthkit');
+        });
+
+        it('should read only the chosen source, falling back when its query fails', async () => {
+            expect(await StepSourceService.readSteps([pedometer, healthKit], 'pedometer', START, END))
+                .toEqual({ steps: 3000, sourceId: 'pedometer' });
+
+            const failing = createMockStepSource('healthkit', [], { failing: true });
+            expect(await StepSourceService.readSteps([failing, pedometer], 'healthkit', START, END))
+                .toEqual({ steps: 3000, sourceId: 'pedometer' });
+        });
+
+        it('should report no source when none could be read', async () => {
+            const failing = createMockStepSource('pedometer', [], { failing: true });
+            expect(await StepSourceService.readSteps([failing], 'auto', START, END)).toEqual({ steps: 0, sourceId: null });
+        });
+    });
+});
@@ -0,0 +1,122 @@
+/**
+ * File: src/services/StepSourceService.ts
+ * Purpose: Pluggable step sources: the adapter contract, source priority and de-duplication of overlapping readings.
+ * The pedometer, Apple Health and Health Connect adapters implement StepSource; StepService picks among them.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Added hasPermissions for checking access without prompting.
+ */
+import { StepSourceId, StepSourcePreference } from '../types';
+
+/**
+ * A place step counts can be read from. getStepsBetween throws when the query fails, so the caller
+ * can fall back to another source instead of recording a zero.
+ */
+export interface StepSource {
+    id: StepSourceId;
+    isAvailable(): Promise<boolean>;
+    requestPermissions(): Promise<boolean>;
+    hasPermissions(): Promise<boolean>; // Like requestPermissions but never shows a prompt, for background syncs
+    getStepsBetween(start: Date, end: Date): Promise<number>;
+}
+
+export interface StepReading {
+    steps: number;
+    sourceId: StepSourceId | null; // null when no source could be read
+}
+
+// Health platforms first: they merge the phone with watches and other apps, so they see at least as much
+export const STEP_SOURCE_PRIORITY: StepSourceId[] = ['healthkit', 'healthconnect', 'pedometer'];
+
+export const STEP_SOURCE_NAMES: Record<StepSourceId, string> = {
+    pedometer: 'Phone Motion Sensor',
+    healthkit: 'Apple Health',
+    healthconnect: 'Health Connect'
+};
+
+export const StepSourceService = {
+    /**
+     * The sources to read, in the order they should be tried. 'auto' uses every source by priority.
+     * A chosen source comes first with only the phone's pedometer behind it as a fallback, so choosing
+     * the pedometer never asks for health data access.
+     */
+    orderSources(sources: StepSource[], preference: StepSourcePreference): StepSource[] {
+        const byPriority = [...sources].sort((a, b) => STEP_SOURCE_PRIORITY.indexOf(a.id) - STEP_SOURCE_PRIORITY.indexOf(b.id));
+        if (preference === 'auto') return byPriority;
+
+        const preferred = byPriority.filter(source => source.id === preference);
+        const fallback = byPriority.filter(source => source.id === 'pedometer' && preference !== 'pedometer');
+        return [...preferred, ...fallback];
+    },
+
+    /**
+     * The sources that report themselves available, in order. A source whose check throws counts as unavailable.
+     */
+    async filterAvailable(sources: StepSource[]): Promise<StepSource[]> {
+        const checks = await Promise.all(sources.map(source => source.isAvailable().catch(() => false)));
+        return sources.filter((_, i) => checks[i]);
+    },
+
+    /**
+     * Steps for a window from already ordered sources.
+     *
+     * The sources overlap (a health platform includes the phone's own steps), so readings are never added up.
+     * With 'auto' every source is read and the highest count wins, ties going to the higher priority source;
+     * this also covers a health platform that silently returns nothing because read access was denied.
+     * With a chosen source only that one is read, falling back down the list if its query fails.
+     */
+    async readSteps(sources: StepSource[], preference: StepSourcePreference, start: Date, end: Date): Promise<StepReading> {
+        let best: StepReading = { steps: 0, sourceId: null };
+
+        for (const source of sources) {
+            let steps: number;
+            try {
+                steps = await source.getStepsBetween(start, end);
+            } catch {
+                continue;
+            }
+
+            if (preference !== 'auto') return { steps, sourceId: source.id };
+            if (best.sourceId === null || steps > best.steps) {
+                best = { steps, sourceId: source.id };
+            }
+        }
+        return best;
+    }
+};
+
+export interface MockStepSample {
+    time: string; // ISO Date
+    steps: number;
+}
+
+/**
+ * In-memory step source for tests: returns the samples that fall inside the queried window
+ */
+export const createMockStepSource = (
+    id: StepSourceId,
+    samples: MockStepSample[],
+    options: { available?: boolean; permitted?: boolean; failing?: boolean } = {}
+): StepSource => ({
+    id,
+    async isAvailable() {
+        return options.available ?? true;
+    },
+    async requestPermissions() {
+        return options.permitted ?? true;
+    },
+    async hasPermissions() {
+        return options.permitted ?? true;
+    },
+    async getStepsBetween(start: Date, end: Date) {
+        if (options.failing) throw new Error(`${id} query failed`);
+        return samples
+            .filter(sample => {
+                const time = new Date(sample.time).getTime();
+                return time >= start.getTime() && time < end.getTime();
+            })
+            .reduce((sum, sample) => sum + sample.steps, 0);
+    }
+});
@@ -1,27 +1,72 @@
 /**
  * File: src/services/StorageService.ts
- * Purpose: Centralized persistence layer using Firestore.
+ * Purpose: Centralized persistence layer. Local-first with queued Firestore writes.
  * Created: 2024-01-12
  * Author: AI Assistant
  *
  * Modification History:
  * 2024-01-12: Documentation added.
  * 2026-01-14: Migrated from AsyncStorage to Firestore.
+ * 2026-10-19: Offline-first: AsyncStorage is the source of truth, writes replay to Firestore via SyncQueueService.
+ * 2026-10-19: Added addStepsToDailyLog for accumulating a local day's steps.
+ * 2026-10-19: Added custom trail storage.
+ * 2026-10-19: Remembers the signed-in user for background tasks.
+ * 2026-10-19: Daily logs also add up hourly steps.
+ * 2026-10-19: Flushes replay only the writing user's queued writes.
  */
-import { doc, setDoc, getDoc, collection, getDocs, query, orderBy } from 'firebase/firestore';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { doc, getDoc, collection, getDocs, query, orderBy } from 'firebase/firestore';
 import { db } from '../config/firebase';
-import { UserProgress, DailyLog } from '../types';
+import { UserProgress, DailyLog, CustomTrail } from '../types';
+import { SyncQueueService } from './SyncQueueService';
+import { ProgressMergeService } from './ProgressMergeService';
+import { StatsService } from './StatsService';
+import { withTimeout } from '../utils/async';
+
+const REMOTE_READ_TIMEOUT_MS = 8000;
+const CURRENT_USER_KEY = 'stridr_current_user_id'; // Background tasks run without the auth state
+
+const localKeys = {
+    progress: (userId: string) => `stridr_user_progress_${userId}`,
+    dailyLogs: (userId: string) => `stridr_daily_logs_${userId}`,
+    preferences: (userId: string) => `stridr_preferences_${userId}`,
+    customTrails: (userId: string) => `stridr_custom_trails_${userId}`,
+};
+
+const readLocal = async <T>(key: string): Promise<T | null> => {
+    try {
+        const raw = await AsyncStorage.getItem(key);
+        return raw ? JSON.parse(raw) as T : null;
+    } catch (error) {
+        console.error(`Error reading local ${key}:`, error);
+        return null;
+    }
+};
+
+const writeLocal = async (key: string, value: unknown): Promise<void> => {
+    await AsyncStorage.setItem(key, JSON.stringify(value));
+};
+
+/**
+ * Helper: Kick off a replay of the user's queued writes without blocking the caller
+ */
+const flushInBackground = (userId: string) => {
+    StorageService.flushPendingWrites(userId).catch(error => {
+        if (__DEV__) console.log('[StorageService] Background flush failed:', error);
+    });
+};
 
 export const StorageService = {
     /**
-     * Save user progress to Firestore
+     * Save user progress locally and queue it for Firestore
+     * @param options.replace - Overwrite the server copy instead of merging with it (progress resets)
      */
-    async saveProgress(userId: string, progress: UserProgress): Promise<void> {
+    async saveProgress(userId: string, progress: UserProgress, options: { replace?: boolean } = {}): Promise<void> {
         try {
-            await setDoc(doc(db, 'userProgress', userId), {
-                ...progress,
-                updatedAt: new Date().toISOString()
-            });
+            const stamped = { ...progress, updatedAt: new Date().toISOString() };
+            await writeLocal(localKeys.progress(userId), stamped);
+            await SyncQueueService.enqueue({ kind: 'progress', userId, payload: stamped, replace: options.replace });
+            flushInBackground(userId);
         } catch (error) {
             console.error('Error saving progress:', error);
             throw error;
@@ -29,27 +74,38 @@ export const StorageService = {
     },
 
     /**
-     * Get user progress from Firestore
+     * Get user progress. Reads the local copy and reconciles it with Firestore when reachable.
      */
     async getProgress(userId: string): Promise<UserProgress | null> {
+        const local = await readLocal<UserProgress>(localKeys.progress(userId));
+        if (local && await SyncQueueService.hasPendingReset(userId)) {
+            return local;
+        }
+
         try {
-            const docSnap = await getDoc(doc(db, 'userProgress', userId));
-            if (docSnap.exists()) {
-                return docSnap.data() as UserProgress;
+            const docSnap = await withTimeout(getDoc(doc(db, 'userProgress', userId)), REMOTE_READ_TIMEOUT_MS, 'Fetch progress');
+            const remote = docSnap.exists() ? docSnap.data() as UserProgress : null;
+            const merged = ProgressMergeService.mergeProgress(local, remote);
+            if (merged) {
+                await writeLocal(localKeys.progress(userId), merged);
             }
-            return null;
+            return merged;
         } catch (error) {
-            console.error('Error getting progress:', error);
-            return null;
+            if (__DEV__) console.log('Progress fetch failed, using local copy:', error);
+            return local;
         }
     },
 
     /**
-     * Save a daily log entry to Firestore
+     * Save a daily log entry locally and queue it for Firestore
      */
     async saveDailyLog(userId: string, log: DailyLog): Promise<void> {
         try {
-            await setDoc(doc(db, 'dailyLogs', userId, 'logs', log.date), log);
+            const logs = await readLocal<Record<string, DailyLog>>(localKeys.dailyLogs(userId)) || {};
+            logs[log.date] = log;
+            await writeLocal(localKeys.dailyLogs(userId), logs);
+            await SyncQueueService.enqueue({ kind: 'dailyLog', userId, payload: log });
+            flushInBackground(userId);
         } catch (error) {
             console.error('Error saving daily log:', error);
             throw error;
@@ -57,29 +113,65 @@ export const StorageService = {
     },
 
     /**
-     * Get all daily logs for a user from Firestore
+     * Add steps to the log for a local calendar day, creating it if needed.
+     * The timezone of the first write is kept so the day stays tied to where it was walked.
+     */
+    async addStepsToDailyLog(userId: string, entry: DailyLog): Promise<DailyLog> {
+        const logs = await readLocal<Record<string, DailyLog>>(localKeys.dailyLogs(userId)) || {};
+        const log = StatsService.addToDailyLog(logs[entry.date], entry);
+        await this.saveDailyLog(userId, log);
+        return log;
+    },
+
+    /**
+     * Save several daily logs at once (used by import) and queue each for Firestore
+     */
+    async saveDailyLogs(userId: string, newLogs: DailyLog[]): Promise<void> {
+        try {
+            const logs = await readLocal<Record<string, DailyLog>>(localKeys.dailyLogs(userId)) || {};
+            for (const log of newLogs) {
+                logs[log.date] = log;
+            }
+            await writeLocal(localKeys.dailyLogs(userId), logs);
+            for (const log of newLogs) {
+                await SyncQueueService.enqueue({ kind: 'dailyLog', userId, payload: log });
+            }
+            flushInBackground(userId);
+        } catch (error) {
+            console.error('Error saving daily logs:', error);
+            throw error;
+        }
+    },
+
+    /**
+     * Get all daily logs for a user, newest first. Local and Firestore logs are merged by date.
      */
     async getDailyLogs(userId: string): Promise<DailyLog[]> {
+        const localMap = await readLocal<Record<string, DailyLog>>(localKeys.dailyLogs(userId)) || {};
+        const local = Object.values(localMap);
+
         try {
             const logsCollection = collection(db, 'dailyLogs', userId, 'logs');
             const q = query(logsCollection, orderBy('date', 'desc'));
-            const querySnapshot = await getDocs(q);
-            return querySnapshot.docs.map(doc => doc.data() as DailyLog);
+            const querySnapshot = await withTimeout(getDocs(q), REMOTE_READ_TIMEOUT_MS, 'Fetch daily logs');
+            const remote = querySnapshot.docs.map(doc => doc.data() as DailyLog);
+            const merged = ProgressMergeService.mergeDailyLogs(local, remote);
+            await writeLocal(localKeys.dailyLogs(userId), Object.fromEntries(merged.map(l => [l.date, l])));
+            return merged;
         } catch (error) {
-            console.error('Error getting daily logs:', error);
-            return [];
+            if (__DEV__) console.log('Daily logs fetch failed, using local copy:', error);
+            return ProgressMergeService.mergeDailyLogs(local, []);
         }
     },
 
     /**
-     * Save user preferences to Firestore
+     * Save user preferences locally and queue them for Firestore
      */
     async savePreferences(userId: string, preferences: any): Promise<void> {
         try {
-            await setDoc(doc(db, 'preferences', userId), {
-                ...preferences,
-                updatedAt: new Date().toISOString()
-            });
+            await writeLocal(localKeys.preferences(userId), preferences);
+            await SyncQueueService.enqueue({ kind: 'preferences', userId, payload: preferences });
+            flushInBackground(userId);
         } catch (error) {
             console.error('Error saving preferences:', error);
             throw error;
@@ -87,18 +179,133 @@ export const StorageService = {
     },
 
     /**
-     * Get user preferences from Firestore
+     * Get user preferences. Unsynced local changes win over the Firestore copy.
      */
     async getPreferences(userId: string): Promise<any | null> {
+        const local = await readLocal<any>(localKeys.preferences(userId));
+        if (local && await SyncQueueService.hasPending(userId, 'preferences')) {
+            return local;
+        }
+
         try {
-            const docSnap = await getDoc(doc(db, 'preferences', userId));
+            const docSnap = await withTimeout(getDoc(doc(db, 'preferences', userId)), REMOTE_READ_TIMEOUT_MS, 'Fetch preferences');
             if (docSnap.exists()) {
-                return docSnap.data();
+                const remote = docSnap.data();
+                await writeLocal(localKeys.preferences(userId), remote);
+                return remote;
             }
-            return null;
+            return local;
+        } catch (error) {
+            if (__DEV__) console.log('Preferences fetch failed, using local copy:', error);
+            return local;
+        }
+    },
+
+    /**
+     * Save a custom trail locally and queue it for Firestore
+     */
+    async saveCustomTrail(userId: string, trail: CustomTrail): Promise<void> {
+        try {
+            const trails = await readLocal<Record<string, CustomTrail>>(localKeys.customTrails(userId)) || {};
+            trails[trail.id] = trail;
+            await writeLocal(localKeys.customTrails(userId), trails);
+            await SyncQueueService.enqueue({ kind: 'customTrail', userId, payload: trail });
+            flushInBackground(userId);
         } catch (error) {
-            console.error('Error getting preferences:', error);
+            console.error('Error saving custom trail:', error);
+            throw error;
+        }
+    },
+
+    /**
+     * Delete a custom trail locally and queue the deletion for Firestore
+     */
+    async deleteCustomTrail(userId: string, trailId: string): Promise<void> {
+        try {
+            const trails = await readLocal<Record<string, CustomTrail>>(localKeys.customTrails(userId)) || {};
+            const trail = trails[trailId];
+            if (!trail) return;
+            delete trails[trailId];
+            await writeLocal(localKeys.customTrails(userId), trails);
+            await SyncQueueService.enqueue({ kind: 'customTrail', userId, payload: trail, deleted: true });
+            flushInBackground(userId);
+        } catch (error) {
+            console.error('Error deleting custom trail:', error);
+            throw error;
+        }
+    },
+
+    /**
+     * Get the user's custom trails, oldest first. Unsynced local changes win over the Firestore copy.
+     */
+    async getCustomTrails(userId: string): Promise<CustomTrail[]> {
+        const byCreation = (trails: CustomTrail[]) => [...trails].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+        const local = Object.values(await readLocal<Record<string, CustomTrail>>(localKeys.customTrails(userId)) || {});
+        if (await SyncQueueService.hasPending(userId, 'customTrail')) {
+            return byCreation(local);
+        }
+
+        try {
+            const trailsCollection = collection(db, 'customTrails', userId, 'trails');
+            const querySnapshot = await withTimeout(getDocs(trailsCollection), REMOTE_READ_TIMEOUT_MS, 'Fetch custom trails');
+            const remote = querySnapshot.docs.map(doc => doc.data() as CustomTrail);
+            await writeLocal(localKeys.customTrails(userId), Object.fromEntries(remote.map(t => [t.id, t])));
+            return byCreation(remote);
+        } catch (error) {
+            if (__DEV__) console.log('Custom trails fetch failed, using local copy:', error);
+            return byCreation(local);
+        }
+    },
+
+    /**
+     * Remember who is signed in, or forget it on sign-out, so background tasks know whose data to use
+     */
+    async setCurrentUserId(userId: string | null): Promise<void> {
+        try {
+            if (userId) await AsyncStorage.setItem(CURRENT_USER_KEY, userId);
+            else await AsyncStorage.removeItem(CURRENT_USER_KEY);
+        } catch (error) {
+            console.error('Error saving current user:', error);
+        }
+    },
+
+    /**
+     * The signed-in user as of the last app session, or null after sign-out
+     */
+    async getCurrentUserId(): Promise<string | null> {
+        try {
+            return await AsyncStorage.getItem(CURRENT_USER_KEY);
+        } catch (error) {
+            console.error('Error reading current user:', error);
             return null;
         }
     },
+
+    /**
+     * Replay the user's queued writes to Firestore.
+     * Returns the reconciled progress for this user if the server copy changed the local one,
+     * so callers can refresh in-memory state.
+     */
+    async flushPendingWrites(userId: string): Promise<UserProgress | null> {
+        const results = await SyncQueueService.flush(userId);
+        let refreshed: UserProgress | null = null;
+
+        for (const { userId: uid, queued, merged } of results) {
+            // Only adopt the merged copy if nothing was written locally since it was queued
+            const local = await readLocal<UserProgress>(localKeys.progress(uid));
+            if (local && local.updatedAt === queued.updatedAt) {
+                await writeLocal(localKeys.progress(uid), merged);
+                if (uid === userId) refreshed = merged;
+            }
+        }
+
+        return refreshed;
+    },
+
+    /**
+     * Number of local writes that have not reached Firestore yet
+     */
+    async getPendingWriteCount(userId: string): Promise<number> {
+        return SyncQueueService.getPendingCount(userId);
+    },
 };
@@ -0,0 +1,168 @@
+/**
+ * File: src/services/StreakService.test.ts
+ * Purpose: Unit tests for StreakService.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import { StreakService, FREEZE_EARN_DAYS, MAX_FREEZES } from './StreakService';
+import { DailyLog, StreakState } from '../types';
+import { addDays } from '../utils/date';
+
+const state = (overrides: Partial<StreakState> = {}): StreakState => ({
+    current: 0,
+    longest: 0,
+    lastQualifiedDate: null,
+    coveredThrough: null,
+    dayDate: null,
+    daySteps: 0,
+    freezes: 0,
+    daysTowardFreeze: 0,
+    frozenDates: [],
+    ...overrides
+});
+
+// A streak of `days` qualifying days ending on `lastDate`
+const running = (days: number, lastDate: string, overrides: Partial<StreakState> = {}): StreakState => state({
+    current: days,
+    longest: days,
+    lastQualifiedDate: lastDate,
+    coveredThrough: lastDate,
+    dayDate: lastDate,
+    daySteps: 5000,
+    ...overrides
+});
+
+const activity = (s: StreakState, date: string, steps: number = 500) =>
+    StreakService.recordDay(s, date, steps, 'activity', 10000);
+
+describe('StreakService', () => {
+    describe('fromProgress', () => {
+        it('should keep a stored streak', () => {
+            const stored = running(4, '2024-01-04');
+            expect(StreakService.fromProgress({ streak: stored, currentStreak: 9, lastLogDate: '2024-01-09' })).toBe(stored);
+        });
+
+        it('should build a streak from the legacy fields', () => {
+            const streak = StreakService.fromProgress({ currentStreak: 5, lastLogDate: '2024-01-01' });
+            expect(streak).toMatchObject({ current: 5, longest: 5, lastQualifiedDate: '2024-01-01', coveredThrough: '2024-01-01', freezes: 0 });
+        });
+
+        it('should start empty without a last log date', () => {
+            expect(StreakService.fromProgress({ currentStreak: 0, lastLogDate: null }).current).toBe(0);
+        });
+    });
+
+    describe('recordDay', () => {
+        it('should start a streak on the first active day', () => {
+            expect(activity(state(), '2024-01-01')).toMatchObject({ current: 1, longest: 1, lastQualifiedDate: '2024-01-01' });
+        });
+
+        it('should continue the streak on the next day', () => {
+            expect(activity(running(5, '2024-01-01'), '2024-01-02').current).toBe(6);
+        });
+
+        it('should count a day once however many syncs it takes', () => {
+            const streak = activity(activity(running(5, '2024-01-01'), '2024-01-02'), '2024-01-02');
+            expect(streak.current).toBe(6);
+            expect(streak.daySteps).toBe(1000);
+        });
+
+        it('should start over after a missed day without freezes', () => {
+            const streak = activity(running(5, '2024-01-01'), '2024-01-03');
+            expect(streak.current).toBe(1);
+            expect(streak.longest).toBe(5);
+        });
+
+        it('should keep the streak when travel puts the day before the latest one', () => {
+            expect(activity(running(5, '2024-01-02'), '2024-01-01')).toEqual(running(5, '2024-01-02'));
+        });
+
+        it('should continue across a DST change', () => {
+            // US clocks sprang forward on 2024-03-10
+            expect(activity(running(5, '2024-03-09'), '2024-03-10').current).toBe(6);
+        });
+
+        it('should only count a day once the daily goal is met under the goal rule', () => {
+            let streak = StreakService.recordDay(running(5, '2024-01-01'), '2024-01-02', 6000, 'goal', 10000);
+            expect(streak.current).toBe(5);
+            expect(streak.lastQualifiedDate).toBe('2024-01-01');
+
+            streak = StreakService.recordDay(streak, '2024-01-02', 4000, 'goal', 10000);
+            expect(streak.current).toBe(6);
+            expect(streak.lastQualifiedDate).toBe('2024-01-02');
+        });
+
+        it('should earn a freeze every few qualifying days, up to the maximum', () => {
+            let streak = state();
+            for (let i = 0; i < FREEZE_EARN_DAYS * (MAX_FREEZES + 1); i++) {
+                streak = activity(streak, addDays('2024-01-01', i));
+                if (i === FREEZE_EARN_DAYS - 1) expect(streak.freezes).toBe(1);
+            }
+            expect(streak.freezes).toBe(MAX_FREEZES);
+            expect(streak.current).toBe(FREEZE_EARN_DAYS * (MAX_FREEZES + 1));
+        });
+
+        it('should use a freeze to bridge a missed day', () => {
+            const streak = activity(running(5, '2024-01-01', { freezes: 1 }), '2024-01-03');
+            expect(streak.current).toBe(6);
+            expect(streak.freezes).toBe(0);
+            expect(streak.frozenDates).toEqual(['2024-01-02']);
+        });
+    });
+
+    describe('applyFreezes', () => {
+        it('should change nothing when yesterday qualified', () => {
+            const streak = running(5, '2024-01-01', { freezes: 1 });
+            expect(StreakService.applyFreezes(streak, '2024-01-02')).toBe(streak);
+        });
+
+        it('should cover every missed day when there are enough tokens', () => {
+            const streak = StreakService.applyFreezes(running(5, '2024-01-01', { freezes: 2 }), '2024-01-04');
+            expect(streak).toMatchObject({ current: 5, freezes: 0, coveredThrough: '2024-01-03', frozenDates: ['2024-01-02', '2024-01-03'] });
+        });
+
+        it('should end the streak and keep the tokens when there are too few', () => {
+            const streak = StreakService.applyFreezes(running(5, '2024-01-01', { freezes: 1 }), '2024-01-04');
+            expect(streak).toMatchObject({ current: 0, longest: 5, freezes: 1, frozenDates: [] });
+        });
+
+        it('should not spend tokens on a streak that already ended', () => {
+            const ended = running(0, '2024-01-01', { longest: 5, freezes: 2 });
+            expect(StreakService.applyFreezes(ended, '2024-01-03')).toBe(ended);
+        });
+    });
+
+    describe('getDisplayStreak', () => {
+        it('should show the streak while today is still open', () => {
+            expect(StreakService.getDisplayStreak(running(5, '2024-01-01'), '2024-01-02')).toBe(5);
+        });
+
+        it('should show 0 once a missed day cannot be frozen', () => {
+            expect(StreakService.getDisplayStreak(running(5, '2024-01-01'), '2024-01-03')).toBe(0);
+        });
+
+        it('should keep the streak when a freeze will cover the missed day', () => {
+            expect(StreakService.getDisplayStreak(running(5, '2024-01-01', { freezes: 1 }), '2024-01-03')).toBe(5);
+        });
+    });
+
+    describe('buildCalendarMonth', () => {
+        const logs: DailyLog[] = [
+            { date: '2024-02-01', steps: 12000, distanceMeters: 9000 },
+            { date: '2024-02-02', steps: 3000, distanceMeters: 2250 }
+        ];
+
+        it('should mark each day of the month', () => {
+            const streak = running(2, '2024-02-04', { frozenDates: ['2024-02-03'] });
+            const days = StreakService.buildCalendarMonth(2024, 2, [...logs, { date: '2024-02-04', steps: 500, distanceMeters: 375 }], streak, 'activity', 10000, '2024-02-05');
+
+            expect(days).toHaveLength(29);
+            expect(days.slice(0, 6).map(d => d.status)).toEqual(['qualified', 'qualified', 'frozen', 'qualified', 'today', 'future']);
+        });
+
+        it('should judge past days by the current rule', () => {
+            const days = StreakService.buildCalendarMonth(2024, 2, logs, state(), 'goal', 10000, '2024-02-10');
+            expect(days.slice(0, 3).map(d => d.status)).toEqual(['qualified', 'inactive', 'inactive']);
+        });
+    });
+});
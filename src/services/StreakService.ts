@@ -0,0 +1,157 @@
+/**
+ * File: src/services/StreakService.ts
+ * Purpose: Pure streak rules: which days qualify (any activity or the daily goal met), the longest streak,
+ * and freeze tokens that are earned by activity and used up automatically to cover a missed day.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import { DailyLog, StreakRule, StreakState, UserProgress } from '../types';
+import { DateKey, addDays, daysBetween } from '../utils/date';
+
+export const FREEZE_EARN_DAYS = 7; // Qualifying days that earn one freeze token
+export const MAX_FREEZES = 2; // Tokens that can be held at once
+
+export type StreakDayStatus = 'qualified' | 'frozen' | 'inactive' | 'today' | 'future';
+
+export interface StreakCalendarDay {
+    date: DateKey;
+    status: StreakDayStatus;
+}
+
+const emptyState = (): StreakState => ({
+    current: 0,
+    longest: 0,
+    lastQualifiedDate: null,
+    coveredThrough: null,
+    dayDate: null,
+    daySteps: 0,
+    freezes: 0,
+    daysTowardFreeze: 0,
+    frozenDates: []
+});
+
+const qualifies = (steps: number, rule: StreakRule, dailyGoal: number) =>
+    rule === 'goal' ? steps >= dailyGoal : steps > 0;
+
+/**
+ * Helper: Count a qualifying day, continuing the run from the last covered day or starting a new one
+ */
+const qualify = (state: StreakState, date: DateKey): StreakState => {
+    const covered = StreakService.applyFreezes(state, date);
+    if (covered.coveredThrough && date <= covered.coveredThrough) return covered;
+
+    const continues = covered.current > 0 && !!covered.coveredThrough && daysBetween(covered.coveredThrough, date) === 1;
+    const current = continues ? covered.current + 1 : 1;
+
+    // Every FREEZE_EARN_DAYS qualifying days earn a token, up to MAX_FREEZES
+    const towardFreeze = covered.daysTowardFreeze + 1;
+    const earned = towardFreeze >= FREEZE_EARN_DAYS;
+
+    return {
+        ...covered,
+        current,
+        longest: Math.max(covered.longest, current),
+        lastQualifiedDate: date,
+        coveredThrough: date,
+        freezes: earned ? Math.min(covered.freezes + 1, MAX_FREEZES) : covered.freezes,
+        daysTowardFreeze: earned ? 0 : towardFreeze
+    };
+};
+
+export const StreakService = {
+    /**
+     * The stored streak, or one built from the legacy currentStreak/lastLogDate fields
+     */
+    fromProgress(progress: Pick<UserProgress, 'streak' | 'currentStreak' | 'lastLogDate'>): StreakState {
+        if (progress.streak) return progress.streak;
+        if (!progress.lastLogDate) return emptyState();
+
+        const current = progress.currentStreak || 0;
+        return {
+            ...emptyState(),
+            current,
+            longest: current,
+            lastQualifiedDate: progress.lastLogDate,
+            coveredThrough: progress.lastLogDate,
+            dayDate: progress.lastLogDate
+        };
+    },
+
+    /**
+     * Credit steps taken on a local day. Several calls for the same day add up, so the goal rule sees the
+     * day's total. A day earlier than the latest one (after travelling west) does not change the streak.
+     */
+    recordDay(state: StreakState, date: DateKey, steps: number, rule: StreakRule, dailyGoal: number): StreakState {
+        if (state.dayDate && date < state.dayDate) return state;
+
+        const daySteps = date === state.dayDate ? state.daySteps + steps : steps;
+        const next = { ...state, dayDate: date, daySteps };
+        return qualifies(daySteps, rule, dailyGoal) ? qualify(next, date) : next;
+    },
+
+    /**
+     * Cover the missed days before `today` with freeze tokens. Tokens are only spent when there are enough
+     * for every missed day; otherwise the streak ends and the tokens are kept for the next one.
+     */
+    applyFreezes(state: StreakState, today: DateKey): StreakState {
+        if (state.current === 0 || !state.coveredThrough) return state;
+
+        const missed = daysBetween(state.coveredThrough, today) - 1;
+        if (missed <= 0) return state;
+        if (missed > state.freezes) return { ...state, current: 0 };
+
+        const frozen = Array.from({ length: missed }, (_, i) => addDays(state.coveredThrough!, i + 1));
+        return {
+            ...state,
+            freezes: state.freezes - missed,
+            frozenDates: [...state.frozenDates, ...frozen],
+            coveredThrough: addDays(today, -1)
+        };
+    },
+
+    /**
+     * The streak as of today: still counted while today is open and any missed days can be frozen, 0 once broken
+     */
+    getDisplayStreak(state: StreakState, today: DateKey): number {
+        return this.applyFreezes(state, today).current;
+    },
+
+    /**
+     * Whether today already counts toward the streak
+     */
+    hasQualifiedToday(state: StreakState, today: DateKey): boolean {
+        return state.lastQualifiedDate === today;
+    },
+
+    /**
+     * Day-by-day status for one calendar month. Past days are judged from the daily logs under the current
+     * rule; days a freeze covered come from the streak.
+     */
+    buildCalendarMonth(
+        year: number,
+        month: number, // 1-12
+        logs: DailyLog[],
+        state: StreakState,
+        rule: StreakRule,
+        dailyGoal: number,
+        today: DateKey
+    ): StreakCalendarDay[] {
+        const stepsByDate = new Map(logs.map(log => [log.date, log.steps]));
+        const frozen = new Set(state.frozenDates);
+        const daysInMonth = new Date(year, month, 0).getDate();
+        const first = `${year}-${String(month).padStart(2, '0')}-01`;
+
+        return Array.from({ length: daysInMonth }, (_, i) => {
+            const date = addDays(first, i);
+            const met = qualifies(stepsByDate.get(date) || 0, rule, dailyGoal) || state.lastQualifiedDate === date;
+
+            let status: StreakDayStatus;
+            if (met) status = 'qualified';
+            else if (frozen.has(date)) status = 'frozen';
+            else if (date === today) status = 'today';
+            else if (date > today) status = 'future';
+            else status = 'inactive';
+            return { date, status };
+        });
+    }
+};
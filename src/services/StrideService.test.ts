@@ -0,0 +1,101 @@
+/**
+ * File: src/services/StrideService.test.ts
+ * Purpose: Unit tests for StrideService and stride-aware conversion.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import { StrideService } from './StrideService';
+import { stepsToMeters, estimateStrideLengthCm, AVG_STRIDE_LENGTH_METERS } from '../utils/conversion';
+import { UserProgress } from '../types';
+
+const progress: UserProgress = {
+    activeTrails: [{
+        trailId: 'test-trail',
+        startDate: '2026-03-01T00:00:00.000Z',
+        targetDays: 7,
+        totalStepsValid: 10000,
+        currentDistanceMeters: 7620
+    }],
+    stats: {
+        totalStepsLifetime: 20000,
+        totalDistanceMetersLifetime: 15240,
+        completedTrailsCount: 0
+    },
+    lastSyncTime: '2026-03-05T10:00:00.000Z',
+    monthlyProgress: {
+        year: 2026,
+        month: 3,
+        stepsThisMonth: 12000,
+        distanceMetersThisMonth: 9144,
+        unlockedBadgeIds: ['dist-5k'],
+        monthlyBadgeEarned: false
+    },
+    pastMonths: [
+        { year: 2026, month: 2, stepsThisMonth: 8000, distanceMetersThisMonth: 6096, unlockedBadgeIds: [], monthlyBadgeEarned: false }
+    ],
+    yearlyProgress: [],
+    trailBadges: [],
+    completedTrails: [],
+    currentStreak: 0,
+    lastLogDate: null
+};
+
+describe('stride-aware conversion', () => {
+    it('should use the given stride length in cm', () => {
+        expect(stepsToMeters(1000, 80)).toBeCloseTo(800);
+    });
+
+    it('should fall back to the average stride when none or an invalid one is given', () => {
+        expect(stepsToMeters(1000)).toBeCloseTo(1000 * AVG_STRIDE_LENGTH_METERS);
+        expect(stepsToMeters(1000, 5)).toBeCloseTo(1000 * AVG_STRIDE_LENGTH_METERS);
+    });
+
+    it('should estimate stride from height within the valid range', () => {
+        expect(estimateStrideLengthCm(180)).toBe(75);
+        expect(estimateStrideLengthCm(40)).toBe(30);
+    });
+});
+
+describe('StrideService', () => {
+    describe('recalculateProgress', () => {
+        it('should recompute every distance from its step count', () => {
+            const result = StrideService.recalculateProgress(progress, 70);
+
+            expect(result.activeTrails[0].currentDistanceMeters).toBeCloseTo(7000);
+            expect(result.stats.totalDistanceMetersLifetime).toBeCloseTo(14000);
+            expect(result.monthlyProgress.distanceMetersThisMonth).toBeCloseTo(8400);
+            expect(result.pastMonths![0].distanceMetersThisMonth).toBeCloseTo(5600);
+        });
+
+        it('should keep badges already earned', () => {
+            const result = StrideService.recalculateProgress(progress, 30);
+            expect(result.monthlyProgress.unlockedBadgeIds).toEqual(['dist-5k']);
+        });
+
+        it("should only recompute the user's own part of an expedition", () => {
+            const result = StrideService.recalculateProgress({
+                ...progress,
+                activeTrails: [{
+                    ...progress.activeTrails[0],
+                    totalStepsValid: 30000,
+                    currentDistanceMeters: 22860,
+                    expedition: { id: 'exp-1', steps: 10000, distanceMeters: 7620 }
+                }]
+            }, 70);
+
+            expect(result.activeTrails[0].expedition!.distanceMeters).toBeCloseTo(7000);
+            expect(result.activeTrails[0].currentDistanceMeters).toBeCloseTo(15240 + 7000);
+        });
+    });
+
+    describe('recalculateDailyLogs', () => {
+        it('should only return logs whose distance changed', () => {
+            const result = StrideService.recalculateDailyLogs([
+                { date: '2026-03-01', steps: 1000, distanceMeters: 800 },
+                { date: '2026-03-02', steps: 1000, distanceMeters: 762 }
+            ], 80);
+
+            expect(result).toEqual([{ date: '2026-03-02', steps: 1000, distanceMeters: 800 }]);
+        });
+    });
+});
@@ -0,0 +1,55 @@
+/**
+ * File: src/services/StrideService.ts
+ * Purpose: Recalculates stored distances after the user changes their stride length.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Only the user's own part of an expedition is recalculated.
+ */
+import { DailyLog, MonthlyProgress, UserProgress } from '../types';
+import { stepsToMeters } from '../utils/conversion';
+
+const recalculateMonth = (mp: MonthlyProgress, strideLengthCm: number): MonthlyProgress => ({
+    ...mp,
+    distanceMetersThisMonth: stepsToMeters(mp.stepsThisMonth, strideLengthCm)
+});
+
+export const StrideService = {
+    /**
+     * Recompute every distance in UserProgress from its step count using the given stride.
+     * Badges already earned are kept even if a shorter stride puts a month below its threshold.
+     */
+    recalculateProgress(progress: UserProgress, strideLengthCm: number): UserProgress {
+        return {
+            ...progress,
+            activeTrails: progress.activeTrails.map(session => {
+                if (!session.expedition) {
+                    return { ...session, currentDistanceMeters: stepsToMeters(session.totalStepsValid, strideLengthCm) };
+                }
+                // Teammates' distance was measured with their own strides
+                const ownDistance = stepsToMeters(session.expedition.steps, strideLengthCm);
+                return {
+                    ...session,
+                    currentDistanceMeters: session.currentDistanceMeters - session.expedition.distanceMeters + ownDistance,
+                    expedition: { ...session.expedition, distanceMeters: ownDistance }
+                };
+            }),
+            stats: {
+                ...progress.stats,
+                totalDistanceMetersLifetime: stepsToMeters(progress.stats.totalStepsLifetime, strideLengthCm)
+            },
+            monthlyProgress: recalculateMonth(progress.monthlyProgress, strideLengthCm),
+            pastMonths: progress.pastMonths?.map(mp => recalculateMonth(mp, strideLengthCm))
+        };
+    },
+
+    /**
+     * Recompute the distance of each daily log. Only logs whose distance changed are returned.
+     */
+    recalculateDailyLogs(logs: DailyLog[], strideLengthCm: number): DailyLog[] {
+        return logs
+            .map(log => ({ ...log, distanceMeters: stepsToMeters(log.steps, strideLengthCm) }))
+            .filter((log, i) => Math.abs(log.distanceMeters - logs[i].distanceMeters) > 0.01);
+    }
+};
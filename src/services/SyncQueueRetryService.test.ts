@@ -0,0 +1,96 @@
+/**
+ * File: src/services/SyncQueueRetryService.test.ts
+ * Purpose: Unit tests for SyncQueueRetryService.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import { MAX_REPLAY_ATTEMPTS, QueuedWrite, ReplayFailure, SyncQueueRetryService } from './SyncQueueRetryService';
+
+const entry = (id: string, userId: string, attempts = 0): QueuedWrite => ({
+    id,
+    userId,
+    enqueuedAt: '2026-03-15T12:00:00.000Z',
+    attempts
+});
+
+const firestoreError = (code: string) => Object.assign(new Error(code), { code });
+
+/**
+ * Replays a user's entries the way SyncQueueService.flush does, with a fake Firestore
+ */
+const flush = (queue: QueuedWrite[], userId: string, write: (e: QueuedWrite) => ReplayFailure | null) => {
+    let latest = queue;
+    const written: string[] = [];
+    for (const e of SyncQueueRetryService.entriesFor(queue, userId)) {
+        const failure = write(e);
+        if (!failure) {
+            written.push(e.id);
+            latest = latest.filter(other => other !== e);
+            continue;
+        }
+        latest = SyncQueueRetryService.afterFailure(latest, e, failure);
+        if (failure === 'offline') break;
+    }
+    return { queue: latest, written };
+};
+
+describe('SyncQueueRetryService', () => {
+    describe('with two users on one device', () => {
+        const queue = [entry('progress/a', 'a'), entry('dailyLog/a/2026-03-14', 'a'), entry('progress/b', 'b'), entry('preferences/b', 'b')];
+
+        it('should only replay the signed-in user\'s entries', () => {
+            expect(SyncQueueRetryService.entriesFor(queue, 'b').map(e => e.id)).toEqual(['progress/b', 'preferences/b']);
+        });
+
+        it('should not let the other account\'s entries block the signed-in user', () => {
+            // Writes for "a" would be rejected while "b" is signed in
+            const result = flush(queue, 'b', e => e.userId === 'b' ? null : 'rejected');
+            expect(result.written).toEqual(['progress/b', 'preferences/b']);
+            expect(result.queue.map(e => e.id)).toEqual(['progress/a', 'dailyLog/a/2026-03-14']);
+        });
+    });
+
+    describe('with an entry that is always rejected', () => {
+        const queue = [entry('progress/a', 'a'), entry('dailyLog/a/2026-03-14', 'a')];
+
+        it('should drop it and replay the rest', () => {
+            const result = flush(queue, 'a', e => e.id === 'progress/a' ? 'rejected' : null);
+            expect(result.written).toEqual(['dailyLog/a/2026-03-14']);
+            expect(result.queue).toEqual([]);
+        });
+
+        it('should give up on an entry that keeps failing after MAX_REPLAY_ATTEMPTS', () => {
+            let current = queue;
+            for (let i = 0; i < MAX_REPLAY_ATTEMPTS; i++) {
+                const result = flush(current, 'a', e => e.id === 'progress/a' ? 'failed' : null);
+                current = result.queue;
+                expect(result.written).toEqual(i === 0 ? ['dailyLog/a/2026-03-14'] : []);
+            }
+            expect(current).toEqual([]);
+        });
+    });
+
+    describe('classifyFailure', () => {
+        it('should tell rejected writes from being offline', () => {
+            expect(SyncQueueRetryService.classifyFailure(firestoreError('permission-denied'))).toBe('rejected');
+            expect(SyncQueueRetryService.classifyFailure(firestoreError('invalid-argument'))).toBe('rejected');
+            expect(SyncQueueRetryService.classifyFailure(firestoreError('unavailable'))).toBe('offline');
+            expect(SyncQueueRetryService.classifyFailure(new Error('Save progress timed out after 10000ms'))).toBe('offline');
+            expect(SyncQueueRetryService.classifyFailure(firestoreError('internal'))).toBe('failed');
+            expect(SyncQueueRetryService.classifyFailure(new TypeError('x is undefined'))).toBe('failed');
+        });
+    });
+
+    describe('afterFailure', () => {
+        it('should keep an entry while offline without counting an attempt', () => {
+            const queue = [entry('progress/a', 'a')];
+            expect(SyncQueueRetryService.afterFailure(queue, queue[0], 'offline')).toBe(queue);
+        });
+
+        it('should count an attempt on the failed entry only', () => {
+            const failed = entry('progress/a', 'a', 1);
+            const newer = { ...failed, enqueuedAt: '2026-03-15T13:00:00.000Z', attempts: 0 };
+            expect(SyncQueueRetryService.afterFailure([failed, newer], failed, 'failed')).toEqual([{ ...failed, attempts: 2 }, newer]);
+        });
+    });
+});
@@ -0,0 +1,70 @@
+/**
+ * File: src/services/SyncQueueRetryService.ts
+ * Purpose: Pure replay rules for the sync queue: which entries a flush replays, which failures mean
+ * "try again later" and when a write is given up on.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+
+// The fields of a queued write these rules read
+export interface QueuedWrite {
+    id: string;
+    userId: string;
+    enqueuedAt: string; // ISO Date
+    attempts: number; // Failed replays that were not just the device being offline
+}
+
+/**
+ * offline: the device or server could not be reached; the entries after it would fail too.
+ * rejected: Firestore refused the write and always will (security rules, invalid data).
+ * failed: anything else; retried up to MAX_REPLAY_ATTEMPTS times.
+ */
+export type ReplayFailure = 'offline' | 'rejected' | 'failed';
+
+export const MAX_REPLAY_ATTEMPTS = 5;
+
+// Firestore error codes that a retry cannot fix
+const REJECTED_CODES = ['permission-denied', 'invalid-argument', 'failed-precondition', 'out-of-range'];
+const OFFLINE_CODES = ['unavailable', 'deadline-exceeded'];
+
+const isEntry = (entry: QueuedWrite) => (e: QueuedWrite) => e.id === entry.id && e.enqueuedAt === entry.enqueuedAt;
+
+export const SyncQueueRetryService = {
+    /**
+     * Entries one user's flush replays, in queue order. Other accounts' writes would be rejected by the
+     * security rules, so they wait until that account signs in again.
+     */
+    entriesFor<T extends QueuedWrite>(queue: T[], userId: string): T[] {
+        return queue.filter(e => e.userId === userId);
+    },
+
+    /**
+     * What a replay error means. Timeouts (from withTimeout) count as offline.
+     */
+    classifyFailure(error: unknown): ReplayFailure {
+        const code = (error as { code?: unknown } | null)?.code;
+        if (typeof code === 'string') {
+            if (REJECTED_CODES.includes(code)) return 'rejected';
+            if (OFFLINE_CODES.includes(code)) return 'offline';
+            return 'failed';
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        return /timed out/i.test(message) ? 'offline' : 'failed';
+    },
+
+    /**
+     * Whether a failed entry is given up on: it was rejected, or this was its last allowed attempt
+     */
+    shouldDrop(entry: QueuedWrite, failure: ReplayFailure): boolean {
+        return failure === 'rejected' || (failure === 'failed' && entry.attempts + 1 >= MAX_REPLAY_ATTEMPTS);
+    },
+
+    /**
+     * The queue after a replay of this exact entry failed. A newer write for the same document is left alone.
+     */
+    afterFailure<T extends QueuedWrite>(queue: T[], entry: T, failure: ReplayFailure): T[] {
+        if (failure === 'offline') return queue;
+        if (this.shouldDrop(entry, failure)) return queue.filter(e => !isEntry(entry)(e));
+        return queue.map(e => isEntry(entry)(e) ? { ...e, attempts: e.attempts + 1 } : e);
+    }
+};
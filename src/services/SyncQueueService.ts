@@ -0,0 +1,233 @@
+/**
+ * File: src/services/SyncQueueService.ts
+ * Purpose: Durable outbound queue that replays local writes to Firestore.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Queues saves and deletions of custom trails.
+ * 2026-10-19: Pending count listeners only count one user's writes.
+ * 2026-10-19: A flush replays only the signed-in user's writes; rejected writes are dropped and retries capped.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { doc, setDoc, getDoc, deleteDoc } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { UserProgress, DailyLog, CustomTrail } from '../types';
+import { ProgressMergeService } from './ProgressMergeService';
+import { SyncQueueRetryService } from './SyncQueueRetryService';
+import { withTimeout } from '../utils/async';
+
+const QUEUE_KEY = 'stridr_sync_queue';
+const REMOTE_TIMEOUT_MS = 10000;
+
+export type SyncWrite =
+    | { kind: 'progress'; userId: string; payload: UserProgress; replace?: boolean } // replace: overwrite the server copy instead of merging
+    | { kind: 'dailyLog'; userId: string; payload: DailyLog }
+    | { kind: 'preferences'; userId: string; payload: any }
+    | { kind: 'customTrail'; userId: string; payload: CustomTrail; deleted?: boolean }; // deleted: remove the server copy
+
+export type SyncQueueEntry = SyncWrite & {
+    id: string;
+    enqueuedAt: string; // ISO Date
+    attempts: number; // Failed replays while online; see SyncQueueRetryService
+};
+
+export interface MergedProgressResult {
+    userId: string;
+    queued: UserProgress; // The local copy that was queued
+    merged: UserProgress; // What was written to Firestore after conflict resolution
+}
+
+type PendingListener = (pendingCount: number) => void;
+type QueueListener = (queue: SyncQueueEntry[]) => void;
+
+const listeners = new Set<QueueListener>();
+const flushesInFlight = new Map<string, Promise<MergedProgressResult[]>>(); // By user id
+let queueLock: Promise<void> = Promise.resolve();
+
+/**
+ * Helper: Entries for the same document replace each other (last local write wins)
+ */
+const entryId = (write: SyncWrite): string => {
+    switch (write.kind) {
+        case 'progress':
+            return `progress/${write.userId}`;
+        case 'dailyLog':
+            return `dailyLog/${write.userId}/${write.payload.date}`;
+        case 'preferences':
+            return `preferences/${write.userId}`;
+        case 'customTrail':
+            return `customTrail/${write.userId}/${write.payload.id}`;
+    }
+};
+
+const readQueue = async (): Promise<SyncQueueEntry[]> => {
+    try {
+        const raw = await AsyncStorage.getItem(QUEUE_KEY);
+        return raw ? JSON.parse(raw) : [];
+    } catch (error) {
+        console.error('Error reading sync queue:', error);
+        return [];
+    }
+};
+
+const writeQueue = async (queue: SyncQueueEntry[]): Promise<void> => {
+    await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+    listeners.forEach(listener => listener(queue));
+};
+
+/**
+ * Helper: Serialize read-modify-write cycles so enqueue and flush never drop each other's changes
+ */
+const updateQueue = (mutate: (queue: SyncQueueEntry[]) => SyncQueueEntry[]): Promise<void> => {
+    const next = queueLock.then(async () => {
+        const queue = await readQueue();
+        await writeQueue(mutate(queue));
+    });
+    queueLock = next.catch(() => { });
+    return next;
+};
+
+/**
+ * Helper: Perform one queued write against Firestore.
+ * Progress is merged with the server copy first so edits made on another device survive.
+ * Returns the merged progress so the caller can refresh the local copy.
+ */
+const replay = async (entry: SyncQueueEntry): Promise<UserProgress | null> => {
+    switch (entry.kind) {
+        case 'progress': {
+            const ref = doc(db, 'userProgress', entry.userId);
+            const snap = await withTimeout(getDoc(ref), REMOTE_TIMEOUT_MS, 'Fetch progress');
+            const remote = snap.exists() ? snap.data() as UserProgress : null;
+            const merged = entry.replace
+                ? entry.payload
+                : ProgressMergeService.mergeProgress(entry.payload, remote) as UserProgress;
+            const toWrite = { ...merged, updatedAt: new Date().toISOString() };
+            await withTimeout(setDoc(ref, toWrite), REMOTE_TIMEOUT_MS, 'Save progress');
+            return toWrite;
+        }
+        case 'dailyLog':
+            await withTimeout(
+                setDoc(doc(db, 'dailyLogs', entry.userId, 'logs', entry.payload.date), entry.payload),
+                REMOTE_TIMEOUT_MS,
+                'Save daily log'
+            );
+            return null;
+        case 'preferences':
+            await withTimeout(
+                setDoc(doc(db, 'preferences', entry.userId), {
+                    ...entry.payload,
+                    updatedAt: new Date().toISOString()
+                }),
+                REMOTE_TIMEOUT_MS,
+                'Save preferences'
+            );
+            return null;
+        case 'customTrail': {
+            const ref = doc(db, 'customTrails', entry.userId, 'trails', entry.payload.id);
+            await withTimeout(
+                entry.deleted ? deleteDoc(ref) : setDoc(ref, entry.payload),
+                REMOTE_TIMEOUT_MS,
+                entry.deleted ? 'Delete custom trail' : 'Save custom trail'
+            );
+            return null;
+        }
+    }
+};
+
+export const SyncQueueService = {
+    /**
+     * Add a write to the queue, replacing any pending write for the same document.
+     * A pending progress reset stays a reset, so later writes cannot merge the old server copy back in.
+     */
+    async enqueue(write: SyncWrite): Promise<void> {
+        const id = entryId(write);
+        await updateQueue(queue => {
+            const pending = queue.find(e => e.id === id);
+            let entry = { ...write, id, enqueuedAt: new Date().toISOString(), attempts: 0 } as SyncQueueEntry;
+            if (entry.kind === 'progress' && pending?.kind === 'progress' && pending.replace) {
+                entry = { ...entry, replace: true };
+            }
+            return [...queue.filter(e => e.id !== id), entry];
+        });
+    },
+
+    /**
+     * Replay one user's queued writes to Firestore in order. Writes queued by other accounts on this
+     * device wait for those accounts. Stops when the device seems offline and keeps the rest for the next
+     * attempt. A write Firestore rejects, or that keeps failing, is dropped so it cannot block the others.
+     * Returns the server-merged progress for every progress write that went through.
+     */
+    async flush(userId: string): Promise<MergedProgressResult[]> {
+        const inFlight = flushesInFlight.get(userId);
+        if (inFlight) return inFlight;
+
+        const flushing = (async () => {
+            const results: MergedProgressResult[] = [];
+            const queue = SyncQueueRetryService.entriesFor(await readQueue(), userId);
+            for (const entry of queue) {
+                try {
+                    const merged = await replay(entry);
+                    if (merged && entry.kind === 'progress') {
+                        results.push({ userId: entry.userId, queued: entry.payload, merged });
+                    }
+                    // Only drop this exact entry; a newer write for the same document may have been enqueued meanwhile
+                    await updateQueue(latest => latest.filter(e => !(e.id === entry.id && e.enqueuedAt === entry.enqueuedAt)));
+                } catch (error) {
+                    const failure = SyncQueueRetryService.classifyFailure(error);
+                    if (SyncQueueRetryService.shouldDrop(entry, failure)) {
+                        console.error(`Error replaying ${entry.id}, dropping it:`, error);
+                    } else if (__DEV__) {
+                        console.log('[SyncQueue] Replay failed, will retry later:', error);
+                    }
+                    await updateQueue(latest => SyncQueueRetryService.afterFailure(latest, entry, failure));
+                    if (failure === 'offline') break;
+                }
+            }
+            return results;
+        })();
+
+        flushesInFlight.set(userId, flushing);
+        try {
+            return await flushing;
+        } finally {
+            flushesInFlight.delete(userId);
+        }
+    },
+
+    /**
+     * Number of writes still waiting to reach Firestore
+     */
+    async getPendingCount(userId?: string): Promise<number> {
+        const queue = await readQueue();
+        return userId ? queue.filter(e => e.userId === userId).length : queue.length;
+    },
+
+    /**
+     * Whether a write for the given document kind is still queued for this user
+     */
+    async hasPending(userId: string, kind: SyncWrite['kind']): Promise<boolean> {
+        const queue = await readQueue();
+        return queue.some(e => e.userId === userId && e.kind === kind);
+    },
+
+    /**
+     * Whether a progress reset for this user has not reached Firestore yet
+     */
+    async hasPendingReset(userId: string): Promise<boolean> {
+        const queue = await readQueue();
+        return queue.some(e => e.userId === userId && e.kind === 'progress' && !!e.replace);
+    },
+
+    /**
+     * Subscribe to changes in one user's pending count. Writes still queued for other accounts are not
+     * counted. Returns an unsubscribe function.
+     */
+    subscribe(userId: string, listener: PendingListener): () => void {
+        const queueListener: QueueListener = queue => listener(queue.filter(e => e.userId === userId).length);
+        listeners.add(queueListener);
+        return () => {
+            listeners.delete(queueListener);
+        };
+    }
+};
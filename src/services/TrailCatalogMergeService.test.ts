@@ -0,0 +1,102 @@
+/**
+ * File: src/services/TrailCatalogMergeService.test.ts
+ * Purpose: Unit tests for TrailCatalogMergeService.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import { TrailCatalogMergeService } from './TrailCatalogMergeService';
+import { RemoteTrail, Trail, TrailCatalog } from '../types';
+
+const bundledTrail: Trail = {
+    id: 'bundled',
+    name: 'Bundled Trail',
+    description: '',
+    totalDistanceMeters: 5000,
+    color: '#000',
+    difficulty: 'Easy',
+    image: 42,
+    category: 'india',
+    landmarks: [{ id: 'a', name: 'Start', distanceMeters: 0, description: '' }]
+};
+
+const remoteTrail: RemoteTrail = {
+    id: 'remote',
+    name: 'Remote Trail',
+    description: '',
+    totalDistanceMeters: 10000,
+    color: '#fff',
+    difficulty: 'Moderate',
+    category: 'cityMarathon',
+    imageUrl: 'https://example.com/remote.jpg',
+    landmarks: [{ id: 'b', name: 'Halfway', distanceMeters: 5000, description: '' }]
+};
+
+const catalog = (version: number, trails: RemoteTrail[] = [remoteTrail]): TrailCatalog => ({ version, trails });
+
+describe('TrailCatalogMergeService', () => {
+    describe('parseCatalog', () => {
+        it('should accept a well-formed catalog', () => {
+            expect(TrailCatalogMergeService.parseCatalog(catalog(2))).toEqual(catalog(2));
+        });
+
+        it('should reject catalogs without a version or trail list', () => {
+            expect(TrailCatalogMergeService.parseCatalog(null)).toBeNull();
+            expect(TrailCatalogMergeService.parseCatalog({ trails: [] })).toBeNull();
+            expect(TrailCatalogMergeService.parseCatalog({ version: 1.5, trails: [] })).toBeNull();
+            expect(TrailCatalogMergeService.parseCatalog({ version: 2, trails: {} })).toBeNull();
+        });
+
+        it('should drop invalid trails and keep the rest', () => {
+            const parsed = TrailCatalogMergeService.parseCatalog({
+                version: 2,
+                trails: [
+                    remoteTrail,
+                    { ...remoteTrail, id: 'no-category', category: undefined },
+                    { ...remoteTrail, id: 'bad-difficulty', difficulty: 'Impossible' },
+                    { ...remoteTrail, id: 'landmark-past-end', landmarks: [{ id: 'x', name: 'X', distanceMeters: 20000, description: '' }] }
+                ]
+            });
+            expect(parsed?.trails.map(t => t.id)).toEqual(['remote']);
+        });
+    });
+
+    describe('pickNewest', () => {
+        it('should pick the highest version above the bundled one', () => {
+            const cached = catalog(3);
+            const remote = catalog(4);
+            expect(TrailCatalogMergeService.pickNewest(1, cached, remote)).toBe(remote);
+            expect(TrailCatalogMergeService.pickNewest(1, remote, cached)).toBe(remote);
+        });
+
+        it('should ignore catalogs that are not newer than the bundled trails', () => {
+            expect(TrailCatalogMergeService.pickNewest(5, catalog(3), catalog(5))).toBeNull();
+            expect(TrailCatalogMergeService.pickNewest(1, null)).toBeNull();
+        });
+    });
+
+    describe('mergeCatalog', () => {
+        it('should return the bundled trails when there is no catalog', () => {
+            expect(TrailCatalogMergeService.mergeCatalog([bundledTrail], null)).toEqual([bundledTrail]);
+        });
+
+        it('should append new trails with a remote image', () => {
+            const merged = TrailCatalogMergeService.mergeCatalog([bundledTrail], catalog(2));
+            expect(merged.map(t => t.id)).toEqual(['bundled', 'remote']);
+            expect(merged[1].image).toEqual({ uri: remoteTrail.imageUrl });
+            expect(merged[1]).not.toHaveProperty('imageUrl');
+        });
+
+        it('should override bundled trails by id and keep the bundled image if none is given', () => {
+            const update: RemoteTrail = { ...remoteTrail, id: 'bundled', name: 'Renamed', imageUrl: undefined };
+            const merged = TrailCatalogMergeService.mergeCatalog([bundledTrail], catalog(2, [update]));
+            expect(merged).toHaveLength(1);
+            expect(merged[0].name).toBe('Renamed');
+            expect(merged[0].image).toBe(42);
+        });
+
+        it('should keep bundled trails missing from the catalog', () => {
+            const merged = TrailCatalogMergeService.mergeCatalog([bundledTrail], catalog(2, []));
+            expect(merged).toEqual([bundledTrail]);
+        });
+    });
+});
@@ -0,0 +1,92 @@
+/**
+ * File: src/services/TrailCatalogMergeService.ts
+ * Purpose: Validates remote trail catalogs and merges them with the trails bundled in the app.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import { Landmark, RemoteTrail, Trail, TrailCatalog } from '../types';
+import { RouteGeometryService } from './RouteGeometryService';
+
+const DIFFICULTIES: Trail['difficulty'][] = ['Easy', 'Moderate', 'Hard', 'Extreme'];
+const CATEGORIES = ['india', 'classicMarathon', 'cityMarathon']; // 'custom' trails never come from the catalog
+
+const isObject = (value: unknown): value is Record<string, any> => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isLandmark = (value: unknown): value is Landmark => {
+    return isObject(value) && typeof value.id === 'string' && typeof value.name === 'string'
+        && typeof value.description === 'string'
+        && typeof value.distanceMeters === 'number' && Number.isFinite(value.distanceMeters);
+};
+
+const isRemoteTrail = (value: unknown): value is RemoteTrail => {
+    return isObject(value) && typeof value.id === 'string' && value.id.length > 0
+        && typeof value.name === 'string' && typeof value.description === 'string'
+        && typeof value.color === 'string'
+        && typeof value.totalDistanceMeters === 'number' && value.totalDistanceMeters > 0
+        && DIFFICULTIES.includes(value.difficulty)
+        && CATEGORIES.includes(value.category)
+        && (value.imageUrl === undefined || typeof value.imageUrl === 'string')
+        && Array.isArray(value.landmarks) && value.landmarks.every(isLandmark);
+};
+
+export const TrailCatalogMergeService = {
+    /**
+     * Validate a catalog read from Firestore or the local cache.
+     * Returns null if the catalog itself is malformed; individual bad trails are dropped.
+     */
+    parseCatalog(data: unknown): TrailCatalog | null {
+        if (!isObject(data) || !Number.isInteger(data.version) || !Array.isArray(data.trails)) {
+            return null;
+        }
+
+        const trails = (data.trails as unknown[]).filter((entry): entry is RemoteTrail => {
+            return isRemoteTrail(entry) && RouteGeometryService.validateTrail({ ...entry, image: null }).length === 0;
+        });
+
+        return { version: data.version, trails };
+    },
+
+    /**
+     * Pick the catalog to use: the newest of the cached and remote copies, and only if it is
+     * newer than the trails bundled with this build.
+     */
+    pickNewest(bundledVersion: number, ...catalogs: (TrailCatalog | null)[]): TrailCatalog | null {
+        let newest: TrailCatalog | null = null;
+        for (const catalog of catalogs) {
+            if (catalog && catalog.version > bundledVersion && (!newest || catalog.version > newest.version)) {
+                newest = catalog;
+            }
+        }
+        return newest;
+    },
+
+    /**
+     * Combine bundled trails with a remote catalog. Remote trails replace bundled ones with the same
+     * id and new ones are appended. Bundled trails are never removed, so active sessions keep working.
+     */
+    mergeCatalog(bundled: Trail[], catalog: TrailCatalog | null): Trail[] {
+        if (!catalog) return bundled;
+
+        const remoteById = new Map(catalog.trails.map(t => [t.id, t]));
+        const toTrail = (remote: RemoteTrail, fallback?: Trail): Trail => {
+            const { imageUrl, ...rest } = remote;
+            return {
+                ...rest,
+                image: imageUrl ? { uri: imageUrl } : fallback?.image ?? null
+            };
+        };
+
+        const merged = bundled.map(trail => {
+            const remote = remoteById.get(trail.id);
+            return remote ? toTrail(remote, trail) : trail;
+        });
+        for (const remote of catalog.trails) {
+            if (!bundled.some(t => t.id === remote.id)) {
+                merged.push(toTrail(remote));
+            }
+        }
+        return merged;
+    }
+};
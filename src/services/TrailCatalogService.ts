@@ -0,0 +1,88 @@
+/**
+ * File: src/services/TrailCatalogService.ts
+ * Purpose: Loads trail definitions from Firestore, caches them locally and falls back to the bundled trails.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { Trail, TrailCatalog } from '../types';
+import { TRAILS, BUNDLED_CATALOG_VERSION } from '../const/trails';
+import { TrailCatalogMergeService } from './TrailCatalogMergeService';
+import { withTimeout } from '../utils/async';
+
+const CATALOG_CACHE_KEY = 'stridr_trail_catalog';
+const REMOTE_READ_TIMEOUT_MS = 8000;
+
+export interface LoadedCatalog {
+    version: number; // BUNDLED_CATALOG_VERSION when only bundled trails are in use
+    trails: Trail[];
+}
+
+const toLoaded = (catalog: TrailCatalog | null): LoadedCatalog => ({
+    version: catalog?.version ?? BUNDLED_CATALOG_VERSION,
+    trails: TrailCatalogMergeService.mergeCatalog(TRAILS, catalog)
+});
+
+export const TrailCatalogService = {
+    /**
+     * Trails available without any I/O: the set bundled with this build
+     */
+    getBundledCatalog(): LoadedCatalog {
+        return toLoaded(null);
+    },
+
+    /**
+     * Read the locally cached catalog, if it is newer than the bundled one
+     */
+    async getCachedCatalog(): Promise<TrailCatalog | null> {
+        try {
+            const raw = await AsyncStorage.getItem(CATALOG_CACHE_KEY);
+            const cached = raw ? TrailCatalogMergeService.parseCatalog(JSON.parse(raw)) : null;
+            return TrailCatalogMergeService.pickNewest(BUNDLED_CATALOG_VERSION, cached);
+        } catch (error) {
+            console.error('Error reading cached trail catalog:', error);
+            return null;
+        }
+    },
+
+    /**
+     * Bundled trails merged with the cached catalog. Never touches the network.
+     */
+    async loadCatalog(): Promise<LoadedCatalog> {
+        return toLoaded(await this.getCachedCatalog());
+    },
+
+    /**
+     * Fetch the catalog from Firestore and cache it if it is newer than what we have.
+     * Returns the updated catalog, or null if nothing changed or the device is offline.
+     */
+    async refreshCatalog(): Promise<LoadedCatalog | null> {
+        try {
+            const cached = await this.getCachedCatalog();
+            const docSnap = await withTimeout(getDoc(doc(db, 'config', 'trailCatalog')), REMOTE_READ_TIMEOUT_MS, 'Fetch trail catalog');
+            if (!docSnap.exists()) return null;
+
+            const data = docSnap.data();
+            const remote = TrailCatalogMergeService.parseCatalog(data);
+            if (!remote) {
+                console.error('Error refreshing trail catalog:', new Error('Remote catalog is malformed'));
+                return null;
+            }
+            if (__DEV__ && remote.trails.length < data.trails.length) {
+                console.log(`[TrailCatalog] Skipped ${data.trails.length - remote.trails.length} invalid trail(s)`);
+            }
+
+            const newest = TrailCatalogMergeService.pickNewest(BUNDLED_CATALOG_VERSION, cached, remote);
+            if (newest !== remote) return null; // Not newer than the cached or bundled trails
+
+            await AsyncStorage.setItem(CATALOG_CACHE_KEY, JSON.stringify(remote));
+            if (__DEV__) console.log(`[TrailCatalog] Updated to version ${remote.version}`);
+            return toLoaded(remote);
+        } catch (error) {
+            if (__DEV__) console.log('Trail catalog fetch failed, using local copy:', error);
+            return null;
+        }
+    }
+};
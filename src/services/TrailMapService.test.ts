@@ -0,0 +1,96 @@
+/**
+ * File: src/services/TrailMapService.test.ts
+ * Purpose: Unit tests for TrailMapService.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import { TrailMapService } from './TrailMapService';
+import { Trail } from '../types';
+
+const trail: Trail = {
+    id: 'test-trail',
+    name: 'Test Trail',
+    description: '',
+    totalDistanceMeters: 2000,
+    color: '#000',
+    difficulty: 'Easy',
+    image: 0,
+    startCoordinate: { latitude: 10, longitude: 20 },
+    endCoordinate: { latitude: 12, longitude: 20 },
+    landmarks: [
+        { id: 'a', name: 'Start', distanceMeters: 0, description: '' },
+        { id: 'b', name: 'Corner', distanceMeters: 1000, description: '', coordinate: { latitude: 10, longitude: 22 } },
+        { id: 'c', name: 'Midway', distanceMeters: 1500, description: '' }
+    ]
+};
+
+describe('TrailMapService', () => {
+    describe('getPath', () => {
+        it('should order start, landmark coordinates and end by distance', () => {
+            const path = TrailMapService.getPath(trail);
+            expect(path.map(p => p.distanceMeters)).toEqual([0, 1000, 2000]);
+            expect(path[1]).toEqual({ latitude: 10, longitude: 22, distanceMeters: 1000 });
+        });
+
+        it('should be empty for trails without coordinates', () => {
+            expect(TrailMapService.getPath({ ...trail, startCoordinate: undefined, endCoordinate: undefined })).toEqual([]);
+        });
+    });
+
+    describe('hasGeographicPath', () => {
+        it('should be false when every point is the same place', () => {
+            const loop = { ...trail, endCoordinate: trail.startCoordinate, landmarks: [] };
+            expect(TrailMapService.hasGeographicPath(TrailMapService.getPath(loop))).toBe(false);
+            expect(TrailMapService.hasGeographicPath(TrailMapService.getPath(trail))).toBe(true);
+        });
+    });
+
+    describe('getPositionAtDistance', () => {
+        const path = TrailMapService.getPath(trail);
+
+        it('should interpolate between known points', () => {
+            const position = TrailMapService.getPositionAtDistance(path, 500);
+            expect(position.latitude).toBeCloseTo(10);
+            expect(position.longitude).toBeCloseTo(21);
+        });
+
+        it('should clamp to the start and end', () => {
+            expect(TrailMapService.getPositionAtDistance(path, -10)).toMatchObject(path[0]);
+            expect(TrailMapService.getPositionAtDistance(path, 5000)).toMatchObject(path[2]);
+        });
+    });
+
+    describe('splitPathAtDistance', () => {
+        it('should join walked and remaining parts at the current position', () => {
+            const { walked, remaining } = TrailMapService.splitPathAtDistance(TrailMapService.getPath(trail), 1500);
+            expect(walked.map(p => p.distanceMeters)).toEqual([0, 1000, 1500]);
+            expect(remaining.map(p => p.distanceMeters)).toEqual([1500, 2000]);
+            expect(remaining[0].latitude).toBeCloseTo(11);
+        });
+    });
+
+    describe('getLandmarkPosition', () => {
+        it('should place landmarks without a coordinate by their distance', () => {
+            const path = TrailMapService.getPath(trail);
+            const position = TrailMapService.getLandmarkPosition(path, trail.landmarks[2]);
+            expect(position.latitude).toBeCloseTo(11);
+            expect(position.longitude).toBeCloseTo(21);
+        });
+    });
+
+    describe('createProjection', () => {
+        it('should keep every point inside the padded box with north up', () => {
+            const path = TrailMapService.getPath(trail);
+            const project = TrailMapService.createProjection(path, 300, 200, 20);
+            const points = path.map(project);
+
+            for (const p of points) {
+                expect(p.x).toBeGreaterThanOrEqual(20 - 1e-6);
+                expect(p.x).toBeLessThanOrEqual(280 + 1e-6);
+                expect(p.y).toBeGreaterThanOrEqual(20 - 1e-6);
+                expect(p.y).toBeLessThanOrEqual(180 + 1e-6);
+            }
+            expect(points[2].y).toBeLessThan(points[0].y); // End is further north
+        });
+    });
+});
@@ -0,0 +1,127 @@
+/**
+ * File: src/services/TrailMapService.ts
+ * Purpose: Geometry helpers for drawing a trail and the user's virtual position on a map.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Uses the trail's route geometry when it has one.
+ */
+import { Landmark, Trail } from '../types';
+import { Coordinate, RouteGeometryService, RoutePoint, RoutePosition } from './RouteGeometryService';
+
+export type { Coordinate } from './RouteGeometryService';
+export type TrailPathPoint = RoutePoint;
+
+export interface MapPoint {
+    x: number;
+    y: number;
+}
+
+const sameCoordinate = (a: Coordinate, b: Coordinate): boolean => {
+    return Math.abs(a.latitude - b.latitude) < 1e-6 && Math.abs(a.longitude - b.longitude) < 1e-6;
+};
+
+export const TrailMapService = {
+    /**
+     * Ordered points along the trail. Uses the route geometry if the trail has one; otherwise
+     * the start, any landmark with a coordinate, then the end.
+     * Returns an empty array when the trail has no coordinates at all.
+     */
+    getPath(trail: Trail): TrailPathPoint[] {
+        const route = RouteGeometryService.buildTrailRoute(trail);
+        if (route) return route;
+
+        const start = trail.startCoordinate ?? (trail.region
+            ? { latitude: trail.region.latitude, longitude: trail.region.longitude }
+            : undefined);
+        if (!start) return [];
+
+        const points: TrailPathPoint[] = [{ ...start, distanceMeters: 0 }];
+        for (const landmark of trail.landmarks) {
+            if (landmark.coordinate) {
+                points.push({ ...landmark.coordinate, distanceMeters: landmark.distanceMeters });
+            }
+        }
+        const end = trail.endCoordinate ?? start;
+        points.push({ ...end, distanceMeters: trail.totalDistanceMeters });
+
+        return points.sort((a, b) => a.distanceMeters - b.distanceMeters);
+    },
+
+    /**
+     * True when the path covers at least two distinct places, so it can be drawn geographically.
+     * Loop trails with only a shared start/end coordinate fall back to a schematic view.
+     */
+    hasGeographicPath(path: TrailPathPoint[]): boolean {
+        return path.some(p => !sameCoordinate(p, path[0]));
+    },
+
+    /**
+     * Position at a distance along the path, linearly interpolated between known points.
+     * Distances outside the trail are clamped to its start or end.
+     */
+    getPositionAtDistance(path: TrailPathPoint[], distanceMeters: number): RoutePosition {
+        return RouteGeometryService.getPositionAtDistance(path, distanceMeters);
+    },
+
+    /**
+     * Split the path at a distance into the walked part and the part still ahead.
+     * Both halves include the split point so they join up when drawn.
+     */
+    splitPathAtDistance(path: TrailPathPoint[], distanceMeters: number): { walked: TrailPathPoint[]; remaining: TrailPathPoint[] } {
+        if (path.length === 0) return { walked: [], remaining: [] };
+
+        const { latitude, longitude, distanceMeters: at } = this.getPositionAtDistance(path, distanceMeters);
+        const position = { latitude, longitude, distanceMeters: at };
+        return {
+            walked: [...path.filter(p => p.distanceMeters < at), position],
+            remaining: [position, ...path.filter(p => p.distanceMeters > at)]
+        };
+    },
+
+    /**
+     * Where to pin a landmark: its own coordinate if known, otherwise its distance along the path.
+     */
+    getLandmarkPosition(path: TrailPathPoint[], landmark: Landmark): Coordinate {
+        const { latitude, longitude } = landmark.coordinate ?? this.getPositionAtDistance(path, landmark.distanceMeters);
+        return { latitude, longitude };
+    },
+
+    /**
+     * Fit coordinates into a width x height box (equirectangular, longitude scaled by latitude)
+     * and return a function that projects a coordinate to SVG x/y.
+     */
+    createProjection(coordinates: Coordinate[], width: number, height: number, padding: number): (c: Coordinate) => MapPoint {
+        const lats = coordinates.map(c => c.latitude);
+        const lngs = coordinates.map(c => c.longitude);
+        const minLat = Math.min(...lats);
+        const maxLat = Math.max(...lats);
+        const minLng = Math.min(...lngs);
+        const maxLng = Math.max(...lngs);
+        const lngScale = Math.cos(((minLat + maxLat) / 2) * Math.PI / 180);
+
+        const spanX = Math.max((maxLng - minLng) * lngScale, 1e-9);
+        const spanY = Math.max(maxLat - minLat, 1e-9);
+        const scale = Math.min((width - padding * 2) / spanX, (height - padding * 2) / spanY);
+        const offsetX = (width - spanX * scale) / 2;
+        const offsetY = (height - spanY * scale) / 2;
+
+        return (c: Coordinate) => ({
+            x: offsetX + (c.longitude - minLng) * lngScale * scale,
+            y: offsetY + (maxLat - c.latitude) * scale // North is up
+        });
+    },
+
+    /**
+     * Point on a gentle S-curve for trails without real geography. `fraction` runs 0..1 along the trail.
+     */
+    getSchematicPoint(fraction: number, width: number, height: number, padding: number): MapPoint {
+        const f = Math.min(Math.max(fraction, 0), 1);
+        const amplitude = (height - padding * 2) / 3;
+        return {
+            x: padding + f * (width - padding * 2),
+            y: height / 2 - Math.sin(f * Math.PI * 2) * amplitude
+        };
+    }
+};
@@ -0,0 +1,104 @@
+/**
+ * File: src/services/TrailSessionService.ts
+ * Purpose: Pure helpers for managing multiple concurrent active trail sessions.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Synced steps are also credited to the user's part of a group expedition.
+ * 2026-10-19: Added addStepsOnDay so a session is not credited with days before it started.
+ */
+import { ActiveTrail, UserProgress } from '../types';
+import { getMaxActiveTrails } from '../const/subscription';
+import { DateKey, toLocalDateKey } from '../utils/date';
+
+export const TrailSessionService = {
+    /**
+     * Create a new session for a trail
+     * @param seedSteps - Steps already synced today that should count toward the new trail
+     */
+    createSession(trailId: string, targetDays: number, startDate: Date, seedSteps: number = 0, seedDistanceMeters: number = 0): ActiveTrail {
+        return {
+            trailId,
+            startDate: startDate.toISOString(),
+            targetDays,
+            totalStepsValid: seedSteps,
+            currentDistanceMeters: seedDistanceMeters
+        };
+    },
+
+    /**
+     * Find the session for a trail, if it is active
+     */
+    getSession(progress: UserProgress | null, trailId: string): ActiveTrail | undefined {
+        return progress?.activeTrails?.find(s => s.trailId === trailId);
+    },
+
+    /**
+     * Check whether another trail can be started under the user's plan
+     */
+    canStartTrail(progress: UserProgress | null, isPro: boolean): boolean {
+        const activeCount = progress?.activeTrails?.length || 0;
+        return activeCount < getMaxActiveTrails(isPro);
+    },
+
+    /**
+     * Credit newly synced steps to every active session.
+     * Steps are walked once but count toward each trail the user is on.
+     */
+    addSteps(sessions: ActiveTrail[], steps: number, distanceMeters: number): ActiveTrail[] {
+        return sessions.map(s => ({
+            ...s,
+            totalStepsValid: s.totalStepsValid + steps,
+            currentDistanceMeters: s.currentDistanceMeters + distanceMeters,
+            ...(s.expedition ? {
+                expedition: {
+                    ...s.expedition,
+                    steps: s.expedition.steps + steps,
+                    distanceMeters: s.expedition.distanceMeters + distanceMeters
+                }
+            } : {})
+        }));
+    },
+
+    /**
+     * Credit steps taken on a local day to the sessions that had started by then
+     */
+    addStepsOnDay(sessions: ActiveTrail[], day: DateKey, steps: number, distanceMeters: number, timeZone?: string): ActiveTrail[] {
+        return sessions.map(s => toLocalDateKey(new Date(s.startDate), timeZone) <= day
+            ? this.addSteps([s], steps, distanceMeters)[0]
+            : s);
+    },
+
+    /**
+     * Add extra days to a session's target
+     */
+    extendSession(sessions: ActiveTrail[], trailId: string, additionalDays: number): ActiveTrail[] {
+        return sessions.map(s => s.trailId === trailId ? { ...s, targetDays: s.targetDays + additionalDays } : s);
+    },
+
+    /**
+     * Remove a session (cancelled or completed)
+     */
+    removeSession(sessions: ActiveTrail[], trailId: string): ActiveTrail[] {
+        return sessions.filter(s => s.trailId !== trailId);
+    },
+
+    /**
+     * Migrate the legacy single-trail fields into the activeTrails list
+     */
+    migrateLegacyProgress(progress: UserProgress): UserProgress {
+        if (progress.activeTrails) return progress;
+
+        const { selectedTrailId, trailStartDate, targetDays, totalStepsValid, currentDistanceMeters, ...rest } = progress;
+        const activeTrails: ActiveTrail[] = selectedTrailId ? [{
+            trailId: selectedTrailId,
+            startDate: trailStartDate || progress.lastSyncTime,
+            targetDays: targetDays || 7,
+            totalStepsValid: totalStepsValid || 0,
+            currentDistanceMeters: currentDistanceMeters || 0
+        }] : [];
+
+        return { ...rest, activeTrails };
+    }
+};
@@ -7,6 +7,22 @@
  * Modification History:
  * 2024-01-12: Added CompletedTrail and DailyLog types.
  * 2026-01-15: Added MonthlyProgress and YearlyProgress for badge revamp.
+ * 2026-10-19: Added updatedAt to UserProgress for offline conflict resolution.
+ * 2026-10-19: Added ActiveTrail sessions for multiple concurrent trails.
+ * 2026-10-19: Added ExportArchive for data export.
+ * 2026-10-19: DailyLog records the timezone its day was bucketed in.
+ * 2026-10-19: Added optional route geometry to Trail.
+ * 2026-10-19: Added Trail category and the remote trail catalog format.
+ * 2026-10-19: Added user-created CustomTrail.
+ * 2026-10-19: Added friends: public profiles, friend requests and shared stats.
+ * 2026-10-19: Added weekly/monthly leaderboard totals to shared stats.
+ * 2026-10-19: Added group expeditions.
+ * 2026-10-19: Added head-to-head challenges and challenge badges.
+ * 2026-10-19: Added workplace wellness organizations, teams and organization challenges.
+ * 2026-10-19: Added the activity feed and its sharing setting.
+ * 2026-10-19: Added step source ids and the step source preference.
+ * 2026-10-19: Added hourly steps to DailyLog and lifetimeBadges for rule-defined lifetime badges.
+ * 2026-10-19: Added BadgeUnlock records for the badge unlock history.
  */
 export interface Trail {
   id: string;
@@ -17,6 +33,7 @@ export interface Trail {
   image: any; // Using 'any' for require('path/to/image')
   color: string;
   difficulty: 'Easy' | 'Moderate' | 'Hard' | 'Extreme';
+  category?: TrailCategory; // Section of the Trails screen
   landmarks: Landmark[];
   startCoordinate?: { latitude: number; longitude: number };
   endCoordinate?: { latitude: number; longitude: number };
@@ -26,6 +43,42 @@ export interface Trail {
     latitudeDelta: number;
     longitudeDelta: number;
   };
+  route?: TrailRoute; // Ordered path from start to finish; see RouteGeometryService
+}
+
+export type TrailCategory = 'india' | 'classicMarathon' | 'cityMarathon' | 'custom';
+
+// Route geometry: a Google encoded polyline (precision 5) or a GeoJSON LineString ([lng, lat] pairs)
+export type TrailRoute =
+  | { type: 'EncodedPolyline'; polyline: string }
+  | { type: 'LineString'; coordinates: [number, number][] };
+
+// ============================================
+// TRAIL CATALOG (remote trail definitions)
+// ============================================
+// Trails served from Firestore cannot require() images, so they carry an image URL instead
+export type RemoteTrail = Omit<Trail, 'image' | 'category'> & { category: TrailCategory; imageUrl?: string };
+
+export interface TrailCatalog {
+  version: number; // Newer versions replace older cached catalogs
+  trails: RemoteTrail[];
+}
+
+// ============================================
+// CUSTOM TRAILS (created by the user)
+// ============================================
+// Stored per user and shown as Trails with category 'custom'; see CustomTrailService
+export interface CustomTrail {
+  id: string; // Always starts with CUSTOM_TRAIL_ID_PREFIX
+  ownerId: string;
+  name: string;
+  description: string;
+  totalDistanceMeters: number;
+  color: string;
+  difficulty: Trail['difficulty'];
+  landmarks: Landmark[];
+  createdAt: string; // ISO Date
+  updatedAt: string; // ISO Date
 }
 
 export interface Landmark {
@@ -45,6 +98,26 @@ export interface CompletedTrail {
   totalDays: number; // Duration
   avgStepsPerDay: number;
   maxStepsInOneDay: number;
+  expedition?: ExpeditionLink; // Set when completed as a group; steps and days above are the whole group's
+}
+
+// ============================================
+// ACTIVE TRAIL SESSION (one per trail being walked)
+// ============================================
+export interface ActiveTrail {
+  trailId: string;
+  startDate: string; // ISO Date
+  targetDays: number; // User set goal
+  totalStepsValid: number; // Steps credited since startDate
+  currentDistanceMeters: number;
+  expedition?: ExpeditionLink; // Group expedition: the totals above include teammates' steps
+}
+
+// The user's own part of a group expedition
+export interface ExpeditionLink {
+  id: string;
+  steps: number;
+  distanceMeters: number;
 }
 
 export interface UserStats {
@@ -74,20 +147,31 @@ export interface YearlyProgress {
   yearlyBadgeEarned: boolean; // True if all 12 monthly badges earned
 }
 
-export interface UserProgress {
-  selectedTrailId: string | null;
-  trailStartDate: string | null; // ISO Date
-  targetDays: number; // User set goal
+// ============================================
+// BADGE UNLOCK HISTORY
+// ============================================
+// One unlock of a badge. Monthly badges unlock again each month, so they are told apart by year and month.
+export interface BadgeUnlock {
+  badgeId: string; // e.g., "step-10k", "trail-3", "master-4", "champion-2026"
+  unlockedAt: string; // ISO Date the unlock was recorded
+  date?: string; // YYYY-MM-DD local day the unlock counts for
+  value?: number; // The badge rule's metric value at the time (steps, meters, trails, days...)
+  year?: number; // Monthly and master badges: the month earned in. Champion: the year.
+  month?: number; // 1-12
+  trailId?: string; // The finished trail that unlocked it
+  estimated?: boolean; // Backfilled for a badge unlocked before unlocks were recorded; times are approximate
+}
 
-  // Trail Progress tracking (resets per trail)
-  totalStepsValid: number;
-  currentDistanceMeters: number;
+export interface UserProgress {
+  // Trails currently being walked (each with its own progress)
+  activeTrails: ActiveTrail[];
 
   // Global Stats (Lifetime)
   stats: UserStats;
 
   // Last sync info
   lastSyncTime: string; // ISO Date String
+  updatedAt?: string; // ISO Date String of the last local write (conflict resolution)
 
   // Monthly Badge Progress (new system)
   monthlyProgress: MonthlyProgress;
@@ -96,6 +180,20 @@ export interface UserProgress {
   // Trail Badges (lifetime - never reset)
   trailBadges: string[]; // e.g., ["trail-1", "trail-3"]
 
+  // Challenge wins and badges (lifetime - never reset)
+  challengesWon?: string[]; // Ids of challenges the user won or shared the win in
+  challengeBadges?: string[]; // e.g., ["challenge-1"]
+
+  // Streak (see StreakService); missing on progress saved before streak freezes existed
+  streak?: StreakState;
+  streakBadges?: string[]; // Lifetime, by longest streak, e.g., ["streak-7"]
+
+  // Other lifetime badges defined by badge rules (see BadgeRuleEngine), e.g., ["early-bird"]
+  lifetimeBadges?: string[];
+
+  // Every badge unlock, oldest first. The badge id lists above remain the record of what is unlocked.
+  badgeUnlocks?: BadgeUnlock[];
+
   // Completed Trails
   completedTrails: CompletedTrail[]; // List of completed Trail stats
   favoriteTrails?: string[]; // List of favorite trail IDs
@@ -103,13 +201,316 @@ export interface UserProgress {
   // Monthly Badge History
   pastMonths?: MonthlyProgress[]; // Archive of previous months
 
-  // Legacy fields (kept for compatibility)
+  // Legacy fields (kept for compatibility). currentStreak mirrors streak.current; lastLogDate is the last day with steps.
   currentStreak: number;
   lastLogDate: string | null; // YYYY-MM-DD
+
+  // Legacy single-trail fields (migrated into activeTrails on load)
+  selectedTrailId?: string | null;
+  trailStartDate?: string | null; // ISO Date
+  targetDays?: number;
+  totalStepsValid?: number;
+  currentDistanceMeters?: number;
+}
+
+// Which days keep a streak going: any steps at all, or the daily goal met
+export type StreakRule = 'activity' | 'goal';
+
+export interface StreakState {
+  current: number; // Qualifying days in the current run; days covered by a freeze keep it alive but do not count
+  longest: number;
+  lastQualifiedDate: string | null; // YYYY-MM-DD
+  coveredThrough: string | null; // Last day that qualified or was frozen; the run continues from the day after
+  dayDate: string | null; // Latest day steps were credited on
+  daySteps: number; // Steps credited on dayDate so far, to check the goal rule across several syncs
+  freezes: number; // Freeze tokens available
+  daysTowardFreeze: number; // Qualifying days since the last token was earned
+  frozenDates: string[]; // Missed days a freeze covered, oldest first
 }
 
 export interface DailyLog {
-  date: string; // YYYY-MM-DD
+  date: string; // YYYY-MM-DD in the user's local calendar
   steps: number;
   distanceMeters: number;
+  timeZone?: string; // IANA timezone the day was recorded in (e.g. "Asia/Kolkata")
+  hourlySteps?: number[]; // Steps per local hour, 0-23. Absent for days logged before hours were read.
+}
+
+// Where step counts are read from. The health platforms also hold steps from watches and other apps.
+export type StepSourceId = 'pedometer' | 'healthkit' | 'healthconnect';
+
+// 'auto' reads every available source and keeps the highest count for each time window
+export type StepSourcePreference = 'auto' | StepSourceId;
+
+// ============================================
+// DATA EXPORT ARCHIVE (JSON export format)
+// ============================================
+export interface ExportArchive {
+  format: 'stridr-export';
+  version: number;
+  exportedAt: string; // ISO Date
+  range: { startDate: string | null; endDate: string | null }; // YYYY-MM-DD, null = unbounded
+  distanceUnit: 'km' | 'mi'; // Unit used by the CSV columns of the same export
+  stats: UserStats;
+  dailyLogs: DailyLog[];
+  completedTrails: CompletedTrail[];
+  badgeHistory: {
+    months: MonthlyProgress[]; // Archived months plus the current month
+    yearlyProgress: YearlyProgress[];
+    trailBadges: string[];
+    // Version 2 onwards; empty when importing a version 1 archive
+    challengeBadges: string[];
+    streakBadges: string[];
+    lifetimeBadges: string[];
+    badgeUnlocks: BadgeUnlock[]; // Unlocks in the range, oldest first
+  };
+  challengesWon: string[]; // Version 2 onwards
+  streak: StreakState | null; // Version 2 onwards; null when the progress had no streak yet
+  preferences: Record<string, any> | null;
+}
+
+// ============================================
+// FRIENDS (social graph)
+// ============================================
+// Readable by any signed-in user so search results and friend lists can show a name
+export interface PublicProfile {
+  userId: string;
+  name: string;
+  profileImage?: string;
+}
+
+export interface FriendRequest {
+  id: string; // `${fromUserId}_${toUserId}`
+  from: PublicProfile;
+  to: PublicProfile;
+  createdAt: string; // ISO Date
+}
+
+export interface Friendship {
+  id: string; // Both user ids, sorted and joined with '_'
+  members: [string, string];
+  since: string; // ISO Date
+}
+
+// What the user lets friends see; each field is stripped from SharedFriendStats when off
+export interface FriendSharingSettings {
+  todaySteps: boolean;
+  activeTrail: boolean;
+  badges: boolean;
+  leaderboards: boolean; // Weekly and monthly totals
+  activity: boolean; // Badges, milestones, landmarks and finished trails posted to the activity feed
+}
+
+// Snapshot the user publishes for their friends. Omitted fields are not shared.
+export interface SharedFriendStats {
+  userId: string;
+  updatedAt: string; // ISO Date
+  timeZone: string; // todayDate is a day in this timezone
+  todayDate?: string; // YYYY-MM-DD
+  todaySteps?: number;
+  activeTrails?: { trailId: string; trailName: string; percentComplete: number }[];
+  badgeCount?: number;
+  recentBadgeIds?: string[];
+  periodTotals?: Record<LeaderboardPeriod, PeriodTotals>;
+}
+
+export interface Friend {
+  profile: PublicProfile;
+  since: string; // ISO Date
+  stats: SharedFriendStats | null; // null until the friend has published anything
+}
+
+// ============================================
+// LEADERBOARDS
+// ============================================
+export type LeaderboardPeriod = 'week' | 'month'; // Weeks start on Sunday, like the dashboard
+export type LeaderboardMetric = 'steps' | 'distance' | 'trails';
+
+// One user's totals for a calendar week or month in their own timezone, built from their DailyLogs
+export interface PeriodTotals {
+  periodKey: string; // Week: YYYY-MM-DD of its Sunday. Month: YYYY-MM
+  steps: number;
+  distanceMeters: number;
+  trailsCompleted: number;
+}
+
+export interface LeaderboardRow {
+  userId: string;
+  name: string;
+  profileImage?: string;
+  rank: number; // Tied users share a rank (1, 1, 3)
+  value: number; // The ranked metric: steps, meters or trail count
+  totals: PeriodTotals;
+  isCurrentUser: boolean;
+}
+
+// ============================================
+// GROUP EXPEDITIONS
+// ============================================
+// Several users walking one trail together; every member's steps count toward the shared distance
+export interface Expedition {
+  id: string;
+  name: string;
+  trailId: string;
+  ownerId: string;
+  memberIds: string[];
+  inviteCode: string;
+  targetDays: number;
+  startDate: string; // ISO Date
+  createdAt: string; // ISO Date
+  completedDate?: string; // ISO Date, set by whichever member's sync finishes the trail
+}
+
+// One member's steps toward an expedition, written only by that member
+export interface ExpeditionContribution {
+  userId: string;
+  name: string;
+  profileImage?: string;
+  steps: number;
+  distanceMeters: number;
+  updatedAt: string; // ISO Date
+}
+
+// ============================================
+// HEAD-TO-HEAD CHALLENGES
+// ============================================
+// most_steps: most steps between the start and end dates. first_to_distance: first to walk the goal, by the end date.
+export type ChallengeType = 'most_steps' | 'first_to_distance';
+
+// Friends competing over a date range. Days are counted in each participant's own calendar.
+export interface Challenge {
+  id: string;
+  type: ChallengeType;
+  name: string;
+  creatorId: string;
+  participantIds: string[]; // The creator and everyone who accepted
+  invitedIds: string[]; // Invited friends who have not answered yet
+  startDate: string; // YYYY-MM-DD, first day counted
+  endDate: string; // YYYY-MM-DD, last day counted
+  goalDistanceMeters?: number; // first_to_distance only
+  stake?: string; // What the participants agreed is riding on it, e.g. "Loser buys coffee"
+  organizationId?: string; // Set by an organization admin; any member of the organization can join
+  organizationName?: string;
+  createdAt: string; // ISO Date
+  winnerIds?: string[]; // Set once results are final; several on a tie
+  finishedDate?: string; // ISO Date the winner was declared
+}
+
+// One participant's DailyLogs within the challenge dates, written only by that participant
+export interface ChallengeEntry {
+  userId: string;
+  name: string;
+  profileImage?: string;
+  days: DailyLog[];
+  updatedAt: string; // ISO Date
+}
+
+export interface ChallengeStanding {
+  userId: string;
+  name: string;
+  profileImage?: string;
+  rank: number; // Tied participants share a rank (1, 1, 3)
+  steps: number;
+  distanceMeters: number;
+  reachedGoalOn?: string; // first_to_distance: YYYY-MM-DD the goal was reached
+  isCurrentUser: boolean;
+}
+
+// ============================================
+// WORKPLACE WELLNESS ORGANIZATIONS
+// ============================================
+// A company or group running Stridr as a wellness program. Admins manage teams and members.
+export interface Organization {
+  id: string;
+  name: string;
+  createdBy: string;
+  adminIds: string[];
+  memberIds: string[]; // Includes the admins
+  joinCode: string;
+  createdAt: string; // ISO Date
+}
+
+// A team inside an organization, created and staffed by admins
+export interface OrgTeam {
+  id: string;
+  name: string;
+  createdAt: string; // ISO Date
+}
+
+// One member of an organization, as every member sees it. Admins set the team; totals live elsewhere.
+export interface OrgMember {
+  userId: string;
+  name: string;
+  profileImage?: string;
+  teamId: string | null; // null until an admin puts the member on a team
+  joinCode: string; // Code the member joined with, checked by the security rules
+  joinedAt: string; // ISO Date
+  updatedAt: string; // ISO Date
+}
+
+// What one member has added to the organization's aggregates. Only the member can read it.
+export interface OrgMemberTotals {
+  teamId: string | null; // Team the totals were added to, which may lag behind an admin's change
+  periodTotals: Record<LeaderboardPeriod, PeriodTotals>; // Totals only, never daily logs
+  version: number; // Goes up with every publish, so the rules can tie aggregate changes to it
+  updatedAt: string; // ISO Date
+}
+
+// Summed totals of a team or the whole organization for one period. This is all members see of each other.
+export interface OrgAggregate {
+  groupId: string; // ORG_AGGREGATE_GROUP for the whole organization, otherwise a team id
+  period: LeaderboardPeriod;
+  periodKey: string;
+  steps: number;
+  distanceMeters: number;
+  activeMembers: number; // Members with steps in the period
+}
+
+// Ranking of teams: total steps, or steps per member so team size does not decide the winner
+export type TeamRanking = 'total' | 'average';
+
+export interface TeamStanding {
+  teamId: string;
+  name: string;
+  rank: number; // Tied teams share a rank (1, 1, 3)
+  memberCount: number;
+  activeMembers: number; // Members with steps this period
+  steps: number;
+  distanceMeters: number;
+  averageSteps: number; // Per member, rounded
+  isCurrentTeam: boolean;
+}
+
+// ============================================
+// ACTIVITY FEED
+// ============================================
+export type FeedEventType = 'badge' | 'milestone' | 'landmark' | 'trail_completed';
+
+// Something worth celebrating, detected by a sync. The id is derived from what happened,
+// so detecting the same thing twice publishes it once.
+export interface FeedEventDraft {
+  id: string;
+  type: FeedEventType;
+  badgeId?: string; // badge
+  badgeName?: string;
+  badgeIcon?: string;
+  trailId?: string; // milestone, landmark, trail_completed
+  trailName?: string;
+  percent?: 25 | 50 | 75; // milestone
+  landmarkName?: string; // landmark
+  occurredAt: string; // ISO Date
+}
+
+// A draft as published to the author's feed; readable by the author's friends
+export interface FeedEvent extends FeedEventDraft {
+  author: PublicProfile;
+  cheerIds: string[]; // Users who cheered, each once
+  commentCount: number;
+}
+
+export interface FeedComment {
+  id: string;
+  author: PublicProfile;
+  text: string;
+  createdAt: string; // ISO Date
 }
@@ -0,0 +1,44 @@
+/**
+ * File: src/utils/async.ts
+ * Purpose: Small helpers for working with promises.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Added withRemote for online-only social features.
+ */
+
+const REMOTE_TIMEOUT_MS = 10000;
+
+/**
+ * Rejects if the promise does not settle within `ms` milliseconds.
+ * Firestore writes never settle while the device is offline, so network
+ * calls are wrapped with this to let callers fall back to local data.
+ */
+export function withTimeout<T>(promise: Promise<T>, ms: number, label: string = 'Operation'): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error(`${label} timed out after ${ms}ms`)), ms);
+        promise.then(
+            (value) => {
+                clearTimeout(timer);
+                resolve(value);
+            },
+            (error) => {
+                clearTimeout(timer);
+                reject(error);
+            }
+        );
+    });
+}
+
+/**
+ * Social features need the network; turn timeouts and transport errors into one user-facing message
+ */
+export async function withRemote<T>(promise: Promise<T>, label: string): Promise<T> {
+    try {
+        return await withTimeout(promise, REMOTE_TIMEOUT_MS, label);
+    } catch (error) {
+        console.error(`Error during ${label}:`, error);
+        throw new Error('Could not reach Stridr. Check your connection and try again.');
+    }
+}
@@ -6,12 +6,35 @@
  *
  * Modification History:
  * 2024-01-12: Documentation added.
+ * 2026-10-19: Stride-aware step conversion and height-based stride estimation.
+ * 2026-10-19: Added distanceToMeters for distances typed in the user's unit.
+ * 2026-10-19: Added DEFAULT_STRIDE_LENGTH_CM, the stride distances were always converted with.
  */
 export const AVG_STRIDE_LENGTH_METERS = 0.762; // ~2.5 feet
 
+// Stride length preference (cm) for users who never set one. Matches the average stride, so existing
+// distances stay as they were.
+export const DEFAULT_STRIDE_LENGTH_CM = 76.2;
+
+// Valid range for a user-entered stride length (cm)
+export const MIN_STRIDE_LENGTH_CM = 30;
+export const MAX_STRIDE_LENGTH_CM = 150;
+
+// Walking stride is roughly 41.5% of body height
+const STRIDE_TO_HEIGHT_RATIO = 0.415;
+
 // Base conversion functions
-export function stepsToMeters(steps: number): number {
-    return steps * AVG_STRIDE_LENGTH_METERS;
+export function stepsToMeters(steps: number, strideLengthCm?: number): number {
+    const isValidStride = strideLengthCm !== undefined
+        && strideLengthCm >= MIN_STRIDE_LENGTH_CM
+        && strideLengthCm <= MAX_STRIDE_LENGTH_CM;
+    return steps * (isValidStride ? strideLengthCm! / 100 : AVG_STRIDE_LENGTH_METERS);
+}
+
+// Estimate walking stride length (cm) from height (cm)
+export function estimateStrideLengthCm(heightCm: number): number {
+    const estimate = Math.round(heightCm * STRIDE_TO_HEIGHT_RATIO);
+    return Math.min(Math.max(estimate, MIN_STRIDE_LENGTH_CM), MAX_STRIDE_LENGTH_CM);
 }
 
 export function metersToMiles(meters: number): number {
@@ -38,6 +61,11 @@ export function getDistanceValue(meters: number, unit: 'km' | 'mi' = 'km'): numb
     return unit === 'mi' ? metersToMiles(meters) : metersToKm(meters);
 }
 
+// Convert a distance entered in the user's unit back to meters
+export function distanceToMeters(value: number, unit: 'km' | 'mi' = 'km'): number {
+    return unit === 'mi' ? value / 0.000621371 : value * 1000;
+}
+
 // Get the unit label
 export function getDistanceUnit(unit: 'km' | 'mi' = 'km'): string {
     return unit === 'mi' ? 'mi' : 'km';
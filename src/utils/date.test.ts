@@ -0,0 +1,83 @@
+/**
+ * File: src/utils/date.test.ts
+ * Purpose: Unit tests for the local-day date helpers.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ */
+import { addDays, daysBetween, isDateKey, parseDateKey, splitByLocalDay, splitByLocalHour, toDateKey, toLocalDateKey } from './date';
+
+describe('date utils', () => {
+    describe('toLocalDateKey', () => {
+        it('should use the local calendar day of the given timezone', () => {
+            const instant = new Date('2026-03-01T20:00:00.000Z');
+            expect(toLocalDateKey(instant, 'Asia/Kolkata')).toBe('2026-03-02');
+            expect(toLocalDateKey(instant, 'America/Los_Angeles')).toBe('2026-03-01');
+            expect(toLocalDateKey(instant, 'UTC')).toBe('2026-03-01');
+        });
+
+        it('should use the device timezone by default', () => {
+            expect(toLocalDateKey(new Date(2026, 0, 9, 23, 59))).toBe('2026-01-09');
+        });
+    });
+
+    describe('toDateKey', () => {
+        it('should pass day keys through and convert timestamps to the local day', () => {
+            expect(toDateKey('2026-03-01')).toBe('2026-03-01');
+            expect(toDateKey(new Date(2026, 2, 1, 0, 0).toISOString())).toBe('2026-03-01');
+        });
+    });
+
+    describe('parseDateKey', () => {
+        it('should parse as local midnight', () => {
+            const date = parseDateKey('2026-03-01');
+            expect([date.getFullYear(), date.getMonth(), date.getDate(), date.getHours()]).toEqual([2026, 2, 1, 0]);
+        });
+    });
+
+    describe('addDays and daysBetween', () => {
+        it('should step over month, year and DST boundaries one calendar day at a time', () => {
+            expect(addDays('2026-02-28', 1)).toBe('2026-03-01');
+            expect(addDays('2026-01-01', -1)).toBe('2025-12-31');
+            expect(addDays('2026-03-08', 1)).toBe('2026-03-09');
+            expect(daysBetween('2026-03-07', '2026-03-09')).toBe(2);
+            expect(daysBetween('2026-11-02', '2026-10-31')).toBe(-2);
+        });
+    });
+
+    describe('isDateKey', () => {
+        it('should only accept YYYY-MM-DD strings', () => {
+            expect(isDateKey('2026-03-01')).toBe(true);
+            expect(isDateKey('2026-03-01T00:00:00.000Z')).toBe(false);
+            expect(isDateKey(20260301)).toBe(false);
+        });
+    });
+
+    describe('splitByLocalDay', () => {
+        it('should cut a window at each local midnight', () => {
+            const windows = splitByLocalDay(new Date(2026, 1, 27, 18, 30), new Date(2026, 2, 1, 9, 0));
+            expect(windows.map(w => w.date)).toEqual(['2026-02-27', '2026-02-28', '2026-03-01']);
+            expect(windows[0].start).toEqual(new Date(2026, 1, 27, 18, 30));
+            expect(windows[0].end).toEqual(new Date(2026, 1, 28));
+            expect(windows[1]).toEqual({ date: '2026-02-28', start: new Date(2026, 1, 28), end: new Date(2026, 2, 1) });
+            expect(windows[2].end).toEqual(new Date(2026, 2, 1, 9, 0));
+        });
+
+        it('should return one piece within a day and none for an empty window', () => {
+            expect(splitByLocalDay(new Date(2026, 2, 1, 8), new Date(2026, 2, 1, 9))).toHaveLength(1);
+            expect(splitByLocalDay(new Date(2026, 2, 1, 9), new Date(2026, 2, 1, 9))).toEqual([]);
+        });
+    });
+
+    describe('splitByLocalHour', () => {
+        it('should cut a window at each local hour', () => {
+            const windows = splitByLocalHour(new Date(2026, 2, 1, 6, 45), new Date(2026, 2, 1, 8, 30));
+            expect(windows.map(w => w.hour)).toEqual([6, 7, 8]);
+            expect(windows[0]).toEqual({ hour: 6, start: new Date(2026, 2, 1, 6, 45), end: new Date(2026, 2, 1, 7) });
+            expect(windows[2].end).toEqual(new Date(2026, 2, 1, 8, 30));
+        });
+
+        it('should return none for an empty window', () => {
+            expect(splitByLocalHour(new Date(2026, 2, 1, 9), new Date(2026, 2, 1, 9))).toEqual([]);
+        });
+    });
+});
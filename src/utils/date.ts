@@ -0,0 +1,146 @@
+/**
+ * File: src/utils/date.ts
+ * Purpose: Local-day helpers for bucketing steps, logs and streaks by calendar day.
+ * Created: 2026-10-19
+ * Author: AI Assistant
+ *
+ * Modification History:
+ * 2026-10-19: Added formatDateKey for showing challenge dates.
+ * 2026-10-19: Added splitByLocalDay for crediting a sync window day by day.
+ * 2026-10-19: Added splitByLocalHour for reading a day's steps hour by hour.
+ */
+
+/**
+ * Day keys are YYYY-MM-DD strings in the user's local calendar, never UTC.
+ * `toISOString()` must not be used to build them: in India or the Americas it
+ * moves steps taken near midnight onto the wrong day.
+ */
+export type DateKey = string;
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * IANA timezone of the device (e.g. "Asia/Kolkata"), or "UTC" if unavailable.
+ */
+export function getDeviceTimeZone(): string {
+    try {
+        return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+    } catch {
+        return 'UTC';
+    }
+}
+
+/**
+ * Format an instant as the calendar day it falls on. Uses the device's current
+ * timezone unless a specific IANA timezone is given.
+ */
+export function toLocalDateKey(date: Date = new Date(), timeZone?: string): DateKey {
+    if (timeZone) {
+        const parts = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit'
+        }).formatToParts(date);
+        const get = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+        return `${get('year')}-${get('month')}-${get('day')}`;
+    }
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function isDateKey(value: unknown): value is DateKey {
+    return typeof value === 'string' && DATE_KEY_PATTERN.test(value);
+}
+
+/**
+ * Normalize a stored date to a day key. Day keys pass through unchanged;
+ * ISO timestamps (e.g. a trail's startDate) are converted to the local day.
+ */
+export function toDateKey(value: string | Date): DateKey {
+    if (typeof value === 'string' && isDateKey(value)) return value;
+    return toLocalDateKey(typeof value === 'string' ? new Date(value) : value);
+}
+
+/**
+ * Parse a day key as local midnight. `new Date('YYYY-MM-DD')` parses as UTC
+ * midnight, which is the previous evening anywhere west of Greenwich.
+ */
+export function parseDateKey(key: DateKey): Date {
+    const [year, month, day] = key.split('-').map(Number);
+    return new Date(year, month - 1, day);
+}
+
+/**
+ * Short display form of a day key in the device locale, e.g. "Mar 7"
+ */
+export function formatDateKey(key: DateKey, options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric' }): string {
+    return parseDateKey(key).toLocaleDateString(undefined, options);
+}
+
+/**
+ * Shift a day key by whole calendar days. Done in UTC so DST changes never
+ * produce a 23 or 25 hour "day" that skips or repeats a date.
+ */
+export function addDays(key: DateKey, days: number): DateKey {
+    const [year, month, day] = key.split('-').map(Number);
+    const shifted = new Date(Date.UTC(year, month - 1, day + days));
+    return `${shifted.getUTCFullYear()}-${pad(shifted.getUTCMonth() + 1)}-${pad(shifted.getUTCDate())}`;
+}
+
+/**
+ * Number of calendar days from one day key to another (negative if `to` is earlier).
+ */
+export function daysBetween(from: DateKey, to: DateKey): number {
+    const [fy, fm, fd] = from.split('-').map(Number);
+    const [ty, tm, td] = to.split('-').map(Number);
+    return Math.round((Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / MS_PER_DAY);
+}
+
+export interface LocalDayWindow {
+    date: DateKey;
+    start: Date;
+    end: Date;
+}
+
+/**
+ * Split a time window at the device's local midnights, one piece per calendar day, oldest first.
+ * The first and last pieces are partial days when the window starts or ends mid-day.
+ */
+export function splitByLocalDay(start: Date, end: Date): LocalDayWindow[] {
+    const windows: LocalDayWindow[] = [];
+    let cursor = start;
+    while (cursor < end) {
+        const date = toLocalDateKey(cursor);
+        const nextMidnight = parseDateKey(addDays(date, 1));
+        const windowEnd = nextMidnight < end ? nextMidnight : end;
+        windows.push({ date, start: cursor, end: windowEnd });
+        cursor = windowEnd;
+    }
+    return windows;
+}
+
+export interface LocalHourWindow {
+    hour: number; // Local hour of day, 0-23
+    start: Date;
+    end: Date;
+}
+
+/**
+ * Split a time window at each local hour boundary, oldest first. When clocks fall back the repeated
+ * hour appears twice with the same hour number.
+ */
+export function splitByLocalHour(start: Date, end: Date): LocalHourWindow[] {
+    const windows: LocalHourWindow[] = [];
+    let cursor = start;
+    while (cursor < end) {
+        const nextHour = new Date(cursor);
+        nextHour.setMinutes(60, 0, 0);
+        const windowEnd = nextHour < end ? nextHour : end;
+        windows.push({ hour: cursor.getHours(), start: cursor, end: windowEnd });
+        cursor = windowEnd;
+    }
+    return windows;
+}